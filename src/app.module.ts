@@ -2,10 +2,18 @@ import { Module } from '@nestjs/common';
 import { ConfigModule, ConfigService } from '@nestjs/config';
 import { TypeOrmModule } from '@nestjs/typeorm';
 import { ThrottlerModule } from '@nestjs/throttler';
+import { ScheduleModule } from '@nestjs/schedule';
 import { APP_GUARD } from '@nestjs/core';
 import { AppController } from './app.controller';
 import { AppService } from './app.service';
 import { AuthModule } from './auth/auth.module';
+import { SigningKeysModule } from './auth/signing-keys.module';
+import { LoginProtectionModule } from './auth/login-protection.module';
+import { PasswordPolicyModule } from './auth/password-policy.module';
+import { SecretHashModule } from './auth/secret-hash.module';
+import { WebhooksModule } from './webhooks/webhooks.module';
+import { EmailTemplatesModule } from './email-templates/email-templates.module';
+import { MessagingModule } from './messaging/messaging.module';
 import { UsersModule } from './users/users.module';
 import { RbacModule } from './rbac/rbac.module';
 import { SettingsModule } from './settings/settings.module';
@@ -13,6 +21,10 @@ import { OrganizationsModule } from './organizations/organizations.module';
 import { TeamsModule } from './teams/teams.module';
 import { AuditModule } from './audit/audit.module';
 import { NotificationsModule } from './notifications/notifications.module';
+import { OidcModule } from './oidc/oidc.module';
+import { IdentitiesModule } from './identities/identities.module';
+import { ScimModule } from './scim/scim.module';
+import { PrivacyModule } from './privacy/privacy.module';
 import { InvitationsModule } from './auth/micro-modules/invitations/invitations.module';
 import { InvitationsController } from './auth/micro-modules/invitations/invitations.controller';
 import { TestInvitationsController } from './test-invitations.controller';
@@ -23,10 +35,21 @@ import { OrganizationMembership } from './organizations/entities/organization-me
 import { TeamMembership } from './teams/entities/team-membership.entity';
 import { JwtAuthGuard } from './auth/guards/jwt-auth.guard';
 import { PermissionsGuard } from './auth/guards/permissions.guard';
-import { AuditInterceptor } from './audit/audit.interceptor';
 import databaseConfig from './config/database.config';
 import jwtConfig from './config/jwt.config';
 import appConfig from './config/app.config';
+import oidcConfig from './config/oidc.config';
+import webauthnConfig from './config/webauthn.config';
+import loginProtectionConfig from './config/login-protection.config';
+import identityProvidersConfig from './config/identity-providers.config';
+import webhooksConfig from './config/webhooks.config';
+import scimConfig from './config/scim.config';
+import emailConfig from './config/email.config';
+import messagingConfig from './config/messaging.config';
+import verificationCodesConfig from './config/verification-codes.config';
+import auditConfig from './config/audit.config';
+import loginRiskConfig from './config/login-risk.config';
+import privacyConfig from './config/privacy.config';
 
 // Общие сервисы
 import { CommonModule } from './common/common.module';
@@ -37,7 +60,23 @@ import { MicroModulesModule } from './common/micro-modules.module';
     // Configuration
     ConfigModule.forRoot({
       isGlobal: true,
-      load: [databaseConfig, jwtConfig, appConfig],
+      load: [
+        databaseConfig,
+        jwtConfig,
+        appConfig,
+        oidcConfig,
+        webauthnConfig,
+        loginProtectionConfig,
+        identityProvidersConfig,
+        webhooksConfig,
+        scimConfig,
+        emailConfig,
+        messagingConfig,
+        verificationCodesConfig,
+        auditConfig,
+        loginRiskConfig,
+        privacyConfig,
+      ],
       envFilePath: ['.env.local', '.env'],
     }),
 
@@ -64,7 +103,17 @@ import { MicroModulesModule } from './common/micro-modules.module';
       },
     ]),
 
+    // Scheduled jobs
+    ScheduleModule.forRoot(),
+
     // Feature modules
+        SigningKeysModule,
+        LoginProtectionModule,
+        PasswordPolicyModule,
+        SecretHashModule,
+        WebhooksModule,
+        EmailTemplatesModule,
+        MessagingModule,
         AuthModule,
         UsersModule,
         RbacModule,
@@ -74,6 +123,10 @@ import { MicroModulesModule } from './common/micro-modules.module';
         AuditModule,
         NotificationsModule,
         InvitationsModule,
+        OidcModule,
+        IdentitiesModule,
+        ScimModule,
+        PrivacyModule,
         
         // Общие модули
         CommonModule,
@@ -87,14 +140,9 @@ import { MicroModulesModule } from './common/micro-modules.module';
       provide: APP_GUARD,
       useClass: JwtAuthGuard,
     },
-    // PermissionsGuard отключен - роли только для отображения в командах/организациях
-    // {
-    //   provide: APP_GUARD,
-    //   useClass: PermissionsGuard,
-    // },
     {
-      provide: 'APP_INTERCEPTOR',
-      useClass: AuditInterceptor,
+      provide: APP_GUARD,
+      useClass: PermissionsGuard,
     },
   ],
 })
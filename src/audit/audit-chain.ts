@@ -0,0 +1,131 @@
+/**
+ * Цепочка хешей журнала аудита: каждая запись подписывает предыдущую запись своей цепочки.
+ * Общий код для AuditService и миграции, пересчитавшей существующие записи
+ */
+
+// Записи без организации (вход, системные действия) образуют общую цепочку
+export const AUDIT_GLOBAL_CHAIN = 'global';
+
+// prevHash первой записи цепочки
+export const AUDIT_GENESIS_HASH = '0'.repeat(64);
+
+// Область HMAC: ключ тот же, что у хешей одноразовых токенов, но подписи не пересекаются
+export const AUDIT_CHAIN_SCOPE = 'audit-chain';
+
+// Область HMAC персональных данных записи (audit_personal_data)
+export const AUDIT_PERSONAL_DATA_SCOPE = 'audit-personal-data';
+
+/**
+ * Поля, которые входят в подпись записи
+ */
+export interface AuditChainRecord {
+  chain: string;
+  sequence: string | number;
+  prevHash: string;
+  actorId: string | null;
+  service: string;
+  action: string;
+  resource: string | null;
+  resourceId: string | null;
+  responseData: unknown;
+  statusCode: number;
+  userRoles: unknown;
+  userPermissions: unknown;
+  organizationId: string | null;
+  teamId: string | null;
+  createdAt: Date;
+  outcome?: string | null;
+  personalDataHash?: string | null;
+}
+
+/**
+ * Персональные данные записи: хранятся вне цепочки и удаляются вместе с пользователем
+ */
+export interface AuditPersonalDataRecord {
+  ipAddress: string | null;
+  userAgent: string | null;
+  requestData: unknown;
+  changes: unknown;
+}
+
+export function auditChainKey(organizationId?: string | null): string {
+  return organizationId ?? AUDIT_GLOBAL_CHAIN;
+}
+
+/**
+ * JSON с отсортированными ключами: jsonb в PostgreSQL не сохраняет порядок ключей,
+ * а подпись должна совпасть после чтения записи из базы
+ */
+export function canonicalJson(value: unknown): string {
+  if (value === null || value === undefined) {
+    return 'null';
+  }
+  if (Array.isArray(value)) {
+    return `[${value.map((item) => canonicalJson(item)).join(',')}]`;
+  }
+  if (value instanceof Date) {
+    return JSON.stringify(value.toISOString());
+  }
+  if (typeof value === 'object') {
+    const entries = Object.entries(value as Record<string, unknown>)
+      .filter(([, item]) => item !== undefined)
+      .sort(([left], [right]) => (left < right ? -1 : left > right ? 1 : 0));
+    return `{${entries
+      .map(([key, item]) => `${JSON.stringify(key)}:${canonicalJson(item)}`)
+      .join(',')}}`;
+  }
+  return JSON.stringify(value);
+}
+
+/**
+ * Значение в том виде, в каком оно вернётся из jsonb (Date - строкой, undefined - без ключа)
+ */
+export function toStoredJson<T>(value: T): T | null {
+  if (value === undefined || value === null) {
+    return null;
+  }
+  return JSON.parse(JSON.stringify(value)) as T;
+}
+
+/**
+ * Подписываемое представление записи. Поля, добавленные позже, подписываются только при наличии значения:
+ * подписи ранее сделанных записей от этого не меняются. Персональные данные входят только хешем
+ */
+export function auditChainPayload(record: AuditChainRecord): string {
+  return canonicalJson({
+    chain: record.chain,
+    sequence: String(record.sequence),
+    prevHash: record.prevHash,
+    actorId: record.actorId ?? null,
+    service: record.service,
+    action: record.action,
+    resource: record.resource ?? null,
+    resourceId: record.resourceId ?? null,
+    responseData: record.responseData ?? null,
+    statusCode: record.statusCode,
+    userRoles: record.userRoles ?? null,
+    userPermissions: record.userPermissions ?? null,
+    organizationId: record.organizationId ?? null,
+    teamId: record.teamId ?? null,
+    createdAt: record.createdAt,
+    outcome: record.outcome ?? undefined,
+    personalDataHash: record.personalDataHash ?? undefined,
+  });
+}
+
+/**
+ * Подписываемое представление персональных данных записи. Соль хранится рядом с ними и удаляется
+ * вместе, поэтому по хешу, оставшемуся в цепочке, данные не подобрать даже с ключом
+ */
+export function auditPersonalDataPayload(
+  salt: string,
+  data: AuditPersonalDataRecord,
+): string {
+  return canonicalJson({
+    salt,
+    ipAddress: data.ipAddress ?? null,
+    userAgent: data.userAgent ?? null,
+    requestData: data.requestData ?? null,
+    changes: data.changes ?? null,
+  });
+}
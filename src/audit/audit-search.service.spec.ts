@@ -0,0 +1,198 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { getRepositoryToken } from '@nestjs/typeorm';
+import { NotFoundException } from '@nestjs/common';
+import { DataSource } from 'typeorm';
+import { AuditSearchItem, AuditSearchService } from './audit-search.service';
+import { AuditService } from './audit.service';
+import { AuditSavedQuery } from './entities/audit-saved-query.entity';
+import { AuditEvent } from './enums/audit-event.enum';
+import { auditChainKey } from './audit-chain';
+
+const ORGANIZATION_ID = 'org-1';
+
+describe('AuditSearchService', () => {
+  let service: AuditSearchService;
+
+  const item = (sequence: number, fields: Partial<AuditSearchItem> = {}) =>
+    ({
+      id: `log-${sequence}`,
+      sequence: String(sequence),
+      createdAt: new Date(Date.UTC(2026, 0, 1, 0, sequence)),
+      actorId: 'actor-1',
+      actorUserId: 'user-1',
+      service: 'auth',
+      action: AuditEvent.AUTH_LOGIN,
+      resource: 'user',
+      resourceId: 'user-1',
+      outcome: 'success',
+      statusCode: 200,
+      ipAddress: '10.0.0.1',
+      userAgent: 'jest',
+      teamId: null,
+      changes: null,
+      requestData: null,
+      responseData: null,
+      ...fields,
+    }) as AuditSearchItem;
+
+  const mockSavedQueriesRepository = {
+    findOne: jest.fn(),
+  };
+
+  const mockDataSource = {
+    query: jest
+      .fn<Promise<AuditSearchItem[]>, [string, unknown[]]>()
+      .mockResolvedValue([]),
+  };
+
+  const mockAuditService = {
+    record: jest.fn(),
+  };
+
+  const collect = async (chunks: AsyncIterable<string>) => {
+    let content = '';
+    for await (const chunk of chunks) {
+      content += chunk;
+    }
+    return content;
+  };
+
+  beforeEach(async () => {
+    jest.clearAllMocks();
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        AuditSearchService,
+        {
+          provide: getRepositoryToken(AuditSavedQuery),
+          useValue: mockSavedQueriesRepository,
+        },
+        {
+          provide: DataSource,
+          useValue: mockDataSource,
+        },
+        {
+          provide: AuditService,
+          useValue: mockAuditService,
+        },
+      ],
+    }).compile();
+
+    service = module.get<AuditSearchService>(AuditSearchService);
+  });
+
+  describe('search', () => {
+    it('should search only the chain of the organization with the given filters', async () => {
+      await service.search(ORGANIZATION_ID, {
+        action: AuditEvent.AUTH_LOGIN,
+        ipAddress: '10.0.0.1',
+        statusCode: 401,
+      });
+
+      const [[sql, params]] = mockDataSource.query.mock.calls;
+      expect(sql).toContain('audit.action = $2');
+      expect(sql).toContain('data."ipAddress" = $3');
+      expect(sql).toContain('audit."statusCode" = $4');
+      expect(params).toEqual([
+        auditChainKey(ORGANIZATION_ID),
+        AuditEvent.AUTH_LOGIN,
+        '10.0.0.1',
+        401,
+        50,
+      ]);
+    });
+
+    it('should continue a full page from the cursor', async () => {
+      mockDataSource.query.mockResolvedValueOnce([item(12), item(11)]);
+
+      const page = await service.search(ORGANIZATION_ID, { limit: 2 });
+      expect(page.nextCursor).toBe('11');
+
+      await service.search(ORGANIZATION_ID, {
+        limit: 2,
+        cursor: page.nextCursor!,
+      });
+      const [sql, params] = mockDataSource.query.mock.calls[1];
+      expect(sql).toContain('audit.sequence < $2');
+      expect(params).toEqual([auditChainKey(ORGANIZATION_ID), '11', 2]);
+    });
+
+    it('should apply a saved query under explicit filters', async () => {
+      mockSavedQueriesRepository.findOne.mockResolvedValueOnce({
+        id: 'query-1',
+        organizationId: ORGANIZATION_ID,
+        filters: { action: AuditEvent.ROLE_ASSIGNED, outcome: 'failure' },
+      });
+
+      await service.search(ORGANIZATION_ID, {
+        savedQueryId: 'query-1',
+        outcome: 'success',
+      });
+
+      expect(mockSavedQueriesRepository.findOne).toHaveBeenCalledWith({
+        where: { id: 'query-1', organizationId: ORGANIZATION_ID },
+      });
+      const [[, params]] = mockDataSource.query.mock.calls;
+      expect(params).toEqual([
+        auditChainKey(ORGANIZATION_ID),
+        AuditEvent.ROLE_ASSIGNED,
+        'success',
+        50,
+      ]);
+    });
+
+    it('should not use a saved query of another organization', async () => {
+      mockSavedQueriesRepository.findOne.mockResolvedValueOnce(null);
+
+      await expect(
+        service.search(ORGANIZATION_ID, { savedQueryId: 'query-2' }),
+      ).rejects.toThrow(NotFoundException);
+      expect(mockDataSource.query).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('export', () => {
+    it('should stream CSV and record the export in the audit log', async () => {
+      mockDataSource.query.mockResolvedValueOnce([
+        item(2, { userAgent: '=HYPERLINK("https://attacker.example")' }),
+        item(1),
+      ]);
+
+      const chunks = await service.export(
+        ORGANIZATION_ID,
+        { format: 'csv' },
+        'admin-1',
+      );
+      expect(mockAuditService.record).toHaveBeenCalledWith(
+        AuditEvent.AUDIT_EXPORTED,
+        expect.objectContaining({
+          actorId: 'admin-1',
+          organizationId: ORGANIZATION_ID,
+        }),
+      );
+
+      const lines = (await collect(chunks)).split('\r\n');
+      expect(lines[0]).toMatch(/^\uFEFFsequence,createdAt,/);
+      expect(lines).toHaveLength(4);
+      // Формула в ячейке экранируется, чтобы табличный редактор её не выполнил
+      expect(lines[1]).toContain(`"'=HYPERLINK(""https://attacker.example"")"`);
+    });
+
+    it('should read NDJSON in batches until the last one', async () => {
+      const batch = Array.from({ length: 1000 }, (_, index) =>
+        item(1500 - index),
+      );
+      mockDataSource.query
+        .mockResolvedValueOnce(batch)
+        .mockResolvedValueOnce([item(500)]);
+
+      const content = await collect(
+        await service.export(ORGANIZATION_ID, { format: 'ndjson' }, 'admin-1'),
+      );
+
+      expect(content.trim().split('\n')).toHaveLength(1001);
+      expect(mockDataSource.query).toHaveBeenCalledTimes(2);
+      expect(mockDataSource.query.mock.calls[1][1]).toContain('501');
+    });
+  });
+});
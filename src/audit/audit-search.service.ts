@@ -0,0 +1,365 @@
+import {
+  ConflictException,
+  Injectable,
+  NotFoundException,
+} from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { DataSource, Repository } from 'typeorm';
+import { AuditSavedQuery } from './entities/audit-saved-query.entity';
+import {
+  AuditExportQueryDto,
+  AuditSearchFiltersDto,
+  AuditSearchQueryDto,
+  CreateAuditSavedQueryDto,
+} from './dto/audit-search.dto';
+import { AuditService } from './audit.service';
+import { AuditEvent } from './enums/audit-event.enum';
+import { auditChainKey } from './audit-chain';
+
+export interface AuditSearchItem {
+  id: string;
+  sequence: string;
+  createdAt: Date;
+  // Псевдоним из audit_actors и пользователь за ним (null, если аккаунт удалён)
+  actorId: string | null;
+  actorUserId: string | null;
+  service: string;
+  action: string;
+  resource: string | null;
+  resourceId: string | null;
+  outcome: string | null;
+  statusCode: number;
+  ipAddress: string | null;
+  userAgent: string | null;
+  teamId: string | null;
+  changes: unknown;
+  requestData: unknown;
+  responseData: unknown;
+}
+
+export interface AuditSearchPage {
+  items: AuditSearchItem[];
+  // Передаётся как cursor для следующей страницы; null - записей больше нет
+  nextCursor: string | null;
+}
+
+export type AuditExportFormat = 'csv' | 'ndjson';
+
+const FILTER_KEYS: Array<keyof AuditSearchFiltersDto> = [
+  'actorId',
+  'resource',
+  'resourceId',
+  'service',
+  'action',
+  'ipAddress',
+  'statusCode',
+  'outcome',
+  'from',
+  'to',
+];
+
+const CSV_COLUMNS: Array<keyof AuditSearchItem> = [
+  'sequence',
+  'createdAt',
+  'actorUserId',
+  'actorId',
+  'action',
+  'service',
+  'resource',
+  'resourceId',
+  'outcome',
+  'statusCode',
+  'ipAddress',
+  'userAgent',
+  'teamId',
+  'changes',
+  'requestData',
+  'responseData',
+];
+
+// Запись об удалённом пользователе: псевдоним исполнителя отвязан или аккаунта-цели больше нет.
+// IP, User-Agent и изменения удалены вместе с пользователем (audit_personal_data), а подписанные
+// id аккаунта и ответ скрываются при чтении
+const ERASED_SUBJECT = `(
+  (actor.id IS NOT NULL AND actor."userId" IS NULL)
+  OR (audit.resource = 'user' AND NOT EXISTS (
+    SELECT 1 FROM users WHERE users.id::text = audit."resourceId"
+  ))
+)`;
+const SUBJECT_COLUMNS = ['"resourceId"', '"responseData"'];
+
+const DEFAULT_PAGE_SIZE = 50;
+const EXPORT_BATCH_SIZE = 1000;
+
+/**
+ * Поиск и выгрузка журнала аудита организации (вместе с архивом), сохранённые запросы
+ */
+@Injectable()
+export class AuditSearchService {
+  constructor(
+    @InjectRepository(AuditSavedQuery)
+    private savedQueriesRepo: Repository<AuditSavedQuery>,
+    private dataSource: DataSource,
+    private auditService: AuditService,
+  ) {}
+
+  /**
+   * Страница записей, новые сверху. Курсор - номер записи в цепочке организации
+   */
+  async search(
+    organizationId: string,
+    query: AuditSearchQueryDto,
+  ): Promise<AuditSearchPage> {
+    const limit = query.limit ?? DEFAULT_PAGE_SIZE;
+    const filters = await this.resolveFilters(organizationId, query);
+    const items = await this.fetch(
+      organizationId,
+      filters,
+      query.cursor,
+      limit,
+    );
+
+    return {
+      items,
+      nextCursor:
+        items.length === limit ? items[items.length - 1].sequence : null,
+    };
+  }
+
+  /**
+   * Выгрузка всех подходящих записей частями. Фильтры проверяются до начала выгрузки,
+   * сама выгрузка записывается в журнал
+   */
+  async export(
+    organizationId: string,
+    query: AuditExportQueryDto,
+    exportedBy: string,
+  ): Promise<AsyncIterable<string>> {
+    const format = query.format ?? 'csv';
+    const filters = await this.resolveFilters(organizationId, query);
+
+    await this.auditService.record(AuditEvent.AUDIT_EXPORTED, {
+      actorId: exportedBy,
+      targetType: 'organization',
+      targetId: organizationId,
+      organizationId,
+      details: { format, filters, savedQueryId: query.savedQueryId ?? null },
+    });
+
+    return this.exportChunks(organizationId, filters, format);
+  }
+
+  async findSavedQueries(organizationId: string): Promise<AuditSavedQuery[]> {
+    return this.savedQueriesRepo.find({
+      where: { organizationId },
+      order: { name: 'ASC' },
+    });
+  }
+
+  async createSavedQuery(
+    organizationId: string,
+    dto: CreateAuditSavedQueryDto,
+    createdBy: string,
+  ): Promise<AuditSavedQuery> {
+    const existing = await this.savedQueriesRepo.findOne({
+      where: { organizationId, name: dto.name },
+    });
+    if (existing) {
+      throw new ConflictException('Запрос с таким названием уже сохранён');
+    }
+
+    return this.savedQueriesRepo.save(
+      this.savedQueriesRepo.create({
+        organizationId,
+        name: dto.name,
+        filters: this.pickFilters(dto.filters),
+        createdBy,
+      }),
+    );
+  }
+
+  async deleteSavedQuery(
+    organizationId: string,
+    queryId: string,
+  ): Promise<void> {
+    const saved = await this.findSavedQuery(organizationId, queryId);
+    await this.savedQueriesRepo.remove(saved);
+  }
+
+  private async findSavedQuery(
+    organizationId: string,
+    queryId: string,
+  ): Promise<AuditSavedQuery> {
+    const saved = await this.savedQueriesRepo.findOne({
+      where: { id: queryId, organizationId },
+    });
+    if (!saved) {
+      throw new NotFoundException('Сохранённый запрос не найден');
+    }
+    return saved;
+  }
+
+  /**
+   * Фильтры сохранённого запроса, поверх них - явно переданные
+   */
+  private async resolveFilters(
+    organizationId: string,
+    query: AuditSearchFiltersDto & { savedQueryId?: string },
+  ): Promise<AuditSearchFiltersDto> {
+    const saved = query.savedQueryId
+      ? await this.findSavedQuery(organizationId, query.savedQueryId)
+      : null;
+
+    return {
+      ...(saved ? this.pickFilters(saved.filters) : {}),
+      ...this.pickFilters(query),
+    };
+  }
+
+  private pickFilters(source: AuditSearchFiltersDto): AuditSearchFiltersDto {
+    return Object.fromEntries(
+      FILTER_KEYS.filter(
+        (key) => source[key] !== undefined && source[key] !== null,
+      ).map((key) => [key, source[key]]),
+    ) as AuditSearchFiltersDto;
+  }
+
+  private async *exportChunks(
+    organizationId: string,
+    filters: AuditSearchFiltersDto,
+    format: AuditExportFormat,
+  ): AsyncGenerator<string> {
+    if (format === 'csv') {
+      // BOM: без него Excel открывает кириллицу в неверной кодировке
+      yield `\uFEFF${CSV_COLUMNS.join(',')}\r\n`;
+    }
+
+    let cursor: string | undefined;
+    for (;;) {
+      const items = await this.fetch(
+        organizationId,
+        filters,
+        cursor,
+        EXPORT_BATCH_SIZE,
+      );
+      if (items.length === 0) {
+        return;
+      }
+
+      yield items
+        .map((item) =>
+          format === 'csv'
+            ? `${CSV_COLUMNS.map((column) => this.csvCell(item[column])).join(',')}\r\n`
+            : `${JSON.stringify(item)}\n`,
+        )
+        .join('');
+
+      if (items.length < EXPORT_BATCH_SIZE) {
+        return;
+      }
+      cursor = items[items.length - 1].sequence;
+    }
+  }
+
+  private async fetch(
+    organizationId: string,
+    filters: AuditSearchFiltersDto,
+    cursor: string | undefined,
+    limit: number,
+  ): Promise<AuditSearchItem[]> {
+    const params: unknown[] = [auditChainKey(organizationId)];
+    const conditions: string[] = [];
+    const where = (condition: (param: string) => string, value: unknown) => {
+      params.push(value);
+      conditions.push(condition(`$${params.length}`));
+    };
+
+    if (filters.actorId) {
+      where(
+        (param) =>
+          `audit."actorId" IN (SELECT id FROM audit_actors WHERE "userId" = ${param})`,
+        filters.actorId,
+      );
+    }
+    if (filters.resource) {
+      where((param) => `audit.resource = ${param}`, filters.resource);
+    }
+    if (filters.resourceId) {
+      where(
+        (param) => `audit."resourceId" = ${param} AND NOT ${ERASED_SUBJECT}`,
+        filters.resourceId,
+      );
+    }
+    if (filters.service) {
+      where((param) => `audit.service = ${param}`, filters.service);
+    }
+    if (filters.action) {
+      where((param) => `audit.action = ${param}`, filters.action);
+    }
+    if (filters.ipAddress) {
+      where(
+        (param) => `data."ipAddress" = ${param}`,
+        filters.ipAddress,
+      );
+    }
+    if (filters.statusCode !== undefined) {
+      where((param) => `audit."statusCode" = ${param}`, filters.statusCode);
+    }
+    if (filters.outcome) {
+      where((param) => `audit.outcome = ${param}`, filters.outcome);
+    }
+    if (filters.from) {
+      where((param) => `audit."createdAt" >= ${param}`, new Date(filters.from));
+    }
+    if (filters.to) {
+      where((param) => `audit."createdAt" < ${param}`, new Date(filters.to));
+    }
+    if (cursor) {
+      where((param) => `audit.sequence < ${param}`, cursor);
+    }
+    params.push(limit);
+
+    const rows = await this.dataSource.query<AuditSearchItem[]>(
+      `SELECT audit.id, audit.sequence, audit."createdAt", audit."actorId", actor."userId" AS "actorUserId",
+              audit.service, audit.action, audit.resource, audit.outcome,
+              audit."statusCode", audit."teamId",
+              data."ipAddress", data."userAgent", data.changes, data."requestData",
+              ${SUBJECT_COLUMNS.map(
+                (column) =>
+                  `CASE WHEN ${ERASED_SUBJECT} THEN NULL ELSE audit.${column} END AS ${column}`,
+              ).join(', ')}
+       FROM (
+         SELECT * FROM audit_logs_archive WHERE chain = $1
+         UNION ALL
+         SELECT * FROM audit_logs WHERE chain = $1
+       ) AS audit
+       LEFT JOIN audit_actors actor ON actor.id = audit."actorId"
+       LEFT JOIN audit_personal_data data ON data."auditLogId" = audit.id
+       ${conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : ''}
+       ORDER BY audit.sequence DESC
+       LIMIT $${params.length}`,
+      params,
+    );
+    return rows.map((row) => ({ ...row, sequence: String(row.sequence) }));
+  }
+
+  /**
+   * Ячейка CSV. Текст, похожий на формулу, экранируется апострофом
+   */
+  private csvCell(value: unknown): string {
+    if (value === null || value === undefined) {
+      return '';
+    }
+    let text: string;
+    if (typeof value === 'string') {
+      text = /^[=+\-@\t\r]/.test(value) ? `'${value}` : value;
+    } else if (value instanceof Date) {
+      text = value.toISOString();
+    } else if (typeof value === 'object') {
+      text = JSON.stringify(value);
+    } else {
+      text = String(value as number | boolean);
+    }
+    return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+  }
+}
@@ -9,7 +9,6 @@ import {
 import { ApiTags, ApiOperation, ApiResponse, ApiBearerAuth, ApiQuery } from '@nestjs/swagger';
 import { AuditService } from './audit.service';
 import { JwtAuthGuard } from '../auth/guards/jwt-auth.guard';
-import { PermissionsGuard } from '../auth/guards/permissions.guard';
 import { RequirePermissions } from '../auth/decorators/permissions.decorator';
 import { CurrentUser } from '../auth/decorators/current-user.decorator';
 
@@ -64,7 +63,20 @@ export class AuditController {
     return this.auditService.getUserRoleHistory(user.userId);
   }
 
+  @Get('verify')
+  @RequirePermissions('settings.read')
+  @ApiOperation({ summary: 'Проверка целостности журнала аудита (общая цепочка или организации)' })
+  @ApiResponse({ status: 200, description: 'Результат проверки цепочки хешей' })
+  @ApiQuery({ name: 'organizationId', required: false, description: 'Цепочка организации' })
+  async verifyChain(
+    @Query('organizationId', new ParseUUIDPipe({ optional: true }))
+    organizationId?: string,
+  ) {
+    return this.auditService.verifyChain(organizationId);
+  }
+
   @Get('user/:userId/history')
+  @RequirePermissions('users.read')
   @ApiOperation({ summary: 'Получение истории действий пользователя (только для админов)' })
   @ApiResponse({ status: 200, description: 'История действий пользователя' })
   @ApiQuery({ name: 'page', required: false, description: 'Номер страницы' })
@@ -88,6 +100,7 @@ export class AuditController {
   }
 
   @Get('user/:userId/service-tree')
+  @RequirePermissions('users.read')
   @ApiOperation({ summary: 'Получение дерева сервисов пользователя (только для админов)' })
   @ApiResponse({ status: 200, description: 'Дерево сервисов с ролями и правами' })
   async getUserServiceTree(
@@ -97,6 +110,7 @@ export class AuditController {
   }
 
   @Get('user/:userId/statistics')
+  @RequirePermissions('users.read')
   @ApiOperation({ summary: 'Получение статистики по сервисам пользователя (только для админов)' })
   @ApiResponse({ status: 200, description: 'Статистика использования сервисов' })
   async getUserStatistics(
@@ -106,6 +120,7 @@ export class AuditController {
   }
 
   @Get('user/:userId/role-history')
+  @RequirePermissions('users.read')
   @ApiOperation({ summary: 'Получение истории ролей пользователя (только для админов)' })
   @ApiResponse({ status: 200, description: 'История изменения ролей и прав' })
   async getUserRoleHistory(
@@ -1,13 +1,31 @@
-import { Module } from '@nestjs/common';
+import { Global, Module } from '@nestjs/common';
 import { TypeOrmModule } from '@nestjs/typeorm';
 import { AuditService } from './audit.service';
+import { AuditSearchService } from './audit-search.service';
 import { AuditController } from './audit.controller';
+import { OrganizationAuditController } from './organization-audit.controller';
 import { AuditLog } from './entities/audit-log.entity';
+import { AuditActor } from './entities/audit-actor.entity';
+import { AuditChainHead } from './entities/audit-chain-head.entity';
+import { AuditSavedQuery } from './entities/audit-saved-query.entity';
+import { AuditPersonalData } from './entities/audit-personal-data.entity';
 
+/**
+ * Журнал аудита: доменные события пишут auth, RBAC, организации, команды и приглашения
+ */
+@Global()
 @Module({
-  imports: [TypeOrmModule.forFeature([AuditLog])],
-  controllers: [AuditController],
-  providers: [AuditService],
+  imports: [
+    TypeOrmModule.forFeature([
+      AuditLog,
+      AuditActor,
+      AuditChainHead,
+      AuditSavedQuery,
+      AuditPersonalData,
+    ]),
+  ],
+  controllers: [AuditController, OrganizationAuditController],
+  providers: [AuditService, AuditSearchService],
   exports: [AuditService],
 })
 export class AuditModule {}
@@ -0,0 +1,253 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { getRepositoryToken } from '@nestjs/typeorm';
+import { ConfigService } from '@nestjs/config';
+import { DataSource } from 'typeorm';
+import { AuditService } from './audit.service';
+import { AuditLog } from './entities/audit-log.entity';
+import { AuditActor } from './entities/audit-actor.entity';
+import { AuditEvent } from './enums/audit-event.enum';
+import { SecretHashService } from '../auth/services/secret-hash.service';
+import { deriveSecretHashKey, hashSecret } from '../auth/utils/secret-hash';
+import {
+  AUDIT_CHAIN_SCOPE,
+  AUDIT_GENESIS_HASH,
+  AUDIT_GLOBAL_CHAIN,
+  AuditChainRecord,
+  auditChainPayload,
+} from './audit-chain';
+
+type StoredRecord = AuditChainRecord & { hash: string };
+
+describe('AuditService', () => {
+  let service: AuditService;
+
+  const key = deriveSecretHashKey('test-encryption-key');
+
+  const mockChainHeadRepository = {
+    findOne: jest.fn(),
+    find: jest.fn().mockResolvedValue([]),
+  };
+
+  const mockDataSource = {
+    query: jest.fn(),
+    getRepository: jest.fn(() => mockChainHeadRepository),
+  };
+
+  const mockSecretHashService = {
+    hash: jest.fn((value: string, scope?: string) =>
+      hashSecret(key, value, scope),
+    ),
+  };
+
+  const config: Record<string, unknown> = {
+    'audit.archiveAfterDays': 30,
+  };
+
+  // Цепочка подписывается так же, как при записи: каждая запись ссылается на хеш предыдущей
+  const buildChain = (length: number): StoredRecord[] => {
+    const records: StoredRecord[] = [];
+    let prevHash = AUDIT_GENESIS_HASH;
+    for (let sequence = 1; sequence <= length; sequence++) {
+      const record: AuditChainRecord = {
+        chain: AUDIT_GLOBAL_CHAIN,
+        sequence: String(sequence),
+        prevHash,
+        actorId: 'actor-1',
+        service: 'auth',
+        action: 'auth.login',
+        resource: 'user',
+        resourceId: 'user-1',
+        responseData: null,
+        statusCode: 200,
+        userRoles: [],
+        userPermissions: [],
+        organizationId: null,
+        teamId: null,
+        createdAt: new Date(Date.UTC(2026, 0, 1, 0, sequence)),
+        outcome: 'success',
+      };
+      const hash = hashSecret(
+        key,
+        auditChainPayload(record),
+        AUDIT_CHAIN_SCOPE,
+      );
+      records.push({ ...record, hash });
+      prevHash = hash;
+    }
+    return records;
+  };
+
+  const storeChain = (records: StoredRecord[], headSequence?: number) => {
+    const last = records[records.length - 1];
+    mockDataSource.query
+      .mockResolvedValueOnce(records)
+      .mockResolvedValueOnce([]);
+    mockChainHeadRepository.findOne.mockResolvedValueOnce({
+      chain: AUDIT_GLOBAL_CHAIN,
+      sequence: String(headSequence ?? last.sequence),
+      hash: last.hash,
+    });
+  };
+
+  beforeEach(async () => {
+    jest.clearAllMocks();
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        AuditService,
+        {
+          provide: getRepositoryToken(AuditLog),
+          useValue: {},
+        },
+        {
+          provide: getRepositoryToken(AuditActor),
+          useValue: {},
+        },
+        {
+          provide: DataSource,
+          useValue: mockDataSource,
+        },
+        {
+          provide: SecretHashService,
+          useValue: mockSecretHashService,
+        },
+        {
+          provide: ConfigService,
+          useValue: { get: jest.fn((name: string) => config[name]) },
+        },
+      ],
+    }).compile();
+
+    service = module.get<AuditService>(AuditService);
+  });
+
+  describe('verifyChain', () => {
+    it('should accept an intact chain', async () => {
+      storeChain(buildChain(3));
+
+      await expect(service.verifyChain()).resolves.toEqual({
+        chain: AUDIT_GLOBAL_CHAIN,
+        valid: true,
+        checked: 3,
+        lastSequence: '3',
+        issues: [],
+      });
+    });
+
+    it('should detect a modified record', async () => {
+      const records = buildChain(3);
+      records[1] = { ...records[1], statusCode: 500 };
+      storeChain(records);
+
+      const result = await service.verifyChain();
+
+      expect(result.valid).toBe(false);
+      expect(result.issues).toEqual([
+        expect.objectContaining({ type: 'hash_mismatch', sequence: '2' }),
+      ]);
+    });
+
+    it('should detect a record removed from the middle', async () => {
+      const records = buildChain(3);
+      storeChain([records[0], records[2]]);
+
+      const result = await service.verifyChain();
+
+      expect(result.valid).toBe(false);
+      expect(result.issues).toEqual([
+        expect.objectContaining({ type: 'gap', sequence: '2' }),
+      ]);
+    });
+
+    it('should detect a record re-signed without the previous hash', async () => {
+      const records = buildChain(3);
+      const forged = { ...records[1], prevHash: AUDIT_GENESIS_HASH };
+      forged.hash = hashSecret(
+        key,
+        auditChainPayload(forged),
+        AUDIT_CHAIN_SCOPE,
+      );
+      storeChain([records[0], forged, records[2]]);
+
+      const result = await service.verifyChain();
+
+      expect(result.issues).toEqual(
+        expect.arrayContaining([
+          expect.objectContaining({ type: 'broken_link', sequence: '2' }),
+          expect.objectContaining({ type: 'broken_link', sequence: '3' }),
+        ]),
+      );
+    });
+
+    it('should detect records removed from the end', async () => {
+      const records = buildChain(3);
+      storeChain(records.slice(0, 2), 3);
+
+      const result = await service.verifyChain();
+
+      expect(result.valid).toBe(false);
+      expect(result.issues).toEqual([
+        expect.objectContaining({ type: 'truncated', sequence: '3' }),
+      ]);
+    });
+  });
+
+  describe('record', () => {
+    it('should record the domain event with the changed fields and the outcome', async () => {
+      const log = jest.spyOn(service, 'log').mockResolvedValue({} as AuditLog);
+
+      await service.record(AuditEvent.ROLE_PERMISSIONS_CHANGED, {
+        actorId: 'user-1',
+        targetType: 'role',
+        targetId: 'role-1',
+        before: { name: 'editor', permissions: ['users.read'] },
+        after: { name: 'editor', permissions: ['users.read', 'users.manage'] },
+        organizationId: 'org-1',
+      });
+
+      expect(log).toHaveBeenCalledWith(
+        expect.objectContaining({
+          userId: 'user-1',
+          service: 'role',
+          action: AuditEvent.ROLE_PERMISSIONS_CHANGED,
+          resource: 'role',
+          resourceId: 'role-1',
+          statusCode: 200,
+          outcome: 'success',
+          changes: {
+            permissions: {
+              before: ['users.read'],
+              after: ['users.read', 'users.manage'],
+            },
+          },
+        }),
+      );
+    });
+
+    it('should not fail the action when the audit log is unavailable', async () => {
+      jest.spyOn(service, 'log').mockRejectedValue(new Error('Нет соединения'));
+
+      await expect(
+        service.record(AuditEvent.AUTH_LOGIN, {
+          targetType: 'user',
+          targetId: 'user-1',
+          outcome: 'failure',
+        }),
+      ).resolves.toBeUndefined();
+    });
+  });
+
+  describe('archiveOldRecords', () => {
+    it('should move records only through the archive function', async () => {
+      mockDataSource.query.mockResolvedValueOnce([{ moved: 12 }]);
+
+      await service.archiveOldRecords();
+
+      expect(mockDataSource.query).toHaveBeenCalledTimes(1);
+      expect(mockDataSource.query).toHaveBeenCalledWith(
+        'SELECT archive_audit_logs($1, $2) AS moved',
+        [expect.any(Date), expect.any(Number)],
+      );
+    });
+  });
+});
@@ -1,10 +1,31 @@
-import { Injectable } from '@nestjs/common';
+import { Injectable, Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
 import { InjectRepository } from '@nestjs/typeorm';
-import { Repository } from 'typeorm';
+import { Cron, CronExpression } from '@nestjs/schedule';
+import { DataSource, In, Repository } from 'typeorm';
+import { randomBytes } from 'crypto';
 import { AuditLog } from './entities/audit-log.entity';
+import { AuditPersonalData } from './entities/audit-personal-data.entity';
+import { AuditActor } from './entities/audit-actor.entity';
+import { AuditChainHead } from './entities/audit-chain-head.entity';
+import { SecretHashService } from '../auth/services/secret-hash.service';
+import { AuditEvent, AuditOutcome } from './enums/audit-event.enum';
+import {
+  AUDIT_CHAIN_SCOPE,
+  AUDIT_GENESIS_HASH,
+  AUDIT_PERSONAL_DATA_SCOPE,
+  AuditChainRecord,
+  AuditPersonalDataRecord,
+  auditChainKey,
+  auditChainPayload,
+  auditPersonalDataPayload,
+  canonicalJson,
+  toStoredJson,
+} from './audit-chain';
 
 export interface AuditLogData {
-  userId: string;
+  // Не указан для анонимных действий
+  userId?: string | null;
   service: string;
   action: string;
   resource?: string;
@@ -16,39 +37,398 @@ export interface AuditLogData {
   userAgent?: string;
   userRoles: string[];
   userPermissions: string[];
-  organizationId?: string;
-  teamId?: string;
+  organizationId?: string | null;
+  teamId?: string | null;
+  outcome?: AuditOutcome;
+  changes?: AuditChanges | null;
 }
 
+export type AuditChanges = Record<string, { before: unknown; after: unknown }>;
+
+/**
+ * Доменное событие: кто (actorId), над чем (target), что изменилось (before/after) и чем закончилось
+ */
+export interface AuditEventData {
+  // Пользователь, выполнивший действие; не указан для анонимных попыток
+  actorId?: string | null;
+  // Роли и права исполнителя на момент действия, если известны
+  actorRoles?: string[];
+  actorPermissions?: string[];
+  targetType?: string;
+  targetId?: string | null;
+  organizationId?: string | null;
+  teamId?: string | null;
+  before?: Record<string, unknown> | null;
+  after?: Record<string, unknown> | null;
+  outcome?: AuditOutcome;
+  // Причина отказа
+  reason?: string;
+  details?: Record<string, unknown>;
+  statusCode?: number;
+  context?: { ipAddress?: string | null; userAgent?: string | null };
+}
+
+export type AuditChainIssueType =
+  | 'gap'
+  | 'broken_link'
+  | 'hash_mismatch'
+  | 'truncated';
+
+export interface AuditChainIssue {
+  type: AuditChainIssueType;
+  sequence: string;
+  detail: string;
+}
+
+export interface AuditChainVerification {
+  chain: string;
+  valid: boolean;
+  checked: number;
+  lastSequence: string;
+  issues: AuditChainIssue[];
+}
+
+// Все псевдонимы пользователя: после объединения аккаунтов их может быть несколько
+const ACTOR_FILTER =
+  'audit.actorId IN (SELECT id FROM audit_actors WHERE "userId" = :userId)';
+const VERIFY_BATCH_SIZE = 1000;
+const ARCHIVE_BATCH_SIZE = 5000;
+const MAX_REPORTED_ISSUES = 100;
+
 @Injectable()
 export class AuditService {
+  private readonly logger = new Logger(AuditService.name);
+
   constructor(
     @InjectRepository(AuditLog)
     private auditLogRepo: Repository<AuditLog>,
+    @InjectRepository(AuditActor)
+    private auditActorsRepo: Repository<AuditActor>,
+    private dataSource: DataSource,
+    private secretHashService: SecretHashService,
+    private configService: ConfigService,
   ) {}
 
   /**
-   * Создание записи аудита
+   * Создание записи аудита: запись добавляется в конец цепочки организации под блокировкой её головы.
+   * Персональные данные пишутся в audit_personal_data, в цепочку попадает только их хеш
    */
   async log(data: AuditLogData): Promise<AuditLog> {
-    const auditLog = this.auditLogRepo.create({
-      userId: data.userId,
-      service: data.service,
-      action: data.action,
-      resource: data.resource,
-      resourceId: data.resourceId,
-      requestData: data.requestData,
-      responseData: data.responseData,
-      statusCode: data.statusCode || 200,
-      ipAddress: data.ipAddress,
-      userAgent: data.userAgent,
-      userRoles: data.userRoles,
-      userPermissions: data.userPermissions,
-      organizationId: data.organizationId,
-      teamId: data.teamId,
+    const actorId = data.userId ? await this.resolveActorId(data.userId) : null;
+    const chain = auditChainKey(data.organizationId);
+    const personalData = {
+      ipAddress: data.ipAddress ?? null,
+      userAgent: data.userAgent ?? null,
+      requestData: toStoredJson(data.requestData),
+      changes: toStoredJson(data.changes ?? null),
+    } satisfies AuditPersonalDataRecord;
+    const hasPersonalData = Object.values(personalData).some(
+      (value) => value !== null,
+    );
+    const salt = randomBytes(16).toString('hex');
+
+    return this.dataSource.transaction(async (manager) => {
+      await manager
+        .createQueryBuilder()
+        .insert()
+        .into(AuditChainHead)
+        .values({ chain, sequence: '0', hash: AUDIT_GENESIS_HASH })
+        .orIgnore()
+        .execute();
+      const head = await manager.findOneOrFail(AuditChainHead, {
+        where: { chain },
+        lock: { mode: 'pessimistic_write' },
+      });
+
+      const record = manager.create(AuditLog, {
+        actorId,
+        service: data.service,
+        action: data.action,
+        resource: data.resource ?? null,
+        resourceId: data.resourceId ?? null,
+        responseData: toStoredJson<unknown>(data.responseData),
+        statusCode: data.statusCode || 200,
+        userRoles: toStoredJson(data.userRoles) ?? [],
+        userPermissions: toStoredJson(data.userPermissions) ?? [],
+        organizationId: data.organizationId ?? null,
+        teamId: data.teamId ?? null,
+        outcome: data.outcome ?? null,
+        personalDataHash: hasPersonalData
+          ? this.secretHashService.hash(
+              auditPersonalDataPayload(salt, personalData),
+              AUDIT_PERSONAL_DATA_SCOPE,
+            )
+          : null,
+        chain,
+        sequence: String(Number(head.sequence) + 1),
+        prevHash: head.hash,
+        // После блокировки: время записей растёт вместе с номером
+        createdAt: new Date(),
+      } as Partial<AuditLog>);
+      record.hash = this.hashRecord(record);
+
+      const saved = await manager.save(record);
+      if (hasPersonalData) {
+        await manager.save(
+          manager.create(AuditPersonalData, {
+            auditLogId: saved.id,
+            userIds: this.subjectUserIds(data),
+            salt,
+            ...personalData,
+          }),
+        );
+      }
+      await manager.update(
+        AuditChainHead,
+        { chain },
+        { sequence: record.sequence, hash: record.hash },
+      );
+      return saved;
+    });
+  }
+
+  /**
+   * Запись доменного события. Ошибки только логируются: журнал не должен ломать основной сценарий
+   */
+  async record(event: AuditEvent, data: AuditEventData = {}): Promise<void> {
+    const outcome = data.outcome ?? 'success';
+    try {
+      await this.log({
+        userId: data.actorId,
+        service: event.split('.')[0],
+        action: event,
+        resource: data.targetType,
+        resourceId: data.targetId ?? undefined,
+        requestData: data.details,
+        responseData: data.reason ? { error: data.reason } : undefined,
+        statusCode: data.statusCode ?? (outcome === 'success' ? 200 : 400),
+        ipAddress: data.context?.ipAddress ?? undefined,
+        userAgent: data.context?.userAgent?.substring(0, 500) ?? undefined,
+        userRoles: data.actorRoles ?? [],
+        userPermissions: data.actorPermissions ?? [],
+        organizationId: data.organizationId,
+        teamId: data.teamId,
+        outcome,
+        changes: this.diff(data.before, data.after),
+      });
+    } catch (error) {
+      this.logger.error(
+        `❌ Не удалось записать событие аудита ${event}: ${(error as Error).message}`,
+      );
+    }
+  }
+
+  /**
+   * Псевдоним пользователя в журнале: создаётся при первой записи
+   */
+  async resolveActorId(userId: string): Promise<string> {
+    const existing = await this.auditActorsRepo.findOne({
+      where: { userId },
+      order: { createdAt: 'ASC' },
+    });
+    if (existing) {
+      return existing.id;
+    }
+    const actor = await this.auditActorsRepo.save(
+      this.auditActorsRepo.create({ userId }),
+    );
+    return actor.id;
+  }
+
+  /**
+   * Проверка цепочки организации (или общей): пропуски номеров, разрывы ссылок,
+   * изменённые записи и удаление с конца. Архив проверяется вместе с журналом
+   */
+  async verifyChain(
+    organizationId?: string | null,
+  ): Promise<AuditChainVerification> {
+    const chain = auditChainKey(organizationId);
+    const issues: AuditChainIssue[] = [];
+    const report = (issue: AuditChainIssue) => {
+      if (issues.length < MAX_REPORTED_ISSUES) {
+        issues.push(issue);
+      }
+    };
+
+    let expected = 1;
+    let prevHash = AUDIT_GENESIS_HASH;
+    let checked = 0;
+
+    for (;;) {
+      const rows = await this.dataSource.query<
+        Array<AuditChainRecord & { id: string; hash: string }>
+      >(
+        `SELECT * FROM (
+           SELECT * FROM audit_logs_archive
+           UNION ALL
+           SELECT * FROM audit_logs
+         ) AS records
+         WHERE chain = $1 AND sequence > $2
+         ORDER BY sequence
+         LIMIT ${VERIFY_BATCH_SIZE}`,
+        [chain, expected - 1],
+      );
+      if (rows.length === 0) {
+        break;
+      }
+      const personalData = await this.findPersonalData(rows);
+
+      for (const row of rows) {
+        const sequence = Number(row.sequence);
+        if (sequence !== expected) {
+          report({
+            type: 'gap',
+            sequence: String(expected),
+            detail: `Отсутствуют записи ${expected}-${sequence - 1}`,
+          });
+        } else if (row.prevHash !== prevHash) {
+          report({
+            type: 'broken_link',
+            sequence: row.sequence as string,
+            detail: 'Запись не ссылается на предыдущую',
+          });
+        }
+        if (this.hashRecord(row) !== row.hash) {
+          report({
+            type: 'hash_mismatch',
+            sequence: row.sequence as string,
+            detail: 'Содержимое записи изменено',
+          });
+        }
+        // Удалённые вместе с пользователем данные не проверяются, изменённые - ошибка
+        const data = personalData.get(row.id);
+        if (
+          data &&
+          this.secretHashService.hash(
+            auditPersonalDataPayload(data.salt, data),
+            AUDIT_PERSONAL_DATA_SCOPE,
+          ) !== row.personalDataHash
+        ) {
+          report({
+            type: 'hash_mismatch',
+            sequence: row.sequence as string,
+            detail: 'Персональные данные записи изменены',
+          });
+        }
+
+        // Дальше сверяемся с сохранённым хешем: одна изменённая запись не ломает всю цепочку
+        prevHash = row.hash;
+        expected = sequence + 1;
+        checked++;
+      }
+    }
+
+    const lastSequence = expected - 1;
+    const head = await this.dataSource
+      .getRepository(AuditChainHead)
+      .findOne({ where: { chain } });
+    if (head && Number(head.sequence) > lastSequence) {
+      report({
+        type: 'truncated',
+        sequence: String(lastSequence + 1),
+        detail: `Удалены последние записи ${lastSequence + 1}-${head.sequence}`,
+      });
+    } else if (
+      head &&
+      Number(head.sequence) === lastSequence &&
+      head.hash !== prevHash
+    ) {
+      report({
+        type: 'broken_link',
+        sequence: head.sequence,
+        detail: 'Последняя запись не совпадает с головой цепочки',
+      });
+    }
+
+    return {
+      chain,
+      valid: issues.length === 0,
+      checked,
+      lastSequence: String(lastSequence),
+      issues,
+    };
+  }
+
+  /**
+   * Перенос старых записей в audit_logs_archive: записи не удаляются, цепочка продолжается в архиве
+   */
+  @Cron(CronExpression.EVERY_DAY_AT_3AM)
+  async archiveOldRecords() {
+    const days =
+      this.configService.get<number>('audit.archiveAfterDays') ?? 365;
+    if (days <= 0) {
+      return;
+    }
+    const before = new Date(Date.now() - days * 24 * 60 * 60_000);
+
+    let archived = 0;
+    for (;;) {
+      // Удалить запись из audit_logs может только archive_audit_logs (SECURITY DEFINER), и только переносом в архив
+      const [{ moved }] = await this.dataSource.query<Array<{ moved: number }>>(
+        `SELECT archive_audit_logs($1, $2) AS moved`,
+        [before, ARCHIVE_BATCH_SIZE],
+      );
+      archived += moved;
+      if (moved < ARCHIVE_BATCH_SIZE) {
+        break;
+      }
+    }
+
+    if (archived) {
+      this.logger.log(`📦 Перенесено в архив записей аудита: ${archived}`);
+    }
+  }
+
+  /**
+   * Поля, значение которых изменилось; для создания и удаления - все поля
+   */
+  private diff(
+    before?: Record<string, unknown> | null,
+    after?: Record<string, unknown> | null,
+  ): AuditChanges | null {
+    if (!before && !after) {
+      return null;
+    }
+    const changes: AuditChanges = {};
+    const keys = new Set([
+      ...Object.keys(before ?? {}),
+      ...Object.keys(after ?? {}),
+    ]);
+    for (const key of keys) {
+      const previous = before?.[key] ?? null;
+      const next = after?.[key] ?? null;
+      if (canonicalJson(previous) !== canonicalJson(next)) {
+        changes[key] = { before: previous, after: next };
+      }
+    }
+    return Object.keys(changes).length > 0 ? changes : null;
+  }
+
+  /**
+   * Пользователи, при удалении которых удаляются персональные данные записи: исполнитель и аккаунт-цель
+   */
+  private subjectUserIds(data: AuditLogData): string[] {
+    const userIds = [
+      data.userId,
+      data.resource === 'user' ? data.resourceId : null,
+    ].filter((userId): userId is string => !!userId);
+    return [...new Set(userIds)];
+  }
+
+  private async findPersonalData(
+    rows: Array<{ id: string }>,
+  ): Promise<Map<string, AuditPersonalData>> {
+    const found = await this.dataSource.getRepository(AuditPersonalData).find({
+      where: { auditLogId: In(rows.map((row) => row.id)) },
     });
+    return new Map(found.map((data) => [data.auditLogId, data]));
+  }
 
-    return this.auditLogRepo.save(auditLog);
+  private hashRecord(record: AuditChainRecord): string {
+    return this.secretHashService.hash(
+      auditChainPayload(record),
+      AUDIT_CHAIN_SCOPE,
+    );
   }
 
   /**
@@ -63,7 +443,8 @@ export class AuditService {
   ): Promise<{ data: AuditLog[]; total: number; page: number; limit: number }> {
     const query = this.auditLogRepo
       .createQueryBuilder('audit')
-      .where('audit.userId = :userId', { userId })
+      .leftJoinAndSelect('audit.personalData', 'personalData')
+      .where(ACTOR_FILTER, { userId })
       .orderBy('audit.createdAt', 'DESC');
 
     if (service) {
@@ -93,7 +474,7 @@ export class AuditService {
   async getUserServiceTree(userId: string): Promise<any> {
     const auditLogs = await this.auditLogRepo
       .createQueryBuilder('audit')
-      .where('audit.userId = :userId', { userId })
+      .where(ACTOR_FILTER, { userId })
       .orderBy('audit.createdAt', 'DESC')
       .getMany();
 
@@ -171,7 +552,7 @@ export class AuditService {
         'MAX(audit.createdAt) as last_access',
         'MIN(audit.createdAt) as first_access',
       ])
-      .where('audit.userId = :userId', { userId })
+      .where(ACTOR_FILTER, { userId })
       .groupBy('audit.service')
       .orderBy('total_actions', 'DESC')
       .getRawMany();
@@ -192,7 +573,7 @@ export class AuditService {
         'audit.action',
         'audit.createdAt',
       ])
-      .where('audit.userId = :userId', { userId })
+      .where(ACTOR_FILTER, { userId })
       .orderBy('audit.createdAt', 'DESC')
       .getMany();
 
@@ -0,0 +1,132 @@
+import {
+  IsDateString,
+  IsIn,
+  IsInt,
+  IsIP,
+  IsNotEmpty,
+  IsObject,
+  IsOptional,
+  IsString,
+  IsUUID,
+  Matches,
+  Max,
+  MaxLength,
+  Min,
+  ValidateNested,
+} from 'class-validator';
+import { Type } from 'class-transformer';
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import type { AuditOutcome } from '../enums/audit-event.enum';
+
+export class AuditSearchFiltersDto {
+  @ApiPropertyOptional({ description: 'Пользователь, выполнивший действие' })
+  @IsOptional()
+  @IsUUID()
+  actorId?: string;
+
+  @ApiPropertyOptional({ example: 'user', description: 'Тип объекта действия' })
+  @IsOptional()
+  @IsString()
+  @MaxLength(100)
+  resource?: string;
+
+  @ApiPropertyOptional({ description: 'Идентификатор объекта действия' })
+  @IsOptional()
+  @IsString()
+  @MaxLength(100)
+  resourceId?: string;
+
+  @ApiPropertyOptional({ example: 'organization' })
+  @IsOptional()
+  @IsString()
+  @MaxLength(100)
+  service?: string;
+
+  @ApiPropertyOptional({ example: 'organization.member_removed' })
+  @IsOptional()
+  @IsString()
+  @MaxLength(100)
+  action?: string;
+
+  @ApiPropertyOptional()
+  @IsOptional()
+  @IsIP()
+  ipAddress?: string;
+
+  @ApiPropertyOptional({ example: 403 })
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt()
+  @Min(100)
+  @Max(599)
+  statusCode?: number;
+
+  @ApiPropertyOptional({ enum: ['success', 'failure'] })
+  @IsOptional()
+  @IsIn(['success', 'failure'])
+  outcome?: AuditOutcome;
+
+  @ApiPropertyOptional({
+    description: 'Начало периода (включительно), ISO 8601',
+  })
+  @IsOptional()
+  @IsDateString()
+  from?: string;
+
+  @ApiPropertyOptional({
+    description: 'Конец периода (не включительно), ISO 8601',
+  })
+  @IsOptional()
+  @IsDateString()
+  to?: string;
+}
+
+export class AuditSearchQueryDto extends AuditSearchFiltersDto {
+  @ApiPropertyOptional({
+    description: 'Сохранённый запрос; явные фильтры важнее',
+  })
+  @IsOptional()
+  @IsUUID()
+  savedQueryId?: string;
+
+  @ApiPropertyOptional({ description: 'nextCursor из предыдущей страницы' })
+  @IsOptional()
+  @Matches(/^\d{1,18}$/)
+  cursor?: string;
+
+  @ApiPropertyOptional({ default: 50 })
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt()
+  @Min(1)
+  @Max(500)
+  limit?: number;
+}
+
+export class AuditExportQueryDto extends AuditSearchFiltersDto {
+  @ApiPropertyOptional({
+    description: 'Сохранённый запрос; явные фильтры важнее',
+  })
+  @IsOptional()
+  @IsUUID()
+  savedQueryId?: string;
+
+  @ApiPropertyOptional({ enum: ['csv', 'ndjson'], default: 'csv' })
+  @IsOptional()
+  @IsIn(['csv', 'ndjson'])
+  format?: 'csv' | 'ndjson';
+}
+
+export class CreateAuditSavedQueryDto {
+  @ApiProperty({ example: 'Отказы в доступе за квартал' })
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(100)
+  name: string;
+
+  @ApiProperty({ type: AuditSearchFiltersDto })
+  @IsObject()
+  @ValidateNested()
+  @Type(() => AuditSearchFiltersDto)
+  filters: AuditSearchFiltersDto;
+}
@@ -0,0 +1,20 @@
+import { Entity, PrimaryColumn, Column, UpdateDateColumn } from 'typeorm';
+
+/**
+ * Последняя запись цепочки: блокировка строки упорядочивает добавление,
+ * а сверка с ней выявляет удаление записей с конца цепочки
+ */
+@Entity('audit_chain_heads')
+export class AuditChainHead {
+  @PrimaryColumn({ type: 'varchar', length: 36 })
+  chain: string;
+
+  @Column({ type: 'bigint', default: 0 })
+  sequence: string;
+
+  @Column({ type: 'char', length: 64 })
+  hash: string;
+
+  @UpdateDateColumn()
+  updatedAt: Date;
+}
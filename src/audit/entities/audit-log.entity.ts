@@ -2,24 +2,29 @@ import {
   Entity,
   PrimaryGeneratedColumn,
   Column,
-  CreateDateColumn,
-  UpdateDateColumn,
-  ManyToOne,
-  JoinColumn,
+  Index,
+  OneToOne,
 } from 'typeorm';
-import { User } from '../../users/entities/user.entity';
-
+import { AuditPersonalData } from './audit-personal-data.entity';
+import type { AuditOutcome } from '../enums/audit-event.enum';
+
+/**
+ * Запись журнала аудита. Только добавляется: изменения и удаление запрещены триггером,
+ * каждая запись подписывает предыдущую запись своей цепочки (организации или общей).
+ * IP, User-Agent, данные запроса и изменения хранятся отдельно (AuditPersonalData)
+ */
 @Entity('audit_logs')
+@Index(['chain', 'sequence'], { unique: true })
+@Index(['chain', 'action'])
+@Index(['chain', 'resource', 'resourceId'])
 export class AuditLog {
   @PrimaryGeneratedColumn('uuid')
   id: string;
 
-  @Column({ type: 'uuid' })
-  userId: string;
-
-  @ManyToOne(() => User, { onDelete: 'CASCADE' })
-  @JoinColumn({ name: 'userId' })
-  user: User;
+  // Псевдоним пользователя (audit_actors), null - анонимное действие
+  @Index()
+  @Column({ type: 'uuid', nullable: true })
+  actorId: string | null;
 
   @Column({ type: 'varchar', length: 100 })
   service: string; // 'auth', 'users', 'roles', 'permissions', etc.
@@ -33,21 +38,12 @@ export class AuditLog {
   @Column({ type: 'varchar', length: 100, nullable: true })
   resourceId: string; // ID конкретного ресурса
 
-  @Column({ type: 'jsonb', nullable: true })
-  requestData: any; // Данные запроса
-
   @Column({ type: 'jsonb', nullable: true })
   responseData: any; // Данные ответа
 
   @Column({ type: 'int', default: 200 })
   statusCode: number;
 
-  @Column({ type: 'varchar', length: 50, nullable: true })
-  ipAddress: string;
-
-  @Column({ type: 'varchar', length: 500, nullable: true })
-  userAgent: string;
-
   // Роли пользователя на момент действия
   @Column({ type: 'jsonb' })
   userRoles: string[];
@@ -64,9 +60,34 @@ export class AuditLog {
   @Column({ type: 'uuid', nullable: true })
   teamId: string;
 
-  @CreateDateColumn()
+  // Результат действия: success или failure
+  @Column({ type: 'varchar', length: 20, nullable: true })
+  outcome: AuditOutcome | null;
+
+  // Хеш персональных данных записи с солью; null - их у записи нет
+  @Column({ type: 'char', length: 64, nullable: true })
+  personalDataHash: string | null;
+
+  // Цепочка: id организации или 'global'
+  @Column({ type: 'varchar', length: 36 })
+  chain: string;
+
+  // Номер записи в цепочке, без пропусков
+  @Column({ type: 'bigint' })
+  sequence: string;
+
+  @Column({ type: 'char', length: 64 })
+  prevHash: string;
+
+  @Column({ type: 'char', length: 64 })
+  hash: string;
+
+  // Задаётся приложением: время входит в подпись записи
+  @Index()
+  @Column({ type: 'timestamp' })
   createdAt: Date;
 
-  @UpdateDateColumn()
-  updatedAt: Date;
+  // Нет, если данных не было или пользователь удалён
+  @OneToOne(() => AuditPersonalData, (data) => data.auditLog)
+  personalData?: AuditPersonalData | null;
 }
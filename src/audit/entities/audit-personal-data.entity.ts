@@ -0,0 +1,39 @@
+import { Entity, PrimaryColumn, Column, OneToOne, JoinColumn } from 'typeorm';
+import { AuditLog } from './audit-log.entity';
+
+/**
+ * Персональные данные записи журнала. Хранятся вне подписанной цепочки (в ней только хеш с солью)
+ * и удаляются при удалении пользователя, к которому относятся
+ */
+@Entity('audit_personal_data')
+export class AuditPersonalData {
+  // Запись журнала или архива; без внешнего ключа, запись переносится в архив с тем же id
+  @PrimaryColumn('uuid')
+  auditLogId: string;
+
+  // Пользователи, к которым относятся данные: исполнитель и аккаунт-цель
+  @Column({ type: 'text', array: true })
+  userIds: string[];
+
+  @Column({ type: 'char', length: 32 })
+  salt: string;
+
+  @Column({ type: 'varchar', length: 50, nullable: true })
+  ipAddress: string | null;
+
+  @Column({ type: 'varchar', length: 500, nullable: true })
+  userAgent: string | null;
+
+  @Column({ type: 'jsonb', nullable: true })
+  requestData: any; // Данные запроса
+
+  // Изменённые поля: { поле: { before, after } }
+  @Column({ type: 'jsonb', nullable: true })
+  changes: Record<string, { before: unknown; after: unknown }> | null;
+
+  @OneToOne(() => AuditLog, (log) => log.personalData, {
+    createForeignKeyConstraints: false,
+  })
+  @JoinColumn({ name: 'auditLogId' })
+  auditLog: AuditLog;
+}
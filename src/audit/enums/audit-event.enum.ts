@@ -0,0 +1,46 @@
+/**
+ * Доменные события журнала аудита. Префикс до точки попадает в поле service
+ */
+export enum AuditEvent {
+  AUTH_LOGIN = 'auth.login',
+  AUTH_LOGOUT = 'auth.logout',
+  AUTH_PASSWORD_CHANGED = 'auth.password_changed',
+  AUTH_REFRESH_TOKEN_REUSE = 'auth.refresh_token_reuse',
+  AUTH_LOGIN_RISK = 'auth.login_risk',
+  AUTH_LOGIN_REPORTED = 'auth.login_reported',
+  USER_REGISTERED = 'user.registered',
+  USER_ACCOUNTS_MERGED = 'user.accounts_merged',
+  PERMISSION_DENIED = 'rbac.permission_denied',
+  ROLE_ASSIGNED = 'role.assigned',
+  ROLE_REVOKED = 'role.revoked',
+  ROLE_CREATED = 'role.created',
+  ROLE_UPDATED = 'role.updated',
+  ROLE_PERMISSIONS_CHANGED = 'role.permissions_changed',
+  ROLE_DELETED = 'role.deleted',
+  PERMISSION_CREATED = 'permission.created',
+  ORGANIZATION_CREATED = 'organization.created',
+  ORGANIZATION_UPDATED = 'organization.updated',
+  ORGANIZATION_DELETED = 'organization.deleted',
+  ORGANIZATION_MEMBER_ADDED = 'organization.member_added',
+  ORGANIZATION_MEMBER_ROLE_CHANGED = 'organization.member_role_changed',
+  ORGANIZATION_MEMBER_REMOVED = 'organization.member_removed',
+  TEAM_CREATED = 'team.created',
+  TEAM_UPDATED = 'team.updated',
+  TEAM_DELETED = 'team.deleted',
+  TEAM_MEMBER_ADDED = 'team.member_added',
+  TEAM_MEMBER_ROLE_CHANGED = 'team.member_role_changed',
+  TEAM_MEMBER_REMOVED = 'team.member_removed',
+  INVITATION_CREATED = 'invitation.created',
+  INVITATION_ACCEPTED = 'invitation.accepted',
+  INVITATION_DECLINED = 'invitation.declined',
+  INVITATION_CANCELLED = 'invitation.cancelled',
+  AUDIT_EXPORTED = 'audit.exported',
+  PRIVACY_DATA_EXPORTED = 'privacy.data_exported',
+  PRIVACY_ERASURE_REQUESTED = 'privacy.erasure_requested',
+  PRIVACY_ERASURE_CANCELLED = 'privacy.erasure_cancelled',
+  PRIVACY_ERASURE_APPROVED = 'privacy.erasure_approved',
+  PRIVACY_ERASURE_REJECTED = 'privacy.erasure_rejected',
+  PRIVACY_ERASURE_COMPLETED = 'privacy.erasure_completed',
+}
+
+export type AuditOutcome = 'success' | 'failure';
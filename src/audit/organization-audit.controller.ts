@@ -0,0 +1,120 @@
+import {
+  Body,
+  Controller,
+  Delete,
+  Get,
+  Param,
+  ParseUUIDPipe,
+  Post,
+  Query,
+  StreamableFile,
+  UseGuards,
+} from '@nestjs/common';
+import {
+  ApiTags,
+  ApiOperation,
+  ApiResponse,
+  ApiBearerAuth,
+} from '@nestjs/swagger';
+import { Readable } from 'stream';
+import { AuditService } from './audit.service';
+import { AuditSearchService } from './audit-search.service';
+import {
+  AuditExportQueryDto,
+  AuditSearchQueryDto,
+  CreateAuditSavedQueryDto,
+} from './dto/audit-search.dto';
+import { JwtAuthGuard } from '../auth/guards/jwt-auth.guard';
+import { CurrentUser } from '../auth/decorators/current-user.decorator';
+import { RequirePermissions } from '../auth/decorators/permissions.decorator';
+import { PermissionScope } from '../auth/decorators/permission-scope.decorator';
+
+@ApiTags('audit')
+@Controller('organizations/:id/audit')
+@UseGuards(JwtAuthGuard)
+@ApiBearerAuth()
+@RequirePermissions('organizations.update')
+@PermissionScope({ organization: 'params.id' })
+export class OrganizationAuditController {
+  constructor(
+    private readonly auditService: AuditService,
+    private readonly auditSearchService: AuditSearchService,
+  ) {}
+
+  @Get()
+  @ApiOperation({ summary: 'Поиск по журналу аудита организации' })
+  @ApiResponse({
+    status: 200,
+    description: 'Записи, новые сверху, и курсор следующей страницы',
+  })
+  async search(
+    @Param('id', ParseUUIDPipe) organizationId: string,
+    @Query() query: AuditSearchQueryDto,
+  ) {
+    return this.auditSearchService.search(organizationId, query);
+  }
+
+  @Get('export')
+  @ApiOperation({ summary: 'Выгрузка журнала аудита в CSV или NDJSON' })
+  @ApiResponse({ status: 200, description: 'Файл выгрузки' })
+  async export(
+    @Param('id', ParseUUIDPipe) organizationId: string,
+    @Query() query: AuditExportQueryDto,
+    @CurrentUser() user: { userId: string },
+  ) {
+    const format = query.format ?? 'csv';
+    const chunks = await this.auditSearchService.export(
+      organizationId,
+      query,
+      user.userId,
+    );
+    return new StreamableFile(Readable.from(chunks), {
+      type:
+        format === 'csv'
+          ? 'text/csv; charset=utf-8'
+          : 'application/x-ndjson; charset=utf-8',
+      disposition: `attachment; filename="audit-${organizationId}.${format}"`,
+    });
+  }
+
+  @Get('queries')
+  @ApiOperation({ summary: 'Сохранённые запросы к журналу' })
+  @ApiResponse({ status: 200, description: 'Список запросов' })
+  async findSavedQueries(@Param('id', ParseUUIDPipe) organizationId: string) {
+    return this.auditSearchService.findSavedQueries(organizationId);
+  }
+
+  @Post('queries')
+  @ApiOperation({ summary: 'Сохранить фильтры поиска' })
+  @ApiResponse({ status: 201, description: 'Запрос сохранён' })
+  @ApiResponse({ status: 409, description: 'Название уже занято' })
+  async createSavedQuery(
+    @Param('id', ParseUUIDPipe) organizationId: string,
+    @Body() dto: CreateAuditSavedQueryDto,
+    @CurrentUser() user: { userId: string },
+  ) {
+    return this.auditSearchService.createSavedQuery(
+      organizationId,
+      dto,
+      user.userId,
+    );
+  }
+
+  @Delete('queries/:queryId')
+  @ApiOperation({ summary: 'Удалить сохранённый запрос' })
+  @ApiResponse({ status: 200, description: 'Запрос удалён' })
+  async deleteSavedQuery(
+    @Param('id', ParseUUIDPipe) organizationId: string,
+    @Param('queryId', ParseUUIDPipe) queryId: string,
+  ) {
+    await this.auditSearchService.deleteSavedQuery(organizationId, queryId);
+    return { message: 'Сохранённый запрос удалён' };
+  }
+
+  @Get('verify')
+  @ApiOperation({ summary: 'Проверка целостности журнала аудита организации' })
+  @ApiResponse({ status: 200, description: 'Результат проверки цепочки хешей' })
+  async verifyChain(@Param('id', ParseUUIDPipe) organizationId: string) {
+    return this.auditService.verifyChain(organizationId);
+  }
+}
@@ -1,9 +1,12 @@
-import { Controller, Post, Get, Body, UseGuards } from '@nestjs/common';
+import { Controller, Post, Get, Body, UseGuards, Req } from '@nestjs/common';
+import type { Request } from 'express';
 import { ApiTags, ApiOperation, ApiResponse, ApiBearerAuth } from '@nestjs/swagger';
 import { AuthService } from './auth.service';
 import { LoginDto } from './dto/login.dto';
 import { RegisterDto } from './dto/register.dto';
 import { RefreshTokenDto } from './dto/refresh-token.dto';
+import { SwitchContextDto } from './dto/switch-context.dto';
+import { ChangePasswordDto, ForcedPasswordChangeDto } from './dto/change-password.dto';
 import { SmartAuthDto, SmartAuthResponseDto } from './dto/smart-auth.dto';
 import { BindPhoneDto, VerifyPhoneDto, BindPhoneResponseDto } from './dto/bind-phone.dto';
 import { SendEmailVerificationDto, VerifyEmailDto, EmailVerificationResponseDto } from './dto/email-verification.dto';
@@ -11,7 +14,9 @@ import { Public } from './decorators/public.decorator';
 import { CurrentUser } from './decorators/current-user.decorator';
 import { RequirePermissions } from './decorators/permissions.decorator';
 import { JwtAuthGuard } from './guards/jwt-auth.guard';
-import { PermissionsGuard } from './guards/permissions.guard';
+import { SessionContext } from './interfaces/session.interface';
+import type { TelegramWidgetData } from './services/telegram-auth.service';
+import { CompleteTwoFactorLoginDto } from './dto/two-factor-login.dto';
 
 @ApiTags('auth')
 @Controller('auth')
@@ -23,8 +28,8 @@ export class AuthController {
   @ApiOperation({ summary: 'Регистрация нового пользователя (первый пользователь становится админом)' })
   @ApiResponse({ status: 201, description: 'Пользователь создан' })
   @ApiResponse({ status: 409, description: 'Email уже существует' })
-  async register(@Body() dto: RegisterDto) {
-    return this.authService.register(dto);
+  async register(@Body() dto: RegisterDto, @Req() req: Request) {
+    return this.authService.register(dto, this.sessionContext(req));
   }
 
   @Post('login')
@@ -33,8 +38,8 @@ export class AuthController {
   @ApiResponse({ status: 200, description: 'Успешная авторизация' })
   @ApiResponse({ status: 401, description: 'Неверные credentials' })
   @ApiResponse({ status: 202, description: 'Требуется 2FA' })
-  async login(@Body() dto: LoginDto) {
-    return this.authService.login(dto);
+  async login(@Body() dto: LoginDto, @Req() req: Request) {
+    return this.authService.login(dto, this.sessionContext(req));
   }
 
   @Post('2fa/complete')
@@ -42,23 +47,62 @@ export class AuthController {
   @ApiOperation({ summary: 'Завершение входа с 2FA' })
   @ApiResponse({ status: 200, description: '2FA успешно пройден' })
   @ApiResponse({ status: 400, description: 'Неверный код 2FA' })
-  async complete2FALogin(@Body() dto: { userId: string; code: string }) {
-    return this.authService.complete2FALogin(dto.userId, dto.code);
+  async complete2FALogin(
+    @Body() dto: CompleteTwoFactorLoginDto,
+    @Req() req: Request,
+  ) {
+    return this.authService.complete2FALogin(
+      dto.loginToken,
+      dto.code,
+      this.sessionContext(req),
+      dto.method,
+    );
+  }
+
+  @Post('password/forced-change')
+  @Public()
+  @ApiOperation({ summary: 'Смена пароля, которую потребовала политика паролей при входе' })
+  @ApiResponse({ status: 200, description: 'Пароль изменен, вход продолжен' })
+  @ApiResponse({ status: 400, description: 'Пароль не соответствует политике' })
+  @ApiResponse({ status: 401, description: 'Токен смены пароля невалиден или истек' })
+  async forcedPasswordChange(@Body() dto: ForcedPasswordChangeDto, @Req() req: Request) {
+    return this.authService.completePasswordChange(dto, this.sessionContext(req));
+  }
+
+  @Post('password/change')
+  @UseGuards(JwtAuthGuard)
+  @ApiBearerAuth()
+  @ApiOperation({ summary: 'Смена пароля' })
+  @ApiResponse({ status: 200, description: 'Пароль изменен' })
+  @ApiResponse({ status: 400, description: 'Неверный текущий пароль или пароль не соответствует политике' })
+  async changePassword(@Body() dto: ChangePasswordDto, @CurrentUser() user: any, @Req() req: Request) {
+    return this.authService.changePassword(user.userId, dto, this.sessionContext(req));
   }
 
   @Post('refresh')
   @Public()
-  @ApiOperation({ summary: 'Обновление access token' })
-  async refresh(@Body() dto: RefreshTokenDto) {
-    const accessToken = await this.authService.refreshAccessToken(dto.refreshToken);
-    return { accessToken };
+  @ApiOperation({ summary: 'Обновление access token (refresh token ротируется)' })
+  @ApiResponse({ status: 200, description: 'Новая пара токенов' })
+  @ApiResponse({ status: 401, description: 'Refresh token невалиден, отозван или уже использован' })
+  async refresh(@Body() dto: RefreshTokenDto, @Req() req: Request) {
+    return this.authService.refreshAccessToken(dto.refreshToken, this.sessionContext(req));
+  }
+
+  @Post('context')
+  @UseGuards(JwtAuthGuard)
+  @ApiBearerAuth()
+  @ApiOperation({ summary: 'Смена активной организации/команды (токены перевыпускаются с правами контекста)' })
+  @ApiResponse({ status: 200, description: 'Новая пара токенов для выбранного контекста' })
+  @ApiResponse({ status: 403, description: 'Пользователь не состоит в организации или команде' })
+  async switchContext(@Body() dto: SwitchContextDto, @CurrentUser() user: any, @Req() req: Request) {
+    return this.authService.switchContext(user.userId, user.sessionId, dto, this.sessionContext(req));
   }
 
   @Post('logout')
   @Public()
   @ApiOperation({ summary: 'Выход из системы' })
-  async logout(@Body() dto: RefreshTokenDto) {
-    await this.authService.logout(dto.refreshToken);
+  async logout(@Body() dto: RefreshTokenDto, @Req() req: Request) {
+    await this.authService.logout(dto.refreshToken, this.sessionContext(req));
     return { message: 'Logged out successfully' };
   }
 
@@ -78,8 +122,8 @@ export class AuthController {
   })
   @ApiResponse({ status: 200, description: 'Успешная авторизация или запрос дополнительных данных', type: SmartAuthResponseDto })
   @ApiResponse({ status: 400, description: 'Неверные данные' })
-  async smartAuth(@Body() dto: SmartAuthDto) {
-    return this.authService.smartAuth(dto);
+  async smartAuth(@Body() dto: SmartAuthDto, @Req() req: Request) {
+    return this.authService.smartAuth(dto, this.sessionContext(req));
   }
 
   @Post('complete-info')
@@ -160,7 +204,20 @@ export class AuthController {
   @ApiOperation({ summary: 'Обработка Telegram Login Widget' })
   @ApiResponse({ status: 200, description: 'Успешная авторизация через Telegram' })
   @ApiResponse({ status: 401, description: 'Неверные данные от Telegram' })
-  async handleTelegramLogin(@Body() telegramUser: any) {
-    return this.authService.handleTelegramLogin(telegramUser);
+  async handleTelegramLogin(
+    @Body() telegramUser: TelegramWidgetData,
+    @Req() req: Request,
+  ) {
+    return this.authService.handleTelegramLogin(
+      telegramUser,
+      this.sessionContext(req),
+    );
+  }
+
+  private sessionContext(req: Request): SessionContext {
+    return {
+      ipAddress: req.ip,
+      userAgent: req.get('User-Agent'),
+    };
   }
 }
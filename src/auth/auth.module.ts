@@ -1,8 +1,6 @@
-import { Module } from '@nestjs/common';
+import { Module, forwardRef } from '@nestjs/common';
 import { TypeOrmModule } from '@nestjs/typeorm';
-import { JwtModule } from '@nestjs/jwt';
 import { PassportModule } from '@nestjs/passport';
-import { ConfigModule, ConfigService } from '@nestjs/config';
 import { AuthService } from './auth.service';
 import { AuthController } from './auth.controller';
 import { TwoFactorService } from './two-factor.service';
@@ -22,16 +20,35 @@ import { UserRoleAssignment } from '../users/entities/user-role-assignment.entit
 import { UsersModule } from '../users/users.module';
 import { RbacModule } from '../rbac/rbac.module';
 import { SettingsModule } from '../settings/settings.module';
+import { AuditModule } from '../audit/audit.module';
 
 // ✅ НОВЫЕ СЕРВИСЫ И КОНТРОЛЛЕРЫ ДЛЯ MULTI-AUTH
 import { MultiAuthService } from './services/multi-auth.service';
 import { PhoneAuthService } from './services/phone-auth.service';
-import { GitHubAuthService } from './services/github-auth.service';
-import { VKontakteAuthService } from './services/vkontakte-auth.service';
-import { GosuslugiAuthService } from './services/gosuslugi-auth.service';
+import { VerificationCodesService } from './services/verification-codes.service';
+import { TelegramAuthService } from './services/telegram-auth.service';
 import { MultiAuthController } from './controllers/multi-auth.controller';
+import { SessionsController } from './controllers/sessions.controller';
+import { UserSessionsController } from './controllers/user-sessions.controller';
+import { SessionsService } from './services/sessions.service';
 import { VerificationCode } from './entities/verification-code.entity';
 import { AccountMergeRequest } from './entities/account-merge-request.entity';
+import { WebAuthnCredential } from './entities/webauthn-credential.entity';
+import { WebAuthnChallenge } from './entities/webauthn-challenge.entity';
+import { UserIdentity } from '../identities/entities/user-identity.entity';
+import { WebAuthnService } from './services/webauthn.service';
+import { WebAuthnController } from './controllers/webauthn.controller';
+import { AccountMergeService } from './services/account-merge.service';
+import { AccountMergeController } from './controllers/account-merge.controller';
+import { OrganizationMembership } from '../organizations/entities/organization-membership.entity';
+import { TeamMembership } from '../teams/entities/team-membership.entity';
+import { LoginAttempt } from './entities/login-attempt.entity';
+import { LoginRiskAssessment } from './entities/login-risk-assessment.entity';
+import { LoginRiskService } from './services/login-risk.service';
+import { LoginRiskController } from './controllers/login-risk.controller';
+import { PendingLogin } from './entities/pending-login.entity';
+import { PendingLoginService } from './services/pending-login.service';
+import { NotificationsModule } from '../notifications/notifications.module';
 
 // Micro Modules
 import { FinalMicroModulesModule } from './micro-modules/final-micro-modules.module';
@@ -52,25 +69,25 @@ import { EmailCodeModule } from './micro-modules/email-code/email-code.module';
       // ✅ НОВЫЕ ENTITIES ДЛЯ MULTI-AUTH
       VerificationCode,
       AccountMergeRequest,
+      WebAuthnCredential,
+      WebAuthnChallenge,
+      UserIdentity,
+      OrganizationMembership,
+      TeamMembership,
+      LoginAttempt,
+      LoginRiskAssessment,
+      PendingLogin,
     ]),
     PassportModule,
-    JwtModule.registerAsync({
-      imports: [ConfigModule],
-      useFactory: (configService: ConfigService) => ({
-        secret: configService.get<string>('jwt.secret') || 'default-secret',
-        signOptions: {
-          expiresIn: '15m' as any,
-        },
-      }),
-      inject: [ConfigService],
-    }),
     UsersModule,
     RbacModule,
     SettingsModule,
+    AuditModule,
+    NotificationsModule,
     ReferralsModule, // Реферальная система
     InvitationsModule, // Система приглашений
-    EmailCodeModule, // Вход по коду с почты
-    FinalMicroModulesModule.forRoot(), // Подключаем все микромодули
+    forwardRef(() => EmailCodeModule), // Вход по коду с почты
+    forwardRef(() => FinalMicroModulesModule.forRoot()), // Подключаем все микромодули
   ],
   controllers: [
     AuthController, 
@@ -78,6 +95,11 @@ import { EmailCodeModule } from './micro-modules/email-code/email-code.module';
     PasswordResetController,
     // ✅ НОВЫЕ КОНТРОЛЛЕРЫ ДЛЯ MULTI-AUTH
     MultiAuthController,
+    SessionsController,
+    UserSessionsController,
+    WebAuthnController,
+    AccountMergeController,
+    LoginRiskController,
   ],
   providers: [
     AuthService, 
@@ -89,19 +111,21 @@ import { EmailCodeModule } from './micro-modules/email-code/email-code.module';
     // ✅ НОВЫЕ СЕРВИСЫ ДЛЯ MULTI-AUTH
     MultiAuthService,
     PhoneAuthService,
-    GitHubAuthService,
-    VKontakteAuthService,
-    GosuslugiAuthService,
+    VerificationCodesService,
+    TelegramAuthService,
+    SessionsService,
+    WebAuthnService,
+    AccountMergeService,
+    LoginRiskService,
+    PendingLoginService,
   ],
   exports: [
     AuthService, 
     TwoFactorService,
+    SessionsService,
     // ✅ ЭКСПОРТИРУЕМ НОВЫЕ СЕРВИСЫ
     MultiAuthService,
     PhoneAuthService,
-    GitHubAuthService,
-    VKontakteAuthService,
-    GosuslugiAuthService,
   ],
 })
 export class AuthModule {}
@@ -1,16 +1,42 @@
 import { Test, TestingModule } from '@nestjs/testing';
 import { getRepositoryToken } from '@nestjs/typeorm';
-import { JwtService } from '@nestjs/jwt';
-import { ConflictException, UnauthorizedException } from '@nestjs/common';
+import {
+  BadRequestException,
+  ConflictException,
+  ForbiddenException,
+  HttpException,
+  HttpStatus,
+  UnauthorizedException,
+} from '@nestjs/common';
+import * as bcrypt from 'bcrypt';
 import { AuthService } from './auth.service';
 import { UsersService } from '../users/users.service';
+import { SigningKeysService } from './services/signing-keys.service';
 import { RefreshToken } from './entities/refresh-token.entity';
-import { User } from '../users/entities/user.entity';
+import { Role } from '../rbac/entities/role.entity';
+import { UserRoleAssignment } from '../users/entities/user-role-assignment.entity';
+import { SettingsService } from '../settings/settings.service';
+import { SessionsService } from './services/sessions.service';
+import { PasswordPolicyService } from './services/password-policy.service';
+import { WebhooksService } from '../webhooks/webhooks.service';
+import { AuditService } from '../audit/audit.service';
+import { AuditEvent } from '../audit/enums/audit-event.enum';
+import { SecretHashService } from './services/secret-hash.service';
+import { PendingLoginService } from './services/pending-login.service';
+import { LoginProtectionService } from './services/login-protection.service';
+import { LoginRiskService } from './services/login-risk.service';
+import { TwoFactorCodesService } from './services/two-factor-codes.service';
+import { LoginAttemptChannel } from './entities/login-attempt.entity';
+import { WebAuthnService } from './services/webauthn.service';
+import { WebAuthnChallengePurpose } from './entities/webauthn-challenge.entity';
+import { WebAuthnAssertionDto } from './dto/webauthn.dto';
+import { TwoFactorMethod } from '../users/enums/two-factor-method.enum';
+import { LoginRiskDecision } from './entities/login-risk-assessment.entity';
+import { AuthResponseDto } from './dto/auth-response.dto';
+import { TelegramAuthService } from './services/telegram-auth.service';
 
 describe('AuthService', () => {
   let service: AuthService;
-  let usersService: UsersService;
-  let jwtService: JwtService;
 
   const mockRefreshTokenRepository = {
     save: jest.fn(),
@@ -20,14 +46,90 @@ describe('AuthService', () => {
 
   const mockUsersService = {
     findByEmail: jest.fn(),
+    findById: jest.fn(),
     create: jest.fn(),
+    getUserCount: jest.fn(),
   };
 
-  const mockJwtService = {
+  const mockSigningKeysService = {
     sign: jest.fn(),
   };
 
+  const mockRoleRepository = {
+    findOne: jest.fn(),
+  };
+
+  const mockUserRoleAssignmentRepository = {
+    find: jest.fn(),
+    save: jest.fn(),
+  };
+
+  const mockSettingsService = {
+    getDefaultUserRole: jest.fn(),
+  };
+
+  const mockSessionsService = {
+    createRefreshToken: jest.fn(),
+  };
+
+  const mockPasswordPolicyService = {
+    assertValid: jest.fn(),
+    recordPasswordChange: jest.fn(),
+  };
+
+  const mockWebhooksService = {
+    emitForUser: jest.fn(),
+  };
+
+  const mockAuditService = {
+    record: jest.fn(),
+  };
+
+  const mockSecretHashService = {
+    hash: jest.fn((value: string) => `hash:${value}`),
+  };
+
+  const mockPendingLoginService = {
+    issue: jest.fn().mockResolvedValue('login-token'),
+    resolve: jest.fn(),
+    consume: jest.fn(),
+  };
+
+  const mockLoginProtectionService = {
+    userKey: jest.fn((userId: string) => `user:${userId}`),
+    emailKey: jest.fn((email: string) => `email:${email}`),
+    passkeyKey: jest.fn((credentialId: string) => `passkey:${credentialId}`),
+    telegramKey: jest.fn((telegramId: string) => `telegram:${telegramId}`),
+    assertAllowed: jest.fn(),
+    recordSuccess: jest.fn(),
+    recordFailure: jest.fn(),
+  };
+
+  const mockLoginRiskService = {
+    assess: jest.fn().mockResolvedValue({ decision: LoginRiskDecision.ALLOW }),
+    confirmPending: jest.fn(),
+    recordSecondFactorFailure: jest.fn(),
+    hasPendingChallenge: jest.fn(),
+  };
+
+  const mockTwoFactorCodesService = {
+    verify: jest.fn(),
+  };
+
+  const mockWebAuthnService = {
+    findCredentialOwner: jest.fn(),
+    generateAuthenticationOptions: jest.fn(),
+    verifyAuthentication: jest.fn(),
+  };
+
+  const mockTelegramAuthService = {
+    verify: jest.fn(),
+    findUser: jest.fn(),
+  };
+
   beforeEach(async () => {
+    jest.clearAllMocks();
+
     const module: TestingModule = await Test.createTestingModule({
       providers: [
         AuthService,
@@ -36,19 +138,76 @@ describe('AuthService', () => {
           useValue: mockUsersService,
         },
         {
-          provide: JwtService,
-          useValue: mockJwtService,
+          provide: SigningKeysService,
+          useValue: mockSigningKeysService,
         },
         {
           provide: getRepositoryToken(RefreshToken),
           useValue: mockRefreshTokenRepository,
         },
+        {
+          provide: getRepositoryToken(Role),
+          useValue: mockRoleRepository,
+        },
+        {
+          provide: getRepositoryToken(UserRoleAssignment),
+          useValue: mockUserRoleAssignmentRepository,
+        },
+        {
+          provide: SettingsService,
+          useValue: mockSettingsService,
+        },
+        {
+          provide: SessionsService,
+          useValue: mockSessionsService,
+        },
+        {
+          provide: PasswordPolicyService,
+          useValue: mockPasswordPolicyService,
+        },
+        {
+          provide: WebhooksService,
+          useValue: mockWebhooksService,
+        },
+        {
+          provide: AuditService,
+          useValue: mockAuditService,
+        },
+        {
+          provide: SecretHashService,
+          useValue: mockSecretHashService,
+        },
+        {
+          provide: PendingLoginService,
+          useValue: mockPendingLoginService,
+        },
+        {
+          provide: LoginProtectionService,
+          useValue: mockLoginProtectionService,
+        },
+        {
+          provide: LoginRiskService,
+          useValue: mockLoginRiskService,
+        },
+        {
+          provide: TwoFactorCodesService,
+          useValue: mockTwoFactorCodesService,
+        },
+        {
+          provide: WebAuthnService,
+          useValue: mockWebAuthnService,
+        },
+        {
+          provide: TelegramAuthService,
+          useValue: mockTelegramAuthService,
+        },
       ],
-    }).compile();
+    })
+      // Остальные зависимости в этих сценариях не вызываются
+      .useMocker(() => ({}))
+      .compile();
 
     service = module.get<AuthService>(AuthService);
-    usersService = module.get<UsersService>(UsersService);
-    jwtService = module.get<JwtService>(JwtService);
   });
 
   it('should be defined', () => {
@@ -64,9 +223,14 @@ describe('AuthService', () => {
         lastName: 'User',
       };
 
-      mockUsersService.findByEmail.mockResolvedValue({ id: '1', email: 'test@example.com' });
+      mockUsersService.findByEmail.mockResolvedValue({
+        id: '1',
+        email: 'test@example.com',
+      });
 
-      await expect(service.register(registerDto)).rejects.toThrow(ConflictException);
+      await expect(service.register(registerDto)).rejects.toThrow(
+        ConflictException,
+      );
     });
 
     it('should create user if email does not exist', async () => {
@@ -86,16 +250,40 @@ describe('AuthService', () => {
 
       mockUsersService.findByEmail.mockResolvedValue(null);
       mockUsersService.create.mockResolvedValue(createdUser);
+      mockUsersService.getUserCount.mockResolvedValue(1);
+      mockUsersService.findById.mockResolvedValue({
+        ...createdUser,
+        passwordHash: 'hash',
+        userRoleAssignments: [],
+      });
+      mockSettingsService.getDefaultUserRole.mockResolvedValue('viewer');
+      mockRoleRepository.findOne.mockResolvedValue({
+        id: 'role-1',
+        name: 'viewer',
+      });
+      mockUserRoleAssignmentRepository.find.mockResolvedValue([]);
+      mockSessionsService.createRefreshToken.mockResolvedValue({
+        token: 'refresh-token',
+        familyId: 'family-1',
+      });
+      mockSigningKeysService.sign.mockReturnValue('access-token');
 
       const result = await service.register(registerDto);
 
-      expect(result).toEqual(createdUser);
+      expect(result.accessToken).toBe('access-token');
+      expect(result.refreshToken).toBe('refresh-token');
+      expect(result.user).toEqual(expect.objectContaining(createdUser));
+      expect(result.user).not.toHaveProperty('passwordHash');
+      expect(mockUserRoleAssignmentRepository.save).toHaveBeenCalledWith({
+        userId: '1',
+        roleId: 'role-1',
+      });
       expect(mockUsersService.create).toHaveBeenCalledWith(
         expect.objectContaining({
           email: 'test@example.com',
           firstName: 'Test',
           lastName: 'User',
-        })
+        }),
       );
     });
   });
@@ -104,9 +292,9 @@ describe('AuthService', () => {
     it('should throw UnauthorizedException if user not found', async () => {
       mockUsersService.findByEmail.mockResolvedValue(null);
 
-      await expect(service.validateUser('test@example.com', 'password')).rejects.toThrow(
-        UnauthorizedException
-      );
+      await expect(
+        service.validateUser('test@example.com', 'password'),
+      ).rejects.toThrow(UnauthorizedException);
     });
 
     it('should throw UnauthorizedException if user is inactive', async () => {
@@ -119,9 +307,651 @@ describe('AuthService', () => {
 
       mockUsersService.findByEmail.mockResolvedValue(user);
 
-      await expect(service.validateUser('test@example.com', 'password')).rejects.toThrow(
-        UnauthorizedException
+      await expect(
+        service.validateUser('test@example.com', 'password'),
+      ).rejects.toThrow(UnauthorizedException);
+    });
+  });
+
+  describe('login', () => {
+    it('should record a failed login anonymously with the account as the target', async () => {
+      mockUsersService.findByEmail.mockResolvedValue({
+        id: '1',
+        email: 'test@example.com',
+        passwordHash: await bcrypt.hash('correct-password', 4),
+        isActive: true,
+      });
+
+      await expect(
+        service.login(
+          { email: 'test@example.com', password: 'wrong-password' },
+          { ipAddress: '10.0.0.1' },
+        ),
+      ).rejects.toThrow(UnauthorizedException);
+      expect(mockAuditService.record).toHaveBeenCalledWith(
+        AuditEvent.AUTH_LOGIN,
+        expect.objectContaining({
+          actorId: null,
+          targetType: 'user',
+          targetId: '1',
+          outcome: 'failure',
+          statusCode: 401,
+          details: { method: LoginAttemptChannel.PASSWORD },
+        }),
+      );
+    });
+  });
+
+  describe('refreshAccessToken', () => {
+    const tokenRecord = (overrides: Partial<RefreshToken> = {}) => ({
+      id: 'token-1',
+      userId: 'user-1',
+      familyId: 'family-1',
+      usedAt: null,
+      isRevoked: false,
+      expiresAt: new Date(Date.now() + 60_000),
+      organizationId: null,
+      teamId: null,
+      deviceName: null,
+      ipAddress: null,
+      userAgent: null,
+      user: {
+        id: 'user-1',
+        email: 'test@example.com',
+        twoFactorEnabled: false,
+      },
+      ...overrides,
+    });
+
+    const expectFamilyRevoked = () => {
+      expect(mockRefreshTokenRepository.update).toHaveBeenCalledWith(
+        { familyId: 'family-1', isRevoked: false },
+        { isRevoked: true, revokedReason: 'reuse_detected' },
+      );
+      expect(mockAuditService.record).toHaveBeenCalledWith(
+        AuditEvent.AUTH_REFRESH_TOKEN_REUSE,
+        expect.objectContaining({ targetId: 'user-1', outcome: 'failure' }),
+      );
+      expect(mockSessionsService.createRefreshToken).not.toHaveBeenCalled();
+    };
+
+    it('should rotate the token within the same family', async () => {
+      mockRefreshTokenRepository.findOne.mockResolvedValue(tokenRecord());
+      mockRefreshTokenRepository.update.mockResolvedValue({ affected: 1 });
+      mockSessionsService.createRefreshToken.mockResolvedValue({
+        id: 'token-2',
+        token: 'next-refresh-token',
+        familyId: 'family-1',
+      });
+      mockUserRoleAssignmentRepository.find.mockResolvedValue([]);
+      mockSigningKeysService.sign.mockReturnValue('access-token');
+
+      const result = await service.refreshAccessToken('refresh-token');
+
+      expect(result).toEqual({
+        accessToken: 'access-token',
+        refreshToken: 'next-refresh-token',
+      });
+      expect(mockRefreshTokenRepository.findOne).toHaveBeenCalledWith(
+        expect.objectContaining({
+          where: { tokenHash: 'hash:refresh-token' },
+        }),
+      );
+      expect(mockSessionsService.createRefreshToken).toHaveBeenCalledWith(
+        'user-1',
+        expect.objectContaining({ familyId: 'family-1' }),
+      );
+      expect(mockRefreshTokenRepository.update).toHaveBeenCalledWith(
+        'token-1',
+        { replacedById: 'token-2' },
+      );
+    });
+
+    it('should revoke the whole family when a used token is presented again', async () => {
+      mockRefreshTokenRepository.findOne.mockResolvedValue(
+        tokenRecord({ usedAt: new Date() }),
+      );
+      mockRefreshTokenRepository.update.mockResolvedValue({ affected: 3 });
+
+      await expect(service.refreshAccessToken('refresh-token')).rejects.toThrow(
+        UnauthorizedException,
+      );
+      expectFamilyRevoked();
+    });
+
+    it('should revoke the whole family when a parallel request already used the token', async () => {
+      mockRefreshTokenRepository.findOne.mockResolvedValue(tokenRecord());
+      mockRefreshTokenRepository.update
+        .mockResolvedValueOnce({ affected: 0 })
+        .mockResolvedValueOnce({ affected: 2 });
+
+      await expect(service.refreshAccessToken('refresh-token')).rejects.toThrow(
+        UnauthorizedException,
+      );
+      expectFamilyRevoked();
+    });
+
+    it('should reject a revoked token without touching the family', async () => {
+      mockRefreshTokenRepository.findOne.mockResolvedValue(
+        tokenRecord({ isRevoked: true }),
+      );
+
+      await expect(service.refreshAccessToken('refresh-token')).rejects.toThrow(
+        UnauthorizedException,
+      );
+      expect(mockRefreshTokenRepository.update).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('complete2FALogin', () => {
+    const pending = { id: 'pending-1', userId: 'user-1' };
+
+    beforeEach(() => {
+      mockUsersService.findById.mockResolvedValue({
+        id: 'user-1',
+        email: 'test@example.com',
+        isActive: true,
+        twoFactorEnabled: true,
+        totpConfirmedAt: null,
+        userRoleAssignments: [],
+      });
+      mockUserRoleAssignmentRepository.find.mockResolvedValue([]);
+      mockSessionsService.createRefreshToken.mockResolvedValue({
+        token: 'refresh-token',
+        familyId: 'family-1',
+      });
+      mockSigningKeysService.sign.mockReturnValue('access-token');
+    });
+
+    it('should reject a bare userId instead of a login token', async () => {
+      mockPendingLoginService.resolve.mockRejectedValue(
+        new UnauthorizedException('Невалидный токен'),
+      );
+
+      await expect(
+        service.complete2FALogin('user-1', '123456'),
+      ).rejects.toThrow(UnauthorizedException);
+      expect(mockTwoFactorCodesService.verify).not.toHaveBeenCalled();
+      expect(mockSessionsService.createRefreshToken).not.toHaveBeenCalled();
+    });
+
+    it('should issue tokens for the user of the login token and consume it', async () => {
+      mockPendingLoginService.resolve.mockResolvedValue(pending);
+      mockTwoFactorCodesService.verify.mockResolvedValue({ valid: true });
+
+      const result = await service.complete2FALogin('login-token', '123456');
+
+      expect(result.accessToken).toBe('access-token');
+      expect(mockTwoFactorCodesService.verify).toHaveBeenCalledWith(
+        { userId: 'user-1' },
+        '123456',
+      );
+      expect(mockPendingLoginService.consume).toHaveBeenCalledWith(pending);
+      expect(mockLoginRiskService.confirmPending).toHaveBeenCalledWith(
+        'user-1',
+      );
+    });
+
+    it('should keep the login token and count the failure on a wrong code', async () => {
+      mockPendingLoginService.resolve.mockResolvedValue(pending);
+      mockTwoFactorCodesService.verify.mockResolvedValue({
+        valid: false,
+        reason: 'invalid',
+      });
+
+      await expect(
+        service.complete2FALogin('login-token', '000000'),
+      ).rejects.toThrow(BadRequestException);
+      expect(mockPendingLoginService.consume).not.toHaveBeenCalled();
+      expect(mockLoginProtectionService.recordFailure).toHaveBeenCalledWith(
+        'user:user-1',
+        LoginAttemptChannel.TWO_FACTOR,
+        expect.objectContaining({ userId: 'user-1' }),
+      );
+    });
+
+    it('should not issue tokens twice for the same login token', async () => {
+      mockPendingLoginService.resolve.mockResolvedValue(pending);
+      mockTwoFactorCodesService.verify.mockResolvedValue({ valid: true });
+      mockPendingLoginService.consume.mockRejectedValueOnce(
+        new UnauthorizedException('Вход не начат или истёк, войдите заново'),
+      );
+
+      await expect(
+        service.complete2FALogin('login-token', '123456'),
+      ).rejects.toThrow(UnauthorizedException);
+      expect(mockSessionsService.createRefreshToken).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('WebAuthn second factor', () => {
+    const pending = { id: 'pending-1', userId: 'user-1' };
+    const credential = { rawId: 'raw-credential-id' } as WebAuthnAssertionDto;
+
+    beforeEach(() => {
+      mockUsersService.findById.mockResolvedValue({
+        id: 'user-1',
+        email: 'test@example.com',
+        isActive: true,
+        twoFactorEnabled: true,
+        twoFactorMethods: [TwoFactorMethod.WEBAUTHN],
+        userRoleAssignments: [],
+      });
+      mockUserRoleAssignmentRepository.find.mockResolvedValue([]);
+      mockSessionsService.createRefreshToken.mockResolvedValue({
+        token: 'refresh-token',
+        familyId: 'family-1',
+      });
+      mockSigningKeysService.sign.mockReturnValue('access-token');
+    });
+
+    it('should not issue a challenge for a bare userId', async () => {
+      mockPendingLoginService.resolve.mockRejectedValueOnce(
+        new UnauthorizedException('Невалидный токен'),
+      );
+
+      await expect(
+        service.webAuthnSecondFactorOptions('user-1'),
+      ).rejects.toThrow(UnauthorizedException);
+      expect(
+        mockWebAuthnService.generateAuthenticationOptions,
+      ).not.toHaveBeenCalled();
+    });
+
+    it('should bind the challenge to the pending login', async () => {
+      mockPendingLoginService.resolve.mockResolvedValue(pending);
+
+      await service.webAuthnSecondFactorOptions('login-token');
+
+      expect(
+        mockWebAuthnService.generateAuthenticationOptions,
+      ).toHaveBeenCalledWith(
+        WebAuthnChallengePurpose.SECOND_FACTOR,
+        'user-1',
+        'pending-1',
+      );
+    });
+
+    it('should not accept an assertion with a bare userId', async () => {
+      mockPendingLoginService.resolve.mockRejectedValueOnce(
+        new UnauthorizedException('Невалидный токен'),
+      );
+
+      await expect(
+        service.completeWebAuthnSecondFactor('user-1', credential),
+      ).rejects.toThrow(UnauthorizedException);
+      expect(mockWebAuthnService.verifyAuthentication).not.toHaveBeenCalled();
+      expect(mockSessionsService.createRefreshToken).not.toHaveBeenCalled();
+    });
+
+    it('should complete the pending login with a verified assertion', async () => {
+      mockPendingLoginService.resolve.mockResolvedValue(pending);
+      mockWebAuthnService.verifyAuthentication.mockResolvedValue({
+        userId: 'user-1',
+      });
+
+      const result = await service.completeWebAuthnSecondFactor(
+        'login-token',
+        credential,
+      );
+
+      expect(result.accessToken).toBe('access-token');
+      expect(mockWebAuthnService.verifyAuthentication).toHaveBeenCalledWith(
+        credential,
+        WebAuthnChallengePurpose.SECOND_FACTOR,
+        'user-1',
+        'pending-1',
+      );
+      expect(mockPendingLoginService.consume).toHaveBeenCalledWith(pending);
+    });
+
+    it('should not verify the assertion while the account is locked', async () => {
+      mockPendingLoginService.resolve.mockResolvedValue(pending);
+      mockLoginProtectionService.assertAllowed.mockRejectedValueOnce(
+        new HttpException('Заблокирован', HttpStatus.TOO_MANY_REQUESTS),
+      );
+
+      await expect(
+        service.completeWebAuthnSecondFactor('login-token', credential),
+      ).rejects.toThrow(HttpException);
+      expect(mockLoginProtectionService.assertAllowed).toHaveBeenCalledWith(
+        'user:user-1',
+        undefined,
+      );
+      expect(mockWebAuthnService.verifyAuthentication).not.toHaveBeenCalled();
+    });
+
+    it('should count a failed assertion against the account', async () => {
+      mockPendingLoginService.resolve.mockResolvedValue(pending);
+      mockWebAuthnService.verifyAuthentication.mockRejectedValueOnce(
+        new UnauthorizedException('Неверная подпись WebAuthn'),
+      );
+
+      await expect(
+        service.completeWebAuthnSecondFactor('login-token', credential),
+      ).rejects.toThrow(UnauthorizedException);
+      expect(mockLoginProtectionService.recordFailure).toHaveBeenCalledWith(
+        'user:user-1',
+        LoginAttemptChannel.TWO_FACTOR,
+        expect.objectContaining({ userId: 'user-1' }),
+      );
+      expect(mockPendingLoginService.consume).not.toHaveBeenCalled();
+    });
+
+    it('should refuse when the user has not enabled WebAuthn as a second factor', async () => {
+      mockPendingLoginService.resolve.mockResolvedValue(pending);
+      mockUsersService.findById.mockResolvedValue({
+        id: 'user-1',
+        isActive: true,
+        twoFactorEnabled: true,
+        twoFactorMethods: [TwoFactorMethod.TOTP],
+      });
+
+      await expect(
+        service.completeWebAuthnSecondFactor('login-token', credential),
+      ).rejects.toThrow(UnauthorizedException);
+      expect(mockWebAuthnService.verifyAuthentication).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('loginWithPasskey', () => {
+    const credential = { rawId: 'raw-credential-id' } as WebAuthnAssertionDto;
+    const context = { ipAddress: '10.0.0.1' };
+
+    it('should not verify the assertion while the owner account is locked', async () => {
+      mockWebAuthnService.findCredentialOwner.mockResolvedValue('user-1');
+      mockLoginProtectionService.assertAllowed.mockRejectedValueOnce(
+        new HttpException('Заблокирован', HttpStatus.TOO_MANY_REQUESTS),
+      );
+
+      await expect(
+        service.loginWithPasskey(credential, context),
+      ).rejects.toThrow(HttpException);
+      expect(mockLoginProtectionService.assertAllowed).toHaveBeenCalledWith(
+        'user:user-1',
+        '10.0.0.1',
+      );
+      expect(mockWebAuthnService.verifyAuthentication).not.toHaveBeenCalled();
+    });
+
+    it('should count a failed assertion against the owner account', async () => {
+      mockWebAuthnService.findCredentialOwner.mockResolvedValue('user-1');
+      mockWebAuthnService.verifyAuthentication.mockRejectedValueOnce(
+        new UnauthorizedException('Неверная подпись WebAuthn'),
+      );
+
+      await expect(
+        service.loginWithPasskey(credential, context),
+      ).rejects.toThrow(UnauthorizedException);
+      expect(mockLoginProtectionService.recordFailure).toHaveBeenCalledWith(
+        'user:user-1',
+        LoginAttemptChannel.PASSKEY,
+        expect.objectContaining({ ipAddress: '10.0.0.1', userId: 'user-1' }),
+      );
+    });
+
+    it('should count an unknown key against the client IP', async () => {
+      mockWebAuthnService.findCredentialOwner.mockResolvedValue(null);
+      mockWebAuthnService.verifyAuthentication.mockRejectedValueOnce(
+        new UnauthorizedException('Ключ не зарегистрирован'),
+      );
+
+      await expect(
+        service.loginWithPasskey(credential, context),
+      ).rejects.toThrow(UnauthorizedException);
+      expect(mockLoginProtectionService.recordFailure).toHaveBeenCalledWith(
+        'passkey:raw-credential-id',
+        LoginAttemptChannel.PASSKEY,
+        expect.objectContaining({ ipAddress: '10.0.0.1', userId: null }),
+      );
+    });
+
+    it('should reset the counter and log in with a verified assertion', async () => {
+      mockWebAuthnService.findCredentialOwner.mockResolvedValue('user-1');
+      mockWebAuthnService.verifyAuthentication.mockResolvedValue({
+        userId: 'user-1',
+      });
+      mockUsersService.findById.mockResolvedValue({
+        id: 'user-1',
+        email: 'test@example.com',
+        isActive: true,
+        userRoleAssignments: [],
+      });
+      mockUserRoleAssignmentRepository.find.mockResolvedValue([]);
+      mockSessionsService.createRefreshToken.mockResolvedValue({
+        token: 'refresh-token',
+        familyId: 'family-1',
+      });
+      mockSigningKeysService.sign.mockReturnValue('access-token');
+
+      const result = await service.loginWithPasskey(credential, context);
+
+      expect((result as AuthResponseDto).accessToken).toBe('access-token');
+      expect(mockLoginProtectionService.recordSuccess).toHaveBeenCalledWith(
+        'user:user-1',
+        LoginAttemptChannel.PASSKEY,
+        expect.objectContaining({ userId: 'user-1' }),
+      );
+    });
+  });
+
+  describe('loginVerifiedUser', () => {
+    const context = { ipAddress: '10.0.0.1', userAgent: 'jest' };
+
+    const activeUser = (overrides: Record<string, unknown> = {}) => ({
+      id: 'user-1',
+      email: 'test@example.com',
+      isActive: true,
+      twoFactorEnabled: false,
+      twoFactorMethods: [],
+      userRoleAssignments: [],
+      ...overrides,
+    });
+
+    beforeEach(() => {
+      mockUserRoleAssignmentRepository.find.mockResolvedValue([]);
+      mockSessionsService.createRefreshToken.mockResolvedValue({
+        token: 'refresh-token',
+        familyId: 'family-1',
+      });
+      mockSigningKeysService.sign.mockReturnValue('access-token');
+    });
+
+    it('should assess the login risk for the channel and issue tokens', async () => {
+      mockUsersService.findById.mockResolvedValue(activeUser());
+
+      const result = await service.loginVerifiedUser(
+        'user-1',
+        LoginAttemptChannel.OAUTH,
+        context,
+      );
+
+      expect((result as AuthResponseDto).accessToken).toBe('access-token');
+      expect(mockLoginRiskService.assess).toHaveBeenCalledWith(
+        expect.objectContaining({ id: 'user-1' }),
+        LoginAttemptChannel.OAUTH,
+        context,
+        { secondFactor: false },
+      );
+    });
+
+    it('should not issue tokens for a blocked login', async () => {
+      mockUsersService.findById.mockResolvedValue(activeUser());
+      mockLoginRiskService.assess.mockResolvedValueOnce({
+        decision: LoginRiskDecision.BLOCK,
+      });
+
+      await expect(
+        service.loginVerifiedUser(
+          'user-1',
+          LoginAttemptChannel.TELEGRAM,
+          context,
+        ),
+      ).rejects.toThrow(ForbiddenException);
+      expect(mockSessionsService.createRefreshToken).not.toHaveBeenCalled();
+    });
+
+    it('should require the second factor when 2FA is enabled', async () => {
+      mockUsersService.findById.mockResolvedValue(
+        activeUser({
+          twoFactorEnabled: true,
+          twoFactorMethods: [TwoFactorMethod.TOTP],
+        }),
+      );
+
+      await expect(
+        service.loginVerifiedUser(
+          'user-1',
+          LoginAttemptChannel.EMAIL_CODE,
+          context,
+        ),
+      ).resolves.toMatchObject({
+        requires2FA: true,
+        loginToken: 'login-token',
+      });
+      expect(mockLoginRiskService.assess).toHaveBeenCalledWith(
+        expect.anything(),
+        LoginAttemptChannel.EMAIL_CODE,
+        context,
+        { secondFactor: true },
+      );
+      expect(mockSessionsService.createRefreshToken).not.toHaveBeenCalled();
+    });
+
+    it('should not ask a passkey login for another factor unless the login looks unusual', async () => {
+      mockUsersService.findById.mockResolvedValue(
+        activeUser({
+          twoFactorEnabled: true,
+          twoFactorMethods: [TwoFactorMethod.TOTP],
+        }),
+      );
+
+      await expect(
+        service.loginVerifiedUser(
+          'user-1',
+          LoginAttemptChannel.PASSKEY,
+          context,
+        ),
+      ).resolves.toMatchObject({ accessToken: 'access-token' });
+
+      mockLoginRiskService.assess.mockResolvedValueOnce({
+        decision: LoginRiskDecision.CHALLENGE,
+      });
+      await expect(
+        service.loginVerifiedUser(
+          'user-1',
+          LoginAttemptChannel.PASSKEY,
+          context,
+        ),
+      ).resolves.toMatchObject({ requires2FA: true });
+    });
+  });
+
+  describe('handleTelegramLogin', () => {
+    const context = { ipAddress: '10.0.0.1', userAgent: 'jest' };
+    const widgetData = { id: 42, auth_date: 1700000000, hash: 'abc' };
+    const telegramUser = {
+      id: '42',
+      firstName: 'Telegram',
+      lastName: 'User',
+      username: 'tg_user',
+      photoUrl: null,
+      authDate: new Date(),
+    };
+
+    beforeEach(() => {
+      mockUserRoleAssignmentRepository.find.mockResolvedValue([]);
+      mockSessionsService.createRefreshToken.mockResolvedValue({
+        token: 'refresh-token',
+        familyId: 'family-1',
+      });
+      mockSigningKeysService.sign.mockReturnValue('access-token');
+    });
+
+    it('should count an invalid signature as a failed attempt', async () => {
+      mockTelegramAuthService.verify.mockImplementationOnce(() => {
+        throw new UnauthorizedException('Неверная подпись Telegram');
+      });
+
+      await expect(
+        service.handleTelegramLogin(widgetData, context),
+      ).rejects.toThrow(UnauthorizedException);
+      expect(mockLoginProtectionService.recordFailure).toHaveBeenCalledWith(
+        'telegram:42',
+        LoginAttemptChannel.TELEGRAM,
+        context,
+      );
+      expect(mockSessionsService.createRefreshToken).not.toHaveBeenCalled();
+    });
+
+    it('should not verify the widget data while the account is locked', async () => {
+      mockLoginProtectionService.assertAllowed.mockRejectedValueOnce(
+        new HttpException('locked', HttpStatus.TOO_MANY_REQUESTS),
+      );
+
+      await expect(
+        service.handleTelegramLogin(widgetData, context),
+      ).rejects.toThrow(HttpException);
+      expect(mockTelegramAuthService.verify).not.toHaveBeenCalled();
+      expect(mockLoginProtectionService.recordFailure).not.toHaveBeenCalled();
+    });
+
+    it('should register a new user with the default role', async () => {
+      mockTelegramAuthService.verify.mockReturnValue(telegramUser);
+      mockTelegramAuthService.findUser.mockResolvedValue(null);
+      mockUsersService.getUserCount.mockResolvedValue(5);
+      mockUsersService.create.mockResolvedValue({ id: 'user-1' });
+      mockSettingsService.getDefaultUserRole.mockResolvedValue('viewer');
+      mockRoleRepository.findOne.mockResolvedValue({
+        id: 'role-1',
+        name: 'viewer',
+      });
+      mockUsersService.findById.mockResolvedValue({
+        id: 'user-1',
+        isActive: true,
+        twoFactorEnabled: false,
+        userRoleAssignments: [],
+      });
+
+      const result = await service.handleTelegramLogin(widgetData, context);
+
+      expect((result as AuthResponseDto).accessToken).toBe('access-token');
+      expect(mockUsersService.create).toHaveBeenCalledWith(
+        expect.objectContaining({ telegramId: '42', email: null }),
+      );
+      expect(mockUserRoleAssignmentRepository.save).toHaveBeenCalledWith({
+        userId: 'user-1',
+        roleId: 'role-1',
+      });
+      expect(mockLoginProtectionService.recordSuccess).toHaveBeenCalledWith(
+        'telegram:42',
+        LoginAttemptChannel.TELEGRAM,
+        expect.objectContaining({ userId: 'user-1' }),
+      );
+    });
+
+    it('should require the second factor of an existing user', async () => {
+      mockTelegramAuthService.verify.mockReturnValue(telegramUser);
+      mockTelegramAuthService.findUser.mockResolvedValue({ id: 'user-1' });
+      mockUsersService.findById.mockResolvedValue({
+        id: 'user-1',
+        isActive: true,
+        twoFactorEnabled: true,
+        twoFactorMethods: [TwoFactorMethod.TOTP],
+        userRoleAssignments: [],
+      });
+
+      await expect(
+        service.handleTelegramLogin(widgetData, context),
+      ).resolves.toMatchObject({ requires2FA: true });
+      expect(mockUsersService.create).not.toHaveBeenCalled();
+      expect(mockLoginRiskService.assess).toHaveBeenCalledWith(
+        expect.anything(),
+        LoginAttemptChannel.TELEGRAM,
+        context,
+        { secondFactor: true },
       );
+      expect(mockSessionsService.createRefreshToken).not.toHaveBeenCalled();
     });
   });
 });
@@ -1,13 +1,12 @@
-import { Injectable, UnauthorizedException, ConflictException, BadRequestException } from '@nestjs/common';
+import { Injectable, Logger, UnauthorizedException, ConflictException, BadRequestException, ForbiddenException, HttpException } from '@nestjs/common';
 import { ConfigService } from '@nestjs/config';
-import { JwtService } from '@nestjs/jwt';
 import { InjectRepository } from '@nestjs/typeorm';
-import { Repository, IsNull, MoreThan } from 'typeorm';
+import { Repository, IsNull } from 'typeorm';
 import * as bcrypt from 'bcrypt';
 import * as crypto from 'crypto';
 import { User } from '../users/entities/user.entity';
 import { RefreshToken } from './entities/refresh-token.entity';
-import { TwoFactorCode, TwoFactorStatus, TwoFactorType } from './entities/two-factor-code.entity';
+import { TwoFactorType } from './entities/two-factor-code.entity';
 import { Role } from '../rbac/entities/role.entity';
 import { UserRoleAssignment } from '../users/entities/user-role-assignment.entity';
 import { UsersService } from '../users/users.service';
@@ -24,20 +23,63 @@ import { EmailService } from './email.service';
 import { JwtPayload } from './interfaces/jwt-payload.interface';
 import { ReferralsService } from './micro-modules/referrals/referrals.service';
 import { AuthMethodType } from './enums/auth-method-type.enum';
+import { SigningKeysService } from './services/signing-keys.service';
+import { AuditService } from '../audit/audit.service';
+import { AuditEvent } from '../audit/enums/audit-event.enum';
+import { SessionsService } from './services/sessions.service';
+import { SessionContext } from './interfaces/session.interface';
+import { TwoFactorSettingsService } from '../users/two-factor-settings.service';
+import { ScopedPermissionsService } from '../rbac/scoped-permissions.service';
+import type { PermissionScopeContext } from '../rbac/scoped-permissions.service';
+import { SwitchContextDto } from './dto/switch-context.dto';
+import { LoginProtectionService, INVALID_CREDENTIALS_MESSAGE } from './services/login-protection.service';
+import { LoginAttemptChannel } from './entities/login-attempt.entity';
+import { PasswordPolicyService } from './services/password-policy.service';
+import { TelegramAuthService } from './services/telegram-auth.service';
+import type {
+  TelegramUser,
+  TelegramWidgetData,
+} from './services/telegram-auth.service';
+import { ChangePasswordDto, ForcedPasswordChangeDto, PasswordChangeRequired } from './dto/change-password.dto';
+import { WebhooksService } from '../webhooks/webhooks.service';
+import { WebhookEvent } from '../webhooks/enums/webhook-event.enum';
+import { SmsService } from './sms.service';
+import { VerificationCodesService } from './services/verification-codes.service';
+import { SecretHashService } from './services/secret-hash.service';
+import { TwoFactorCodesService } from './services/two-factor-codes.service';
+import { LoginRiskService, LOGIN_BLOCKED_MESSAGE } from './services/login-risk.service';
+import { LoginRiskDecision } from './entities/login-risk-assessment.entity';
+import { PendingLoginService } from './services/pending-login.service';
+import type { TwoFactorRequired } from './dto/two-factor-login.dto';
+import { PendingLogin } from './entities/pending-login.entity';
+import { WebAuthnService } from './services/webauthn.service';
+import { WebAuthnChallengePurpose } from './entities/webauthn-challenge.entity';
+import { WebAuthnAssertionDto } from './dto/webauthn.dto';
+import { WebAuthnAuthenticationOptions } from './interfaces/webauthn.interface';
+import { TwoFactorMethod } from '../users/enums/two-factor-method.enum';
+
+const PHONE_BINDING_PURPOSE = 'phone_binding';
+
+interface ContextSwitch {
+  userId: string;
+  sessionId: string | null;
+  scope: PermissionScopeContext;
+}
 
 @Injectable()
 export class AuthService {
+  private readonly logger = new Logger(AuthService.name);
+  private dummyPasswordHash: Promise<string> | null = null;
+
   constructor(
     private usersService: UsersService,
-    private jwtService: JwtService,
+    private signingKeysService: SigningKeysService,
     private rbacService: RbacService,
     private referralsService: ReferralsService,
     private configService: ConfigService,
     private settingsService: SettingsService,
     @InjectRepository(RefreshToken)
     private refreshTokensRepo: Repository<RefreshToken>,
-    @InjectRepository(TwoFactorCode)
-    private twoFactorCodesRepo: Repository<TwoFactorCode>,
     @InjectRepository(Role)
     private rolesRepo: Repository<Role>,
     @InjectRepository(User)
@@ -47,13 +89,28 @@ export class AuthService {
     @InjectRepository(UserRoleAssignment)
     private userRoleAssignmentRepo: Repository<UserRoleAssignment>,
     private emailService: EmailService,
+    private auditService: AuditService,
+    private sessionsService: SessionsService,
+    private twoFactorSettingsService: TwoFactorSettingsService,
+    private scopedPermissionsService: ScopedPermissionsService,
+    private loginProtectionService: LoginProtectionService,
+    private passwordPolicyService: PasswordPolicyService,
+    private telegramAuthService: TelegramAuthService,
+    private webhooksService: WebhooksService,
+    private smsService: SmsService,
+    private verificationCodesService: VerificationCodesService,
+    private secretHashService: SecretHashService,
+    private twoFactorCodesService: TwoFactorCodesService,
+    private loginRiskService: LoginRiskService,
+    private pendingLoginService: PendingLoginService,
+    private webAuthnService: WebAuthnService,
   ) {}
 
   /**
    * Регистрация нового пользователя
    * Первый пользователь становится super_admin, остальные - viewer
    */
-  async register(dto: RegisterDto): Promise<AuthResponseDto> {
+  async register(dto: RegisterDto, context: SessionContext = {}): Promise<AuthResponseDto> {
     console.log('🚀 AuthService.register() вызван с данными:', { email: dto.email, firstName: dto.firstName, lastName: dto.lastName });
     
     // 1. Проверка уникальности email
@@ -61,6 +118,7 @@ export class AuthService {
     if (exists) {
       throw new ConflictException('Email уже используется');
     }
+    await this.passwordPolicyService.assertValid(dto.password, { organizationId: dto.organizationId });
 
     // 2. Проверяем, есть ли уже пользователи в системе
     const userCount = await this.usersService.getUserCount();
@@ -78,6 +136,7 @@ export class AuthService {
       firstName: dto.firstName,
       lastName: dto.lastName,
     });
+    await this.passwordPolicyService.recordPasswordChange(user.id, passwordHash);
 
     // 5. Назначаем роль в зависимости от того, первый ли это пользователь
     let roleToAssign;
@@ -107,12 +166,23 @@ export class AuthService {
       console.log('⚠️ Роль не найдена');
     }
 
+    await this.webhooksService.emitForUser(WebhookEvent.USER_REGISTERED, user.id, {
+      source: 'password',
+    });
+    await this.auditService.record(AuditEvent.USER_REGISTERED, {
+      actorId: user.id,
+      targetType: 'user',
+      targetId: user.id,
+      after: { email: user.email, role: roleToAssign?.name ?? null },
+      details: { source: 'password' },
+      context,
+    });
+
     // 6. Загружаем пользователя с ролями и правами для генерации токена
     const userWithRoles = await this.getCurrentUser(user.id);
     
     // 7. Генерируем токены с ролями и правами
-    const accessToken = await this.generateAccessToken(userWithRoles);
-    const refreshToken = await this.generateRefreshToken(userWithRoles);
+    const { accessToken, refreshToken } = await this.generateTokens(userWithRoles, context);
 
     return {
       accessToken,
@@ -124,27 +194,59 @@ export class AuthService {
   /**
    * Вход в систему
    */
-  async login(dto: LoginDto): Promise<AuthResponseDto | { requires2FA: true; message: string; userId: string }> {
-    // 1. Валидация credentials
-    const user = await this.validateUser(dto.email, dto.password);
+  async login(
+    dto: LoginDto,
+    context: SessionContext = {},
+  ): Promise<AuthResponseDto | PasswordChangeRequired | TwoFactorRequired> {
+    // 1. Валидация credentials с учётом неудачных попыток
+    const accountKey = this.loginProtectionService.emailKey(dto.email);
+
+    let user: User;
+    try {
+      await this.loginProtectionService.assertAllowed(accountKey, context.ipAddress);
+      user = await this.validateUser(dto.email, dto.password);
+    } catch (error) {
+      if (error instanceof UnauthorizedException) {
+        await this.loginProtectionService.recordFailure(accountKey, LoginAttemptChannel.PASSWORD, context);
+      }
+      await this.auditLogin(LoginAttemptChannel.PASSWORD, context, { email: dto.email }, error);
+      throw error;
+    }
+    await this.loginProtectionService.recordSuccess(accountKey, LoginAttemptChannel.PASSWORD, {
+      ...context,
+      userId: user.id,
+    });
+    await this.auditLogin(LoginAttemptChannel.PASSWORD, context, { userId: user.id });
 
-    // 2. Проверяем, включен ли 2FA
+    // 2. Оценка риска: подозрительный вход блокируется или подтверждается вторым фактором
+    const risk = await this.loginRiskService.assess(user, LoginAttemptChannel.PASSWORD, context, {
+      secondFactor: user.twoFactorEnabled,
+    });
+    if (risk.decision === LoginRiskDecision.BLOCK) {
+      throw new ForbiddenException(LOGIN_BLOCKED_MESSAGE);
+    }
+
+    // 3. Пароль, нарушающий политику или истёкший, нужно сменить до выдачи токенов
+    const passwordChange = await this.getPasswordChangeRequirement(user, dto.password);
+    if (passwordChange) {
+      return passwordChange;
+    }
+
+    // 4. Проверяем, включен ли 2FA; без него необычный вход подтверждается кодом из письма
     if (user.twoFactorEnabled) {
-      return {
-        requires2FA: true,
-        message: 'Требуется двухфакторная аутентификация',
-        userId: user.id,
-      };
+      return this.twoFactorRequired(user);
+    }
+    if (risk.decision === LoginRiskDecision.CHALLENGE) {
+      return this.stepUpRequired(user, context);
     }
 
-    // 3. Генерация токенов
-    const accessToken = await this.generateAccessToken(user);
-    const refreshToken = await this.generateRefreshToken(user);
+    // 5. Генерация токенов
+    const { accessToken, refreshToken } = await this.generateTokens(user, context);
 
-    // 4. Загружаем полную информацию о пользователе с ролями и правами
+    // 6. Загружаем полную информацию о пользователе с ролями и правами
     const fullUser = await this.getCurrentUser(user.id);
 
-    // 5. Возврат данных
+    // 7. Возврат данных
     return {
       accessToken,
       refreshToken,
@@ -153,54 +255,414 @@ export class AuthService {
   }
 
   /**
-   * Завершение входа с 2FA
+   * Завершение входа с 2FA: пользователь берётся из loginToken, выданного после пароля
+   */
+  async complete2FALogin(
+    loginToken: string,
+    code: string,
+    context: SessionContext = {},
+    method?: TwoFactorType,
+  ): Promise<AuthResponseDto> {
+    return this.completePendingLogin(loginToken, context, (userId) =>
+      this.verifySecondFactor(userId, code, method),
+    );
+  }
+
+  /**
+   * Вход по passkey без пароля; неудачи учитываются блокировкой аккаунта владельца ключа
+   */
+  async loginWithPasskey(
+    credential: WebAuthnAssertionDto,
+    context: SessionContext = {},
+  ): Promise<AuthResponseDto | TwoFactorRequired> {
+    const ownerId = await this.webAuthnService.findCredentialOwner(
+      credential.rawId,
+    );
+    const accountKey = ownerId
+      ? this.loginProtectionService.userKey(ownerId)
+      : this.loginProtectionService.passkeyKey(credential.rawId);
+    await this.loginProtectionService.assertAllowed(
+      accountKey,
+      context.ipAddress,
+    );
+
+    let userId: string;
+    try {
+      ({ userId } = await this.webAuthnService.verifyAuthentication(
+        credential,
+        WebAuthnChallengePurpose.LOGIN,
+      ));
+    } catch (error) {
+      if (
+        error instanceof BadRequestException ||
+        error instanceof UnauthorizedException
+      ) {
+        await this.loginProtectionService.recordFailure(
+          accountKey,
+          LoginAttemptChannel.PASSKEY,
+          {
+            ...context,
+            userId: ownerId,
+          },
+        );
+      }
+      await this.auditLogin(
+        LoginAttemptChannel.PASSKEY,
+        context,
+        { userId: ownerId },
+        error,
+      );
+      throw error;
+    }
+    await this.loginProtectionService.recordSuccess(
+      accountKey,
+      LoginAttemptChannel.PASSKEY,
+      {
+        ...context,
+        userId,
+      },
+    );
+
+    return this.loginVerifiedUser(userId, LoginAttemptChannel.PASSKEY, context);
+  }
+
+  /**
+   * Параметры подтверждения входа ключом WebAuthn: challenge привязан к loginToken
    */
-  async complete2FALogin(userId: string, code: string): Promise<AuthResponseDto> {
-    // Находим пользователя
+  async webAuthnSecondFactorOptions(
+    loginToken: string,
+  ): Promise<WebAuthnAuthenticationOptions> {
+    const pending = await this.pendingLoginService.resolve(loginToken);
+    await this.findWebAuthnSecondFactorUser(pending.userId);
+    return this.webAuthnService.generateAuthenticationOptions(
+      WebAuthnChallengePurpose.SECOND_FACTOR,
+      pending.userId,
+      pending.id,
+    );
+  }
+
+  /**
+   * Завершение входа с 2FA ключом WebAuthn
+   */
+  async completeWebAuthnSecondFactor(
+    loginToken: string,
+    credential: WebAuthnAssertionDto,
+    context: SessionContext = {},
+  ): Promise<AuthResponseDto> {
+    return this.completePendingLogin(
+      loginToken,
+      context,
+      async (userId, pending) => {
+        const user = await this.findWebAuthnSecondFactorUser(userId);
+        await this.webAuthnService.verifyAuthentication(
+          credential,
+          WebAuthnChallengePurpose.SECOND_FACTOR,
+          userId,
+          pending.id,
+        );
+        return user;
+      },
+    );
+  }
+
+  /**
+   * Второй фактор для незавершённого входа: блокировка по аккаунту, погашение loginToken, выдача токенов
+   */
+  private async completePendingLogin(
+    loginToken: string,
+    context: SessionContext,
+    verify: (userId: string, pending: PendingLogin) => Promise<User>,
+  ): Promise<AuthResponseDto> {
+    const pending = await this.pendingLoginService.resolve(loginToken);
+    const userId = pending.userId;
+    const accountKey = this.loginProtectionService.userKey(userId);
+
+    try {
+      await this.loginProtectionService.assertAllowed(accountKey, context.ipAddress);
+      const user = await verify(userId, pending);
+      await this.pendingLoginService.consume(pending);
+      await this.loginProtectionService.recordSuccess(accountKey, LoginAttemptChannel.TWO_FACTOR, {
+        ...context,
+        userId,
+      });
+      await this.loginRiskService.confirmPending(userId);
+      await this.auditLogin(LoginAttemptChannel.TWO_FACTOR, context, { userId });
+
+      const { accessToken, refreshToken } = await this.generateTokens(
+        user,
+        context,
+      );
+      return {
+        accessToken,
+        refreshToken,
+        user: this.sanitizeUser(user),
+      };
+    } catch (error) {
+      if (error instanceof BadRequestException || error instanceof UnauthorizedException) {
+        await this.loginProtectionService.recordFailure(accountKey, LoginAttemptChannel.TWO_FACTOR, {
+          ...context,
+          userId,
+        });
+        await this.loginRiskService.recordSecondFactorFailure(userId);
+      }
+      await this.auditLogin(LoginAttemptChannel.TWO_FACTOR, context, { userId }, error);
+      throw error;
+    }
+  }
+
+  private async findWebAuthnSecondFactorUser(userId: string): Promise<User> {
     const user = await this.usersService.findById(userId);
+    if (
+      !user?.isActive ||
+      !user.twoFactorEnabled ||
+      !user.twoFactorMethods?.includes(TwoFactorMethod.WEBAUTHN)
+    ) {
+      throw new UnauthorizedException('2FA ключом WebAuthn не включен');
+    }
+    return user;
+  }
 
-    if (!user) {
-      throw new UnauthorizedException('Пользователь не найден');
+  /**
+   * Проверка второго фактора; возвращает пользователя с ролями и правами
+   */
+  private async verifySecondFactor(
+    userId: string,
+    code: string,
+    method?: TwoFactorType,
+  ): Promise<User> {
+    const user = await this.usersService.findById(userId);
+
+    if (!user || !user.isActive) {
+      throw new UnauthorizedException(
+        'Пользователь не найден или заблокирован',
+      );
     }
 
-    if (!user.twoFactorEnabled) {
+    if (!user.twoFactorEnabled && !(await this.loginRiskService.hasPendingChallenge(userId))) {
       throw new UnauthorizedException('2FA не включен для этого пользователя');
     }
 
-    // Загружаем роли и права пользователя
-    const userWithRoles = await this.usersService.findById(userId);
-    if (!userWithRoles) {
-      throw new UnauthorizedException('Пользователь не найден');
+    // Код из приложения-аутентификатора (если метод не указан явно - пробуем первым)
+    const totpAllowed = method === undefined || method === TwoFactorType.TOTP;
+    const totpVerified =
+      totpAllowed && !!user.totpConfirmedAt && (await this.twoFactorSettingsService.verifyTotp(userId, code));
+
+    if (!totpVerified) {
+      if (method === TwoFactorType.TOTP) {
+        throw new BadRequestException('Неверный код из приложения-аутентификатора');
+      }
+
+      // Код из письма или SMS: проверка расходует попытку, верный код гасится
+      const check = await this.twoFactorCodesService.verify({ userId }, code);
+      if (!check.valid) {
+        throw new BadRequestException('Неверный или истёкший 2FA код');
+      }
     }
 
-    // Проверяем 2FA код через простую проверку
-    const twoFactorCode = await this.twoFactorCodesRepo.findOne({
-      where: {
-        contact: user.email || '',
-        code: code,
-        expiresAt: MoreThan(new Date()),
-        status: TwoFactorStatus.PENDING,
-      },
+    return user;
+  }
+
+  /**
+   * Смена пароля по токену из ответа на вход; дальше вход продолжается как обычно
+   */
+  async completePasswordChange(
+    dto: ForcedPasswordChangeDto,
+    context: SessionContext = {},
+  ): Promise<AuthResponseDto | TwoFactorRequired> {
+    const userId = await this.passwordPolicyService.verifyChangeToken(dto.passwordChangeToken);
+    const user = await this.usersService.findById(userId);
+    if (!user || !user.isActive) {
+      throw new UnauthorizedException('Пользователь не найден или заблокирован');
+    }
+
+    await this.passwordPolicyService.changePassword(userId, dto.newPassword);
+    console.log(`🔑 Пользователь ${user.email} сменил пароль по требованию политики`);
+    await this.auditService.record(AuditEvent.AUTH_PASSWORD_CHANGED, {
+      actorId: userId,
+      targetType: 'user',
+      targetId: userId,
+      details: { reason: 'policy' },
+      context,
+    });
+
+    if (user.twoFactorEnabled) {
+      return this.twoFactorRequired(user);
+    }
+    if (await this.loginRiskService.hasPendingChallenge(userId)) {
+      return this.stepUpRequired(user, context);
+    }
+    return this.issueLogin(user, LoginAttemptChannel.PASSWORD, context);
+  }
+
+  /**
+   * Смена пароля авторизованным пользователем
+   */
+  async changePassword(
+    userId: string,
+    dto: ChangePasswordDto,
+    context: SessionContext = {},
+  ): Promise<{ message: string }> {
+    const user = await this.usersRepo.findOne({
+      where: { id: userId },
+      select: ['id', 'passwordHash'],
+    });
+    const isPasswordValid =
+      !!user?.passwordHash && (await bcrypt.compare(dto.currentPassword, user.passwordHash));
+    if (!isPasswordValid) {
+      await this.auditService.record(AuditEvent.AUTH_PASSWORD_CHANGED, {
+        actorId: userId,
+        targetType: 'user',
+        targetId: userId,
+        outcome: 'failure',
+        reason: 'Неверный текущий пароль',
+        context,
+      });
+      throw new BadRequestException('Неверный текущий пароль');
+    }
+
+    await this.passwordPolicyService.changePassword(userId, dto.newPassword);
+    await this.auditService.record(AuditEvent.AUTH_PASSWORD_CHANGED, {
+      actorId: userId,
+      targetType: 'user',
+      targetId: userId,
+      context,
     });
+    return { message: 'Пароль успешно изменен' };
+  }
+
+  /**
+   * Вход после первого фактора без пароля (passkey, код, OAuth/OIDC, Telegram): оценка риска,
+   * второй фактор при включённой 2FA, затем выдача токенов. Passkey сам по себе двухфакторный
+   */
+  async loginVerifiedUser(
+    userId: string,
+    channel: LoginAttemptChannel,
+    context: SessionContext = {},
+  ): Promise<AuthResponseDto | TwoFactorRequired> {
+    const user = await this.usersService.findById(userId);
 
-    if (!twoFactorCode) {
-      throw new BadRequestException('Неверный или истёкший 2FA код');
+    if (!user || !user.isActive) {
+      throw new UnauthorizedException('Пользователь не найден или заблокирован');
     }
 
-    // Помечаем код как использованный
-    await this.twoFactorCodesRepo.update(twoFactorCode.id, { 
-      status: TwoFactorStatus.USED,
-      verifiedAt: new Date()
+    const secondFactor =
+      user.twoFactorEnabled && channel !== LoginAttemptChannel.PASSKEY;
+    const risk = await this.loginRiskService.assess(user, channel, context, {
+      secondFactor,
     });
+    if (risk.decision === LoginRiskDecision.BLOCK) {
+      const error = new ForbiddenException(LOGIN_BLOCKED_MESSAGE);
+      await this.auditLogin(channel, context, { userId }, error);
+      throw error;
+    }
+    if (
+      secondFactor ||
+      (risk.decision === LoginRiskDecision.CHALLENGE && user.twoFactorEnabled)
+    ) {
+      return this.twoFactorRequired(user);
+    }
+    if (risk.decision === LoginRiskDecision.CHALLENGE) {
+      return this.stepUpRequired(user, context);
+    }
+
+    return this.issueLogin(user, channel, context);
+  }
 
-    // Генерируем токены
-    const accessToken = await this.generateAccessToken(userWithRoles);
-    const refreshToken = await this.generateRefreshToken(userWithRoles);
+  private async issueLogin(
+    user: User,
+    channel: LoginAttemptChannel,
+    context: SessionContext,
+  ): Promise<AuthResponseDto> {
+    const { accessToken, refreshToken } = await this.generateTokens(user, context);
+    await this.auditLogin(channel, context, { userId: user.id });
 
     return {
       accessToken,
       refreshToken,
-      user: this.sanitizeUser(userWithRoles),
+      user: await this.getCurrentUser(user.id),
+    };
+  }
+
+  /**
+   * Попытка входа в журнал аудита. Неудачная пишется анонимно, целью указывается аккаунт, если он существует
+   */
+  private async auditLogin(
+    method: string,
+    context: SessionContext,
+    account: { userId?: string | null; email?: string },
+    error?: unknown,
+  ): Promise<void> {
+    let userId = account.userId ?? null;
+    if (!userId && account.email) {
+      userId = (await this.usersService.findByEmail(account.email))?.id ?? null;
+    }
+    await this.auditService.record(AuditEvent.AUTH_LOGIN, {
+      actorId: error ? null : userId,
+      targetType: 'user',
+      targetId: userId,
+      outcome: error ? 'failure' : 'success',
+      reason: error instanceof Error ? error.message : undefined,
+      statusCode:
+        error instanceof HttpException ? error.getStatus() : error ? 401 : 200,
+      details: { method },
+      context,
+    });
+  }
+
+  private async twoFactorRequired(user: User): Promise<TwoFactorRequired> {
+    return {
+      requires2FA: true,
+      message: 'Требуется двухфакторная аутентификация',
+      loginToken: await this.pendingLoginService.issue(user.id),
+      methods: user.twoFactorMethods || [],
+    };
+  }
+
+  /**
+   * Необычный вход без настроенной 2FA: код на email (или SMS), проверяется через POST /auth/2fa/complete.
+   * Если отправить код некуда, вход блокируется
+   */
+  private async stepUpRequired(
+    user: User,
+    context: SessionContext,
+  ): Promise<TwoFactorRequired> {
+    const type = user.email ? TwoFactorType.EMAIL : user.phone ? TwoFactorType.SMS : null;
+    const contact = user.email ?? user.phone;
+    if (!type || !contact) {
+      throw new ForbiddenException(LOGIN_BLOCKED_MESSAGE);
+    }
+
+    const { code } = await this.twoFactorCodesService.issue({
+      userId: user.id,
+      type,
+      contact,
+      ipAddress: context.ipAddress,
+      userAgent: context.userAgent,
+    });
+    if (type === TwoFactorType.EMAIL) {
+      await this.emailService.sendVerificationCode(contact, code);
+    } else {
+      await this.smsService.sendVerificationCode(contact, code);
+    }
+
+    return {
+      requires2FA: true,
+      message: 'Вход выглядит необычно: подтвердите его одноразовым кодом',
+      loginToken: await this.pendingLoginService.issue(user.id),
+      methods: [type],
+    };
+  }
+
+  private async getPasswordChangeRequirement(user: User, password: string): Promise<PasswordChangeRequired | null> {
+    const reasons = await this.passwordPolicyService.getChangeReasons(user, password);
+    if (reasons.length === 0) {
+      return null;
+    }
+    return {
+      requiresPasswordChange: true,
+      message: 'Необходимо сменить пароль',
+      reasons,
+      passwordChangeToken: this.passwordPolicyService.issueChangeToken(user.id),
     };
   }
 
@@ -209,47 +671,79 @@ export class AuthService {
    */
   async validateUser(email: string, password: string): Promise<User> {
     const user = await this.usersService.findByEmail(email, {
-      select: ['id', 'email', 'passwordHash', 'isActive', 'emailVerified', 'twoFactorEnabled'],
+      select: ['id', 'email', 'passwordHash', 'isActive', 'emailVerified', 'twoFactorEnabled', 'twoFactorMethods'],
       relations: ['organizations', 'teams'],
     });
 
-    if (!user) {
-      throw new UnauthorizedException('Пользователь не найден');
-    }
+    // Для несуществующего аккаунта сравниваем с фиктивным хешем: время ответа и текст ошибки одинаковые
+    const passwordHash = user?.passwordHash || (await this.getDummyPasswordHash());
+    const isPasswordValid = await bcrypt.compare(password, passwordHash);
 
-    console.log('🔍 User organizations:', user.organizations?.length || 0);
-    console.log('🔍 User teams:', user.teams?.length || 0);
+    if (!user || !user.passwordHash || !isPasswordValid) {
+      throw new UnauthorizedException(INVALID_CREDENTIALS_MESSAGE);
+    }
 
     if (!user.isActive) {
       throw new UnauthorizedException('Аккаунт деактивирован');
     }
 
-    // Сравнение паролей
-    if (!user.passwordHash) {
-      throw new UnauthorizedException('Пользователь не имеет пароля');
-    }
-    
-    console.log('🔐 Password comparison:');
-    console.log('  Input password:', password);
-    console.log('  Stored hash:', user.passwordHash);
-    
-    const isPasswordValid = await bcrypt.compare(password, user.passwordHash);
-    console.log('  Is valid:', isPasswordValid);
-    
-    if (!isPasswordValid) {
-      throw new UnauthorizedException('Неверный пароль');
-    }
-
     return user;
   }
 
+  private getDummyPasswordHash(): Promise<string> {
+    this.dummyPasswordHash ??= bcrypt.hash(crypto.randomUUID(), 12);
+    return this.dummyPasswordHash;
+  }
+
+  /**
+   * Генерация пары токенов для новой сессии
+   */
+  async generateTokens(user: User, context: SessionContext = {}): Promise<{ accessToken: string; refreshToken: string }> {
+    const refreshToken = await this.sessionsService.createRefreshToken(user.id, { context });
+    return {
+      accessToken: await this.generateAccessToken(user, refreshToken.familyId),
+      refreshToken: refreshToken.token,
+    };
+  }
+
   /**
    * Генерация Access Token (JWT)
    */
-  async generateAccessToken(user: User): Promise<string> {
+  async generateAccessToken(
+    user: User,
+    sessionId?: string,
+    scope: PermissionScopeContext = {},
+  ): Promise<string> {
+    const hasScope = Boolean(scope.organizationId || scope.teamId);
+    // В выбранном контексте роли и права только глобальные и этой организации/команды
+    const { roles, permissions } = hasScope
+      ? await this.scopedPermissionsService.getEffectiveAccess(user.id, scope)
+      : await this.getUserRolesAndPermissions(user.id);
+
+    const payload: JwtPayload = {
+      sub: user.id,
+      email: user.email,
+      organizationId: hasScope
+        ? scope.organizationId ?? null
+        : user.organizations?.[0]?.id || null, // Первая организация
+      teamId: hasScope ? scope.teamId ?? null : user.teams?.[0]?.id || null, // Первая команда
+      roles,
+      permissions,
+      ...(sessionId ? { sid: sessionId } : {}),
+    };
+
+    return this.signingKeysService.sign(payload, {
+      expiresIn: '15m',
+    });
+  }
+
+  /**
+   * Уникальные роли и права пользователя из всех назначений (глобальных, организаций, команд)
+   */
+  async getUserRolesAndPermissions(userId: string): Promise<{ roles: string[]; permissions: string[] }> {
     // Загружаем роли и права через UserRoleAssignment
     const roleAssignments = await this.userRoleAssignmentRepo.find({
-      where: { userId: user.id },
+      where: { userId },
       relations: ['role', 'role.permissions', 'organizationRole', 'teamRole'],
     });
 
@@ -271,51 +765,47 @@ export class AuthService {
       ),
     ];
 
-    const payload: JwtPayload = {
-      sub: user.id,
-      email: user.email,
-      organizationId: user.organizations?.[0]?.id || null, // Первая организация
-      teamId: user.teams?.[0]?.id || null, // Первая команда
-      roles,
-      permissions,
-    };
-
-    return this.jwtService.sign(payload, {
-      expiresIn: '15m',
-    });
+    return { roles, permissions };
   }
 
   /**
    * Генерация Refresh Token (UUID + сохранение в БД)
    */
-  async generateRefreshToken(user: User): Promise<string> {
-    const token = crypto.randomUUID();
-    const expiresAt = new Date();
-    expiresAt.setDate(expiresAt.getDate() + 7); // +7 дней
-
-    await this.refreshTokensRepo.save({
-      token,
-      userId: user.id,
-      expiresAt,
-      isRevoked: false,
-    });
-
-    return token;
+  async generateRefreshToken(user: User, context: SessionContext = {}): Promise<string> {
+    const record = await this.sessionsService.createRefreshToken(user.id, { context });
+    return record.token;
   }
 
   /**
-   * Обновление Access Token через Refresh Token
+   * Обновление Access Token через Refresh Token с ротацией.
+   * Предъявленный токен помечается использованным и заменяется новым из того же семейства;
+   * повторное предъявление использованного токена отзывает всё семейство
    */
-  async refreshAccessToken(refreshToken: string): Promise<string> {
+  async refreshAccessToken(
+    refreshToken: string,
+    context: SessionContext = {},
+    contextSwitch?: ContextSwitch,
+  ): Promise<{ accessToken: string; refreshToken: string }> {
     const tokenRecord = await this.refreshTokensRepo.findOne({
-      where: { token: refreshToken },
+      where: { tokenHash: this.secretHashService.hash(refreshToken) },
       relations: ['user'],
     });
 
-    if (!tokenRecord) {
+    // При смене контекста refresh token должен принадлежать текущей сессии пользователя
+    if (
+      !tokenRecord ||
+      (contextSwitch &&
+        (tokenRecord.userId !== contextSwitch.userId ||
+          (contextSwitch.sessionId && tokenRecord.familyId !== contextSwitch.sessionId)))
+    ) {
       throw new UnauthorizedException('Невалидный refresh token');
     }
 
+    if (tokenRecord.usedAt) {
+      await this.revokeRefreshTokenFamily(tokenRecord, context);
+      throw new UnauthorizedException('Refresh token уже использован, все сессии этого входа завершены');
+    }
+
     if (tokenRecord.isRevoked) {
       throw new UnauthorizedException('Refresh token отозван');
     }
@@ -325,22 +815,131 @@ export class AuthService {
     }
 
     // Если у пользователя включен 2FA, требуем повторную аутентификацию
-    if (tokenRecord.user.twoFactorEnabled) {
+    // (смена контекста выполняется с действующим access token и 2FA не требует)
+    if (tokenRecord.user.twoFactorEnabled && !contextSwitch) {
       throw new UnauthorizedException('Требуется повторная аутентификация с 2FA');
     }
 
-    // Генерация нового Access Token
-    return this.generateAccessToken(tokenRecord.user);
+    // Помечаем токен использованным атомарно: из двух параллельных запросов пройдёт только один
+    const result = await this.refreshTokensRepo.update(
+      { id: tokenRecord.id, usedAt: IsNull(), isRevoked: false },
+      { usedAt: new Date() },
+    );
+    if (!result.affected) {
+      await this.revokeRefreshTokenFamily(tokenRecord, context);
+      throw new UnauthorizedException('Refresh token уже использован, все сессии этого входа завершены');
+    }
+
+    // Выбранный контекст сохраняется в семействе токенов; при потере членства - контекст по умолчанию
+    let scope: PermissionScopeContext = contextSwitch?.scope ?? {};
+    if (!contextSwitch && (tokenRecord.organizationId || tokenRecord.teamId)) {
+      scope =
+        (await this.scopedPermissionsService.resolveMemberScope(tokenRecord.userId, {
+          organizationId: tokenRecord.organizationId,
+          teamId: tokenRecord.teamId,
+        })) ?? {};
+    }
+    const nextToken = await this.sessionsService.createRefreshToken(tokenRecord.userId, {
+      familyId: tokenRecord.familyId,
+      deviceName: tokenRecord.deviceName,
+      context: {
+        ipAddress: context.ipAddress ?? tokenRecord.ipAddress ?? undefined,
+        userAgent: context.userAgent ?? tokenRecord.userAgent ?? undefined,
+      },
+      scope,
+    });
+    await this.refreshTokensRepo.update(tokenRecord.id, { replacedById: nextToken.id });
+
+    return {
+      accessToken: await this.generateAccessToken(tokenRecord.user, tokenRecord.familyId, scope),
+      refreshToken: nextToken.token,
+    };
+  }
+
+  /**
+   * Смена активной организации/команды: токены сессии перевыпускаются с правами выбранного контекста.
+   * Без organizationId и teamId возвращается контекст по умолчанию
+   */
+  async switchContext(
+    userId: string,
+    sessionId: string | null,
+    dto: SwitchContextDto,
+    context: SessionContext = {},
+  ): Promise<{ accessToken: string; refreshToken: string; organizationId: string | null; teamId: string | null }> {
+    const scope = await this.scopedPermissionsService.resolveMemberScope(userId, {
+      organizationId: dto.organizationId,
+      teamId: dto.teamId,
+    });
+    if (!scope) {
+      throw new ForbiddenException('Нет доступа к выбранной организации или команде');
+    }
+
+    const tokens = await this.refreshAccessToken(dto.refreshToken, context, {
+      userId,
+      sessionId,
+      scope,
+    });
+
+    return {
+      ...tokens,
+      organizationId: scope.organizationId ?? null,
+      teamId: scope.teamId ?? null,
+    };
   }
 
   /**
    * Выход из системы (отзыв Refresh Token)
    */
-  async logout(refreshToken: string): Promise<void> {
+  async logout(refreshToken: string, context: SessionContext = {}): Promise<void> {
+    const tokenRecord = await this.refreshTokensRepo.findOne({
+      where: { tokenHash: this.secretHashService.hash(refreshToken) },
+    });
+    if (!tokenRecord) {
+      return;
+    }
+
+    // Отзываем всё семейство, чтобы ранее выданные токены этого входа тоже перестали работать
     await this.refreshTokensRepo.update(
-      { token: refreshToken },
-      { isRevoked: true }
+      { familyId: tokenRecord.familyId, isRevoked: false },
+      { isRevoked: true, revokedReason: 'logout' }
+    );
+    await this.auditService.record(AuditEvent.AUTH_LOGOUT, {
+      actorId: tokenRecord.userId,
+      targetType: 'session',
+      targetId: tokenRecord.familyId,
+      organizationId: tokenRecord.organizationId,
+      context,
+    });
+  }
+
+  /**
+   * Отзыв семейства токенов при повторном использовании refresh token
+   */
+  private async revokeRefreshTokenFamily(
+    tokenRecord: RefreshToken,
+    context: SessionContext,
+  ): Promise<void> {
+    const result = await this.refreshTokensRepo.update(
+      { familyId: tokenRecord.familyId, isRevoked: false },
+      { isRevoked: true, revokedReason: 'reuse_detected' },
     );
+
+    this.logger.warn(`🚨 Повторное использование refresh token пользователя ${tokenRecord.userId}, отозвано токенов: ${result.affected}`);
+
+    // Предъявитель неизвестен: токен мог быть украден, поэтому событие анонимное, а аккаунт - цель
+    await this.auditService.record(AuditEvent.AUTH_REFRESH_TOKEN_REUSE, {
+      targetType: 'user',
+      targetId: tokenRecord.userId,
+      outcome: 'failure',
+      reason: 'Повторное использование refresh token',
+      details: {
+        sessionId: tokenRecord.familyId,
+        tokenId: tokenRecord.id,
+        revokedTokens: result.affected,
+      },
+      statusCode: 401,
+      context,
+    });
   }
 
   /**
@@ -451,36 +1050,99 @@ export class AuthService {
   /**
    * Умная авторизация - автоматически определяет, нужно ли регистрировать или авторизовать пользователя
    */
-  async smartAuth(dto: SmartAuthDto): Promise<SmartAuthResponseDto> {
+  async smartAuth(dto: SmartAuthDto, context: SessionContext = {}): Promise<SmartAuthResponseDto> {
+    const accountKey = this.loginProtectionService.emailKey(dto.email);
+    await this.loginProtectionService.assertAllowed(accountKey, context.ipAddress);
+
     try {
       // 1. Пытаемся найти пользователя по email
       const existingUser = await this.usersService.findByEmail(dto.email, {
-        select: ['id', 'email', 'passwordHash', 'isActive', 'emailVerified', 'firstName', 'lastName'],
+        select: [
+          'id',
+          'email',
+          'passwordHash',
+          'isActive',
+          'emailVerified',
+          'firstName',
+          'lastName',
+          'twoFactorEnabled',
+          'twoFactorMethods',
+        ],
         relations: ['organizations', 'teams'],
       });
 
       if (existingUser) {
         // Пользователь существует - пытаемся авторизовать
-        if (!existingUser.passwordHash) {
+        const isPasswordValid =
+          !!existingUser.passwordHash && (await bcrypt.compare(dto.password, existingUser.passwordHash));
+
+        if (!isPasswordValid) {
+          await this.loginProtectionService.recordFailure(accountKey, LoginAttemptChannel.SMART_AUTH, {
+            ...context,
+            userId: existingUser.id,
+          });
+          await this.auditLogin(
+            LoginAttemptChannel.SMART_AUTH,
+            context,
+            { userId: existingUser.id },
+            new UnauthorizedException(INVALID_CREDENTIALS_MESSAGE),
+          );
           return {
             success: false,
-            message: 'Пользователь не имеет пароля. Используйте восстановление пароля.',
+            message: INVALID_CREDENTIALS_MESSAGE,
           };
         }
-        
-        const isPasswordValid = await bcrypt.compare(dto.password, existingUser.passwordHash);
-        
-        if (!isPasswordValid) {
+        await this.loginProtectionService.recordSuccess(accountKey, LoginAttemptChannel.SMART_AUTH, {
+          ...context,
+          userId: existingUser.id,
+        });
+
+        if (!existingUser.isActive) {
+          await this.auditLogin(
+            LoginAttemptChannel.SMART_AUTH,
+            context,
+            { userId: existingUser.id },
+            new UnauthorizedException('Аккаунт деактивирован'),
+          );
           return {
             success: false,
-            message: 'Неверный пароль',
+            message: 'Аккаунт деактивирован',
           };
         }
 
-        if (!existingUser.isActive) {
+        const risk = await this.loginRiskService.assess(
+          existingUser,
+          LoginAttemptChannel.SMART_AUTH,
+          context,
+          { secondFactor: existingUser.twoFactorEnabled },
+        );
+        if (risk.decision === LoginRiskDecision.BLOCK) {
           return {
             success: false,
-            message: 'Аккаунт деактивирован',
+            message: LOGIN_BLOCKED_MESSAGE,
+          };
+        }
+        if (existingUser.twoFactorEnabled) {
+          return {
+            success: false,
+            ...(await this.twoFactorRequired(existingUser)),
+          };
+        }
+        if (risk.decision === LoginRiskDecision.CHALLENGE) {
+          return {
+            success: false,
+            ...(await this.stepUpRequired(existingUser, context)),
+          };
+        }
+
+        const passwordChange = await this.getPasswordChangeRequirement(existingUser, dto.password);
+        if (passwordChange) {
+          return {
+            success: false,
+            message: passwordChange.message,
+            requiresPasswordChange: true,
+            passwordChangeReasons: passwordChange.reasons,
+            passwordChangeToken: passwordChange.passwordChangeToken,
           };
         }
 
@@ -499,9 +1161,10 @@ export class AuthService {
           };
         }
 
+        await this.auditLogin(LoginAttemptChannel.SMART_AUTH, context, { userId: existingUser.id });
+
         // Полная авторизация
-        const accessToken = await this.generateAccessToken(existingUser);
-        const refreshToken = await this.generateRefreshToken(existingUser);
+        const { accessToken, refreshToken } = await this.generateTokens(existingUser, context);
 
         return {
           success: true,
@@ -512,6 +1175,15 @@ export class AuthService {
         };
       } else {
         // Пользователь не существует - создаем временного пользователя
+        const passwordViolations = await this.passwordPolicyService.getViolations(dto.password);
+        if (passwordViolations.length > 0) {
+          return {
+            success: false,
+            message: 'Пароль не соответствует политике паролей',
+            passwordViolations,
+          };
+        }
+
         const salt = await bcrypt.genSalt(12);
         const passwordHash = await bcrypt.hash(dto.password, salt);
 
@@ -526,6 +1198,7 @@ export class AuthService {
         };
 
         const savedUser: User = await this.usersRepo.save(userData);
+        await this.passwordPolicyService.recordPasswordChange(savedUser.id, passwordHash);
 
         // Обрабатываем реферальный код, если он предоставлен
         if (dto.referralCode) {
@@ -577,6 +1250,18 @@ export class AuthService {
           console.log('⚠️ Роль не найдена');
         }
 
+        await this.webhooksService.emitForUser(WebhookEvent.USER_REGISTERED, savedUser.id, {
+          source: 'smart_auth',
+        });
+        await this.auditService.record(AuditEvent.USER_REGISTERED, {
+          actorId: savedUser.id,
+          targetType: 'user',
+          targetId: savedUser.id,
+          after: { email: savedUser.email, role: roleToAssign?.name ?? null },
+          details: { source: 'smart_auth' },
+          context,
+        });
+
         // Перезагружаем пользователя с ролями
         const userWithRoles = await this.getCurrentUser(savedUser.id);
 
@@ -600,8 +1285,7 @@ export class AuthService {
         }
 
         // Полная регистрация
-        const accessToken = await this.generateAccessToken(userWithRoles);
-        const refreshToken = await this.generateRefreshToken(userWithRoles);
+        const { accessToken, refreshToken } = await this.generateTokens(userWithRoles);
 
         return {
           success: true,
@@ -655,8 +1339,7 @@ export class AuthService {
         };
       }
 
-      const accessToken = await this.generateAccessToken(updatedUser);
-      const refreshToken = await this.generateRefreshToken(updatedUser);
+      const { accessToken, refreshToken } = await this.generateTokens(updatedUser);
 
       return {
         success: true,
@@ -688,30 +1371,23 @@ export class AuthService {
         };
       }
 
-      // Генерируем код подтверждения
-      const verificationCode = Math.floor(100000 + Math.random() * 900000).toString();
-      
-      // Сохраняем код в базе данных
-      const twoFactorCode = this.twoFactorCodesRepo.create({
+      // Код хранится хешем в verification_codes и действует только для этого пользователя
+      const issued = await this.verificationCodesService.issue({
+        identifier: dto.phone,
+        purpose: PHONE_BINDING_PURPOSE,
+        channel: 'sms',
         userId,
-        code: verificationCode,
-        type: TwoFactorType.SMS,
-        expiresAt: new Date(Date.now() + 5 * 60 * 1000), // 5 минут
-        status: TwoFactorStatus.PENDING,
       });
-      
-      await this.twoFactorCodesRepo.save(twoFactorCode);
+      await this.smsService.sendVerificationCode(dto.phone, issued.code);
 
-      // Отправляем SMS (в реальном проекте здесь будет вызов SMS сервиса)
-      console.log(`📱 SMS код для ${dto.phone}: ${verificationCode}`);
-      
-      // В тестовом режиме возвращаем код
       return {
         success: true,
         message: 'SMS с кодом подтверждения отправлено',
-        verificationCode: verificationCode, // Только для тестирования
       };
     } catch (error) {
+      if (error instanceof HttpException) {
+        throw error;
+      }
       console.error('Ошибка отправки SMS кода:', error);
       return {
         success: false,
@@ -725,28 +1401,22 @@ export class AuthService {
    */
   async verifyPhoneCode(dto: VerifyPhoneDto, userId: string): Promise<BindPhoneResponseDto> {
     try {
-      // Находим код подтверждения
-      const verificationCode = await this.twoFactorCodesRepo.findOne({
-        where: {
-          userId,
-          code: dto.code,
-          type: TwoFactorType.SMS,
-          status: TwoFactorStatus.PENDING,
-        },
-      });
-
-      if (!verificationCode) {
+      const verified = await this.verificationCodesService.verify(
+        { identifier: dto.phone, purpose: PHONE_BINDING_PURPOSE, userId },
+        dto.code,
+      );
+      if (!verified) {
         return {
           success: false,
-          message: 'Неверный код подтверждения',
+          message: 'Неверный или истекший код подтверждения',
         };
       }
 
-      // Проверяем, не истек ли код
-      if (verificationCode.expiresAt < new Date()) {
+      const existingUser = await this.usersService.findByPhone(dto.phone);
+      if (existingUser && existingUser.id !== userId) {
         return {
           success: false,
-          message: 'Код подтверждения истек',
+          message: 'Этот номер телефона уже привязан к другому аккаунту',
         };
       }
 
@@ -756,11 +1426,6 @@ export class AuthService {
         phoneVerified: true,
       });
 
-      // Помечаем код как использованный
-      await this.twoFactorCodesRepo.update(verificationCode.id, {
-        status: TwoFactorStatus.USED,
-      });
-
       return {
         success: true,
         message: 'Номер телефона успешно привязан к аккаунту',
@@ -825,6 +1490,7 @@ export class AuthService {
 
       // Сохраняем токен в БД
       const verificationToken = this.emailVerificationTokensRepo.create({
+        tokenHash: this.secretHashService.hash(token),
         userId: user.id,
         email: user.email || '',
         expiresAt,
@@ -868,7 +1534,6 @@ export class AuthService {
   async verifyEmail2FACode(email: string, code: string): Promise<any> {
     try {
       console.log('🔍 Проверяем 2FA код для email:', email);
-      console.log('🔢 Код:', code);
 
       // Находим пользователя
       const user = await this.usersService.findByEmail(email);
@@ -877,41 +1542,22 @@ export class AuthService {
         throw new UnauthorizedException('Пользователь не найден');
       }
 
-      // Находим код в БД
-      const twoFactorCode = await this.twoFactorCodesRepo.findOne({
-        where: {
-          contact: email,
-          code: code,
-          type: 'email' as any,
-          status: 'pending' as any
-        }
-      });
-
-      if (!twoFactorCode) {
-        console.log('❌ Код не найден или неверный');
-        throw new UnauthorizedException('Неверный код');
-      }
-
-      // Проверяем, не истёк ли код (5 минут)
-      const now = new Date();
-      const codeAge = now.getTime() - twoFactorCode.createdAt.getTime();
-      const fiveMinutes = 5 * 60 * 1000;
-
-      if (codeAge > fiveMinutes) {
-        console.log('❌ Код истёк');
-        throw new UnauthorizedException('Код истёк. Запросите новый код');
+      // Проверяем код: неверный ввод расходует попытку, верный код гасится
+      const check = await this.twoFactorCodesService.verify(
+        { userId: user.id, contact: email, type: TwoFactorType.EMAIL },
+        code,
+      );
+      if (!check.valid) {
+        console.log(`❌ Код не подтверждён: ${check.reason}`);
+        throw new UnauthorizedException(
+          check.reason === 'expired' ? 'Код истёк. Запросите новый код' : 'Неверный код',
+        );
       }
 
-      // Помечаем код как использованный
-      await this.twoFactorCodesRepo.update(twoFactorCode.id, {
-        status: 'used' as any
-      });
-
       console.log('✅ Код подтверждён, генерируем токены');
 
       // Генерируем токены
-      const accessToken = await this.generateAccessToken(user);
-      const refreshToken = await this.generateRefreshToken(user);
+      const { accessToken, refreshToken } = await this.generateTokens(user);
 
       return {
         accessToken,
@@ -930,11 +1576,9 @@ export class AuthService {
    */
   async verifyEmailToken(token: string): Promise<EmailVerificationResponseDto> {
     try {
-      console.log('🔍 Ищем токен подтверждения:', token);
-      
-      // Находим токен в БД
+      // Находим токен в БД по хешу
       const verificationToken = await this.emailVerificationTokensRepo.findOne({
-        where: { token, isUsed: false },
+        where: { tokenHash: this.secretHashService.hash(token), isUsed: false },
         relations: ['user'],
       });
 
@@ -966,6 +1610,10 @@ export class AuthService {
       await this.emailVerificationTokensRepo.save(verificationToken);
 
       console.log('✅ Email успешно подтвержден для пользователя:', verificationToken.user.email);
+      await this.webhooksService.emitForUser(
+        WebhookEvent.USER_EMAIL_VERIFIED,
+        verificationToken.user.id,
+      );
 
       return {
         success: true,
@@ -986,7 +1634,7 @@ export class AuthService {
   async verifyEmail(dto: VerifyEmailDto): Promise<EmailVerificationResponseDto> {
     try {
       const verificationToken = await this.emailVerificationTokensRepo.findOne({
-        where: { token: dto.token },
+        where: { tokenHash: this.secretHashService.hash(dto.token) },
         relations: ['user'],
       });
 
@@ -1021,6 +1669,10 @@ export class AuthService {
         isUsed: true,
         status: 'verified',
       });
+      await this.webhooksService.emitForUser(
+        WebhookEvent.USER_EMAIL_VERIFIED,
+        verificationToken.userId,
+      );
 
       // Повышаем роль пользователя (например, с viewer на editor)
       // Ищем роль editor без привязки к организации или команде
@@ -1061,62 +1713,115 @@ export class AuthService {
   }
 
   /**
-   * Обработка Telegram Login Widget
+   * Вход через Telegram Login Widget: проверка подписи с учётом неудачных попыток,
+   * поиск по Telegram id или регистрация, затем общий путь входа (риск, 2FA)
    */
-  async handleTelegramLogin(telegramUser: any): Promise<any> {
-    const { id, first_name, last_name, username, photo_url, auth_date, hash } = telegramUser;
-    
-    console.log(`Telegram Login: ${username || first_name} (${id})`);
-    
-    // Проверяем hash для безопасности (упрощённо - TODO: полная проверка)
-    const botToken = process.env.TELEGRAM_BOT_TOKEN;
-    if (!botToken) {
-      throw new Error('Telegram Bot Token не настроен');
+  async handleTelegramLogin(
+    data: TelegramWidgetData,
+    context: SessionContext = {},
+  ): Promise<AuthResponseDto | TwoFactorRequired> {
+    const accountKey = this.loginProtectionService.telegramKey(data?.id);
+
+    let telegramUser: TelegramUser;
+    try {
+      await this.loginProtectionService.assertAllowed(
+        accountKey,
+        context.ipAddress,
+      );
+      telegramUser = this.telegramAuthService.verify(data);
+    } catch (error) {
+      if (error instanceof UnauthorizedException) {
+        await this.loginProtectionService.recordFailure(
+          accountKey,
+          LoginAttemptChannel.TELEGRAM,
+          context,
+        );
+      }
+      await this.auditLogin(LoginAttemptChannel.TELEGRAM, context, {}, error);
+      throw error;
     }
-    
-    // Ищем пользователя по email
-    let user: User | null = null;
-    
-    const email = username ? `${username}@telegram.local` : `telegram_${id}@local`;
-    
-    // Попробуем найти по email
-    user = await this.usersRepo.findOne({ where: { email } });
-    
-    // Если не нашли, создаём нового пользователя
-    if (!user) {
-      user = await this.usersService.create({
-        email,
-        firstName: first_name || '',
-        lastName: last_name || '',
-        passwordHash: '', // Telegram не требует пароль
-        isActive: true,
-        emailVerified: true, // Telegram подтверждён
-        primaryAuthMethod: AuthMethodType.PHONE_TELEGRAM,
-        availableAuthMethods: [AuthMethodType.PHONE_TELEGRAM],
+
+    const user =
+      (await this.telegramAuthService.findUser(telegramUser.id)) ??
+      (await this.registerTelegramUser(telegramUser, context));
+    this.logger.log(
+      `✈️ Telegram Login: пользователь ${user.id} (telegram ${telegramUser.id})`,
+    );
+
+    await this.loginProtectionService.recordSuccess(
+      accountKey,
+      LoginAttemptChannel.TELEGRAM,
+      {
+        ...context,
+        userId: user.id,
+      },
+    );
+
+    return this.loginVerifiedUser(
+      user.id,
+      LoginAttemptChannel.TELEGRAM,
+      context,
+    );
+  }
+
+  /**
+   * Регистрация пользователя по Telegram-аккаунту с ролью по умолчанию
+   */
+  private async registerTelegramUser(
+    telegramUser: TelegramUser,
+    context: SessionContext,
+  ): Promise<User> {
+    const isFirstUser = (await this.usersService.getUserCount()) === 0;
+
+    const user = await this.usersService.create({
+      email: null,
+      firstName: telegramUser.firstName,
+      lastName: telegramUser.lastName,
+      avatarUrl: telegramUser.photoUrl || '',
+      passwordHash: null, // Telegram не требует пароль
+      isActive: true,
+      emailVerified: false,
+      telegramId: telegramUser.id,
+      primaryAuthMethod: AuthMethodType.PHONE_TELEGRAM,
+      availableAuthMethods: [AuthMethodType.PHONE_TELEGRAM],
+      messengerMetadata: {
+        telegram: {
+          userId: Number(telegramUser.id),
+          username: telegramUser.username || '',
+        },
+      },
+    });
+
+    const roleName = isFirstUser
+      ? 'super_admin'
+      : await this.settingsService.getDefaultUserRole();
+    const role = await this.rolesRepo.findOne({ where: { name: roleName } });
+    if (role) {
+      await this.userRoleAssignmentRepo.save({
+        userId: user.id,
+        roleId: role.id,
       });
-      
-      console.log(`Создан новый пользователь через Telegram: ${email}`);
-    }
-    
-    if (!user) {
-      throw new Error('Не удалось создать или найти пользователя');
-    }
-    
-    // Генерируем токены
-    const accessToken = await this.generateAccessToken(user);
-    const refreshToken = await this.generateRefreshToken(user);
-    
-    // Загружаем полную информацию о пользователе
-    const fullUser = await this.usersService.findById(user.id);
-    
-    if (!fullUser) {
-      throw new Error('Не удалось загрузить данные пользователя');
+    } else {
+      this.logger.warn(`⚠️ Роль "${roleName}" не найдена`);
     }
-    
-    return {
-      accessToken,
-      refreshToken,
-      user: this.sanitizeUser(fullUser),
-    };
+    this.logger.log(`👤 Создан пользователь через Telegram: ${user.id}`);
+
+    await this.webhooksService.emitForUser(
+      WebhookEvent.USER_REGISTERED,
+      user.id,
+      {
+        source: 'telegram',
+      },
+    );
+    await this.auditService.record(AuditEvent.USER_REGISTERED, {
+      actorId: user.id,
+      targetType: 'user',
+      targetId: user.id,
+      after: { email: null, role: role?.name ?? null },
+      details: { source: 'telegram' },
+      context,
+    });
+
+    return user;
   }
 }
\ No newline at end of file
@@ -0,0 +1,89 @@
+import {
+  Body,
+  Controller,
+  Get,
+  HttpCode,
+  Param,
+  ParseUUIDPipe,
+  Post,
+} from '@nestjs/common';
+import {
+  ApiTags,
+  ApiOperation,
+  ApiResponse,
+  ApiBearerAuth,
+} from '@nestjs/swagger';
+import { AccountMergeService } from '../services/account-merge.service';
+import {
+  AcceptMergeRequestDto,
+  CreateMergeRequestDto,
+} from '../dto/account-merge.dto';
+import { CurrentUser } from '../decorators/current-user.decorator';
+
+@ApiTags('auth')
+@ApiBearerAuth()
+@Controller('auth/merge-requests')
+export class AccountMergeController {
+  constructor(private readonly accountMergeService: AccountMergeService) {}
+
+  @Get()
+  @ApiOperation({ summary: 'Мои запросы на объединение аккаунтов' })
+  @ApiResponse({ status: 200, description: 'Список запросов' })
+  async findMine(@CurrentUser() user: { userId: string }) {
+    return this.accountMergeService.findForUser(user.userId);
+  }
+
+  @Post('proof')
+  @ApiOperation({
+    summary: 'Токен владения аккаунтом (вызывается из сессии второго аккаунта)',
+  })
+  @ApiResponse({ status: 201, description: 'Токен действует 10 минут' })
+  issueProof(@CurrentUser() user: { userId: string }) {
+    return { proofToken: this.accountMergeService.issueProof(user.userId) };
+  }
+
+  @Post()
+  @ApiOperation({
+    summary: 'Запрос на объединение: текущий аккаунт остаётся основным',
+  })
+  @ApiResponse({
+    status: 201,
+    description: 'Запрос создан, конфликты в ответе',
+  })
+  @ApiResponse({ status: 401, description: 'Невалидный токен владения' })
+  @ApiResponse({ status: 409, description: 'Запрос уже ожидает решения' })
+  async create(
+    @Body() dto: CreateMergeRequestDto,
+    @CurrentUser() user: { userId: string },
+  ) {
+    return this.accountMergeService.create(user.userId, dto.proofToken);
+  }
+
+  @Post(':id/accept')
+  @HttpCode(200)
+  @ApiOperation({ summary: 'Подтверждение объединения с выбором значений' })
+  @ApiResponse({ status: 200, description: 'Аккаунты объединены' })
+  @ApiResponse({
+    status: 403,
+    description: 'Подтверждает только основной аккаунт',
+  })
+  async accept(
+    @Param('id', ParseUUIDPipe) id: string,
+    @Body() dto: AcceptMergeRequestDto,
+    @CurrentUser() user: { userId: string },
+  ) {
+    return this.accountMergeService.accept(user.userId, id, dto);
+  }
+
+  @Post(':id/reject')
+  @HttpCode(200)
+  @ApiOperation({ summary: 'Отклонение запроса на объединение' })
+  @ApiResponse({ status: 200, description: 'Запрос отклонён' })
+  async reject(
+    @Param('id', ParseUUIDPipe) id: string,
+    @CurrentUser() user: { userId: string },
+  ) {
+    await this.accountMergeService.reject(user.userId, id);
+    return { message: 'Запрос на объединение отклонён' };
+  }
+}
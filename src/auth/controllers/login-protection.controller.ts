@@ -0,0 +1,70 @@
+import {
+  Body,
+  Controller,
+  Delete,
+  Get,
+  Param,
+  ParseUUIDPipe,
+  Post,
+  Req,
+  UseGuards,
+} from '@nestjs/common';
+import type { Request } from 'express';
+import {
+  ApiTags,
+  ApiOperation,
+  ApiResponse,
+  ApiBearerAuth,
+} from '@nestjs/swagger';
+import { LoginProtectionService } from '../services/login-protection.service';
+import { UnlockAccountDto } from '../dto/unlock-account.dto';
+import { JwtAuthGuard } from '../guards/jwt-auth.guard';
+import { RequirePermissions } from '../decorators/permissions.decorator';
+import { CurrentUser } from '../decorators/current-user.decorator';
+import { Public } from '../decorators/public.decorator';
+
+@ApiTags('auth')
+@Controller()
+export class LoginProtectionController {
+  constructor(
+    private readonly loginProtectionService: LoginProtectionService,
+  ) {}
+
+  @Post('auth/unlock')
+  @Public()
+  @ApiOperation({ summary: 'Разблокировка аккаунта по ссылке из письма' })
+  @ApiResponse({ status: 201, description: 'Аккаунт разблокирован' })
+  @ApiResponse({ status: 401, description: 'Ссылка невалидна или истекла' })
+  async unlock(@Body() dto: UnlockAccountDto, @Req() req: Request) {
+    await this.loginProtectionService.unlockWithToken(dto.token, req.ip);
+    return { message: 'Аккаунт разблокирован' };
+  }
+
+  @Get('users/:userId/lockout')
+  @UseGuards(JwtAuthGuard)
+  @ApiBearerAuth()
+  @RequirePermissions('users.read')
+  @ApiOperation({ summary: 'Состояние блокировки входа пользователя' })
+  @ApiResponse({ status: 200, description: 'Состояние блокировки' })
+  async getStatus(@Param('userId', ParseUUIDPipe) userId: string) {
+    return this.loginProtectionService.getStatus(userId);
+  }
+
+  @Delete('users/:userId/lockout')
+  @UseGuards(JwtAuthGuard)
+  @ApiBearerAuth()
+  @RequirePermissions('users.update')
+  @ApiOperation({ summary: 'Снятие блокировки входа администратором' })
+  @ApiResponse({ status: 200, description: 'Аккаунт разблокирован' })
+  async adminUnlock(
+    @Param('userId', ParseUUIDPipe) userId: string,
+    @CurrentUser() admin: { email: string },
+    @Req() req: Request,
+  ) {
+    await this.loginProtectionService.unlock(userId, req.ip);
+    console.log(
+      `🔓 ${admin.email} снял блокировку входа пользователя ${userId}`,
+    );
+    return { message: 'Аккаунт разблокирован' };
+  }
+}
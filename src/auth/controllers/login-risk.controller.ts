@@ -0,0 +1,56 @@
+import {
+  Body,
+  Controller,
+  Get,
+  Param,
+  ParseUUIDPipe,
+  Post,
+  Req,
+  UseGuards,
+} from '@nestjs/common';
+import type { Request } from 'express';
+import {
+  ApiTags,
+  ApiOperation,
+  ApiResponse,
+  ApiBearerAuth,
+} from '@nestjs/swagger';
+import { LoginRiskService } from '../services/login-risk.service';
+import { ReportLoginDto } from '../dto/report-login.dto';
+import { JwtAuthGuard } from '../guards/jwt-auth.guard';
+import { RequirePermissions } from '../decorators/permissions.decorator';
+import { Public } from '../decorators/public.decorator';
+
+@ApiTags('auth')
+@Controller()
+export class LoginRiskController {
+  constructor(private readonly loginRiskService: LoginRiskService) {}
+
+  @Post('auth/not-me')
+  @Public()
+  @ApiOperation({
+    summary: '«Это был не я»: завершить все сессии по ссылке из письма',
+  })
+  @ApiResponse({ status: 201, description: 'Сессии завершены' })
+  @ApiResponse({ status: 401, description: 'Ссылка невалидна или истекла' })
+  async reportNotMe(@Body() dto: ReportLoginDto, @Req() req: Request) {
+    const { revokedSessions } = await this.loginRiskService.reportNotMe(
+      dto.token,
+      req.ip,
+    );
+    return {
+      message: 'Все сессии завершены. Смените пароль',
+      revokedSessions,
+    };
+  }
+
+  @Get('users/:userId/login-risk')
+  @UseGuards(JwtAuthGuard)
+  @ApiBearerAuth()
+  @RequirePermissions('users.read')
+  @ApiOperation({ summary: 'Последние оценки риска входов пользователя' })
+  @ApiResponse({ status: 200, description: 'Оценки, новые сверху' })
+  async findRecent(@Param('userId', ParseUUIDPipe) userId: string) {
+    return this.loginRiskService.findRecent(userId);
+  }
+}
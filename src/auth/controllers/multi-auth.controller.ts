@@ -1,28 +1,36 @@
-import { Controller, Post, Get, Body, Query, Param, UseGuards, Req, Res, Logger } from '@nestjs/common';
-import { ApiTags, ApiOperation, ApiResponse, ApiBearerAuth, ApiQuery } from '@nestjs/swagger';
-import type { Request, Response } from 'express';
+import {
+  Controller,
+  Post,
+  Get,
+  Body,
+  Req,
+  BadRequestException,
+} from '@nestjs/common';
+import { ApiTags, ApiOperation, ApiResponse, ApiBearerAuth } from '@nestjs/swagger';
+import type { Request } from 'express';
 import { MultiAuthService } from '../services/multi-auth.service';
 import { PhoneAuthService } from '../services/phone-auth.service';
-import { GitHubAuthService } from '../services/github-auth.service';
-import { VKontakteAuthService } from '../services/vkontakte-auth.service';
-import { GosuslugiAuthService } from '../services/gosuslugi-auth.service';
 import { AuthService } from '../auth.service';
+import { PasswordPolicyService } from '../services/password-policy.service';
+import { TelegramAuthService } from '../services/telegram-auth.service';
+import type { TelegramWidgetData } from '../services/telegram-auth.service';
 import { AuthMethodType } from '../enums/auth-method-type.enum';
 import { JwtAuthGuard } from '../guards/jwt-auth.guard';
 import { Public } from '../decorators/public.decorator';
+import { CurrentUser } from '../decorators/current-user.decorator';
+import { LoginAttemptChannel } from '../entities/login-attempt.entity';
+import { SessionContext } from '../interfaces/session.interface';
+import { User } from '../../users/entities/user.entity';
 
 @ApiTags('multi-auth')
 @Controller('auth/multi')
 export class MultiAuthController {
-  private readonly logger = new Logger(MultiAuthController.name);
-
   constructor(
     private multiAuthService: MultiAuthService,
     private phoneAuthService: PhoneAuthService,
-    private githubAuthService: GitHubAuthService,
-    private vkontakteAuthService: VKontakteAuthService,
-    private gosuslugiAuthService: GosuslugiAuthService,
     private authService: AuthService,
+    private passwordPolicyService: PasswordPolicyService,
+    private telegramAuthService: TelegramAuthService,
   ) {}
 
   /**
@@ -53,19 +61,13 @@ export class MultiAuthController {
         };
       }
 
-      // Генерируем код верификации
-      const code = Math.floor(100000 + Math.random() * 900000).toString();
-      
-      // Отправляем код через выбранный мессенджер
-      const sendResult = await this.phoneAuthService.sendCode(identifier, code, messenger, 'registration');
+      // Отправляем код через выбранный мессенджер (код хранится в verification_codes)
+      const sendResult = await this.phoneAuthService.sendCode(identifier, messenger, 'registration');
       
       if (!sendResult.success) {
         return sendResult;
       }
 
-      // Сохраняем код в базе данных для последующей верификации
-      // Здесь должен быть вызов MultiAuthService.generateVerificationCode
-      
       return {
         success: true,
         requiresVerification: true,
@@ -92,9 +94,28 @@ export class MultiAuthController {
       password?: string;
       verificationCode?: string;
     },
+    @Req() req: Request,
   ) {
     const { authMethod, identifier, password, verificationCode } = body;
-    return this.multiAuthService.login(authMethod, identifier, password, verificationCode);
+    const context = this.sessionContext(req);
+    const result = await this.multiAuthService.login(
+      authMethod,
+      identifier,
+      password,
+      verificationCode,
+      context,
+    );
+    if (!result.success) {
+      return result;
+    }
+
+    // Дальше вход идёт общим путём: оценка риска, 2FA, выдача токенов
+    const login = await this.authService.loginVerifiedUser(
+      (result.user as User).id,
+      LoginAttemptChannel.MULTI_AUTH,
+      context,
+    );
+    return { success: !('requires2FA' in login), ...login };
   }
 
   /**
@@ -106,7 +127,7 @@ export class MultiAuthController {
   @ApiResponse({ status: 200, description: 'Метод аутентификации привязан' })
   @ApiResponse({ status: 400, description: 'Ошибка привязки' })
   async bindAuthMethod(
-    @Req() req: Request,
+    @CurrentUser() currentUser: { userId: string },
     @Body() body: {
       authMethod: AuthMethodType;
       identifier: string;
@@ -114,7 +135,7 @@ export class MultiAuthController {
       verificationCode?: string;
     },
   ) {
-    const userId = (req as any).user.userId;
+    const userId = currentUser.userId;
     const { authMethod, identifier, password, verificationCode } = body;
     
     // If this is EMAIL binding and password is provided, we need to hash and set it
@@ -131,6 +152,15 @@ export class MultiAuthController {
         };
       }
       
+      const passwordViolations = await this.passwordPolicyService.getViolations(password, { userId });
+      if (passwordViolations.length > 0) {
+        return {
+          success: false,
+          error: 'Пароль не соответствует политике паролей',
+          passwordViolations,
+        };
+      }
+
       const bcrypt = require('bcrypt');
       const salt = await bcrypt.genSalt(12);
       const passwordHash = await bcrypt.hash(password, salt);
@@ -148,6 +178,7 @@ export class MultiAuthController {
         }
         
         await this.multiAuthService['usersRepo'].save(user);
+        await this.passwordPolicyService.recordPasswordChange(userId, passwordHash);
         
         return { success: true, user };
       }
@@ -165,13 +196,13 @@ export class MultiAuthController {
   @ApiResponse({ status: 200, description: 'Метод аутентификации отвязан' })
   @ApiResponse({ status: 400, description: 'Ошибка отвязки' })
   async unbindAuthMethod(
-    @Req() req: Request,
+    @CurrentUser() currentUser: { userId: string },
     @Body() body: {
       authMethod: AuthMethodType;
       verificationCode?: string;
     },
   ) {
-    const userId = (req as any).user.userId;
+    const userId = currentUser.userId;
     const { authMethod, verificationCode } = body;
     
     return this.multiAuthService.unbindAuthMethod(userId, authMethod, verificationCode);
@@ -186,13 +217,15 @@ export class MultiAuthController {
   @ApiResponse({ status: 200, description: 'Аккаунты успешно слиты' })
   @ApiResponse({ status: 400, description: 'Ошибка слияния' })
   async mergeAccounts(
+    @CurrentUser() currentUser: { userId: string },
     @Body() body: {
       mergeRequestId: string;
       resolution: any; // MergeResolution
     },
   ) {
+    const userId = currentUser.userId;
     const { mergeRequestId, resolution } = body;
-    return this.multiAuthService.mergeAccounts(mergeRequestId, resolution);
+    return this.multiAuthService.mergeAccounts(userId, mergeRequestId, resolution);
   }
 
   /**
@@ -203,13 +236,13 @@ export class MultiAuthController {
   @ApiOperation({ summary: 'Настройка многофакторной аутентификации' })
   @ApiResponse({ status: 200, description: 'MFA настроена' })
   async setupMfa(
-    @Req() req: Request,
+    @CurrentUser() currentUser: { userId: string },
     @Body() body: {
       methods: AuthMethodType[];
       requiredMethods?: number;
     },
   ) {
-    const userId = (req as any).user.userId;
+    const userId = currentUser.userId;
     const { methods, requiredMethods = 1 } = body;
     
     return this.multiAuthService.setupMfa(userId, methods, requiredMethods);
@@ -222,8 +255,8 @@ export class MultiAuthController {
   @ApiBearerAuth()
   @ApiOperation({ summary: 'Отключение многофакторной аутентификации' })
   @ApiResponse({ status: 200, description: 'MFA отключена' })
-  async disableMfa(@Req() req: Request) {
-    const userId = (req as any).user.userId;
+  async disableMfa(@CurrentUser() currentUser: { userId: string }) {
+    const userId = currentUser.userId;
     return this.multiAuthService.disableMfa(userId);
   }
 
@@ -244,6 +277,7 @@ export class MultiAuthController {
         [AuthMethodType.GOSUSLUGI]: 'Госуслуги',
         [AuthMethodType.VKONTAKTE]: 'ВКонтакте',
         [AuthMethodType.GITHUB]: 'GitHub',
+        [AuthMethodType.PASSKEY]: 'Ключ доступа (passkey)',
       },
     };
   }
@@ -255,8 +289,10 @@ export class MultiAuthController {
   @ApiBearerAuth()
   @ApiOperation({ summary: 'Получение предпочтений пользователя по мессенджерам' })
   @ApiResponse({ status: 200, description: 'Предпочтения пользователя' })
-  async getMessengerPreferences(@Req() req: Request) {
-    const userId = (req as any).user.userId;
+  async getMessengerPreferences(
+    @CurrentUser() currentUser: { userId: string },
+  ) {
+    const userId = currentUser.userId;
     return this.phoneAuthService.getUserMessengerPreferences(userId);
   }
 
@@ -268,14 +304,14 @@ export class MultiAuthController {
   @ApiOperation({ summary: 'Обновление предпочтений пользователя по мессенджерам' })
   @ApiResponse({ status: 200, description: 'Предпочтения обновлены' })
   async updateMessengerPreferences(
-    @Req() req: Request,
+    @CurrentUser() currentUser: { userId: string },
     @Body() preferences: {
       whatsapp: boolean;
       telegram: boolean;
       preferred: 'whatsapp' | 'telegram' | null;
     },
   ) {
-    const userId = (req as any).user.userId;
+    const userId = currentUser.userId;
     return this.phoneAuthService.updateMessengerPreferences(userId, preferences);
   }
 
@@ -297,9 +333,7 @@ export class MultiAuthController {
     },
   ) {
     const { phoneNumber, messengerType, purpose } = body;
-    // Генерируем случайный код
-    const code = Math.floor(100000 + Math.random() * 900000).toString();
-    return this.phoneAuthService.sendCode(phoneNumber, code, messengerType.toLowerCase() as 'whatsapp' | 'telegram', purpose);
+    return this.phoneAuthService.sendCode(phoneNumber, messengerType.toLowerCase() as 'whatsapp' | 'telegram', purpose);
   }
 
   /**
@@ -317,313 +351,63 @@ export class MultiAuthController {
       code: string;
       purpose: 'login' | 'registration' | 'verification';
     },
+    @Req() req: Request,
   ) {
     const { phoneNumber, messengerType, code, purpose } = body;
-    return this.phoneAuthService.verifyCode(phoneNumber, messengerType, code, purpose);
-  }
-
-  // OAuth endpoints
-
-  /**
-   * Получение URL для авторизации через GitHub
-   */
-  @Get('oauth/github/url')
-  @Public()
-  @ApiOperation({ summary: 'Получение URL для авторизации через GitHub' })
-  @ApiQuery({ name: 'state', required: false, description: 'Состояние для защиты от CSRF' })
-  @ApiResponse({ status: 200, description: 'URL для авторизации' })
-  @ApiResponse({ status: 400, description: 'OAuth не настроен' })
-  async getGitHubAuthUrl(@Query('state') state?: string) {
-    try {
-      const authUrl = this.githubAuthService.getAuthUrl(state);
-      return { url: authUrl };
-    } catch (error) {
-      this.logger.error(`GitHub OAuth error: ${error.message}`);
-      return {
-        error: 'GitHub OAuth не настроен',
-        message: 'Пожалуйста, создайте OAuth App на https://github.com/settings/developers и добавьте GITHUB_CLIENT_ID в .env',
-        helpUrl: 'https://github.com/settings/developers'
-      };
-    }
+    return this.phoneAuthService.verifyCode(phoneNumber, messengerType, code, purpose, req.ip);
   }
 
   /**
-   * Обработка callback от GitHub
+   * Обработка Telegram Login Widget
    */
-  @Get('oauth/github/callback')
+  @Post('telegram-login')
   @Public()
-  @ApiOperation({ summary: 'Обработка callback от GitHub' })
-  @ApiQuery({ name: 'code', description: 'Код авторизации' })
-  @ApiQuery({ name: 'state', required: false, description: 'Состояние' })
-  async handleGitHubCallback(
-    @Query('code') code: string,
-    @Query('state') state: string,
-    @Query('bind') bind: string,
-    @Query('userId') userId: string,
-    @Res() res: Response,
+  @ApiOperation({ summary: 'Вход через Telegram Login Widget (подпись проверяется токеном бота)' })
+  @ApiResponse({ status: 200, description: 'Успешная авторизация через Telegram' })
+  @ApiResponse({ status: 401, description: 'Неверная подпись или устаревшие данные Telegram' })
+  async handleTelegramLogin(
+    @Body()
+    body: TelegramWidgetData & {
+      telegramUser?: TelegramWidgetData;
+      bind?: boolean;
+    },
+    @Req() req: Request,
   ) {
-    this.logger.log(`GitHub OAuth callback received: code=${code?.substring(0, 10)}..., state=${state}, bind=${bind}, userId=${userId}`);
-    
-    try {
-      const result = await this.githubAuthService.handleCallback(code, state);
-      
-      this.logger.log(`GitHub OAuth callback result: success=${result.success}, user=${result.user?.email || 'none'}`);
-      
-      if (result.success) {
-        // If this is a binding request (bind=true), we need to merge accounts
-        if (bind === 'true' && userId) {
-          this.logger.log(`GitHub binding request for user ${userId}`);
-          
-          // Get the current user (the one who initiated the binding)
-          const currentUser = await this.multiAuthService['usersRepo'].findOne({ where: { id: userId } });
-          
-          if (!currentUser) {
-            this.logger.error(`Current user ${userId} not found`);
-            const frontendUrl = process.env.FRONTEND_URL || 'https://vselena.ldmco.ru';
-            return res.redirect(`${frontendUrl}/index.html?error=User not found`);
-          }
-          
-          this.logger.log(`Current user: ${currentUser.email}, available methods: ${JSON.stringify(currentUser.availableAuthMethods)}`);
-          
-          // Check if result.user is the same as currentUser or a different GitHub account
-          const githubUserId = result.user.githubId;
-          
-          // Add GitHub to current user's available methods if not already there
-          if (!currentUser.availableAuthMethods.includes(AuthMethodType.GITHUB)) {
-            currentUser.availableAuthMethods.push(AuthMethodType.GITHUB);
-            currentUser.githubId = githubUserId;
-            currentUser.githubUsername = result.user.githubUsername;
-            currentUser.githubVerified = true;
-            if (result.user.avatarUrl && !currentUser.avatarUrl) {
-              currentUser.avatarUrl = result.user.avatarUrl;
-            }
-            await this.multiAuthService['usersRepo'].save(currentUser);
-            this.logger.log(`GitHub (${githubUserId}) added to user ${userId} available methods`);
-          } else {
-            this.logger.log(`GitHub already connected to user ${userId}`);
-          }
-          
-          // Generate tokens for the CURRENT user (not the GitHub user)
-          const accessToken = await this.authService.generateAccessToken(currentUser);
-          const refreshToken = await this.authService.generateRefreshToken(currentUser);
-          
-          this.logger.log(`Tokens generated for current user ${userId}`);
-          
-          // Redirect to dashboard with tokens
-          const frontendUrl = process.env.FRONTEND_URL || 'https://vselena.ldmco.ru';
-          const redirectUrl = `${frontendUrl}/dashboard.html?token=${accessToken}&refreshToken=${refreshToken}`;
-          this.logger.log(`GitHub OAuth binding redirecting to: ${redirectUrl}`);
-          return res.redirect(redirectUrl);
-        }
-        
-        // Генерируем JWT токены для пользователя через AuthService
-        const accessToken = await this.authService.generateAccessToken(result.user);
-        const refreshToken = await this.authService.generateRefreshToken(result.user);
-        
-        this.logger.log(`GitHub OAuth tokens generated: accessToken=${accessToken.substring(0, 20)}..., refreshToken=${refreshToken.substring(0, 20)}...`);
-        
-        // Перенаправляем на dashboard с токенами
-        const frontendUrl = process.env.FRONTEND_URL || 'https://vselena.ldmco.ru';
-        const redirectUrl = `${frontendUrl}/dashboard.html?token=${accessToken}&refreshToken=${refreshToken}`;
-        this.logger.log(`GitHub OAuth redirecting to: ${redirectUrl}`);
-        return res.redirect(redirectUrl);
-      } else {
-        this.logger.error(`GitHub OAuth failed: ${result.error}`);
-        // Перенаправляем на главную с ошибкой
-        const frontendUrl = process.env.FRONTEND_URL || 'https://vselena.ldmco.ru';
-        const redirectUrl = `${frontendUrl}/index.html?error=${encodeURIComponent(result.error || 'Unknown error')}`;
-        this.logger.log(`GitHub OAuth redirecting to error page: ${redirectUrl}`);
-        return res.redirect(redirectUrl);
-      }
-    } catch (error) {
-      this.logger.error(`GitHub OAuth callback error: ${error.message}`);
-      this.logger.error(error.stack);
-      const frontendUrl = process.env.FRONTEND_URL || 'https://vselena.ldmco.ru';
-      const redirectUrl = `${frontendUrl}/index.html?error=${encodeURIComponent(error.message || 'Unknown error')}`;
-      this.logger.log(`GitHub OAuth redirecting to error page: ${redirectUrl}`);
-      return res.redirect(redirectUrl);
+    if (body.bind) {
+      throw new BadRequestException('Для привязки Telegram используйте POST /auth/multi/telegram-bind с токеном доступа');
     }
+    return this.authService.handleTelegramLogin(
+      body.telegramUser ?? body,
+      this.sessionContext(req),
+    );
   }
 
   /**
-   * Получение URL для авторизации через VKontakte
+   * Привязка Telegram к текущему пользователю
    */
-  @Get('oauth/vkontakte')
-  @Public()
-  @ApiOperation({ summary: 'Получение URL для авторизации через VKontakte' })
-  @ApiQuery({ name: 'state', required: false, description: 'Состояние для защиты от CSRF' })
-  @ApiResponse({ status: 200, description: 'URL для авторизации' })
-  async getVKontakteAuthUrl(@Query('state') state?: string) {
-    const authUrl = this.vkontakteAuthService.getAuthUrl(state);
-    return { authUrl };
-  }
-
-  /**
-   * Обработка callback от VKontakte
-   */
-  @Get('oauth/vkontakte/callback')
-  @Public()
-  @ApiOperation({ summary: 'Обработка callback от VKontakte' })
-  @ApiQuery({ name: 'code', description: 'Код авторизации' })
-  @ApiQuery({ name: 'state', required: false, description: 'Состояние' })
-  async handleVKontakteCallback(
-    @Query('code') code: string,
-    @Query('state') state: string,
-    @Res() res: Response,
+  @Post('telegram-bind')
+  @ApiBearerAuth()
+  @ApiOperation({ summary: 'Привязка Telegram Login Widget к текущему пользователю' })
+  @ApiResponse({ status: 200, description: 'Telegram привязан' })
+  @ApiResponse({ status: 401, description: 'Неверная подпись или устаревшие данные Telegram' })
+  @ApiResponse({ status: 409, description: 'Telegram уже привязан к другому пользователю' })
+  async bindTelegram(
+    @CurrentUser() currentUser: { userId: string },
+    @Body() body: TelegramWidgetData & { telegramUser?: TelegramWidgetData },
   ) {
-    const result = await this.vkontakteAuthService.handleCallback(code, state);
-    
-    if (result.success) {
-      const frontendUrl = process.env.FRONTEND_URL || 'http://localhost:3000';
-      const redirectUrl = `${frontendUrl}/auth/success?token=${result.accessToken}&refreshToken=${result.refreshToken}`;
-      return res.redirect(redirectUrl);
-    } else {
-      const frontendUrl = process.env.FRONTEND_URL || 'http://localhost:3000';
-      const redirectUrl = `${frontendUrl}/auth/error?error=${encodeURIComponent(result.error || 'Unknown error')}`;
-      return res.redirect(redirectUrl);
-    }
-  }
+    const userId = currentUser.userId;
+    const telegramWidgetData = body.telegramUser ?? body;
 
-  /**
-   * Получение URL для авторизации через Госуслуги
-   */
-  @Get('oauth/gosuslugi')
-  @Public()
-  @ApiOperation({ summary: 'Получение URL для авторизации через Госуслуги' })
-  @ApiQuery({ name: 'state', required: false, description: 'Состояние для защиты от CSRF' })
-  @ApiResponse({ status: 200, description: 'URL для авторизации' })
-  async getGosuslugiAuthUrl(@Query('state') state?: string) {
-    const authUrl = this.gosuslugiAuthService.getAuthUrl(state);
-    return { authUrl };
-  }
+    const telegramUser = this.telegramAuthService.verify(telegramWidgetData);
+    const user = await this.telegramAuthService.bindToUser(userId, telegramUser);
 
-  /**
-   * Обработка callback от Госуслуг
-   */
-  @Get('oauth/gosuslugi/callback')
-  @Public()
-  @ApiOperation({ summary: 'Обработка callback от Госуслуг' })
-  @ApiQuery({ name: 'code', description: 'Код авторизации' })
-  @ApiQuery({ name: 'state', required: false, description: 'Состояние' })
-  async handleGosuslugiCallback(
-    @Query('code') code: string,
-    @Query('state') state: string,
-    @Res() res: Response,
-  ) {
-    const result = await this.gosuslugiAuthService.handleCallback(code, state);
-    
-    if (result.success) {
-      const frontendUrl = process.env.FRONTEND_URL || 'http://localhost:3000';
-      const redirectUrl = `${frontendUrl}/auth/success?token=${result.accessToken}&refreshToken=${result.refreshToken}`;
-      return res.redirect(redirectUrl);
-    } else {
-      const frontendUrl = process.env.FRONTEND_URL || 'http://localhost:3000';
-      const redirectUrl = `${frontendUrl}/auth/error?error=${encodeURIComponent(result.error || 'Unknown error')}`;
-      return res.redirect(redirectUrl);
-    }
+    return { success: true, user };
   }
 
-  /**
-   * Обработка Telegram Login Widget
-   */
-  @Post('telegram-login')
-  @Public()
-  @ApiOperation({ summary: 'Обработка Telegram Login Widget' })
-  async handleTelegramLogin(@Body() body: { telegramUser?: any; bind?: boolean; userId?: string } | any) {
-    this.logger.log(`Telegram Login request received. Body keys: ${Object.keys(body).join(', ')}`);
-    this.logger.log(`Telegram Login body (first 300 chars): ${JSON.stringify(body).substring(0, 300)}`);
-    
-    const telegramUser = body.telegramUser || body;
-    const { bind, userId } = body;
-    const { id, first_name, last_name, username, photo_url, auth_date, hash } = telegramUser;
-    
-    this.logger.log(`Telegram Login: ${username || first_name} (${id}), bind=${bind}, userId=${userId}`);
-    
-    // Проверяем hash для безопасности
-    // TODO: Добавить проверку hash
-    
-    if (bind && userId) {
-      // This is a binding request - add Telegram to existing user
-      this.logger.log(`Telegram binding request for user ${userId}`);
-      
-      const currentUser = await this.multiAuthService['usersRepo'].findOne({ where: { id: userId } });
-      
-      if (!currentUser) {
-        this.logger.error(`Current user ${userId} not found`);
-        throw new Error('User not found');
-      }
-      
-      this.logger.log(`Current user: ${currentUser.email}, available methods: ${JSON.stringify(currentUser.availableAuthMethods)}`);
-      
-          // Check if Telegram is already connected
-          if (!currentUser.availableAuthMethods.includes(AuthMethodType.PHONE_TELEGRAM)) {
-            currentUser.availableAuthMethods.push(AuthMethodType.PHONE_TELEGRAM);
-            // Extract telegram user ID from telegramUser object
-            const telegramId = id?.toString();
-            if (telegramId) {
-              // Store telegram metadata
-              if (!currentUser.messengerMetadata) {
-                currentUser.messengerMetadata = {} as any;
-              }
-              const metadata = currentUser.messengerMetadata as any;
-              
-              if (!metadata.telegram) {
-                metadata.telegram = { userId: telegramId, username: username || '' };
-              } else {
-                metadata.telegram.userId = telegramId;
-                metadata.telegram.username = username || '';
-              }
-              currentUser.phoneVerified = true;
-            }
-            if (photo_url && !currentUser.avatarUrl) {
-              currentUser.avatarUrl = photo_url;
-            }
-            await this.multiAuthService['usersRepo'].save(currentUser);
-            this.logger.log(`Telegram added to user ${userId} available methods`);
-          } else {
-            this.logger.log(`Telegram already connected to user ${userId}`);
-          }
-      
-      // Generate tokens for CURRENT user
-      const tokens = await this.generateTokens(currentUser);
-      
-      this.logger.log(`Tokens generated for current user ${userId}`);
-      
-      return {
-        accessToken: tokens.accessToken,
-        refreshToken: tokens.refreshToken,
-        user: currentUser,
-      };
-    }
-    
-    // Находим или создаём пользователя
-    try {
-      const user = await this.multiAuthService.handleTelegramLogin(telegramUser);
-      
-      if (user) {
-        // Генерируем токены
-        const tokens = await this.generateTokens(user);
-        
-        return {
-          accessToken: tokens.accessToken,
-          refreshToken: tokens.refreshToken,
-          user: user,
-        };
-      } else {
-        this.logger.error('handleTelegramLogin returned null');
-        throw new Error('Не удалось авторизовать пользователя');
-      }
-    } catch (error) {
-      this.logger.error(`Error in handleTelegramLogin: ${error.message}`, error.stack);
-      throw error;
-    }
-  }
-
-  private async generateTokens(user: any) {
-    // Генерация токенов аналогично AuthService
-    const accessToken = await this.multiAuthService.generateAccessToken(user);
-    const refreshToken = await this.multiAuthService.generateRefreshToken(user);
-    
-    return { accessToken, refreshToken };
+  private sessionContext(req: Request): SessionContext {
+    return {
+      ipAddress: req.ip,
+      userAgent: req.get('User-Agent'),
+    };
   }
 }
\ No newline at end of file
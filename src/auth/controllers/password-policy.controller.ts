@@ -0,0 +1,87 @@
+import {
+  Body,
+  Controller,
+  Get,
+  Param,
+  ParseUUIDPipe,
+  Post,
+  Put,
+  UseGuards,
+} from '@nestjs/common';
+import {
+  ApiTags,
+  ApiOperation,
+  ApiResponse,
+  ApiBearerAuth,
+} from '@nestjs/swagger';
+import { PasswordPolicyService } from '../services/password-policy.service';
+import { UpdatePasswordPolicyDto } from '../dto/password-policy.dto';
+import { JwtAuthGuard } from '../guards/jwt-auth.guard';
+import { RequirePermissions } from '../decorators/permissions.decorator';
+import { PermissionScope } from '../decorators/permission-scope.decorator';
+import { CurrentUser } from '../decorators/current-user.decorator';
+
+@ApiTags('settings')
+@UseGuards(JwtAuthGuard)
+@ApiBearerAuth()
+@Controller()
+export class PasswordPolicyController {
+  constructor(private readonly passwordPolicyService: PasswordPolicyService) {}
+
+  @Get('settings/password-policy')
+  @RequirePermissions('settings.read')
+  @ApiOperation({ summary: 'Глобальная политика паролей' })
+  @ApiResponse({ status: 200, description: 'Политика паролей' })
+  async getGlobalPolicy() {
+    return this.passwordPolicyService.getGlobalPolicy();
+  }
+
+  @Put('settings/password-policy')
+  @RequirePermissions('settings.update')
+  @ApiOperation({ summary: 'Изменение глобальной политики паролей' })
+  @ApiResponse({ status: 200, description: 'Политика обновлена' })
+  async updateGlobalPolicy(
+    @Body() dto: UpdatePasswordPolicyDto,
+    @CurrentUser() user: { email: string },
+  ) {
+    const policy = await this.passwordPolicyService.setGlobalPolicy(dto);
+    console.log(`🔑 ${user.email} изменил глобальную политику паролей`);
+    return policy;
+  }
+
+  @Get('organizations/:id/password-policy')
+  @RequirePermissions('organizations.read')
+  @PermissionScope({ organization: 'params.id' })
+  @ApiOperation({ summary: 'Политика паролей организации' })
+  @ApiResponse({ status: 200, description: 'Политика паролей организации' })
+  async getOrganizationPolicy(@Param('id', ParseUUIDPipe) id: string) {
+    return this.passwordPolicyService.getOrganizationPolicy(id);
+  }
+
+  @Put('organizations/:id/password-policy')
+  @RequirePermissions('organizations.update')
+  @PermissionScope({ organization: 'params.id' })
+  @ApiOperation({ summary: 'Переопределение политики паролей в организации' })
+  @ApiResponse({ status: 200, description: 'Политика обновлена' })
+  async updateOrganizationPolicy(
+    @Param('id', ParseUUIDPipe) id: string,
+    @Body() dto: UpdatePasswordPolicyDto,
+    @CurrentUser() user: { email: string },
+  ) {
+    const policy = await this.passwordPolicyService.setOrganizationPolicy(
+      id,
+      dto,
+    );
+    console.log(`🔑 ${user.email} изменил политику паролей организации ${id}`);
+    return policy;
+  }
+
+  @Post('users/:userId/password/expire')
+  @RequirePermissions('users.update')
+  @ApiOperation({ summary: 'Потребовать смену пароля при следующем входе' })
+  @ApiResponse({ status: 201, description: 'Смена пароля потребуется' })
+  async requirePasswordChange(@Param('userId', ParseUUIDPipe) userId: string) {
+    await this.passwordPolicyService.requireChange(userId);
+    return { message: 'Пользователь должен будет сменить пароль при входе' };
+  }
+}
@@ -0,0 +1,74 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Patch,
+  Delete,
+  Body,
+  Param,
+  ParseUUIDPipe,
+  BadRequestException,
+} from '@nestjs/common';
+import {
+  ApiTags,
+  ApiOperation,
+  ApiResponse,
+  ApiBearerAuth,
+} from '@nestjs/swagger';
+import { SessionsService } from '../services/sessions.service';
+import { RenameSessionDto } from '../dto/session.dto';
+import { CurrentUser } from '../decorators/current-user.decorator';
+
+@ApiTags('auth')
+@ApiBearerAuth()
+@Controller('auth/sessions')
+export class SessionsController {
+  constructor(private readonly sessionsService: SessionsService) {}
+
+  @Get()
+  @ApiOperation({ summary: 'Мои активные сессии (устройства)' })
+  @ApiResponse({ status: 200, description: 'Список сессий' })
+  async findMine(@CurrentUser() user: any) {
+    return this.sessionsService.findActiveSessions(user.userId, user.sessionId);
+  }
+
+  @Patch(':id')
+  @ApiOperation({ summary: 'Переименование устройства' })
+  @ApiResponse({ status: 200, description: 'Устройство переименовано' })
+  async rename(
+    @Param('id', ParseUUIDPipe) id: string,
+    @Body() dto: RenameSessionDto,
+    @CurrentUser() user: any,
+  ) {
+    await this.sessionsService.renameSession(user.userId, id, dto.deviceName);
+    return { message: 'Устройство переименовано' };
+  }
+
+  @Delete(':id')
+  @ApiOperation({ summary: 'Завершение сессии' })
+  @ApiResponse({ status: 200, description: 'Сессия завершена' })
+  async revoke(
+    @Param('id', ParseUUIDPipe) id: string,
+    @CurrentUser() user: any,
+  ) {
+    await this.sessionsService.revokeSession(user.userId, id);
+    return { message: 'Сессия завершена' };
+  }
+
+  @Post('revoke-others')
+  @ApiOperation({ summary: 'Выход на всех устройствах, кроме текущего' })
+  @ApiResponse({ status: 201, description: 'Остальные сессии завершены' })
+  async revokeOthers(@CurrentUser() user: any) {
+    if (!user.sessionId) {
+      throw new BadRequestException(
+        'Текущая сессия не определена, войдите заново',
+      );
+    }
+
+    const revoked = await this.sessionsService.revokeOtherSessions(
+      user.userId,
+      user.sessionId,
+    );
+    return { message: 'Остальные сессии завершены', revoked };
+  }
+}
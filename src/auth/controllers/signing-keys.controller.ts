@@ -0,0 +1,53 @@
+import { Controller, Get, Post, UseGuards } from '@nestjs/common';
+import {
+  ApiTags,
+  ApiOperation,
+  ApiResponse,
+  ApiBearerAuth,
+} from '@nestjs/swagger';
+import { SigningKeysService } from '../services/signing-keys.service';
+import { JwtAuthGuard } from '../guards/jwt-auth.guard';
+import { RequirePermissions } from '../decorators/permissions.decorator';
+import { CurrentUser } from '../decorators/current-user.decorator';
+import { Public } from '../decorators/public.decorator';
+
+@ApiTags('auth')
+@Controller()
+export class SigningKeysController {
+  constructor(private readonly signingKeysService: SigningKeysService) {}
+
+  @Get('.well-known/jwks.json')
+  @Public()
+  @ApiOperation({ summary: 'Публичные ключи для проверки подписи JWT' })
+  @ApiResponse({ status: 200, description: 'JWKS' })
+  getJwks() {
+    return this.signingKeysService.getJwks();
+  }
+
+  @Get('auth/keys')
+  @UseGuards(JwtAuthGuard)
+  @ApiBearerAuth()
+  @RequirePermissions('settings.read')
+  @ApiOperation({ summary: 'Список ключей подписи JWT' })
+  @ApiResponse({
+    status: 200,
+    description: 'Ключи подписи (без приватных частей)',
+  })
+  async findAll() {
+    return this.signingKeysService.findAll();
+  }
+
+  @Post('auth/keys/rotate')
+  @UseGuards(JwtAuthGuard)
+  @ApiBearerAuth()
+  @RequirePermissions('settings.update')
+  @ApiOperation({ summary: 'Внеплановая ротация ключа подписи JWT' })
+  @ApiResponse({ status: 201, description: 'Создан новый активный ключ' })
+  async rotate(@CurrentUser() user: any) {
+    const key = await this.signingKeysService.rotate();
+    console.log(
+      `🔑 Пользователь ${user.email} выполнил ротацию ключа подписи JWT: ${key.kid}`,
+    );
+    return { kid: key.kid, algorithm: key.algorithm, createdAt: key.createdAt };
+  }
+}
@@ -0,0 +1,66 @@
+import {
+  Controller,
+  Get,
+  Delete,
+  Param,
+  ParseUUIDPipe,
+  UseGuards,
+} from '@nestjs/common';
+import {
+  ApiTags,
+  ApiOperation,
+  ApiResponse,
+  ApiBearerAuth,
+} from '@nestjs/swagger';
+import { SessionsService } from '../services/sessions.service';
+import { CurrentUser } from '../decorators/current-user.decorator';
+import { RequirePermissions } from '../decorators/permissions.decorator';
+import { JwtAuthGuard } from '../guards/jwt-auth.guard';
+
+/**
+ * Управление сессиями пользователей администратором
+ */
+@ApiTags('users')
+@UseGuards(JwtAuthGuard)
+@ApiBearerAuth()
+@Controller('users/:userId/sessions')
+export class UserSessionsController {
+  constructor(private readonly sessionsService: SessionsService) {}
+
+  @Get()
+  @RequirePermissions('users.read')
+  @ApiOperation({ summary: 'Активные сессии пользователя' })
+  @ApiResponse({ status: 200, description: 'Список сессий' })
+  async findAll(@Param('userId', ParseUUIDPipe) userId: string) {
+    return this.sessionsService.findActiveSessions(userId);
+  }
+
+  @Delete()
+  @RequirePermissions('users.update')
+  @ApiOperation({ summary: 'Завершение всех сессий пользователя' })
+  @ApiResponse({ status: 200, description: 'Сессии завершены' })
+  async revokeAll(
+    @Param('userId', ParseUUIDPipe) userId: string,
+    @CurrentUser() admin: any,
+  ) {
+    const revoked = await this.sessionsService.revokeAllSessions(userId);
+    console.log(`🔒 ${admin.email} завершил все сессии пользователя ${userId}`);
+    return { message: 'Все сессии пользователя завершены', revoked };
+  }
+
+  @Delete(':sessionId')
+  @RequirePermissions('users.update')
+  @ApiOperation({ summary: 'Завершение сессии пользователя' })
+  @ApiResponse({ status: 200, description: 'Сессия завершена' })
+  async revoke(
+    @Param('userId', ParseUUIDPipe) userId: string,
+    @Param('sessionId', ParseUUIDPipe) sessionId: string,
+    @CurrentUser() admin: any,
+  ) {
+    await this.sessionsService.revokeSession(userId, sessionId);
+    console.log(
+      `🔒 ${admin.email} завершил сессию ${sessionId} пользователя ${userId}`,
+    );
+    return { message: 'Сессия завершена' };
+  }
+}
@@ -0,0 +1,167 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Patch,
+  Delete,
+  Body,
+  Param,
+  ParseUUIDPipe,
+  Req,
+} from '@nestjs/common';
+import {
+  ApiTags,
+  ApiOperation,
+  ApiResponse,
+  ApiBearerAuth,
+} from '@nestjs/swagger';
+import type { Request } from 'express';
+import { WebAuthnService } from '../services/webauthn.service';
+import { AuthService } from '../auth.service';
+import { UsersService } from '../../users/users.service';
+import { WebAuthnChallengePurpose } from '../entities/webauthn-challenge.entity';
+import {
+  RegisterWebAuthnCredentialDto,
+  RenameWebAuthnCredentialDto,
+  WebAuthnLoginOptionsDto,
+  WebAuthnLoginVerifyDto,
+  WebAuthnSecondFactorOptionsDto,
+  WebAuthnSecondFactorVerifyDto,
+} from '../dto/webauthn.dto';
+import { SessionContext } from '../interfaces/session.interface';
+import { CurrentUser } from '../decorators/current-user.decorator';
+import { Public } from '../decorators/public.decorator';
+
+@ApiTags('multi-auth')
+@Controller('auth/multi/webauthn')
+export class WebAuthnController {
+  constructor(
+    private readonly webAuthnService: WebAuthnService,
+    private readonly authService: AuthService,
+    private readonly usersService: UsersService,
+  ) {}
+
+  @Post('register/options')
+  @ApiBearerAuth()
+  @ApiOperation({ summary: 'Параметры регистрации ключа / passkey' })
+  @ApiResponse({
+    status: 201,
+    description: 'Параметры для navigator.credentials.create()',
+  })
+  async registrationOptions(@CurrentUser() user: any) {
+    return this.webAuthnService.generateRegistrationOptions(user.userId);
+  }
+
+  @Post('register/verify')
+  @ApiBearerAuth()
+  @ApiOperation({ summary: 'Сохранение зарегистрированного ключа' })
+  @ApiResponse({ status: 201, description: 'Ключ зарегистрирован' })
+  @ApiResponse({
+    status: 400,
+    description: 'Ответ аутентификатора не прошёл проверку',
+  })
+  async verifyRegistration(
+    @CurrentUser() user: any,
+    @Body() dto: RegisterWebAuthnCredentialDto,
+  ) {
+    return this.webAuthnService.verifyRegistration(user.userId, dto);
+  }
+
+  @Post('login/options')
+  @Public()
+  @ApiOperation({ summary: 'Параметры входа по passkey без пароля' })
+  @ApiResponse({
+    status: 201,
+    description: 'Параметры для navigator.credentials.get()',
+  })
+  async loginOptions(@Body() dto: WebAuthnLoginOptionsDto) {
+    // Неизвестный email не раскрывается: выдаются параметры без списка ключей
+    const user = dto.email
+      ? await this.usersService.findByEmail(dto.email)
+      : null;
+    return this.webAuthnService.generateAuthenticationOptions(
+      WebAuthnChallengePurpose.LOGIN,
+      user?.id,
+    );
+  }
+
+  @Post('login/verify')
+  @Public()
+  @ApiOperation({ summary: 'Вход по passkey без пароля' })
+  @ApiResponse({ status: 201, description: 'Успешная авторизация' })
+  @ApiResponse({ status: 401, description: 'Подпись не прошла проверку' })
+  async verifyLogin(@Body() dto: WebAuthnLoginVerifyDto, @Req() req: Request) {
+    return this.authService.loginWithPasskey(
+      dto.credential,
+      this.sessionContext(req),
+    );
+  }
+
+  @Post('2fa/options')
+  @Public()
+  @ApiOperation({
+    summary: 'Параметры подтверждения входа ключом (второй фактор)',
+  })
+  @ApiResponse({
+    status: 201,
+    description: 'Параметры для navigator.credentials.get()',
+  })
+  async secondFactorOptions(@Body() dto: WebAuthnSecondFactorOptionsDto) {
+    return this.authService.webAuthnSecondFactorOptions(dto.loginToken);
+  }
+
+  @Post('2fa/verify')
+  @Public()
+  @ApiOperation({ summary: 'Завершение входа с 2FA ключом WebAuthn' })
+  @ApiResponse({ status: 201, description: '2FA успешно пройден' })
+  @ApiResponse({ status: 401, description: 'Подпись не прошла проверку' })
+  async verifySecondFactor(
+    @Body() dto: WebAuthnSecondFactorVerifyDto,
+    @Req() req: Request,
+  ) {
+    return this.authService.completeWebAuthnSecondFactor(
+      dto.loginToken,
+      dto.credential,
+      this.sessionContext(req),
+    );
+  }
+
+  @Get('credentials')
+  @ApiBearerAuth()
+  @ApiOperation({ summary: 'Мои ключи и passkey' })
+  @ApiResponse({ status: 200, description: 'Список ключей' })
+  async findMine(@CurrentUser() user: any) {
+    return this.webAuthnService.findAll(user.userId);
+  }
+
+  @Patch('credentials/:id')
+  @ApiBearerAuth()
+  @ApiOperation({ summary: 'Переименование ключа' })
+  @ApiResponse({ status: 200, description: 'Ключ переименован' })
+  async rename(
+    @CurrentUser() user: any,
+    @Param('id', ParseUUIDPipe) id: string,
+    @Body() dto: RenameWebAuthnCredentialDto,
+  ) {
+    return this.webAuthnService.rename(user.userId, id, dto.name);
+  }
+
+  @Delete('credentials/:id')
+  @ApiBearerAuth()
+  @ApiOperation({ summary: 'Удаление ключа' })
+  @ApiResponse({ status: 200, description: 'Ключ удалён' })
+  async remove(
+    @CurrentUser() user: any,
+    @Param('id', ParseUUIDPipe) id: string,
+  ) {
+    await this.webAuthnService.remove(user.userId, id);
+    return { message: 'Ключ удалён' };
+  }
+
+  private sessionContext(req: Request): SessionContext {
+    return {
+      ipAddress: req.ip,
+      userAgent: req.get('User-Agent'),
+    };
+  }
+}
@@ -0,0 +1,20 @@
+import { SetMetadata } from '@nestjs/common';
+
+export const PERMISSION_SCOPE_KEY = 'permissionScope';
+
+/**
+ * Источник идентификатора контекста в запросе: 'params.id', 'body.organizationId', 'query.teamId'
+ */
+export type PermissionScopeSource = `${'params' | 'body' | 'query'}.${string}`;
+
+export interface PermissionScopeOptions {
+  organization?: PermissionScopeSource;
+  team?: PermissionScopeSource;
+}
+
+/**
+ * Откуда PermissionsGuard берёт организацию и команду для проверки прав.
+ * Без декоратора действуют только глобальные роли
+ */
+export const PermissionScope = (options: PermissionScopeOptions) =>
+  SetMetadata(PERMISSION_SCOPE_KEY, options);
@@ -0,0 +1,98 @@
+import {
+  IsIn,
+  IsOptional,
+  IsString,
+  MaxLength,
+  ValidateNested,
+} from 'class-validator';
+import { Type } from 'class-transformer';
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+
+const FIELD_CHOICES = ['primary', 'secondary', 'manual'] as const;
+const CONTACT_CHOICES = ['primary', 'secondary'] as const;
+const MEMBERSHIP_CHOICES = ['primary', 'secondary', 'merge'] as const;
+
+export class CreateMergeRequestDto {
+  @ApiProperty({
+    description:
+      'Токен владения вторым аккаунтом (POST /auth/merge-requests/proof из его сессии)',
+  })
+  @IsString()
+  proofToken: string;
+}
+
+export class ManualMergeValuesDto {
+  @ApiPropertyOptional()
+  @IsOptional()
+  @IsString()
+  @MaxLength(100)
+  firstName?: string;
+
+  @ApiPropertyOptional()
+  @IsOptional()
+  @IsString()
+  @MaxLength(100)
+  lastName?: string;
+
+  @ApiPropertyOptional()
+  @IsOptional()
+  @IsString()
+  @MaxLength(500)
+  avatarUrl?: string;
+}
+
+export class AcceptMergeRequestDto {
+  @ApiPropertyOptional({ enum: FIELD_CHOICES })
+  @IsOptional()
+  @IsIn(FIELD_CHOICES)
+  firstName?: (typeof FIELD_CHOICES)[number];
+
+  @ApiPropertyOptional({ enum: FIELD_CHOICES })
+  @IsOptional()
+  @IsIn(FIELD_CHOICES)
+  lastName?: (typeof FIELD_CHOICES)[number];
+
+  @ApiPropertyOptional({ enum: FIELD_CHOICES })
+  @IsOptional()
+  @IsIn(FIELD_CHOICES)
+  avatarUrl?: (typeof FIELD_CHOICES)[number];
+
+  @ApiPropertyOptional({
+    enum: CONTACT_CHOICES,
+    description: 'Email берётся только из аккаунта, где он подтверждался',
+  })
+  @IsOptional()
+  @IsIn(CONTACT_CHOICES)
+  email?: (typeof CONTACT_CHOICES)[number];
+
+  @ApiPropertyOptional({ enum: CONTACT_CHOICES })
+  @IsOptional()
+  @IsIn(CONTACT_CHOICES)
+  phone?: (typeof CONTACT_CHOICES)[number];
+
+  @ApiPropertyOptional({ enum: MEMBERSHIP_CHOICES, default: 'merge' })
+  @IsOptional()
+  @IsIn(MEMBERSHIP_CHOICES)
+  organizations?: (typeof MEMBERSHIP_CHOICES)[number];
+
+  @ApiPropertyOptional({ enum: MEMBERSHIP_CHOICES, default: 'merge' })
+  @IsOptional()
+  @IsIn(MEMBERSHIP_CHOICES)
+  teams?: (typeof MEMBERSHIP_CHOICES)[number];
+
+  @ApiPropertyOptional({ enum: MEMBERSHIP_CHOICES, default: 'merge' })
+  @IsOptional()
+  @IsIn(MEMBERSHIP_CHOICES)
+  roles?: (typeof MEMBERSHIP_CHOICES)[number];
+
+  @ApiPropertyOptional({ enum: MEMBERSHIP_CHOICES, default: 'merge' })
+  @IsOptional()
+  @IsIn(MEMBERSHIP_CHOICES)
+  preferences?: (typeof MEMBERSHIP_CHOICES)[number];
+
+  @ApiPropertyOptional({ type: ManualMergeValuesDto })
+  @IsOptional()
+  @ValidateNested()
+  @Type(() => ManualMergeValuesDto)
+  manualValues?: ManualMergeValuesDto;
+}
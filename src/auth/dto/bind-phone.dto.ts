@@ -38,7 +38,4 @@ export class BindPhoneResponseDto {
 
   @ApiProperty({ example: 'SMS с кодом подтверждения отправлено', description: 'Сообщение' })
   message: string;
-
-  @ApiProperty({ example: '123456', description: 'Код подтверждения (только для тестирования)', required: false })
-  verificationCode?: string;
 }
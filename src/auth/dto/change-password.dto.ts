@@ -0,0 +1,31 @@
+import { IsString, MinLength } from 'class-validator';
+import { ApiProperty } from '@nestjs/swagger';
+
+export class ChangePasswordDto {
+  @ApiProperty()
+  @IsString()
+  currentPassword: string;
+
+  @ApiProperty({ description: 'Новый пароль (проверяется политикой паролей)' })
+  @IsString()
+  @MinLength(1)
+  newPassword: string;
+}
+
+export class ForcedPasswordChangeDto {
+  @ApiProperty({ description: 'Токен смены пароля из ответа на вход' })
+  @IsString()
+  passwordChangeToken: string;
+
+  @ApiProperty({ description: 'Новый пароль (проверяется политикой паролей)' })
+  @IsString()
+  @MinLength(1)
+  newPassword: string;
+}
+
+export interface PasswordChangeRequired {
+  requiresPasswordChange: true;
+  message: string;
+  reasons: string[];
+  passwordChangeToken: string;
+}
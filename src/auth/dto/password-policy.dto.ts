@@ -0,0 +1,56 @@
+import { IsBoolean, IsInt, IsOptional, Max, Min } from 'class-validator';
+import { ApiPropertyOptional } from '@nestjs/swagger';
+
+export class UpdatePasswordPolicyDto {
+  @ApiPropertyOptional({ example: 8 })
+  @IsOptional()
+  @IsInt()
+  @Min(1)
+  @Max(128)
+  minLength?: number;
+
+  @ApiPropertyOptional()
+  @IsOptional()
+  @IsBoolean()
+  requireUppercase?: boolean;
+
+  @ApiPropertyOptional()
+  @IsOptional()
+  @IsBoolean()
+  requireLowercase?: boolean;
+
+  @ApiPropertyOptional()
+  @IsOptional()
+  @IsBoolean()
+  requireDigits?: boolean;
+
+  @ApiPropertyOptional()
+  @IsOptional()
+  @IsBoolean()
+  requireSymbols?: boolean;
+
+  @ApiPropertyOptional({
+    example: 5,
+    description:
+      'Сколько последних паролей нельзя повторять (0 - без ограничения)',
+  })
+  @IsOptional()
+  @IsInt()
+  @Min(0)
+  @Max(24)
+  historySize?: number;
+
+  @ApiPropertyOptional({
+    example: 90,
+    description: 'Срок действия пароля в днях (0 - бессрочно)',
+  })
+  @IsOptional()
+  @IsInt()
+  @Min(0)
+  maxAgeDays?: number;
+
+  @ApiPropertyOptional({ description: 'Проверять по списку утёкших паролей' })
+  @IsOptional()
+  @IsBoolean()
+  checkBreached?: boolean;
+}
@@ -0,0 +1,8 @@
+import { IsString } from 'class-validator';
+import { ApiProperty } from '@nestjs/swagger';
+
+export class ReportLoginDto {
+  @ApiProperty({ description: 'Токен из письма о необычном входе' })
+  @IsString()
+  token: string;
+}
@@ -1,14 +1,16 @@
-import { IsEnum, IsString, IsEmail, IsOptional, Matches } from 'class-validator';
+import { IsIn, IsString, IsEmail, IsOptional, Matches } from 'class-validator';
 import { ApiProperty } from '@nestjs/swagger';
 import { TwoFactorType } from '../entities/two-factor-code.entity';
 
 export class SendCodeDto {
   @ApiProperty({
-    enum: TwoFactorType,
-    description: 'Тип двухфакторной аутентификации',
+    enum: [TwoFactorType.EMAIL, TwoFactorType.SMS],
+    description: 'Тип двухфакторной аутентификации (код TOTP не отправляется)',
     example: TwoFactorType.EMAIL,
   })
-  @IsEnum(TwoFactorType, { message: 'Тип должен быть email или sms' })
+  @IsIn([TwoFactorType.EMAIL, TwoFactorType.SMS], {
+    message: 'Тип должен быть email или sms',
+  })
   type: TwoFactorType;
 
   @ApiProperty({
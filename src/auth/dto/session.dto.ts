@@ -0,0 +1,10 @@
+import { IsString, MaxLength, MinLength } from 'class-validator';
+import { ApiProperty } from '@nestjs/swagger';
+
+export class RenameSessionDto {
+  @ApiProperty({ example: 'Рабочий ноутбук' })
+  @IsString()
+  @MinLength(1)
+  @MaxLength(255)
+  deviceName: string;
+}
@@ -48,4 +48,32 @@ export class SmartAuthResponseDto {
 
   @ApiProperty({ required: false })
   missingFields?: string[];
+
+  @ApiProperty({ required: false })
+  passwordViolations?: string[];
+
+  @ApiProperty({ required: false })
+  requiresPasswordChange?: boolean;
+
+  @ApiProperty({ required: false })
+  passwordChangeReasons?: string[];
+
+  @ApiProperty({ required: false, description: 'Токен для POST /auth/password/forced-change' })
+  passwordChangeToken?: string;
+
+  @ApiProperty({
+    required: false,
+    description:
+      'Нужен второй фактор: подтвердите кодом через POST /auth/2fa/complete',
+  })
+  requires2FA?: boolean;
+
+  @ApiProperty({
+    required: false,
+    description: 'Токен для POST /auth/2fa/complete',
+  })
+  loginToken?: string;
+
+  @ApiProperty({ required: false })
+  methods?: string[];
 }
@@ -0,0 +1,22 @@
+import { IsOptional, IsString, IsUUID } from 'class-validator';
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+
+export class SwitchContextDto {
+  @ApiProperty({ description: 'Refresh token текущей сессии' })
+  @IsString()
+  refreshToken: string;
+
+  @ApiPropertyOptional({
+    description: 'Организация; без неё и teamId - контекст по умолчанию',
+  })
+  @IsOptional()
+  @IsUUID()
+  organizationId?: string;
+
+  @ApiPropertyOptional({
+    description: 'Команда; организация берётся из команды',
+  })
+  @IsOptional()
+  @IsUUID()
+  teamId?: string;
+}
@@ -0,0 +1,35 @@
+import { IsEnum, IsOptional, IsString } from 'class-validator';
+import { ApiProperty } from '@nestjs/swagger';
+import { TwoFactorType } from '../entities/two-factor-code.entity';
+
+export class CompleteTwoFactorLoginDto {
+  @ApiProperty({ description: 'loginToken из ответа входа с requires2FA' })
+  @IsString()
+  loginToken: string;
+
+  @ApiProperty({
+    description: 'Код из приложения-аутентификатора, письма или SMS',
+    example: '123456',
+  })
+  @IsString({ message: 'Код должен быть строкой' })
+  code: string;
+
+  @ApiProperty({
+    enum: TwoFactorType,
+    required: false,
+    description: 'Метод второго фактора; по умолчанию сначала TOTP',
+  })
+  @IsOptional()
+  @IsEnum(TwoFactorType)
+  method?: TwoFactorType;
+}
+
+/**
+ * Ответ входа, которому нужен второй фактор: вход завершается с loginToken
+ */
+export interface TwoFactorRequired {
+  requires2FA: true;
+  message: string;
+  loginToken: string;
+  methods: string[];
+}
@@ -0,0 +1,8 @@
+import { IsString } from 'class-validator';
+import { ApiProperty } from '@nestjs/swagger';
+
+export class UnlockAccountDto {
+  @ApiProperty({ description: 'Токен из письма о блокировке' })
+  @IsString()
+  token: string;
+}
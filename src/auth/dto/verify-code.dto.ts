@@ -1,4 +1,4 @@
-import { IsEnum, IsString, Length, IsOptional } from 'class-validator';
+import { IsIn, IsString, Length, IsOptional } from 'class-validator';
 import { ApiProperty } from '@nestjs/swagger';
 import { TwoFactorType } from '../entities/two-factor-code.entity';
 
@@ -21,11 +21,13 @@ export class VerifyCodeDto {
   contact: string;
 
   @ApiProperty({
-    enum: TwoFactorType,
-    description: 'Тип двухфакторной аутентификации',
+    enum: [TwoFactorType.EMAIL, TwoFactorType.SMS],
+    description: 'Тип двухфакторной аутентификации (код TOTP не отправляется)',
     example: TwoFactorType.EMAIL,
   })
-  @IsEnum(TwoFactorType, { message: 'Тип должен быть email или sms' })
+  @IsIn([TwoFactorType.EMAIL, TwoFactorType.SMS], {
+    message: 'Тип должен быть email или sms',
+  })
   type: TwoFactorType;
 
   @ApiProperty({
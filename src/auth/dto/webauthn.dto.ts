@@ -0,0 +1,148 @@
+import {
+  IsArray,
+  IsEmail,
+  IsIn,
+  IsInt,
+  IsObject,
+  IsOptional,
+  IsString,
+  MaxLength,
+  MinLength,
+  ValidateNested,
+} from 'class-validator';
+import { Type } from 'class-transformer';
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+
+/**
+ * Ответ аутентификатора при регистрации (AuthenticatorAttestationResponse.toJSON())
+ */
+export class WebAuthnAttestationResponseDto {
+  @ApiProperty({ description: 'clientDataJSON в base64url' })
+  @IsString()
+  clientDataJSON: string;
+
+  @ApiProperty({ description: 'attestationObject в base64url' })
+  @IsString()
+  attestationObject: string;
+
+  @ApiPropertyOptional({ type: [String], example: ['internal', 'hybrid'] })
+  @IsOptional()
+  @IsArray()
+  @IsString({ each: true })
+  transports?: string[];
+
+  // Поля ниже браузер добавляет в toJSON(); сервер берёт данные из attestationObject
+  @IsOptional()
+  @IsString()
+  authenticatorData?: string;
+
+  @IsOptional()
+  @IsString()
+  publicKey?: string;
+
+  @IsOptional()
+  @IsInt()
+  publicKeyAlgorithm?: number;
+}
+
+/**
+ * Ответ аутентификатора при входе (AuthenticatorAssertionResponse.toJSON())
+ */
+export class WebAuthnAssertionResponseDto {
+  @ApiProperty({ description: 'clientDataJSON в base64url' })
+  @IsString()
+  clientDataJSON: string;
+
+  @ApiProperty({ description: 'authenticatorData в base64url' })
+  @IsString()
+  authenticatorData: string;
+
+  @ApiProperty({ description: 'Подпись в base64url' })
+  @IsString()
+  signature: string;
+
+  @ApiPropertyOptional({ description: 'userHandle в base64url' })
+  @IsOptional()
+  @IsString()
+  userHandle?: string | null;
+}
+
+class WebAuthnCredentialBaseDto {
+  @ApiProperty({ description: 'Идентификатор ключа в base64url' })
+  @IsString()
+  id: string;
+
+  @ApiProperty()
+  @IsString()
+  rawId: string;
+
+  @ApiProperty({ example: 'public-key' })
+  @IsIn(['public-key'])
+  type: 'public-key';
+
+  @ApiPropertyOptional({ example: 'platform' })
+  @IsOptional()
+  @IsString()
+  authenticatorAttachment?: string | null;
+
+  @IsOptional()
+  @IsObject()
+  clientExtensionResults?: Record<string, unknown>;
+}
+
+export class RegisterWebAuthnCredentialDto extends WebAuthnCredentialBaseDto {
+  @ApiProperty({ type: WebAuthnAttestationResponseDto })
+  @ValidateNested()
+  @Type(() => WebAuthnAttestationResponseDto)
+  response: WebAuthnAttestationResponseDto;
+
+  @ApiPropertyOptional({ example: 'YubiKey 5' })
+  @IsOptional()
+  @IsString()
+  @MinLength(1)
+  @MaxLength(255)
+  name?: string;
+}
+
+export class WebAuthnAssertionDto extends WebAuthnCredentialBaseDto {
+  @ApiProperty({ type: WebAuthnAssertionResponseDto })
+  @ValidateNested()
+  @Type(() => WebAuthnAssertionResponseDto)
+  response: WebAuthnAssertionResponseDto;
+}
+
+export class WebAuthnLoginOptionsDto {
+  @ApiPropertyOptional({
+    description: 'Email; без него браузер предложит сохранённые passkey',
+  })
+  @IsOptional()
+  @IsEmail()
+  email?: string;
+}
+
+export class WebAuthnLoginVerifyDto {
+  @ApiProperty({ type: WebAuthnAssertionDto })
+  @ValidateNested()
+  @Type(() => WebAuthnAssertionDto)
+  credential: WebAuthnAssertionDto;
+}
+
+export class WebAuthnSecondFactorOptionsDto {
+  @ApiProperty({ description: 'loginToken из ответа входа с requires2FA' })
+  @IsString()
+  loginToken: string;
+}
+
+export class WebAuthnSecondFactorVerifyDto extends WebAuthnLoginVerifyDto {
+  @ApiProperty({ description: 'loginToken из ответа входа с requires2FA' })
+  @IsString()
+  loginToken: string;
+}
+
+export class RenameWebAuthnCredentialDto {
+  @ApiProperty({ example: 'MacBook Touch ID' })
+  @IsString()
+  @MinLength(1)
+  @MaxLength(255)
+  name: string;
+}
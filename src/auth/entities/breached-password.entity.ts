@@ -0,0 +1,10 @@
+import { Entity, PrimaryColumn } from 'typeorm';
+
+/**
+ * SHA-1 утёкшего пароля из локально импортированного списка (формат Have I Been Pwned)
+ */
+@Entity('breached_passwords')
+export class BreachedPassword {
+  @PrimaryColumn({ type: 'char', length: 40 })
+  sha1: string; // В верхнем регистре
+}
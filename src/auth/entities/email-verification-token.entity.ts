@@ -6,8 +6,8 @@ export class EmailVerificationToken {
   @PrimaryGeneratedColumn('uuid')
   id: string;
 
-  @Column({ type: 'varchar', length: 255, unique: true })
-  token: string;
+  @Column({ type: 'varchar', length: 64, unique: true, select: false })
+  tokenHash: string; // HMAC-SHA256 от токена из ссылки
 
   @Column({ type: 'uuid' })
   userId: string;
@@ -0,0 +1,49 @@
+import {
+  Entity,
+  PrimaryGeneratedColumn,
+  Column,
+  CreateDateColumn,
+  Index,
+} from 'typeorm';
+
+export enum LoginAttemptChannel {
+  PASSWORD = 'password',
+  SMART_AUTH = 'smart_auth',
+  MULTI_AUTH = 'multi_auth',
+  EMAIL_CODE = 'email_code',
+  PHONE_CODE = 'phone_code',
+  TWO_FACTOR = 'two_factor',
+  PASSKEY = 'passkey', // Вход по passkey без пароля
+  OAUTH = 'oauth', // Внешний провайдер (OAuth/OIDC)
+  TELEGRAM = 'telegram', // Telegram Login Widget
+  UNLOCK = 'unlock', // Разблокировка по ссылке из письма или администратором
+}
+
+/**
+ * Попытка входа. Неудачи после последнего успеха/разблокировки считаются для блокировки
+ */
+@Entity('login_attempts')
+@Index(['accountKey', 'createdAt'])
+@Index(['ipAddress', 'createdAt'])
+export class LoginAttempt {
+  @PrimaryGeneratedColumn('uuid')
+  id: string;
+
+  @Column({ type: 'varchar', length: 320 })
+  accountKey: string; // 'email:user@example.com', 'phone:+79990000000', 'user:<uuid>'
+
+  @Column({ type: 'uuid', nullable: true })
+  userId: string | null; // Пусто, если аккаунт не найден
+
+  @Column({ type: 'varchar', length: 50, nullable: true })
+  ipAddress: string | null;
+
+  @Column({ type: 'varchar', length: 20 })
+  channel: LoginAttemptChannel;
+
+  @Column({ type: 'boolean' })
+  success: boolean;
+
+  @CreateDateColumn()
+  createdAt: Date;
+}
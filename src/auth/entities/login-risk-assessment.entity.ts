@@ -0,0 +1,84 @@
+import {
+  Entity,
+  PrimaryGeneratedColumn,
+  Column,
+  CreateDateColumn,
+  ManyToOne,
+  JoinColumn,
+  Index,
+} from 'typeorm';
+import { User } from '../../users/entities/user.entity';
+
+export enum LoginRiskSignal {
+  NEW_DEVICE = 'new_device',
+  NEW_SUBNET = 'new_subnet',
+  UNUSUAL_HOUR = 'unusual_hour',
+  FAILED_VELOCITY = 'failed_velocity', // Серия неудачных попыток пароля или 2FA
+}
+
+export enum LoginRiskDecision {
+  ALLOW = 'allow',
+  CHALLENGE = 'challenge', // Вход подтверждается вторым фактором
+  BLOCK = 'block',
+}
+
+export enum LoginRiskStatus {
+  PENDING = 'pending', // Ждёт второго фактора
+  CONFIRMED = 'confirmed', // Вход состоялся: устройство и подсеть считаются знакомыми
+  BLOCKED = 'blocked',
+  REPORTED = 'reported', // Пользователь сообщил, что это был не он
+}
+
+/**
+ * Оценка риска входа с известным паролем. Подтверждённые входы - история,
+ * с которой сравниваются следующие
+ */
+@Entity('login_risk_assessments')
+@Index(['userId', 'createdAt'])
+export class LoginRiskAssessment {
+  @PrimaryGeneratedColumn('uuid')
+  id: string;
+
+  @Column({ type: 'uuid' })
+  userId: string;
+
+  @Column({ type: 'varchar', length: 20 })
+  channel: string; // LoginAttemptChannel
+
+  @Column({ type: 'varchar', length: 50, nullable: true })
+  ipAddress: string | null;
+
+  @Column({ type: 'varchar', length: 64, nullable: true })
+  subnet: string | null; // '203.0.113.0/24', '2001:db8:1::/48'
+
+  @Column({ type: 'varchar', length: 64, nullable: true })
+  deviceFingerprint: string | null; // HMAC от User-Agent без номеров версий
+
+  @Column({ type: 'varchar', length: 500, nullable: true })
+  userAgent: string | null;
+
+  @Column({ type: 'smallint' })
+  hour: number; // Час входа, UTC
+
+  @Column({ type: 'int', default: 0 })
+  score: number;
+
+  @Column({ type: 'jsonb', default: () => "'[]'" })
+  signals: LoginRiskSignal[];
+
+  @Column({ type: 'varchar', length: 20 })
+  decision: LoginRiskDecision;
+
+  @Column({ type: 'varchar', length: 20 })
+  status: LoginRiskStatus;
+
+  @Column({ type: 'timestamp', nullable: true })
+  resolvedAt: Date | null;
+
+  @CreateDateColumn()
+  createdAt: Date;
+
+  @ManyToOne(() => User, { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'userId' })
+  user: User;
+}
@@ -11,7 +11,6 @@ import {
 import { User } from '../../users/entities/user.entity';
 
 @Entity('password_reset_tokens')
-@Index(['token'])
 @Index(['userId'])
 @Index(['expiresAt'])
 export class PasswordResetToken {
@@ -25,8 +24,8 @@ export class PasswordResetToken {
   @JoinColumn({ name: 'userId' })
   user: User;
 
-  @Column({ type: 'varchar', length: 255, unique: true })
-  token: string;
+  @Column({ type: 'varchar', length: 64, unique: true, select: false })
+  tokenHash: string; // HMAC-SHA256 от токена из ссылки
 
   @Column({ type: 'timestamp' })
   expiresAt: Date;
@@ -11,15 +11,15 @@ import {
 import { User } from '../../users/entities/user.entity';
 
 @Entity('refresh_tokens')
-@Index(['token'])
 @Index(['userId'])
 @Index(['expiresAt'])
+@Index(['familyId'])
 export class RefreshToken {
   @PrimaryGeneratedColumn('uuid')
   id: string;
 
-  @Column({ type: 'varchar', length: 255, unique: true })
-  token: string;
+  @Column({ type: 'varchar', length: 64, unique: true, select: false })
+  tokenHash: string; // HMAC-SHA256 от токена, сам токен не хранится
 
   @Column({ type: 'uuid' })
   userId: string;
@@ -30,6 +30,36 @@ export class RefreshToken {
   @Column({ type: 'boolean', default: false })
   isRevoked: boolean;
 
+  // Все токены, полученные ротацией от одного входа, образуют семейство
+  @Column({ type: 'uuid', default: () => 'gen_random_uuid()' })
+  familyId: string;
+
+  @Column({ type: 'timestamp', nullable: true })
+  usedAt: Date | null; // Момент обмена на новый токен; повторное предъявление = кража
+
+  @Column({ type: 'uuid', nullable: true })
+  replacedById: string | null;
+
+  @Column({ type: 'varchar', length: 50, nullable: true })
+  revokedReason: string | null; // 'logout', 'reuse_detected', 'session_terminated'
+
+  // Данные устройства; при ротации переносятся в новый токен семейства
+  @Column({ type: 'varchar', length: 255, nullable: true })
+  deviceName: string | null; // Имя, заданное пользователем
+
+  @Column({ type: 'varchar', length: 50, nullable: true })
+  ipAddress: string | null;
+
+  @Column({ type: 'varchar', length: 500, nullable: true })
+  userAgent: string | null;
+
+  // Выбранный контекст; null - контекст по умолчанию (первая организация и команда)
+  @Column({ type: 'uuid', nullable: true })
+  organizationId: string | null;
+
+  @Column({ type: 'uuid', nullable: true })
+  teamId: string | null;
+
   @CreateDateColumn()
   createdAt: Date;
 
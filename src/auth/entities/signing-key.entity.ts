@@ -0,0 +1,50 @@
+import {
+  Entity,
+  PrimaryGeneratedColumn,
+  Column,
+  CreateDateColumn,
+  UpdateDateColumn,
+  Index,
+} from 'typeorm';
+
+export type SigningKeyAlgorithm = 'RS256' | 'ES256';
+
+export enum SigningKeyStatus {
+  ACTIVE = 'active', // Текущий ключ подписи
+  RETIRED = 'retired', // Больше не подписывает, но публикуется в JWKS до expiresAt
+}
+
+@Entity('signing_keys')
+@Index(['kid'], { unique: true })
+@Index(['status'])
+export class SigningKey {
+  @PrimaryGeneratedColumn('uuid')
+  id: string;
+
+  @Column({ type: 'varchar', length: 64 })
+  kid: string; // JWK thumbprint (RFC 7638)
+
+  @Column({ type: 'varchar', length: 10 })
+  algorithm: SigningKeyAlgorithm;
+
+  @Column({ type: 'text' })
+  publicKey: string; // PEM (SPKI)
+
+  @Column({ type: 'text', select: false })
+  privateKey: string; // PEM (PKCS#8)
+
+  @Column({ type: 'varchar', length: 20, default: SigningKeyStatus.ACTIVE })
+  status: SigningKeyStatus;
+
+  @Column({ type: 'timestamp', nullable: true })
+  retiredAt: Date | null;
+
+  @Column({ type: 'timestamp', nullable: true })
+  expiresAt: Date | null; // После этого момента ключ удаляется из JWKS
+
+  @CreateDateColumn()
+  createdAt: Date;
+
+  @UpdateDateColumn()
+  updatedAt: Date;
+}
@@ -13,6 +13,7 @@ import { User } from '../../users/entities/user.entity';
 export enum TwoFactorType {
   EMAIL = 'email',
   SMS = 'sms',
+  TOTP = 'totp', // Код из приложения-аутентификатора, не отправляется
 }
 
 export enum TwoFactorStatus {
@@ -24,7 +25,6 @@ export enum TwoFactorStatus {
 
 @Entity('two_factor_codes')
 @Index(['userId', 'type', 'status'])
-@Index(['code', 'status'])
 @Index(['expiresAt'])
 export class TwoFactorCode {
   @PrimaryGeneratedColumn('uuid')
@@ -43,8 +43,8 @@ export class TwoFactorCode {
   })
   type: TwoFactorType;
 
-  @Column({ type: 'varchar', length: 6 })
-  code: string; // 6-значный код
+  @Column({ type: 'varchar', length: 64, select: false })
+  codeHash: string; // HMAC-SHA256 от 6-значного кода
 
   @Column({
     type: 'enum',
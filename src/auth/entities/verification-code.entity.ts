@@ -6,27 +6,36 @@ import {
   Index,
 } from 'typeorm';
 import { AuthMethodType } from '../enums/auth-method-type.enum';
+import type { MessageChannel } from '../../messaging/interfaces/message-provider.interface';
 
 @Entity('verification_codes')
-@Index(['identifier', 'authMethod', 'purpose'])
-@Index(['code', 'isUsed'])
+@Index(['identifier', 'purpose', 'isUsed'])
 @Index(['expiresAt'])
 export class VerificationCode {
   @PrimaryGeneratedColumn('uuid')
   id: string;
 
-  @Column({ type: 'varchar', length: 20 })
-  code: string;
+  @Column({ type: 'varchar', length: 64, select: false })
+  codeHash: string; // HMAC-SHA256 от кода, сам код не хранится
 
   @Column({ type: 'varchar', length: 255 })
   identifier: string; // email, phone, или другой идентификатор
 
-  @Column({ type: 'enum', enum: AuthMethodType })
-  authMethod: AuthMethodType;
+  @Column({ type: 'varchar', length: 50, nullable: true })
+  authMethod: AuthMethodType | null;
+
+  @Column({ type: 'varchar', length: 20, nullable: true })
+  channel: MessageChannel | null; // Канал доставки: sms, whatsapp, telegram, email
+
+  @Column({ type: 'uuid', nullable: true })
+  userId: string | null; // Для кодов, выданных вошедшему пользователю (привязка телефона)
 
   @Column({ type: 'varchar', length: 50 })
   purpose: string; // 'registration', 'login', 'password_reset', 'phone_verification'
 
+  @Column({ type: 'int', default: 0 })
+  attempts: number; // Неверные вводы
+
   @Column({ type: 'boolean', default: false })
   isUsed: boolean;
 
@@ -0,0 +1,41 @@
+import {
+  Entity,
+  PrimaryGeneratedColumn,
+  Column,
+  CreateDateColumn,
+  Index,
+} from 'typeorm';
+
+export enum WebAuthnChallengePurpose {
+  REGISTRATION = 'registration',
+  LOGIN = 'login', // Вход без пароля
+  SECOND_FACTOR = 'second_factor',
+}
+
+/**
+ * Одноразовый challenge церемонии WebAuthn
+ */
+@Entity('webauthn_challenges')
+@Index(['expiresAt'])
+export class WebAuthnChallenge {
+  @PrimaryGeneratedColumn('uuid')
+  id: string;
+
+  @Column({ type: 'varchar', length: 128, unique: true })
+  challenge: string; // base64url
+
+  @Column({ type: 'varchar', length: 20 })
+  purpose: WebAuthnChallengePurpose;
+
+  @Column({ type: 'uuid', nullable: true })
+  userId: string | null; // Пусто для входа с discoverable credential
+
+  @Column({ type: 'uuid', nullable: true })
+  loginId: string | null; // Незавершённый вход (pending_logins), который подтверждает второй фактор
+
+  @Column({ type: 'timestamp' })
+  expiresAt: Date;
+
+  @CreateDateColumn()
+  createdAt: Date;
+}
@@ -0,0 +1,64 @@
+import {
+  Entity,
+  PrimaryGeneratedColumn,
+  Column,
+  CreateDateColumn,
+  ManyToOne,
+  JoinColumn,
+  Index,
+} from 'typeorm';
+import { User } from '../../users/entities/user.entity';
+
+/**
+ * Зарегистрированный ключ WebAuthn (аппаратный ключ или passkey)
+ */
+@Entity('webauthn_credentials')
+@Index(['userId'])
+export class WebAuthnCredential {
+  @PrimaryGeneratedColumn('uuid')
+  id: string;
+
+  @Column({ type: 'uuid' })
+  userId: string;
+
+  @ManyToOne(() => User, { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'userId' })
+  user: User;
+
+  @Column({ type: 'varchar', length: 1024, unique: true })
+  credentialId: string; // base64url
+
+  @Column({ type: 'text' })
+  publicKey: string; // SPKI PEM, полученный из COSE-ключа
+
+  @Column({ type: 'integer' })
+  algorithm: number; // COSE: -7 ES256, -257 RS256, -8 EdDSA
+
+  @Column({
+    type: 'bigint',
+    default: 0,
+    transformer: {
+      to: (value: number) => value,
+      from: (value: string | null) => Number(value ?? 0),
+    },
+  })
+  signCount: number;
+
+  @Column({ type: 'text', array: true, default: '{}' })
+  transports: string[];
+
+  @Column({ type: 'varchar', length: 36, nullable: true })
+  aaguid: string | null;
+
+  @Column({ type: 'varchar', length: 255 })
+  name: string;
+
+  @Column({ type: 'boolean', default: false })
+  backedUp: boolean; // Синхронизируемый passkey (флаг BS)
+
+  @Column({ type: 'timestamp', nullable: true })
+  lastUsedAt: Date | null;
+
+  @CreateDateColumn()
+  createdAt: Date;
+}
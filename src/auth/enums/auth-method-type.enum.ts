@@ -5,6 +5,8 @@ export enum AuthMethodType {
   GOSUSLUGI = 'GOSUSLUGI',
   VKONTAKTE = 'VKONTAKTE',
   GITHUB = 'GITHUB',
+  PASSKEY = 'PASSKEY', // WebAuthn: аппаратный ключ или passkey
+  OAUTH = 'OAUTH', // Внешние OIDC/OAuth2-провайдеры из настроек
 }
 
 export type MessengerType = 'whatsapp' | 'telegram';
@@ -0,0 +1,197 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { getRepositoryToken } from '@nestjs/typeorm';
+import { Reflector } from '@nestjs/core';
+import {
+  ExecutionContext,
+  ForbiddenException,
+  SetMetadata,
+} from '@nestjs/common';
+import { PermissionsGuard } from './permissions.guard';
+import { PermissionScope } from '../decorators/permission-scope.decorator';
+import { ScopedPermissionsService } from '../../rbac/scoped-permissions.service';
+import { AuditService } from '../../audit/audit.service';
+import { UsersController } from '../../users/users.controller';
+import { UserRoleAssignment } from '../../users/entities/user-role-assignment.entity';
+import { OrganizationMembership } from '../../organizations/entities/organization-membership.entity';
+import { TeamMembership } from '../../teams/entities/team-membership.entity';
+import { Team } from '../../teams/entities/team.entity';
+
+const ORGANIZATION_A = 'org-a';
+const ORGANIZATION_B = 'org-b';
+
+// Права super_admin организации: всё, что выдаёт роль создателю организации
+const ORGANIZATION_SUPER_ADMIN = {
+  name: 'super_admin',
+  permissions: [
+    'organizations.update',
+    'users.manage',
+    'users.delete',
+    'roles.manage',
+  ],
+};
+
+describe('PermissionsGuard', () => {
+  let guard: PermissionsGuard;
+
+  // Пользователь создал организацию A и стал её super_admin; глобальных ролей у него нет
+  const mockOrganizationMembershipRepository = {
+    findOne: jest.fn(({ where }: { where: { organizationId: string } }) =>
+      Promise.resolve(
+        where.organizationId === ORGANIZATION_A
+          ? { role: ORGANIZATION_SUPER_ADMIN }
+          : null,
+      ),
+    ),
+    exists: jest.fn(),
+  };
+
+  const mockUserRoleAssignmentRepository = {
+    find: jest.fn().mockResolvedValue([]),
+  };
+
+  const mockAuditService = {
+    record: jest.fn(),
+  };
+
+  const createContext = (
+    handler: object,
+    request: Record<string, unknown>,
+    controller: object = class {},
+  ): ExecutionContext =>
+    ({
+      getHandler: () => handler,
+      getClass: () => controller,
+      switchToHttp: () => ({
+        getRequest: () => ({
+          params: {},
+          headers: {},
+          socket: {},
+          method: 'PATCH',
+          path: '/',
+          get: jest.fn(),
+          ...request,
+        }),
+      }),
+    }) as unknown as ExecutionContext;
+
+  const requiring = (permission: string, ...decorators: ClassDecorator[]) => {
+    const handler = () => undefined;
+    SetMetadata('permissions', [permission])(handler);
+    decorators.forEach((decorator) => decorator(handler));
+    return handler;
+  };
+
+  // Активный контекст токена: переключение контекста или заголовок x-organization-id
+  const organizationAdmin = {
+    userId: 'user-1',
+    roles: ['super_admin'],
+    permissions: ['users.manage', 'roles.manage'],
+    organizationId: ORGANIZATION_A,
+  };
+
+  beforeEach(async () => {
+    jest.clearAllMocks();
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        PermissionsGuard,
+        Reflector,
+        ScopedPermissionsService,
+        {
+          provide: getRepositoryToken(UserRoleAssignment),
+          useValue: mockUserRoleAssignmentRepository,
+        },
+        {
+          provide: getRepositoryToken(OrganizationMembership),
+          useValue: mockOrganizationMembershipRepository,
+        },
+        {
+          provide: getRepositoryToken(TeamMembership),
+          useValue: { findOne: jest.fn(), exists: jest.fn() },
+        },
+        {
+          provide: getRepositoryToken(Team),
+          useValue: { findOne: jest.fn() },
+        },
+        {
+          provide: AuditService,
+          useValue: mockAuditService,
+        },
+      ],
+    }).compile();
+
+    guard = module.get<PermissionsGuard>(PermissionsGuard);
+  });
+
+  it('should not let an organization super_admin delete users through DELETE /users/:id', async () => {
+    const context = createContext(
+      // eslint-disable-next-line @typescript-eslint/unbound-method
+      UsersController.prototype.remove,
+      {
+        method: 'DELETE',
+        path: '/users/victim',
+        params: { id: 'victim' },
+        headers: { 'x-organization-id': ORGANIZATION_A },
+        user: organizationAdmin,
+      },
+      UsersController,
+    );
+
+    await expect(guard.canActivate(context)).rejects.toThrow(
+      ForbiddenException,
+    );
+    expect(mockOrganizationMembershipRepository.findOne).not.toHaveBeenCalled();
+    expect(mockAuditService.record).toHaveBeenCalledWith(
+      expect.anything(),
+      expect.objectContaining({ organizationId: null, teamId: null }),
+    );
+  });
+
+  it('should check a route without @PermissionScope against global roles', async () => {
+    mockUserRoleAssignmentRepository.find.mockResolvedValueOnce([
+      {
+        organizationId: null,
+        teamId: null,
+        role: { name: 'admin', permissions: [{ name: 'users.delete' }] },
+      },
+    ]);
+    const context = createContext(requiring('users.delete'), {
+      user: { userId: 'user-2', roles: [], permissions: [] },
+    });
+
+    await expect(guard.canActivate(context)).resolves.toBe(true);
+  });
+
+  it('should grant organization roles on a route with @PermissionScope', async () => {
+    const handler = requiring(
+      'organizations.update',
+      PermissionScope({ organization: 'params.id' }),
+    );
+
+    await expect(
+      guard.canActivate(
+        createContext(handler, {
+          params: { id: ORGANIZATION_A },
+          user: organizationAdmin,
+        }),
+      ),
+    ).resolves.toBe(true);
+  });
+
+  it('should take the organization from the route, not from the token', async () => {
+    const handler = requiring(
+      'organizations.update',
+      PermissionScope({ organization: 'params.id' }),
+    );
+
+    await expect(
+      guard.canActivate(
+        createContext(handler, {
+          params: { id: ORGANIZATION_B },
+          headers: { 'x-organization-id': ORGANIZATION_A },
+          user: organizationAdmin,
+        }),
+      ),
+    ).rejects.toThrow(ForbiddenException);
+  });
+});
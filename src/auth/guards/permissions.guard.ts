@@ -1,11 +1,40 @@
-import { Injectable, CanActivate, ExecutionContext } from '@nestjs/common';
+import {
+  Injectable,
+  CanActivate,
+  ExecutionContext,
+  ForbiddenException,
+} from '@nestjs/common';
 import { Reflector } from '@nestjs/core';
+import { Request } from 'express';
+import { ScopedPermissionsService } from '../../rbac/scoped-permissions.service';
+import type { PermissionScopeContext } from '../../rbac/scoped-permissions.service';
+import { AuditService } from '../../audit/audit.service';
+import { AuditEvent } from '../../audit/enums/audit-event.enum';
+import {
+  PERMISSION_SCOPE_KEY,
+  PermissionScopeOptions,
+  PermissionScopeSource,
+} from '../decorators/permission-scope.decorator';
 
+interface AuthenticatedRequest extends Request {
+  user?: { userId: string; roles?: string[]; permissions?: string[] };
+}
+
+/**
+ * Проверка прав из @RequirePermissions в контексте организации/команды из @PermissionScope.
+ * Права берутся из БД, а не из JWT: роли организации и команды действуют только на маршрутах
+ * с явным @PermissionScope, остальные маршруты проверяются по глобальным ролям. Активный контекст
+ * токена (переключение, заголовки x-organization-id / x-team-id) на проверку прав не влияет
+ */
 @Injectable()
 export class PermissionsGuard implements CanActivate {
-  constructor(private reflector: Reflector) {}
+  constructor(
+    private reflector: Reflector,
+    private scopedPermissionsService: ScopedPermissionsService,
+    private auditService: AuditService,
+  ) {}
 
-  canActivate(context: ExecutionContext): boolean {
+  async canActivate(context: ExecutionContext): Promise<boolean> {
     const requiredPermissions = this.reflector.getAllAndOverride<string[]>(
       'permissions',
       [context.getHandler(), context.getClass()],
@@ -15,11 +44,95 @@ export class PermissionsGuard implements CanActivate {
       return true; // Нет требований к правам
     }
 
-    const { user } = context.switchToHttp().getRequest();
-    
-    // Проверяем, есть ли хотя бы одно из требуемых прав
-    return requiredPermissions.some(permission =>
-      user.permissions?.includes(permission)
-    );
+    const request = context.switchToHttp().getRequest<AuthenticatedRequest>();
+    const user = request.user;
+    const scopeOptions =
+      this.reflector.getAllAndOverride<PermissionScopeOptions>(
+        PERMISSION_SCOPE_KEY,
+        [context.getHandler(), context.getClass()],
+      ) ?? {};
+    const scope: PermissionScopeContext = {
+      organizationId: this.resolveScopeId(request, scopeOptions.organization),
+      teamId: this.resolveScopeId(request, scopeOptions.team),
+    };
+
+    if (user?.userId) {
+      const permissions =
+        await this.scopedPermissionsService.getEffectivePermissions(
+          user.userId,
+          scope,
+        );
+
+      // Достаточно хотя бы одного из требуемых прав
+      if (
+        requiredPermissions.some((permission) =>
+          this.scopedPermissionsService.isGranted(permissions, permission),
+        )
+      ) {
+        return true;
+      }
+
+      await this.logDenied(request, user, requiredPermissions, scope);
+    }
+
+    throw new ForbiddenException({
+      statusCode: 403,
+      error: 'Forbidden',
+      message: 'Недостаточно прав',
+      requiredPermissions,
+      organizationId: scope.organizationId ?? null,
+      teamId: scope.teamId ?? null,
+    });
+  }
+
+  // Приватные методы
+
+  private resolveScopeId(
+    request: Request,
+    source?: PermissionScopeSource,
+  ): string | null {
+    if (!source) {
+      return null;
+    }
+    const [location, key] = source.split('.') as [
+      'params' | 'body' | 'query',
+      string,
+    ];
+    const value = (request[location] as Record<string, unknown> | undefined)?.[
+      key
+    ];
+    return typeof value === 'string' && value ? value : null;
+  }
+
+  private async logDenied(
+    request: AuthenticatedRequest,
+    user: NonNullable<AuthenticatedRequest['user']>,
+    requiredPermissions: string[],
+    scope: PermissionScopeContext,
+  ): Promise<void> {
+    await this.auditService.record(AuditEvent.PERMISSION_DENIED, {
+      actorId: user.userId,
+      actorRoles: user.roles || [],
+      actorPermissions: user.permissions || [],
+      targetType: 'route',
+      targetId:
+        (request.route as { path?: string } | undefined)?.path ?? request.path,
+      organizationId: scope.organizationId,
+      teamId: scope.teamId,
+      outcome: 'failure',
+      reason: 'Недостаточно прав',
+      details: {
+        method: request.method,
+        url: request.originalUrl,
+        requiredPermissions,
+      },
+      statusCode: 403,
+      context: {
+        ipAddress:
+          (request.headers['x-forwarded-for'] as string)?.split(',')[0] ||
+          request.socket.remoteAddress,
+        userAgent: request.get('User-Agent'),
+      },
+    });
   }
 }
@@ -5,6 +5,8 @@ export interface JwtPayload {
   teamId?: string | null;          // ID команды (может быть null)
   roles: string[];          // ['admin', 'manager']
   permissions: string[];    // ['users.create', 'knowledge.read']
+  sid?: string;             // ID сессии (семейства refresh token)
+  aud?: string;             // Есть только у токенов OIDC для сторонних приложений
   iat?: number;             // issued at (timestamp)
   exp?: number;             // expires at (timestamp)
 }
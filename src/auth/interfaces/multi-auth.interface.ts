@@ -163,7 +163,6 @@ export interface AuthResult {
   accessToken?: string;
   refreshToken?: string;
   requiresVerification?: boolean;
-  verificationCode?: string;
   requiresMerge?: boolean;
   mergeRequestId?: string;
   conflicts?: MergeConflicts;
@@ -175,6 +174,7 @@ export interface PhoneVerificationResult {
   code?: string;
   expiresAt?: Date;
   error?: string;
+  messageId?: string; // Сообщение в очереди доставки (статус - GET /api/messaging/messages/:id)
 }
 
 export interface OAuthCallbackResult {
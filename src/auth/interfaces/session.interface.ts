@@ -0,0 +1,21 @@
+/**
+ * Данные устройства, с которого выполняется вход или обновление токена
+ */
+export interface SessionContext {
+  ipAddress?: string;
+  userAgent?: string;
+}
+
+/**
+ * Активная сессия (семейство refresh token) для отображения пользователю
+ */
+export interface SessionInfo {
+  id: string; // familyId
+  deviceName: string;
+  userAgent: string | null;
+  ipAddress: string | null;
+  createdAt: Date; // Первый вход
+  lastActivityAt: Date; // Последнее обновление токена
+  expiresAt: Date;
+  current: boolean;
+}
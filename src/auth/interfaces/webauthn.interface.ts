@@ -0,0 +1,37 @@
+/**
+ * Описание ключа в списках allowCredentials / excludeCredentials
+ */
+export interface WebAuthnCredentialDescriptor {
+  type: 'public-key';
+  id: string; // base64url
+  transports?: string[];
+}
+
+/**
+ * Параметры navigator.credentials.create() (PublicKeyCredentialCreationOptionsJSON)
+ */
+export interface WebAuthnRegistrationOptions {
+  challenge: string;
+  rp: { id: string; name: string };
+  user: { id: string; name: string; displayName: string };
+  pubKeyCredParams: { type: 'public-key'; alg: number }[];
+  timeout: number;
+  attestation: 'none';
+  excludeCredentials: WebAuthnCredentialDescriptor[];
+  authenticatorSelection: {
+    residentKey: 'required' | 'preferred' | 'discouraged';
+    requireResidentKey: boolean;
+    userVerification: 'required' | 'preferred' | 'discouraged';
+  };
+}
+
+/**
+ * Параметры navigator.credentials.get() (PublicKeyCredentialRequestOptionsJSON)
+ */
+export interface WebAuthnAuthenticationOptions {
+  challenge: string;
+  rpId: string;
+  timeout: number;
+  userVerification: 'required' | 'preferred' | 'discouraged';
+  allowCredentials: WebAuthnCredentialDescriptor[];
+}
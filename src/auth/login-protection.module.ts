@@ -0,0 +1,19 @@
+import { Global, Module } from '@nestjs/common';
+import { TypeOrmModule } from '@nestjs/typeorm';
+import { LoginAttempt } from './entities/login-attempt.entity';
+import { User } from '../users/entities/user.entity';
+import { LoginProtectionService } from './services/login-protection.service';
+import { LoginProtectionController } from './controllers/login-protection.controller';
+import { EmailService } from './email.service';
+
+/**
+ * Защита от подбора доступна всем модулям с точками входа (пароль, коды, 2FA)
+ */
+@Global()
+@Module({
+  imports: [TypeOrmModule.forFeature([LoginAttempt, User])],
+  controllers: [LoginProtectionController],
+  providers: [LoginProtectionService, EmailService],
+  exports: [LoginProtectionService],
+})
+export class LoginProtectionModule {}
@@ -1,4 +1,5 @@
-import { Controller, Post, Body, UseGuards } from '@nestjs/common';
+import { Controller, Post, Body, UseGuards, Req } from '@nestjs/common';
+import type { Request } from 'express';
 import { ApiTags, ApiOperation, ApiResponse, ApiBearerAuth } from '@nestjs/swagger';
 import { EmailAuthService } from './email-auth.service';
 import { LoginEmailDto } from './dto/login-email.dto';
@@ -15,8 +16,11 @@ export class EmailAuthController {
   @ApiOperation({ summary: 'Вход по email и паролю' })
   @ApiResponse({ status: 200, description: 'Успешная авторизация' })
   @ApiResponse({ status: 401, description: 'Неверные credentials' })
-  async login(@Body() dto: LoginEmailDto) {
-    return this.emailAuthService.login(dto);
+  async login(@Body() dto: LoginEmailDto, @Req() req: Request) {
+    return this.emailAuthService.login(dto, {
+      ipAddress: req.ip,
+      userAgent: req.get('User-Agent'),
+    });
   }
 
   @Post('register')
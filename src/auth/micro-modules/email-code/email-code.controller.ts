@@ -1,4 +1,5 @@
-import { Controller, Post, Body } from '@nestjs/common';
+import { Controller, Post, Body, Req } from '@nestjs/common';
+import type { Request } from 'express';
 import { EmailCodeService } from './email-code.service';
 import { ApiTags, ApiOperation, ApiResponse } from '@nestjs/swagger';
 import { Public } from '../../decorators/public.decorator';
@@ -27,11 +28,19 @@ export class EmailCodeController {
   @ApiResponse({ status: 200, description: 'Успешный вход' })
   @ApiResponse({ status: 400, description: 'Неверный код' })
   @ApiResponse({ status: 404, description: 'Пользователь не найден' })
-  async loginWithCode(@Body('code') code: string) {
-    if (!code) {
-      throw new Error('Код обязателен');
+  @ApiResponse({ status: 429, description: 'Слишком много неудачных попыток' })
+  async loginWithCode(
+    @Body('email') email: string,
+    @Body('code') code: string,
+    @Req() req: Request,
+  ) {
+    if (!email || !code) {
+      throw new Error('Email и код обязательны');
     }
 
-    return this.emailCodeService.loginWithCode(code);
+    return this.emailCodeService.loginWithCode(email, code, {
+      ipAddress: req.ip,
+      userAgent: req.get('User-Agent'),
+    });
   }
 }
@@ -1,17 +1,15 @@
-import { Module } from '@nestjs/common';
+import { Module, forwardRef } from '@nestjs/common';
 import { TypeOrmModule } from '@nestjs/typeorm';
 import { EmailCodeController } from './email-code.controller';
 import { EmailCodeService } from './email-code.service';
 import { User } from '../../../users/entities/user.entity';
 import { EmailService } from '../../email.service';
-import { JwtModule } from '@nestjs/jwt';
-import { ConfigModule } from '@nestjs/config';
+import { AuthModule } from '../../auth.module';
 
 @Module({
   imports: [
     TypeOrmModule.forFeature([User]),
-    JwtModule,
-    ConfigModule,
+    forwardRef(() => AuthModule),
   ],
   controllers: [EmailCodeController],
   providers: [EmailCodeService, EmailService],
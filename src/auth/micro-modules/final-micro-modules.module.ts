@@ -1,6 +1,5 @@
-import { Module, DynamicModule } from '@nestjs/common';
+import { Module, DynamicModule, forwardRef } from '@nestjs/common';
 import { TypeOrmModule } from '@nestjs/typeorm';
-import { JwtModule } from '@nestjs/jwt';
 import { MicroModuleManagerService } from './manager/micro-module-manager.service';
 import { MicroModuleManagerController } from './manager/micro-module-manager.controller';
 
@@ -27,6 +26,9 @@ import { SmsService } from '../sms.service';
 // Invitations Module
 import { InvitationsModule } from './invitations/invitations.module';
 
+// Вход по коду выдаёт токены через AuthService
+import { AuthModule } from '../auth.module';
+
 // Entities
 import { User } from '../../users/entities/user.entity';
 import { Role } from '../../rbac/entities/role.entity';
@@ -36,11 +38,8 @@ import { RefreshToken } from '../entities/refresh-token.entity';
 @Module({
   imports: [
     TypeOrmModule.forFeature([User, Role, TwoFactorCode, RefreshToken]),
-    JwtModule.register({
-      secret: process.env.JWT_SECRET || 'default-secret',
-      signOptions: { expiresIn: '15m' },
-    }),
     InvitationsModule,
+    forwardRef(() => AuthModule),
   ],
   providers: [
     MicroModuleManagerService,
@@ -77,11 +76,8 @@ export class FinalMicroModulesModule {
       module: FinalMicroModulesModule,
       imports: [
         TypeOrmModule.forFeature([User, Role, TwoFactorCode, RefreshToken]),
-        JwtModule.register({
-          secret: process.env.JWT_SECRET || 'default-secret',
-          signOptions: { expiresIn: '15m' },
-        }),
         InvitationsModule,
+        forwardRef(() => AuthModule),
       ],
       providers: [
         MicroModuleManagerService,
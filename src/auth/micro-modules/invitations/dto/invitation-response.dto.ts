@@ -29,8 +29,8 @@ export class InvitationResponseDto {
   @ApiProperty({ required: false })
   acceptedById?: string | null;
 
-  @ApiProperty()
-  token: string;
+  @ApiProperty({ required: false, description: 'Только в ответе на создание: в БД хранится хеш' })
+  token?: string;
 
   @ApiProperty({ required: false })
   expiresAt?: Date;
@@ -44,6 +44,6 @@ export class InvitationResponseDto {
   @ApiProperty()
   updatedAt: Date;
 
-  @ApiProperty()
-  invitationLink: string;
+  @ApiProperty({ required: false, description: 'Только в ответе на создание' })
+  invitationLink?: string;
 }
\ No newline at end of file
@@ -45,8 +45,8 @@ export class Invitation {
   @Column({ type: 'uuid', nullable: true })
   acceptedById?: string;
 
-  @Column({ nullable: true })
-  token: string;
+  @Column({ type: 'varchar', length: 64, nullable: true, unique: true, select: false })
+  tokenHash: string | null; // HMAC-SHA256 от токена; сам токен только в ответе на создание
 
   @Column({ type: 'timestamp', nullable: false, name: 'expires_at' })
   expiresAt: Date;
@@ -16,11 +16,18 @@ import { CreateInvitationDto } from './dto/create-invitation.dto';
 import { AcceptInvitationDto } from './dto/accept-invitation.dto';
 import { InvitationResponseDto } from './dto/invitation-response.dto';
 import { EmailService } from '../../email.service';
+import { EmailTemplateKey } from '../../../email-templates/enums/email-template-key.enum';
 import { UsersService } from '../../../users/users.service';
 import { RbacService } from '../../../rbac/rbac.service';
 // import { UserRoleAssignmentService } from '../../../users/user-role-assignment.service';
 import { NotificationsService } from '../../../notifications/notifications.service';
 import { NotificationType } from '../../../notifications/entities/notification.entity';
+import { PasswordPolicyService } from '../../services/password-policy.service';
+import { WebhooksService } from '../../../webhooks/webhooks.service';
+import { WebhookEvent } from '../../../webhooks/enums/webhook-event.enum';
+import { SecretHashService } from '../../services/secret-hash.service';
+import { AuditService } from '../../../audit/audit.service';
+import { AuditEvent } from '../../../audit/enums/audit-event.enum';
 import * as crypto from 'crypto';
 
 @Injectable()
@@ -52,6 +59,10 @@ export class InvitationsService {
     private rbacService: RbacService,
     // private userRoleAssignmentService: UserRoleAssignmentService,
     private notificationsService: NotificationsService,
+    private passwordPolicyService: PasswordPolicyService,
+    private webhooksService: WebhooksService,
+    private secretHashService: SecretHashService,
+    private auditService: AuditService,
   ) {}
 
   /**
@@ -128,12 +139,17 @@ export class InvitationsService {
         teamId: dto.teamId,
         role: roleId || undefined,
         invitedById,
-        token,
+        tokenHash: this.secretHashService.hash(token),
         expiresAt,
         status: InvitationStatus.PENDING,
       });
 
       await this.invitationsRepo.save(invitation);
+      await this.recordInvitationEvent(
+        AuditEvent.INVITATION_CREATED,
+        invitation,
+        invitedById,
+      );
 
       // Отправляем уведомление существующему пользователю (если таблица существует)
       try {
@@ -172,7 +188,7 @@ export class InvitationsService {
         role: invitation.role,
         invitedById: invitation.invitedById,
         acceptedById: invitation.acceptedById,
-        token: invitation.token,
+        token,
         expiresAt: invitation.expiresAt,
         acceptedAt: invitation.acceptedAt,
         createdAt: invitation.createdAt,
@@ -209,12 +225,17 @@ export class InvitationsService {
       teamId: dto.teamId,
       role: roleId || undefined,
       invitedById,
-      token,
+      tokenHash: this.secretHashService.hash(token),
       expiresAt,
       status: InvitationStatus.PENDING,
     });
 
     await this.invitationsRepo.save(invitation);
+    await this.recordInvitationEvent(
+      AuditEvent.INVITATION_CREATED,
+      invitation,
+      invitedById,
+    );
 
     console.log('🔍 Invitation saved, about to send email...');
     
@@ -241,7 +262,7 @@ export class InvitationsService {
       role: invitation.role,
       invitedById: invitation.invitedById,
       acceptedById: invitation.acceptedById,
-      token: invitation.token,
+      token,
       expiresAt: invitation.expiresAt,
       acceptedAt: invitation.acceptedAt,
       createdAt: invitation.createdAt,
@@ -259,10 +280,10 @@ export class InvitationsService {
     redirectTo?: string;
     message?: string;
   }> {
-    console.log(`🔍 Starting invitation acceptance for token: ${dto.token}`);
+    console.log('🔍 Starting invitation acceptance');
     
     const invitation = await this.invitationsRepo.findOne({
-      where: { token: dto.token },
+      where: { tokenHash: this.secretHashService.hash(dto.token) },
       relations: ['invitedBy'],
     });
     
@@ -284,13 +305,28 @@ export class InvitationsService {
 
     // Проверяем, существует ли пользователь
     let user = await this.usersService.findByEmail(invitation.email);
+    const createdUser = !user;
+    let joinedOrganization = false;
+    let joinedTeam = false;
     
     if (!user) {
+      // Пароль нового пользователя проверяется политикой организации приглашения
+      let passwordHash: string | null = null;
+      if (dto.password) {
+        await this.passwordPolicyService.assertValid(dto.password, {
+          organizationId: await this.getInvitationOrganizationId(invitation),
+        });
+        passwordHash = await this.hashPassword(dto.password);
+      }
+
       // Создаем пользователя, если его нет
       user = await this.usersService.create({
         email: invitation.email,
-        passwordHash: dto.password ? await this.hashPassword(dto.password) : null,
+        passwordHash,
       });
+      if (passwordHash) {
+        await this.passwordPolicyService.recordPasswordChange(user.id, passwordHash);
+      }
       console.log(`✅ Создан новый пользователь ${user.email}`);
     } else {
       console.log(`ℹ️ Пользователь ${user.email} уже существует`);
@@ -330,6 +366,7 @@ export class InvitationsService {
             joinedAt: new Date()
           });
           await this.orgMembershipRepo.save(orgMembership);
+          joinedOrganization = true;
           console.log(`✅ User ${user.email} added to organization ${invitation.organizationId} with role ${roleId}`);
         } else {
           console.log(`⚠️ No role found for organization ${invitation.organizationId}`);
@@ -394,6 +431,7 @@ export class InvitationsService {
             joinedAt: new Date()
           });
           await this.teamMembershipRepo.save(teamMembership);
+          joinedTeam = true;
           console.log(`✅ User ${user.email} added to team ${invitation.teamId} with role ${roleId}`);
         } else {
           console.log(`⚠️ No role found for team ${invitation.teamId}`);
@@ -503,6 +541,17 @@ export class InvitationsService {
 
     console.log(`✅ Пользователь ${user.email} принял приглашение от ${invitation.invitedBy.email}`);
 
+    await this.recordInvitationEvent(
+      AuditEvent.INVITATION_ACCEPTED,
+      invitation,
+      user.id,
+    );
+    await this.emitAcceptedWebhooks(invitation, user.id, {
+      createdUser,
+      joinedOrganization,
+      joinedTeam,
+    });
+
     const frontendUrl = this.configService.get<string>('FRONTEND_URL');
     
     return { 
@@ -533,8 +582,6 @@ export class InvitationsService {
       .orderBy('invitation.createdAt', 'DESC')
       .getMany();
 
-    const frontendUrl = this.configService.get<string>('FRONTEND_URL');
-
     return invitations.map(invitation => ({
       id: invitation.id,
       email: invitation.email,
@@ -545,12 +592,10 @@ export class InvitationsService {
       role: invitation.role,
       invitedById: invitation.invitedById,
       acceptedById: invitation.acceptedById,
-      token: invitation.token,
       expiresAt: invitation.expiresAt,
       acceptedAt: invitation.acceptedAt,
       createdAt: invitation.createdAt,
       updatedAt: invitation.updatedAt,
-      invitationLink: `${frontendUrl}/dashboard?invitation=${invitation.token}`,
       // Добавляем данные о команде/организации и приглашающем
       targetName: invitation.type === 'team' ? invitation.team?.name : invitation.organization?.name,
       roleName: (invitation.role as any)?.name || invitation.role || 'Не указано',
@@ -605,6 +650,14 @@ export class InvitationsService {
       }
     }
 
+    // Запись делается до удаления: после remove у сущности нет id
+    await this.recordInvitationEvent(
+      AuditEvent.INVITATION_CANCELLED,
+      invitation,
+      userId,
+      { status: invitation.status },
+    );
+
     // Удаляем приглашение из базы данных
     await this.invitationsRepo.remove(invitation);
   }
@@ -645,8 +698,6 @@ export class InvitationsService {
     `, [userId]);
     console.log('🔍 getSentInvitations result:', invitations.length);
 
-    const frontendUrl = this.configService.get<string>('FRONTEND_URL');
-
     return invitations.map((invitation: any) => ({
       id: invitation.id,
       email: invitation.email,
@@ -657,12 +708,10 @@ export class InvitationsService {
       role: invitation.role,
       invitedById: invitation.invitedById,
       acceptedById: invitation.acceptedById,
-      token: invitation.token,
       expiresAt: invitation.expires_at,
       acceptedAt: invitation.accepted_at,
       createdAt: invitation.created_at,
       updatedAt: invitation.updated_at,
-      invitationLink: `${frontendUrl}/dashboard?invitation=${invitation.token}`,
       // Добавляем данные о команде/организации и приглашающем из raw SQL
       targetName: invitation.type === 'team' ? invitation.team_name : invitation.organization_name,
       roleName: invitation.role_name || 'Не указано',
@@ -774,15 +823,12 @@ export class InvitationsService {
     const loginUrl = `${frontendUrl}`;
 
     // Получаем информацию об организации/команде
-    let invitationTarget = '';
     let organizationName = '';
     let teamName = '';
     
     if (fullInvitation.type === InvitationType.ORGANIZATION && fullInvitation.organization) {
-      invitationTarget = `организацию "${fullInvitation.organization.name}"`;
       organizationName = fullInvitation.organization.name;
     } else if (fullInvitation.type === InvitationType.TEAM && fullInvitation.team) {
-      invitationTarget = `команду "${fullInvitation.team.name}"`;
       teamName = fullInvitation.team.name;
       // Если команда принадлежит организации, получаем название организации
       if (fullInvitation.team.organization) {
@@ -790,91 +836,22 @@ export class InvitationsService {
       }
     }
 
-    const subject = `Приглашение в ${invitationTarget} - Loginus`;
-    const html = `
-      <div style="font-family: Arial, sans-serif; max-width: 600px; margin: 0 auto; padding: 20px;">
-        <div style="text-align: center; margin-bottom: 30px;">
-          <h1 style="color: #667eea; margin: 0;">Loginus</h1>
-          <p style="color: #64748b; margin: 5px 0;">Система управления базой знаний</p>
-        </div>
-        
-        <div style="background: #f8fafc; padding: 25px; border-radius: 12px; margin: 20px 0;">
-          <h2 style="color: #1e293b; margin-top: 0;">🎉 Вас пригласили!</h2>
-          <p style="color: #475569; font-size: 16px; line-height: 1.6;">
-            Привет!
-          </p>
-          <p style="color: #475569; font-size: 16px; line-height: 1.6;">
-            <strong>${inviterName}</strong> пригласил вас присоединиться к ${invitationTarget} в системе Loginus.
-          </p>
-          
-          <div style="background: #e2e8f0; padding: 15px; border-radius: 8px; margin: 20px 0;">
-            <p style="color: #1e293b; font-weight: 600; margin: 0 0 10px 0;">Детали приглашения:</p>
-            <ul style="color: #475569; margin: 0; padding-left: 20px;">
-              <li><strong>Приглашающий:</strong> ${inviterName}</li>
-              ${organizationName ? `<li><strong>Организация:</strong> ${organizationName}</li>` : ''}
-              ${teamName ? `<li><strong>Команда:</strong> ${teamName}</li>` : ''}
-              <li><strong>Email приглашающего:</strong> ${inviterEmail}</li>
-            </ul>
-          </div>
-        </div>
-
-        <div style="text-align: center; margin: 30px 0;">
-          <a href="${loginUrl}" 
-             style="background: linear-gradient(135deg, #667eea 0%, #764ba2 100%); 
-                    color: white; 
-                    padding: 15px 30px; 
-                    text-decoration: none; 
-                    border-radius: 8px; 
-                    font-weight: 600; 
-                    font-size: 16px; 
-                    display: inline-block;
-                    box-shadow: 0 4px 15px rgba(102, 126, 234, 0.3);">
-            Войти в систему
-          </a>
-        </div>
-        
-        <div style="background: #fef3c7; padding: 15px; border-radius: 8px; margin: 20px 0; border-left: 4px solid #f59e0b;">
-          <p style="color: #92400e; margin: 0; font-size: 14px;">
-            <strong>💡 Важно:</strong> Ссылка ведет на главную страницу входа в систему. После входа вы сможете принять или отклонить приглашение в разделе уведомлений.
-          </p>
-        </div>
-
-        <div style="background: #f1f5f9; padding: 20px; border-radius: 8px; margin: 20px 0;">
-          <h3 style="color: #1e293b; margin-top: 0; font-size: 18px;">📋 Что дальше?</h3>
-          <ul style="color: #475569; line-height: 1.6; margin: 0; padding-left: 20px;">
-            <li><strong>Если у вас уже есть аккаунт:</strong> Вы будете перенаправлены в раздел "Приглашения"</li>
-            <li><strong>Если у вас нет аккаунта:</strong> Вы перейдете на страницу регистрации, а после регистрации автоматически попадете в раздел "Приглашения"</li>
-          </ul>
-        </div>
-
-        <div style="border-top: 1px solid #e2e8f0; padding-top: 20px; margin-top: 30px;">
-          <p style="color: #64748b; font-size: 14px; margin: 5px 0;">
-            <strong>⏰ Срок действия:</strong> до ${fullInvitation.expiresAt?.toLocaleDateString('ru-RU', { 
-              year: 'numeric', 
-              month: 'long', 
-              day: 'numeric',
-              hour: '2-digit',
-              minute: '2-digit'
-            })}
-          </p>
-          <p style="color: #64748b; font-size: 14px; margin: 5px 0;">
-            <strong>🔗 Прямая ссылка:</strong> <a href="${loginUrl}" style="color: #667eea;">${loginUrl}</a>
-          </p>
-        </div>
-
-        <div style="text-align: center; margin-top: 30px; padding-top: 20px; border-top: 1px solid #e2e8f0;">
-          <p style="color: #94a3b8; font-size: 12px; margin: 0;">
-            Если вы не ожидали это приглашение, просто проигнорируйте это письмо.
-          </p>
-        </div>
-      </div>
-    `;
-
-    await this.emailService.sendEmail({
-      to: fullInvitation.email,
-      subject,
-      html,
-    });
+    await this.emailService.sendTemplate(
+      fullInvitation.email,
+      EmailTemplateKey.INVITATION,
+      {
+        inviterName,
+        inviterEmail,
+        organizationName,
+        teamName,
+        loginUrl,
+        expiresAt: fullInvitation.expiresAt,
+      },
+      {
+        organizationId:
+          fullInvitation.organizationId ?? fullInvitation.team?.organizationId ?? null,
+      },
+    );
   }
 
   /**
@@ -887,7 +864,7 @@ export class InvitationsService {
     message: string;
   }> {
     const invitation = await this.invitationsRepo.findOne({
-      where: { token },
+      where: { tokenHash: this.secretHashService.hash(token) },
       relations: ['organization', 'team', 'invitedBy'],
     });
 
@@ -1017,12 +994,17 @@ export class InvitationsService {
       teamId: dto.teamId,
       role: roleId || undefined,
       invitedById,
-      token,
+      tokenHash: this.secretHashService.hash(token),
       expiresAt,
       status: InvitationStatus.PENDING,
     });
 
     await this.invitationsRepo.save(invitation);
+    await this.recordInvitationEvent(
+      AuditEvent.INVITATION_CREATED,
+      invitation,
+      invitedById,
+    );
 
     // Уведомления для существующих пользователей создаются в createInternalInvitation
 
@@ -1040,7 +1022,7 @@ export class InvitationsService {
       role: invitation.role,
       invitedById: invitation.invitedById,
       acceptedById: invitation.acceptedById,
-      token: invitation.token,
+      token,
       expiresAt: invitation.expiresAt,
       acceptedAt: invitation.acceptedAt,
       createdAt: invitation.createdAt,
@@ -1068,8 +1050,6 @@ export class InvitationsService {
       order: { createdAt: 'DESC' },
     });
 
-    const frontendUrl = this.configService.get<string>('FRONTEND_URL');
-
     return invitations.map(invitation => ({
       id: invitation.id,
       email: invitation.email,
@@ -1080,15 +1060,101 @@ export class InvitationsService {
       role: invitation.role,
       invitedById: invitation.invitedById,
       acceptedById: invitation.acceptedById,
-      token: invitation.token,
       expiresAt: invitation.expiresAt,
       acceptedAt: invitation.acceptedAt,
       createdAt: invitation.createdAt,
       updatedAt: invitation.updatedAt,
-      invitationLink: `${frontendUrl}/invitation?token=${invitation.token}`,
     }));
   }
 
+  /**
+   * Вебхуки принятого приглашения: регистрация, вступление в организацию/команду, принятие
+   */
+  private async emitAcceptedWebhooks(
+    invitation: Invitation,
+    userId: string,
+    changes: { createdUser: boolean; joinedOrganization: boolean; joinedTeam: boolean },
+  ): Promise<void> {
+    const organizationId = await this.getInvitationOrganizationId(invitation);
+
+    if (changes.createdUser) {
+      await this.webhooksService.emitForUser(WebhookEvent.USER_REGISTERED, userId, {
+        source: 'invitation',
+      });
+    }
+    if (changes.joinedOrganization) {
+      await this.webhooksService.emitForUser(
+        WebhookEvent.ORGANIZATION_MEMBER_ADDED,
+        userId,
+        { organizationId, invitedBy: invitation.invitedById },
+        [organizationId],
+      );
+    }
+    if (changes.joinedTeam) {
+      await this.webhooksService.emitForUser(
+        WebhookEvent.TEAM_MEMBER_ADDED,
+        userId,
+        { organizationId, teamId: invitation.teamId, invitedBy: invitation.invitedById },
+        [organizationId],
+      );
+    }
+    await this.webhooksService.emitForUser(
+      WebhookEvent.INVITATION_ACCEPTED,
+      userId,
+      {
+        invitationId: invitation.id,
+        type: invitation.type,
+        organizationId,
+        teamId: invitation.teamId,
+        invitedBy: invitation.invitedById,
+      },
+      [organizationId],
+    );
+  }
+
+  /**
+   * Организация приглашения (для командного - организация команды)
+   */
+  private async getInvitationOrganizationId(invitation: Invitation): Promise<string | null> {
+    if (invitation.organizationId) {
+      return invitation.organizationId;
+    }
+    if (!invitation.teamId) {
+      return null;
+    }
+    const team = await this.teamsRepo.findOne({
+      where: { id: invitation.teamId },
+      select: ['id', 'organizationId'],
+    });
+    return team?.organizationId ?? null;
+  }
+
+  /**
+   * Событие аудита по приглашению в журнал его организации. Email приглашённого не записывается
+   */
+  private async recordInvitationEvent(
+    event: AuditEvent,
+    invitation: Invitation,
+    actorId: string,
+    // Состояние до удаления: у отменённого приглашения нет состояния после
+    before?: Record<string, unknown>,
+  ): Promise<void> {
+    await this.auditService.record(event, {
+      actorId,
+      targetType: 'invitation',
+      targetId: invitation.id,
+      organizationId: await this.getInvitationOrganizationId(invitation),
+      teamId: invitation.teamId ?? null,
+      before,
+      after: before ? null : { status: invitation.status },
+      details: {
+        type: invitation.type,
+        role: invitation.role ?? null,
+        invitedBy: invitation.invitedById,
+      },
+    });
+  }
+
   /**
    * Хеширование пароля
    */
@@ -1140,6 +1206,8 @@ export class InvitationsService {
     }
 
     console.log(`👤 Найден пользователь: ${user.email}`);
+    let joinedOrganization = false;
+    let joinedTeam = false;
 
     // Используем новую систему memberships
     if (invitation.organizationId) {
@@ -1185,6 +1253,7 @@ export class InvitationsService {
           invitedBy: invitation.invitedById,
         });
         await this.orgMembershipRepo.save(orgMembership);
+        joinedOrganization = true;
         console.log(`✅ Пользователь добавлен в организацию с ролью ${roleId}`);
       } else {
         console.log(`❌ Не удалось найти подходящую роль для организации`);
@@ -1234,6 +1303,7 @@ export class InvitationsService {
           invitedBy: invitation.invitedById,
         });
         await this.teamMembershipRepo.save(teamMembership);
+        joinedTeam = true;
         console.log(`✅ Пользователь добавлен в команду с ролью ${roleId}`);
       } else {
         console.log(`❌ Не удалось найти подходящую роль для команды`);
@@ -1275,6 +1345,17 @@ export class InvitationsService {
 
     console.log(`✅ Пользователь ${user.email} принял приглашение от ${invitation.invitedBy.email}`);
 
+    await this.recordInvitationEvent(
+      AuditEvent.INVITATION_ACCEPTED,
+      invitation,
+      user.id,
+    );
+    await this.emitAcceptedWebhooks(invitation, user.id, {
+      createdUser: false,
+      joinedOrganization,
+      joinedTeam,
+    });
+
     return { 
       success: true, 
       message: `Вы успешно присоединились к ${invitation.type === InvitationType.TEAM ? 'команде' : 'организации'}` 
@@ -1309,6 +1390,11 @@ export class InvitationsService {
     invitation.acceptedById = userId;
     invitation.acceptedAt = new Date();
     await this.invitationsRepo.save(invitation);
+    await this.recordInvitationEvent(
+      AuditEvent.INVITATION_DECLINED,
+      invitation,
+      userId,
+    );
 
     // Создаем уведомление для администратора о том, что приглашение отклонено
     if (user) {
@@ -1430,12 +1516,17 @@ export class InvitationsService {
       teamId: dto.teamId,
       role: roleId || undefined,
       invitedById,
-      token,
+      tokenHash: this.secretHashService.hash(token),
       expiresAt,
       status: InvitationStatus.PENDING,
     });
 
     await this.invitationsRepo.save(invitation);
+    await this.recordInvitationEvent(
+      AuditEvent.INVITATION_CREATED,
+      invitation,
+      invitedById,
+    );
 
     // Отправляем email уведомление
     await this.sendInvitationEmail(invitation, invitedById);
@@ -1454,7 +1545,7 @@ export class InvitationsService {
       role: invitation.role,
       invitedById: invitation.invitedById,
       acceptedById: invitation.acceptedById,
-      token: invitation.token,
+      token,
       expiresAt: invitation.expiresAt,
       acceptedAt: invitation.acceptedAt,
       createdAt: invitation.createdAt,
@@ -1,6 +1,5 @@
 import { Module, Injectable } from '@nestjs/common';
 import { TypeOrmModule } from '@nestjs/typeorm';
-import { JwtModule } from '@nestjs/jwt';
 import { TwoFactorMicroModule } from '../../base/auth-micro-module.interface';
 import { BaseAuthMicroModule } from '../../base/auth-micro-module.abstract';
 import { EmailTwoFactorService } from './email-2fa.service';
@@ -12,10 +11,6 @@ import { RefreshToken } from '../../../entities/refresh-token.entity';
 @Module({
   imports: [
     TypeOrmModule.forFeature([TwoFactorCode, User, RefreshToken]),
-    JwtModule.register({
-      secret: process.env.JWT_SECRET || 'default-secret',
-      signOptions: { expiresIn: '15m' },
-    }),
   ],
   providers: [EmailTwoFactorService],
   controllers: [EmailTwoFactorController],
@@ -38,10 +33,6 @@ export class EmailTwoFactorMicroModule implements TwoFactorMicroModule {
   module = {
     imports: [
       TypeOrmModule.forFeature([TwoFactorCode, User, RefreshToken]),
-      JwtModule.register({
-        secret: process.env.JWT_SECRET || 'default-secret',
-        signOptions: { expiresIn: '15m' },
-      }),
     ],
     providers: [EmailTwoFactorService],
     controllers: [EmailTwoFactorController],
@@ -0,0 +1,148 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { HttpException, HttpStatus } from '@nestjs/common';
+import type { Request } from 'express';
+import { EmailTwoFactorController } from './email-2fa.controller';
+import { EmailTwoFactorService } from './email-2fa.service';
+import { AuthService } from '../../../auth.service';
+import { LoginProtectionService } from '../../../services/login-protection.service';
+import { LoginAttemptChannel } from '../../../entities/login-attempt.entity';
+
+describe('EmailTwoFactorController', () => {
+  let controller: EmailTwoFactorController;
+
+  const locked = new HttpException(
+    'Слишком много неудачных попыток входа',
+    HttpStatus.TOO_MANY_REQUESTS,
+  );
+
+  const req = {
+    ip: '10.0.0.1',
+    get: jest.fn(() => 'jest'),
+  } as unknown as Request;
+
+  const mockEmailTwoFactorService = {
+    findUserByEmail: jest.fn(),
+    sendEmailCode: jest.fn(),
+    verifyEmailCode: jest.fn(),
+  };
+
+  const mockAuthService = {
+    loginVerifiedUser: jest.fn(),
+  };
+
+  const mockLoginProtectionService = {
+    emailKey: jest.fn((email: string) => `email:${email}`),
+    assertAllowed: jest.fn(),
+    recordFailure: jest.fn(),
+    recordSuccess: jest.fn(),
+  };
+
+  beforeEach(async () => {
+    jest.clearAllMocks();
+    mockEmailTwoFactorService.findUserByEmail.mockResolvedValue({
+      id: 'user-1',
+    });
+
+    const module: TestingModule = await Test.createTestingModule({
+      controllers: [EmailTwoFactorController],
+      providers: [
+        {
+          provide: EmailTwoFactorService,
+          useValue: mockEmailTwoFactorService,
+        },
+        {
+          provide: AuthService,
+          useValue: mockAuthService,
+        },
+        {
+          provide: LoginProtectionService,
+          useValue: mockLoginProtectionService,
+        },
+      ],
+    }).compile();
+
+    controller = module.get<EmailTwoFactorController>(EmailTwoFactorController);
+  });
+
+  describe('verify-code', () => {
+    it('should not check the code while the account is locked', async () => {
+      mockLoginProtectionService.assertAllowed.mockRejectedValueOnce(locked);
+
+      await expect(
+        controller.verifyEmailCode('user@example.com', '123456', req),
+      ).rejects.toBe(locked);
+      expect(mockEmailTwoFactorService.verifyEmailCode).not.toHaveBeenCalled();
+    });
+
+    it('should count a wrong code against the account', async () => {
+      mockEmailTwoFactorService.verifyEmailCode.mockResolvedValue({
+        success: false,
+        message: 'Неверный код',
+      });
+
+      await expect(
+        controller.verifyEmailCode('user@example.com', '000000', req),
+      ).resolves.toEqual({ success: false, message: 'Неверный код' });
+      expect(mockLoginProtectionService.recordFailure).toHaveBeenCalledWith(
+        'email:user@example.com',
+        LoginAttemptChannel.EMAIL_CODE,
+        { ipAddress: '10.0.0.1', userId: 'user-1' },
+      );
+      expect(mockAuthService.loginVerifiedUser).not.toHaveBeenCalled();
+    });
+
+    it('should reset the counter and log in with a valid code', async () => {
+      mockEmailTwoFactorService.verifyEmailCode.mockResolvedValue({
+        success: true,
+        message: 'Код подтвержден',
+      });
+      mockAuthService.loginVerifiedUser.mockResolvedValue({
+        accessToken: 'access-token',
+      });
+
+      await expect(
+        controller.verifyEmailCode('user@example.com', '123456', req),
+      ).resolves.toMatchObject({ success: true, accessToken: 'access-token' });
+      expect(mockLoginProtectionService.recordSuccess).toHaveBeenCalledWith(
+        'email:user@example.com',
+        LoginAttemptChannel.EMAIL_CODE,
+        { ipAddress: '10.0.0.1', userId: 'user-1' },
+      );
+      expect(mockAuthService.loginVerifiedUser).toHaveBeenCalledWith(
+        'user-1',
+        LoginAttemptChannel.EMAIL_CODE,
+        { ipAddress: '10.0.0.1', userAgent: 'jest' },
+      );
+    });
+
+    it('should not report success while the second factor is pending', async () => {
+      mockEmailTwoFactorService.verifyEmailCode.mockResolvedValue({
+        success: true,
+        message: 'Код подтвержден',
+      });
+      mockAuthService.loginVerifiedUser.mockResolvedValue({
+        requires2FA: true,
+        loginToken: 'login-token',
+      });
+
+      await expect(
+        controller.verifyEmailCode('user@example.com', '123456', req),
+      ).resolves.toMatchObject({
+        success: false,
+        requires2FA: true,
+        loginToken: 'login-token',
+      });
+    });
+  });
+
+  describe('send-code', () => {
+    it('should not send a new code while the account is locked', async () => {
+      mockLoginProtectionService.assertAllowed.mockRejectedValueOnce(locked);
+
+      await expect(
+        controller.sendEmailCode('user@example.com', req),
+      ).rejects.toBe(locked);
+      expect(mockEmailTwoFactorService.sendEmailCode).not.toHaveBeenCalled();
+    });
+  });
+});
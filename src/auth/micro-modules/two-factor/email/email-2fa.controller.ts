@@ -1,20 +1,34 @@
-import { Controller, Post, Body, UseGuards, Req } from '@nestjs/common';
+import { Controller, Post, Body, UseGuards, Req, Inject, forwardRef } from '@nestjs/common';
 import { EmailTwoFactorService } from './email-2fa.service';
 import { JwtAuthGuard } from '../../../guards/jwt-auth.guard';
 import { Public } from '../../../decorators/public.decorator';
-import { Request } from 'express';
+import type { Request } from 'express';
+import { AuthService } from '../../../auth.service';
+import { LoginProtectionService } from '../../../services/login-protection.service';
+import { LoginAttemptChannel } from '../../../entities/login-attempt.entity';
 
 @Controller('auth/2fa/email')
 export class EmailTwoFactorController {
-  constructor(private readonly emailTwoFactorService: EmailTwoFactorService) {}
+  constructor(
+    private readonly emailTwoFactorService: EmailTwoFactorService,
+    @Inject(forwardRef(() => AuthService))
+    private readonly authService: AuthService,
+    private readonly loginProtectionService: LoginProtectionService,
+  ) {}
 
   @Post('send-code')
   @Public()
-  async sendEmailCode(@Body('email') email: string) {
+  async sendEmailCode(@Body('email') email: string, @Req() req: Request) {
     if (!email) {
       throw new Error('Email обязателен');
     }
 
+    // Заблокированному аккаунту новый код не выдаётся
+    await this.loginProtectionService.assertAllowed(
+      this.loginProtectionService.emailKey(email),
+      req.ip,
+    );
+
     // Находим пользователя по email
     const user = await this.emailTwoFactorService.findUserByEmail(email);
     if (!user) {
@@ -26,36 +40,68 @@ export class EmailTwoFactorController {
 
   @Post('verify-code')
   @Public()
-  async verifyEmailCode(@Body('email') email: string, @Body('code') code: string) {
+  async verifyEmailCode(
+    @Body('email') email: string,
+    @Body('code') code: string,
+    @Req() req: Request,
+  ) {
     if (!email || !code) {
       throw new Error('Email и код обязательны');
     }
 
+    // Неверные коды считаются блокировкой аккаунта: новый код не даёт новых попыток
+    const accountKey = this.loginProtectionService.emailKey(email);
+    await this.loginProtectionService.assertAllowed(accountKey, req.ip);
+
     // Находим пользователя по email
     const user = await this.emailTwoFactorService.findUserByEmail(email);
     if (!user) {
+      await this.loginProtectionService.recordFailure(
+        accountKey,
+        LoginAttemptChannel.EMAIL_CODE,
+        {
+          ipAddress: req.ip,
+        },
+      );
       throw new Error('Пользователь не найден');
     }
 
     const result = await this.emailTwoFactorService.verifyEmailCode(user.id, code);
-    
-    if (result.success) {
-      // Генерируем токены для входа
-      const tokens = await this.emailTwoFactorService.generateTokensForUser(user);
-      return {
-        ...result,
-        user: {
-          id: user.id,
-          email: user.email,
-          firstName: user.firstName,
-          lastName: user.lastName,
-          roles: user.userRoleAssignments?.map(a => a.role?.name).filter(Boolean) || [],
-          permissions: user.userRoleAssignments?.flatMap(a => a.role?.permissions?.map(p => p.name) || []) || []
+    if (!result.success) {
+      await this.loginProtectionService.recordFailure(
+        accountKey,
+        LoginAttemptChannel.EMAIL_CODE,
+        {
+          ipAddress: req.ip,
+          userId: user.id,
         },
-        ...tokens
-      };
+      );
+      return result;
     }
+    await this.loginProtectionService.recordSuccess(
+      accountKey,
+      LoginAttemptChannel.EMAIL_CODE,
+      {
+        ipAddress: req.ip,
+        userId: user.id,
+      },
+    );
 
-    return result;
+    // Токены выдаются новой сессией, как при обычном входе
+    const login = await this.authService.loginVerifiedUser(
+      user.id,
+      LoginAttemptChannel.EMAIL_CODE,
+      {
+        ipAddress: req.ip,
+        userAgent: req.get('User-Agent'),
+      },
+    );
+    if ('requires2FA' in login) {
+      return { success: false, ...login };
+    }
+    return {
+      ...result,
+      ...login,
+    };
   }
 }
\ No newline at end of file
@@ -1,14 +1,12 @@
 import { Injectable } from '@nestjs/common';
 import { InjectRepository } from '@nestjs/typeorm';
 import { Repository, MoreThan } from 'typeorm';
-import { TwoFactorCode } from '../../../entities/two-factor-code.entity';
+import { TwoFactorCode, TwoFactorType } from '../../../entities/two-factor-code.entity';
+import { TwoFactorCodesService } from '../../../services/two-factor-codes.service';
 import { User } from '../../../../users/entities/user.entity';
 import { EmailService } from '../../../email.service';
-import { JwtService } from '@nestjs/jwt';
-import { v4 as uuidv4 } from 'uuid';
-import { RefreshToken } from '../../../entities/refresh-token.entity';
-import { ConfigService } from '@nestjs/config';
-import * as crypto from 'crypto';
+import { WebhooksService } from '../../../../webhooks/webhooks.service';
+import { WebhookEvent } from '../../../../webhooks/enums/webhook-event.enum';
 
 @Injectable()
 export class EmailTwoFactorService {
@@ -17,11 +15,9 @@ export class EmailTwoFactorService {
     private twoFactorCodeRepo: Repository<TwoFactorCode>,
     @InjectRepository(User)
     private userRepo: Repository<User>,
-    @InjectRepository(RefreshToken)
-    private refreshTokenRepo: Repository<RefreshToken>,
     private emailService: EmailService,
-    private jwtService: JwtService,
-    private configService: ConfigService,
+    private webhooksService: WebhooksService,
+    private twoFactorCodesService: TwoFactorCodesService,
   ) {}
 
   /**
@@ -38,18 +34,11 @@ export class EmailTwoFactorService {
         };
       }
 
-      // Генерируем код
-      const code = this.generateCode();
-      const expiresAt = new Date(Date.now() + 10 * 60 * 1000); // 10 минут
-
-      // Сохраняем код
-      await this.twoFactorCodeRepo.save({
+      // Выдаём код (в БД сохраняется только хеш)
+      const { code } = await this.twoFactorCodesService.issue({
         userId,
-        code,
-        type: 'email' as any,
-        expiresAt,
+        type: TwoFactorType.EMAIL,
         contact: email,
-        status: 'pending' as any,
       });
 
       // Отправляем email с кодом
@@ -75,35 +64,24 @@ export class EmailTwoFactorService {
    */
   async verifyEmailCode(userId: string, code: string): Promise<{ success: boolean; message: string }> {
     try {
-      const codeRecord = await this.twoFactorCodeRepo.findOne({
-        where: {
-          userId,
-          code,
-          type: 'email' as any,
-          status: 'pending' as any,
-        },
-      });
-
-      if (!codeRecord) {
+      // Неверный ввод расходует попытку, верный код гасится
+      const check = await this.twoFactorCodesService.verify({ userId, type: TwoFactorType.EMAIL }, code);
+      if (!check.valid) {
         return {
           success: false,
-          message: 'Неверный код',
+          message: check.reason === 'expired' ? 'Код истек' : 'Неверный код',
         };
       }
 
-      if (codeRecord.expiresAt < new Date()) {
-        return {
-          success: false,
-          message: 'Код истек',
-        };
+      // Обновляем статус пользователя (вебхук - только при первом подтверждении)
+      const verified = await this.userRepo.update(
+        { id: userId, emailVerified: false },
+        { emailVerified: true },
+      );
+      if (verified.affected) {
+        await this.webhooksService.emitForUser(WebhookEvent.USER_EMAIL_VERIFIED, userId);
       }
 
-      // Отмечаем код как использованный
-      await this.twoFactorCodeRepo.update(codeRecord.id, { status: 'used' as any });
-
-      // Обновляем статус пользователя
-      await this.userRepo.update(userId, { emailVerified: true });
-
       console.log(`✅ Email 2FA код подтвержден для пользователя ${userId}`);
 
       return {
@@ -136,13 +114,6 @@ export class EmailTwoFactorService {
     return recentCodes < 3; // Максимум 3 кода в минуту
   }
 
-  /**
-   * Генерация 6-значного кода
-   */
-  private generateCode(): string {
-    return Math.floor(100000 + Math.random() * 900000).toString();
-  }
-
   /**
    * Поиск пользователя по email
    */
@@ -155,36 +126,4 @@ export class EmailTwoFactorService {
     console.log(`🔍 Результат поиска: ${user ? 'найден' : 'не найден'}`);
     return user;
   }
-
-  /**
-   * Генерация токенов для пользователя
-   */
-  async generateTokensForUser(user: User): Promise<{ accessToken: string; refreshToken: string }> {
-    // Генерируем Access Token
-    const permissions = user.userRoleAssignments?.flatMap(assignment => 
-      assignment.role?.permissions?.map(p => p.name) || []
-    ) || [];
-    const accessToken = this.jwtService.sign({
-      sub: user.id,
-      email: user.email,
-      organizationId: user.organizations?.[0]?.id || null,
-      teamId: user.teams?.[0]?.id || null,
-      roles: user.userRoleAssignments?.map(a => a.role?.name).filter(Boolean) || [],
-      permissions,
-    });
-
-    // Генерируем Refresh Token
-    const refreshToken = uuidv4();
-    const expiresAt = new Date();
-    expiresAt.setDate(expiresAt.getDate() + 7); // +7 дней
-
-    await this.refreshTokenRepo.save({
-      token: refreshToken,
-      userId: user.id,
-      expiresAt,
-      isRevoked: false,
-    });
-
-    return { accessToken, refreshToken };
-  }
 }
@@ -1,7 +1,8 @@
 import { Injectable } from '@nestjs/common';
 import { InjectRepository } from '@nestjs/typeorm';
 import { Repository, MoreThan } from 'typeorm';
-import { TwoFactorCode } from '../../../entities/two-factor-code.entity';
+import { TwoFactorCode, TwoFactorType } from '../../../entities/two-factor-code.entity';
+import { TwoFactorCodesService } from '../../../services/two-factor-codes.service';
 import { User } from '../../../../users/entities/user.entity';
 import { SmsService } from '../../../sms.service';
 
@@ -13,6 +14,7 @@ export class SmsTwoFactorService {
     @InjectRepository(User)
     private userRepo: Repository<User>,
     private smsService: SmsService,
+    private twoFactorCodesService: TwoFactorCodesService,
   ) {}
 
   /**
@@ -29,18 +31,11 @@ export class SmsTwoFactorService {
         };
       }
 
-      // Генерируем код
-      const code = this.generateCode();
-      const expiresAt = new Date(Date.now() + 10 * 60 * 1000); // 10 минут
-
-      // Сохраняем код
-      await this.twoFactorCodeRepo.save({
+      // Выдаём код (в БД сохраняется только хеш)
+      const { code } = await this.twoFactorCodesService.issue({
         userId,
-        code,
-        type: 'sms' as any,
-        expiresAt,
+        type: TwoFactorType.SMS,
         contact: phone,
-        status: 'pending' as any,
       });
 
       // Отправляем SMS
@@ -73,32 +68,15 @@ export class SmsTwoFactorService {
    */
   async verifySmsCode(userId: string, code: string): Promise<{ success: boolean; message: string }> {
     try {
-      const codeRecord = await this.twoFactorCodeRepo.findOne({
-        where: {
-          userId,
-          code,
-          type: 'sms' as any,
-          status: 'pending' as any,
-        },
-      });
-
-      if (!codeRecord) {
+      // Неверный ввод расходует попытку, верный код гасится
+      const check = await this.twoFactorCodesService.verify({ userId, type: TwoFactorType.SMS }, code);
+      if (!check.valid) {
         return {
           success: false,
-          message: 'Неверный код',
+          message: check.reason === 'expired' ? 'Код истек' : 'Неверный код',
         };
       }
 
-      if (codeRecord.expiresAt < new Date()) {
-        return {
-          success: false,
-          message: 'Код истек',
-        };
-      }
-
-      // Отмечаем код как использованный
-      await this.twoFactorCodeRepo.update(codeRecord.id, { status: 'used' as any });
-
       // Обновляем статус пользователя
       await this.userRepo.update(userId, { phoneVerified: true });
 
@@ -133,11 +111,4 @@ export class SmsTwoFactorService {
 
     return recentCodes < 3; // Максимум 3 кода в минуту
   }
-
-  /**
-   * Генерация 6-значного кода
-   */
-  private generateCode(): string {
-    return Math.floor(100000 + Math.random() * 900000).toString();
-  }
 }
@@ -1,7 +1,8 @@
 import { Injectable } from '@nestjs/common';
 import { InjectRepository } from '@nestjs/typeorm';
 import { Repository, MoreThan } from 'typeorm';
-import { TwoFactorCode } from '../../../entities/two-factor-code.entity';
+import { TwoFactorCode, TwoFactorType } from '../../../entities/two-factor-code.entity';
+import { TwoFactorCodesService } from '../../../services/two-factor-codes.service';
 import { User } from '../../../../users/entities/user.entity';
 import { SmsService } from '../../../sms.service'; // Используем SmsService для Telegram
 
@@ -13,6 +14,7 @@ export class TelegramTwoFactorService {
     @InjectRepository(User)
     private userRepo: Repository<User>,
     private smsService: SmsService, // Telegram использует тот же сервис
+    private twoFactorCodesService: TwoFactorCodesService,
   ) {}
 
   /**
@@ -29,18 +31,11 @@ export class TelegramTwoFactorService {
         };
       }
 
-      // Генерируем код
-      const code = this.generateCode();
-      const expiresAt = new Date(Date.now() + 10 * 60 * 1000); // 10 минут
-
-      // Сохраняем код
-      await this.twoFactorCodeRepo.save({
+      // Выдаём код (в БД сохраняется только хеш)
+      const { code } = await this.twoFactorCodesService.issue({
         userId,
-        code,
-        type: 'sms' as any, // Используем SMS тип для Telegram
-        expiresAt,
+        type: TwoFactorType.SMS, // Используем SMS тип для Telegram
         contact: telegramChatId,
-        status: 'pending' as any,
       });
 
       // Отправляем через Telegram
@@ -76,32 +71,15 @@ export class TelegramTwoFactorService {
    */
   async verifyTelegramCode(userId: string, code: string): Promise<{ success: boolean; message: string }> {
     try {
-      const codeRecord = await this.twoFactorCodeRepo.findOne({
-        where: {
-          userId,
-          code,
-          type: 'sms' as any, // Используем SMS тип для Telegram
-          status: 'pending' as any,
-        },
-      });
-
-      if (!codeRecord) {
-        return {
-          success: false,
-          message: 'Неверный код',
-        };
-      }
-
-      if (codeRecord.expiresAt < new Date()) {
+      // Неверный ввод расходует попытку, верный код гасится
+      const check = await this.twoFactorCodesService.verify({ userId, type: TwoFactorType.SMS }, code);
+      if (!check.valid) {
         return {
           success: false,
-          message: 'Код истек',
+          message: check.reason === 'expired' ? 'Код истек' : 'Неверный код',
         };
       }
 
-      // Отмечаем код как использованный
-      await this.twoFactorCodeRepo.update(codeRecord.id, { status: 'used' as any });
-
       // Обновляем статус пользователя (используем phoneVerified как аналог)
       await this.userRepo.update(userId, { phoneVerified: true });
 
@@ -136,11 +114,4 @@ export class TelegramTwoFactorService {
 
     return recentCodes < 3; // Максимум 3 кода в минуту
   }
-
-  /**
-   * Генерация 6-значного кода
-   */
-  private generateCode(): string {
-    return Math.floor(100000 + Math.random() * 900000).toString();
-  }
 }
@@ -0,0 +1,31 @@
+import { Global, Module } from '@nestjs/common';
+import { TypeOrmModule } from '@nestjs/typeorm';
+import { PasswordHistory } from './entities/password-history.entity';
+import { BreachedPassword } from './entities/breached-password.entity';
+import { User } from '../users/entities/user.entity';
+import { Organization } from '../organizations/entities/organization.entity';
+import { OrganizationMembership } from '../organizations/entities/organization-membership.entity';
+import { SettingsModule } from '../settings/settings.module';
+import { PasswordPolicyService } from './services/password-policy.service';
+import { PasswordPolicyController } from './controllers/password-policy.controller';
+
+/**
+ * Политика паролей нужна везде, где задаётся пароль (регистрация, сброс, приглашения)
+ */
+@Global()
+@Module({
+  imports: [
+    TypeOrmModule.forFeature([
+      PasswordHistory,
+      BreachedPassword,
+      User,
+      Organization,
+      OrganizationMembership,
+    ]),
+    SettingsModule,
+  ],
+  controllers: [PasswordPolicyController],
+  providers: [PasswordPolicyService],
+  exports: [PasswordPolicyService],
+})
+export class PasswordPolicyModule {}
@@ -3,12 +3,14 @@ import { InjectRepository } from '@nestjs/typeorm';
 import { Repository, IsNull } from 'typeorm';
 import { ConfigService } from '@nestjs/config';
 import * as crypto from 'crypto';
-import * as bcrypt from 'bcrypt';
 import { PasswordResetToken } from './entities/password-reset-token.entity';
 import { User } from '../users/entities/user.entity';
 import { EmailService } from './email.service';
 import { ForgotPasswordDto } from './dto/forgot-password.dto';
 import { ResetPasswordDto } from './dto/reset-password.dto';
+import { LoginProtectionService } from './services/login-protection.service';
+import { PasswordPolicyService } from './services/password-policy.service';
+import { SecretHashService } from './services/secret-hash.service';
 
 @Injectable()
 export class PasswordResetService {
@@ -19,6 +21,9 @@ export class PasswordResetService {
     private usersRepo: Repository<User>,
     private configService: ConfigService,
     private emailService: EmailService,
+    private loginProtectionService: LoginProtectionService,
+    private passwordPolicyService: PasswordPolicyService,
+    private secretHashService: SecretHashService,
   ) {}
 
   /**
@@ -51,10 +56,10 @@ export class PasswordResetService {
     const expiresAt = new Date();
     expiresAt.setMinutes(expiresAt.getMinutes() + 30); // 30 минут
 
-    // 4. Сохраняем токен в БД
+    // 4. Сохраняем в БД только хеш токена
     await this.passwordResetTokensRepo.save({
       userId: user.id,
-      token,
+      tokenHash: this.secretHashService.hash(token),
       expiresAt,
     });
 
@@ -66,8 +71,6 @@ export class PasswordResetService {
     await this.emailService.sendPasswordResetEmail(user.email || '', resetLink);
 
     console.log(`🔐 Запрос восстановления пароля для ${email}`);
-    console.log(`   Токен: ${token}`);
-    console.log(`   Ссылка: ${resetLink}`);
 
     return {
       message: 'Если пользователь с таким email существует, на него будет отправлена ссылка для восстановления пароля',
@@ -79,7 +82,7 @@ export class PasswordResetService {
    */
   async validateResetToken(token: string): Promise<{ valid: boolean; user?: any }> {
     const resetToken = await this.passwordResetTokensRepo.findOne({
-      where: { token },
+      where: { tokenHash: this.secretHashService.hash(token) },
       relations: ['user'],
     });
 
@@ -122,7 +125,7 @@ export class PasswordResetService {
 
     // 2. Находим токен в БД
     const resetToken = await this.passwordResetTokensRepo.findOne({
-      where: { token },
+      where: { tokenHash: this.secretHashService.hash(token) },
       relations: ['user'],
     });
 
@@ -130,26 +133,23 @@ export class PasswordResetService {
       throw new BadRequestException('Токен не найден');
     }
 
-    // 3. Хешируем новый пароль
-    const salt = await bcrypt.genSalt(12);
-    const passwordHash = await bcrypt.hash(newPassword, salt);
+    // 3. Проверяем пароль по политике, хешируем и сохраняем
+    await this.passwordPolicyService.changePassword(resetToken.userId, newPassword);
 
-    // 4. Обновляем пароль пользователя
-    await this.usersRepo.update(resetToken.userId, {
-      passwordHash,
-    });
-
-    // 5. Помечаем токен как использованный
+    // 4. Помечаем токен как использованный
     await this.passwordResetTokensRepo.update(resetToken.id, {
       usedAt: new Date(),
     });
 
-    // 6. Отзываем все остальные токены пользователя
+    // 5. Отзываем все остальные токены пользователя
     await this.passwordResetTokensRepo.update(
       { userId: resetToken.userId, usedAt: IsNull() },
       { usedAt: new Date() }
     );
 
+    // 6. Сброс пароля снимает блокировку входа
+    await this.loginProtectionService.unlock(resetToken.userId);
+
     console.log(`🔐 Пароль успешно сброшен для пользователя ${resetToken.user.email}`);
 
     return {
@@ -0,0 +1,18 @@
+import { Global, Module } from '@nestjs/common';
+import { TypeOrmModule } from '@nestjs/typeorm';
+import { TwoFactorCode } from './entities/two-factor-code.entity';
+import { SecretHashService } from './services/secret-hash.service';
+import { SecretCipherService } from './services/secret-cipher.service';
+import { TwoFactorCodesService } from './services/two-factor-codes.service';
+
+/**
+ * Хеши одноразовых кодов и токенов нужны auth, приглашениям и микромодулям 2FA,
+ * шифрование секретов - вебхукам
+ */
+@Global()
+@Module({
+  imports: [TypeOrmModule.forFeature([TwoFactorCode])],
+  providers: [SecretHashService, SecretCipherService, TwoFactorCodesService],
+  exports: [SecretHashService, SecretCipherService, TwoFactorCodesService],
+})
+export class SecretHashModule {}
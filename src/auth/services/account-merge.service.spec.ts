@@ -0,0 +1,258 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { getRepositoryToken } from '@nestjs/typeorm';
+import {
+  BadRequestException,
+  ForbiddenException,
+  UnauthorizedException,
+} from '@nestjs/common';
+import { DataSource } from 'typeorm';
+import { AccountMergeService } from './account-merge.service';
+import { SigningKeysService } from './signing-keys.service';
+import { AccountMergeRequest } from '../entities/account-merge-request.entity';
+import { AuthMethodType } from '../enums/auth-method-type.enum';
+import { User } from '../../users/entities/user.entity';
+import { UserRoleAssignment } from '../../users/entities/user-role-assignment.entity';
+import { OrganizationMembership } from '../../organizations/entities/organization-membership.entity';
+import { TeamMembership } from '../../teams/entities/team-membership.entity';
+import { UserIdentity } from '../../identities/entities/user-identity.entity';
+import { Invitation } from '../micro-modules/invitations/entities/invitation.entity';
+import { AuditActor } from '../../audit/entities/audit-actor.entity';
+import { AuditService } from '../../audit/audit.service';
+import { AuditEvent } from '../../audit/enums/audit-event.enum';
+
+const PRIMARY_ID = 'user-primary';
+const SECONDARY_ID = 'user-secondary';
+
+describe('AccountMergeService', () => {
+  let service: AccountMergeService;
+  let users: Record<string, Partial<User>>;
+
+  const pendingRequest = (): AccountMergeRequest =>
+    ({
+      id: 'merge-1',
+      primaryUserId: PRIMARY_ID,
+      secondaryUserId: SECONDARY_ID,
+      status: 'pending',
+      expiresAt: new Date(Date.now() + 60_000),
+    }) as AccountMergeRequest;
+
+  const mockMergeRequestsRepository = {
+    findOne: jest.fn(),
+    save: jest.fn((request: AccountMergeRequest) => Promise.resolve(request)),
+  };
+
+  // У обоих аккаунтов роль admin, у второго ещё editor
+  const assignments: Record<string, Partial<UserRoleAssignment>[]> = {
+    [PRIMARY_ID]: [{ id: 'assignment-1', roleId: 'role-admin' }],
+    [SECONDARY_ID]: [
+      { id: 'assignment-2', roleId: 'role-admin' },
+      { id: 'assignment-3', roleId: 'role-editor' },
+    ],
+  };
+
+  const manager = {
+    findOne: jest.fn((entity: unknown, { where }: { where: { id: string } }) =>
+      Promise.resolve(
+        entity === AccountMergeRequest ? pendingRequest() : users[where.id],
+      ),
+    ),
+    createQueryBuilder: jest.fn(() => {
+      let id = '';
+      const builder = {
+        addSelect: () => builder,
+        where: (_condition: string, params: { id: string }) => {
+          id = params.id;
+          return builder;
+        },
+        setLock: () => builder,
+        getOne: () => Promise.resolve(users[id]),
+      };
+      return builder;
+    }),
+    find: jest.fn((entity: unknown, { where }: { where: { userId: string } }) =>
+      Promise.resolve(
+        entity === UserRoleAssignment ? assignments[where.userId] : [],
+      ),
+    ),
+    update: jest.fn(),
+    save: jest.fn(),
+    delete: jest.fn(),
+    query: jest.fn(),
+  };
+
+  const mockDataSource = {
+    transaction: jest.fn(
+      (run: (transactionManager: typeof manager) => Promise<unknown>) =>
+        run(manager),
+    ),
+  };
+
+  const mockSigningKeysService = {
+    verify: jest.fn(),
+  };
+
+  const mockAuditService = {
+    record: jest.fn(),
+  };
+
+  beforeEach(async () => {
+    jest.clearAllMocks();
+    users = {
+      [PRIMARY_ID]: {
+        id: PRIMARY_ID,
+        email: 'primary@example.com',
+        firstName: 'John',
+        isActive: true,
+        availableAuthMethods: [AuthMethodType.EMAIL],
+      },
+      [SECONDARY_ID]: {
+        id: SECONDARY_ID,
+        email: 'secondary@example.com',
+        firstName: 'Johnny',
+        telegramId: '42',
+        isActive: true,
+        availableAuthMethods: [AuthMethodType.PHONE_TELEGRAM],
+      },
+    };
+    mockMergeRequestsRepository.findOne.mockResolvedValue(pendingRequest());
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        AccountMergeService,
+        {
+          provide: getRepositoryToken(AccountMergeRequest),
+          useValue: mockMergeRequestsRepository,
+        },
+        {
+          provide: getRepositoryToken(User),
+          useValue: {},
+        },
+        {
+          provide: getRepositoryToken(UserRoleAssignment),
+          useValue: {},
+        },
+        {
+          provide: getRepositoryToken(OrganizationMembership),
+          useValue: {},
+        },
+        {
+          provide: getRepositoryToken(TeamMembership),
+          useValue: {},
+        },
+        {
+          provide: DataSource,
+          useValue: mockDataSource,
+        },
+        {
+          provide: SigningKeysService,
+          useValue: mockSigningKeysService,
+        },
+        {
+          provide: AuditService,
+          useValue: mockAuditService,
+        },
+      ],
+    }).compile();
+
+    service = module.get<AccountMergeService>(AccountMergeService);
+  });
+
+  describe('create', () => {
+    it('should require a proof issued for the account merge', async () => {
+      mockSigningKeysService.verify.mockResolvedValueOnce({
+        sub: SECONDARY_ID,
+        aud: 'password-change',
+      });
+
+      await expect(service.create(PRIMARY_ID, 'token')).rejects.toThrow(
+        UnauthorizedException,
+      );
+    });
+  });
+
+  describe('accept', () => {
+    it('should move the second account into the primary one in one transaction', async () => {
+      await service.accept(PRIMARY_ID, 'merge-1', {
+        email: 'secondary',
+        firstName: 'primary',
+      });
+
+      expect(mockDataSource.transaction).toHaveBeenCalledTimes(1);
+      expect(manager.update).toHaveBeenCalledWith(
+        User,
+        SECONDARY_ID,
+        expect.objectContaining({
+          isActive: false,
+          mergedIntoId: PRIMARY_ID,
+          email: null,
+        }),
+      );
+      expect(manager.save).toHaveBeenCalledWith(
+        expect.objectContaining({
+          id: PRIMARY_ID,
+          email: 'secondary@example.com',
+          firstName: 'John',
+          telegramId: '42',
+          availableAuthMethods: [
+            AuthMethodType.EMAIL,
+            AuthMethodType.PHONE_TELEGRAM,
+          ],
+        }),
+      );
+      for (const [target, column] of [
+        [UserIdentity, 'userId'],
+        [Invitation, 'invitedById'],
+        [AuditActor, 'userId'],
+      ] as const) {
+        expect(manager.update).toHaveBeenCalledWith(
+          target,
+          { [column]: SECONDARY_ID },
+          { [column]: PRIMARY_ID },
+        );
+      }
+      expect(manager.save).toHaveBeenCalledWith(
+        expect.objectContaining({ status: 'resolved' }),
+      );
+      expect(mockAuditService.record).toHaveBeenCalledWith(
+        AuditEvent.USER_ACCOUNTS_MERGED,
+        expect.objectContaining({ targetId: SECONDARY_ID }),
+      );
+    });
+
+    it('should move only the roles the primary account does not have', async () => {
+      await service.accept(PRIMARY_ID, 'merge-1');
+
+      expect(manager.delete).toHaveBeenCalledWith(
+        UserRoleAssignment,
+        'assignment-2',
+      );
+      expect(manager.update).toHaveBeenCalledWith(
+        UserRoleAssignment,
+        'assignment-3',
+        { userId: PRIMARY_ID },
+      );
+    });
+
+    it('should let only the owner of the primary account accept', async () => {
+      await expect(service.accept(SECONDARY_ID, 'merge-1')).rejects.toThrow(
+        ForbiddenException,
+      );
+      expect(mockDataSource.transaction).not.toHaveBeenCalled();
+    });
+
+    it('should expire a stale request instead of merging', async () => {
+      mockMergeRequestsRepository.findOne.mockResolvedValueOnce({
+        ...pendingRequest(),
+        expiresAt: new Date(Date.now() - 1000),
+      });
+
+      await expect(service.accept(PRIMARY_ID, 'merge-1')).rejects.toThrow(
+        BadRequestException,
+      );
+      expect(mockMergeRequestsRepository.save).toHaveBeenCalledWith(
+        expect.objectContaining({ status: 'expired' }),
+      );
+      expect(mockDataSource.transaction).not.toHaveBeenCalled();
+    });
+  });
+});
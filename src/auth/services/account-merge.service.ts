@@ -0,0 +1,597 @@
+import {
+  BadRequestException,
+  ConflictException,
+  ForbiddenException,
+  Injectable,
+  Logger,
+  NotFoundException,
+  UnauthorizedException,
+} from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { Cron, CronExpression } from '@nestjs/schedule';
+import {
+  DataSource,
+  EntityManager,
+  EntityTarget,
+  FindOptionsWhere,
+  LessThan,
+  Repository,
+} from 'typeorm';
+import { User } from '../../users/entities/user.entity';
+import { UserRoleAssignment } from '../../users/entities/user-role-assignment.entity';
+import { OrganizationMembership } from '../../organizations/entities/organization-membership.entity';
+import { Organization } from '../../organizations/entities/organization.entity';
+import { TeamMembership } from '../../teams/entities/team-membership.entity';
+import { Team } from '../../teams/entities/team.entity';
+import { Invitation } from '../micro-modules/invitations/entities/invitation.entity';
+import { Notification } from '../../notifications/entities/notification.entity';
+import { AuditActor } from '../../audit/entities/audit-actor.entity';
+import { AuditService } from '../../audit/audit.service';
+import { AuditEvent } from '../../audit/enums/audit-event.enum';
+import { UserIdentity } from '../../identities/entities/user-identity.entity';
+import { AccountMergeRequest } from '../entities/account-merge-request.entity';
+import { RefreshToken } from '../entities/refresh-token.entity';
+import { WebAuthnCredential } from '../entities/webauthn-credential.entity';
+import { SigningKeysService } from './signing-keys.service';
+import {
+  MergeConflicts,
+  MergeResolution,
+} from '../interfaces/multi-auth.interface';
+
+const ACCOUNT_MERGE_AUDIENCE = 'account-merge';
+const MERGE_REQUEST_TTL_MS = 24 * 60 * 60 * 1000;
+const PROFILE_FIELDS = ['firstName', 'lastName', 'avatarUrl'] as const;
+
+type MembershipStrategy = 'primary' | 'secondary' | 'merge';
+
+/**
+ * Объединение аккаунтов: основной аккаунт остаётся, второй деактивируется,
+ * а способы входа, роли, членство и история переносятся в одной транзакции
+ */
+@Injectable()
+export class AccountMergeService {
+  private readonly logger = new Logger(AccountMergeService.name);
+
+  constructor(
+    @InjectRepository(AccountMergeRequest)
+    private mergeRequestsRepo: Repository<AccountMergeRequest>,
+    @InjectRepository(User)
+    private usersRepo: Repository<User>,
+    @InjectRepository(UserRoleAssignment)
+    private userRoleAssignmentRepo: Repository<UserRoleAssignment>,
+    @InjectRepository(OrganizationMembership)
+    private organizationMembershipRepo: Repository<OrganizationMembership>,
+    @InjectRepository(TeamMembership)
+    private teamMembershipRepo: Repository<TeamMembership>,
+    private dataSource: DataSource,
+    private signingKeysService: SigningKeysService,
+    private auditService: AuditService,
+  ) {}
+
+  /**
+   * Токен владения аккаунтом: выдаётся в сессии второго аккаунта
+   * и предъявляется из сессии основного
+   */
+  issueProof(userId: string): string {
+    return this.signingKeysService.sign(
+      { sub: userId, aud: ACCOUNT_MERGE_AUDIENCE },
+      { expiresIn: '10m' },
+    );
+  }
+
+  async create(
+    primaryUserId: string,
+    proofToken: string,
+  ): Promise<AccountMergeRequest> {
+    const secondaryUserId = await this.verifyProof(proofToken);
+    if (secondaryUserId === primaryUserId) {
+      throw new BadRequestException('Нельзя объединить аккаунт с самим собой');
+    }
+
+    const primary = await this.usersRepo.findOne({
+      where: { id: primaryUserId, isActive: true },
+    });
+    const secondary = await this.usersRepo.findOne({
+      where: { id: secondaryUserId, isActive: true },
+    });
+    if (!primary || !secondary) {
+      throw new NotFoundException('Аккаунт для объединения не найден');
+    }
+
+    const existing = await this.mergeRequestsRepo.findOne({
+      where: [
+        { primaryUserId, secondaryUserId, status: 'pending' },
+        {
+          primaryUserId: secondaryUserId,
+          secondaryUserId: primaryUserId,
+          status: 'pending',
+        },
+      ],
+    });
+    if (existing) {
+      throw new ConflictException(
+        'Запрос на объединение этих аккаунтов уже ожидает решения',
+      );
+    }
+
+    const request = await this.mergeRequestsRepo.save(
+      this.mergeRequestsRepo.create({
+        primaryUserId,
+        secondaryUserId,
+        authMethod: secondary.primaryAuthMethod,
+        conflicts: await this.detectConflicts(primary, secondary),
+        resolution: null,
+        status: 'pending',
+        expiresAt: new Date(Date.now() + MERGE_REQUEST_TTL_MS),
+      }),
+    );
+
+    this.logger.log(
+      `🔀 Запрос на объединение ${secondaryUserId} → ${primaryUserId}`,
+    );
+    return request;
+  }
+
+  /**
+   * Запросы, где пользователь - любая из сторон
+   */
+  async findForUser(userId: string): Promise<AccountMergeRequest[]> {
+    return this.mergeRequestsRepo.find({
+      where: [{ primaryUserId: userId }, { secondaryUserId: userId }],
+      order: { createdAt: 'DESC' },
+    });
+  }
+
+  /**
+   * Подтверждение владельцем основного аккаунта с выбором значений полей
+   */
+  async accept(
+    userId: string,
+    requestId: string,
+    resolution: MergeResolution = {},
+  ): Promise<User> {
+    const request = await this.findPending(userId, requestId);
+    if (request.primaryUserId !== userId) {
+      throw new ForbiddenException(
+        'Подтвердить объединение может только владелец основного аккаунта',
+      );
+    }
+    if (resolution.email === 'manual' || resolution.phone === 'manual') {
+      throw new BadRequestException(
+        'Email и телефон берутся только из одного из аккаунтов',
+      );
+    }
+
+    const user = await this.dataSource.transaction(async (manager) => {
+      // Блокировка строки не даёт выполнить одно объединение дважды
+      const locked = await manager.findOne(AccountMergeRequest, {
+        where: { id: request.id, status: 'pending' },
+        lock: { mode: 'pessimistic_write' },
+      });
+      if (!locked) {
+        throw new ConflictException('Запрос на объединение уже обработан');
+      }
+
+      const merged = await this.merge(
+        manager,
+        locked.primaryUserId,
+        locked.secondaryUserId,
+        resolution,
+      );
+
+      locked.status = 'resolved';
+      locked.resolution = resolution;
+      locked.resolvedAt = new Date();
+      await manager.save(locked);
+      return merged;
+    });
+
+    await this.auditService.record(AuditEvent.USER_ACCOUNTS_MERGED, {
+      actorId: userId,
+      targetType: 'user',
+      targetId: request.secondaryUserId,
+      details: {
+        mergeRequestId: request.id,
+        primaryUserId: request.primaryUserId,
+        resolution,
+      },
+    });
+    this.logger.log(
+      `✅ Аккаунт ${request.secondaryUserId} объединён с ${request.primaryUserId}`,
+    );
+
+    return user;
+  }
+
+  /**
+   * Отклонить запрос может любая из сторон
+   */
+  async reject(
+    userId: string,
+    requestId: string,
+  ): Promise<AccountMergeRequest> {
+    const request = await this.findPending(userId, requestId);
+    request.status = 'rejected';
+    request.resolvedAt = new Date();
+    return this.mergeRequestsRepo.save(request);
+  }
+
+  @Cron(CronExpression.EVERY_HOUR)
+  async expireStale() {
+    const result = await this.mergeRequestsRepo.update(
+      { status: 'pending', expiresAt: LessThan(new Date()) },
+      { status: 'expired' },
+    );
+    if (result.affected) {
+      this.logger.log(
+        `🧹 Просрочено запросов на объединение аккаунтов: ${result.affected}`,
+      );
+    }
+  }
+
+  // Приватные методы
+
+  private async verifyProof(token: string): Promise<string> {
+    const payload = await this.signingKeysService.verify<{
+      sub?: string;
+      aud?: string;
+    }>(token);
+    if (payload.aud !== ACCOUNT_MERGE_AUDIENCE || !payload.sub) {
+      throw new UnauthorizedException('Невалидный токен владения аккаунтом');
+    }
+    return payload.sub;
+  }
+
+  private async findPending(
+    userId: string,
+    requestId: string,
+  ): Promise<AccountMergeRequest> {
+    const request = await this.mergeRequestsRepo.findOne({
+      where: [
+        { id: requestId, primaryUserId: userId },
+        { id: requestId, secondaryUserId: userId },
+      ],
+    });
+    if (!request) {
+      throw new NotFoundException('Запрос на объединение не найден');
+    }
+    if (request.status !== 'pending') {
+      throw new ConflictException('Запрос на объединение уже обработан');
+    }
+    if (request.expiresAt && request.expiresAt < new Date()) {
+      request.status = 'expired';
+      await this.mergeRequestsRepo.save(request);
+      throw new BadRequestException(
+        'Срок действия запроса на объединение истёк',
+      );
+    }
+    return request;
+  }
+
+  private async detectConflicts(
+    primary: User,
+    secondary: User,
+  ): Promise<MergeConflicts> {
+    const conflicts: MergeConflicts = {};
+
+    for (const field of [...PROFILE_FIELDS, 'email', 'phone'] as const) {
+      const primaryValue = primary[field];
+      const secondaryValue = secondary[field];
+      if (primaryValue && secondaryValue && primaryValue !== secondaryValue) {
+        conflicts[field] = { primary: primaryValue, secondary: secondaryValue };
+      }
+    }
+
+    const [primaryOrgs, secondaryOrgs] = await Promise.all(
+      [primary.id, secondary.id].map((userId) =>
+        this.organizationMembershipRepo.find({ where: { userId } }),
+      ),
+    );
+    if (secondaryOrgs.length) {
+      conflicts.organizations = {
+        primary: primaryOrgs.map((m) => m.organizationId),
+        secondary: secondaryOrgs.map((m) => m.organizationId),
+      };
+    }
+
+    const [primaryTeams, secondaryTeams] = await Promise.all(
+      [primary.id, secondary.id].map((userId) =>
+        this.teamMembershipRepo.find({ where: { userId } }),
+      ),
+    );
+    if (secondaryTeams.length) {
+      conflicts.teams = {
+        primary: primaryTeams.map((m) => m.teamId),
+        secondary: secondaryTeams.map((m) => m.teamId),
+      };
+    }
+
+    const [primaryRoles, secondaryRoles] = await Promise.all(
+      [primary.id, secondary.id].map((userId) =>
+        this.userRoleAssignmentRepo.find({ where: { userId } }),
+      ),
+    );
+    if (secondaryRoles.length) {
+      conflicts.roles = {
+        primary: primaryRoles.map((a) => this.assignmentKey(a)),
+        secondary: secondaryRoles.map((a) => this.assignmentKey(a)),
+      };
+    }
+
+    if (primary.messengerPreferences && secondary.messengerPreferences) {
+      conflicts.preferences = {
+        primary: primary.messengerPreferences,
+        secondary: secondary.messengerPreferences,
+      };
+    }
+
+    return conflicts;
+  }
+
+  private async merge(
+    manager: EntityManager,
+    primaryId: string,
+    secondaryId: string,
+    resolution: MergeResolution,
+  ): Promise<User> {
+    const primary = await this.lockUser(manager, primaryId);
+    const secondary = await this.lockUser(manager, secondaryId);
+    if (!primary?.isActive || !secondary?.isActive) {
+      throw new ConflictException('Один из аккаунтов уже деактивирован');
+    }
+
+    for (const field of PROFILE_FIELDS) {
+      const choice = resolution[field];
+      if (choice === 'manual') {
+        primary[field] = resolution.manualValues?.[field] ?? primary[field];
+      } else if (choice === 'secondary' || !primary[field]) {
+        primary[field] = secondary[field] || primary[field];
+      }
+    }
+
+    // Уникальные идентификаторы второго аккаунта переходят основному,
+    // поэтому сначала освобождаются
+    const takeEmail =
+      !!secondary.email && (resolution.email === 'secondary' || !primary.email);
+    const takePhone =
+      !!secondary.phone && (resolution.phone === 'secondary' || !primary.phone);
+    const takeTelegram = !!secondary.telegramId && !primary.telegramId;
+    const takePassword = !!secondary.passwordHash && !primary.passwordHash;
+
+    await manager.update(User, secondary.id, {
+      isActive: false,
+      mergedIntoId: primary.id,
+      email: null,
+      phone: null,
+      telegramId: null,
+      passwordHash: null,
+      availableAuthMethods: [],
+    });
+
+    if (takeEmail) {
+      primary.email = secondary.email;
+      primary.emailVerified = secondary.emailVerified;
+    }
+    if (takePhone) {
+      primary.phone = secondary.phone;
+      primary.phoneVerified = secondary.phoneVerified;
+    }
+    if (takeTelegram) {
+      primary.telegramId = secondary.telegramId;
+    }
+    if (takePassword) {
+      primary.passwordHash = secondary.passwordHash;
+      primary.passwordChangedAt = secondary.passwordChangedAt;
+    }
+    if (
+      resolution.preferences === 'secondary' ||
+      !primary.messengerPreferences
+    ) {
+      primary.messengerPreferences =
+        secondary.messengerPreferences ?? primary.messengerPreferences;
+    }
+    primary.availableAuthMethods = [
+      ...new Set([
+        ...(primary.availableAuthMethods || []),
+        ...(secondary.availableAuthMethods || []),
+      ]),
+    ];
+    await manager.save(primary);
+
+    await manager.update(
+      UserIdentity,
+      { userId: secondary.id },
+      { userId: primary.id },
+    );
+    await manager.update(
+      WebAuthnCredential,
+      { userId: secondary.id },
+      { userId: primary.id },
+    );
+
+    await this.mergeRoleAssignments(
+      manager,
+      primary.id,
+      secondary.id,
+      resolution.roles ?? 'merge',
+    );
+    await this.mergeMemberships(
+      manager,
+      OrganizationMembership,
+      'organizationId',
+      'user_organizations',
+      primary.id,
+      secondary.id,
+      resolution.organizations ?? 'merge',
+    );
+    await this.mergeMemberships(
+      manager,
+      TeamMembership,
+      'teamId',
+      'user_teams',
+      primary.id,
+      secondary.id,
+      resolution.teams ?? 'merge',
+    );
+
+    await this.reassignReferences(manager, primary.id, secondary.id);
+
+    await manager.update(
+      RefreshToken,
+      { userId: secondary.id, isRevoked: false },
+      { isRevoked: true, revokedReason: 'account_merged' },
+    );
+
+    return (await manager.findOne(User, { where: { id: primary.id } }))!;
+  }
+
+  private lockUser(manager: EntityManager, id: string): Promise<User | null> {
+    return manager
+      .createQueryBuilder(User, 'user')
+      .addSelect('user.passwordHash')
+      .where('user.id = :id', { id })
+      .setLock('pessimistic_write')
+      .getOne();
+  }
+
+  /**
+   * Назначения ролей: дубликаты (та же роль в том же контексте) удаляются
+   */
+  private async mergeRoleAssignments(
+    manager: EntityManager,
+    primaryId: string,
+    secondaryId: string,
+    strategy: MembershipStrategy,
+  ): Promise<void> {
+    if (strategy === 'primary') {
+      await manager.delete(UserRoleAssignment, { userId: secondaryId });
+      return;
+    }
+    if (strategy === 'secondary') {
+      await manager.delete(UserRoleAssignment, { userId: primaryId });
+    }
+
+    const existing = await manager.find(UserRoleAssignment, {
+      where: { userId: primaryId },
+    });
+    const keys = new Set(existing.map((a) => this.assignmentKey(a)));
+    const incoming = await manager.find(UserRoleAssignment, {
+      where: { userId: secondaryId },
+    });
+
+    for (const assignment of incoming) {
+      const key = this.assignmentKey(assignment);
+      if (keys.has(key)) {
+        await manager.delete(UserRoleAssignment, assignment.id);
+      } else {
+        keys.add(key);
+        await manager.update(UserRoleAssignment, assignment.id, {
+          userId: primaryId,
+        });
+      }
+    }
+  }
+
+  /**
+   * Членство в организациях/командах: при совпадении остаётся запись основного аккаунта.
+   * Связующие таблицы ManyToMany синхронизируются тем же правилом
+   */
+  private async mergeMemberships<T extends { id: string; userId: string }>(
+    manager: EntityManager,
+    target: EntityTarget<T>,
+    scopeColumn: keyof T & string,
+    joinTable: string,
+    primaryId: string,
+    secondaryId: string,
+    strategy: MembershipStrategy,
+  ): Promise<void> {
+    const byUser = (userId: string) => ({ userId }) as FindOptionsWhere<T>;
+
+    if (strategy === 'secondary') {
+      await manager.delete(target, byUser(primaryId));
+      await manager.query(`DELETE FROM ${joinTable} WHERE "userId" = $1`, [
+        primaryId,
+      ]);
+    }
+
+    if (strategy !== 'primary') {
+      const existing = await manager.find(target, { where: byUser(primaryId) });
+      const scopes = new Set(existing.map((m) => m[scopeColumn]));
+      const incoming = await manager.find(target, {
+        where: byUser(secondaryId),
+      });
+
+      for (const membership of incoming) {
+        if (!scopes.has(membership[scopeColumn])) {
+          scopes.add(membership[scopeColumn]);
+          membership.userId = primaryId;
+          await manager.save(target, membership);
+        }
+      }
+
+      await manager.query(
+        `INSERT INTO ${joinTable} ("userId", "${scopeColumn}")
+         SELECT $1, s."${scopeColumn}" FROM ${joinTable} s
+         WHERE s."userId" = $2
+           AND NOT EXISTS (
+             SELECT 1 FROM ${joinTable} p
+             WHERE p."userId" = $1 AND p."${scopeColumn}" = s."${scopeColumn}"
+           )`,
+        [primaryId, secondaryId],
+      );
+    }
+
+    await manager.delete(target, byUser(secondaryId));
+    await manager.query(`DELETE FROM ${joinTable} WHERE "userId" = $1`, [
+      secondaryId,
+    ]);
+  }
+
+  /**
+   * Приглашения, рефералы, уведомления и история действий переходят основному аккаунту
+   */
+  private async reassignReferences(
+    manager: EntityManager,
+    primaryId: string,
+    secondaryId: string,
+  ): Promise<void> {
+    const moves: Array<[EntityTarget<object>, string]> = [
+      [Invitation, 'invitedById'],
+      [Invitation, 'acceptedById'],
+      [Notification, 'userId'],
+      [AuditActor, 'userId'],
+      [Organization, 'createdBy'],
+      [Team, 'createdBy'],
+      [OrganizationMembership, 'invitedBy'],
+      [TeamMembership, 'invitedBy'],
+      [UserRoleAssignment, 'assignedBy'],
+    ];
+    for (const [target, column] of moves) {
+      await manager.update(
+        target,
+        { [column]: secondaryId },
+        { [column]: primaryId },
+      );
+    }
+
+    // referrals используется двумя реферальными модулями с разными колонками
+    for (const column of ['referrerId', 'referredUserId', 'referredId']) {
+      await manager.query(
+        `UPDATE referrals SET "${column}" = $1 WHERE "${column}" = $2`,
+        [primaryId, secondaryId],
+      );
+    }
+  }
+
+  private assignmentKey(assignment: UserRoleAssignment): string {
+    return [
+      assignment.roleId,
+      assignment.organizationRoleId,
+      assignment.teamRoleId,
+      assignment.organizationId,
+      assignment.teamId,
+    ]
+      .map((value) => value ?? '-')
+      .join(':');
+  }
+}
@@ -0,0 +1,343 @@
+import {
+  HttpException,
+  HttpStatus,
+  Injectable,
+  Logger,
+  UnauthorizedException,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { InjectRepository } from '@nestjs/typeorm';
+import { Cron, CronExpression } from '@nestjs/schedule';
+import { LessThan, MoreThan, Repository } from 'typeorm';
+import { createHash } from 'crypto';
+import {
+  LoginAttempt,
+  LoginAttemptChannel,
+} from '../entities/login-attempt.entity';
+import { User } from '../../users/entities/user.entity';
+import { SigningKeysService } from './signing-keys.service';
+import { EmailService } from '../email.service';
+
+// Одинаковые ответы для несуществующего аккаунта, неверного пароля и неверного кода
+export const INVALID_CREDENTIALS_MESSAGE = 'Неверный email или пароль';
+export const INVALID_CODE_MESSAGE = 'Неверный или просроченный код';
+export const LOCKED_MESSAGE =
+  'Слишком много неудачных попыток входа. Попробуйте позже или разблокируйте аккаунт по ссылке из письма';
+
+const UNLOCK_TOKEN_AUDIENCE = 'account-unlock';
+
+export interface LoginAttemptContext {
+  ipAddress?: string | null;
+  userId?: string | null;
+}
+
+export interface AccountLockStatus {
+  locked: boolean;
+  lockedUntil: Date | null;
+  failedAttempts: number;
+}
+
+/**
+ * Защита входа от подбора: учёт неудачных попыток по аккаунту и IP,
+ * нарастающая задержка ответа, временная блокировка и разблокировка
+ */
+@Injectable()
+export class LoginProtectionService {
+  private readonly logger = new Logger(LoginProtectionService.name);
+
+  constructor(
+    @InjectRepository(LoginAttempt)
+    private loginAttemptsRepo: Repository<LoginAttempt>,
+    @InjectRepository(User)
+    private usersRepo: Repository<User>,
+    private signingKeysService: SigningKeysService,
+    private emailService: EmailService,
+    private configService: ConfigService,
+  ) {}
+
+  emailKey(email: string): string {
+    return `email:${email.trim().toLowerCase()}`;
+  }
+
+  phoneKey(phone: string): string {
+    return `phone:${phone.replace(/[^\d+]/g, '')}`;
+  }
+
+  userKey(userId: string): string {
+    return `user:${userId}`;
+  }
+
+  telegramKey(telegramId: string | number): string {
+    return `telegram:${String(telegramId)}`;
+  }
+
+  /**
+   * Ключ незарегистрированного passkey: аккаунта нет, попытки учитываются в лимите IP
+   */
+  passkeyKey(credentialId: string): string {
+    return `passkey:${createHash('sha256').update(credentialId).digest('base64url')}`;
+  }
+
+  /**
+   * Отказ до проверки учётных данных, если аккаунт или IP заблокированы
+   */
+  async assertAllowed(accountKey: string, ipAddress?: string | null) {
+    const { lockedUntil } = await this.getAccountState(accountKey);
+    if (lockedUntil) {
+      throw this.lockedException(lockedUntil);
+    }
+
+    if (ipAddress) {
+      const ipFailures = await this.loginAttemptsRepo.count({
+        where: {
+          ipAddress,
+          success: false,
+          createdAt: MoreThan(this.windowStart()),
+        },
+      });
+      if (ipFailures >= this.config('maxIpAttempts')) {
+        this.logger.warn(`🚫 Вход с IP ${ipAddress} временно заблокирован`);
+        throw this.lockedException(
+          new Date(Date.now() + this.config('lockoutMinutes') * 60_000),
+        );
+      }
+    }
+  }
+
+  /**
+   * Неудачная попытка: запись, письмо при блокировке и задержка ответа
+   */
+  async recordFailure(
+    accountKey: string,
+    channel: LoginAttemptChannel,
+    context: LoginAttemptContext = {},
+  ): Promise<void> {
+    await this.loginAttemptsRepo.save(
+      this.loginAttemptsRepo.create({
+        accountKey,
+        channel,
+        success: false,
+        userId: context.userId ?? null,
+        ipAddress: context.ipAddress ?? null,
+      }),
+    );
+
+    const { failedAttempts, lockedUntil } =
+      await this.getAccountState(accountKey);
+
+    if (lockedUntil && failedAttempts === this.config('maxAccountAttempts')) {
+      this.logger.warn(
+        `🔒 Аккаунт ${accountKey} заблокирован до ${lockedUntil.toISOString()}`,
+      );
+      if (context.userId) {
+        await this.sendUnlockEmail(context.userId, lockedUntil);
+      }
+    }
+
+    await this.delay(failedAttempts);
+  }
+
+  /**
+   * Успешный вход сбрасывает счётчик неудач аккаунта
+   */
+  async recordSuccess(
+    accountKey: string,
+    channel: LoginAttemptChannel,
+    context: LoginAttemptContext = {},
+  ): Promise<void> {
+    await this.loginAttemptsRepo.save(
+      this.loginAttemptsRepo.create({
+        accountKey,
+        channel,
+        success: true,
+        userId: context.userId ?? null,
+        ipAddress: context.ipAddress ?? null,
+      }),
+    );
+  }
+
+  /**
+   * Разблокировка всех идентификаторов пользователя (email, телефон, id)
+   */
+  async unlock(userId: string, ipAddress?: string | null): Promise<void> {
+    const keys = await this.getUserKeys(userId);
+    await this.loginAttemptsRepo.save(
+      keys.map((accountKey) =>
+        this.loginAttemptsRepo.create({
+          accountKey,
+          channel: LoginAttemptChannel.UNLOCK,
+          success: true,
+          userId,
+          ipAddress: ipAddress ?? null,
+        }),
+      ),
+    );
+    this.logger.log(`🔓 Аккаунт ${userId} разблокирован`);
+  }
+
+  /**
+   * Разблокировка по ссылке из письма
+   */
+  async unlockWithToken(token: string, ipAddress?: string | null) {
+    const payload = await this.signingKeysService.verify<{
+      sub?: string;
+      aud?: string;
+    }>(token);
+    if (payload.aud !== UNLOCK_TOKEN_AUDIENCE || !payload.sub) {
+      throw new UnauthorizedException('Невалидная ссылка разблокировки');
+    }
+
+    await this.unlock(payload.sub, ipAddress);
+  }
+
+  /**
+   * Состояние блокировки пользователя (для администратора)
+   */
+  async getStatus(userId: string): Promise<AccountLockStatus> {
+    const keys = await this.getUserKeys(userId);
+    const states = await Promise.all(
+      keys.map((key) => this.getAccountState(key)),
+    );
+
+    const lockedUntil = states
+      .map((state) => state.lockedUntil)
+      .filter((date): date is Date => Boolean(date))
+      .sort((a, b) => b.getTime() - a.getTime())[0];
+
+    return {
+      locked: Boolean(lockedUntil),
+      lockedUntil: lockedUntil ?? null,
+      failedAttempts: Math.max(0, ...states.map((s) => s.failedAttempts)),
+    };
+  }
+
+  /**
+   * Удаление старых попыток входа
+   */
+  @Cron(CronExpression.EVERY_DAY_AT_3AM)
+  async cleanupOldAttempts() {
+    const before = new Date(
+      Date.now() - this.config('retentionDays') * 24 * 60 * 60_000,
+    );
+    const result = await this.loginAttemptsRepo.delete({
+      createdAt: LessThan(before),
+    });
+    if (result.affected) {
+      this.logger.log(`🧹 Удалено попыток входа: ${result.affected}`);
+    }
+  }
+
+  // Приватные методы
+
+  /**
+   * Неудачи после последнего успеха или разблокировки в пределах окна
+   */
+  private async getAccountState(
+    accountKey: string,
+  ): Promise<{ failedAttempts: number; lockedUntil: Date | null }> {
+    const lastReset = await this.loginAttemptsRepo.findOne({
+      where: { accountKey, success: true },
+      order: { createdAt: 'DESC' },
+      select: ['id', 'createdAt'],
+    });
+
+    const windowStart = this.windowStart();
+    const since =
+      lastReset && lastReset.createdAt > windowStart
+        ? lastReset.createdAt
+        : windowStart;
+
+    const failures = await this.loginAttemptsRepo.find({
+      where: { accountKey, success: false, createdAt: MoreThan(since) },
+      order: { createdAt: 'DESC' },
+      select: ['id', 'createdAt'],
+    });
+
+    if (failures.length < this.config('maxAccountAttempts')) {
+      return { failedAttempts: failures.length, lockedUntil: null };
+    }
+
+    const lockedUntil = new Date(
+      failures[0].createdAt.getTime() + this.config('lockoutMinutes') * 60_000,
+    );
+    return {
+      failedAttempts: failures.length,
+      lockedUntil: lockedUntil > new Date() ? lockedUntil : null,
+    };
+  }
+
+  private async getUserKeys(userId: string): Promise<string[]> {
+    const user = await this.usersRepo.findOne({
+      where: { id: userId },
+      select: ['id', 'email', 'phone', 'telegramId'],
+    });
+
+    const keys = [this.userKey(userId)];
+    if (user?.email) keys.push(this.emailKey(user.email));
+    if (user?.phone) keys.push(this.phoneKey(user.phone));
+    if (user?.telegramId) keys.push(this.telegramKey(user.telegramId));
+    return keys;
+  }
+
+  private async sendUnlockEmail(userId: string, lockedUntil: Date) {
+    try {
+      const user = await this.usersRepo.findOne({
+        where: { id: userId },
+        select: ['id', 'email'],
+      });
+      if (!user?.email) {
+        return;
+      }
+
+      const token = this.signingKeysService.sign(
+        { sub: userId, aud: UNLOCK_TOKEN_AUDIENCE },
+        { expiresIn: '24h' },
+      );
+      const frontendUrl = this.configService.get<string>('app.frontendUrl');
+      await this.emailService.sendAccountLockedEmail(
+        user.email,
+        `${frontendUrl}/unlock-account.html?token=${token}`,
+        lockedUntil,
+      );
+    } catch (error) {
+      this.logger.error(`Не удалось отправить письмо о блокировке: ${error}`);
+    }
+  }
+
+  private async delay(failedAttempts: number): Promise<void> {
+    const ms = Math.min(
+      this.config('baseDelayMs') * 2 ** Math.max(0, failedAttempts - 1),
+      this.config('maxDelayMs'),
+    );
+    await new Promise((resolve) => setTimeout(resolve, ms));
+  }
+
+  private lockedException(lockedUntil: Date): HttpException {
+    return new HttpException(
+      {
+        statusCode: HttpStatus.TOO_MANY_REQUESTS,
+        error: 'Too Many Requests',
+        message: LOCKED_MESSAGE,
+        retryAfter: Math.ceil((lockedUntil.getTime() - Date.now()) / 1000),
+      },
+      HttpStatus.TOO_MANY_REQUESTS,
+    );
+  }
+
+  private windowStart(): Date {
+    return new Date(Date.now() - this.config('windowMinutes') * 60_000);
+  }
+
+  private config(
+    key:
+      | 'maxAccountAttempts'
+      | 'maxIpAttempts'
+      | 'windowMinutes'
+      | 'lockoutMinutes'
+      | 'baseDelayMs'
+      | 'maxDelayMs'
+      | 'retentionDays',
+  ): number {
+    return this.configService.get<number>(`loginProtection.${key}`) ?? 0;
+  }
+}
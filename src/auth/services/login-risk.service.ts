@@ -0,0 +1,487 @@
+import { Injectable, Logger, UnauthorizedException } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { InjectRepository } from '@nestjs/typeorm';
+import { Cron, CronExpression } from '@nestjs/schedule';
+import { LessThan, MoreThan, Repository } from 'typeorm';
+import { isIPv4, isIPv6 } from 'net';
+import {
+  LoginRiskAssessment,
+  LoginRiskDecision,
+  LoginRiskSignal,
+  LoginRiskStatus,
+} from '../entities/login-risk-assessment.entity';
+import {
+  LoginAttempt,
+  LoginAttemptChannel,
+} from '../entities/login-attempt.entity';
+import { User } from '../../users/entities/user.entity';
+import { SessionContext } from '../interfaces/session.interface';
+import { LoginProtectionService } from './login-protection.service';
+import { SessionsService } from './sessions.service';
+import { SecretHashService } from './secret-hash.service';
+import { SigningKeysService } from './signing-keys.service';
+import { EmailService } from '../email.service';
+import { NotificationsService } from '../../notifications/notifications.service';
+import { NotificationType } from '../../notifications/entities/notification.entity';
+import { AuditService } from '../../audit/audit.service';
+import { AuditEvent } from '../../audit/enums/audit-event.enum';
+
+export const LOGIN_BLOCKED_MESSAGE =
+  'Вход заблокирован как подозрительный. Мы отправили письмо владельцу аккаунта';
+
+const NOT_ME_TOKEN_AUDIENCE = 'login-not-me';
+const DEVICE_FINGERPRINT_SCOPE = 'device-fingerprint';
+const HISTORY_SIZE = 100;
+
+/**
+ * Оценка риска входа с верным паролем: новое устройство, новая подсеть, непривычное время,
+ * серия неудачных попыток. По сумме баллов вход пропускается, подтверждается вторым фактором
+ * или блокируется; о необычном входе пользователь узнаёт из уведомления и письма
+ */
+@Injectable()
+export class LoginRiskService {
+  private readonly logger = new Logger(LoginRiskService.name);
+
+  constructor(
+    @InjectRepository(LoginRiskAssessment)
+    private assessmentsRepo: Repository<LoginRiskAssessment>,
+    @InjectRepository(LoginAttempt)
+    private loginAttemptsRepo: Repository<LoginAttempt>,
+    @InjectRepository(User)
+    private usersRepo: Repository<User>,
+    private loginProtectionService: LoginProtectionService,
+    private sessionsService: SessionsService,
+    private secretHashService: SecretHashService,
+    private signingKeysService: SigningKeysService,
+    private emailService: EmailService,
+    private notificationsService: NotificationsService,
+    private auditService: AuditService,
+    private configService: ConfigService,
+  ) {}
+
+  /**
+   * Оценка входа. secondFactor - вход ещё подтверждается 2FA: до этого он не попадает в историю
+   */
+  async assess(
+    user: User,
+    channel: LoginAttemptChannel,
+    context: SessionContext = {},
+    options: { secondFactor?: boolean } = {},
+  ): Promise<LoginRiskAssessment> {
+    const deviceFingerprint = this.fingerprint(context.userAgent);
+    const subnet = ipSubnet(context.ipAddress);
+    const hour = new Date().getUTCHours();
+
+    const signals = this.isEnabled()
+      ? await this.detectSignals(user, { deviceFingerprint, subnet, hour })
+      : [];
+    const score = signals.reduce(
+      (sum, signal) => sum + this.signalScore(signal),
+      0,
+    );
+
+    let decision = LoginRiskDecision.ALLOW;
+    if (score >= this.config('blockScore')) {
+      decision = LoginRiskDecision.BLOCK;
+    } else if (score >= this.config('challengeScore')) {
+      decision = LoginRiskDecision.CHALLENGE;
+    }
+
+    let status = LoginRiskStatus.CONFIRMED;
+    if (decision === LoginRiskDecision.BLOCK) {
+      status = LoginRiskStatus.BLOCKED;
+    } else if (
+      decision === LoginRiskDecision.CHALLENGE ||
+      options.secondFactor
+    ) {
+      status = LoginRiskStatus.PENDING;
+    }
+
+    const assessment = await this.assessmentsRepo.save(
+      this.assessmentsRepo.create({
+        userId: user.id,
+        channel,
+        ipAddress: context.ipAddress ?? null,
+        subnet,
+        deviceFingerprint,
+        userAgent: context.userAgent?.substring(0, 500) ?? null,
+        hour,
+        score,
+        signals,
+        decision,
+        status,
+        resolvedAt: status === LoginRiskStatus.PENDING ? null : new Date(),
+      }),
+    );
+
+    if (signals.length > 0) {
+      this.logger.warn(
+        `⚠️ Вход пользователя ${user.id}: ${signals.join(', ')} (баллы ${score}, решение ${decision})`,
+      );
+      await this.auditService.record(AuditEvent.AUTH_LOGIN_RISK, {
+        actorId: decision === LoginRiskDecision.BLOCK ? null : user.id,
+        targetType: 'user',
+        targetId: user.id,
+        outcome: decision === LoginRiskDecision.BLOCK ? 'failure' : 'success',
+        statusCode: decision === LoginRiskDecision.BLOCK ? 403 : 200,
+        details: { assessmentId: assessment.id, score, signals, decision },
+        context,
+      });
+    }
+    if (score >= this.config('notifyScore')) {
+      await this.notify(user, assessment);
+    }
+
+    return assessment;
+  }
+
+  /**
+   * Есть неподтверждённый подозрительный вход: второй фактор (код из письма) требуется и без настроенной 2FA
+   */
+  async hasPendingChallenge(userId: string): Promise<boolean> {
+    return this.assessmentsRepo.exists({
+      where: {
+        userId,
+        decision: LoginRiskDecision.CHALLENGE,
+        status: LoginRiskStatus.PENDING,
+        createdAt: MoreThan(this.challengeStart()),
+      },
+    });
+  }
+
+  /**
+   * Второй фактор пройден: ожидающие входы становятся подтверждёнными
+   */
+  async confirmPending(userId: string): Promise<void> {
+    await this.assessmentsRepo.update(
+      {
+        userId,
+        status: LoginRiskStatus.PENDING,
+        createdAt: MoreThan(this.challengeStart()),
+      },
+      { status: LoginRiskStatus.CONFIRMED, resolvedAt: new Date() },
+    );
+  }
+
+  /**
+   * Неверный код 2FA: пароль уже известен, поэтому после серии неудач ожидающий вход
+   * блокируется и пользователь получает уведомление
+   */
+  async recordSecondFactorFailure(userId: string): Promise<void> {
+    if (!this.isEnabled()) {
+      return;
+    }
+
+    const failures = await this.loginAttemptsRepo.count({
+      where: {
+        accountKey: this.loginProtectionService.userKey(userId),
+        channel: LoginAttemptChannel.TWO_FACTOR,
+        success: false,
+        createdAt: MoreThan(this.velocityStart()),
+      },
+    });
+    if (failures !== this.config('failedVelocityThreshold')) {
+      return;
+    }
+
+    const pending = await this.assessmentsRepo.findOne({
+      where: {
+        userId,
+        status: LoginRiskStatus.PENDING,
+        createdAt: MoreThan(this.challengeStart()),
+      },
+      order: { createdAt: 'DESC' },
+    });
+    const user = await this.usersRepo.findOne({ where: { id: userId } });
+    if (!pending || !user) {
+      return;
+    }
+
+    if (!pending.signals.includes(LoginRiskSignal.FAILED_VELOCITY)) {
+      pending.signals = [...pending.signals, LoginRiskSignal.FAILED_VELOCITY];
+      pending.score += this.config('failedVelocityScore');
+    }
+    pending.decision = LoginRiskDecision.BLOCK;
+    pending.status = LoginRiskStatus.BLOCKED;
+    pending.resolvedAt = new Date();
+    await this.assessmentsRepo.save(pending);
+
+    this.logger.warn(
+      `⚠️ Серия неверных кодов 2FA пользователя ${userId}: вход заблокирован`,
+    );
+    await this.notify(user, pending);
+  }
+
+  /**
+   * «Это был не я»: завершение всех сессий пользователя по ссылке из письма
+   */
+  async reportNotMe(
+    token: string,
+    ipAddress?: string | null,
+  ): Promise<{ revokedSessions: number }> {
+    const payload = await this.signingKeysService.verify<{
+      sub?: string;
+      aud?: string;
+      aid?: string;
+    }>(token);
+    if (payload.aud !== NOT_ME_TOKEN_AUDIENCE || !payload.sub) {
+      throw new UnauthorizedException('Невалидная ссылка');
+    }
+
+    const revokedSessions = await this.sessionsService.revokeAllSessions(
+      payload.sub,
+    );
+    if (payload.aid) {
+      await this.assessmentsRepo.update(
+        { id: payload.aid, userId: payload.sub },
+        { status: LoginRiskStatus.REPORTED, resolvedAt: new Date() },
+      );
+    }
+
+    this.logger.warn(
+      `🚨 Пользователь ${payload.sub} сообщил о чужом входе, завершено сессий: ${revokedSessions}`,
+    );
+    await this.auditService.record(AuditEvent.AUTH_LOGIN_REPORTED, {
+      actorId: payload.sub,
+      targetType: 'user',
+      targetId: payload.sub,
+      details: { assessmentId: payload.aid ?? null, revokedSessions },
+      context: { ipAddress },
+    });
+
+    return { revokedSessions };
+  }
+
+  /**
+   * Последние оценки входов пользователя (для администратора)
+   */
+  async findRecent(userId: string, limit = 50): Promise<LoginRiskAssessment[]> {
+    return this.assessmentsRepo.find({
+      where: { userId },
+      order: { createdAt: 'DESC' },
+      take: limit,
+    });
+  }
+
+  /**
+   * Удаление старых оценок
+   */
+  @Cron(CronExpression.EVERY_DAY_AT_3AM)
+  async cleanupOldAssessments() {
+    const before = new Date(
+      Date.now() - this.config('retentionDays') * 24 * 60 * 60_000,
+    );
+    const result = await this.assessmentsRepo.delete({
+      createdAt: LessThan(before),
+    });
+    if (result.affected) {
+      this.logger.log(`🧹 Удалено оценок риска входа: ${result.affected}`);
+    }
+  }
+
+  // Приватные методы
+
+  private async detectSignals(
+    user: User,
+    current: {
+      deviceFingerprint: string | null;
+      subnet: string | null;
+      hour: number;
+    },
+  ): Promise<LoginRiskSignal[]> {
+    const history = await this.assessmentsRepo.find({
+      where: { userId: user.id, status: LoginRiskStatus.CONFIRMED },
+      order: { createdAt: 'DESC' },
+      take: HISTORY_SIZE,
+      select: ['id', 'deviceFingerprint', 'subnet', 'hour'],
+    });
+
+    const signals: LoginRiskSignal[] = [];
+
+    // Первый вход сравнивать не с чем
+    if (history.length > 0) {
+      if (
+        current.deviceFingerprint &&
+        !history.some(
+          (entry) => entry.deviceFingerprint === current.deviceFingerprint,
+        )
+      ) {
+        signals.push(LoginRiskSignal.NEW_DEVICE);
+      }
+      if (
+        current.subnet &&
+        !history.some((entry) => entry.subnet === current.subnet)
+      ) {
+        signals.push(LoginRiskSignal.NEW_SUBNET);
+      }
+    }
+
+    // Привычное время - в пределах часа от любого из прошлых входов
+    if (
+      history.length >= this.config('minHoursHistory') &&
+      !history.some((entry) => {
+        const distance = Math.abs(entry.hour - current.hour);
+        return Math.min(distance, 24 - distance) <= 1;
+      })
+    ) {
+      signals.push(LoginRiskSignal.UNUSUAL_HOUR);
+    }
+
+    if (
+      (await this.countRecentFailures(user)) >=
+      this.config('failedVelocityThreshold')
+    ) {
+      signals.push(LoginRiskSignal.FAILED_VELOCITY);
+    }
+
+    return signals;
+  }
+
+  /**
+   * Неудачи по всем идентификаторам пользователя: неверный пароль записывается без userId
+   */
+  private async countRecentFailures(user: User): Promise<number> {
+    const keys = [this.loginProtectionService.userKey(user.id)];
+    if (user.email) keys.push(this.loginProtectionService.emailKey(user.email));
+    if (user.phone) keys.push(this.loginProtectionService.phoneKey(user.phone));
+
+    return this.loginAttemptsRepo
+      .createQueryBuilder('attempt')
+      .where('attempt.success = false')
+      .andWhere('attempt.createdAt > :since', { since: this.velocityStart() })
+      .andWhere(
+        '(attempt.userId = :userId OR attempt.accountKey IN (:...keys))',
+        {
+          userId: user.id,
+          keys,
+        },
+      )
+      .getCount();
+  }
+
+  private async notify(user: User, assessment: LoginRiskAssessment) {
+    const blocked = assessment.decision === LoginRiskDecision.BLOCK;
+    const device = this.sessionsService.describeUserAgent(assessment.userAgent);
+    const ipAddress = assessment.ipAddress ?? 'неизвестен';
+
+    try {
+      const token = this.signingKeysService.sign(
+        { sub: user.id, aud: NOT_ME_TOKEN_AUDIENCE, aid: assessment.id },
+        { expiresIn: '7d' },
+      );
+      const frontendUrl = this.configService.get<string>('app.frontendUrl');
+      const notMeLink = `${frontendUrl}/not-me.html?token=${token}`;
+
+      await this.notificationsService.createNotification(
+        user.id,
+        NotificationType.WARNING,
+        blocked
+          ? 'Подозрительный вход заблокирован'
+          : 'Необычный вход в аккаунт',
+        `${device}, IP ${ipAddress}. Если это были не вы, завершите все сессии и смените пароль.`,
+        {
+          assessmentId: assessment.id,
+          signals: assessment.signals,
+          decision: assessment.decision,
+          notMeLink,
+        },
+      );
+      if (user.email) {
+        await this.emailService.sendLoginAlertEmail(user.email, {
+          device,
+          ipAddress,
+          loginTime: assessment.createdAt,
+          blocked,
+          notMeLink,
+        });
+      }
+    } catch (error) {
+      this.logger.error(`Не удалось уведомить о необычном входе: ${error}`);
+    }
+  }
+
+  /**
+   * Отпечаток устройства: User-Agent без номеров версий, чтобы обновление браузера не давало новое устройство
+   */
+  private fingerprint(userAgent?: string | null): string | null {
+    if (!userAgent) {
+      return null;
+    }
+    return this.secretHashService.hash(
+      userAgent.replace(/[\d._]+/g, '').toLowerCase(),
+      DEVICE_FINGERPRINT_SCOPE,
+    );
+  }
+
+  private signalScore(signal: LoginRiskSignal): number {
+    switch (signal) {
+      case LoginRiskSignal.NEW_DEVICE:
+        return this.config('newDeviceScore');
+      case LoginRiskSignal.NEW_SUBNET:
+        return this.config('newSubnetScore');
+      case LoginRiskSignal.UNUSUAL_HOUR:
+        return this.config('unusualHourScore');
+      case LoginRiskSignal.FAILED_VELOCITY:
+        return this.config('failedVelocityScore');
+    }
+  }
+
+  private velocityStart(): Date {
+    return new Date(Date.now() - this.config('velocityWindowMinutes') * 60_000);
+  }
+
+  private challengeStart(): Date {
+    return new Date(Date.now() - this.config('challengeMinutes') * 60_000);
+  }
+
+  private isEnabled(): boolean {
+    return this.configService.get<boolean>('loginRisk.enabled') ?? true;
+  }
+
+  private config(
+    key:
+      | 'newDeviceScore'
+      | 'newSubnetScore'
+      | 'unusualHourScore'
+      | 'failedVelocityScore'
+      | 'failedVelocityThreshold'
+      | 'velocityWindowMinutes'
+      | 'minHoursHistory'
+      | 'notifyScore'
+      | 'challengeScore'
+      | 'blockScore'
+      | 'challengeMinutes'
+      | 'retentionDays',
+  ): number {
+    return this.configService.get<number>(`loginRisk.${key}`) ?? 0;
+  }
+}
+
+/**
+ * Подсеть адреса: /24 для IPv4, /48 для IPv6
+ */
+function ipSubnet(ipAddress?: string | null): string | null {
+  if (!ipAddress) {
+    return null;
+  }
+  const address = ipAddress.replace(/^::ffff:/i, '');
+
+  if (isIPv4(address)) {
+    return `${address.split('.').slice(0, 3).join('.')}.0/24`;
+  }
+  if (isIPv6(address)) {
+    const [head, tail = ''] = address.toLowerCase().split('::');
+    const headGroups = head ? head.split(':') : [];
+    const tailGroups = address.includes('::') && tail ? tail.split(':') : [];
+    const groups = [
+      ...headGroups,
+      ...Array<string>(8 - headGroups.length - tailGroups.length).fill('0'),
+      ...tailGroups,
+    ];
+    return `${groups
+      .slice(0, 3)
+      .map((group) => parseInt(group, 16).toString(16))
+      .join(':')}::/48`;
+  }
+  return null;
+}
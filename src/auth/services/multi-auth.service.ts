@@ -1,25 +1,39 @@
 import { Injectable, Logger, NotFoundException, ConflictException, BadRequestException, Inject, forwardRef } from '@nestjs/common';
 import { InjectRepository } from '@nestjs/typeorm';
 import { Repository } from 'typeorm';
+import * as bcrypt from 'bcrypt';
 import { User } from '../../users/entities/user.entity';
 import { Role } from '../../rbac/entities/role.entity';
 import { UserRoleAssignment } from '../../users/entities/user-role-assignment.entity';
 import { SettingsService } from '../../settings/settings.service';
-import { VerificationCode } from '../entities/verification-code.entity';
-import { AccountMergeRequest } from '../entities/account-merge-request.entity';
+import { UserIdentity } from '../../identities/entities/user-identity.entity';
 import { AuthMethodType } from '../enums/auth-method-type.enum';
 import { UsersService } from '../../users/users.service';
 import { AuthService } from '../auth.service';
+import {
+  LoginProtectionService,
+  INVALID_CREDENTIALS_MESSAGE,
+  INVALID_CODE_MESSAGE,
+} from './login-protection.service';
+import { LoginAttemptChannel } from '../entities/login-attempt.entity';
+import { VerificationCodesService } from './verification-codes.service';
+import { PhoneAuthService } from './phone-auth.service';
+import { AccountMergeService } from './account-merge.service';
+import { SessionContext } from '../interfaces/session.interface';
+import { WebhooksService } from '../../webhooks/webhooks.service';
+import { WebhookEvent } from '../../webhooks/enums/webhook-event.enum';
 import {
   AuthResult,
   VerificationCodeData,
-  AccountMergeRequestData,
   MergeConflicts,
   MergeResolution,
   SystemAuthSettings,
   MfaSettings,
 } from '../interfaces/multi-auth.interface';
 
+const OAUTH_FLOW_REQUIRED_MESSAGE =
+  'Внешний аккаунт привязывается через провайдера: POST /auth/oauth/:provider/bind';
+
 @Injectable()
 export class MultiAuthService {
   private readonly logger = new Logger(MultiAuthService.name);
@@ -27,10 +41,8 @@ export class MultiAuthService {
   constructor(
     @InjectRepository(User)
     private usersRepo: Repository<User>,
-    @InjectRepository(VerificationCode)
-    private verificationCodesRepo: Repository<VerificationCode>,
-    @InjectRepository(AccountMergeRequest)
-    private mergeRequestsRepo: Repository<AccountMergeRequest>,
+    @InjectRepository(UserIdentity)
+    private identitiesRepo: Repository<UserIdentity>,
     @InjectRepository(Role)
     private rolesRepo: Repository<Role>,
     @InjectRepository(UserRoleAssignment)
@@ -39,6 +51,11 @@ export class MultiAuthService {
     private settingsService: SettingsService,
     @Inject(forwardRef(() => AuthService))
     private authService: AuthService,
+    private loginProtectionService: LoginProtectionService,
+    private accountMergeService: AccountMergeService,
+    private webhooksService: WebhooksService,
+    private verificationCodesService: VerificationCodesService,
+    private phoneAuthService: PhoneAuthService,
   ) {}
 
   /**
@@ -50,6 +67,10 @@ export class MultiAuthService {
     password?: string,
     additionalData?: any,
   ): Promise<AuthResult> {
+    if (this.isOAuthMethod(authMethod)) {
+      return { success: false, error: OAUTH_FLOW_REQUIRED_MESSAGE };
+    }
+
     // Проверяем, существует ли пользователь с таким идентификатором
     const existingUser = await this.findUserByIdentifier(authMethod, identifier);
     
@@ -58,14 +79,12 @@ export class MultiAuthService {
       const conflicts = await this.detectConflicts(existingUser, authMethod, identifier, additionalData);
       
       if (Object.keys(conflicts).length > 0) {
-        // Создаем запрос на слияние аккаунтов
-        const mergeRequest = await this.createMergeRequest(existingUser.id, authMethod, identifier, conflicts);
-        
+        // Объединение возможно только из сессий обоих аккаунтов: /auth/merge-requests
         return {
           success: false,
           requiresMerge: true,
-          mergeRequestId: mergeRequest.id,
           conflicts,
+          error: 'Аккаунт с таким идентификатором уже существует. Войдите в него, чтобы объединить аккаунты',
         };
       }
       
@@ -78,21 +97,24 @@ export class MultiAuthService {
 
     // Создаем нового пользователя
     const newUser = await this.createUser(authMethod, identifier, password, additionalData);
+    await this.webhooksService.emitForUser(WebhookEvent.USER_REGISTERED, newUser.id, {
+      source: 'multi_auth',
+      authMethod,
+    });
     
-    // Генерируем код верификации, если требуется
+    // Отправляем код верификации, если требуется
     if (this.requiresVerification(authMethod)) {
-      const verificationCode = await this.generateVerificationCode(
-        authMethod,
+      const sent = await this.phoneAuthService.sendCode(
         identifier,
+        authMethod === AuthMethodType.PHONE_WHATSAPP ? 'whatsapp' : 'telegram',
         'registration',
-        additionalData,
       );
       
       return {
         success: true,
         user: newUser,
         requiresVerification: true,
-        verificationCode: verificationCode.code,
+        error: sent.success ? undefined : sent.error,
       };
     }
 
@@ -110,35 +132,38 @@ export class MultiAuthService {
     identifier: string,
     password?: string,
     verificationCode?: string,
+    context: SessionContext = {},
   ): Promise<AuthResult> {
+    const accountKey = this.getAccountKey(authMethod, identifier);
+    await this.loginProtectionService.assertAllowed(accountKey, context.ipAddress);
+
     const user = await this.findUserByIdentifier(authMethod, identifier);
-    
-    if (!user) {
-      return {
-        success: false,
-        error: 'Пользователь не найден',
-      };
-    }
 
-    // Проверяем пароль, если требуется
+    // Пароль (только для email) или одноразовый код; ошибки одинаковые независимо от существования аккаунта
+    let verified = false;
     if (password && authMethod === AuthMethodType.EMAIL) {
-      // Здесь должна быть проверка пароля через bcrypt
-      // const isValidPassword = await bcrypt.compare(password, user.passwordHash);
-      // if (!isValidPassword) {
-      //   return { success: false, error: 'Неверный пароль' };
-      // }
+      const withPassword = user
+        ? await this.usersRepo.findOne({ where: { id: user.id }, select: ['id', 'passwordHash'] })
+        : null;
+      verified = !!withPassword?.passwordHash && (await bcrypt.compare(password, withPassword.passwordHash));
+    } else if (verificationCode && user) {
+      verified = await this.verifyCode(verificationCode, identifier, authMethod, 'login');
     }
 
-    // Проверяем код верификации, если требуется
-    if (verificationCode) {
-      const isValidCode = await this.verifyCode(verificationCode, identifier, authMethod, 'login');
-      if (!isValidCode) {
-        return {
-          success: false,
-          error: 'Неверный код верификации',
-        };
-      }
+    if (!user || !verified) {
+      await this.loginProtectionService.recordFailure(accountKey, LoginAttemptChannel.MULTI_AUTH, {
+        ...context,
+        userId: user?.id,
+      });
+      return {
+        success: false,
+        error: verificationCode && !password ? INVALID_CODE_MESSAGE : INVALID_CREDENTIALS_MESSAGE,
+      };
     }
+    await this.loginProtectionService.recordSuccess(accountKey, LoginAttemptChannel.MULTI_AUTH, {
+      ...context,
+      userId: user.id,
+    });
 
     // Проверяем MFA, если настроено
     if (user.mfaSettings?.enabled) {
@@ -170,6 +195,11 @@ export class MultiAuthService {
       };
     }
 
+    // Внешний аккаунт подтверждается только ответом провайдера
+    if (this.isOAuthMethod(authMethod)) {
+      return { success: false, error: OAUTH_FLOW_REQUIRED_MESSAGE };
+    }
+
     // Проверяем, не привязан ли уже этот метод
     if (this.isAuthMethodBound(user, authMethod)) {
       return {
@@ -247,43 +277,17 @@ export class MultiAuthService {
   }
 
   /**
-   * Слияние аккаунтов с разрешением конфликтов
+   * Слияние аккаунтов с разрешением конфликтов (старый API, см. AccountMergeService)
    */
   async mergeAccounts(
+    userId: string,
     mergeRequestId: string,
     resolution: MergeResolution,
   ): Promise<AuthResult> {
-    const mergeRequest = await this.mergeRequestsRepo.findOne({
-      where: { id: mergeRequestId },
-      relations: ['primaryUser', 'secondaryUser'],
-    });
-
-    if (!mergeRequest) {
-      return {
-        success: false,
-        error: 'Запрос на слияние не найден',
-      };
-    }
-
-    if (mergeRequest.status !== 'pending') {
-      return {
-        success: false,
-        error: 'Запрос на слияние уже обработан',
-      };
-    }
-
-    // Выполняем слияние согласно разрешению конфликтов
-    const mergedUser = await this.performAccountMerge(mergeRequest, resolution);
-
-    // Обновляем статус запроса
-    mergeRequest.status = 'resolved';
-    mergeRequest.resolution = resolution;
-    mergeRequest.resolvedAt = new Date();
-    await this.mergeRequestsRepo.save(mergeRequest);
-
+    const user = await this.accountMergeService.accept(userId, mergeRequestId, resolution);
     return {
       success: true,
-      user: mergedUser,
+      user,
     };
   }
 
@@ -339,6 +343,21 @@ export class MultiAuthService {
 
   // Приватные методы
 
+  /**
+   * Ключ учёта попыток входа для идентификатора
+   */
+  private getAccountKey(authMethod: AuthMethodType, identifier: string): string {
+    switch (authMethod) {
+      case AuthMethodType.EMAIL:
+        return this.loginProtectionService.emailKey(identifier);
+      case AuthMethodType.PHONE_WHATSAPP:
+      case AuthMethodType.PHONE_TELEGRAM:
+        return this.loginProtectionService.phoneKey(identifier);
+      default:
+        return `${String(authMethod).toLowerCase()}:${identifier}`;
+    }
+  }
+
   private async findUserByIdentifier(
     authMethod: AuthMethodType,
     identifier: string,
@@ -354,14 +373,14 @@ export class MultiAuthService {
         whereCondition.phone = identifier;
         break;
       case AuthMethodType.GITHUB:
-        whereCondition.githubId = identifier;
-        break;
       case AuthMethodType.GOSUSLUGI:
-        whereCondition.gosuslugiId = identifier;
-        break;
-      case AuthMethodType.VKONTAKTE:
-        whereCondition.vkontakteId = identifier;
-        break;
+      case AuthMethodType.VKONTAKTE: {
+        const identity = await this.identitiesRepo.findOne({
+          where: { provider: this.getProviderId(authMethod), subject: identifier },
+          relations: ['user'],
+        });
+        return identity?.user ?? null;
+      }
     }
 
     return this.usersRepo.findOne({ where: whereCondition });
@@ -391,75 +410,23 @@ export class MultiAuthService {
         user.phone = identifier;
         user.phoneVerified = false;
         break;
-      case AuthMethodType.GITHUB:
-        user.githubId = identifier;
-        user.githubUsername = additionalData?.username;
-        user.githubVerified = true;
-        break;
-      case AuthMethodType.GOSUSLUGI:
-        user.gosuslugiId = identifier;
-        user.gosuslugiVerified = true;
-        break;
-      case AuthMethodType.VKONTAKTE:
-        user.vkontakteId = identifier;
-        user.vkontakteVerified = true;
-        break;
     }
 
     return this.usersRepo.save(user);
   }
 
-  private async generateVerificationCode(
-    authMethod: AuthMethodType,
-    identifier: string,
-    purpose: string,
-    metadata?: any,
-  ): Promise<VerificationCode> {
-    const code = this.generateRandomCode();
-    const expiresAt = new Date();
-    expiresAt.setMinutes(expiresAt.getMinutes() + 10); // Код действует 10 минут
-
-    const verificationCode = this.verificationCodesRepo.create({
-      code,
-      identifier,
-      authMethod,
-      purpose,
-      expiresAt,
-      metadata,
-    });
-
-    return this.verificationCodesRepo.save(verificationCode);
-  }
-
   private async verifyCode(
     code: string,
     identifier: string,
     authMethod: AuthMethodType,
     purpose: string,
   ): Promise<boolean> {
-    const verificationCode = await this.verificationCodesRepo.findOne({
-      where: {
-        code,
-        identifier,
-        authMethod,
-        purpose,
-        isUsed: false,
-      },
-    });
-
-    if (!verificationCode) {
-      return false;
-    }
-
-    if (verificationCode.expiresAt < new Date()) {
-      return false;
+    // Код общий для всех каналов доставки: область определяют идентификатор и назначение
+    const verified = await this.verificationCodesService.verify({ identifier, purpose }, code);
+    if (verified) {
+      this.logger.log(`✅ Код ${purpose} подтверждён для ${authMethod}: ${identifier}`);
     }
-
-    // Помечаем код как использованный
-    verificationCode.isUsed = true;
-    await this.verificationCodesRepo.save(verificationCode);
-
-    return true;
+    return !!verified;
   }
 
   private async detectConflicts(
@@ -494,33 +461,6 @@ export class MultiAuthService {
     return conflicts;
   }
 
-  private async createMergeRequest(
-    primaryUserId: string,
-    authMethod: AuthMethodType,
-    identifier: string,
-    conflicts: MergeConflicts,
-  ): Promise<AccountMergeRequest> {
-    const mergeRequest = this.mergeRequestsRepo.create({
-      primaryUserId,
-      secondaryUserId: primaryUserId, // Временно, пока не создан вторичный пользователь
-      authMethod: authMethod.toString(),
-      conflicts,
-      status: 'pending',
-      expiresAt: new Date(Date.now() + 24 * 60 * 60 * 1000), // 24 часа
-    });
-
-    return this.mergeRequestsRepo.save(mergeRequest);
-  }
-
-  private async performAccountMerge(
-    mergeRequest: AccountMergeRequest,
-    resolution: MergeResolution,
-  ): Promise<User> {
-    // Здесь должна быть логика слияния аккаунтов
-    // Пока возвращаем основного пользователя
-    return mergeRequest.primaryUser;
-  }
-
   private isAuthMethodBound(user: User, authMethod: AuthMethodType): boolean {
     const availableMethods = user.availableAuthMethods || [];
     return availableMethods.includes(authMethod);
@@ -547,18 +487,6 @@ export class MultiAuthService {
         user.phone = identifier;
         user.phoneVerified = true;
         break;
-      case AuthMethodType.GITHUB:
-        user.githubId = identifier;
-        user.githubVerified = true;
-        break;
-      case AuthMethodType.GOSUSLUGI:
-        user.gosuslugiId = identifier;
-        user.gosuslugiVerified = true;
-        break;
-      case AuthMethodType.VKONTAKTE:
-        user.vkontakteId = identifier;
-        user.vkontakteVerified = true;
-        break;
     }
 
     await this.usersRepo.save(user);
@@ -583,16 +511,12 @@ export class MultiAuthService {
         user.phoneVerified = false;
         break;
       case AuthMethodType.GITHUB:
-        user.githubId = null;
-        user.githubVerified = false;
-        break;
       case AuthMethodType.GOSUSLUGI:
-        user.gosuslugiId = null;
-        user.gosuslugiVerified = false;
-        break;
       case AuthMethodType.VKONTAKTE:
-        user.vkontakteId = null;
-        user.vkontakteVerified = false;
+        await this.identitiesRepo.delete({
+          userId: user.id,
+          provider: this.getProviderId(authMethod),
+        });
         break;
     }
 
@@ -606,17 +530,27 @@ export class MultiAuthService {
       case AuthMethodType.PHONE_WHATSAPP:
       case AuthMethodType.PHONE_TELEGRAM:
         return user.phone;
-      case AuthMethodType.GITHUB:
-        return user.githubId;
-      case AuthMethodType.GOSUSLUGI:
-        return user.gosuslugiId;
-      case AuthMethodType.VKONTAKTE:
-        return user.vkontakteId;
       default:
         return null;
     }
   }
 
+  private isOAuthMethod(authMethod: AuthMethodType): boolean {
+    return [
+      AuthMethodType.GITHUB,
+      AuthMethodType.GOSUSLUGI,
+      AuthMethodType.VKONTAKTE,
+      AuthMethodType.OAUTH,
+    ].includes(authMethod);
+  }
+
+  /**
+   * id провайдера в user_identities для встроенных способов входа
+   */
+  private getProviderId(authMethod: AuthMethodType): string {
+    return String(authMethod).toLowerCase();
+  }
+
   private requiresVerification(authMethod: AuthMethodType): boolean {
     return [
       AuthMethodType.PHONE_WHATSAPP,
@@ -624,10 +558,6 @@ export class MultiAuthService {
     ].includes(authMethod);
   }
 
-  private generateRandomCode(): string {
-    return Math.floor(100000 + Math.random() * 900000).toString();
-  }
-
   private generateBackupCodes(): string[] {
     const codes: string[] = [];
     for (let i = 0; i < 10; i++) {
@@ -636,92 +566,6 @@ export class MultiAuthService {
     return codes;
   }
 
-  /**
-   * Обработка Telegram Login Widget
-   */
-  async handleTelegramLogin(telegramUser: any): Promise<any> {
-    const { id, first_name, last_name, username, photo_url, auth_date, hash } = telegramUser;
-    
-    // Проверяем hash (безопасность)
-    const botToken = process.env.TELEGRAM_BOT_TOKEN;
-    if (!botToken) {
-      throw new Error('Telegram Bot Token не настроен');
-    }
-    
-    // TODO: Реализовать проверку hash
-    
-    const email = username ? `${username}@telegram.local` : `telegram_${id}@local`;
-    
-    // Ищем пользователя по email
-    let user = await this.usersService.findByEmail(email);
-    
-    if (!user) {
-      // Создаём нового пользователя
-      user = await this.usersService.create({
-        email,
-        firstName: first_name || '',
-        lastName: last_name || '',
-        avatarUrl: photo_url || '',
-        passwordHash: null,
-        isActive: true,
-        emailVerified: true,
-        primaryAuthMethod: AuthMethodType.PHONE_TELEGRAM,
-        availableAuthMethods: [AuthMethodType.PHONE_TELEGRAM],
-        messengerMetadata: {
-          telegram: {
-            userId: id.toString(),
-            username: username || '',
-          }
-        }
-      });
-      
-      // Назначаем роль новому пользователю
-      await this.assignDefaultRoleToUser(user.id);
-    }
-    
-    return user;
-  }
-
-  /**
-   * Назначение роли по умолчанию новому пользователю
-   */
-  private async assignDefaultRoleToUser(userId: string): Promise<void> {
-    try {
-      // Проверяем, есть ли уже пользователи в системе
-      const userCount = await this.usersRepo.count();
-      const isFirstUser = userCount === 1; // Только что создали пользователя, поэтому count = 1
-      
-      let roleToAssign;
-      
-      if (isFirstUser) {
-        // Первый пользователь становится super_admin
-        roleToAssign = await this.rolesRepo.findOne({
-          where: { name: 'super_admin' }
-        });
-        this.logger.log('👑 Первый пользователь получает роль super_admin');
-      } else {
-        // Остальные пользователи получают роль из настроек системы
-        const defaultRoleName = await this.settingsService.getDefaultUserRole();
-        roleToAssign = await this.rolesRepo.findOne({
-          where: { name: defaultRoleName }
-        });
-        this.logger.log(`👤 Новому пользователю назначена роль "${defaultRoleName}" (из настроек)`);
-      }
-      
-      if (roleToAssign) {
-        await this.userRoleAssignmentRepo.save({
-          userId: userId,
-          roleId: roleToAssign.id,
-        });
-        this.logger.log(`✅ Пользователю назначена роль "${roleToAssign.name}"`);
-      } else {
-        this.logger.log('⚠️ Роль не найдена');
-      }
-    } catch (error) {
-      this.logger.error(`Ошибка назначения роли: ${error.message}`);
-    }
-  }
-
   /**
    * Генерация Access Token
    */
@@ -0,0 +1,182 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { getRepositoryToken } from '@nestjs/typeorm';
+import { BadRequestException } from '@nestjs/common';
+import * as bcrypt from 'bcrypt';
+import { PasswordPolicyService } from './password-policy.service';
+import { SigningKeysService } from './signing-keys.service';
+import { PasswordHistory } from '../entities/password-history.entity';
+import { BreachedPassword } from '../entities/breached-password.entity';
+import { User } from '../../users/entities/user.entity';
+import { Organization } from '../../organizations/entities/organization.entity';
+import { OrganizationMembership } from '../../organizations/entities/organization-membership.entity';
+import { SettingsService } from '../../settings/settings.service';
+
+const USER_ID = 'user-1';
+
+describe('PasswordPolicyService', () => {
+  let service: PasswordPolicyService;
+
+  const mockPasswordHistoryRepository = {
+    find: jest.fn().mockResolvedValue([]),
+    create: jest.fn((data: Partial<PasswordHistory>) => data),
+    save: jest.fn(),
+    delete: jest.fn(),
+  };
+
+  const mockBreachedPasswordsRepository = {
+    exists: jest.fn().mockResolvedValue(false),
+  };
+
+  const mockUsersRepository = {
+    findOne: jest.fn(),
+    update: jest.fn().mockResolvedValue({ affected: 1 }),
+  };
+
+  // Пользователь состоит в организации, которая ужесточает глобальную политику
+  const mockOrganizationsRepository = {
+    find: jest.fn().mockResolvedValue([
+      {
+        id: 'org-1',
+        settings: {
+          passwordPolicy: {
+            minLength: 12,
+            requireDigits: true,
+            historySize: 3,
+          },
+        },
+      },
+    ]),
+  };
+
+  const mockOrganizationMembershipRepository = {
+    find: jest.fn().mockResolvedValue([{ id: 'm-1', organizationId: 'org-1' }]),
+  };
+
+  const mockSettingsService = {
+    getSetting: jest.fn().mockResolvedValue(null),
+  };
+
+  beforeEach(async () => {
+    jest.clearAllMocks();
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        PasswordPolicyService,
+        {
+          provide: getRepositoryToken(PasswordHistory),
+          useValue: mockPasswordHistoryRepository,
+        },
+        {
+          provide: getRepositoryToken(BreachedPassword),
+          useValue: mockBreachedPasswordsRepository,
+        },
+        {
+          provide: getRepositoryToken(User),
+          useValue: mockUsersRepository,
+        },
+        {
+          provide: getRepositoryToken(Organization),
+          useValue: mockOrganizationsRepository,
+        },
+        {
+          provide: getRepositoryToken(OrganizationMembership),
+          useValue: mockOrganizationMembershipRepository,
+        },
+        {
+          provide: SettingsService,
+          useValue: mockSettingsService,
+        },
+        {
+          provide: SigningKeysService,
+          useValue: {},
+        },
+      ],
+    }).compile();
+
+    service = module.get<PasswordPolicyService>(PasswordPolicyService);
+  });
+
+  describe('getViolations', () => {
+    it('should apply the policy of the user organization', async () => {
+      await expect(
+        service.getViolations('longpassword', { userId: USER_ID }),
+      ).resolves.toEqual(['Пароль должен содержать цифру']);
+      await expect(
+        service.getViolations('short1', { userId: USER_ID }),
+      ).resolves.toEqual(['Пароль должен быть не короче 12 символов']);
+    });
+
+    it('should reject a password from the breached list', async () => {
+      mockBreachedPasswordsRepository.exists.mockResolvedValueOnce(true);
+
+      await expect(service.getViolations('password123')).resolves.toEqual([
+        'Пароль найден в списке утёкших паролей',
+      ]);
+      expect(mockBreachedPasswordsRepository.exists).toHaveBeenCalledWith({
+        where: { sha1: 'CBFDAC6008F9CAB4083784CBD1874F76618D2A97' },
+      });
+    });
+  });
+
+  describe('changePassword', () => {
+    it('should reject one of the last passwords of the user', async () => {
+      mockUsersRepository.findOne.mockResolvedValueOnce({
+        id: USER_ID,
+        passwordHash: await bcrypt.hash('current-password-1', 4),
+      });
+      mockPasswordHistoryRepository.find.mockResolvedValueOnce([
+        {
+          id: 'h-1',
+          passwordHash: await bcrypt.hash('previous-password-1', 4),
+        },
+      ]);
+
+      await expect(
+        service.changePassword(USER_ID, 'previous-password-1'),
+      ).rejects.toThrow(BadRequestException);
+      expect(mockPasswordHistoryRepository.find).toHaveBeenCalledWith(
+        expect.objectContaining({ take: 3 }),
+      );
+      expect(mockUsersRepository.update).not.toHaveBeenCalled();
+    });
+
+    it('should save a new password and keep only the history the policy needs', async () => {
+      mockUsersRepository.findOne.mockResolvedValueOnce({
+        id: USER_ID,
+        passwordHash: await bcrypt.hash('current-password-1', 4),
+      });
+
+      await service.changePassword(USER_ID, 'brand-new-password-2');
+
+      expect(mockUsersRepository.update).toHaveBeenCalledWith(
+        USER_ID,
+        expect.objectContaining({ mustChangePassword: false }),
+      );
+      expect(mockPasswordHistoryRepository.save).toHaveBeenCalledTimes(1);
+      expect(mockPasswordHistoryRepository.find).toHaveBeenLastCalledWith(
+        expect.objectContaining({ skip: 3 }),
+      );
+    });
+  });
+
+  describe('getChangeReasons', () => {
+    it('should require a change of an expired password on login', async () => {
+      mockOrganizationsRepository.find.mockResolvedValueOnce([
+        { id: 'org-1', settings: { passwordPolicy: { maxAgeDays: 90 } } },
+      ]);
+      mockUsersRepository.findOne.mockResolvedValueOnce({
+        id: USER_ID,
+        mustChangePassword: false,
+        passwordChangedAt: new Date(Date.now() - 91 * 24 * 60 * 60_000),
+        createdAt: new Date('2025-01-01T00:00:00Z'),
+      });
+
+      await expect(
+        service.getChangeReasons({ id: USER_ID } as User, 'strong-password-1'),
+      ).resolves.toEqual(['Истёк срок действия пароля']);
+      expect(mockUsersRepository.update).toHaveBeenCalledWith(USER_ID, {
+        mustChangePassword: true,
+      });
+    });
+  });
+});
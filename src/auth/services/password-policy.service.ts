@@ -0,0 +1,417 @@
+import {
+  BadRequestException,
+  Injectable,
+  NotFoundException,
+  UnauthorizedException,
+} from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { In, Repository } from 'typeorm';
+import * as bcrypt from 'bcrypt';
+import { createHash } from 'crypto';
+import { PasswordHistory } from '../entities/password-history.entity';
+import { BreachedPassword } from '../entities/breached-password.entity';
+import { User } from '../../users/entities/user.entity';
+import { Organization } from '../../organizations/entities/organization.entity';
+import { OrganizationMembership } from '../../organizations/entities/organization-membership.entity';
+import { SettingsService } from '../../settings/settings.service';
+import { SigningKeysService } from './signing-keys.service';
+
+export interface PasswordPolicy {
+  minLength: number;
+  requireUppercase: boolean;
+  requireLowercase: boolean;
+  requireDigits: boolean;
+  requireSymbols: boolean;
+  historySize: number; // Сколько прежних паролей нельзя повторять, 0 - без ограничения
+  maxAgeDays: number; // Срок действия пароля, 0 - бессрочно
+  checkBreached: boolean; // Проверка по списку утёкших паролей
+}
+
+export interface PasswordPolicyScope {
+  userId?: string | null;
+  organizationId?: string | null;
+}
+
+export const DEFAULT_PASSWORD_POLICY: PasswordPolicy = {
+  minLength: 8,
+  requireUppercase: false,
+  requireLowercase: false,
+  requireDigits: false,
+  requireSymbols: false,
+  historySize: 0,
+  maxAgeDays: 0,
+  checkBreached: true,
+};
+
+const POLICY_SETTING_KEY = 'password_policy';
+const PASSWORD_CHANGE_AUDIENCE = 'password-change';
+
+/**
+ * Политика паролей: глобальная в настройках системы и переопределения в settings организаций.
+ * Для пользователя из нескольких организаций действует самое строгое сочетание
+ */
+@Injectable()
+export class PasswordPolicyService {
+  constructor(
+    @InjectRepository(PasswordHistory)
+    private passwordHistoryRepo: Repository<PasswordHistory>,
+    @InjectRepository(BreachedPassword)
+    private breachedPasswordsRepo: Repository<BreachedPassword>,
+    @InjectRepository(User)
+    private usersRepo: Repository<User>,
+    @InjectRepository(Organization)
+    private organizationsRepo: Repository<Organization>,
+    @InjectRepository(OrganizationMembership)
+    private organizationMembershipRepo: Repository<OrganizationMembership>,
+    private settingsService: SettingsService,
+    private signingKeysService: SigningKeysService,
+  ) {}
+
+  /**
+   * Глобальная политика из настроек системы
+   */
+  async getGlobalPolicy(): Promise<PasswordPolicy> {
+    const raw = await this.settingsService.getSetting(POLICY_SETTING_KEY);
+    return { ...DEFAULT_PASSWORD_POLICY, ...this.parsePolicy(raw) };
+  }
+
+  async setGlobalPolicy(
+    changes: Partial<PasswordPolicy>,
+  ): Promise<PasswordPolicy> {
+    const policy = { ...(await this.getGlobalPolicy()), ...changes };
+    await this.settingsService.setSetting(
+      POLICY_SETTING_KEY,
+      JSON.stringify(policy),
+      'Политика паролей',
+    );
+    return policy;
+  }
+
+  /**
+   * Политика организации: глобальная с переопределениями организации
+   */
+  async getOrganizationPolicy(organizationId: string): Promise<PasswordPolicy> {
+    const organization = await this.findOrganization(organizationId);
+    return {
+      ...(await this.getGlobalPolicy()),
+      ...this.organizationOverrides(organization),
+    };
+  }
+
+  async setOrganizationPolicy(
+    organizationId: string,
+    changes: Partial<PasswordPolicy>,
+  ): Promise<PasswordPolicy> {
+    const organization = await this.findOrganization(organizationId);
+    organization.settings = {
+      ...organization.settings,
+      passwordPolicy: {
+        ...this.organizationOverrides(organization),
+        ...changes,
+      },
+    };
+    await this.organizationsRepo.save(organization);
+    return this.getOrganizationPolicy(organizationId);
+  }
+
+  /**
+   * Действующая политика для пользователя и/или организации
+   */
+  async resolvePolicy(
+    scope: PasswordPolicyScope = {},
+  ): Promise<PasswordPolicy> {
+    const organizationIds = new Set<string>();
+    if (scope.organizationId) {
+      organizationIds.add(scope.organizationId);
+    }
+    if (scope.userId) {
+      const memberships = await this.organizationMembershipRepo.find({
+        where: { userId: scope.userId },
+        select: ['id', 'organizationId'],
+      });
+      memberships.forEach((m) => organizationIds.add(m.organizationId));
+    }
+
+    const globalPolicy = await this.getGlobalPolicy();
+    if (organizationIds.size === 0) {
+      return globalPolicy;
+    }
+
+    const organizations = await this.organizationsRepo.find({
+      where: { id: In([...organizationIds]) },
+      select: ['id', 'settings'],
+    });
+    return organizations
+      .map((org) => ({ ...globalPolicy, ...this.organizationOverrides(org) }))
+      .reduce((a, b) => this.strictest(a, b), globalPolicy);
+  }
+
+  /**
+   * Нарушения политики для нового пароля (пустой список - пароль подходит)
+   */
+  async getViolations(
+    password: string,
+    scope: PasswordPolicyScope = {},
+    options: { checkHistory?: boolean } = { checkHistory: true },
+  ): Promise<string[]> {
+    const policy = await this.resolvePolicy(scope);
+    const violations = this.checkComposition(password, policy);
+
+    if (policy.checkBreached && (await this.isBreached(password))) {
+      violations.push('Пароль найден в списке утёкших паролей');
+    }
+
+    if (
+      options.checkHistory &&
+      scope.userId &&
+      policy.historySize > 0 &&
+      (await this.isReused(scope.userId, password, policy.historySize))
+    ) {
+      violations.push(
+        `Пароль совпадает с одним из ${policy.historySize} последних`,
+      );
+    }
+
+    return violations;
+  }
+
+  /**
+   * Проверка нового пароля перед сохранением
+   */
+  async assertValid(
+    password: string,
+    scope: PasswordPolicyScope = {},
+  ): Promise<void> {
+    const violations = await this.getViolations(password, scope);
+    if (violations.length > 0) {
+      throw new BadRequestException({
+        statusCode: 400,
+        error: 'Bad Request',
+        message: 'Пароль не соответствует политике паролей',
+        violations,
+      });
+    }
+  }
+
+  /**
+   * Проверка пароля по политике и сохранение его хеша пользователю
+   */
+  async changePassword(userId: string, password: string): Promise<void> {
+    await this.assertValid(password, { userId });
+    const passwordHash = await bcrypt.hash(password, await bcrypt.genSalt(12));
+    await this.usersRepo.update(userId, { passwordHash });
+    await this.recordPasswordChange(userId, passwordHash);
+  }
+
+  /**
+   * Фиксация смены пароля: история, дата смены, снятие требования смены
+   */
+  async recordPasswordChange(
+    userId: string,
+    passwordHash: string,
+  ): Promise<void> {
+    await this.usersRepo.update(userId, {
+      passwordChangedAt: new Date(),
+      mustChangePassword: false,
+    });
+    await this.passwordHistoryRepo.save(
+      this.passwordHistoryRepo.create({ userId, passwordHash }),
+    );
+
+    const { historySize } = await this.resolvePolicy({ userId });
+    const stale = await this.passwordHistoryRepo.find({
+      where: { userId },
+      order: { createdAt: 'DESC' },
+      skip: Math.max(historySize, 1),
+      select: ['id'],
+    });
+    if (stale.length > 0) {
+      await this.passwordHistoryRepo.delete(stale.map((h) => h.id));
+    }
+  }
+
+  /**
+   * Причины обязательной смены пароля при входе (пароль уже проверен)
+   */
+  async getChangeReasons(user: User, password: string): Promise<string[]> {
+    const reasons: string[] = [];
+    const stored = await this.usersRepo.findOne({
+      where: { id: user.id },
+      select: ['id', 'mustChangePassword', 'passwordChangedAt', 'createdAt'],
+    });
+    if (!stored) {
+      return reasons;
+    }
+
+    if (stored.mustChangePassword) {
+      reasons.push('Администратор потребовал сменить пароль');
+    }
+
+    const policy = await this.resolvePolicy({ userId: user.id });
+    const changedAt = stored.passwordChangedAt ?? stored.createdAt;
+    if (
+      policy.maxAgeDays > 0 &&
+      changedAt.getTime() + policy.maxAgeDays * 24 * 60 * 60_000 < Date.now()
+    ) {
+      reasons.push('Истёк срок действия пароля');
+    }
+
+    reasons.push(
+      ...(await this.getViolations(
+        password,
+        { userId: user.id },
+        { checkHistory: false },
+      )),
+    );
+
+    if (reasons.length > 0 && !stored.mustChangePassword) {
+      await this.usersRepo.update(user.id, { mustChangePassword: true });
+    }
+    return reasons;
+  }
+
+  /**
+   * Требование сменить пароль при следующем входе (администратором)
+   */
+  async requireChange(userId: string): Promise<void> {
+    const result = await this.usersRepo.update(userId, {
+      mustChangePassword: true,
+    });
+    if (!result.affected) {
+      throw new NotFoundException('Пользователь не найден');
+    }
+  }
+
+  /**
+   * Короткоживущий токен, дающий право только на смену пароля
+   */
+  issueChangeToken(userId: string): string {
+    return this.signingKeysService.sign(
+      { sub: userId, aud: PASSWORD_CHANGE_AUDIENCE },
+      { expiresIn: '15m' },
+    );
+  }
+
+  async verifyChangeToken(token: string): Promise<string> {
+    const payload = await this.signingKeysService.verify<{
+      sub?: string;
+      aud?: string;
+    }>(token);
+    if (payload.aud !== PASSWORD_CHANGE_AUDIENCE || !payload.sub) {
+      throw new UnauthorizedException('Невалидный токен смены пароля');
+    }
+    return payload.sub;
+  }
+
+  async isBreached(password: string): Promise<boolean> {
+    return this.breachedPasswordsRepo.exists({
+      where: { sha1: this.sha1(password) },
+    });
+  }
+
+  sha1(password: string): string {
+    return createHash('sha1')
+      .update(password, 'utf8')
+      .digest('hex')
+      .toUpperCase();
+  }
+
+  // Приватные методы
+
+  private checkComposition(password: string, policy: PasswordPolicy): string[] {
+    const violations: string[] = [];
+    if (password.length < policy.minLength) {
+      violations.push(
+        `Пароль должен быть не короче ${policy.minLength} символов`,
+      );
+    }
+    if (policy.requireUppercase && !/\p{Lu}/u.test(password)) {
+      violations.push('Пароль должен содержать заглавную букву');
+    }
+    if (policy.requireLowercase && !/\p{Ll}/u.test(password)) {
+      violations.push('Пароль должен содержать строчную букву');
+    }
+    if (policy.requireDigits && !/\d/.test(password)) {
+      violations.push('Пароль должен содержать цифру');
+    }
+    if (policy.requireSymbols && !/[^\p{L}\d]/u.test(password)) {
+      violations.push('Пароль должен содержать специальный символ');
+    }
+    return violations;
+  }
+
+  private async isReused(
+    userId: string,
+    password: string,
+    historySize: number,
+  ): Promise<boolean> {
+    const user = await this.usersRepo.findOne({
+      where: { id: userId },
+      select: ['id', 'passwordHash'],
+    });
+    const history = await this.passwordHistoryRepo.find({
+      where: { userId },
+      order: { createdAt: 'DESC' },
+      take: historySize,
+      select: ['id', 'passwordHash'],
+    });
+
+    const hashes = new Set(history.map((h) => h.passwordHash));
+    if (user?.passwordHash) {
+      hashes.add(user.passwordHash);
+    }
+    for (const hash of hashes) {
+      if (await bcrypt.compare(password, hash)) {
+        return true;
+      }
+    }
+    return false;
+  }
+
+  private strictest(a: PasswordPolicy, b: PasswordPolicy): PasswordPolicy {
+    const maxAges = [a.maxAgeDays, b.maxAgeDays].filter((d) => d > 0);
+    return {
+      minLength: Math.max(a.minLength, b.minLength),
+      requireUppercase: a.requireUppercase || b.requireUppercase,
+      requireLowercase: a.requireLowercase || b.requireLowercase,
+      requireDigits: a.requireDigits || b.requireDigits,
+      requireSymbols: a.requireSymbols || b.requireSymbols,
+      historySize: Math.max(a.historySize, b.historySize),
+      maxAgeDays: maxAges.length > 0 ? Math.min(...maxAges) : 0,
+      checkBreached: a.checkBreached || b.checkBreached,
+    };
+  }
+
+  private organizationOverrides(
+    organization: Pick<Organization, 'settings'>,
+  ): Partial<PasswordPolicy> {
+    const overrides = (organization.settings as { passwordPolicy?: unknown })
+      ?.passwordPolicy;
+    return overrides && typeof overrides === 'object'
+      ? (overrides as Partial<PasswordPolicy>)
+      : {};
+  }
+
+  private parsePolicy(raw: string | null): Partial<PasswordPolicy> {
+    if (!raw) {
+      return {};
+    }
+    try {
+      return JSON.parse(raw) as Partial<PasswordPolicy>;
+    } catch {
+      return {};
+    }
+  }
+
+  private async findOrganization(
+    organizationId: string,
+  ): Promise<Organization> {
+    const organization = await this.organizationsRepo.findOne({
+      where: { id: organizationId },
+    });
+    if (!organization) {
+      throw new NotFoundException('Организация не найдена');
+    }
+    return organization;
+  }
+}
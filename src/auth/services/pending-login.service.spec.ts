@@ -0,0 +1,123 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { getRepositoryToken } from '@nestjs/typeorm';
+import { UnauthorizedException } from '@nestjs/common';
+import { PendingLoginService } from './pending-login.service';
+import { PendingLogin } from '../entities/pending-login.entity';
+import { SigningKeysService } from './signing-keys.service';
+
+describe('PendingLoginService', () => {
+  let service: PendingLoginService;
+
+  const mockPendingLoginsRepository = {
+    create: jest.fn((value: Partial<PendingLogin>) => value),
+    save: jest.fn(),
+    delete: jest.fn(),
+    findOne: jest.fn(),
+    update: jest.fn(),
+  };
+
+  const mockSigningKeysService = {
+    sign: jest.fn(),
+    verify: jest.fn(),
+  };
+
+  const pending = {
+    id: 'pending-1',
+    userId: 'user-1',
+    consumedAt: null,
+    expiresAt: new Date(Date.now() + 60_000),
+  } as PendingLogin;
+
+  beforeEach(async () => {
+    jest.clearAllMocks();
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        PendingLoginService,
+        {
+          provide: getRepositoryToken(PendingLogin),
+          useValue: mockPendingLoginsRepository,
+        },
+        {
+          provide: SigningKeysService,
+          useValue: mockSigningKeysService,
+        },
+      ],
+    }).compile();
+
+    service = module.get<PendingLoginService>(PendingLoginService);
+  });
+
+  it('should sign a token bound to the stored pending login', async () => {
+    mockPendingLoginsRepository.save.mockResolvedValue(pending);
+    mockSigningKeysService.sign.mockReturnValue('login-token');
+
+    await expect(service.issue('user-1')).resolves.toBe('login-token');
+    expect(mockSigningKeysService.sign).toHaveBeenCalledWith(
+      { sub: 'user-1', aud: 'pending-login', jti: 'pending-1' },
+      { expiresIn: '10m' },
+    );
+  });
+
+  describe('resolve', () => {
+    it('should return the pending login for a valid token', async () => {
+      mockSigningKeysService.verify.mockResolvedValue({
+        sub: 'user-1',
+        aud: 'pending-login',
+        jti: 'pending-1',
+      });
+      mockPendingLoginsRepository.findOne.mockResolvedValue(pending);
+
+      await expect(service.resolve('login-token')).resolves.toBe(pending);
+    });
+
+    it('should reject a bare userId', async () => {
+      mockSigningKeysService.verify.mockRejectedValue(
+        new UnauthorizedException('Невалидный токен'),
+      );
+
+      await expect(service.resolve('user-1')).rejects.toThrow(
+        UnauthorizedException,
+      );
+      expect(mockPendingLoginsRepository.findOne).not.toHaveBeenCalled();
+    });
+
+    it('should reject a token issued for another purpose', async () => {
+      mockSigningKeysService.verify.mockResolvedValue({
+        sub: 'user-1',
+        aud: 'password-change',
+      });
+
+      await expect(service.resolve('change-token')).rejects.toThrow(
+        UnauthorizedException,
+      );
+      expect(mockPendingLoginsRepository.findOne).not.toHaveBeenCalled();
+    });
+
+    it('should reject a token whose login was completed or expired', async () => {
+      mockSigningKeysService.verify.mockResolvedValue({
+        sub: 'user-1',
+        aud: 'pending-login',
+        jti: 'pending-1',
+      });
+      mockPendingLoginsRepository.findOne.mockResolvedValue(null);
+
+      await expect(service.resolve('login-token')).rejects.toThrow(
+        UnauthorizedException,
+      );
+    });
+  });
+
+  describe('consume', () => {
+    it('should accept the login only once', async () => {
+      mockPendingLoginsRepository.update
+        .mockResolvedValueOnce({ affected: 1 })
+        .mockResolvedValueOnce({ affected: 0 });
+
+      await expect(service.consume(pending)).resolves.toBeUndefined();
+      await expect(service.consume(pending)).rejects.toThrow(
+        UnauthorizedException,
+      );
+    });
+  });
+});
@@ -0,0 +1,85 @@
+import { Injectable, UnauthorizedException } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { IsNull, LessThan, MoreThan, Repository } from 'typeorm';
+import { PendingLogin } from '../entities/pending-login.entity';
+import { SigningKeysService } from './signing-keys.service';
+
+const PENDING_LOGIN_AUDIENCE = 'pending-login';
+const PENDING_LOGIN_TTL_MINUTES = 10;
+const PENDING_LOGIN_EXPIRED_MESSAGE = 'Вход не начат или истёк, войдите заново';
+
+/**
+ * Вход, ожидающий второго фактора: подписанный токен выдаётся после первого фактора
+ * и принимается для завершения входа один раз
+ */
+@Injectable()
+export class PendingLoginService {
+  constructor(
+    @InjectRepository(PendingLogin)
+    private pendingLoginsRepo: Repository<PendingLogin>,
+    private signingKeysService: SigningKeysService,
+  ) {}
+
+  /**
+   * Токен входа для пользователя, прошедшего первый фактор
+   */
+  async issue(userId: string): Promise<string> {
+    await this.pendingLoginsRepo.delete({ expiresAt: LessThan(new Date()) });
+
+    const pending = await this.pendingLoginsRepo.save(
+      this.pendingLoginsRepo.create({
+        userId,
+        expiresAt: new Date(Date.now() + PENDING_LOGIN_TTL_MINUTES * 60_000),
+      }),
+    );
+
+    return this.signingKeysService.sign(
+      { sub: userId, aud: PENDING_LOGIN_AUDIENCE, jti: pending.id },
+      { expiresIn: `${PENDING_LOGIN_TTL_MINUTES}m` },
+    );
+  }
+
+  /**
+   * Незавершённый вход по токену; токен не гасится
+   */
+  async resolve(token: string): Promise<PendingLogin> {
+    const payload = await this.signingKeysService.verify<{
+      sub?: string;
+      aud?: string;
+      jti?: string;
+    }>(token);
+    if (
+      payload.aud !== PENDING_LOGIN_AUDIENCE ||
+      !payload.sub ||
+      !payload.jti
+    ) {
+      throw new UnauthorizedException(PENDING_LOGIN_EXPIRED_MESSAGE);
+    }
+
+    const pending = await this.pendingLoginsRepo.findOne({
+      where: {
+        id: payload.jti,
+        userId: payload.sub,
+        consumedAt: IsNull(),
+        expiresAt: MoreThan(new Date()),
+      },
+    });
+    if (!pending) {
+      throw new UnauthorizedException(PENDING_LOGIN_EXPIRED_MESSAGE);
+    }
+    return pending;
+  }
+
+  /**
+   * Погашение входа после проверки второго фактора; из параллельных запросов пройдёт один
+   */
+  async consume(pending: PendingLogin): Promise<void> {
+    const result = await this.pendingLoginsRepo.update(
+      { id: pending.id, consumedAt: IsNull() },
+      { consumedAt: new Date() },
+    );
+    if (!result.affected) {
+      throw new UnauthorizedException(PENDING_LOGIN_EXPIRED_MESSAGE);
+    }
+  }
+}
@@ -1,71 +1,29 @@
 import { Injectable, Logger, BadRequestException } from '@nestjs/common';
-import { ConfigService } from '@nestjs/config';
 import { AuthMethodType } from '../enums/auth-method-type.enum';
 import { PhoneVerificationResult, MessengerMetadata } from '../interfaces/multi-auth.interface';
+import { LoginProtectionService, INVALID_CODE_MESSAGE } from './login-protection.service';
+import { LoginAttemptChannel } from '../entities/login-attempt.entity';
+import { MessagingService } from '../../messaging/messaging.service';
+import { VerificationCodesService } from './verification-codes.service';
 
 @Injectable()
 export class PhoneAuthService {
   private readonly logger = new Logger(PhoneAuthService.name);
-  private storedCodes = new Map<string, { code: string; expiresAt: Date }>(); // Хранилище кодов в памяти для мок-тестирования
 
-  constructor(private configService: ConfigService) {}
+  constructor(
+    private loginProtectionService: LoginProtectionService,
+    private messagingService: MessagingService,
+    private verificationCodesService: VerificationCodesService,
+  ) {}
 
   /**
-   * Отправка SMS кода через WhatsApp
+   * Отправка кода через WhatsApp
    */
   async sendWhatsAppCode(
     phoneNumber: string,
-    code: string,
     purpose: string = 'verification',
   ): Promise<PhoneVerificationResult> {
-    try {
-      const whatsappApiUrl = this.configService.get<string>('WHATSAPP_API_URL');
-      const whatsappToken = this.configService.get<string>('WHATSAPP_TOKEN');
-      
-      if (!whatsappApiUrl || !whatsappToken) {
-        this.logger.warn('⚠️ WhatsApp API не настроен, используем mock режим');
-        return this.sendCodeMock(phoneNumber, code, purpose, 'whatsapp');
-      }
-
-      // Реальная интеграция с WhatsApp Business API
-      const message = this.formatWhatsAppMessage(code, purpose);
-      
-      const response = await fetch(`${whatsappApiUrl}/messages`, {
-        method: 'POST',
-        headers: {
-          'Authorization': `Bearer ${whatsappToken}`,
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify({
-          to: phoneNumber,
-          type: 'text',
-          text: {
-            body: message,
-          },
-        }),
-      });
-
-      if (!response.ok) {
-        throw new Error(`WhatsApp API error: ${response.statusText}`);
-      }
-
-      const result = await response.json();
-      
-      this.logger.log(`WhatsApp код отправлен на ${phoneNumber}: ${code}`);
-      
-      return {
-        success: true,
-        code,
-        expiresAt: new Date(Date.now() + 10 * 60 * 1000), // 10 минут
-      };
-
-    } catch (error) {
-      this.logger.error(`Ошибка отправки WhatsApp кода: ${error.message}`);
-      return {
-        success: false,
-        error: 'Не удалось отправить код через WhatsApp',
-      };
-    }
+    return this.deliverCode(phoneNumber, purpose, 'whatsapp');
   }
 
   /**
@@ -73,131 +31,55 @@ export class PhoneAuthService {
    */
   async sendTelegramCode(
     phoneNumber: string,
-    code: string,
     purpose: string = 'verification',
   ): Promise<PhoneVerificationResult> {
-    try {
-      const telegramBotToken = this.configService.get<string>('TELEGRAM_BOT_TOKEN');
-      const telegramChatId = this.configService.get<string>('TELEGRAM_CHAT_ID');
-      
-      if (!telegramBotToken || !telegramChatId) {
-        this.logger.warn('⚠️ Telegram Bot не настроен, код будет отображаться в логах');
-        return this.sendCodeMock(phoneNumber, code, purpose, 'telegram');
-      }
-
-      // Отправляем код в Telegram чат
-      const message = `🔐 Код подтверждения для ${phoneNumber}: ${code}\n\n⏰ Действителен 10 минут\n\nℹ️ Purpose: ${purpose}`;
-      
-      const response = await fetch(`https://api.telegram.org/bot${telegramBotToken}/sendMessage`, {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify({
-          chat_id: telegramChatId,
-          text: message,
-          parse_mode: 'HTML',
-        }),
-      });
-
-      if (!response.ok) {
-        const errorData = await response.json().catch(() => ({}));
-        this.logger.error(`Telegram API error: ${JSON.stringify(errorData)}`);
-        throw new Error(`Telegram API error: ${response.statusText}`);
-      }
-
-      const result = await response.json();
-      
-      // Сохраняем код в памяти для последующей проверки
-      this.storedCodes.set(phoneNumber, {
-        code,
-        expiresAt: new Date(Date.now() + 10 * 60 * 1000),
-      });
-      
-      this.logger.log(`✅ Telegram код отправлен на номер ${phoneNumber}: ${code}`);
-      this.logger.log(`📱 Проверьте Telegram чат (chat_id: ${telegramChatId})`);
-      
-      return {
-        success: true,
-        code,
-        expiresAt: new Date(Date.now() + 10 * 60 * 1000),
-      };
-
-    } catch (error) {
-      this.logger.error(`Ошибка отправки Telegram кода: ${error.message}`);
-      // Fallback на mock если Telegram не работает
-      return this.sendCodeMock(phoneNumber, code, purpose, 'telegram');
-    }
+    return this.deliverCode(phoneNumber, purpose, 'telegram');
   }
 
   /**
-   * Отправка SMS через SmsAero
+   * Код сохраняется (хешем) до отправки; доставку (провайдеры, повторы) выполняет очередь сообщений
    */
-  private async sendSmsViaSmsaero(
+  private async deliverCode(
     phoneNumber: string,
-    code: string,
     purpose: string,
+    messenger: 'whatsapp' | 'telegram',
   ): Promise<PhoneVerificationResult> {
-    const email = this.configService.get<string>('SMSAERO_EMAIL') || '';
-    const apiKey = this.configService.get<string>('SMSAERO_API_KEY') || '';
-    const from = this.configService.get<string>('SMSAERO_FROM') || 'Loginus';
-    
-    const formattedPhone = this.formatPhoneForSms(phoneNumber);
-    const message = `Ваш код подтверждения: ${code}. Действителен 10 минут.`;
-    
-    const crypto = require('crypto');
-    const passwordHash = crypto.createHash('md5').update(apiKey).digest('hex');
-    
-    const params = new URLSearchParams();
-    params.append('user', email);
-    params.append('password', passwordHash);
-    params.append('to', formattedPhone);
-    params.append('text', message);
-    params.append('from', from);
-    params.append('answer', 'json');
-    
-    const response = await fetch(`https://gate.smsaero.ru/send/?${params.toString()}`, {
-      method: 'GET',
+    const issued = await this.verificationCodesService.issue({
+      identifier: phoneNumber,
+      purpose,
+      channel: messenger,
+      authMethod: messenger === 'whatsapp' ? AuthMethodType.PHONE_WHATSAPP : AuthMethodType.PHONE_TELEGRAM,
     });
 
-    const result = await response.json();
-    
-    this.logger.log(`📱 SmsAero ответ: ${JSON.stringify(result)}`);
-    
-    if (!result.success) {
-      throw new Error(`SmsAero error: ${result.message || 'Unknown error'}`);
+    const message = await this.messagingService.send({
+      channel: messenger,
+      to: phoneNumber,
+      text: this.formatCodeMessage(issued.code, purpose),
+      purpose: `phone_${purpose}`,
+      expiresAt: issued.expiresAt,
+    });
+
+    if (!this.messagingService.isAccepted(message)) {
+      this.logger.error(`Ошибка отправки ${messenger} кода на ${phoneNumber}: ${message.error}`);
+      return {
+        success: false,
+        error: `Не удалось отправить код через ${messenger === 'whatsapp' ? 'WhatsApp' : 'Telegram'}`,
+      };
     }
 
-    // Сохраняем код в памяти для последующей проверки
-    this.storedCodes.set(phoneNumber, {
-      code,
-      expiresAt: new Date(Date.now() + 10 * 60 * 1000),
-    });
-    
-    this.logger.log(`✅ SMS код отправлен на ${phoneNumber}: ${code}`);
-    
+    this.logger.log(`✅ ${messenger} код для ${phoneNumber}: ${message.status} (${message.provider ?? 'в очереди'})`);
     return {
       success: true,
-      code,
-      expiresAt: new Date(Date.now() + 10 * 60 * 1000),
+      expiresAt: issued.expiresAt,
+      messageId: message.id,
     };
   }
 
-  /**
-   * Форматирование номера для SMS (только цифры)
-   */
-  private formatPhoneForSms(phone: string): string {
-    // Убираем все кроме цифр
-    const digits = phone.replace(/\D/g, '');
-    return digits;
-  }
-
   /**
    * Универсальная отправка кода через выбранный мессенджер
    */
   async sendCode(
     phoneNumber: string,
-    code: string,
     messenger: 'whatsapp' | 'telegram',
     purpose: string = 'verification',
   ): Promise<PhoneVerificationResult> {
@@ -213,9 +95,9 @@ export class PhoneAuthService {
 
     switch (messenger) {
       case 'whatsapp':
-        return this.sendWhatsAppCode(normalizedPhone, code, purpose);
+        return this.sendWhatsAppCode(normalizedPhone, purpose);
       case 'telegram':
-        return this.sendTelegramCode(normalizedPhone, code, purpose);
+        return this.sendTelegramCode(normalizedPhone, purpose);
       default:
         return {
           success: false,
@@ -225,13 +107,14 @@ export class PhoneAuthService {
   }
 
   /**
-   * Проверка кода подтверждения
+   * Проверка кода подтверждения (код общий для WhatsApp и Telegram: важен номер и назначение)
    */
   async verifyCode(
     phoneNumber: string,
     messengerType: 'WHATSAPP' | 'TELEGRAM',
     code: string,
     purpose: 'login' | 'registration' | 'verification',
+    ipAddress?: string,
   ): Promise<PhoneVerificationResult> {
     // Нормализуем номер телефона
     const normalizedPhone = this.normalizePhoneNumber(phoneNumber);
@@ -243,41 +126,25 @@ export class PhoneAuthService {
       };
     }
 
-    // Проверяем код из хранилища в памяти
-    const stored = this.storedCodes.get(normalizedPhone);
-    
-    if (!stored) {
-      this.logger.warn(`[MOCK] Код не найден для ${normalizedPhone}`);
-      return {
-        success: false,
-        error: 'Код не найден или истек',
-      };
-    }
-
-    if (stored.expiresAt < new Date()) {
-      this.logger.warn(`[MOCK] Код истек для ${normalizedPhone}`);
-      this.storedCodes.delete(normalizedPhone);
-      return {
-        success: false,
-        error: 'Код истек',
-      };
-    }
+    const accountKey = this.loginProtectionService.phoneKey(normalizedPhone);
+    await this.loginProtectionService.assertAllowed(accountKey, ipAddress);
 
-    if (stored.code !== code) {
-      this.logger.warn(`[MOCK] Неверный код для ${normalizedPhone}`);
+    // Причина отказа (нет кода, истёк, неверный) не раскрывается клиенту
+    const verified = await this.verificationCodesService.verify({ identifier: normalizedPhone, purpose }, code);
+    if (!verified) {
+      this.logger.warn(`Отказ в проверке кода ${purpose} для ${normalizedPhone} (${messengerType})`);
+      await this.loginProtectionService.recordFailure(accountKey, LoginAttemptChannel.PHONE_CODE, { ipAddress });
       return {
         success: false,
-        error: 'Неверный код',
+        error: INVALID_CODE_MESSAGE,
       };
     }
+    await this.loginProtectionService.recordSuccess(accountKey, LoginAttemptChannel.PHONE_CODE, { ipAddress });
 
-    this.logger.log(`[MOCK] ✅ Код успешно проверен для ${normalizedPhone}`);
-    this.storedCodes.delete(normalizedPhone);
-    
+    this.logger.log(`✅ Код успешно проверен для ${normalizedPhone}`);
     return {
       success: true,
-      code,
-      expiresAt: stored.expiresAt,
+      expiresAt: verified.expiresAt,
     };
   }
 
@@ -376,7 +243,7 @@ export class PhoneAuthService {
     return phoneRegex.test(phoneNumber);
   }
 
-  private formatWhatsAppMessage(code: string, purpose: string): string {
+  private formatCodeMessage(code: string, purpose: string): string {
     const messages = {
       verification: `🔐 Код верификации: ${code}\n\nЭтот код действителен в течение 10 минут.`,
       registration: `🎉 Добро пожаловать!\n\nКод подтверждения: ${code}\n\nЭтот код действителен в течение 10 минут.`,
@@ -386,40 +253,4 @@ export class PhoneAuthService {
 
     return messages[purpose] || messages.verification;
   }
-
-  private formatTelegramMessage(phoneNumber: string, code: string, purpose: string): string {
-    const messages = {
-      verification: `🔐 <b>Код верификации</b>\n\nНомер: ${phoneNumber}\nКод: <code>${code}</code>\n\n⏰ Действителен 10 минут`,
-      registration: `🎉 <b>Добро пожаловать!</b>\n\nНомер: ${phoneNumber}\nКод подтверждения: <code>${code}</code>\n\n⏰ Действителен 10 минут`,
-      login: `🔑 <b>Код для входа</b>\n\nНомер: ${phoneNumber}\nКод: <code>${code}</code>\n\n⏰ Действителен 10 минут`,
-      password_reset: `🔄 <b>Сброс пароля</b>\n\nНомер: ${phoneNumber}\nКод подтверждения: <code>${code}</code>\n\n⏰ Действителен 10 минут`,
-    };
-
-    return messages[purpose] || messages.verification;
-  }
-
-  /**
-   * Mock отправка кода (используется если API не настроено)
-   */
-  private async sendCodeMock(
-    phoneNumber: string,
-    code: string,
-    purpose: string,
-    messenger: 'whatsapp' | 'telegram',
-  ): Promise<PhoneVerificationResult> {
-    // Сохраняем код в памяти
-    this.storedCodes.set(phoneNumber, {
-      code,
-      expiresAt: new Date(Date.now() + 10 * 60 * 1000),
-    });
-    
-    this.logger.log(`[MOCK] ${messenger.toUpperCase()} код отправлен на ${phoneNumber}: ${code} (${purpose})`);
-    this.logger.log(`💡 Для реальной отправки настройте ${messenger.toUpperCase()}_API_URL и ${messenger.toUpperCase()}_TOKEN в .env`);
-    
-    return {
-      success: true,
-      code,
-      expiresAt: new Date(Date.now() + 10 * 60 * 1000),
-    };
-  }
 }
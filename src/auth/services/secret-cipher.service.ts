@@ -0,0 +1,31 @@
+import { Injectable } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import {
+  decryptSecret,
+  deriveSecretCipherKey,
+  encryptSecret,
+} from '../utils/secret-cipher';
+
+/**
+ * Секреты, которые приложение предъявляет само (подпись вебхуков), хранятся зашифрованными
+ */
+@Injectable()
+export class SecretCipherService {
+  private readonly key: Buffer;
+
+  constructor(private configService: ConfigService) {
+    const secret = this.configService.get<string>('app.encryptionKey');
+    if (!secret) {
+      throw new Error('ENCRYPTION_KEY не задан');
+    }
+    this.key = deriveSecretCipherKey(secret);
+  }
+
+  encrypt(plaintext: string): string {
+    return encryptSecret(this.key, plaintext);
+  }
+
+  decrypt(value: string): string {
+    return decryptSecret(this.key, value);
+  }
+}
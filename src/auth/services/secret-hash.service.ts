@@ -0,0 +1,42 @@
+import { Injectable } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import {
+  deriveSecretHashKey,
+  hashSecret,
+  secretHashesEqual,
+} from '../utils/secret-hash';
+
+/**
+ * Одноразовые коды и токены хранятся только keyed-хешем: поиск идёт по хешу предъявленного значения,
+ * открытое значение существует лишь в ответе на выдачу
+ */
+@Injectable()
+export class SecretHashService {
+  private readonly key: Buffer;
+
+  constructor(private configService: ConfigService) {
+    const secret = this.configService.get<string>('app.encryptionKey');
+    if (!secret) {
+      throw new Error('ENCRYPTION_KEY не задан');
+    }
+    this.key = deriveSecretHashKey(secret);
+  }
+
+  hash(value: string, scope?: string): string {
+    return hashSecret(this.key, value, scope);
+  }
+
+  /**
+   * Проверка предъявленного значения против сохранённого хеша за постоянное время
+   */
+  matches(
+    storedHash: string | null | undefined,
+    value: string,
+    scope?: string,
+  ): boolean {
+    if (!storedHash) {
+      return false;
+    }
+    return secretHashesEqual(storedHash, this.hash(value, scope));
+  }
+}
@@ -0,0 +1,211 @@
+import { Injectable, NotFoundException } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { IsNull, MoreThan, Not, Repository } from 'typeorm';
+import * as crypto from 'crypto';
+import { RefreshToken } from '../entities/refresh-token.entity';
+import { SessionContext, SessionInfo } from '../interfaces/session.interface';
+import type { PermissionScopeContext } from '../../rbac/scoped-permissions.service';
+import { SecretHashService } from './secret-hash.service';
+
+const REFRESH_TOKEN_TTL_DAYS = 7;
+
+/**
+ * Сохранённая запись и открытый токен: он возвращается клиенту и больше нигде не хранится
+ */
+export type IssuedRefreshToken = RefreshToken & { token: string };
+
+/**
+ * Сессии пользователя. Сессия - семейство refresh token, начатое одним входом
+ */
+@Injectable()
+export class SessionsService {
+  constructor(
+    @InjectRepository(RefreshToken)
+    private refreshTokensRepo: Repository<RefreshToken>,
+    private secretHashService: SecretHashService,
+  ) {}
+
+  /**
+   * Создание refresh token: новая сессия или следующий токен существующей (ротация)
+   */
+  async createRefreshToken(
+    userId: string,
+    options: {
+      familyId?: string;
+      deviceName?: string | null;
+      context?: SessionContext;
+      scope?: PermissionScopeContext;
+    } = {},
+  ): Promise<IssuedRefreshToken> {
+    const expiresAt = new Date();
+    expiresAt.setDate(expiresAt.getDate() + REFRESH_TOKEN_TTL_DAYS);
+
+    const token = crypto.randomUUID();
+    const record = await this.refreshTokensRepo.save(
+      this.refreshTokensRepo.create({
+        tokenHash: this.secretHashService.hash(token),
+        userId,
+        expiresAt,
+        isRevoked: false,
+        ...(options.familyId ? { familyId: options.familyId } : {}),
+        deviceName: options.deviceName ?? null,
+        ipAddress: options.context?.ipAddress ?? null,
+        userAgent: options.context?.userAgent?.substring(0, 500) ?? null,
+        organizationId: options.scope?.organizationId ?? null,
+        teamId: options.scope?.teamId ?? null,
+      }),
+    );
+    return Object.assign(record, { token });
+  }
+
+  /**
+   * Активные сессии пользователя, последние по активности - первыми
+   */
+  async findActiveSessions(
+    userId: string,
+    currentSessionId?: string,
+  ): Promise<SessionInfo[]> {
+    // Актуальный (ещё не обменянный) токен каждого семейства
+    const heads = await this.refreshTokensRepo.find({
+      where: {
+        userId,
+        isRevoked: false,
+        usedAt: IsNull(),
+        expiresAt: MoreThan(new Date()),
+      },
+      order: { createdAt: 'DESC' },
+    });
+
+    if (heads.length === 0) {
+      return [];
+    }
+
+    const startedAt: { familyId: string; startedAt: Date }[] =
+      await this.refreshTokensRepo
+        .createQueryBuilder('token')
+        .select('token.familyId', 'familyId')
+        .addSelect('MIN(token.createdAt)', 'startedAt')
+        .where('token.familyId IN (:...familyIds)', {
+          familyIds: heads.map((head) => head.familyId),
+        })
+        .groupBy('token.familyId')
+        .getRawMany();
+    const startedAtByFamily = new Map(
+      startedAt.map((row) => [row.familyId, new Date(row.startedAt)]),
+    );
+
+    return heads.map((head) => ({
+      id: head.familyId,
+      deviceName: head.deviceName || this.describeUserAgent(head.userAgent),
+      userAgent: head.userAgent,
+      ipAddress: head.ipAddress,
+      createdAt: startedAtByFamily.get(head.familyId) || head.createdAt,
+      lastActivityAt: head.createdAt,
+      expiresAt: head.expiresAt,
+      current: head.familyId === currentSessionId,
+    }));
+  }
+
+  /**
+   * Переименование устройства
+   */
+  async renameSession(
+    userId: string,
+    sessionId: string,
+    deviceName: string,
+  ): Promise<void> {
+    const result = await this.refreshTokensRepo.update(
+      { userId, familyId: sessionId, isRevoked: false },
+      { deviceName },
+    );
+
+    if (!result.affected) {
+      throw new NotFoundException('Сессия не найдена');
+    }
+  }
+
+  /**
+   * Завершение одной сессии
+   */
+  async revokeSession(userId: string, sessionId: string): Promise<void> {
+    const result = await this.refreshTokensRepo.update(
+      { userId, familyId: sessionId, isRevoked: false },
+      { isRevoked: true, revokedReason: 'session_terminated' },
+    );
+
+    if (!result.affected) {
+      throw new NotFoundException('Сессия не найдена');
+    }
+  }
+
+  /**
+   * Выход на всех устройствах, кроме текущего
+   */
+  async revokeOtherSessions(
+    userId: string,
+    currentSessionId: string,
+  ): Promise<number> {
+    const result = await this.refreshTokensRepo.update(
+      { userId, familyId: Not(currentSessionId), isRevoked: false },
+      { isRevoked: true, revokedReason: 'session_terminated' },
+    );
+    return result.affected || 0;
+  }
+
+  /**
+   * Завершение всех сессий пользователя
+   */
+  async revokeAllSessions(userId: string): Promise<number> {
+    const result = await this.refreshTokensRepo.update(
+      { userId, isRevoked: false },
+      { isRevoked: true, revokedReason: 'session_terminated' },
+    );
+    return result.affected || 0;
+  }
+
+  /**
+   * Сессия не отозвана и не истекла (проверяется для access token с claim sid)
+   */
+  async isSessionActive(sessionId: string): Promise<boolean> {
+    return this.refreshTokensRepo.exists({
+      where: {
+        familyId: sessionId,
+        isRevoked: false,
+        expiresAt: MoreThan(new Date()),
+      },
+    });
+  }
+
+  /**
+   * Человекочитаемое описание устройства по User-Agent
+   */
+  describeUserAgent(userAgent: string | null): string {
+    if (!userAgent) {
+      return 'Неизвестное устройство';
+    }
+
+    const browsers: [RegExp, string][] = [
+      [/YaBrowser\//, 'Яндекс Браузер'],
+      [/Edg\//, 'Edge'],
+      [/OPR\//, 'Opera'],
+      [/Firefox\//, 'Firefox'],
+      [/Chrome\//, 'Chrome'],
+      [/Safari\//, 'Safari'],
+    ];
+    const systems: [RegExp, string][] = [
+      [/Android/, 'Android'],
+      [/iPhone|iPad/, 'iOS'],
+      [/Windows/, 'Windows'],
+      [/Mac OS X/, 'macOS'],
+      [/Linux/, 'Linux'],
+    ];
+
+    const browser = browsers.find(([pattern]) => pattern.test(userAgent))?.[1];
+    const system = systems.find(([pattern]) => pattern.test(userAgent))?.[1];
+
+    if (browser && system) {
+      return `${browser}, ${system}`;
+    }
+    return browser || system || userAgent.substring(0, 100);
+  }
+}
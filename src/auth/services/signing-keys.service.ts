@@ -0,0 +1,309 @@
+import {
+  Injectable,
+  Logger,
+  OnModuleInit,
+  UnauthorizedException,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { JwtService, JwtSignOptions } from '@nestjs/jwt';
+import { InjectRepository } from '@nestjs/typeorm';
+import { Cron, CronExpression } from '@nestjs/schedule';
+import { DataSource, LessThan, Repository } from 'typeorm';
+import * as crypto from 'crypto';
+import {
+  SigningKey,
+  SigningKeyAlgorithm,
+  SigningKeyStatus,
+} from '../entities/signing-key.entity';
+
+// Не чаще одной перезагрузки ключей из БД при неизвестном kid
+const KEYS_RELOAD_THROTTLE_MS = 30 * 1000;
+
+interface CachedSigningKey {
+  kid: string;
+  algorithm: SigningKeyAlgorithm;
+  publicKey: string;
+  privateKey?: string;
+}
+
+export interface SignTokenOptions {
+  expiresIn?: string | number;
+  typ?: string; // Заголовок typ, например at+jwt для токенов OIDC
+}
+
+export interface VerifyTokenOptions {
+  issuer?: string;
+  typ?: string;
+}
+
+/**
+ * Асимметричные ключи подписи JWT с ротацией и публикацией в JWKS
+ */
+@Injectable()
+export class SigningKeysService implements OnModuleInit {
+  private readonly logger = new Logger(SigningKeysService.name);
+  private activeKey: CachedSigningKey | null = null;
+  private verificationKeys = new Map<string, CachedSigningKey>();
+  private lastLoadedAt = 0;
+
+  constructor(
+    @InjectRepository(SigningKey)
+    private signingKeysRepo: Repository<SigningKey>,
+    private dataSource: DataSource,
+    private jwtService: JwtService,
+    private configService: ConfigService,
+  ) {}
+
+  async onModuleInit() {
+    await this.rotateIfDue();
+    await this.loadKeys();
+  }
+
+  /**
+   * Подпись токена текущим активным ключом (с заголовком kid)
+   */
+  sign(payload: object, options: SignTokenOptions = {}): string {
+    if (!this.activeKey?.privateKey) {
+      throw new Error('Нет активного ключа подписи JWT');
+    }
+
+    const { kid, algorithm, privateKey } = this.activeKey;
+    return this.jwtService.sign(payload, {
+      privateKey,
+      algorithm,
+      keyid: kid,
+      ...(options.expiresIn !== undefined
+        ? { expiresIn: options.expiresIn as JwtSignOptions['expiresIn'] }
+        : {}),
+      ...(options.typ ? { header: { alg: algorithm, typ: options.typ } } : {}),
+    });
+  }
+
+  /**
+   * Проверка токена по ключу из заголовка kid
+   */
+  async verify<T extends object = any>(
+    token: string,
+    options: VerifyTokenOptions = {},
+  ): Promise<T> {
+    const decoded = this.jwtService.decode<{
+      header?: { kid?: string; typ?: string };
+    } | null>(token, {
+      complete: true,
+    });
+
+    if (options.typ && decoded?.header?.typ !== options.typ) {
+      throw new UnauthorizedException('Неверный тип токена');
+    }
+
+    const key = await this.getVerificationKey(decoded?.header?.kid);
+    try {
+      return this.jwtService.verify<T>(token, {
+        publicKey: key.publicKey,
+        algorithms: [key.algorithm],
+        ...(options.issuer ? { issuer: options.issuer } : {}),
+      });
+    } catch {
+      throw new UnauthorizedException('Невалидный токен');
+    }
+  }
+
+  /**
+   * Публичный ключ для проверки подписи токена (используется JwtStrategy)
+   */
+  async getVerificationKey(kid?: string): Promise<CachedSigningKey> {
+    if (!kid) {
+      throw new UnauthorizedException('В токене отсутствует kid');
+    }
+
+    let key = this.verificationKeys.get(kid);
+    if (!key && Date.now() - this.lastLoadedAt > KEYS_RELOAD_THROTTLE_MS) {
+      // Ключ мог быть создан другим инстансом после последней загрузки
+      await this.loadKeys();
+      key = this.verificationKeys.get(kid);
+    }
+
+    if (!key) {
+      throw new UnauthorizedException('Неизвестный ключ подписи');
+    }
+
+    return key;
+  }
+
+  /**
+   * Публичные ключи в формате JWKS (активный и ключи в периоде перекрытия)
+   */
+  getJwks(): { keys: crypto.JsonWebKey[] } {
+    return {
+      keys: [...this.verificationKeys.values()].map((key) => ({
+        ...crypto.createPublicKey(key.publicKey).export({ format: 'jwk' }),
+        kid: key.kid,
+        use: 'sig',
+        alg: key.algorithm,
+      })),
+    };
+  }
+
+  /**
+   * Метаданные ключей для администратора (без приватных частей)
+   */
+  async findAll(): Promise<SigningKey[]> {
+    return this.signingKeysRepo.find({ order: { createdAt: 'DESC' } });
+  }
+
+  get algorithm(): SigningKeyAlgorithm {
+    return (
+      this.configService.get<SigningKeyAlgorithm>('jwt.algorithm') || 'RS256'
+    );
+  }
+
+  /**
+   * Плановая проверка ротации и очистка истёкших ключей
+   */
+  @Cron(CronExpression.EVERY_HOUR)
+  async handleScheduledRotation() {
+    await this.rotateIfDue();
+    await this.signingKeysRepo.delete({
+      status: SigningKeyStatus.RETIRED,
+      expiresAt: LessThan(new Date()),
+    });
+    await this.loadKeys();
+  }
+
+  /**
+   * Немедленная ротация: новый ключ становится активным, старый остаётся в JWKS на период перекрытия
+   */
+  async rotate(): Promise<SigningKey> {
+    const key = await this.dataSource.transaction(async (manager) => {
+      const current = await manager.findOne(SigningKey, {
+        where: { status: SigningKeyStatus.ACTIVE },
+        lock: { mode: 'pessimistic_write' },
+      });
+      return this.replaceActiveKey(manager.getRepository(SigningKey), current);
+    });
+
+    await this.loadKeys();
+    return key;
+  }
+
+  // Приватные методы
+
+  private async rotateIfDue(): Promise<void> {
+    const rotationMs =
+      this.configService.get<number>('jwt.keyRotationDays')! *
+      24 *
+      60 *
+      60 *
+      1000;
+
+    const rotated = await this.dataSource.transaction(async (manager) => {
+      // Блокировка строки не даёт двум инстансам выполнить ротацию одновременно
+      const current = await manager.findOne(SigningKey, {
+        where: { status: SigningKeyStatus.ACTIVE },
+        lock: { mode: 'pessimistic_write' },
+      });
+
+      if (
+        current &&
+        current.algorithm === this.algorithm &&
+        Date.now() - current.createdAt.getTime() < rotationMs
+      ) {
+        return null;
+      }
+
+      return this.replaceActiveKey(manager.getRepository(SigningKey), current);
+    });
+
+    if (rotated) {
+      this.logger.log(
+        `🔑 Новый ключ подписи JWT: ${rotated.kid} (${rotated.algorithm})`,
+      );
+    }
+  }
+
+  private async replaceActiveKey(
+    repo: Repository<SigningKey>,
+    current: SigningKey | null,
+  ): Promise<SigningKey> {
+    if (current) {
+      const overlapMs =
+        this.configService.get<number>('jwt.keyOverlapHours')! * 60 * 60 * 1000;
+      await repo.update(current.id, {
+        status: SigningKeyStatus.RETIRED,
+        retiredAt: new Date(),
+        expiresAt: new Date(Date.now() + overlapMs),
+      });
+    }
+
+    return repo.save(
+      repo.create({
+        ...this.generateKeyPair(this.algorithm),
+        status: SigningKeyStatus.ACTIVE,
+      }),
+    );
+  }
+
+  private async loadKeys(): Promise<void> {
+    const keys = await this.signingKeysRepo
+      .createQueryBuilder('key')
+      .addSelect('key.privateKey')
+      .getMany();
+
+    const now = new Date();
+    this.lastLoadedAt = now.getTime();
+    this.verificationKeys = new Map(
+      keys
+        .filter(
+          (key) =>
+            key.status === SigningKeyStatus.ACTIVE ||
+            (key.expiresAt && key.expiresAt > now),
+        )
+        .map((key) => [
+          key.kid,
+          { kid: key.kid, algorithm: key.algorithm, publicKey: key.publicKey },
+        ]),
+    );
+
+    const active = keys.find((key) => key.status === SigningKeyStatus.ACTIVE);
+    this.activeKey = active
+      ? {
+          kid: active.kid,
+          algorithm: active.algorithm,
+          publicKey: active.publicKey,
+          privateKey: active.privateKey,
+        }
+      : null;
+  }
+
+  private generateKeyPair(
+    algorithm: SigningKeyAlgorithm,
+  ): Pick<SigningKey, 'kid' | 'algorithm' | 'publicKey' | 'privateKey'> {
+    const { publicKey, privateKey } =
+      algorithm === 'ES256'
+        ? crypto.generateKeyPairSync('ec', { namedCurve: 'P-256' })
+        : crypto.generateKeyPairSync('rsa', { modulusLength: 2048 });
+
+    return {
+      kid: this.thumbprint(publicKey.export({ format: 'jwk' })),
+      algorithm,
+      publicKey: publicKey.export({ type: 'spki', format: 'pem' }).toString(),
+      privateKey: privateKey
+        .export({ type: 'pkcs8', format: 'pem' })
+        .toString(),
+    };
+  }
+
+  /**
+   * JWK thumbprint (RFC 7638): обязательные поля ключа в лексикографическом порядке
+   */
+  private thumbprint(jwk: crypto.JsonWebKey): string {
+    const members =
+      jwk.kty === 'EC'
+        ? { crv: jwk.crv, kty: jwk.kty, x: jwk.x, y: jwk.y }
+        : { e: jwk.e, kty: jwk.kty, n: jwk.n };
+    return crypto
+      .createHash('sha256')
+      .update(JSON.stringify(members))
+      .digest('base64url');
+  }
+}
@@ -0,0 +1,155 @@
+import {
+  ConflictException,
+  Injectable,
+  Logger,
+  NotFoundException,
+  UnauthorizedException,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { InjectRepository } from '@nestjs/typeorm';
+import { Repository } from 'typeorm';
+import { createHash, createHmac, timingSafeEqual } from 'crypto';
+import { User } from '../../users/entities/user.entity';
+import { AuthMethodType } from '../enums/auth-method-type.enum';
+
+/**
+ * Данные от Telegram Login Widget (все поля, кроме hash, входят в подпись)
+ */
+export interface TelegramWidgetData {
+  id: number | string;
+  first_name?: string;
+  last_name?: string;
+  username?: string;
+  photo_url?: string;
+  auth_date: number | string;
+  hash: string;
+  [field: string]: unknown;
+}
+
+export interface TelegramUser {
+  id: string;
+  firstName: string;
+  lastName: string;
+  username: string | null;
+  photoUrl: string | null;
+  authDate: Date;
+}
+
+const CLOCK_SKEW_SECONDS = 60;
+
+/**
+ * Проверка подписи Telegram Login Widget и привязка Telegram-аккаунта по его id
+ * https://core.telegram.org/widgets/login#checking-authorization
+ */
+@Injectable()
+export class TelegramAuthService {
+  private readonly logger = new Logger(TelegramAuthService.name);
+
+  constructor(
+    private configService: ConfigService,
+    @InjectRepository(User)
+    private usersRepo: Repository<User>,
+  ) {}
+
+  /**
+   * HMAC-SHA256 по data-check-string с ключом SHA256(bot token) и проверка свежести auth_date
+   */
+  verify(data: TelegramWidgetData): TelegramUser {
+    const botToken = this.configService.get<string>('TELEGRAM_BOT_TOKEN');
+    if (!botToken) {
+      throw new Error('Telegram Bot Token не настроен');
+    }
+
+    if (!data || typeof data.hash !== 'string' || !data.id || !data.auth_date) {
+      throw new UnauthorizedException('Неверные данные от Telegram');
+    }
+
+    const { hash, ...fields } = data;
+    const dataCheckString = Object.keys(fields)
+      .filter((key) => fields[key] !== undefined && fields[key] !== null)
+      .sort()
+      .map((key) => `${key}=${String(fields[key])}`)
+      .join('\n');
+    const secretKey = createHash('sha256').update(botToken).digest();
+    const expected = createHmac('sha256', secretKey)
+      .update(dataCheckString)
+      .digest();
+    const actual = Buffer.from(hash, 'hex');
+
+    if (
+      actual.length !== expected.length ||
+      !timingSafeEqual(actual, expected)
+    ) {
+      this.logger.warn(`⚠️ Неверная подпись Telegram для id=${data.id}`);
+      throw new UnauthorizedException('Неверные данные от Telegram');
+    }
+
+    const authDate = Number(data.auth_date);
+    const ageSeconds = Date.now() / 1000 - authDate;
+    const maxAge =
+      this.configService.get<number>('TELEGRAM_AUTH_MAX_AGE_SECONDS') ?? 86400;
+    if (
+      !Number.isFinite(authDate) ||
+      ageSeconds > Number(maxAge) ||
+      ageSeconds < -CLOCK_SKEW_SECONDS
+    ) {
+      throw new UnauthorizedException(
+        'Данные Telegram устарели, авторизуйтесь заново',
+      );
+    }
+
+    return {
+      id: String(data.id),
+      firstName: data.first_name ?? '',
+      lastName: data.last_name ?? '',
+      username: data.username ?? null,
+      photoUrl: data.photo_url ?? null,
+      authDate: new Date(authDate * 1000),
+    };
+  }
+
+  /**
+   * Пользователь, к которому привязан Telegram-аккаунт
+   */
+  async findUser(telegramId: string): Promise<User | null> {
+    return this.usersRepo.findOne({ where: { telegramId } });
+  }
+
+  /**
+   * Привязка Telegram к пользователю из JWT
+   */
+  async bindToUser(userId: string, telegramUser: TelegramUser): Promise<User> {
+    const owner = await this.findUser(telegramUser.id);
+    if (owner && owner.id !== userId) {
+      throw new ConflictException(
+        'Этот Telegram-аккаунт уже привязан к другому пользователю',
+      );
+    }
+
+    const user = await this.usersRepo.findOne({ where: { id: userId } });
+    if (!user) {
+      throw new NotFoundException('Пользователь не найден');
+    }
+
+    user.telegramId = telegramUser.id;
+    user.messengerMetadata = {
+      ...user.messengerMetadata,
+      telegram: {
+        userId: Number(telegramUser.id),
+        username: telegramUser.username ?? '',
+      },
+    };
+    if (!user.availableAuthMethods.includes(AuthMethodType.PHONE_TELEGRAM)) {
+      user.availableAuthMethods.push(AuthMethodType.PHONE_TELEGRAM);
+    }
+    if (telegramUser.photoUrl && !user.avatarUrl) {
+      user.avatarUrl = telegramUser.photoUrl;
+    }
+
+    const saved = await this.usersRepo.save(user);
+    this.logger.log(
+      `Telegram ${telegramUser.id} привязан к пользователю ${userId}`,
+    );
+    return saved;
+  }
+}
@@ -0,0 +1,150 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { Repository } from 'typeorm';
+import { randomInt } from 'crypto';
+import {
+  TwoFactorCode,
+  TwoFactorStatus,
+  TwoFactorType,
+} from '../entities/two-factor-code.entity';
+import { SecretHashService } from './secret-hash.service';
+
+export interface IssueTwoFactorCodeOptions {
+  userId: string;
+  type: TwoFactorType;
+  contact: string;
+  ipAddress?: string;
+  userAgent?: string;
+  ttlMinutes?: number;
+}
+
+/**
+ * Чей код проверяется: по пользователю, по контакту или по обоим
+ */
+export interface TwoFactorCodeScope {
+  userId?: string;
+  contact?: string;
+  type?: TwoFactorType;
+}
+
+export type TwoFactorCodeCheck =
+  | { valid: true; code: TwoFactorCode }
+  | { valid: false; reason: 'invalid' | 'expired' | 'exhausted' };
+
+/**
+ * Коды 2FA по email/SMS: хранятся хешем, проверяется только последний выданный код,
+ * неверные вводы расходуют попытки (maxAttempts), после чего код аннулируется
+ */
+@Injectable()
+export class TwoFactorCodesService {
+  private readonly logger = new Logger(TwoFactorCodesService.name);
+
+  constructor(
+    @InjectRepository(TwoFactorCode)
+    private codesRepo: Repository<TwoFactorCode>,
+    private secretHashService: SecretHashService,
+  ) {}
+
+  /**
+   * Новый код; прежние неиспользованные коды того же контакта аннулируются
+   */
+  async issue(
+    options: IssueTwoFactorCodeOptions,
+  ): Promise<{ code: string; expiresAt: Date }> {
+    await this.codesRepo.update(
+      {
+        userId: options.userId,
+        type: options.type,
+        contact: options.contact,
+        status: TwoFactorStatus.PENDING,
+      },
+      { status: TwoFactorStatus.EXPIRED },
+    );
+
+    const code = randomInt(0, 1_000_000).toString().padStart(6, '0');
+    const expiresAt = new Date(
+      Date.now() + (options.ttlMinutes ?? 10) * 60_000,
+    );
+    await this.codesRepo.save(
+      this.codesRepo.create({
+        userId: options.userId,
+        type: options.type,
+        contact: options.contact,
+        codeHash: this.secretHashService.hash(code, this.scope(options.userId)),
+        ipAddress: options.ipAddress,
+        userAgent: options.userAgent,
+        expiresAt,
+        status: TwoFactorStatus.PENDING,
+      }),
+    );
+
+    return { code, expiresAt };
+  }
+
+  /**
+   * Проверка и погашение последнего выданного кода области
+   */
+  async verify(
+    scope: TwoFactorCodeScope,
+    code: string,
+  ): Promise<TwoFactorCodeCheck> {
+    const query = this.codesRepo
+      .createQueryBuilder('code')
+      .addSelect('code.codeHash')
+      .where('code.status = :status', { status: TwoFactorStatus.PENDING });
+    if (scope.userId) {
+      query.andWhere('code.userId = :userId', { userId: scope.userId });
+    }
+    if (scope.contact) {
+      query.andWhere('code.contact = :contact', { contact: scope.contact });
+    }
+    if (scope.type) {
+      query.andWhere('code.type = :type', { type: scope.type });
+    }
+    const current = await query.orderBy('code.createdAt', 'DESC').getOne();
+    if (!current) {
+      return { valid: false, reason: 'invalid' };
+    }
+
+    if (current.expiresAt < new Date()) {
+      await this.codesRepo.update(current.id, {
+        status: TwoFactorStatus.EXPIRED,
+      });
+      return { valid: false, reason: 'expired' };
+    }
+
+    if (
+      !this.secretHashService.matches(
+        current.codeHash,
+        String(code ?? '').trim(),
+        this.scope(current.userId),
+      )
+    ) {
+      const attempts = current.attempts + 1;
+      const exhausted = attempts >= current.maxAttempts;
+      await this.codesRepo.update(current.id, {
+        attempts,
+        ...(exhausted ? { status: TwoFactorStatus.EXPIRED } : {}),
+      });
+      if (exhausted) {
+        this.logger.warn(
+          `⚠️ Код 2FA пользователя ${current.userId} аннулирован после ${attempts} неверных вводов`,
+        );
+      }
+      return { valid: false, reason: exhausted ? 'exhausted' : 'invalid' };
+    }
+
+    // Условное обновление: из параллельных запросов с верным кодом пройдёт один
+    const consumed = await this.codesRepo.update(
+      { id: current.id, status: TwoFactorStatus.PENDING },
+      { status: TwoFactorStatus.USED, verifiedAt: new Date() },
+    );
+    return consumed.affected
+      ? { valid: true, code: current }
+      : { valid: false, reason: 'invalid' };
+  }
+
+  private scope(userId: string): string {
+    return `two-factor:${userId}`;
+  }
+}
@@ -0,0 +1,142 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { getRepositoryToken } from '@nestjs/typeorm';
+import { ConfigService } from '@nestjs/config';
+import { HttpException, HttpStatus } from '@nestjs/common';
+import { VerificationCodesService } from './verification-codes.service';
+import { SecretHashService } from './secret-hash.service';
+import { VerificationCode } from '../entities/verification-code.entity';
+
+const PHONE = '+79990000000';
+
+describe('VerificationCodesService', () => {
+  let service: VerificationCodesService;
+  let secretHashService: SecretHashService;
+
+  const mockCodesRepository = {
+    findOne: jest.fn(),
+    update: jest.fn().mockResolvedValue({ affected: 1 }),
+    create: jest.fn((data: Partial<VerificationCode>) => data),
+    save: jest.fn((data: VerificationCode) =>
+      Promise.resolve({ ...data, id: 'code-1' }),
+    ),
+  };
+
+  const config: Record<string, unknown> = {
+    'app.encryptionKey': 'test-encryption-key',
+    'verificationCodes.resendCooldownSeconds': 60,
+    'verificationCodes.ttlMinutes': 10,
+    'verificationCodes.maxAttempts': 3,
+  };
+
+  // Код, выданный на вход по телефону: хранится только хеш
+  const storedCode = (code: string, fields: Partial<VerificationCode> = {}) =>
+    ({
+      id: 'code-1',
+      identifier: PHONE,
+      purpose: 'login',
+      userId: null,
+      attempts: 0,
+      codeHash: secretHashService.hash(code, `login:${PHONE}`),
+      expiresAt: new Date(Date.now() + 60_000),
+      ...fields,
+    }) as VerificationCode;
+
+  beforeEach(async () => {
+    jest.clearAllMocks();
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        VerificationCodesService,
+        SecretHashService,
+        {
+          provide: getRepositoryToken(VerificationCode),
+          useValue: mockCodesRepository,
+        },
+        {
+          provide: ConfigService,
+          useValue: { get: jest.fn((name: string) => config[name]) },
+        },
+      ],
+    }).compile();
+
+    service = module.get<VerificationCodesService>(VerificationCodesService);
+    secretHashService = module.get<SecretHashService>(SecretHashService);
+  });
+
+  describe('issue', () => {
+    it('should store only a hash of the code for the normalized phone', async () => {
+      mockCodesRepository.findOne.mockResolvedValueOnce(null);
+
+      const issued = await service.issue({
+        identifier: '8 (999) 000-00-00',
+        purpose: 'login',
+        channel: 'whatsapp',
+      });
+
+      expect(issued.code).toMatch(/^\d{6}$/);
+      const [[saved]] = mockCodesRepository.create.mock.calls;
+      expect(saved.identifier).toBe(PHONE);
+      expect(saved.codeHash).not.toContain(issued.code);
+      // Прежние коды той же области больше не действуют
+      expect(mockCodesRepository.update).toHaveBeenCalledWith(
+        expect.objectContaining({ identifier: PHONE, purpose: 'login' }),
+        { isUsed: true },
+      );
+    });
+
+    it('should not send a new code during the resend cooldown', async () => {
+      mockCodesRepository.findOne.mockResolvedValueOnce({
+        createdAt: new Date(Date.now() - 10_000),
+      });
+
+      const error = await service
+        .issue({ identifier: PHONE, purpose: 'login', channel: 'sms' })
+        .catch((caught: unknown) => caught);
+
+      expect(error).toBeInstanceOf(HttpException);
+      expect((error as HttpException).getStatus()).toBe(
+        HttpStatus.TOO_MANY_REQUESTS,
+      );
+      expect(mockCodesRepository.save).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('verify', () => {
+    it('should accept the code once', async () => {
+      const code = storedCode('123456');
+      mockCodesRepository.findOne.mockResolvedValueOnce(code);
+
+      await expect(
+        service.verify({ identifier: PHONE, purpose: 'login' }, '123456'),
+      ).resolves.toBe(code);
+      expect(mockCodesRepository.update).toHaveBeenLastCalledWith(
+        { id: code.id, isUsed: false },
+        { isUsed: true },
+      );
+    });
+
+    it('should not accept a code issued for another purpose', async () => {
+      mockCodesRepository.findOne.mockResolvedValueOnce(storedCode('123456'));
+
+      await expect(
+        service.verify(
+          { identifier: PHONE, purpose: 'registration' },
+          '123456',
+        ),
+      ).resolves.toBeNull();
+    });
+
+    it('should invalidate the code after the last wrong attempt', async () => {
+      const code = storedCode('123456', { attempts: 2 });
+      mockCodesRepository.findOne.mockResolvedValueOnce(code);
+
+      await expect(
+        service.verify({ identifier: PHONE, purpose: 'login' }, '654321'),
+      ).resolves.toBeNull();
+      expect(mockCodesRepository.update).toHaveBeenLastCalledWith(code.id, {
+        attempts: 3,
+        isUsed: true,
+      });
+    });
+  });
+});
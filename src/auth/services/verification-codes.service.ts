@@ -0,0 +1,212 @@
+import { HttpException, HttpStatus, Injectable, Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { InjectRepository } from '@nestjs/typeorm';
+import { Cron, CronExpression } from '@nestjs/schedule';
+import { IsNull, LessThan, MoreThan, Repository } from 'typeorm';
+import { randomInt } from 'crypto';
+import { VerificationCode } from '../entities/verification-code.entity';
+import { AuthMethodType } from '../enums/auth-method-type.enum';
+import type { MessageChannel } from '../../messaging/interfaces/message-provider.interface';
+import { SecretHashService } from './secret-hash.service';
+
+/**
+ * Для кого и зачем выдан код: код действует только в своей области
+ */
+export interface VerificationCodeScope {
+  identifier: string;
+  purpose: string;
+  userId?: string | null;
+}
+
+export interface IssueVerificationCodeOptions extends VerificationCodeScope {
+  channel: MessageChannel;
+  authMethod?: AuthMethodType | null;
+  metadata?: Record<string, unknown>;
+}
+
+export interface IssuedVerificationCode {
+  id: string;
+  code: string; // Открытый код - только для отправки, в базе хранится хеш
+  expiresAt: Date;
+}
+
+/**
+ * Одноразовые коды подтверждения (телефон, мессенджеры, email): хранятся хешем,
+ * ограничены по числу вводов, сроку и частоте повторной отправки
+ */
+@Injectable()
+export class VerificationCodesService {
+  private readonly logger = new Logger(VerificationCodesService.name);
+
+  constructor(
+    @InjectRepository(VerificationCode)
+    private codesRepo: Repository<VerificationCode>,
+    private configService: ConfigService,
+    private secretHashService: SecretHashService,
+  ) {}
+
+  /**
+   * Новый код; предыдущие неиспользованные коды той же области аннулируются
+   */
+  async issue(
+    options: IssueVerificationCodeOptions,
+  ): Promise<IssuedVerificationCode> {
+    const identifier = this.normalizeIdentifier(options.identifier);
+    const where = this.scopeWhere({ ...options, identifier });
+
+    const cooldownSeconds = this.configService.get<number>(
+      'verificationCodes.resendCooldownSeconds',
+    )!;
+    const recent = await this.codesRepo.findOne({
+      where: {
+        ...where,
+        createdAt: MoreThan(new Date(Date.now() - cooldownSeconds * 1000)),
+      },
+      order: { createdAt: 'DESC' },
+    });
+    if (recent) {
+      const retryAfter = Math.ceil(
+        (recent.createdAt.getTime() + cooldownSeconds * 1000 - Date.now()) /
+          1000,
+      );
+      throw new HttpException(
+        {
+          statusCode: HttpStatus.TOO_MANY_REQUESTS,
+          message: `Повторно отправить код можно через ${retryAfter} сек.`,
+          retryAfter,
+        },
+        HttpStatus.TOO_MANY_REQUESTS,
+      );
+    }
+
+    await this.codesRepo.update(where, { isUsed: true });
+
+    const code = randomInt(0, 1_000_000).toString().padStart(6, '0');
+    const ttlMinutes = this.configService.get<number>(
+      'verificationCodes.ttlMinutes',
+    )!;
+    const saved = await this.codesRepo.save(
+      this.codesRepo.create({
+        codeHash: this.secretHashService.hash(
+          code,
+          `${options.purpose}:${identifier}`,
+        ),
+        identifier,
+        purpose: options.purpose,
+        userId: options.userId ?? null,
+        channel: options.channel,
+        authMethod: options.authMethod ?? null,
+        metadata: options.metadata ?? null,
+        expiresAt: new Date(Date.now() + ttlMinutes * 60_000),
+      }),
+    );
+
+    return { id: saved.id, code, expiresAt: saved.expiresAt };
+  }
+
+  /**
+   * Проверка и погашение кода. Неверный ввод расходует попытку; после исчерпания код аннулируется.
+   * Возвращает погашенный код или null без указания причины
+   */
+  async verify(
+    scope: VerificationCodeScope,
+    code: string,
+  ): Promise<VerificationCode | null> {
+    const identifier = this.normalizeIdentifier(scope.identifier);
+    const current = await this.codesRepo.findOne({
+      where: {
+        ...this.scopeWhere({ ...scope, identifier }),
+        expiresAt: MoreThan(new Date()),
+      },
+      select: {
+        id: true,
+        codeHash: true,
+        identifier: true,
+        authMethod: true,
+        channel: true,
+        userId: true,
+        purpose: true,
+        attempts: true,
+        expiresAt: true,
+        metadata: true,
+        createdAt: true,
+      },
+      order: { createdAt: 'DESC' },
+    });
+    if (!current) {
+      return null;
+    }
+
+    if (
+      !this.secretHashService.matches(
+        current.codeHash,
+        String(code ?? '').trim(),
+        `${scope.purpose}:${identifier}`,
+      )
+    ) {
+      const maxAttempts = this.configService.get<number>(
+        'verificationCodes.maxAttempts',
+      )!;
+      const attempts = current.attempts + 1;
+      await this.codesRepo.update(current.id, {
+        attempts,
+        isUsed: attempts >= maxAttempts,
+      });
+      if (attempts >= maxAttempts) {
+        this.logger.warn(
+          `⚠️ Код ${scope.purpose} для ${identifier} аннулирован после ${attempts} неверных вводов`,
+        );
+      }
+      return null;
+    }
+
+    // Условное обновление: параллельный запрос с тем же кодом его уже не погасит
+    const consumed = await this.codesRepo.update(
+      { id: current.id, isUsed: false },
+      { isUsed: true },
+    );
+    return consumed.affected ? current : null;
+  }
+
+  @Cron(CronExpression.EVERY_HOUR)
+  async cleanup(): Promise<void> {
+    const retentionHours = this.configService.get<number>(
+      'verificationCodes.retentionHours',
+    )!;
+    const result = await this.codesRepo.delete({
+      expiresAt: LessThan(new Date(Date.now() - retentionHours * 3_600_000)),
+    });
+    if (result.affected) {
+      this.logger.log(`🧹 Удалено устаревших кодов: ${result.affected}`);
+    }
+  }
+
+  /**
+   * Один номер в разных записях (8 999..., +7 (999) ...) и email в любом регистре - одна область
+   */
+  normalizeIdentifier(identifier: string): string {
+    const value = identifier.trim();
+    if (value.includes('@')) {
+      return value.toLowerCase();
+    }
+    if (/^[\d\s()+-]+$/.test(value)) {
+      let phone = value.replace(/[^\d+]/g, '');
+      if (phone.startsWith('8') && phone.length === 11) {
+        phone = '+7' + phone.substring(1);
+      } else if (!phone.startsWith('+')) {
+        phone = '+' + phone;
+      }
+      return phone;
+    }
+    return value;
+  }
+
+  private scopeWhere(scope: VerificationCodeScope) {
+    return {
+      identifier: scope.identifier,
+      purpose: scope.purpose,
+      userId: scope.userId ?? IsNull(),
+      isUsed: false,
+    };
+  }
+}
@@ -0,0 +1,237 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { getRepositoryToken } from '@nestjs/typeorm';
+import { ConfigService } from '@nestjs/config';
+import { BadRequestException, UnauthorizedException } from '@nestjs/common';
+import * as crypto from 'crypto';
+import { WebAuthnService } from './webauthn.service';
+import { WebAuthnCredential } from '../entities/webauthn-credential.entity';
+import {
+  WebAuthnChallenge,
+  WebAuthnChallengePurpose,
+} from '../entities/webauthn-challenge.entity';
+import { User } from '../../users/entities/user.entity';
+import { TwoFactorSettingsService } from '../../users/two-factor-settings.service';
+import { WebAuthnAssertionDto } from '../dto/webauthn.dto';
+
+const RP_ID = 'localhost';
+const ORIGIN = 'http://localhost:3000';
+const FLAG_USER_PRESENT = 0x01;
+const FLAG_USER_VERIFIED = 0x04;
+
+describe('WebAuthnService', () => {
+  let service: WebAuthnService;
+
+  const { privateKey, publicKey } = crypto.generateKeyPairSync('ec', {
+    namedCurve: 'P-256',
+  });
+
+  const credential = {
+    id: 'credential-1',
+    userId: 'user-1',
+    credentialId: 'raw-credential-id',
+    publicKey: publicKey.export({ type: 'spki', format: 'pem' }).toString(),
+    algorithm: -7,
+    signCount: 0,
+  };
+
+  let storedChallenge: Partial<WebAuthnChallenge> | null;
+
+  const mockCredentialsRepository = {
+    findOne: jest.fn(),
+    update: jest.fn(),
+  };
+
+  // DELETE ... RETURNING отдаёт challenge один раз
+  const mockChallengesRepository = {
+    createQueryBuilder: jest.fn(() => {
+      const builder = {
+        delete: () => builder,
+        from: () => builder,
+        where: () => builder,
+        andWhere: () => builder,
+        returning: () => builder,
+        execute: () => {
+          const raw = storedChallenge ? [storedChallenge] : [];
+          storedChallenge = null;
+          return Promise.resolve({ raw });
+        },
+      };
+      return builder;
+    }),
+  };
+
+  const config: Record<string, unknown> = {
+    'webauthn.rpId': RP_ID,
+    'webauthn.origins': [ORIGIN],
+    'webauthn.challengeTtl': 300,
+  };
+
+  const assertion = (
+    options: { challenge?: string; flags?: number; signCount?: number } = {},
+  ): WebAuthnAssertionDto => {
+    const clientData = Buffer.from(
+      JSON.stringify({
+        type: 'webauthn.get',
+        challenge: options.challenge ?? 'challenge-1',
+        origin: ORIGIN,
+      }),
+    );
+    const authData = Buffer.alloc(37);
+    crypto.createHash('sha256').update(RP_ID).digest().copy(authData, 0);
+    authData[32] = options.flags ?? FLAG_USER_PRESENT;
+    authData.writeUInt32BE(options.signCount ?? 1, 33);
+
+    const signature = crypto.sign(
+      'sha256',
+      Buffer.concat([
+        authData,
+        crypto.createHash('sha256').update(clientData).digest(),
+      ]),
+      privateKey,
+    );
+
+    return {
+      id: credential.credentialId,
+      rawId: credential.credentialId,
+      type: 'public-key',
+      response: {
+        clientDataJSON: clientData.toString('base64url'),
+        authenticatorData: authData.toString('base64url'),
+        signature: signature.toString('base64url'),
+      },
+    };
+  };
+
+  beforeEach(async () => {
+    jest.clearAllMocks();
+    mockCredentialsRepository.findOne.mockResolvedValue(credential);
+    storedChallenge = {
+      challenge: 'challenge-1',
+      purpose: WebAuthnChallengePurpose.SECOND_FACTOR,
+      userId: 'user-1',
+      loginId: 'pending-1',
+    };
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        WebAuthnService,
+        {
+          provide: getRepositoryToken(WebAuthnCredential),
+          useValue: mockCredentialsRepository,
+        },
+        {
+          provide: getRepositoryToken(WebAuthnChallenge),
+          useValue: mockChallengesRepository,
+        },
+        {
+          provide: getRepositoryToken(User),
+          useValue: {},
+        },
+        {
+          provide: TwoFactorSettingsService,
+          useValue: {},
+        },
+        {
+          provide: ConfigService,
+          useValue: { get: jest.fn((key: string) => config[key]) },
+        },
+      ],
+    }).compile();
+
+    service = module.get<WebAuthnService>(WebAuthnService);
+  });
+
+  describe('verifyAuthentication', () => {
+    const verifySecondFactor = (dto: WebAuthnAssertionDto, loginId?: string) =>
+      service.verifyAuthentication(
+        dto,
+        WebAuthnChallengePurpose.SECOND_FACTOR,
+        'user-1',
+        loginId,
+      );
+
+    it('should accept a signed assertion for the login the challenge was issued to', async () => {
+      await expect(
+        verifySecondFactor(assertion(), 'pending-1'),
+      ).resolves.toMatchObject({ id: 'credential-1' });
+      expect(mockCredentialsRepository.update).toHaveBeenCalledWith(
+        'credential-1',
+        expect.objectContaining({ signCount: 1 }),
+      );
+    });
+
+    it('should reject a second-factor challenge without a pending login', async () => {
+      storedChallenge = { ...storedChallenge, loginId: null };
+
+      await expect(verifySecondFactor(assertion())).rejects.toThrow(
+        BadRequestException,
+      );
+    });
+
+    it('should reject a challenge issued for another login', async () => {
+      await expect(
+        verifySecondFactor(assertion(), 'pending-2'),
+      ).rejects.toThrow(BadRequestException);
+    });
+
+    it('should not accept the same challenge twice', async () => {
+      await verifySecondFactor(assertion(), 'pending-1');
+
+      await expect(
+        verifySecondFactor(assertion({ signCount: 2 }), 'pending-1'),
+      ).rejects.toThrow(BadRequestException);
+    });
+
+    it('should reject an invalid signature', async () => {
+      const dto = assertion();
+      dto.response.signature = assertion({ signCount: 2 }).response.signature;
+
+      await expect(verifySecondFactor(dto, 'pending-1')).rejects.toThrow(
+        UnauthorizedException,
+      );
+    });
+
+    it('should reject a sign counter that did not grow', async () => {
+      mockCredentialsRepository.findOne.mockResolvedValue({
+        ...credential,
+        signCount: 5,
+      });
+
+      await expect(
+        verifySecondFactor(assertion({ signCount: 5 }), 'pending-1'),
+      ).rejects.toThrow(UnauthorizedException);
+    });
+
+    it('should require user verification for passwordless login', async () => {
+      storedChallenge = {
+        challenge: 'challenge-1',
+        purpose: WebAuthnChallengePurpose.LOGIN,
+        userId: null,
+        loginId: null,
+      };
+
+      await expect(
+        service.verifyAuthentication(
+          assertion(),
+          WebAuthnChallengePurpose.LOGIN,
+        ),
+      ).rejects.toThrow(UnauthorizedException);
+    });
+
+    it('should accept a user-verified passwordless login', async () => {
+      storedChallenge = {
+        challenge: 'challenge-1',
+        purpose: WebAuthnChallengePurpose.LOGIN,
+        userId: null,
+        loginId: null,
+      };
+
+      await expect(
+        service.verifyAuthentication(
+          assertion({ flags: FLAG_USER_PRESENT | FLAG_USER_VERIFIED }),
+          WebAuthnChallengePurpose.LOGIN,
+        ),
+      ).resolves.toMatchObject({ userId: 'user-1' });
+    });
+  });
+});
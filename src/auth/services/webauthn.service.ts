@@ -0,0 +1,611 @@
+import {
+  BadRequestException,
+  ConflictException,
+  Injectable,
+  Logger,
+  NotFoundException,
+  UnauthorizedException,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { InjectRepository } from '@nestjs/typeorm';
+import { LessThan, Repository } from 'typeorm';
+import * as crypto from 'crypto';
+import { User } from '../../users/entities/user.entity';
+import { TwoFactorMethod } from '../../users/enums/two-factor-method.enum';
+import { TwoFactorSettingsService } from '../../users/two-factor-settings.service';
+import { WebAuthnCredential } from '../entities/webauthn-credential.entity';
+import {
+  WebAuthnChallenge,
+  WebAuthnChallengePurpose,
+} from '../entities/webauthn-challenge.entity';
+import { AuthMethodType } from '../enums/auth-method-type.enum';
+import {
+  RegisterWebAuthnCredentialDto,
+  WebAuthnAssertionDto,
+} from '../dto/webauthn.dto';
+import {
+  WebAuthnAuthenticationOptions,
+  WebAuthnRegistrationOptions,
+} from '../interfaces/webauthn.interface';
+import { CborValue, decodeCbor, decodeCborFirst } from '../utils/cbor';
+
+// COSE-алгоритмы в порядке предпочтения
+const COSE_ALG_ES256 = -7;
+const COSE_ALG_EDDSA = -8;
+const COSE_ALG_RS256 = -257;
+const SUPPORTED_ALGORITHMS = [COSE_ALG_ES256, COSE_ALG_EDDSA, COSE_ALG_RS256];
+
+// Флаги authenticatorData
+const FLAG_USER_PRESENT = 0x01;
+const FLAG_USER_VERIFIED = 0x04;
+const FLAG_BACKED_UP = 0x10;
+const FLAG_ATTESTED_CREDENTIAL = 0x40;
+
+interface ParsedAuthenticatorData {
+  rpIdHash: Buffer;
+  flags: number;
+  signCount: number;
+  aaguid?: string;
+  credentialId?: Buffer;
+  credentialPublicKey?: Map<CborValue, CborValue>;
+}
+
+/**
+ * WebAuthn: регистрация ключей и passkey, вход без пароля и второй фактор.
+ * Аттестация не запрашивается (attestation: none), доверие строится на владении ключом
+ */
+@Injectable()
+export class WebAuthnService {
+  private readonly logger = new Logger(WebAuthnService.name);
+
+  constructor(
+    @InjectRepository(WebAuthnCredential)
+    private credentialsRepo: Repository<WebAuthnCredential>,
+    @InjectRepository(WebAuthnChallenge)
+    private challengesRepo: Repository<WebAuthnChallenge>,
+    @InjectRepository(User)
+    private usersRepo: Repository<User>,
+    private twoFactorSettingsService: TwoFactorSettingsService,
+    private configService: ConfigService,
+  ) {}
+
+  /**
+   * Параметры регистрации нового ключа для navigator.credentials.create()
+   */
+  async generateRegistrationOptions(
+    userId: string,
+  ): Promise<WebAuthnRegistrationOptions> {
+    const user = await this.usersRepo.findOne({ where: { id: userId } });
+    if (!user) {
+      throw new NotFoundException('Пользователь не найден');
+    }
+
+    const existing = await this.credentialsRepo.find({ where: { userId } });
+    const accountName = user.email || user.phone || user.id;
+    const displayName = [user.firstName, user.lastName]
+      .filter(Boolean)
+      .join(' ');
+
+    return {
+      challenge: await this.createChallenge(
+        WebAuthnChallengePurpose.REGISTRATION,
+        userId,
+      ),
+      rp: { id: this.rpId, name: this.rpName },
+      user: {
+        id: Buffer.from(user.id).toString('base64url'),
+        name: accountName,
+        displayName: displayName || accountName,
+      },
+      pubKeyCredParams: SUPPORTED_ALGORITHMS.map((alg) => ({
+        type: 'public-key' as const,
+        alg,
+      })),
+      timeout: this.challengeTtl * 1000,
+      attestation: 'none',
+      excludeCredentials: existing.map((credential) => ({
+        type: 'public-key' as const,
+        id: credential.credentialId,
+        transports: credential.transports,
+      })),
+      authenticatorSelection: {
+        residentKey: 'preferred',
+        requireResidentKey: false,
+        userVerification: 'preferred',
+      },
+    };
+  }
+
+  /**
+   * Проверка ответа аутентификатора и сохранение ключа
+   */
+  async verifyRegistration(
+    userId: string,
+    dto: RegisterWebAuthnCredentialDto,
+  ): Promise<WebAuthnCredential> {
+    const clientData = this.parseClientData(
+      dto.response.clientDataJSON,
+      'webauthn.create',
+    );
+    await this.consumeChallenge(
+      clientData.challenge,
+      WebAuthnChallengePurpose.REGISTRATION,
+      userId,
+    );
+
+    let attestation: CborValue;
+    try {
+      attestation = decodeCbor(
+        Buffer.from(dto.response.attestationObject, 'base64url'),
+      );
+    } catch {
+      throw new BadRequestException('Невалидный attestationObject');
+    }
+    const authData =
+      attestation instanceof Map ? attestation.get('authData') : undefined;
+    if (!Buffer.isBuffer(authData)) {
+      throw new BadRequestException('В attestationObject нет authData');
+    }
+
+    const parsed = this.parseAuthenticatorData(authData);
+    this.assertAuthenticatorData(parsed, false);
+    if (!parsed.credentialId || !parsed.credentialPublicKey) {
+      throw new BadRequestException('Аутентификатор не передал ключ');
+    }
+
+    const credentialId = parsed.credentialId.toString('base64url');
+    if (credentialId !== dto.rawId) {
+      throw new BadRequestException('Идентификатор ключа не совпадает');
+    }
+
+    const { publicKey, algorithm } = this.coseKeyToPem(
+      parsed.credentialPublicKey,
+    );
+
+    if (await this.credentialsRepo.exists({ where: { credentialId } })) {
+      throw new ConflictException('Ключ уже зарегистрирован');
+    }
+
+    const credential = await this.credentialsRepo.save(
+      this.credentialsRepo.create({
+        userId,
+        credentialId,
+        publicKey,
+        algorithm,
+        signCount: parsed.signCount,
+        transports: dto.response.transports || [],
+        aaguid: parsed.aaguid || null,
+        name: dto.name || this.defaultCredentialName(dto),
+        backedUp: !!(parsed.flags & FLAG_BACKED_UP),
+      }),
+    );
+
+    await this.updateAvailableMethods(userId);
+    this.logger.log(`🔐 Зарегистрирован ключ WebAuthn для ${userId}`);
+
+    return credential;
+  }
+
+  /**
+   * Параметры входа для navigator.credentials.get().
+   * Без userId - вход с discoverable credential (passkey); второй фактор привязан к незавершённому входу loginId
+   */
+  async generateAuthenticationOptions(
+    purpose:
+      | WebAuthnChallengePurpose.LOGIN
+      | WebAuthnChallengePurpose.SECOND_FACTOR,
+    userId?: string,
+    loginId?: string,
+  ): Promise<WebAuthnAuthenticationOptions> {
+    const credentials = userId
+      ? await this.credentialsRepo.find({ where: { userId } })
+      : [];
+
+    return {
+      challenge: await this.createChallenge(
+        purpose,
+        userId ?? null,
+        loginId ?? null,
+      ),
+      rpId: this.rpId,
+      timeout: this.challengeTtl * 1000,
+      // Вход без пароля заменяет оба фактора, поэтому требуется проверка пользователя (PIN, биометрия)
+      userVerification:
+        purpose === WebAuthnChallengePurpose.LOGIN ? 'required' : 'preferred',
+      allowCredentials: credentials.map((credential) => ({
+        type: 'public-key' as const,
+        id: credential.credentialId,
+        transports: credential.transports,
+      })),
+    };
+  }
+
+  /**
+   * Проверка подписи аутентификатора. Возвращает использованный ключ
+   */
+  async verifyAuthentication(
+    dto: WebAuthnAssertionDto,
+    purpose:
+      | WebAuthnChallengePurpose.LOGIN
+      | WebAuthnChallengePurpose.SECOND_FACTOR,
+    expectedUserId?: string,
+    expectedLoginId?: string,
+  ): Promise<WebAuthnCredential> {
+    const clientData = this.parseClientData(
+      dto.response.clientDataJSON,
+      'webauthn.get',
+    );
+    const challenge = await this.consumeChallenge(
+      clientData.challenge,
+      purpose,
+      expectedUserId,
+    );
+    if (
+      purpose === WebAuthnChallengePurpose.SECOND_FACTOR &&
+      (!challenge.loginId || challenge.loginId !== expectedLoginId)
+    ) {
+      throw new BadRequestException('Challenge выдан для другого входа');
+    }
+
+    const credential = await this.credentialsRepo.findOne({
+      where: { credentialId: dto.rawId },
+    });
+    if (!credential) {
+      throw new UnauthorizedException('Ключ не зарегистрирован');
+    }
+
+    const userHandle = dto.response.userHandle
+      ? Buffer.from(dto.response.userHandle, 'base64url').toString('utf8')
+      : null;
+    if (
+      (challenge.userId && challenge.userId !== credential.userId) ||
+      (userHandle && userHandle !== credential.userId)
+    ) {
+      throw new UnauthorizedException('Ключ принадлежит другому пользователю');
+    }
+
+    const authData = Buffer.from(dto.response.authenticatorData, 'base64url');
+    const parsed = this.parseAuthenticatorData(authData);
+    this.assertAuthenticatorData(
+      parsed,
+      purpose === WebAuthnChallengePurpose.LOGIN,
+    );
+
+    const signedData = Buffer.concat([
+      authData,
+      crypto.createHash('sha256').update(clientData.raw).digest(),
+    ]);
+    if (
+      !this.verifySignature(
+        credential,
+        signedData,
+        Buffer.from(dto.response.signature, 'base64url'),
+      )
+    ) {
+      throw new UnauthorizedException('Неверная подпись WebAuthn');
+    }
+
+    // Счётчик должен расти; аутентификаторы без счётчика всегда присылают 0
+    if (
+      (parsed.signCount > 0 || credential.signCount > 0) &&
+      parsed.signCount <= credential.signCount
+    ) {
+      this.logger.warn(
+        `⚠️ Счётчик подписей ключа ${credential.id} не вырос - возможна копия ключа`,
+      );
+      throw new UnauthorizedException('Ключ отклонён: возможна копия ключа');
+    }
+
+    await this.credentialsRepo.update(credential.id, {
+      signCount: parsed.signCount,
+      backedUp: !!(parsed.flags & FLAG_BACKED_UP),
+      lastUsedAt: new Date(),
+    });
+
+    return credential;
+  }
+
+  /**
+   * Ключи пользователя
+   */
+  async findAll(userId: string): Promise<WebAuthnCredential[]> {
+    return this.credentialsRepo.find({
+      where: { userId },
+      order: { createdAt: 'DESC' },
+    });
+  }
+
+  /**
+   * Владелец ключа по его идентификатору (до проверки подписи)
+   */
+  async findCredentialOwner(credentialId: string): Promise<string | null> {
+    const credential = await this.credentialsRepo.findOne({
+      where: { credentialId },
+      select: ['id', 'userId'],
+    });
+    return credential?.userId ?? null;
+  }
+
+  /**
+   * Есть ли у пользователя хотя бы один ключ
+   */
+  async hasCredentials(userId: string): Promise<boolean> {
+    return this.credentialsRepo.exists({ where: { userId } });
+  }
+
+  /**
+   * Переименование ключа
+   */
+  async rename(
+    userId: string,
+    id: string,
+    name: string,
+  ): Promise<WebAuthnCredential> {
+    const credential = await this.credentialsRepo.findOne({
+      where: { id, userId },
+    });
+    if (!credential) {
+      throw new NotFoundException('Ключ не найден');
+    }
+
+    credential.name = name;
+    return this.credentialsRepo.save(credential);
+  }
+
+  /**
+   * Удаление ключа. С последним ключом отключается вход по passkey и второй фактор WebAuthn
+   */
+  async remove(userId: string, id: string): Promise<void> {
+    const result = await this.credentialsRepo.delete({ id, userId });
+    if (!result.affected) {
+      throw new NotFoundException('Ключ не найден');
+    }
+
+    if (!(await this.hasCredentials(userId))) {
+      const user = await this.usersRepo.findOne({ where: { id: userId } });
+      if (user?.twoFactorMethods?.includes(TwoFactorMethod.WEBAUTHN)) {
+        await this.twoFactorSettingsService.removeTwoFactorMethod(
+          userId,
+          TwoFactorMethod.WEBAUTHN,
+        );
+      }
+    }
+
+    await this.updateAvailableMethods(userId);
+  }
+
+  // Приватные методы
+
+  private get rpId(): string {
+    return this.configService.get<string>('webauthn.rpId')!;
+  }
+
+  private get rpName(): string {
+    return this.configService.get<string>('webauthn.rpName')!;
+  }
+
+  private get challengeTtl(): number {
+    return this.configService.get<number>('webauthn.challengeTtl')!;
+  }
+
+  private async createChallenge(
+    purpose: WebAuthnChallengePurpose,
+    userId: string | null,
+    loginId: string | null = null,
+  ): Promise<string> {
+    await this.challengesRepo.delete({ expiresAt: LessThan(new Date()) });
+
+    const challenge = crypto.randomBytes(32).toString('base64url');
+    await this.challengesRepo.save(
+      this.challengesRepo.create({
+        challenge,
+        purpose,
+        userId,
+        loginId,
+        expiresAt: new Date(Date.now() + this.challengeTtl * 1000),
+      }),
+    );
+
+    return challenge;
+  }
+
+  /**
+   * Challenge одноразовый: удаляется атомарно, повторный ответ аутентификатора не пройдёт
+   */
+  private async consumeChallenge(
+    challenge: string,
+    purpose: WebAuthnChallengePurpose,
+    userId?: string,
+  ): Promise<WebAuthnChallenge> {
+    const result = await this.challengesRepo
+      .createQueryBuilder()
+      .delete()
+      .from(WebAuthnChallenge)
+      .where('challenge = :challenge', { challenge })
+      .andWhere('purpose = :purpose', { purpose })
+      .andWhere('"expiresAt" > :now', { now: new Date() })
+      .returning('*')
+      .execute();
+
+    const record = (result.raw as WebAuthnChallenge[])[0];
+    if (!record) {
+      throw new BadRequestException('Challenge недействителен или истёк');
+    }
+    if (userId && record.userId && record.userId !== userId) {
+      throw new BadRequestException('Challenge выдан другому пользователю');
+    }
+
+    return record;
+  }
+
+  private parseClientData(
+    encoded: string,
+    expectedType: 'webauthn.create' | 'webauthn.get',
+  ): { challenge: string; raw: Buffer } {
+    const raw = Buffer.from(encoded, 'base64url');
+    let clientData: { type?: string; challenge?: string; origin?: string };
+    try {
+      clientData = JSON.parse(raw.toString('utf8')) as typeof clientData;
+    } catch {
+      throw new BadRequestException('Невалидный clientDataJSON');
+    }
+
+    if (clientData.type !== expectedType) {
+      throw new BadRequestException('Неверный тип церемонии WebAuthn');
+    }
+    if (!clientData.challenge) {
+      throw new BadRequestException('В clientDataJSON нет challenge');
+    }
+
+    const origins = this.configService.get<string[]>('webauthn.origins') || [];
+    if (!clientData.origin || !origins.includes(clientData.origin)) {
+      throw new BadRequestException('Недопустимый origin');
+    }
+
+    return { challenge: clientData.challenge, raw };
+  }
+
+  /**
+   * Разбор authenticatorData: rpIdHash(32) | flags(1) | signCount(4) | attestedCredentialData?
+   */
+  private parseAuthenticatorData(data: Buffer): ParsedAuthenticatorData {
+    if (data.length < 37) {
+      throw new BadRequestException('Слишком короткий authenticatorData');
+    }
+
+    const parsed: ParsedAuthenticatorData = {
+      rpIdHash: data.subarray(0, 32),
+      flags: data[32],
+      signCount: data.readUInt32BE(33),
+    };
+
+    if (parsed.flags & FLAG_ATTESTED_CREDENTIAL) {
+      try {
+        const aaguid = data.subarray(37, 53).toString('hex');
+        const idLength = data.readUInt16BE(53);
+        parsed.credentialId = data.subarray(55, 55 + idLength);
+        const { value } = decodeCborFirst(data, 55 + idLength);
+        if (!(value instanceof Map)) {
+          throw new Error('COSE-ключ должен быть map');
+        }
+        parsed.credentialPublicKey = value;
+        parsed.aaguid = [
+          aaguid.slice(0, 8),
+          aaguid.slice(8, 12),
+          aaguid.slice(12, 16),
+          aaguid.slice(16, 20),
+          aaguid.slice(20),
+        ].join('-');
+      } catch {
+        throw new BadRequestException(
+          'Невалидные данные ключа в authenticatorData',
+        );
+      }
+    }
+
+    return parsed;
+  }
+
+  private assertAuthenticatorData(
+    parsed: ParsedAuthenticatorData,
+    requireUserVerification: boolean,
+  ): void {
+    const expectedHash = crypto.createHash('sha256').update(this.rpId).digest();
+    if (!crypto.timingSafeEqual(parsed.rpIdHash, expectedHash)) {
+      throw new BadRequestException('Ключ создан для другого сайта (rpId)');
+    }
+    if (!(parsed.flags & FLAG_USER_PRESENT)) {
+      throw new BadRequestException('Не подтверждено присутствие пользователя');
+    }
+    if (requireUserVerification && !(parsed.flags & FLAG_USER_VERIFIED)) {
+      throw new UnauthorizedException(
+        'Требуется проверка пользователя (PIN или биометрия)',
+      );
+    }
+  }
+
+  /**
+   * Преобразование COSE-ключа (RFC 9053) в SPKI PEM
+   */
+  private coseKeyToPem(coseKey: Map<CborValue, CborValue>): {
+    publicKey: string;
+    algorithm: number;
+  } {
+    const kty = coseKey.get(1);
+    const algorithm = coseKey.get(3);
+    const base64url = (label: number): string => {
+      const value = coseKey.get(label);
+      if (!Buffer.isBuffer(value)) {
+        throw new BadRequestException('Неполный COSE-ключ');
+      }
+      return value.toString('base64url');
+    };
+
+    let jwk: crypto.JsonWebKey;
+    if (algorithm === COSE_ALG_ES256 && kty === 2 && coseKey.get(-1) === 1) {
+      jwk = { kty: 'EC', crv: 'P-256', x: base64url(-2), y: base64url(-3) };
+    } else if (algorithm === COSE_ALG_RS256 && kty === 3) {
+      jwk = { kty: 'RSA', n: base64url(-1), e: base64url(-2) };
+    } else if (
+      algorithm === COSE_ALG_EDDSA &&
+      kty === 1 &&
+      coseKey.get(-1) === 6
+    ) {
+      jwk = { kty: 'OKP', crv: 'Ed25519', x: base64url(-2) };
+    } else {
+      throw new BadRequestException('Неподдерживаемый алгоритм ключа');
+    }
+
+    try {
+      return {
+        publicKey: crypto
+          .createPublicKey({ key: jwk, format: 'jwk' })
+          .export({ type: 'spki', format: 'pem' })
+          .toString(),
+        algorithm,
+      };
+    } catch {
+      throw new BadRequestException('Невалидный открытый ключ');
+    }
+  }
+
+  private verifySignature(
+    credential: WebAuthnCredential,
+    data: Buffer,
+    signature: Buffer,
+  ): boolean {
+    try {
+      const key = crypto.createPublicKey(credential.publicKey);
+      // EdDSA не использует отдельную хеш-функцию; ES256 присылает подпись в DER
+      const digest = credential.algorithm === COSE_ALG_EDDSA ? null : 'sha256';
+      return crypto.verify(digest, data, key, signature);
+    } catch {
+      return false;
+    }
+  }
+
+  private defaultCredentialName(dto: RegisterWebAuthnCredentialDto): string {
+    return dto.authenticatorAttachment === 'platform'
+      ? 'Passkey на устройстве'
+      : 'Ключ безопасности';
+  }
+
+  /**
+   * PASSKEY в списке способов входа пользователя, пока есть хотя бы один ключ
+   */
+  private async updateAvailableMethods(userId: string): Promise<void> {
+    const user = await this.usersRepo.findOne({ where: { id: userId } });
+    if (!user) {
+      return;
+    }
+
+    const methods: AuthMethodType[] = (user.availableAuthMethods || []).filter(
+      (method) => method !== AuthMethodType.PASSKEY,
+    );
+    if (await this.hasCredentials(userId)) {
+      methods.push(AuthMethodType.PASSKEY);
+    }
+
+    await this.usersRepo.update(userId, { availableAuthMethods: methods });
+  }
+}
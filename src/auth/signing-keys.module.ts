@@ -0,0 +1,22 @@
+import { Global, Module } from '@nestjs/common';
+import { TypeOrmModule } from '@nestjs/typeorm';
+import { JwtModule } from '@nestjs/jwt';
+import { SigningKey } from './entities/signing-key.entity';
+import { SigningKeysService } from './services/signing-keys.service';
+import { SigningKeysController } from './controllers/signing-keys.controller';
+
+/**
+ * Ключи подписи JWT доступны всем модулям, которые выпускают или проверяют токены
+ */
+@Global()
+@Module({
+  imports: [
+    TypeOrmModule.forFeature([SigningKey]),
+    // Ключи передаются явно в sign/verify
+    JwtModule.register({}),
+  ],
+  controllers: [SigningKeysController],
+  providers: [SigningKeysService],
+  exports: [SigningKeysService],
+})
+export class SigningKeysModule {}
@@ -1,181 +1,37 @@
 import { Injectable } from '@nestjs/common';
-import { ConfigService } from '@nestjs/config';
+import { MessagingService } from '../messaging/messaging.service';
+import { MessageProvidersService } from '../messaging/message-providers.service';
 
+const CODE_TTL_MS = 10 * 60 * 1000;
+
+/**
+ * SMS и Telegram-сообщения через общую очередь доставки (провайдеры и их порядок - в настройках)
+ */
 @Injectable()
 export class SmsService {
-  private smsruApiId: string;
-  private smsaeroEmail: string;
-  private smsaeroApiKey: string;
-  private telegramBotToken: string;
-  private telegramChatId: string;
-
-  constructor(private configService: ConfigService) {
-    this.smsruApiId = this.configService.get('SMSRU_API_ID', '');
-    this.smsaeroEmail = this.configService.get('SMSAERO_EMAIL', '');
-    this.smsaeroApiKey = this.configService.get('SMSAERO_API_KEY', '');
-    this.telegramBotToken = this.configService.get('TELEGRAM_BOT_TOKEN', '');
-    this.telegramChatId = this.configService.get('TELEGRAM_CHAT_ID', '');
-    
-    console.log('📱 SmsService инициализирован:');
-    console.log(`   SmsAero Email: ${this.smsaeroEmail ? 'настроен' : 'не настроен'} (${this.smsaeroEmail})`);
-    console.log(`   SmsAero API Key: ${this.smsaeroApiKey ? 'настроен' : 'не настроен'} (${this.smsaeroApiKey ? this.smsaeroApiKey.substring(0, 10) + '...' : 'пусто'})`);
-    console.log(`   Telegram Bot Token: ${this.telegramBotToken ? 'настроен' : 'не настроен'} (${this.telegramBotToken ? this.telegramBotToken.substring(0, 10) + '...' : 'пусто'})`);
-    console.log(`   Telegram Chat ID: ${this.telegramChatId ? 'настроен' : 'не настроен'} (${this.telegramChatId})`);
-  }
+  constructor(
+    private messagingService: MessagingService,
+    private messageProvidersService: MessageProvidersService,
+  ) {}
 
   /**
    * Отправка кода подтверждения на SMS
-   * Пробует SmsAero, затем Telegram, затем fallback
+   * Провайдеры перебираются в порядке из настроек (по умолчанию SmsAero, затем sink)
    */
   async sendVerificationCode(phone: string, code: string): Promise<void> {
-    const message = `Loginus: Ваш код подтверждения: ${code}. Код действителен 10 минут.`;
-    
-    // 1. Пробуем SmsAero
-    if (this.smsaeroEmail && this.smsaeroApiKey) {
-      try {
-        await this.sendSmsViaSmsaero(phone, message);
-        console.log(`📱 SMS отправлено через SmsAero на ${phone}`);
-        console.log(`   Код: ${code}`);
-        return;
-      } catch (error) {
-        console.error('❌ Ошибка отправки SMS через SmsAero:', error.message);
-      }
-    }
-
-    // 2. Пробуем Telegram (временно отключен)
-    // if (this.telegramBotToken && this.telegramChatId) {
-    //   try {
-    //     await this.sendSmsViaTelegram(phone, message, code);
-    //     console.log(`📱 SMS отправлено через Telegram на ${phone}`);
-    //     console.log(`   Код: ${code}`);
-    //     return;
-    //   } catch (error) {
-    //     console.error('❌ Ошибка отправки SMS через Telegram:', error.message);
-    //   }
-    // }
-
-    // 3. Fallback
-    this.fallbackSms(phone, code);
-  }
-
-  /**
-   * Отправка через SmsAero API
-   */
-  private async sendSmsViaSmsaero(phone: string, message: string): Promise<void> {
-    const email = this.smsaeroEmail;
-    const apiKey = this.smsaeroApiKey;
-    const from = this.configService.get('SMSAERO_FROM', 'Loginus');
-    
-    const formattedPhone = this.formatPhoneForSmsaero(phone);
-    
-    // SmsAero API v1 - используем GET запрос с MD5 хешем пароля
-    const crypto = require('crypto');
-    const passwordHash = crypto.createHash('md5').update(apiKey).digest('hex');
-    
-    console.log(`📱 Отправка SMS через SmsAero:`);
-    console.log(`   Email: ${email}`);
-    console.log(`   Password: ${apiKey ? apiKey.substring(0, 4) + '****' : 'пусто'}`);
-    console.log(`   MD5 Hash: ${passwordHash}`);
-    console.log(`   Phone: ${formattedPhone}`);
-    console.log(`   Message: ${message}`);
-    console.log(`   From: ${from}`);
-    console.log(`   URL: https://gate.smsaero.ru/send/?user=${email}&password=${passwordHash}&to=${formattedPhone}&text=${encodeURIComponent(message)}&from=${from}&answer=json`);
-    
-    const params = new URLSearchParams({
-      user: email,
-      password: passwordHash,
-      to: formattedPhone,
-      text: message,
-      from: from,
-      answer: 'json'
+    const message = await this.messagingService.send({
+      channel: 'sms',
+      to: phone,
+      text: `Loginus: Ваш код подтверждения: ${code}. Код действителен 10 минут.`,
+      purpose: 'verification_code',
+      expiresAt: new Date(Date.now() + CODE_TTL_MS),
     });
-    
-    const response = await fetch(`https://gate.smsaero.ru/send/?${params}`, {
-      method: 'GET',
-      headers: {
-        'Content-Type': 'application/json',
-      }
-    });
-
-    const result = await response.json();
-    
-    console.log(`📱 SmsAero ответ: ${JSON.stringify(result, null, 2)}`);
-    
-    if (!result.success) {
-      throw new Error(`SmsAero error: ${result.message || 'Unknown error'}`);
-    }
-  }
-
-  /**
-   * Отправка через Telegram Bot
-   */
-  private async sendSmsViaTelegram(phone: string, message: string, code: string): Promise<void> {
-    const botToken = this.telegramBotToken;
-    const chatId = this.telegramChatId;
-    
-    const telegramMessage = `📱 SMS для ${phone}\n\n${message}\n\n🔐 Код: ${code}`;
-    
-    console.log(`📱 Отправка SMS через Telegram:`);
-    console.log(`   Bot Token: ${botToken.substring(0, 10)}...`);
-    console.log(`   Chat ID: ${chatId}`);
-    console.log(`   Phone: ${phone}`);
-    console.log(`   Code: ${code}`);
-    
-    const response = await fetch(`https://api.telegram.org/bot${botToken}/sendMessage`, {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-      },
-      body: JSON.stringify({
-        chat_id: chatId,
-        text: telegramMessage,
-        parse_mode: 'HTML'
-      })
-    });
-
-    const result = await response.json();
-    
-    console.log(`📱 Telegram ответ: ${JSON.stringify(result, null, 2)}`);
-    
-    if (!result.ok) {
-      throw new Error(`Telegram error: ${result.description || 'Unknown error'}`);
-    }
-  }
 
-  /**
-   * Форматирование номера для SmsAero
-   */
-  private formatPhoneForSmsaero(phone: string): string {
-    // Убираем все символы кроме цифр
-    let digits = phone.replace(/\D/g, '');
-    
-    // Если номер начинается с 8, заменяем на 7
-    if (digits.startsWith('8')) {
-      digits = '7' + digits.substring(1);
-    }
-    
-    // Если номер начинается с +7, убираем +
-    if (digits.startsWith('7')) {
-      return digits;
-    }
-    
-    // Если номер не начинается с 7, добавляем 7
-    if (!digits.startsWith('7')) {
-      return '7' + digits;
+    if (message.status === 'sent') {
+      console.log(`📱 SMS отправлено через ${message.provider} на ${phone}`);
+    } else {
+      console.error(`❌ SMS на ${phone} не отправлено (${message.status}): ${message.error}`);
     }
-    
-    return digits;
-  }
-
-  /**
-   * Fallback SMS (в консоль)
-   */
-  private fallbackSms(phone: string, code: string): void {
-    console.log('📱 ===== FALLBACK SMS (SmsAero и Telegram не настроены) =====');
-    console.log(`   To: ${phone}`);
-    console.log(`   Message: Loginus: Ваш код подтверждения: ${code}. Код действителен 10 минут.`);
-    console.log(`   Code: ${code}`);
-    console.log('📱 ============================================================');
   }
 
   /**
@@ -212,33 +68,19 @@ export class SmsService {
    */
   async testAllServices(phone: string, code: string): Promise<void> {
     console.log('🧪 Тестирование всех SMS сервисов...');
-    console.log(`   SmsAero Email: "${this.smsaeroEmail}"`);
-    console.log(`   SmsAero API Key: "${this.smsaeroApiKey ? this.smsaeroApiKey.substring(0, 10) + '...' : 'пусто'}"`);
-    console.log(`   Telegram Bot Token: "${this.telegramBotToken ? this.telegramBotToken.substring(0, 10) + '...' : 'пусто'}"`);
-    console.log(`   Telegram Chat ID: "${this.telegramChatId}"`);
-    
-    // Тест SmsAero
-    if (this.smsaeroEmail && this.smsaeroApiKey) {
-      try {
-        await this.sendSmsViaSmsaero(phone, `Тест SmsAero: ${code}`);
-        console.log('✅ SmsAero работает');
-      } catch (error) {
-        console.log('❌ SmsAero не работает:', error.message);
-      }
-    } else {
-      console.log('⚠️ SmsAero не настроен');
-    }
 
-    // Тест Telegram
-    if (this.telegramBotToken && this.telegramChatId) {
-      try {
-        await this.sendSmsViaTelegram(phone, `Тест Telegram: ${code}`, code);
-        console.log('✅ Telegram работает');
-      } catch (error) {
-        console.log('❌ Telegram не работает:', error.message);
+    for (const channel of ['sms', 'telegram'] as const) {
+      const results = await this.messageProvidersService.test({
+        channel,
+        to: phone,
+        text: `Тест ${channel}: ${code}`,
+      });
+      if (!results.length) {
+        console.log(`⚠️ Для канала ${channel} нет настроенных провайдеров`);
+      }
+      for (const result of results) {
+        console.log(result.ok ? `✅ ${result.provider} (${channel}) работает` : `❌ ${result.provider} (${channel}) не работает: ${result.error}`);
       }
-    } else {
-      console.log('⚠️ Telegram не настроен');
     }
   }
 
@@ -246,47 +88,36 @@ export class SmsService {
    * Отправка сообщения через Telegram
    */
   async sendTelegramMessage(chatId: string, message: string): Promise<{ success: boolean; message: string }> {
-    if (!this.telegramBotToken) {
-      return { success: false, message: 'Telegram Bot Token не настроен' };
-    }
-
-    try {
-      const response = await fetch(`https://api.telegram.org/bot${this.telegramBotToken}/sendMessage`, {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify({
-          chat_id: chatId,
-          text: message,
-          parse_mode: 'HTML',
-        }),
-      });
+    const sent = await this.messagingService.send({
+      channel: 'telegram',
+      to: chatId,
+      text: message,
+      purpose: 'two_factor',
+      expiresAt: new Date(Date.now() + CODE_TTL_MS),
+    });
 
-      const data = await response.json();
-      
-      if (data.ok) {
-        console.log(`✅ Telegram сообщение отправлено в чат ${chatId}`);
-        return { success: true, message: 'Сообщение отправлено' };
-      } else {
-        console.error('❌ Ошибка отправки Telegram сообщения:', data);
-        return { success: false, message: data.description || 'Ошибка отправки' };
-      }
-    } catch (error) {
-      console.error('❌ Ошибка при отправке Telegram сообщения:', error);
-      return { success: false, message: 'Ошибка сети' };
+    if (!this.messagingService.isAccepted(sent)) {
+      console.error(`❌ Ошибка отправки Telegram сообщения: ${sent.error}`);
+      return { success: false, message: sent.error || 'Ошибка отправки' };
     }
+    console.log(`✅ Telegram сообщение для чата ${chatId}: ${sent.status}`);
+    return { success: true, message: 'Сообщение отправлено' };
   }
 
   /**
-   * Отправка SMS сообщения (алиас для совместимости)
+   * Отправка SMS сообщения
    */
   async sendSmsMessage(phone: string, message: string): Promise<{ success: boolean; message: string }> {
-    try {
-      await this.sendVerificationCode(phone, message.split(': ')[1] || '123456');
-      return { success: true, message: 'SMS отправлено' };
-    } catch (error) {
-      return { success: false, message: 'Ошибка отправки SMS' };
-    }
+    const sent = await this.messagingService.send({
+      channel: 'sms',
+      to: phone,
+      text: message,
+      purpose: 'two_factor',
+      expiresAt: new Date(Date.now() + CODE_TTL_MS),
+    });
+
+    return this.messagingService.isAccepted(sent)
+      ? { success: true, message: 'SMS отправлено' }
+      : { success: false, message: 'Ошибка отправки SMS' };
   }
-}
\ No newline at end of file
+}
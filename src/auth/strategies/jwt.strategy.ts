@@ -1,20 +1,54 @@
-import { Injectable, UnauthorizedException } from '@nestjs/common';
+import {
+  Injectable,
+  UnauthorizedException,
+  ForbiddenException,
+  BadRequestException,
+} from '@nestjs/common';
 import { PassportStrategy } from '@nestjs/passport';
 import { ExtractJwt, Strategy } from 'passport-jwt';
-import { ConfigService } from '@nestjs/config';
+import type { Request } from 'express';
+import { isUUID } from 'class-validator';
 import { UsersService } from '../../users/users.service';
+import { SigningKeysService } from '../services/signing-keys.service';
+import { SessionsService } from '../services/sessions.service';
 import { JwtPayload } from '../interfaces/jwt-payload.interface';
+import { ScopedPermissionsService } from '../../rbac/scoped-permissions.service';
+
+// Заголовки для выбора организации/команды на один запрос без перевыпуска токена
+export const ORGANIZATION_HEADER = 'x-organization-id';
+export const TEAM_HEADER = 'x-team-id';
 
 @Injectable()
 export class JwtStrategy extends PassportStrategy(Strategy) {
   constructor(
-    private configService: ConfigService,
     private usersService: UsersService,
+    private sessionsService: SessionsService,
+    private scopedPermissionsService: ScopedPermissionsService,
+    signingKeysService: SigningKeysService,
   ) {
     super({
       jwtFromRequest: ExtractJwt.fromAuthHeaderAsBearerToken(),
       ignoreExpiration: false,
-      secretOrKey: configService.get<string>('jwt.secret') || 'default-secret',
+      passReqToCallback: true,
+      algorithms: ['RS256', 'ES256'],
+      // Публичный ключ выбирается по kid из заголовка токена
+      secretOrKeyProvider: (request, rawJwtToken: string, done) => {
+        const [encodedHeader] = rawJwtToken.split('.');
+        let kid: string | undefined;
+        try {
+          const header = JSON.parse(
+            Buffer.from(encodedHeader, 'base64url').toString('utf8'),
+          ) as { kid?: string };
+          kid = header.kid;
+        } catch {
+          kid = undefined;
+        }
+
+        signingKeysService
+          .getVerificationKey(kid)
+          .then((key) => done(null, key.publicKey))
+          .catch((error) => done(error));
+      },
     });
   }
 
@@ -22,16 +56,49 @@ export class JwtStrategy extends PassportStrategy(Strategy) {
    * Автоматически вызывается после валидации JWT
    * Результат попадает в request.user
    */
-  async validate(payload: JwtPayload): Promise<any> {
+  async validate(request: Request, payload: JwtPayload): Promise<any> {
+    // Токены, выданные сторонним приложениям через OIDC (с aud), не принимаются API
+    if (payload.aud) {
+      throw new UnauthorizedException();
+    }
+
     const user = await this.usersService.findById(payload.sub);
     
     if (!user || !user.isActive) {
       throw new UnauthorizedException();
     }
 
+    // Завершённая сессия сразу лишает силы и её access token
+    if (payload.sid && !(await this.sessionsService.isSessionActive(payload.sid))) {
+      throw new UnauthorizedException('Сессия завершена');
+    }
+
     // Роли и права берем из JWT payload (они уже там)
-    const roles = payload.roles || [];
-    const permissions = payload.permissions || [];
+    let roles = payload.roles || [];
+    let permissions = payload.permissions || [];
+    let organizationId = payload.organizationId;
+    let teamId = payload.teamId;
+
+    // Контекст из заголовков заменяет контекст токена на время запроса
+    const contextOverride = this.readContextHeaders(request);
+    if (contextOverride) {
+      const scope = await this.scopedPermissionsService.resolveMemberScope(
+        payload.sub,
+        contextOverride,
+      );
+      if (!scope) {
+        throw new ForbiddenException(
+          'Нет доступа к выбранной организации или команде',
+        );
+      }
+      ({ roles, permissions } =
+        await this.scopedPermissionsService.getEffectiveAccess(
+          payload.sub,
+          scope,
+        ));
+      organizationId = scope.organizationId ?? null;
+      teamId = scope.teamId ?? null;
+    }
 
     // Возвращаем данные, которые попадут в request.user
     return {
@@ -42,12 +109,31 @@ export class JwtStrategy extends PassportStrategy(Strategy) {
       phone: user.phone,
       phoneVerified: user.phoneVerified,
       emailVerified: user.emailVerified,
-      organizationId: payload.organizationId,
-      teamId: payload.teamId,
+      organizationId,
+      teamId,
+      contextOverride: Boolean(contextOverride),
       organizations: user.organizations,
       teams: user.teams,
       roles: roles,
       permissions: permissions,
+      sessionId: payload.sid || null,
     };
   }
+
+  private readContextHeaders(
+    request: Request,
+  ): { organizationId?: string; teamId?: string } | null {
+    const organizationId = request.get(ORGANIZATION_HEADER);
+    const teamId = request.get(TEAM_HEADER);
+    if (!organizationId && !teamId) {
+      return null;
+    }
+    if (
+      (organizationId && !isUUID(organizationId)) ||
+      (teamId && !isUUID(teamId))
+    ) {
+      throw new BadRequestException('Невалидный идентификатор контекста');
+    }
+    return { organizationId, teamId };
+  }
 }
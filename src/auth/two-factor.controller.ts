@@ -7,13 +7,14 @@ import {
   Param,
   ParseUUIDPipe,
   Delete,
+  Req,
 } from '@nestjs/common';
+import type { Request } from 'express';
 import { ApiTags, ApiOperation, ApiResponse, ApiBearerAuth } from '@nestjs/swagger';
 import { TwoFactorService } from './two-factor.service';
 import { SendCodeDto } from './dto/send-code.dto';
 import { VerifyCodeDto } from './dto/verify-code.dto';
 import { JwtAuthGuard } from './guards/jwt-auth.guard';
-import { PermissionsGuard } from './guards/permissions.guard';
 import { RequirePermissions } from './decorators/permissions.decorator';
 import { CurrentUser } from './decorators/current-user.decorator';
 import { Public } from './decorators/public.decorator';
@@ -29,8 +30,11 @@ export class TwoFactorController {
   @ApiResponse({ status: 200, description: 'Код отправлен успешно' })
   @ApiResponse({ status: 400, description: 'Неверные данные' })
   @ApiResponse({ status: 429, description: 'Превышен лимит отправки кодов' })
-  async sendCode(@Body() dto: SendCodeDto) {
-    return this.twoFactorService.sendCode(dto);
+  async sendCode(@Body() dto: SendCodeDto, @Req() req: Request) {
+    return this.twoFactorService.sendCode(dto, {
+      ipAddress: req.ip,
+      userAgent: req.get('User-Agent'),
+    });
   }
 
   @Post('verify-code')
@@ -39,8 +43,11 @@ export class TwoFactorController {
   @ApiResponse({ status: 200, description: 'Код проверен успешно, возвращены токены' })
   @ApiResponse({ status: 401, description: 'Неверный код' })
   @ApiResponse({ status: 429, description: 'Превышено количество попыток' })
-  async verifyCode(@Body() dto: VerifyCodeDto) {
-    return this.twoFactorService.verifyCode(dto);
+  async verifyCode(@Body() dto: VerifyCodeDto, @Req() req: Request) {
+    return this.twoFactorService.verifyCode(dto, {
+      ipAddress: req.ip,
+      userAgent: req.get('User-Agent'),
+    });
   }
 
   @Get('my-codes')
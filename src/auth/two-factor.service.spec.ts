@@ -0,0 +1,188 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { getRepositoryToken } from '@nestjs/typeorm';
+import { ConfigService } from '@nestjs/config';
+import {
+  HttpException,
+  HttpStatus,
+  UnauthorizedException,
+} from '@nestjs/common';
+import { TwoFactorService } from './two-factor.service';
+import {
+  TwoFactorCode,
+  TwoFactorType,
+} from './entities/two-factor-code.entity';
+import { UsersService } from '../users/users.service';
+import { EmailService } from './email.service';
+import { SmsService } from './sms.service';
+import { TwoFactorCodesService } from './services/two-factor-codes.service';
+import { AuthService } from './auth.service';
+import { LoginProtectionService } from './services/login-protection.service';
+import { LoginAttemptChannel } from './entities/login-attempt.entity';
+
+describe('TwoFactorService', () => {
+  let service: TwoFactorService;
+
+  const locked = new HttpException(
+    'Слишком много неудачных попыток входа',
+    HttpStatus.TOO_MANY_REQUESTS,
+  );
+
+  const mockTwoFactorCodesService = {
+    issue: jest.fn(),
+    verify: jest.fn(),
+  };
+
+  const mockUsersService = {
+    findByEmail: jest.fn(),
+  };
+
+  const mockAuthService = {
+    loginVerifiedUser: jest.fn(),
+  };
+
+  const mockLoginProtectionService = {
+    emailKey: jest.fn((email: string) => `email:${email}`),
+    phoneKey: jest.fn((phone: string) => `phone:${phone}`),
+    assertAllowed: jest.fn(),
+    recordFailure: jest.fn(),
+    recordSuccess: jest.fn(),
+  };
+
+  const verifyDto = {
+    code: '123456',
+    contact: 'user@example.com',
+    type: TwoFactorType.EMAIL,
+  };
+  const context = { ipAddress: '10.0.0.1' };
+
+  beforeEach(async () => {
+    jest.clearAllMocks();
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        TwoFactorService,
+        {
+          provide: getRepositoryToken(TwoFactorCode),
+          useValue: {},
+        },
+        {
+          provide: ConfigService,
+          useValue: { get: jest.fn() },
+        },
+        {
+          provide: UsersService,
+          useValue: mockUsersService,
+        },
+        {
+          provide: EmailService,
+          useValue: {},
+        },
+        {
+          provide: SmsService,
+          useValue: {},
+        },
+        {
+          provide: TwoFactorCodesService,
+          useValue: mockTwoFactorCodesService,
+        },
+        {
+          provide: AuthService,
+          useValue: mockAuthService,
+        },
+        {
+          provide: LoginProtectionService,
+          useValue: mockLoginProtectionService,
+        },
+      ],
+    }).compile();
+
+    service = module.get<TwoFactorService>(TwoFactorService);
+  });
+
+  describe('verifyCode', () => {
+    it('should not check the code while the account is locked', async () => {
+      mockLoginProtectionService.assertAllowed.mockRejectedValueOnce(locked);
+
+      await expect(service.verifyCode(verifyDto, context)).rejects.toBe(locked);
+      expect(mockLoginProtectionService.assertAllowed).toHaveBeenCalledWith(
+        'email:user@example.com',
+        '10.0.0.1',
+      );
+      expect(mockTwoFactorCodesService.verify).not.toHaveBeenCalled();
+    });
+
+    it('should count a wrong code against the account', async () => {
+      mockTwoFactorCodesService.verify.mockResolvedValue({
+        valid: false,
+        reason: 'invalid',
+      });
+
+      await expect(service.verifyCode(verifyDto, context)).rejects.toThrow(
+        UnauthorizedException,
+      );
+      expect(mockLoginProtectionService.recordFailure).toHaveBeenCalledWith(
+        'email:user@example.com',
+        LoginAttemptChannel.EMAIL_CODE,
+        { ipAddress: '10.0.0.1' },
+      );
+      expect(mockAuthService.loginVerifiedUser).not.toHaveBeenCalled();
+    });
+
+    it('should key SMS codes on the phone number', async () => {
+      mockTwoFactorCodesService.verify.mockResolvedValue({
+        valid: false,
+        reason: 'expired',
+      });
+
+      await expect(
+        service.verifyCode(
+          { ...verifyDto, contact: '+79990000000', type: TwoFactorType.SMS },
+          context,
+        ),
+      ).rejects.toThrow(UnauthorizedException);
+      expect(mockLoginProtectionService.recordFailure).toHaveBeenCalledWith(
+        'phone:+79990000000',
+        LoginAttemptChannel.PHONE_CODE,
+        { ipAddress: '10.0.0.1' },
+      );
+    });
+
+    it('should reset the counter and log in with a valid code', async () => {
+      mockTwoFactorCodesService.verify.mockResolvedValue({
+        valid: true,
+        code: { userId: 'user-1' },
+      });
+      mockAuthService.loginVerifiedUser.mockResolvedValue({
+        accessToken: 'access-token',
+      });
+
+      await expect(service.verifyCode(verifyDto, context)).resolves.toEqual({
+        accessToken: 'access-token',
+      });
+      expect(mockLoginProtectionService.recordSuccess).toHaveBeenCalledWith(
+        'email:user@example.com',
+        LoginAttemptChannel.EMAIL_CODE,
+        { ipAddress: '10.0.0.1', userId: 'user-1' },
+      );
+      expect(mockAuthService.loginVerifiedUser).toHaveBeenCalledWith(
+        'user-1',
+        LoginAttemptChannel.EMAIL_CODE,
+        context,
+      );
+    });
+  });
+
+  describe('sendCode', () => {
+    it('should not issue a new code while the account is locked', async () => {
+      mockLoginProtectionService.assertAllowed.mockRejectedValueOnce(locked);
+
+      await expect(
+        service.sendCode(
+          { contact: 'user@example.com', type: TwoFactorType.EMAIL },
+          context,
+        ),
+      ).rejects.toBe(locked);
+      expect(mockTwoFactorCodesService.issue).not.toHaveBeenCalled();
+    });
+  });
+});
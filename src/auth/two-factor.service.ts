@@ -2,14 +2,18 @@ import { Injectable, BadRequestException, UnauthorizedException, HttpException,
 import { InjectRepository } from '@nestjs/typeorm';
 import { Repository } from 'typeorm';
 import { ConfigService } from '@nestjs/config';
-import { JwtService } from '@nestjs/jwt';
 import { User } from '../users/entities/user.entity';
 import { TwoFactorCode, TwoFactorType, TwoFactorStatus } from './entities/two-factor-code.entity';
-import { RefreshToken } from './entities/refresh-token.entity';
 import { UsersService } from '../users/users.service';
 import { EmailService } from './email.service';
 import { SmsService } from './sms.service';
-import * as crypto from 'crypto';
+import { TwoFactorCodesService } from './services/two-factor-codes.service';
+import { AuthService } from './auth.service';
+import { AuthResponseDto } from './dto/auth-response.dto';
+import { TwoFactorRequired } from './dto/two-factor-login.dto';
+import { SessionContext } from './interfaces/session.interface';
+import { LoginProtectionService } from './services/login-protection.service';
+import { LoginAttemptChannel } from './entities/login-attempt.entity';
 
 export interface SendCodeDto {
   type: TwoFactorType;
@@ -31,23 +35,30 @@ export class TwoFactorService {
   constructor(
     @InjectRepository(TwoFactorCode)
     private twoFactorCodeRepo: Repository<TwoFactorCode>,
-    @InjectRepository(RefreshToken)
-    private refreshTokenRepo: Repository<RefreshToken>,
     private configService: ConfigService,
-    private jwtService: JwtService,
     private usersService: UsersService,
     private emailService: EmailService,
     private smsService: SmsService,
+    private twoFactorCodesService: TwoFactorCodesService,
+    private authService: AuthService,
+    private loginProtectionService: LoginProtectionService,
   ) {
     console.log('🔧 TwoFactorService инициализирован с SmsService');
   }
 
   /**
-   * Отправка кода на email или SMS
+   * Отправка кода на email или SMS. Заблокированному аккаунту новый код не выдаётся
    */
-  async sendCode(dto: SendCodeDto): Promise<{ message: string; expiresIn: number }> {
+  async sendCode(
+    dto: SendCodeDto,
+    context: SessionContext = {},
+  ): Promise<{ message: string; expiresIn: number }> {
     // Валидация контакта
     this.validateContact(dto.contact, dto.type);
+    await this.loginProtectionService.assertAllowed(
+      this.accountKey(dto.contact, dto.type),
+      context.ipAddress,
+    );
 
     // Найти пользователя по контакту
     const user = await this.findUserByContact(dto.contact, dto.type);
@@ -58,28 +69,15 @@ export class TwoFactorService {
     // Проверить лимиты отправки
     await this.checkRateLimit(user.id, dto.type);
 
-    // Деактивировать предыдущие коды
-    await this.deactivatePreviousCodes(user.id, dto.type);
-
-    // Генерировать новый код
-    const code = this.generateCode();
-    const expiresAt = new Date();
-    expiresAt.setMinutes(expiresAt.getMinutes() + 10); // 10 минут
-
-    // Сохранить код
-    const twoFactorCode = this.twoFactorCodeRepo.create({
+    // Выдать новый код (предыдущие аннулируются, в БД сохраняется только хеш)
+    const { code } = await this.twoFactorCodesService.issue({
       userId: user.id,
       type: dto.type,
-      code,
       contact: dto.contact,
       ipAddress: dto.ipAddress,
       userAgent: dto.userAgent,
-      expiresAt,
-      status: TwoFactorStatus.PENDING,
     });
 
-    await this.twoFactorCodeRepo.save(twoFactorCode);
-
     // Отправить код (в реальном проекте здесь будет интеграция с email/SMS сервисами)
     await this.deliverCode(dto.contact, code, dto.type);
 
@@ -90,61 +88,56 @@ export class TwoFactorService {
   }
 
   /**
-   * Проверка кода
+   * Проверка кода; токены выдаются новой сессией, как при обычном входе.
+   * Неверные коды считаются блокировкой аккаунта, поэтому новый код не даёт новых попыток
    */
-  async verifyCode(dto: VerifyCodeDto): Promise<{ user: User; accessToken: string; refreshToken: string }> {
-    // Найти код
-    const twoFactorCode = await this.twoFactorCodeRepo.findOne({
-      where: {
-        code: dto.code,
-        contact: dto.contact,
-        type: dto.type,
-        status: TwoFactorStatus.PENDING,
-      },
-      relations: ['user', 'user.userRoleAssignments', 'user.userRoleAssignments.role', 'user.userRoleAssignments.role.permissions'],
-    });
-
-    if (!twoFactorCode) {
-      throw new UnauthorizedException('Неверный код');
-    }
-
-    // Проверить срок действия
-    if (twoFactorCode.expiresAt < new Date()) {
-      twoFactorCode.status = TwoFactorStatus.EXPIRED;
-      await this.twoFactorCodeRepo.save(twoFactorCode);
-      throw new UnauthorizedException('Код истек');
-    }
-
-    // Проверить количество попыток
-    if (twoFactorCode.attempts >= twoFactorCode.maxAttempts) {
-      twoFactorCode.status = TwoFactorStatus.EXPIRED;
-      await this.twoFactorCodeRepo.save(twoFactorCode);
-      throw new HttpException('Превышено количество попыток', HttpStatus.TOO_MANY_REQUESTS);
-    }
-
-    // Увеличить счетчик попыток
-    twoFactorCode.attempts += 1;
-    await this.twoFactorCodeRepo.save(twoFactorCode);
+  async verifyCode(
+    dto: VerifyCodeDto,
+    context: SessionContext = {},
+  ): Promise<AuthResponseDto | TwoFactorRequired> {
+    const accountKey = this.accountKey(dto.contact, dto.type);
+    const channel =
+      dto.type === TwoFactorType.SMS
+        ? LoginAttemptChannel.PHONE_CODE
+        : LoginAttemptChannel.EMAIL_CODE;
+    await this.loginProtectionService.assertAllowed(
+      accountKey,
+      context.ipAddress,
+    );
 
-    // Проверить код
-    if (twoFactorCode.code !== dto.code) {
+    // Проверить код: неверный ввод расходует попытку, после maxAttempts код аннулируется
+    const check = await this.twoFactorCodesService.verify(
+      { contact: dto.contact, type: dto.type },
+      dto.code,
+    );
+    if (!check.valid) {
+      await this.loginProtectionService.recordFailure(accountKey, channel, {
+        ipAddress: context.ipAddress,
+      });
+      if (check.reason === 'expired') {
+        throw new UnauthorizedException('Код истек');
+      }
+      if (check.reason === 'exhausted') {
+        throw new HttpException('Превышено количество попыток', HttpStatus.TOO_MANY_REQUESTS);
+      }
       throw new UnauthorizedException('Неверный код');
     }
+    await this.loginProtectionService.recordSuccess(accountKey, channel, {
+      ipAddress: context.ipAddress,
+      userId: check.code.userId,
+    });
 
-    // Код верный - деактивировать его
-    twoFactorCode.status = TwoFactorStatus.VERIFIED;
-    twoFactorCode.verifiedAt = new Date();
-    await this.twoFactorCodeRepo.save(twoFactorCode);
-
-    // Генерировать токены (используем существующую логику из AuthService)
-    const accessToken = await this.generateAccessToken(twoFactorCode.user);
-    const refreshToken = await this.generateRefreshToken(twoFactorCode.user);
+    return this.authService.loginVerifiedUser(
+      check.code.userId,
+      channel,
+      context,
+    );
+  }
 
-    return {
-      user: twoFactorCode.user,
-      accessToken,
-      refreshToken,
-    };
+  private accountKey(contact: string, type: TwoFactorType): string {
+    return type === TwoFactorType.SMS
+      ? this.loginProtectionService.phoneKey(contact)
+      : this.loginProtectionService.emailKey(contact);
   }
 
   /**
@@ -167,29 +160,6 @@ export class TwoFactorService {
     }
   }
 
-  /**
-   * Деактивация предыдущих кодов
-   */
-  private async deactivatePreviousCodes(userId: string, type: TwoFactorType): Promise<void> {
-    await this.twoFactorCodeRepo.update(
-      {
-        userId,
-        type,
-        status: TwoFactorStatus.PENDING,
-      },
-      {
-        status: TwoFactorStatus.EXPIRED,
-      },
-    );
-  }
-
-  /**
-   * Генерация 6-значного кода
-   */
-  private generateCode(): string {
-    return Math.floor(100000 + Math.random() * 900000).toString();
-  }
-
   /**
    * Валидация контакта
    */
@@ -244,45 +214,6 @@ export class TwoFactorService {
     }
   }
 
-  /**
-   * Генерация Access Token
-   */
-  private async generateAccessToken(user: User): Promise<string> {
-    const roles = user.userRoleAssignments?.map(assignment => assignment.role?.name).filter(Boolean) || [];
-    const permissions = user.userRoleAssignments?.flatMap(assignment => 
-      assignment.role?.permissions?.map(p => p.name) || []
-    ) || [];
-
-    const payload = {
-      sub: user.id,
-      email: user.email,
-      organizationId: user.organizations?.[0]?.id || null,
-      teamId: user.teams?.[0]?.id || null,
-      roles: roles,
-      permissions: permissions,
-    };
-
-    return this.jwtService.sign(payload);
-  }
-
-  /**
-   * Генерация Refresh Token
-   */
-  private async generateRefreshToken(user: User): Promise<string> {
-    const token = crypto.randomUUID();
-    const expiresAt = new Date();
-    expiresAt.setDate(expiresAt.getDate() + 7); // +7 дней
-
-    await this.refreshTokenRepo.save({
-      token,
-      userId: user.id,
-      expiresAt,
-      isRevoked: false,
-    });
-
-    return token;
-  }
-
   /**
    * Получение активных кодов пользователя
    */
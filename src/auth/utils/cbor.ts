@@ -0,0 +1,188 @@
+/**
+ * Минимальный декодер CBOR (RFC 8949) для структур WebAuthn.
+ * Поддерживаются только определённые длины: CTAP2 требует каноничную кодировку
+ */
+
+export type CborValue =
+  | number
+  | bigint
+  | string
+  | boolean
+  | null
+  | undefined
+  | Buffer
+  | CborValue[]
+  | Map<CborValue, CborValue>;
+
+interface DecodeResult {
+  value: CborValue;
+  offset: number;
+}
+
+/**
+ * Декодирование первого элемента буфера; возвращает значение и позицию после него
+ */
+export function decodeCborFirst(buffer: Buffer, offset = 0): DecodeResult {
+  if (offset >= buffer.length) {
+    throw new Error('CBOR: неожиданный конец данных');
+  }
+
+  const initial = buffer[offset];
+  const majorType = initial >> 5;
+  const additional = initial & 0x1f;
+
+  if (majorType === 7) {
+    return decodeSimple(buffer, offset + 1, additional);
+  }
+
+  const { length, offset: next } = readLength(buffer, offset + 1, additional);
+
+  switch (majorType) {
+    case 0:
+      return { value: length, offset: next };
+    case 1:
+      return {
+        value: typeof length === 'bigint' ? -1n - length : -1 - length,
+        offset: next,
+      };
+    case 2: {
+      const end = next + toSafeLength(length);
+      assertAvailable(buffer, end);
+      return { value: Buffer.from(buffer.subarray(next, end)), offset: end };
+    }
+    case 3: {
+      const end = next + toSafeLength(length);
+      assertAvailable(buffer, end);
+      return { value: buffer.toString('utf8', next, end), offset: end };
+    }
+    case 4: {
+      const items: CborValue[] = [];
+      let position = next;
+      for (let i = 0; i < toSafeLength(length); i++) {
+        const item = decodeCborFirst(buffer, position);
+        items.push(item.value);
+        position = item.offset;
+      }
+      return { value: items, offset: position };
+    }
+    case 5: {
+      const map = new Map<CborValue, CborValue>();
+      let position = next;
+      for (let i = 0; i < toSafeLength(length); i++) {
+        const key = decodeCborFirst(buffer, position);
+        const value = decodeCborFirst(buffer, key.offset);
+        map.set(key.value, value.value);
+        position = value.offset;
+      }
+      return { value: map, offset: position };
+    }
+    case 6:
+      // Теги игнорируются, возвращается помеченное значение
+      return decodeCborFirst(buffer, next);
+    default:
+      throw new Error(`CBOR: неподдерживаемый тип ${majorType}`);
+  }
+}
+
+/**
+ * Декодирование буфера, содержащего ровно один элемент
+ */
+export function decodeCbor(buffer: Buffer): CborValue {
+  const { value, offset } = decodeCborFirst(buffer);
+  if (offset !== buffer.length) {
+    throw new Error('CBOR: лишние данные после элемента');
+  }
+  return value;
+}
+
+function readLength(
+  buffer: Buffer,
+  offset: number,
+  additional: number,
+): { length: number | bigint; offset: number } {
+  if (additional < 24) {
+    return { length: additional, offset };
+  }
+
+  switch (additional) {
+    case 24:
+      assertAvailable(buffer, offset + 1);
+      return { length: buffer.readUInt8(offset), offset: offset + 1 };
+    case 25:
+      assertAvailable(buffer, offset + 2);
+      return { length: buffer.readUInt16BE(offset), offset: offset + 2 };
+    case 26:
+      assertAvailable(buffer, offset + 4);
+      return { length: buffer.readUInt32BE(offset), offset: offset + 4 };
+    case 27: {
+      assertAvailable(buffer, offset + 8);
+      const value = buffer.readBigUInt64BE(offset);
+      return {
+        length:
+          value <= BigInt(Number.MAX_SAFE_INTEGER) ? Number(value) : value,
+        offset: offset + 8,
+      };
+    }
+    default:
+      throw new Error('CBOR: неопределённая длина не поддерживается');
+  }
+}
+
+function decodeSimple(
+  buffer: Buffer,
+  offset: number,
+  additional: number,
+): DecodeResult {
+  switch (additional) {
+    case 20:
+      return { value: false, offset };
+    case 21:
+      return { value: true, offset };
+    case 22:
+      return { value: null, offset };
+    case 23:
+      return { value: undefined, offset };
+    case 25: {
+      assertAvailable(buffer, offset + 2);
+      return {
+        value: decodeHalfFloat(buffer.readUInt16BE(offset)),
+        offset: offset + 2,
+      };
+    }
+    case 26:
+      assertAvailable(buffer, offset + 4);
+      return { value: buffer.readFloatBE(offset), offset: offset + 4 };
+    case 27:
+      assertAvailable(buffer, offset + 8);
+      return { value: buffer.readDoubleBE(offset), offset: offset + 8 };
+    default:
+      throw new Error(`CBOR: неподдерживаемое простое значение ${additional}`);
+  }
+}
+
+function decodeHalfFloat(half: number): number {
+  const sign = half & 0x8000 ? -1 : 1;
+  const exponent = (half >> 10) & 0x1f;
+  const fraction = half & 0x3ff;
+
+  if (exponent === 0) {
+    return sign * 2 ** -14 * (fraction / 1024);
+  }
+  if (exponent === 0x1f) {
+    return fraction ? NaN : sign * Infinity;
+  }
+  return sign * 2 ** (exponent - 15) * (1 + fraction / 1024);
+}
+
+function toSafeLength(length: number | bigint): number {
+  if (typeof length === 'bigint') {
+    throw new Error('CBOR: слишком большая длина');
+  }
+  return length;
+}
+
+function assertAvailable(buffer: Buffer, end: number): void {
+  if (end > buffer.length) {
+    throw new Error('CBOR: неожиданный конец данных');
+  }
+}
@@ -0,0 +1,57 @@
+import {
+  createCipheriv,
+  createDecipheriv,
+  createHash,
+  randomBytes,
+} from 'crypto';
+
+const ENCRYPTED_PREFIX = 'v1';
+
+/**
+ * Шифрование секретов, которые нужно прочитать обратно (TOTP, подпись вебхуков, токены провайдеров).
+ * Вынесено из TotpService, чтобы сервисы других модулей не зависели от 2FA
+ */
+
+/**
+ * Ключ AES-256 из ENCRYPTION_KEY, тот же, что раньше выводил TotpService: старые записи читаются
+ */
+export function deriveSecretCipherKey(encryptionKey: string): Buffer {
+  return createHash('sha256').update(encryptionKey).digest();
+}
+
+/**
+ * AES-256-GCM в формате v1:iv:tag:ciphertext (base64)
+ */
+export function encryptSecret(key: Buffer, plaintext: string): string {
+  const iv = randomBytes(12);
+  const cipher = createCipheriv('aes-256-gcm', key, iv);
+  const encrypted = Buffer.concat([
+    cipher.update(plaintext, 'utf8'),
+    cipher.final(),
+  ]);
+
+  return [
+    ENCRYPTED_PREFIX,
+    iv.toString('base64'),
+    cipher.getAuthTag().toString('base64'),
+    encrypted.toString('base64'),
+  ].join(':');
+}
+
+export function decryptSecret(key: Buffer, value: string): string {
+  const [prefix, iv, tag, encrypted] = value.split(':');
+  if (prefix !== ENCRYPTED_PREFIX || !iv || !tag || !encrypted) {
+    throw new Error('Неизвестный формат зашифрованного секрета');
+  }
+
+  const decipher = createDecipheriv(
+    'aes-256-gcm',
+    key,
+    Buffer.from(iv, 'base64'),
+  );
+  decipher.setAuthTag(Buffer.from(tag, 'base64'));
+  return Buffer.concat([
+    decipher.update(Buffer.from(encrypted, 'base64')),
+    decipher.final(),
+  ]).toString('utf8');
+}
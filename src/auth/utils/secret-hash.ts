@@ -0,0 +1,32 @@
+import { createHash, createHmac, timingSafeEqual } from 'crypto';
+
+/**
+ * Хеширование одноразовых секретов (коды, токены сброса, приглашений, refresh token).
+ * Вынесено из сервиса, чтобы миграции пересчитывали старые записи тем же ключом
+ */
+
+/**
+ * Отдельный ключ для HMAC: из ENCRYPTION_KEY, но не совпадает с ключом шифрования секретов TOTP
+ */
+export function deriveSecretHashKey(encryptionKey: string): Buffer {
+  return createHash('sha256').update(`secret-hash:${encryptionKey}`).digest();
+}
+
+/**
+ * HMAC-SHA256 в hex. Область (scope) привязывает короткий код к владельцу:
+ * одинаковые коды разных пользователей дают разные хеши
+ */
+export function hashSecret(key: Buffer, value: string, scope?: string): string {
+  return createHmac('sha256', key)
+    .update(scope ? `${scope}:${value}` : value)
+    .digest('hex');
+}
+
+/**
+ * Сравнение хешей за постоянное время
+ */
+export function secretHashesEqual(expected: string, actual: string): boolean {
+  const left = Buffer.from(expected, 'hex');
+  const right = Buffer.from(actual, 'hex');
+  return left.length === right.length && timingSafeEqual(left, right);
+}
@@ -6,4 +6,6 @@ export default registerAs('app', () => ({
   frontendUrl: process.env.FRONTEND_URL || 'http://localhost:3000',
   swaggerEnabled: process.env.SWAGGER_ENABLED !== 'false',
   logLevel: process.env.LOG_LEVEL || 'debug',
+  // Ключ шифрования секретов в БД (TOTP и т.п.)
+  encryptionKey: process.env.ENCRYPTION_KEY,
 }));
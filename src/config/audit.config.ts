@@ -0,0 +1,6 @@
+import { registerAs } from '@nestjs/config';
+
+export default registerAs('audit', () => ({
+  // Записи старше срока переносятся в audit_logs_archive; 0 - не переносить
+  archiveAfterDays: parseInt(process.env.AUDIT_ARCHIVE_AFTER_DAYS || '365', 10),
+}));
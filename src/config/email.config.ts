@@ -0,0 +1,8 @@
+import { registerAs } from '@nestjs/config';
+
+export default registerAs('email', () => ({
+  // Язык писем, если у получателя он не выбран: ru | en
+  defaultLocale: process.env.EMAIL_DEFAULT_LOCALE || 'ru',
+  appName: process.env.EMAIL_APP_NAME || 'Loginus',
+  supportEmail: process.env.SUPPORT_EMAIL || 'support@loginus.ru',
+}));
@@ -0,0 +1,48 @@
+import { registerAs } from '@nestjs/config';
+
+const backendUrl = process.env.BACKEND_URL || 'http://localhost:3001';
+const frontendUrl = process.env.FRONTEND_URL || 'http://localhost:3000';
+
+export default registerAs('identityProviders', () => ({
+  // Время жизни state/nonce между редиректом к провайдеру и callback
+  stateTtl: parseInt(process.env.OAUTH_STATE_TTL || '600', 10), // секунды
+  // Базовый адрес callback для провайдеров из настроек: <base>/<provider>/callback
+  callbackBaseUrl:
+    process.env.OAUTH_CALLBACK_BASE_URL || `${backendUrl}/api/auth/oauth`,
+  successRedirectUrl:
+    process.env.OAUTH_SUCCESS_REDIRECT_URL || `${frontendUrl}/dashboard.html`,
+  errorRedirectUrl:
+    process.env.OAUTH_ERROR_REDIRECT_URL || `${frontendUrl}/index.html`,
+  // Встроенные провайдеры, настраиваемые через .env
+  github: {
+    clientId: process.env.GITHUB_CLIENT_ID || '',
+    clientSecret: process.env.GITHUB_CLIENT_SECRET || '',
+    redirectUri:
+      process.env.GITHUB_REDIRECT_URI ||
+      `${backendUrl}/api/auth/multi/oauth/github/callback`,
+  },
+  vkontakte: {
+    clientId: process.env.VKONTAKTE_APP_ID || '',
+    clientSecret: process.env.VKONTAKTE_APP_SECRET || '',
+    redirectUri:
+      process.env.VKONTAKTE_REDIRECT_URI ||
+      `${backendUrl}/api/auth/multi/oauth/vkontakte/callback`,
+  },
+  gosuslugi: {
+    clientId: process.env.GOSUSLUGI_CLIENT_ID || '', // Мнемоника системы в ЕСИА
+    // Тестовая среда: https://esia-portal1.test.gosuslugi.ru, эмулятор: npm run esia:stub
+    baseUrl: process.env.GOSUSLUGI_BASE_URL || 'https://esia.gosuslugi.ru',
+    redirectUri:
+      process.env.GOSUSLUGI_REDIRECT_URI ||
+      `${backendUrl}/api/auth/multi/oauth/gosuslugi/callback`,
+    scopes: (process.env.GOSUSLUGI_SCOPES || 'openid fullname email mobile snils')
+      .split(/\s+/)
+      .filter(Boolean),
+    // Подпись client_secret: pkcs12 (файл ключа) или command (внешняя утилита, ГОСТ)
+    signer: process.env.GOSUSLUGI_SIGNER || 'pkcs12',
+    pkcs12Path: process.env.GOSUSLUGI_PKCS12_PATH || '',
+    pkcs12Password: process.env.GOSUSLUGI_PKCS12_PASSWORD || '',
+    opensslPath: process.env.GOSUSLUGI_OPENSSL_PATH || 'openssl',
+    signCommand: process.env.GOSUSLUGI_SIGN_COMMAND || '',
+  },
+}));
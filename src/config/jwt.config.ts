@@ -1,8 +1,13 @@
 import { registerAs } from '@nestjs/config';
 
 export default registerAs('jwt', () => ({
-  secret: process.env.JWT_SECRET || 'your-super-secret-jwt-key-change-in-production-min-32-chars-long',
+  algorithm: process.env.JWT_ALGORITHM || 'RS256', // RS256 или ES256
+  keyRotationDays: parseInt(process.env.JWT_KEY_ROTATION_DAYS || '30', 10),
+  // Сколько старый ключ остаётся в JWKS после ротации; должно быть больше времени жизни access token
+  keyOverlapHours: parseInt(process.env.JWT_KEY_OVERLAP_HOURS || '24', 10),
   expiresIn: process.env.JWT_EXPIRATION || '2h',
-  refreshSecret: process.env.JWT_REFRESH_SECRET || 'your-refresh-secret-key-min-32-chars-long-very-secure',
+  refreshSecret:
+    process.env.JWT_REFRESH_SECRET ||
+    'your-refresh-secret-key-min-32-chars-long-very-secure',
   refreshExpiresIn: process.env.JWT_REFRESH_EXPIRATION || '7d',
 }));
@@ -0,0 +1,14 @@
+import { registerAs } from '@nestjs/config';
+
+export default registerAs('loginProtection', () => ({
+  // Неудачных попыток подряд до временной блокировки аккаунта
+  maxAccountAttempts: parseInt(process.env.LOGIN_MAX_ATTEMPTS || '5', 10),
+  // Неудачных попыток с одного IP (по любым аккаунтам) до блокировки IP
+  maxIpAttempts: parseInt(process.env.LOGIN_MAX_IP_ATTEMPTS || '30', 10),
+  windowMinutes: parseInt(process.env.LOGIN_ATTEMPT_WINDOW_MINUTES || '15', 10),
+  lockoutMinutes: parseInt(process.env.LOGIN_LOCKOUT_MINUTES || '15', 10),
+  // Задержка ответа растёт вдвое с каждой неудачей, не больше maxDelayMs
+  baseDelayMs: parseInt(process.env.LOGIN_BASE_DELAY_MS || '250', 10),
+  maxDelayMs: parseInt(process.env.LOGIN_MAX_DELAY_MS || '8000', 10),
+  retentionDays: parseInt(process.env.LOGIN_ATTEMPT_RETENTION_DAYS || '30', 10),
+}));
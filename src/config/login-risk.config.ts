@@ -0,0 +1,39 @@
+import { registerAs } from '@nestjs/config';
+
+export default registerAs('loginRisk', () => ({
+  enabled: process.env.LOGIN_RISK_ENABLED !== 'false',
+  // Баллы сигналов; оценка входа - их сумма
+  newDeviceScore: parseInt(process.env.LOGIN_RISK_NEW_DEVICE_SCORE || '30', 10),
+  newSubnetScore: parseInt(process.env.LOGIN_RISK_NEW_SUBNET_SCORE || '20', 10),
+  unusualHourScore: parseInt(
+    process.env.LOGIN_RISK_UNUSUAL_HOUR_SCORE || '15',
+    10,
+  ),
+  failedVelocityScore: parseInt(
+    process.env.LOGIN_RISK_FAILED_VELOCITY_SCORE || '40',
+    10,
+  ),
+  // Неудачных попыток (пароль и 2FA) за окно, после которых срабатывает сигнал
+  failedVelocityThreshold: parseInt(
+    process.env.LOGIN_RISK_FAILED_VELOCITY_THRESHOLD || '3',
+    10,
+  ),
+  velocityWindowMinutes: parseInt(
+    process.env.LOGIN_RISK_VELOCITY_WINDOW_MINUTES || '30',
+    10,
+  ),
+  // Подтверждённых входов, после которых время входа сравнивается с привычным
+  minHoursHistory: parseInt(
+    process.env.LOGIN_RISK_MIN_HOURS_HISTORY || '10',
+    10,
+  ),
+  // Пороги: уведомление, подтверждение вторым фактором, блокировка
+  notifyScore: parseInt(process.env.LOGIN_RISK_NOTIFY_SCORE || '20', 10),
+  challengeScore: parseInt(process.env.LOGIN_RISK_CHALLENGE_SCORE || '40', 10),
+  blockScore: parseInt(process.env.LOGIN_RISK_BLOCK_SCORE || '80', 10),
+  challengeMinutes: parseInt(
+    process.env.LOGIN_RISK_CHALLENGE_MINUTES || '15',
+    10,
+  ),
+  retentionDays: parseInt(process.env.LOGIN_RISK_RETENTION_DAYS || '180', 10),
+}));
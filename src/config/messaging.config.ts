@@ -0,0 +1,38 @@
+import { registerAs } from '@nestjs/config';
+
+const providers = (value: string | undefined, fallback: string) =>
+  (value || fallback)
+    .split(',')
+    .map((item) => item.trim())
+    .filter(Boolean);
+
+export default registerAs('messaging', () => ({
+  // Порядок провайдеров по каналам, пока он не задан в настройках (system_settings.messaging_providers)
+  providers: {
+    email: providers(process.env.MESSAGING_EMAIL_PROVIDERS, 'smtp,sink'),
+    sms: providers(process.env.MESSAGING_SMS_PROVIDERS, 'smsaero,sink'),
+    telegram: providers(
+      process.env.MESSAGING_TELEGRAM_PROVIDERS,
+      'telegram,sink',
+    ),
+    whatsapp: providers(
+      process.env.MESSAGING_WHATSAPP_PROVIDERS,
+      'whatsapp,sink',
+    ),
+  },
+  // Попыток отправки до статуса failed; в каждой перебираются все провайдеры канала
+  maxAttempts: parseInt(process.env.MESSAGING_MAX_ATTEMPTS || '5', 10),
+  baseDelaySeconds: parseInt(
+    process.env.MESSAGING_BASE_DELAY_SECONDS || '15',
+    10,
+  ),
+  maxDelaySeconds: parseInt(
+    process.env.MESSAGING_MAX_DELAY_SECONDS || '900',
+    10,
+  ),
+  timeoutMs: parseInt(process.env.MESSAGING_TIMEOUT_MS || '10000', 10),
+  batchSize: parseInt(process.env.MESSAGING_BATCH_SIZE || '20', 10),
+  retentionDays: parseInt(process.env.MESSAGING_RETENTION_DAYS || '30', 10),
+  // Файл sink-провайдера (JSON Lines); без файла сообщения только пишутся в лог
+  sinkFile: process.env.MESSAGING_SINK_FILE || '',
+}));
@@ -0,0 +1,20 @@
+import { registerAs } from '@nestjs/config';
+
+export default registerAs('oidc', () => ({
+  issuer:
+    process.env.OIDC_ISSUER ||
+    `${process.env.BACKEND_URL || 'http://localhost:3001'}/api`,
+  authorizationCodeTtl: parseInt(
+    process.env.OIDC_AUTHORIZATION_CODE_TTL || '120',
+    10,
+  ), // секунды
+  authorizationRequestTtl: parseInt(
+    process.env.OIDC_AUTHORIZATION_REQUEST_TTL || '600',
+    10,
+  ),
+  accessTokenTtl: parseInt(process.env.OIDC_ACCESS_TOKEN_TTL || '900', 10),
+  idTokenTtl: parseInt(process.env.OIDC_ID_TOKEN_TTL || '900', 10),
+  consentUrl:
+    process.env.OIDC_CONSENT_URL ||
+    `${process.env.FRONTEND_URL || 'http://localhost:3000'}/oauth/consent`,
+}));
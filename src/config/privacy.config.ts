@@ -0,0 +1,11 @@
+import { registerAs } from '@nestjs/config';
+
+export default registerAs('privacy', () => ({
+  // Дней от запроса на удаление до самого удаления: пользователь может передумать
+  erasureGraceDays: parseInt(
+    process.env.PRIVACY_ERASURE_GRACE_DAYS || '30',
+    10,
+  ),
+  // Выгрузок персональных данных на пользователя за сутки
+  exportsPerDay: parseInt(process.env.PRIVACY_EXPORTS_PER_DAY || '5', 10),
+}));
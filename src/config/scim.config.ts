@@ -0,0 +1,12 @@
+import { registerAs } from '@nestjs/config';
+
+export default registerAs('scim', () => ({
+  // Адрес SCIM API для meta.location
+  baseUrl:
+    process.env.SCIM_BASE_URL ||
+    `${process.env.BACKEND_URL || 'http://localhost:3001'}/api/scim/v2`,
+  maxResults: parseInt(process.env.SCIM_MAX_RESULTS || '200', 10),
+  // Роли, с которыми SCIM добавляет пользователей в организацию и группы
+  organizationRole: process.env.SCIM_ORGANIZATION_ROLE || 'viewer',
+  teamRole: process.env.SCIM_TEAM_ROLE || 'viewer',
+}));
@@ -0,0 +1,17 @@
+import { registerAs } from '@nestjs/config';
+
+export default registerAs('verificationCodes', () => ({
+  ttlMinutes: parseInt(process.env.VERIFICATION_CODE_TTL_MINUTES || '10', 10),
+  // Неверных вводов одного кода, после чего он аннулируется
+  maxAttempts: parseInt(process.env.VERIFICATION_CODE_MAX_ATTEMPTS || '5', 10),
+  // Пауза перед повторной отправкой кода на тот же номер/адрес
+  resendCooldownSeconds: parseInt(
+    process.env.VERIFICATION_CODE_RESEND_COOLDOWN_SECONDS || '60',
+    10,
+  ),
+  // Истёкшие и использованные коды удаляются через столько часов
+  retentionHours: parseInt(
+    process.env.VERIFICATION_CODE_RETENTION_HOURS || '24',
+    10,
+  ),
+}));
@@ -0,0 +1,16 @@
+import { registerAs } from '@nestjs/config';
+
+export default registerAs('webauthn', () => ({
+  rpId: process.env.WEBAUTHN_RP_ID || 'localhost',
+  rpName: process.env.WEBAUTHN_RP_NAME || 'Loginus',
+  // Допустимые origin клиентских приложений через запятую
+  origins: (
+    process.env.WEBAUTHN_ORIGINS ||
+    process.env.FRONTEND_URL ||
+    'http://localhost:3000'
+  )
+    .split(',')
+    .map((origin) => origin.trim())
+    .filter(Boolean),
+  challengeTtl: parseInt(process.env.WEBAUTHN_CHALLENGE_TTL || '300', 10), // секунды
+}));
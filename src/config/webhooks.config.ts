@@ -0,0 +1,21 @@
+import { registerAs } from '@nestjs/config';
+
+export default registerAs('webhooks', () => ({
+  // Попыток доставки до статуса failed (первая + повторы)
+  maxAttempts: parseInt(process.env.WEBHOOK_MAX_ATTEMPTS || '8', 10),
+  // Пауза перед повтором удваивается с каждой попыткой, не больше maxDelaySeconds
+  baseDelaySeconds: parseInt(
+    process.env.WEBHOOK_BASE_DELAY_SECONDS || '30',
+    10,
+  ),
+  maxDelaySeconds: parseInt(
+    process.env.WEBHOOK_MAX_DELAY_SECONDS || '21600',
+    10,
+  ),
+  timeoutMs: parseInt(process.env.WEBHOOK_TIMEOUT_MS || '10000', 10),
+  batchSize: parseInt(process.env.WEBHOOK_BATCH_SIZE || '20', 10),
+  retentionDays: parseInt(
+    process.env.WEBHOOK_DELIVERY_RETENTION_DAYS || '30',
+    10,
+  ),
+}));
@@ -0,0 +1,92 @@
+import { createReadStream } from 'fs';
+import { createHash } from 'crypto';
+import { createInterface } from 'readline';
+import { DataSource } from 'typeorm';
+
+/**
+ * Импорт списка утёкших паролей в breached_passwords.
+ * Строки - SHA-1 в формате Have I Been Pwned ("HASH" или "HASH:COUNT"),
+ * с флагом --plain - пароли открытым текстом (хешируются при импорте).
+ *
+ * npm run breached-passwords:import -- ./pwned-passwords-sha1.txt [--plain]
+ */
+const BATCH_SIZE = 1000;
+const SHA1_PATTERN = /^[0-9A-F]{40}$/;
+
+async function importBreachedPasswords() {
+  const args = process.argv.slice(2);
+  const file = args.find((arg) => !arg.startsWith('--'));
+  const plain = args.includes('--plain');
+
+  if (!file) {
+    console.error('❌ Укажите путь к файлу со списком паролей');
+    process.exit(1);
+  }
+
+  const dataSource = new DataSource({
+    type: 'postgres',
+    host: process.env.DB_HOST || 'localhost',
+    port: parseInt(process.env.DB_PORT || '5432', 10),
+    username: process.env.DB_USERNAME || 'loginus',
+    password: process.env.DB_PASSWORD || 'loginus_secret',
+    database: process.env.DB_DATABASE || 'loginus_dev',
+    synchronize: false,
+    logging: false,
+  });
+
+  let batch: string[] = [];
+  let imported = 0;
+  let skipped = 0;
+
+  const flush = async () => {
+    if (batch.length === 0) {
+      return;
+    }
+    const placeholders = batch.map((_, i) => `($${i + 1})`).join(', ');
+    await dataSource.query(
+      `INSERT INTO breached_passwords (sha1) VALUES ${placeholders} ON CONFLICT DO NOTHING`,
+      batch,
+    );
+    imported += batch.length;
+    batch = [];
+  };
+
+  try {
+    await dataSource.initialize();
+    console.log('📦 Database connected');
+
+    const lines = createInterface({
+      input: createReadStream(file, { encoding: 'utf8' }),
+      crlfDelay: Infinity,
+    });
+
+    for await (const line of lines) {
+      const sha1 = plain
+        ? line &&
+          createHash('sha1').update(line, 'utf8').digest('hex').toUpperCase()
+        : line.split(':')[0].trim().toUpperCase();
+
+      if (!sha1 || !SHA1_PATTERN.test(sha1)) {
+        skipped++;
+        continue;
+      }
+
+      batch.push(sha1);
+      if (batch.length >= BATCH_SIZE) {
+        await flush();
+      }
+    }
+    await flush();
+
+    await dataSource.destroy();
+    console.log(
+      `✅ Обработано хешей: ${imported}, пропущено строк: ${skipped}`,
+    );
+    process.exit(0);
+  } catch (error) {
+    console.error('❌ Импорт не удался:', error);
+    process.exit(1);
+  }
+}
+
+importBreachedPasswords();
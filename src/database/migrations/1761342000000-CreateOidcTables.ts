@@ -0,0 +1,81 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+export class CreateOidcTables1761342000000 implements MigrationInterface {
+  name = 'CreateOidcTables1761342000000';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    // Зарегистрированные приложения (OIDC клиенты)
+    await queryRunner.query(`
+      CREATE TABLE IF NOT EXISTS oauth_clients (
+        id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+        "clientId" VARCHAR(100) NOT NULL,
+        "clientSecretHash" VARCHAR(255),
+        name VARCHAR(255) NOT NULL,
+        description TEXT,
+        "logoUrl" VARCHAR(500),
+        "redirectUris" JSONB NOT NULL DEFAULT '[]',
+        "allowedScopes" JSONB NOT NULL DEFAULT '["openid"]',
+        "isConfidential" BOOLEAN NOT NULL DEFAULT true,
+        "skipConsent" BOOLEAN NOT NULL DEFAULT false,
+        "isActive" BOOLEAN NOT NULL DEFAULT true,
+        "organizationId" UUID REFERENCES organizations(id) ON DELETE CASCADE,
+        "createdBy" UUID REFERENCES users(id) ON DELETE SET NULL,
+        "createdAt" TIMESTAMP NOT NULL DEFAULT NOW(),
+        "updatedAt" TIMESTAMP NOT NULL DEFAULT NOW()
+      )
+    `);
+    await queryRunner.query(
+      `CREATE UNIQUE INDEX IF NOT EXISTS idx_oauth_clients_client_id ON oauth_clients("clientId")`,
+    );
+
+    // Запросы авторизации и выданные коды
+    await queryRunner.query(`
+      CREATE TABLE IF NOT EXISTS oauth_authorization_requests (
+        id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+        "clientId" UUID NOT NULL REFERENCES oauth_clients(id) ON DELETE CASCADE,
+        "userId" UUID REFERENCES users(id) ON DELETE CASCADE,
+        "redirectUri" VARCHAR(1000) NOT NULL,
+        scopes JSONB NOT NULL DEFAULT '[]',
+        state VARCHAR(500),
+        nonce VARCHAR(500),
+        "codeChallenge" VARCHAR(128),
+        "codeChallengeMethod" VARCHAR(10),
+        "codeHash" VARCHAR(64),
+        status VARCHAR(20) NOT NULL DEFAULT 'pending',
+        "authTime" TIMESTAMP,
+        "expiresAt" TIMESTAMP NOT NULL,
+        "createdAt" TIMESTAMP NOT NULL DEFAULT NOW(),
+        "updatedAt" TIMESTAMP NOT NULL DEFAULT NOW()
+      )
+    `);
+    await queryRunner.query(
+      `CREATE INDEX IF NOT EXISTS idx_oauth_authorization_requests_code_hash ON oauth_authorization_requests("codeHash")`,
+    );
+    await queryRunner.query(
+      `CREATE INDEX IF NOT EXISTS idx_oauth_authorization_requests_expires_at ON oauth_authorization_requests("expiresAt")`,
+    );
+
+    // Согласия пользователей
+    await queryRunner.query(`
+      CREATE TABLE IF NOT EXISTS oauth_consents (
+        id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+        "userId" UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+        "clientId" UUID NOT NULL REFERENCES oauth_clients(id) ON DELETE CASCADE,
+        scopes JSONB NOT NULL DEFAULT '[]',
+        "createdAt" TIMESTAMP NOT NULL DEFAULT NOW(),
+        "updatedAt" TIMESTAMP NOT NULL DEFAULT NOW()
+      )
+    `);
+    await queryRunner.query(
+      `CREATE UNIQUE INDEX IF NOT EXISTS idx_oauth_consents_user_client ON oauth_consents("userId", "clientId")`,
+    );
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`DROP TABLE IF EXISTS oauth_consents`);
+    await queryRunner.query(
+      `DROP TABLE IF EXISTS oauth_authorization_requests`,
+    );
+    await queryRunner.query(`DROP TABLE IF EXISTS oauth_clients`);
+  }
+}
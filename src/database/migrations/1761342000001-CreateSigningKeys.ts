@@ -0,0 +1,33 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+export class CreateSigningKeys1761342000001 implements MigrationInterface {
+  name = 'CreateSigningKeys1761342000001';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    // Ключи подписи JWT; первый ключ создаётся приложением при старте
+    await queryRunner.query(`
+      CREATE TABLE IF NOT EXISTS signing_keys (
+        id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+        kid VARCHAR(64) NOT NULL,
+        algorithm VARCHAR(10) NOT NULL,
+        "publicKey" TEXT NOT NULL,
+        "privateKey" TEXT NOT NULL,
+        status VARCHAR(20) NOT NULL DEFAULT 'active',
+        "retiredAt" TIMESTAMP,
+        "expiresAt" TIMESTAMP,
+        "createdAt" TIMESTAMP NOT NULL DEFAULT NOW(),
+        "updatedAt" TIMESTAMP NOT NULL DEFAULT NOW()
+      )
+    `);
+    await queryRunner.query(
+      `CREATE UNIQUE INDEX IF NOT EXISTS idx_signing_keys_kid ON signing_keys(kid)`,
+    );
+    await queryRunner.query(
+      `CREATE INDEX IF NOT EXISTS idx_signing_keys_status ON signing_keys(status)`,
+    );
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`DROP TABLE IF EXISTS signing_keys`);
+  }
+}
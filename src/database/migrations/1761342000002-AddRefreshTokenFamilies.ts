@@ -0,0 +1,37 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+export class AddRefreshTokenFamilies1761342000002
+  implements MigrationInterface
+{
+  name = 'AddRefreshTokenFamilies1761342000002';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`
+      ALTER TABLE refresh_tokens
+        ADD COLUMN IF NOT EXISTS "familyId" UUID NOT NULL DEFAULT gen_random_uuid(),
+        ADD COLUMN IF NOT EXISTS "usedAt" TIMESTAMP,
+        ADD COLUMN IF NOT EXISTS "replacedById" UUID,
+        ADD COLUMN IF NOT EXISTS "revokedReason" VARCHAR(50)
+    `);
+
+    // Существующие токены становятся корнями собственных семейств
+    await queryRunner.query(`UPDATE refresh_tokens SET "familyId" = id`);
+
+    await queryRunner.query(
+      `CREATE INDEX IF NOT EXISTS idx_refresh_tokens_family_id ON refresh_tokens("familyId")`,
+    );
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(
+      `DROP INDEX IF EXISTS idx_refresh_tokens_family_id`,
+    );
+    await queryRunner.query(`
+      ALTER TABLE refresh_tokens
+        DROP COLUMN IF EXISTS "revokedReason",
+        DROP COLUMN IF EXISTS "replacedById",
+        DROP COLUMN IF EXISTS "usedAt",
+        DROP COLUMN IF EXISTS "familyId"
+    `);
+  }
+}
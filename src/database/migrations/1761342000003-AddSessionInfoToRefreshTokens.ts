@@ -0,0 +1,25 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+export class AddSessionInfoToRefreshTokens1761342000003
+  implements MigrationInterface
+{
+  name = 'AddSessionInfoToRefreshTokens1761342000003';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`
+      ALTER TABLE refresh_tokens
+        ADD COLUMN IF NOT EXISTS "deviceName" VARCHAR(255),
+        ADD COLUMN IF NOT EXISTS "ipAddress" VARCHAR(50),
+        ADD COLUMN IF NOT EXISTS "userAgent" VARCHAR(500)
+    `);
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`
+      ALTER TABLE refresh_tokens
+        DROP COLUMN IF EXISTS "userAgent",
+        DROP COLUMN IF EXISTS "ipAddress",
+        DROP COLUMN IF EXISTS "deviceName"
+    `);
+  }
+}
@@ -0,0 +1,36 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+export class AddTotpEnrollment1761342000004 implements MigrationInterface {
+  name = 'AddTotpEnrollment1761342000004';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(
+      `ALTER TYPE two_factor_codes_type_enum ADD VALUE IF NOT EXISTS 'totp'`,
+    );
+
+    await queryRunner.query(`
+      ALTER TABLE users
+        ADD COLUMN IF NOT EXISTS "twoFactorPendingSecret" VARCHAR(255),
+        ADD COLUMN IF NOT EXISTS "totpConfirmedAt" TIMESTAMP,
+        ADD COLUMN IF NOT EXISTS "totpLastUsedStep" INTEGER
+    `);
+
+    // Старые секреты хранились в открытом виде и не подтверждались - требуется повторная настройка
+    await queryRunner.query(`
+      UPDATE users
+      SET "twoFactorSecret" = NULL,
+          "twoFactorMethods" = array_remove("twoFactorMethods", 'totp')
+      WHERE "totpConfirmedAt" IS NULL
+    `);
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`
+      ALTER TABLE users
+        DROP COLUMN IF EXISTS "totpLastUsedStep",
+        DROP COLUMN IF EXISTS "totpConfirmedAt",
+        DROP COLUMN IF EXISTS "twoFactorPendingSecret"
+    `);
+    // Значение 'totp' в two_factor_codes_type_enum не удаляется: PostgreSQL не поддерживает DROP VALUE
+  }
+}
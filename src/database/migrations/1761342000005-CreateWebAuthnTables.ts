@@ -0,0 +1,55 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+export class CreateWebAuthnTables1761342000005 implements MigrationInterface {
+  name = 'CreateWebAuthnTables1761342000005';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`
+      CREATE TABLE IF NOT EXISTS webauthn_credentials (
+        id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+        "userId" UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+        "credentialId" VARCHAR(1024) NOT NULL UNIQUE,
+        "publicKey" TEXT NOT NULL,
+        algorithm INTEGER NOT NULL,
+        "signCount" BIGINT NOT NULL DEFAULT 0,
+        transports TEXT[] NOT NULL DEFAULT '{}',
+        aaguid VARCHAR(36),
+        name VARCHAR(255) NOT NULL,
+        "backedUp" BOOLEAN NOT NULL DEFAULT false,
+        "lastUsedAt" TIMESTAMP,
+        "createdAt" TIMESTAMP NOT NULL DEFAULT now()
+      )
+    `);
+    await queryRunner.query(
+      `CREATE INDEX IF NOT EXISTS idx_webauthn_credentials_user_id ON webauthn_credentials("userId")`,
+    );
+
+    await queryRunner.query(`
+      CREATE TABLE IF NOT EXISTS webauthn_challenges (
+        id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+        challenge VARCHAR(128) NOT NULL UNIQUE,
+        purpose VARCHAR(20) NOT NULL,
+        "userId" UUID,
+        "expiresAt" TIMESTAMP NOT NULL,
+        "createdAt" TIMESTAMP NOT NULL DEFAULT now()
+      )
+    `);
+    await queryRunner.query(
+      `CREATE INDEX IF NOT EXISTS idx_webauthn_challenges_expires_at ON webauthn_challenges("expiresAt")`,
+    );
+
+    // Enum-тип способа входа есть только в БД, созданных синхронизацией схемы
+    await queryRunner.query(`
+      DO $$ BEGIN
+        IF EXISTS (SELECT 1 FROM pg_type WHERE typname = 'users_primaryauthmethod_enum') THEN
+          ALTER TYPE users_primaryauthmethod_enum ADD VALUE IF NOT EXISTS 'PASSKEY';
+        END IF;
+      END $$
+    `);
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`DROP TABLE IF EXISTS webauthn_challenges`);
+    await queryRunner.query(`DROP TABLE IF EXISTS webauthn_credentials`);
+  }
+}
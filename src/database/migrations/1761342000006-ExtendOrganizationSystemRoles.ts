@@ -0,0 +1,48 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+/**
+ * Права системных ролей организаций, которые раньше проверялись только по имени роли
+ */
+const ROLE_PERMISSIONS: Record<string, string[]> = {
+  admin: ['organizations.read', 'organizations.update'],
+  manager: ['organizations.read'],
+};
+
+export class ExtendOrganizationSystemRoles1761342000006
+  implements MigrationInterface
+{
+  name = 'ExtendOrganizationSystemRoles1761342000006';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    for (const [name, permissions] of Object.entries(ROLE_PERMISSIONS)) {
+      await queryRunner.query(
+        `
+        UPDATE organization_roles
+        SET permissions = (
+          SELECT COALESCE(jsonb_agg(DISTINCT value), '[]'::jsonb)
+          FROM jsonb_array_elements_text(permissions || $2::jsonb) AS value
+        )
+        WHERE "isSystem" = true AND name = $1
+        `,
+        [name, JSON.stringify(permissions)],
+      );
+    }
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    for (const [name, permissions] of Object.entries(ROLE_PERMISSIONS)) {
+      await queryRunner.query(
+        `
+        UPDATE organization_roles
+        SET permissions = (
+          SELECT COALESCE(jsonb_agg(value), '[]'::jsonb)
+          FROM jsonb_array_elements_text(permissions) AS value
+          WHERE value <> ALL($2::text[])
+        )
+        WHERE "isSystem" = true AND name = $1
+        `,
+        [name, permissions],
+      );
+    }
+  }
+}
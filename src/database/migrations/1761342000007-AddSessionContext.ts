@@ -0,0 +1,21 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+export class AddSessionContext1761342000007 implements MigrationInterface {
+  name = 'AddSessionContext1761342000007';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`
+      ALTER TABLE refresh_tokens
+        ADD COLUMN IF NOT EXISTS "organizationId" UUID,
+        ADD COLUMN IF NOT EXISTS "teamId" UUID
+    `);
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`
+      ALTER TABLE refresh_tokens
+        DROP COLUMN IF EXISTS "teamId",
+        DROP COLUMN IF EXISTS "organizationId"
+    `);
+  }
+}
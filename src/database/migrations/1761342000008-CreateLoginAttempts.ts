@@ -0,0 +1,29 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+export class CreateLoginAttempts1761342000008 implements MigrationInterface {
+  name = 'CreateLoginAttempts1761342000008';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`
+      CREATE TABLE IF NOT EXISTS login_attempts (
+        id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+        "accountKey" VARCHAR(320) NOT NULL,
+        "userId" UUID,
+        "ipAddress" VARCHAR(50),
+        channel VARCHAR(20) NOT NULL,
+        success BOOLEAN NOT NULL,
+        "createdAt" TIMESTAMP NOT NULL DEFAULT now()
+      )
+    `);
+    await queryRunner.query(
+      `CREATE INDEX IF NOT EXISTS idx_login_attempts_account_key ON login_attempts("accountKey", "createdAt")`,
+    );
+    await queryRunner.query(
+      `CREATE INDEX IF NOT EXISTS idx_login_attempts_ip_address ON login_attempts("ipAddress", "createdAt")`,
+    );
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`DROP TABLE IF EXISTS login_attempts`);
+  }
+}
@@ -0,0 +1,39 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+export class CreatePasswordPolicy1761342000009 implements MigrationInterface {
+  name = 'CreatePasswordPolicy1761342000009';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`
+      ALTER TABLE users
+        ADD COLUMN IF NOT EXISTS "passwordChangedAt" TIMESTAMP,
+        ADD COLUMN IF NOT EXISTS "mustChangePassword" BOOLEAN NOT NULL DEFAULT false
+    `);
+    await queryRunner.query(`
+      CREATE TABLE IF NOT EXISTS password_history (
+        id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+        "userId" UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+        "passwordHash" VARCHAR(255) NOT NULL,
+        "createdAt" TIMESTAMP NOT NULL DEFAULT now()
+      )
+    `);
+    await queryRunner.query(
+      `CREATE INDEX IF NOT EXISTS idx_password_history_user_id ON password_history("userId", "createdAt")`,
+    );
+    await queryRunner.query(`
+      CREATE TABLE IF NOT EXISTS breached_passwords (
+        sha1 CHAR(40) PRIMARY KEY
+      )
+    `);
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`DROP TABLE IF EXISTS breached_passwords`);
+    await queryRunner.query(`DROP TABLE IF EXISTS password_history`);
+    await queryRunner.query(`
+      ALTER TABLE users
+        DROP COLUMN IF EXISTS "mustChangePassword",
+        DROP COLUMN IF EXISTS "passwordChangedAt"
+    `);
+  }
+}
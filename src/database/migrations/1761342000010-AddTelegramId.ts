@@ -0,0 +1,38 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+export class AddTelegramId1761342000010 implements MigrationInterface {
+  name = 'AddTelegramId1761342000010';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(
+      `ALTER TABLE users ADD COLUMN IF NOT EXISTS "telegramId" VARCHAR(64)`,
+    );
+
+    // Переносим id из метаданных мессенджеров; при дублях id остаётся у самого раннего аккаунта
+    await queryRunner.query(`
+      UPDATE users u
+      SET "telegramId" = t."telegramId"
+      FROM (
+        SELECT DISTINCT ON ("telegramId") id, "telegramId"
+        FROM (
+          SELECT id, "createdAt", "messengerMetadata"->'telegram'->>'userId' AS "telegramId"
+          FROM users
+        ) s
+        WHERE "telegramId" IS NOT NULL AND "telegramId" <> ''
+        ORDER BY "telegramId", "createdAt"
+      ) t
+      WHERE u.id = t.id AND u."telegramId" IS NULL
+    `);
+
+    await queryRunner.query(
+      `CREATE UNIQUE INDEX IF NOT EXISTS idx_users_telegram_id ON users("telegramId")`,
+    );
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`DROP INDEX IF EXISTS idx_users_telegram_id`);
+    await queryRunner.query(
+      `ALTER TABLE users DROP COLUMN IF EXISTS "telegramId"`,
+    );
+  }
+}
@@ -0,0 +1,82 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+export class CreateUserIdentities1761342000011 implements MigrationInterface {
+  name = 'CreateUserIdentities1761342000011';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`
+      CREATE TABLE IF NOT EXISTS user_identities (
+        id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+        "userId" UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+        provider VARCHAR(50) NOT NULL,
+        subject VARCHAR(255) NOT NULL,
+        email VARCHAR(255),
+        "emailVerified" BOOLEAN NOT NULL DEFAULT false,
+        username VARCHAR(255),
+        profile JSONB NOT NULL DEFAULT '{}',
+        "accessToken" TEXT,
+        "refreshToken" TEXT,
+        "tokenExpiresAt" TIMESTAMP,
+        scopes JSONB NOT NULL DEFAULT '[]',
+        "lastLoginAt" TIMESTAMP,
+        "createdAt" TIMESTAMP NOT NULL DEFAULT now(),
+        "updatedAt" TIMESTAMP NOT NULL DEFAULT now()
+      )
+    `);
+    await queryRunner.query(
+      `CREATE UNIQUE INDEX IF NOT EXISTS idx_user_identities_provider_subject ON user_identities(provider, subject)`,
+    );
+    await queryRunner.query(
+      `CREATE INDEX IF NOT EXISTS idx_user_identities_user_id ON user_identities("userId")`,
+    );
+
+    await queryRunner.query(`
+      CREATE TABLE IF NOT EXISTS oauth_states (
+        id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+        "stateHash" VARCHAR(64) NOT NULL UNIQUE,
+        provider VARCHAR(50) NOT NULL,
+        purpose VARCHAR(20) NOT NULL,
+        "userId" UUID,
+        nonce VARCHAR(128) NOT NULL,
+        "codeVerifier" VARCHAR(128) NOT NULL,
+        "redirectUri" VARCHAR(1000) NOT NULL,
+        "expiresAt" TIMESTAMP NOT NULL,
+        "createdAt" TIMESTAMP NOT NULL DEFAULT now()
+      )
+    `);
+    await queryRunner.query(
+      `CREATE INDEX IF NOT EXISTS idx_oauth_states_expires_at ON oauth_states("expiresAt")`,
+    );
+
+    // Переносим привязки из колонок users; при дублях id остаётся у самого раннего аккаунта
+    for (const [provider, column, username] of [
+      ['github', 'githubId', `"githubUsername"`],
+      ['vkontakte', 'vkontakteId', 'NULL'],
+      ['gosuslugi', 'gosuslugiId', 'NULL'],
+    ]) {
+      await queryRunner.query(`
+        INSERT INTO user_identities ("userId", provider, subject, username, profile)
+        SELECT DISTINCT ON ("${column}") id, '${provider}', "${column}", ${username},
+          COALESCE("oauthMetadata"->'${provider}', '{}'::jsonb)
+        FROM users
+        WHERE "${column}" IS NOT NULL AND "${column}" <> ''
+        ORDER BY "${column}", "createdAt"
+        ON CONFLICT (provider, subject) DO NOTHING
+      `);
+    }
+
+    // Способ входа для провайдеров из настроек (Google, Яндекс, Keycloak...)
+    await queryRunner.query(`
+      DO $$ BEGIN
+        IF EXISTS (SELECT 1 FROM pg_type WHERE typname = 'users_primaryauthmethod_enum') THEN
+          ALTER TYPE users_primaryauthmethod_enum ADD VALUE IF NOT EXISTS 'OAUTH';
+        END IF;
+      END $$
+    `);
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`DROP TABLE IF EXISTS oauth_states`);
+    await queryRunner.query(`DROP TABLE IF EXISTS user_identities`);
+  }
+}
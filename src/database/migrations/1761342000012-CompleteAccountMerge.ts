@@ -0,0 +1,25 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+export class CompleteAccountMerge1761342000012 implements MigrationInterface {
+  name = 'CompleteAccountMerge1761342000012';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`
+      ALTER TABLE users
+        ADD COLUMN IF NOT EXISTS "mergedIntoId" UUID REFERENCES users(id) ON DELETE SET NULL
+    `);
+
+    // Запросы, созданные старым multi-auth, ссылались сами на себя и не могут быть выполнены
+    await queryRunner.query(`
+      UPDATE account_merge_requests
+      SET status = 'expired'
+      WHERE status = 'pending' AND "primaryUserId" = "secondaryUserId"
+    `);
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(
+      `ALTER TABLE users DROP COLUMN IF EXISTS "mergedIntoId"`,
+    );
+  }
+}
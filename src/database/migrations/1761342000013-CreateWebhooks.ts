@@ -0,0 +1,55 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+export class CreateWebhooks1761342000013 implements MigrationInterface {
+  name = 'CreateWebhooks1761342000013';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`
+      CREATE TABLE IF NOT EXISTS webhook_endpoints (
+        id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+        "organizationId" UUID NOT NULL REFERENCES organizations(id) ON DELETE CASCADE,
+        url VARCHAR(2048) NOT NULL,
+        description VARCHAR(255),
+        events JSONB NOT NULL DEFAULT '[]',
+        secret TEXT NOT NULL,
+        "isActive" BOOLEAN NOT NULL DEFAULT true,
+        "createdBy" UUID,
+        "createdAt" TIMESTAMP NOT NULL DEFAULT now(),
+        "updatedAt" TIMESTAMP NOT NULL DEFAULT now()
+      )
+    `);
+    await queryRunner.query(
+      `CREATE INDEX IF NOT EXISTS idx_webhook_endpoints_organization_id ON webhook_endpoints("organizationId")`,
+    );
+    await queryRunner.query(`
+      CREATE TABLE IF NOT EXISTS webhook_deliveries (
+        id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+        "endpointId" UUID NOT NULL REFERENCES webhook_endpoints(id) ON DELETE CASCADE,
+        "organizationId" UUID NOT NULL,
+        event VARCHAR(100) NOT NULL,
+        payload JSONB NOT NULL,
+        status VARCHAR(20) NOT NULL DEFAULT 'pending',
+        attempts INT NOT NULL DEFAULT 0,
+        "nextAttemptAt" TIMESTAMP NOT NULL DEFAULT now(),
+        "lastAttemptAt" TIMESTAMP,
+        "responseStatus" INT,
+        "responseBody" TEXT,
+        error TEXT,
+        "replayOfId" UUID,
+        "createdAt" TIMESTAMP NOT NULL DEFAULT now(),
+        "updatedAt" TIMESTAMP NOT NULL DEFAULT now()
+      )
+    `);
+    await queryRunner.query(
+      `CREATE INDEX IF NOT EXISTS idx_webhook_deliveries_queue ON webhook_deliveries(status, "nextAttemptAt")`,
+    );
+    await queryRunner.query(
+      `CREATE INDEX IF NOT EXISTS idx_webhook_deliveries_endpoint ON webhook_deliveries("endpointId", "createdAt")`,
+    );
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`DROP TABLE IF EXISTS webhook_deliveries`);
+    await queryRunner.query(`DROP TABLE IF EXISTS webhook_endpoints`);
+  }
+}
@@ -0,0 +1,51 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+export class CreateScim1761342000014 implements MigrationInterface {
+  name = 'CreateScim1761342000014';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`
+      CREATE TABLE IF NOT EXISTS scim_tokens (
+        id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+        "organizationId" UUID NOT NULL REFERENCES organizations(id) ON DELETE CASCADE,
+        name VARCHAR(100) NOT NULL,
+        "tokenHash" CHAR(64) NOT NULL UNIQUE,
+        "tokenPrefix" VARCHAR(16) NOT NULL,
+        "createdBy" UUID,
+        "expiresAt" TIMESTAMP,
+        "lastUsedAt" TIMESTAMP,
+        "revokedAt" TIMESTAMP,
+        "createdAt" TIMESTAMP NOT NULL DEFAULT now()
+      )
+    `);
+    await queryRunner.query(
+      `CREATE INDEX IF NOT EXISTS idx_scim_tokens_organization_id ON scim_tokens("organizationId")`,
+    );
+
+    await queryRunner.query(`
+      ALTER TABLE users
+        ADD COLUMN IF NOT EXISTS "scimOrganizationId" UUID REFERENCES organizations(id) ON DELETE SET NULL
+    `);
+    await queryRunner.query(`
+      ALTER TABLE organization_memberships
+        ADD COLUMN IF NOT EXISTS "scimExternalId" VARCHAR(255)
+    `);
+    await queryRunner.query(`
+      ALTER TABLE teams
+        ADD COLUMN IF NOT EXISTS "scimExternalId" VARCHAR(255)
+    `);
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(
+      `ALTER TABLE teams DROP COLUMN IF EXISTS "scimExternalId"`,
+    );
+    await queryRunner.query(
+      `ALTER TABLE organization_memberships DROP COLUMN IF EXISTS "scimExternalId"`,
+    );
+    await queryRunner.query(
+      `ALTER TABLE users DROP COLUMN IF EXISTS "scimOrganizationId"`,
+    );
+    await queryRunner.query(`DROP TABLE IF EXISTS scim_tokens`);
+  }
+}
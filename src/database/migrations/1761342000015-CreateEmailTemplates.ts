@@ -0,0 +1,40 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+export class CreateEmailTemplates1761342000015 implements MigrationInterface {
+  name = 'CreateEmailTemplates1761342000015';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`
+      CREATE TABLE IF NOT EXISTS email_templates (
+        id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+        "organizationId" UUID REFERENCES organizations(id) ON DELETE CASCADE,
+        key VARCHAR(64) NOT NULL,
+        locale VARCHAR(5) NOT NULL,
+        subject TEXT NOT NULL,
+        html TEXT NOT NULL,
+        text TEXT,
+        "updatedBy" UUID,
+        "createdAt" TIMESTAMP NOT NULL DEFAULT now(),
+        "updatedAt" TIMESTAMP NOT NULL DEFAULT now()
+      )
+    `);
+    // NULL в organizationId не участвует в обычном UNIQUE, поэтому два частичных индекса
+    await queryRunner.query(`
+      CREATE UNIQUE INDEX IF NOT EXISTS uq_email_templates_system
+        ON email_templates(key, locale) WHERE "organizationId" IS NULL
+    `);
+    await queryRunner.query(`
+      CREATE UNIQUE INDEX IF NOT EXISTS uq_email_templates_organization
+        ON email_templates("organizationId", key, locale) WHERE "organizationId" IS NOT NULL
+    `);
+
+    await queryRunner.query(
+      `ALTER TABLE users ADD COLUMN IF NOT EXISTS locale VARCHAR(5)`,
+    );
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`ALTER TABLE users DROP COLUMN IF EXISTS locale`);
+    await queryRunner.query(`DROP TABLE IF EXISTS email_templates`);
+  }
+}
@@ -0,0 +1,42 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+export class CreateOutboundMessages1761342000016 implements MigrationInterface {
+  name = 'CreateOutboundMessages1761342000016';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`
+      CREATE TABLE IF NOT EXISTS outbound_messages (
+        id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+        channel VARCHAR(20) NOT NULL,
+        recipient VARCHAR(255) NOT NULL,
+        purpose VARCHAR(100),
+        subject VARCHAR(500),
+        text TEXT,
+        html TEXT,
+        status VARCHAR(20) NOT NULL DEFAULT 'pending',
+        attempts INT NOT NULL DEFAULT 0,
+        "maxAttempts" INT NOT NULL,
+        "nextAttemptAt" TIMESTAMP NOT NULL DEFAULT now(),
+        "lastAttemptAt" TIMESTAMP,
+        "expiresAt" TIMESTAMP,
+        provider VARCHAR(50),
+        "providerMessageId" VARCHAR(255),
+        "providerAttempts" JSONB NOT NULL DEFAULT '[]',
+        error TEXT,
+        "sentAt" TIMESTAMP,
+        "createdAt" TIMESTAMP NOT NULL DEFAULT now(),
+        "updatedAt" TIMESTAMP NOT NULL DEFAULT now()
+      )
+    `);
+    await queryRunner.query(
+      `CREATE INDEX IF NOT EXISTS idx_outbound_messages_queue ON outbound_messages(status, "nextAttemptAt")`,
+    );
+    await queryRunner.query(
+      `CREATE INDEX IF NOT EXISTS idx_outbound_messages_recipient ON outbound_messages(recipient, "createdAt")`,
+    );
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`DROP TABLE IF EXISTS outbound_messages`);
+  }
+}
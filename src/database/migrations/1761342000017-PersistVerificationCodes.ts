@@ -0,0 +1,47 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+export class PersistVerificationCodes1761342000017
+  implements MigrationInterface
+{
+  name = 'PersistVerificationCodes1761342000017';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    // Открытые коды живут 10 минут: действующие аннулируются, а не пересчитываются в хеш
+    await queryRunner.query(
+      `UPDATE verification_codes SET "isUsed" = true WHERE "isUsed" = false`,
+    );
+    await queryRunner.query(`
+      ALTER TABLE verification_codes
+        DROP COLUMN IF EXISTS code,
+        ADD COLUMN IF NOT EXISTS "codeHash" VARCHAR(64) NOT NULL DEFAULT '',
+        ADD COLUMN IF NOT EXISTS channel VARCHAR(20),
+        ADD COLUMN IF NOT EXISTS "userId" UUID,
+        ADD COLUMN IF NOT EXISTS attempts INT NOT NULL DEFAULT 0,
+        ALTER COLUMN "authMethod" DROP NOT NULL
+    `);
+    await queryRunner.query(
+      `ALTER TABLE verification_codes ALTER COLUMN "codeHash" DROP DEFAULT`,
+    );
+    await queryRunner.query(
+      `CREATE INDEX IF NOT EXISTS idx_verification_codes_lookup ON verification_codes(identifier, purpose, "isUsed")`,
+    );
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(
+      `DROP INDEX IF EXISTS idx_verification_codes_lookup`,
+    );
+    await queryRunner.query(`DELETE FROM verification_codes`);
+    await queryRunner.query(`
+      ALTER TABLE verification_codes
+        DROP COLUMN IF EXISTS "codeHash",
+        DROP COLUMN IF EXISTS channel,
+        DROP COLUMN IF EXISTS "userId",
+        DROP COLUMN IF EXISTS attempts,
+        ADD COLUMN IF NOT EXISTS code VARCHAR(20) NOT NULL
+    `);
+    await queryRunner.query(
+      `CREATE INDEX IF NOT EXISTS "IDX_verification_codes_code_used" ON verification_codes(code, "isUsed")`,
+    );
+  }
+}
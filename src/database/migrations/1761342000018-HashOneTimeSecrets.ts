@@ -0,0 +1,130 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+import {
+  deriveSecretHashKey,
+  hashSecret,
+} from '../../auth/utils/secret-hash';
+
+// Таблицы, где токен пересчитывается в хеш: выданные ссылки и сессии продолжают работать
+const TOKEN_TABLES = [
+  { table: 'refresh_tokens', nullable: false },
+  { table: 'password_reset_tokens', nullable: false },
+  { table: 'email_verification_tokens', nullable: false },
+  { table: 'invitations', nullable: true },
+];
+
+const BATCH_SIZE = 500;
+
+export class HashOneTimeSecrets1761342000018 implements MigrationInterface {
+  name = 'HashOneTimeSecrets1761342000018';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    const key = deriveSecretHashKey(this.encryptionKey());
+
+    for (const { table, nullable } of TOKEN_TABLES) {
+      await queryRunner.query(
+        `ALTER TABLE ${table} ADD COLUMN IF NOT EXISTS "tokenHash" VARCHAR(64)`,
+      );
+
+      for (;;) {
+        const rows = (await queryRunner.query(
+          `SELECT id, token FROM ${table} WHERE token IS NOT NULL AND "tokenHash" IS NULL LIMIT ${BATCH_SIZE}`,
+        )) as Array<{ id: string; token: string }>;
+        if (rows.length === 0) {
+          break;
+        }
+        await queryRunner.query(
+          `UPDATE ${table} AS t SET "tokenHash" = v.hash
+           FROM unnest($1::uuid[], $2::text[]) AS v(id, hash)
+           WHERE t.id = v.id`,
+          [
+            rows.map((row) => row.id),
+            rows.map((row) => hashSecret(key, row.token)),
+          ],
+        );
+      }
+
+      // Вместе с колонкой удаляются её индексы и ограничение уникальности
+      await queryRunner.query(
+        `ALTER TABLE ${table} DROP COLUMN IF EXISTS token`,
+      );
+      if (!nullable) {
+        await queryRunner.query(
+          `ALTER TABLE ${table} ALTER COLUMN "tokenHash" SET NOT NULL`,
+        );
+      }
+      await queryRunner.query(
+        `CREATE UNIQUE INDEX IF NOT EXISTS idx_${table}_token_hash ON ${table}("tokenHash")`,
+      );
+    }
+
+    // Коды 2FA живут минуты: действующие аннулируются, а не пересчитываются
+    await queryRunner.query(
+      `UPDATE two_factor_codes SET status = 'expired' WHERE status = 'pending'`,
+    );
+    await queryRunner.query(`
+      ALTER TABLE two_factor_codes
+        DROP COLUMN IF EXISTS code,
+        ADD COLUMN IF NOT EXISTS "codeHash" VARCHAR(64) NOT NULL DEFAULT ''
+    `);
+    await queryRunner.query(
+      `ALTER TABLE two_factor_codes ALTER COLUMN "codeHash" DROP DEFAULT`,
+    );
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    // Открытые значения не восстановить: всё выданное до отката перестаёт действовать
+    await queryRunner.query(`
+      ALTER TABLE two_factor_codes
+        DROP COLUMN IF EXISTS "codeHash",
+        ADD COLUMN IF NOT EXISTS code VARCHAR(6) NOT NULL DEFAULT '000000'
+    `);
+    await queryRunner.query(
+      `UPDATE two_factor_codes SET status = 'expired' WHERE status = 'pending'`,
+    );
+    await queryRunner.query(
+      `CREATE INDEX IF NOT EXISTS idx_two_factor_codes_code_status ON two_factor_codes(code, status)`,
+    );
+
+    await queryRunner.query(
+      `UPDATE refresh_tokens SET "isRevoked" = true, "revokedReason" = 'secrets_rehashed' WHERE "isRevoked" = false`,
+    );
+    await queryRunner.query(
+      `UPDATE password_reset_tokens SET "usedAt" = now() WHERE "usedAt" IS NULL`,
+    );
+    await queryRunner.query(
+      `UPDATE email_verification_tokens SET "isUsed" = true WHERE "isUsed" = false`,
+    );
+    await queryRunner.query(
+      `UPDATE invitations SET status = 'expired' WHERE status = 'pending'`,
+    );
+
+    for (const { table, nullable } of TOKEN_TABLES) {
+      await queryRunner.query(`DROP INDEX IF EXISTS idx_${table}_token_hash`);
+      await queryRunner.query(
+        `ALTER TABLE ${table} RENAME COLUMN "tokenHash" TO token`,
+      );
+      await queryRunner.query(
+        `ALTER TABLE ${table} ALTER COLUMN token TYPE VARCHAR(255)`,
+      );
+      if (!nullable) {
+        await queryRunner.query(
+          `ALTER TABLE ${table} ALTER COLUMN token SET NOT NULL`,
+        );
+      }
+      await queryRunner.query(
+        `CREATE UNIQUE INDEX IF NOT EXISTS idx_${table}_token ON ${table}(token)`,
+      );
+    }
+  }
+
+  /**
+   * Тот же ключ, что у SecretHashService: иначе пересчитанные хеши не совпадут при поиске
+   */
+  private encryptionKey(): string {
+    const secret = process.env.ENCRYPTION_KEY;
+    if (!secret) {
+      throw new Error('ENCRYPTION_KEY не задан');
+    }
+    return secret;
+  }
+}
@@ -0,0 +1,335 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+import {
+  deriveSecretHashKey,
+  hashSecret,
+} from '../../auth/utils/secret-hash';
+import {
+  AUDIT_CHAIN_SCOPE,
+  AUDIT_GENESIS_HASH,
+  AUDIT_GLOBAL_CHAIN,
+  AuditChainRecord,
+  auditChainPayload,
+} from '../../audit/audit-chain';
+
+const BATCH_SIZE = 500;
+
+// Владелец функции переноса в архив: без входа и без членства, удалять из журнала может только она
+const ARCHIVER_ROLE = 'loginus_audit_archiver';
+
+export class AppendOnlyAuditLog1761342000019 implements MigrationInterface {
+  name = 'AppendOnlyAuditLog1761342000019';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    // Псевдонимы вместо прямой ссылки на пользователя: история переживает удаление аккаунта
+    await queryRunner.query(`
+      CREATE TABLE IF NOT EXISTS audit_actors (
+        id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+        "userId" UUID NULL REFERENCES users(id) ON DELETE SET NULL,
+        "createdAt" TIMESTAMP NOT NULL DEFAULT now()
+      )
+    `);
+    await queryRunner.query(
+      `CREATE INDEX IF NOT EXISTS idx_audit_actors_user_id ON audit_actors("userId")`,
+    );
+    await queryRunner.query(`
+      INSERT INTO audit_actors ("userId")
+      SELECT DISTINCT "userId" FROM audit_logs
+      WHERE "userId" IS NOT NULL
+        AND NOT EXISTS (SELECT 1 FROM audit_actors a WHERE a."userId" = audit_logs."userId")
+    `);
+
+    await queryRunner.query(
+      `ALTER TABLE audit_logs ADD COLUMN IF NOT EXISTS "actorId" UUID NULL`,
+    );
+    await queryRunner.query(`
+      UPDATE audit_logs l SET "actorId" = a.id
+      FROM audit_actors a
+      WHERE a."userId" = l."userId" AND l."actorId" IS NULL
+    `);
+    await queryRunner.query(
+      `ALTER TABLE audit_logs DROP CONSTRAINT IF EXISTS "FK_audit_logs_user_id"`,
+    );
+    await queryRunner.query(`
+      ALTER TABLE audit_logs
+        DROP COLUMN IF EXISTS "userId",
+        DROP COLUMN IF EXISTS "updatedAt"
+    `);
+    await queryRunner.query(
+      `CREATE INDEX IF NOT EXISTS idx_audit_logs_actor_id ON audit_logs("actorId")`,
+    );
+
+    // Цепочки: существующие записи нумеруются по времени создания внутри организации
+    await queryRunner.query(`
+      ALTER TABLE audit_logs
+        ADD COLUMN IF NOT EXISTS chain VARCHAR(36),
+        ADD COLUMN IF NOT EXISTS sequence BIGINT,
+        ADD COLUMN IF NOT EXISTS "prevHash" CHAR(64),
+        ADD COLUMN IF NOT EXISTS hash CHAR(64)
+    `);
+    await queryRunner.query(
+      `UPDATE audit_logs l SET chain = r.chain, sequence = r.sequence
+       FROM (
+         SELECT id,
+                COALESCE("organizationId"::text, $1) AS chain,
+                ROW_NUMBER() OVER (
+                  PARTITION BY COALESCE("organizationId"::text, $1)
+                  ORDER BY "createdAt", id
+                ) AS sequence
+         FROM audit_logs
+       ) AS r
+       WHERE l.id = r.id`,
+      [AUDIT_GLOBAL_CHAIN],
+    );
+    await this.signChains(queryRunner);
+
+    await queryRunner.query(`
+      ALTER TABLE audit_logs
+        ALTER COLUMN chain SET NOT NULL,
+        ALTER COLUMN sequence SET NOT NULL,
+        ALTER COLUMN "prevHash" SET NOT NULL,
+        ALTER COLUMN hash SET NOT NULL
+    `);
+    await queryRunner.query(
+      `CREATE UNIQUE INDEX IF NOT EXISTS idx_audit_logs_chain_sequence ON audit_logs(chain, sequence)`,
+    );
+
+    await queryRunner.query(
+      `CREATE TABLE IF NOT EXISTS audit_logs_archive (LIKE audit_logs INCLUDING ALL)`,
+    );
+
+    await queryRunner.query(`
+      CREATE TABLE IF NOT EXISTS audit_chain_heads (
+        chain VARCHAR(36) PRIMARY KEY,
+        sequence BIGINT NOT NULL DEFAULT 0,
+        hash CHAR(64) NOT NULL,
+        "updatedAt" TIMESTAMP NOT NULL DEFAULT now()
+      )
+    `);
+    await queryRunner.query(`
+      INSERT INTO audit_chain_heads (chain, sequence, hash)
+      SELECT DISTINCT ON (chain) chain, sequence, hash
+      FROM audit_logs
+      ORDER BY chain, sequence DESC
+      ON CONFLICT (chain) DO NOTHING
+    `);
+
+    await this.createArchiveFunction(queryRunner);
+
+    // Изменение и удаление запрещены; удаление из audit_logs допускается только внутри archive_audit_logs
+    await queryRunner.query(`
+      CREATE OR REPLACE FUNCTION audit_logs_append_only() RETURNS trigger AS $$
+      BEGIN
+        IF TG_OP = 'DELETE' AND TG_TABLE_NAME = 'audit_logs'
+           AND current_user = '${ARCHIVER_ROLE}' THEN
+          RETURN OLD;
+        END IF;
+        RAISE EXCEPTION 'Журнал аудита только дополняется: % в % запрещено', TG_OP, TG_TABLE_NAME;
+      END;
+      $$ LANGUAGE plpgsql
+    `);
+    for (const table of ['audit_logs', 'audit_logs_archive']) {
+      await queryRunner.query(
+        `DROP TRIGGER IF EXISTS ${table}_append_only ON ${table}`,
+      );
+      await queryRunner.query(
+        `CREATE TRIGGER ${table}_append_only BEFORE UPDATE OR DELETE ON ${table}
+         FOR EACH ROW EXECUTE FUNCTION audit_logs_append_only()`,
+      );
+      await queryRunner.query(
+        `DROP TRIGGER IF EXISTS ${table}_no_truncate ON ${table}`,
+      );
+      await queryRunner.query(
+        `CREATE TRIGGER ${table}_no_truncate BEFORE TRUNCATE ON ${table}
+         FOR EACH STATEMENT EXECUTE FUNCTION audit_logs_append_only()`,
+      );
+    }
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    for (const table of ['audit_logs', 'audit_logs_archive']) {
+      await queryRunner.query(
+        `DROP TRIGGER IF EXISTS ${table}_append_only ON ${table}`,
+      );
+      await queryRunner.query(
+        `DROP TRIGGER IF EXISTS ${table}_no_truncate ON ${table}`,
+      );
+    }
+    await queryRunner.query(`DROP FUNCTION IF EXISTS audit_logs_append_only()`);
+    await queryRunner.query(
+      `DROP FUNCTION IF EXISTS archive_audit_logs(TIMESTAMP, INTEGER)`,
+    );
+    await queryRunner.query(
+      `REVOKE ALL ON audit_logs, audit_logs_archive FROM ${ARCHIVER_ROLE}`,
+    );
+    await queryRunner.query(`DROP ROLE IF EXISTS ${ARCHIVER_ROLE}`);
+
+    await queryRunner.query(
+      `INSERT INTO audit_logs SELECT * FROM audit_logs_archive ON CONFLICT DO NOTHING`,
+    );
+    await queryRunner.query(`DROP TABLE IF EXISTS audit_logs_archive`);
+    await queryRunner.query(`DROP TABLE IF EXISTS audit_chain_heads`);
+
+    // Записи удалённых пользователей и анонимные сохраняются: "userId" остаётся необязательным,
+    // а связь с пользователем при удалении аккаунта обнуляется, а не удаляет историю
+    await queryRunner.query(`
+      ALTER TABLE audit_logs
+        ADD COLUMN IF NOT EXISTS "userId" UUID NULL,
+        ADD COLUMN IF NOT EXISTS "updatedAt" TIMESTAMP NOT NULL DEFAULT now()
+    `);
+    await queryRunner.query(`
+      UPDATE audit_logs l SET "userId" = a."userId"
+      FROM audit_actors a
+      WHERE a.id = l."actorId"
+    `);
+    await queryRunner.query(`
+      ALTER TABLE audit_logs
+      ADD CONSTRAINT "FK_audit_logs_user_id"
+      FOREIGN KEY ("userId") REFERENCES users(id) ON DELETE SET NULL
+    `);
+
+    await queryRunner.query(
+      `DROP INDEX IF EXISTS idx_audit_logs_chain_sequence`,
+    );
+    await queryRunner.query(`DROP INDEX IF EXISTS idx_audit_logs_actor_id`);
+    await queryRunner.query(`
+      ALTER TABLE audit_logs
+        DROP COLUMN IF EXISTS "actorId",
+        DROP COLUMN IF EXISTS chain,
+        DROP COLUMN IF EXISTS sequence,
+        DROP COLUMN IF EXISTS "prevHash",
+        DROP COLUMN IF EXISTS hash
+    `);
+    await queryRunner.query(
+      `CREATE INDEX IF NOT EXISTS idx_audit_logs_user_id ON audit_logs("userId")`,
+    );
+    await queryRunner.query(
+      `CREATE INDEX IF NOT EXISTS idx_audit_logs_user_service ON audit_logs("userId", service)`,
+    );
+    await queryRunner.query(
+      `CREATE INDEX IF NOT EXISTS idx_audit_logs_user_created ON audit_logs("userId", "createdAt")`,
+    );
+    await queryRunner.query(`DROP TABLE IF EXISTS audit_actors`);
+  }
+
+  /**
+   * Перенос в архив через SECURITY DEFINER функцию отдельной роли: сессия приложения не может
+   * удалить записи напрямую, а функция только переносит их в audit_logs_archive
+   */
+  private async createArchiveFunction(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`
+      DO $$
+      BEGIN
+        IF NOT EXISTS (SELECT 1 FROM pg_roles WHERE rolname = '${ARCHIVER_ROLE}') THEN
+          CREATE ROLE ${ARCHIVER_ROLE} NOLOGIN;
+        END IF;
+      END
+      $$
+    `);
+    await queryRunner.query(
+      `GRANT SELECT, DELETE ON audit_logs TO ${ARCHIVER_ROLE}`,
+    );
+    await queryRunner.query(
+      `GRANT INSERT ON audit_logs_archive TO ${ARCHIVER_ROLE}`,
+    );
+
+    // Колонки берутся из архива: миграции добавляют их в обе таблицы
+    await queryRunner.query(`
+      CREATE OR REPLACE FUNCTION archive_audit_logs(archive_before TIMESTAMP, batch_size INTEGER)
+      RETURNS INTEGER
+      LANGUAGE plpgsql
+      SECURITY DEFINER
+      SET search_path FROM CURRENT
+      AS $$
+      DECLARE
+        columns TEXT;
+        moved INTEGER;
+      BEGIN
+        SELECT string_agg(quote_ident(attname), ', ' ORDER BY attnum) INTO columns
+        FROM pg_attribute
+        WHERE attrelid = 'audit_logs_archive'::regclass AND attnum > 0 AND NOT attisdropped;
+
+        EXECUTE format(
+          'WITH moved AS (
+             DELETE FROM audit_logs
+             WHERE id IN (SELECT id FROM audit_logs WHERE "createdAt" < $1 LIMIT $2)
+             RETURNING %1$s
+           )
+           INSERT INTO audit_logs_archive (%1$s) SELECT %1$s FROM moved',
+          columns
+        ) USING archive_before, batch_size;
+        GET DIAGNOSTICS moved = ROW_COUNT;
+        RETURN moved;
+      END;
+      $$
+    `);
+    await queryRunner.query(
+      `REVOKE ALL ON FUNCTION archive_audit_logs(TIMESTAMP, INTEGER) FROM PUBLIC`,
+    );
+    await queryRunner.query(
+      `GRANT EXECUTE ON FUNCTION archive_audit_logs(TIMESTAMP, INTEGER) TO CURRENT_USER`,
+    );
+
+    // Для смены владельца нужно членство в роли; после этого оно отзывается
+    await queryRunner.query(`GRANT ${ARCHIVER_ROLE} TO CURRENT_USER`);
+    await queryRunner.query(
+      `ALTER FUNCTION archive_audit_logs(TIMESTAMP, INTEGER) OWNER TO ${ARCHIVER_ROLE}`,
+    );
+    await queryRunner.query(`REVOKE ${ARCHIVER_ROLE} FROM CURRENT_USER`);
+  }
+
+  /**
+   * Подпись существующих записей тем же ключом и в том же виде, что и AuditService
+   */
+  private async signChains(queryRunner: QueryRunner): Promise<void> {
+    const key = deriveSecretHashKey(this.encryptionKey());
+    const chains = (await queryRunner.query(
+      `SELECT DISTINCT chain FROM audit_logs`,
+    )) as Array<{ chain: string }>;
+
+    for (const { chain } of chains) {
+      let prevHash = AUDIT_GENESIS_HASH;
+      let lastSequence = 0;
+      for (;;) {
+        const rows = (await queryRunner.query(
+          `SELECT * FROM audit_logs WHERE chain = $1 AND sequence > $2 ORDER BY sequence LIMIT ${BATCH_SIZE}`,
+          [chain, lastSequence],
+        )) as Array<AuditChainRecord & { id: string }>;
+        if (rows.length === 0) {
+          break;
+        }
+
+        const prevHashes: string[] = [];
+        const hashes: string[] = [];
+        for (const row of rows) {
+          const hash = hashSecret(
+            key,
+            auditChainPayload({ ...row, prevHash }),
+            AUDIT_CHAIN_SCOPE,
+          );
+          prevHashes.push(prevHash);
+          hashes.push(hash);
+          prevHash = hash;
+          lastSequence = Number(row.sequence);
+        }
+
+        await queryRunner.query(
+          `UPDATE audit_logs AS l SET "prevHash" = v.prev_hash, hash = v.hash
+           FROM unnest($1::uuid[], $2::text[], $3::text[]) AS v(id, prev_hash, hash)
+           WHERE l.id = v.id`,
+          [rows.map((row) => row.id), prevHashes, hashes],
+        );
+      }
+    }
+  }
+
+  /**
+   * Тот же ключ, что у SecretHashService: иначе проверка цепочки не сойдётся
+   */
+  private encryptionKey(): string {
+    const secret = process.env.ENCRYPTION_KEY;
+    if (!secret) {
+      throw new Error('ENCRYPTION_KEY не задан');
+    }
+    return secret;
+  }
+}
@@ -0,0 +1,26 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+export class AddAuditEventFields1761342000020 implements MigrationInterface {
+  name = 'AddAuditEventFields1761342000020';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    // Архив получает те же колонки в том же порядке: проверка цепочки читает обе таблицы через UNION ALL
+    for (const table of ['audit_logs', 'audit_logs_archive']) {
+      await queryRunner.query(`
+        ALTER TABLE ${table}
+          ADD COLUMN IF NOT EXISTS outcome VARCHAR(20) NULL,
+          ADD COLUMN IF NOT EXISTS changes JSONB NULL
+      `);
+    }
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    for (const table of ['audit_logs', 'audit_logs_archive']) {
+      await queryRunner.query(`
+        ALTER TABLE ${table}
+          DROP COLUMN IF EXISTS outcome,
+          DROP COLUMN IF EXISTS changes
+      `);
+    }
+  }
+}
@@ -0,0 +1,44 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+export class CreateAuditSavedQueries1761342000021
+  implements MigrationInterface
+{
+  name = 'CreateAuditSavedQueries1761342000021';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`
+      CREATE TABLE IF NOT EXISTS audit_saved_queries (
+        id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+        "organizationId" UUID NOT NULL REFERENCES organizations(id) ON DELETE CASCADE,
+        name VARCHAR(100) NOT NULL,
+        filters JSONB NOT NULL DEFAULT '{}',
+        "createdBy" UUID,
+        "createdAt" TIMESTAMP NOT NULL DEFAULT now(),
+        "updatedAt" TIMESTAMP NOT NULL DEFAULT now()
+      )
+    `);
+    await queryRunner.query(
+      `CREATE UNIQUE INDEX IF NOT EXISTS idx_audit_saved_queries_organization_name ON audit_saved_queries("organizationId", name)`,
+    );
+
+    // Поиск по журналу организации идёт внутри её цепочки
+    for (const table of ['audit_logs', 'audit_logs_archive']) {
+      await queryRunner.query(
+        `CREATE INDEX IF NOT EXISTS idx_${table}_chain_action ON ${table}(chain, action)`,
+      );
+      await queryRunner.query(
+        `CREATE INDEX IF NOT EXISTS idx_${table}_chain_resource ON ${table}(chain, resource, "resourceId")`,
+      );
+    }
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    for (const table of ['audit_logs', 'audit_logs_archive']) {
+      await queryRunner.query(`DROP INDEX IF EXISTS idx_${table}_chain_action`);
+      await queryRunner.query(
+        `DROP INDEX IF EXISTS idx_${table}_chain_resource`,
+      );
+    }
+    await queryRunner.query(`DROP TABLE IF EXISTS audit_saved_queries`);
+  }
+}
@@ -0,0 +1,35 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+export class CreateLoginRiskAssessments1761342000022
+  implements MigrationInterface
+{
+  name = 'CreateLoginRiskAssessments1761342000022';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`
+      CREATE TABLE IF NOT EXISTS login_risk_assessments (
+        id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+        "userId" UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+        channel VARCHAR(20) NOT NULL,
+        "ipAddress" VARCHAR(50),
+        subnet VARCHAR(64),
+        "deviceFingerprint" VARCHAR(64),
+        "userAgent" VARCHAR(500),
+        hour SMALLINT NOT NULL,
+        score INT NOT NULL DEFAULT 0,
+        signals JSONB NOT NULL DEFAULT '[]',
+        decision VARCHAR(20) NOT NULL,
+        status VARCHAR(20) NOT NULL,
+        "resolvedAt" TIMESTAMP,
+        "createdAt" TIMESTAMP NOT NULL DEFAULT now()
+      )
+    `);
+    await queryRunner.query(
+      `CREATE INDEX IF NOT EXISTS idx_login_risk_assessments_user_created ON login_risk_assessments("userId", "createdAt")`,
+    );
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`DROP TABLE IF EXISTS login_risk_assessments`);
+  }
+}
@@ -0,0 +1,37 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+export class CreateDataSubjectRequests1761342000023
+  implements MigrationInterface
+{
+  name = 'CreateDataSubjectRequests1761342000023';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`
+      CREATE TABLE IF NOT EXISTS data_subject_requests (
+        id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+        "userId" UUID NOT NULL,
+        type VARCHAR(20) NOT NULL,
+        status VARCHAR(20) NOT NULL,
+        format VARCHAR(10),
+        reason TEXT,
+        "scheduledFor" TIMESTAMP,
+        "reviewedBy" UUID,
+        "reviewedAt" TIMESTAMP,
+        "reviewComment" TEXT,
+        "completedAt" TIMESTAMP,
+        "createdAt" TIMESTAMP NOT NULL DEFAULT now(),
+        "updatedAt" TIMESTAMP NOT NULL DEFAULT now()
+      )
+    `);
+    await queryRunner.query(
+      `CREATE INDEX IF NOT EXISTS idx_data_subject_requests_user_created ON data_subject_requests("userId", "createdAt")`,
+    );
+    await queryRunner.query(
+      `CREATE INDEX IF NOT EXISTS idx_data_subject_requests_status_scheduled ON data_subject_requests(status, "scheduledFor")`,
+    );
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`DROP TABLE IF EXISTS data_subject_requests`);
+  }
+}
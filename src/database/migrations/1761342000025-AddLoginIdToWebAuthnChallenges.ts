@@ -0,0 +1,21 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+export class AddLoginIdToWebAuthnChallenges1761342000025
+  implements MigrationInterface
+{
+  name = 'AddLoginIdToWebAuthnChallenges1761342000025';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    // Challenge второго фактора выдаётся только под незавершённый вход по паролю
+    await queryRunner.query(`
+      ALTER TABLE webauthn_challenges
+        ADD COLUMN IF NOT EXISTS "loginId" UUID NULL REFERENCES pending_logins(id) ON DELETE CASCADE
+    `);
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(
+      `ALTER TABLE webauthn_challenges DROP COLUMN IF EXISTS "loginId"`,
+    );
+  }
+}
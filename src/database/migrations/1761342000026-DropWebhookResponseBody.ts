@@ -0,0 +1,20 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+export class DropWebhookResponseBody1761342000026
+  implements MigrationInterface
+{
+  name = 'DropWebhookResponseBody1761342000026';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    // Журнал доставок хранит только код ответа: тело ответа получателя не читается
+    await queryRunner.query(
+      `ALTER TABLE webhook_deliveries DROP COLUMN IF EXISTS "responseBody"`,
+    );
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(
+      `ALTER TABLE webhook_deliveries ADD COLUMN IF NOT EXISTS "responseBody" TEXT`,
+    );
+  }
+}
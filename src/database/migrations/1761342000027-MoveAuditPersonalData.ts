@@ -0,0 +1,235 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+import { deriveSecretHashKey, hashSecret } from '../../auth/utils/secret-hash';
+import {
+  AUDIT_CHAIN_SCOPE,
+  AUDIT_GENESIS_HASH,
+  AUDIT_PERSONAL_DATA_SCOPE,
+  AuditChainRecord,
+  AuditPersonalDataRecord,
+  auditChainPayload,
+  auditPersonalDataPayload,
+  canonicalJson,
+} from '../../audit/audit-chain';
+
+const BATCH_SIZE = 500;
+const AUDIT_TABLES = ['audit_logs', 'audit_logs_archive'];
+
+type StoredRecord = AuditChainRecord &
+  AuditPersonalDataRecord & { id: string; salt: string | null };
+
+export class MoveAuditPersonalData1761342000027 implements MigrationInterface {
+  name = 'MoveAuditPersonalData1761342000027';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    // Персональные данные отдельно от цепочки: удаляются вместе с пользователем, подпись остаётся верной
+    await queryRunner.query(`
+      CREATE TABLE IF NOT EXISTS audit_personal_data (
+        "auditLogId" UUID PRIMARY KEY,
+        "userIds" TEXT[] NOT NULL,
+        salt CHAR(32) NOT NULL,
+        "ipAddress" VARCHAR(50) NULL,
+        "userAgent" VARCHAR(500) NULL,
+        "requestData" JSONB NULL,
+        changes JSONB NULL
+      )
+    `);
+    await queryRunner.query(
+      `CREATE INDEX IF NOT EXISTS idx_audit_personal_data_user_ids ON audit_personal_data USING GIN ("userIds")`,
+    );
+    for (const table of AUDIT_TABLES) {
+      await queryRunner.query(
+        `ALTER TABLE ${table} ADD COLUMN IF NOT EXISTS "personalDataHash" CHAR(64) NULL`,
+      );
+
+      // Данные уже удалённых пользователей (псевдоним отвязан или аккаунта-цели нет) не переносятся
+      await queryRunner.query(`
+        INSERT INTO audit_personal_data ("auditLogId", "userIds", salt, "ipAddress", "userAgent", "requestData", changes)
+        SELECT audit.id,
+               ARRAY(
+                 SELECT DISTINCT subject
+                 FROM unnest(ARRAY[
+                   actor."userId"::text,
+                   CASE WHEN audit.resource = 'user' THEN audit."resourceId" END
+                 ]) AS subject
+                 WHERE subject IS NOT NULL
+               ),
+               replace(gen_random_uuid()::text, '-', ''),
+               audit."ipAddress", audit."userAgent", audit."requestData", audit.changes
+        FROM ${table} audit
+        LEFT JOIN audit_actors actor ON actor.id = audit."actorId"
+        WHERE (audit."ipAddress" IS NOT NULL OR audit."userAgent" IS NOT NULL
+               OR audit."requestData" IS NOT NULL OR audit.changes IS NOT NULL)
+          AND NOT (actor.id IS NOT NULL AND actor."userId" IS NULL)
+          AND NOT (audit.resource = 'user' AND NOT EXISTS (
+            SELECT 1 FROM users WHERE users.id::text = audit."resourceId"
+          ))
+        ON CONFLICT ("auditLogId") DO NOTHING
+      `);
+    }
+
+    await this.signChains(queryRunner, (row, key) => {
+      row.personalDataHash = row.salt
+        ? hashSecret(
+            key,
+            auditPersonalDataPayload(row.salt, row),
+            AUDIT_PERSONAL_DATA_SCOPE,
+          )
+        : null;
+      return auditChainPayload(row);
+    });
+
+    for (const table of AUDIT_TABLES) {
+      await queryRunner.query(`
+        ALTER TABLE ${table}
+          DROP COLUMN IF EXISTS "ipAddress",
+          DROP COLUMN IF EXISTS "userAgent",
+          DROP COLUMN IF EXISTS "requestData",
+          DROP COLUMN IF EXISTS changes
+      `);
+    }
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    for (const table of AUDIT_TABLES) {
+      await queryRunner.query(`
+        ALTER TABLE ${table}
+          ADD COLUMN IF NOT EXISTS "ipAddress" VARCHAR(50) NULL,
+          ADD COLUMN IF NOT EXISTS "userAgent" VARCHAR(500) NULL,
+          ADD COLUMN IF NOT EXISTS "requestData" JSONB NULL,
+          ADD COLUMN IF NOT EXISTS changes JSONB NULL
+      `);
+      await this.withoutAppendOnly(queryRunner, () =>
+        queryRunner.query(`
+          UPDATE ${table} audit
+          SET "ipAddress" = data."ipAddress", "userAgent" = data."userAgent",
+              "requestData" = data."requestData", changes = data.changes
+          FROM audit_personal_data data
+          WHERE data."auditLogId" = audit.id
+        `),
+      );
+    }
+
+    // Прежний вид подписи: персональные поля внутри записи, changes - только при наличии
+    await this.signChains(queryRunner, (row) => {
+      row.personalDataHash = null;
+      return canonicalJson({
+        ...(JSON.parse(auditChainPayload(row)) as Record<string, unknown>),
+        ipAddress: row.ipAddress ?? null,
+        userAgent: row.userAgent ?? null,
+        requestData: row.requestData ?? null,
+        changes: row.changes ?? undefined,
+      });
+    });
+
+    for (const table of AUDIT_TABLES) {
+      await queryRunner.query(
+        `ALTER TABLE ${table} DROP COLUMN IF EXISTS "personalDataHash"`,
+      );
+    }
+    await queryRunner.query(`DROP TABLE IF EXISTS audit_personal_data`);
+  }
+
+  /**
+   * Переподпись журнала и архива тем же ключом, что у AuditService. Голова цепочки получает хеш последней записи
+   */
+  private async signChains(
+    queryRunner: QueryRunner,
+    payload: (row: StoredRecord, key: Buffer) => string,
+  ): Promise<void> {
+    const key = deriveSecretHashKey(this.encryptionKey());
+    const chains = (await queryRunner.query(
+      `SELECT chain FROM audit_logs UNION SELECT chain FROM audit_logs_archive`,
+    )) as Array<{ chain: string }>;
+
+    await this.withoutAppendOnly(queryRunner, async () => {
+      for (const { chain } of chains) {
+        let prevHash = AUDIT_GENESIS_HASH;
+        let lastSequence = 0;
+        for (;;) {
+          const rows = (await queryRunner.query(
+            `SELECT records.*, data.salt
+             FROM (
+               SELECT * FROM audit_logs_archive
+               UNION ALL
+               SELECT * FROM audit_logs
+             ) AS records
+             LEFT JOIN audit_personal_data data ON data."auditLogId" = records.id
+             WHERE records.chain = $1 AND records.sequence > $2
+             ORDER BY records.sequence
+             LIMIT ${BATCH_SIZE}`,
+            [chain, lastSequence],
+          )) as StoredRecord[];
+          if (rows.length === 0) {
+            break;
+          }
+
+          const prevHashes: string[] = [];
+          const hashes: string[] = [];
+          for (const row of rows) {
+            row.prevHash = prevHash;
+            const hash = hashSecret(key, payload(row, key), AUDIT_CHAIN_SCOPE);
+            prevHashes.push(prevHash);
+            hashes.push(hash);
+            prevHash = hash;
+            lastSequence = Number(row.sequence);
+          }
+
+          for (const table of AUDIT_TABLES) {
+            await queryRunner.query(
+              `UPDATE ${table} AS l
+               SET "prevHash" = v.prev_hash, hash = v.hash, "personalDataHash" = v.personal_data_hash
+               FROM unnest($1::uuid[], $2::text[], $3::text[], $4::text[])
+                 AS v(id, prev_hash, hash, personal_data_hash)
+               WHERE l.id = v.id`,
+              [
+                rows.map((row) => row.id),
+                prevHashes,
+                hashes,
+                rows.map((row) => row.personalDataHash ?? null),
+              ],
+            );
+          }
+        }
+
+        await queryRunner.query(
+          `UPDATE audit_chain_heads SET hash = $3 WHERE chain = $1 AND sequence = $2`,
+          [chain, lastSequence, prevHash],
+        );
+      }
+    });
+  }
+
+  /**
+   * Триггер запрещает изменение записей; миграция владельца таблиц отключает его на время переподписи
+   */
+  private async withoutAppendOnly(
+    queryRunner: QueryRunner,
+    run: () => Promise<unknown>,
+  ): Promise<void> {
+    for (const table of AUDIT_TABLES) {
+      await queryRunner.query(
+        `ALTER TABLE ${table} DISABLE TRIGGER ${table}_append_only`,
+      );
+    }
+    try {
+      await run();
+    } finally {
+      for (const table of AUDIT_TABLES) {
+        await queryRunner.query(
+          `ALTER TABLE ${table} ENABLE TRIGGER ${table}_append_only`,
+        );
+      }
+    }
+  }
+
+  /**
+   * Тот же ключ, что у SecretHashService: иначе проверка цепочки не сойдётся
+   */
+  private encryptionKey(): string {
+    const secret = process.env.ENCRYPTION_KEY;
+    if (!secret) {
+      throw new Error('ENCRYPTION_KEY не задан');
+    }
+    return secret;
+  }
+}
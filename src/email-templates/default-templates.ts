@@ -0,0 +1,382 @@
+import { EmailLocale, EmailTemplateKey } from './enums/email-template-key.enum';
+
+export interface EmailTemplateContent {
+  subject: string;
+  html: string;
+  text?: string | null; // Без текста текстовая часть строится из HTML
+}
+
+export interface EmailTemplateDefinition {
+  description: string;
+  variables: string[];
+  credential?: boolean; // Код или ссылка входа: организации не переопределяют, иначе уведут секрет
+  sample: Record<string, unknown>; // Значения для предпросмотра и тестовой отправки
+  locales: Record<EmailLocale, EmailTemplateContent>;
+}
+
+// Доступны в любом шаблоне, заполняются сервисом
+export const COMMON_TEMPLATE_VARIABLES = [
+  'appName',
+  'year',
+  'supportEmail',
+  'recipient.email',
+  'recipient.firstName',
+  'recipient.lastName',
+];
+
+const STYLES = `
+  body { font-family: Arial, sans-serif; background-color: #f4f4f4; margin: 0; padding: 0; }
+  .container { max-width: 600px; margin: 20px auto; background-color: #ffffff; padding: 20px; border-radius: 8px; box-shadow: 0 0 10px rgba(0, 0, 0, 0.1); }
+  .header { text-align: center; padding-bottom: 20px; border-bottom: 1px solid #eeeeee; }
+  .content { padding: 20px 0; text-align: center; }
+  .code { font-size: 32px; font-weight: bold; color: #007bff; margin: 20px 0; padding: 10px 20px; background-color: #e9f5ff; border-radius: 4px; display: inline-block; letter-spacing: 4px; }
+  .button { display: inline-block; background: #4F46E5; color: white; padding: 15px 30px; text-decoration: none; border-radius: 8px; font-weight: bold; margin: 20px 0; }
+  .note { background: #FEF3C7; border: 1px solid #F59E0B; padding: 15px; border-radius: 8px; margin: 20px 0; text-align: left; }
+  .link { word-break: break-all; background: #f8f9fa; padding: 10px; border-radius: 4px; font-family: monospace; font-size: 12px; margin: 10px 0; }
+  .footer { text-align: center; padding-top: 20px; border-top: 1px solid #eeeeee; font-size: 12px; color: #888888; }
+`;
+
+const FOOTER: Record<EmailLocale, string> = {
+  ru: '<p>&copy; {{year}} {{appName}}. Все права защищены.</p><p>Служба поддержки: <a href="mailto:{{supportEmail}}">{{supportEmail}}</a></p>',
+  en: '<p>&copy; {{year}} {{appName}}. All rights reserved.</p><p>Support: <a href="mailto:{{supportEmail}}">{{supportEmail}}</a></p>',
+};
+
+function layout(locale: EmailLocale, heading: string, body: string): string {
+  return `<!DOCTYPE html>
+<html lang="${locale}">
+<head>
+  <meta charset="utf-8">
+  <title>${heading}</title>
+  <style>${STYLES}</style>
+</head>
+<body>
+  <div class="container">
+    <div class="header"><h1>${heading}</h1></div>
+    <div class="content">
+${body}
+    </div>
+    <div class="footer">${FOOTER[locale]}</div>
+  </div>
+</body>
+</html>`;
+}
+
+const GREETING: Record<EmailLocale, string> = {
+  ru: '<p>Здравствуйте{{#if recipient.firstName}}, {{recipient.firstName}}{{/if}}!</p>',
+  en: '<p>Hello{{#if recipient.firstName}}, {{recipient.firstName}}{{/if}}!</p>',
+};
+
+/**
+ * Встроенные шаблоны. Организации и администратор системы переопределяют их в email_templates
+ */
+export const DEFAULT_EMAIL_TEMPLATES: Record<
+  EmailTemplateKey,
+  EmailTemplateDefinition
+> = {
+  [EmailTemplateKey.VERIFICATION_CODE]: {
+    description: 'Код подтверждения (2FA, подтверждение контакта)',
+    variables: ['code', 'expiresMinutes'],
+    credential: true,
+    sample: { code: '123456', expiresMinutes: 10 },
+    locales: {
+      ru: {
+        subject: 'Код подтверждения {{appName}}',
+        html: layout(
+          'ru',
+          'Код подтверждения',
+          `${GREETING.ru}
+      <p>Используйте этот код для подтверждения:</p>
+      <div class="code">{{code}}</div>
+      <p>Код действителен {{expiresMinutes}} минут.</p>
+      <p><strong>Никому не сообщайте этот код.</strong> Сотрудники {{appName}} никогда его не спрашивают.</p>
+      <p>Если вы не запрашивали код, проигнорируйте это письмо.</p>`,
+        ),
+      },
+      en: {
+        subject: '{{appName}} verification code',
+        html: layout(
+          'en',
+          'Verification code',
+          `${GREETING.en}
+      <p>Use this code to confirm the action:</p>
+      <div class="code">{{code}}</div>
+      <p>The code is valid for {{expiresMinutes}} minutes.</p>
+      <p><strong>Never share this code.</strong> {{appName}} staff will never ask for it.</p>
+      <p>If you did not request the code, please ignore this email.</p>`,
+        ),
+      },
+    },
+  },
+
+  [EmailTemplateKey.LOGIN_CODE]: {
+    description: 'Код для входа по email',
+    variables: ['code', 'expiresMinutes'],
+    credential: true,
+    sample: { code: '654321', expiresMinutes: 10 },
+    locales: {
+      ru: {
+        subject: 'Код для входа в {{appName}}',
+        html: layout(
+          'ru',
+          'Код для входа',
+          `${GREETING.ru}
+      <p>Ваш код для входа в систему:</p>
+      <div class="code">{{code}}</div>
+      <p>Код действителен {{expiresMinutes}} минут.</p>
+      <p>Если вы не запрашивали код для входа, проигнорируйте это письмо.</p>`,
+        ),
+      },
+      en: {
+        subject: 'Your {{appName}} sign-in code',
+        html: layout(
+          'en',
+          'Sign-in code',
+          `${GREETING.en}
+      <p>Your sign-in code:</p>
+      <div class="code">{{code}}</div>
+      <p>The code is valid for {{expiresMinutes}} minutes.</p>
+      <p>If you did not try to sign in, please ignore this email.</p>`,
+        ),
+      },
+    },
+  },
+
+  [EmailTemplateKey.EMAIL_VERIFICATION]: {
+    description: 'Подтверждение email после регистрации',
+    variables: ['verificationLink'],
+    credential: true,
+    sample: {
+      verificationLink: 'https://example.com/verify-email?token=sample',
+    },
+    locales: {
+      ru: {
+        subject: 'Подтверждение email - {{appName}}',
+        html: layout(
+          'ru',
+          'Подтверждение email',
+          `${GREETING.ru}
+      <p>Для завершения регистрации подтвердите ваш email адрес:</p>
+      <div><a href="{{verificationLink}}" class="button">Подтвердить email</a></div>
+      <div class="note">
+        <ul>
+          <li>После подтверждения вы получите дополнительные права доступа</li>
+          <li>Ссылка действительна <strong>24 часа</strong></li>
+        </ul>
+      </div>
+      <p>Если кнопка не работает, скопируйте ссылку в браузер:</p>
+      <div class="link">{{verificationLink}}</div>
+      <p>Если вы не регистрировались в {{appName}}, проигнорируйте это письмо.</p>`,
+        ),
+      },
+      en: {
+        subject: 'Confirm your email - {{appName}}',
+        html: layout(
+          'en',
+          'Email confirmation',
+          `${GREETING.en}
+      <p>Please confirm your email address to complete the registration:</p>
+      <div><a href="{{verificationLink}}" class="button">Confirm email</a></div>
+      <div class="note">
+        <ul>
+          <li>Confirmed accounts get additional permissions</li>
+          <li>The link is valid for <strong>24 hours</strong></li>
+        </ul>
+      </div>
+      <p>If the button does not work, copy this link into your browser:</p>
+      <div class="link">{{verificationLink}}</div>
+      <p>If you did not sign up for {{appName}}, please ignore this email.</p>`,
+        ),
+      },
+    },
+  },
+
+  [EmailTemplateKey.PASSWORD_RESET]: {
+    description: 'Ссылка для восстановления пароля',
+    variables: ['resetLink'],
+    credential: true,
+    sample: { resetLink: 'https://example.com/reset-password?token=sample' },
+    locales: {
+      ru: {
+        subject: 'Восстановление пароля - {{appName}}',
+        html: layout(
+          'ru',
+          'Восстановление пароля',
+          `${GREETING.ru}
+      <p>Вы запросили восстановление пароля. Для создания нового пароля нажмите на кнопку:</p>
+      <div><a href="{{resetLink}}" class="button">Восстановить пароль</a></div>
+      <div class="note">
+        <ul>
+          <li>Ссылка действительна <strong>30 минут</strong></li>
+          <li>Ссылку можно использовать <strong>только один раз</strong></li>
+          <li>Если вы не запрашивали восстановление пароля, проигнорируйте это письмо</li>
+        </ul>
+      </div>
+      <p>Если кнопка не работает, скопируйте ссылку в браузер:</p>
+      <div class="link">{{resetLink}}</div>`,
+        ),
+      },
+      en: {
+        subject: 'Password reset - {{appName}}',
+        html: layout(
+          'en',
+          'Password reset',
+          `${GREETING.en}
+      <p>You requested a password reset. Click the button to choose a new password:</p>
+      <div><a href="{{resetLink}}" class="button">Reset password</a></div>
+      <div class="note">
+        <ul>
+          <li>The link is valid for <strong>30 minutes</strong></li>
+          <li>The link can be used <strong>only once</strong></li>
+          <li>If you did not request a reset, please ignore this email</li>
+        </ul>
+      </div>
+      <p>If the button does not work, copy this link into your browser:</p>
+      <div class="link">{{resetLink}}</div>`,
+        ),
+      },
+    },
+  },
+
+  [EmailTemplateKey.ACCOUNT_LOCKED]: {
+    description: 'Временная блокировка входа после неудачных попыток',
+    variables: ['unlockLink', 'lockedUntil'],
+    credential: true,
+    sample: {
+      unlockLink: 'https://example.com/unlock?token=sample',
+      lockedUntil: new Date('2030-01-01T12:00:00Z'),
+    },
+    locales: {
+      ru: {
+        subject: 'Вход в аккаунт временно заблокирован - {{appName}}',
+        html: layout(
+          'ru',
+          'Вход временно заблокирован',
+          `${GREETING.ru}
+      <p>Мы зафиксировали несколько неудачных попыток входа в ваш аккаунт и заблокировали вход до {{lockedUntil}}.</p>
+      <p>Если это были вы, разблокируйте аккаунт по ссылке:</p>
+      <div><a href="{{unlockLink}}" class="button">Разблокировать аккаунт</a></div>
+      <p>Если это были не вы, рекомендуем сменить пароль.</p>`,
+        ),
+      },
+      en: {
+        subject: 'Sign-in temporarily locked - {{appName}}',
+        html: layout(
+          'en',
+          'Sign-in temporarily locked',
+          `${GREETING.en}
+      <p>We noticed several failed sign-in attempts and locked sign-in to your account until {{lockedUntil}}.</p>
+      <p>If it was you, unlock the account using this link:</p>
+      <div><a href="{{unlockLink}}" class="button">Unlock account</a></div>
+      <p>If it was not you, we recommend changing your password.</p>`,
+        ),
+      },
+    },
+  },
+
+  [EmailTemplateKey.LOGIN_ALERT]: {
+    description: 'Необычный вход в аккаунт со ссылкой «Это был не я»',
+    variables: ['device', 'ipAddress', 'loginTime', 'blocked', 'notMeLink'],
+    credential: true,
+    sample: {
+      device: 'Chrome, Windows',
+      ipAddress: '203.0.113.10',
+      loginTime: new Date('2030-01-01T12:00:00Z'),
+      blocked: false,
+      notMeLink: 'https://example.com/not-me?token=sample',
+    },
+    locales: {
+      ru: {
+        subject: 'Необычный вход в аккаунт - {{appName}}',
+        html: layout(
+          'ru',
+          'Необычный вход в аккаунт',
+          `${GREETING.ru}
+      {{#if blocked}}<p>Мы заблокировали подозрительную попытку входа в ваш аккаунт с верным паролем.</p>{{else}}<p>В ваш аккаунт выполнен вход, который отличается от обычных.</p>{{/if}}
+      <p>Устройство: {{device}}<br>IP-адрес: {{ipAddress}}<br>Время: {{loginTime}}</p>
+      <p>Если это были вы, ничего делать не нужно. Если нет - завершите все сессии и смените пароль:</p>
+      <div><a href="{{notMeLink}}" class="button">Это был не я</a></div>`,
+        ),
+      },
+      en: {
+        subject: 'Unusual sign-in to your account - {{appName}}',
+        html: layout(
+          'en',
+          'Unusual sign-in',
+          `${GREETING.en}
+      {{#if blocked}}<p>We blocked a suspicious sign-in attempt to your account made with the correct password.</p>{{else}}<p>Someone signed in to your account in a way that differs from your usual sign-ins.</p>{{/if}}
+      <p>Device: {{device}}<br>IP address: {{ipAddress}}<br>Time: {{loginTime}}</p>
+      <p>If it was you, no action is needed. If not, end all sessions and change your password:</p>
+      <div><a href="{{notMeLink}}" class="button">This wasn't me</a></div>`,
+        ),
+      },
+    },
+  },
+
+  [EmailTemplateKey.INVITATION]: {
+    description: 'Приглашение в организацию или команду',
+    variables: [
+      'inviterName',
+      'inviterEmail',
+      'organizationName',
+      'teamName',
+      'message',
+      'loginUrl',
+      'expiresAt',
+    ],
+    sample: {
+      inviterName: 'Иван Петров',
+      inviterEmail: 'ivan@example.com',
+      organizationName: 'ООО Ромашка',
+      teamName: 'Разработка',
+      message: '',
+      loginUrl: 'https://example.com',
+      expiresAt: new Date('2030-01-08T12:00:00Z'),
+    },
+    locales: {
+      ru: {
+        subject:
+          'Приглашение в {{#if teamName}}команду "{{teamName}}"{{else}}организацию "{{organizationName}}"{{/if}} - {{appName}}',
+        html: layout(
+          'ru',
+          'Вас пригласили!',
+          `${GREETING.ru}
+      <p><strong>{{inviterName}}</strong> приглашает вас присоединиться к {{#if teamName}}команде "{{teamName}}"{{else}}организации "{{organizationName}}"{{/if}} в {{appName}}.</p>
+      {{#if message}}<div class="note"><p><strong>Сообщение от приглашающего:</strong></p><p>{{message}}</p></div>{{/if}}
+      <div class="note">
+        <ul>
+          <li><strong>Приглашающий:</strong> {{inviterName}} ({{inviterEmail}})</li>
+          {{#if organizationName}}<li><strong>Организация:</strong> {{organizationName}}</li>{{/if}}
+          {{#if teamName}}<li><strong>Команда:</strong> {{teamName}}</li>{{/if}}
+          {{#if expiresAt}}<li><strong>Срок действия:</strong> до {{expiresAt}}</li>{{/if}}
+        </ul>
+      </div>
+      <div><a href="{{loginUrl}}" class="button">Войти в систему</a></div>
+      <p>После входа примите или отклоните приглашение в разделе уведомлений. Если у вас нет аккаунта, зарегистрируйтесь - приглашение будет ждать вас.</p>
+      <p>Если вы не ожидали это приглашение, просто проигнорируйте письмо.</p>`,
+        ),
+      },
+      en: {
+        subject:
+          'Invitation to {{#if teamName}}team "{{teamName}}"{{else}}organization "{{organizationName}}"{{/if}} - {{appName}}',
+        html: layout(
+          'en',
+          'You are invited!',
+          `${GREETING.en}
+      <p><strong>{{inviterName}}</strong> invites you to join {{#if teamName}}team "{{teamName}}"{{else}}organization "{{organizationName}}"{{/if}} in {{appName}}.</p>
+      {{#if message}}<div class="note"><p><strong>Message from the inviter:</strong></p><p>{{message}}</p></div>{{/if}}
+      <div class="note">
+        <ul>
+          <li><strong>Invited by:</strong> {{inviterName}} ({{inviterEmail}})</li>
+          {{#if organizationName}}<li><strong>Organization:</strong> {{organizationName}}</li>{{/if}}
+          {{#if teamName}}<li><strong>Team:</strong> {{teamName}}</li>{{/if}}
+          {{#if expiresAt}}<li><strong>Valid until:</strong> {{expiresAt}}</li>{{/if}}
+        </ul>
+      </div>
+      <div><a href="{{loginUrl}}" class="button">Sign in</a></div>
+      <p>After signing in, accept or decline the invitation in your notifications. If you do not have an account yet, sign up and the invitation will be waiting for you.</p>
+      <p>If you were not expecting this invitation, just ignore this email.</p>`,
+        ),
+      },
+    },
+  },
+};
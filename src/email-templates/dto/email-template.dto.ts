@@ -0,0 +1,60 @@
+import {
+  IsObject,
+  IsOptional,
+  IsString,
+  MaxLength,
+  MinLength,
+} from 'class-validator';
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+
+export class UpsertEmailTemplateDto {
+  @ApiProperty({ example: 'Код для входа в {{appName}}' })
+  @IsString()
+  @MinLength(1)
+  @MaxLength(500)
+  subject: string;
+
+  @ApiProperty({
+    description:
+      'HTML с переменными {{name}} и условиями {{#if name}}...{{/if}}',
+  })
+  @IsString()
+  @MinLength(1)
+  @MaxLength(100_000)
+  html: string;
+
+  @ApiPropertyOptional({
+    description: 'Текстовая часть; без неё строится из HTML',
+  })
+  @IsOptional()
+  @IsString()
+  @MaxLength(50_000)
+  text?: string;
+}
+
+export class PreviewEmailTemplateDto {
+  @ApiPropertyOptional({
+    description: 'Несохранённая тема; без неё - действующий шаблон',
+  })
+  @IsOptional()
+  @IsString()
+  @MaxLength(500)
+  subject?: string;
+
+  @ApiPropertyOptional()
+  @IsOptional()
+  @IsString()
+  @MaxLength(100_000)
+  html?: string;
+
+  @ApiPropertyOptional()
+  @IsOptional()
+  @IsString()
+  @MaxLength(50_000)
+  text?: string;
+
+  @ApiPropertyOptional({ description: 'Значения переменных поверх примера' })
+  @IsOptional()
+  @IsObject()
+  variables?: Record<string, unknown>;
+}
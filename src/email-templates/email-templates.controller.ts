@@ -0,0 +1,240 @@
+import {
+  Body,
+  Controller,
+  Delete,
+  Get,
+  HttpCode,
+  Param,
+  ParseEnumPipe,
+  ParseUUIDPipe,
+  Post,
+  Put,
+  UseGuards,
+} from '@nestjs/common';
+import {
+  ApiTags,
+  ApiOperation,
+  ApiResponse,
+  ApiBearerAuth,
+} from '@nestjs/swagger';
+import { EmailTemplatesService } from './email-templates.service';
+import { EmailTemplateKey } from './enums/email-template-key.enum';
+import {
+  PreviewEmailTemplateDto,
+  UpsertEmailTemplateDto,
+} from './dto/email-template.dto';
+import { EmailService } from '../auth/email.service';
+import { JwtAuthGuard } from '../auth/guards/jwt-auth.guard';
+import { CurrentUser } from '../auth/decorators/current-user.decorator';
+import { RequirePermissions } from '../auth/decorators/permissions.decorator';
+import { PermissionScope } from '../auth/decorators/permission-scope.decorator';
+
+const keyPipe = new ParseEnumPipe(EmailTemplateKey);
+
+/**
+ * Шаблоны писем организации: переопределяют системные для её пользователей и приглашений.
+ * Письма с кодами и ссылками входа организация не переопределяет
+ */
+@ApiTags('email-templates')
+@Controller('organizations/:id/email-templates')
+@UseGuards(JwtAuthGuard)
+@ApiBearerAuth()
+@RequirePermissions('organizations.update')
+@PermissionScope({ organization: 'params.id' })
+export class OrganizationEmailTemplatesController {
+  constructor(
+    private readonly emailTemplatesService: EmailTemplatesService,
+    private readonly emailService: EmailService,
+  ) {}
+
+  @Get()
+  @ApiOperation({ summary: 'Шаблоны писем и переопределённые языки' })
+  @ApiResponse({ status: 200, description: 'Список шаблонов' })
+  async list(@Param('id', ParseUUIDPipe) organizationId: string) {
+    return this.emailTemplatesService.list(organizationId);
+  }
+
+  @Get(':key/:locale')
+  @ApiOperation({
+    summary: 'Действующий шаблон (организации, системный или встроенный)',
+  })
+  @ApiResponse({ status: 200, description: 'Шаблон и его источник' })
+  async get(
+    @Param('id', ParseUUIDPipe) organizationId: string,
+    @Param('key', keyPipe) key: EmailTemplateKey,
+    @Param('locale') locale: string,
+  ) {
+    return this.emailTemplatesService.get(organizationId, key, locale);
+  }
+
+  @Put(':key/:locale')
+  @ApiOperation({ summary: 'Переопределить шаблон для организации' })
+  @ApiResponse({ status: 200, description: 'Шаблон сохранён' })
+  @ApiResponse({
+    status: 400,
+    description: 'Ошибка синтаксиса или неизвестная переменная',
+  })
+  @ApiResponse({
+    status: 403,
+    description: 'Шаблон с кодом или ссылкой входа не переопределяется',
+  })
+  async upsert(
+    @Param('id', ParseUUIDPipe) organizationId: string,
+    @Param('key', keyPipe) key: EmailTemplateKey,
+    @Param('locale') locale: string,
+    @Body() dto: UpsertEmailTemplateDto,
+    @CurrentUser() user: { userId: string },
+  ) {
+    return this.emailTemplatesService.upsert(
+      organizationId,
+      key,
+      locale,
+      dto,
+      user.userId,
+    );
+  }
+
+  @Delete(':key/:locale')
+  @ApiOperation({ summary: 'Вернуть системный шаблон' })
+  @ApiResponse({ status: 200, description: 'Переопределение удалено' })
+  async remove(
+    @Param('id', ParseUUIDPipe) organizationId: string,
+    @Param('key', keyPipe) key: EmailTemplateKey,
+    @Param('locale') locale: string,
+  ) {
+    await this.emailTemplatesService.remove(organizationId, key, locale);
+    return { message: 'Переопределение шаблона удалено' };
+  }
+
+  @Post(':key/:locale/preview')
+  @HttpCode(200)
+  @ApiOperation({
+    summary:
+      'Предпросмотр на примере данных (можно передать несохранённый шаблон)',
+  })
+  @ApiResponse({ status: 200, description: 'Тема, HTML и текст письма' })
+  async preview(
+    @Param('id', ParseUUIDPipe) organizationId: string,
+    @Param('key', keyPipe) key: EmailTemplateKey,
+    @Param('locale') locale: string,
+    @Body() dto: PreviewEmailTemplateDto,
+  ) {
+    return this.emailTemplatesService.preview(organizationId, key, locale, dto);
+  }
+
+  @Post(':key/:locale/test')
+  @HttpCode(200)
+  @ApiOperation({ summary: 'Отправить тестовое письмо себе' })
+  @ApiResponse({ status: 200, description: 'Письмо отправлено' })
+  async sendTest(
+    @Param('id', ParseUUIDPipe) organizationId: string,
+    @Param('key', keyPipe) key: EmailTemplateKey,
+    @Param('locale') locale: string,
+    @Body() dto: PreviewEmailTemplateDto,
+    @CurrentUser() user: { userId: string; email?: string | null },
+  ) {
+    const rendered = await this.emailTemplatesService.preview(
+      organizationId,
+      key,
+      locale,
+      dto,
+    );
+    return this.emailService.sendTestEmail(user.email, rendered);
+  }
+}
+
+/**
+ * Системные шаблоны писем: действуют, если у организации нет своего
+ */
+@ApiTags('email-templates')
+@Controller('email-templates')
+@UseGuards(JwtAuthGuard)
+@ApiBearerAuth()
+@RequirePermissions('settings.update')
+export class EmailTemplatesController {
+  constructor(
+    private readonly emailTemplatesService: EmailTemplatesService,
+    private readonly emailService: EmailService,
+  ) {}
+
+  @Get()
+  @ApiOperation({ summary: 'Шаблоны писем и переопределённые языки' })
+  @ApiResponse({ status: 200, description: 'Список шаблонов' })
+  async list() {
+    return this.emailTemplatesService.list(null);
+  }
+
+  @Get(':key/:locale')
+  @ApiOperation({ summary: 'Действующий системный шаблон' })
+  @ApiResponse({ status: 200, description: 'Шаблон и его источник' })
+  async get(
+    @Param('key', keyPipe) key: EmailTemplateKey,
+    @Param('locale') locale: string,
+  ) {
+    return this.emailTemplatesService.get(null, key, locale);
+  }
+
+  @Put(':key/:locale')
+  @ApiOperation({ summary: 'Переопределить встроенный шаблон' })
+  @ApiResponse({ status: 200, description: 'Шаблон сохранён' })
+  @ApiResponse({
+    status: 400,
+    description: 'Ошибка синтаксиса или неизвестная переменная',
+  })
+  async upsert(
+    @Param('key', keyPipe) key: EmailTemplateKey,
+    @Param('locale') locale: string,
+    @Body() dto: UpsertEmailTemplateDto,
+    @CurrentUser() user: { userId: string },
+  ) {
+    return this.emailTemplatesService.upsert(
+      null,
+      key,
+      locale,
+      dto,
+      user.userId,
+    );
+  }
+
+  @Delete(':key/:locale')
+  @ApiOperation({ summary: 'Вернуть встроенный шаблон' })
+  @ApiResponse({ status: 200, description: 'Переопределение удалено' })
+  async remove(
+    @Param('key', keyPipe) key: EmailTemplateKey,
+    @Param('locale') locale: string,
+  ) {
+    await this.emailTemplatesService.remove(null, key, locale);
+    return { message: 'Переопределение шаблона удалено' };
+  }
+
+  @Post(':key/:locale/preview')
+  @HttpCode(200)
+  @ApiOperation({ summary: 'Предпросмотр на примере данных' })
+  @ApiResponse({ status: 200, description: 'Тема, HTML и текст письма' })
+  async preview(
+    @Param('key', keyPipe) key: EmailTemplateKey,
+    @Param('locale') locale: string,
+    @Body() dto: PreviewEmailTemplateDto,
+  ) {
+    return this.emailTemplatesService.preview(null, key, locale, dto);
+  }
+
+  @Post(':key/:locale/test')
+  @HttpCode(200)
+  @ApiOperation({ summary: 'Отправить тестовое письмо себе' })
+  @ApiResponse({ status: 200, description: 'Письмо отправлено' })
+  async sendTest(
+    @Param('key', keyPipe) key: EmailTemplateKey,
+    @Param('locale') locale: string,
+    @Body() dto: PreviewEmailTemplateDto,
+    @CurrentUser() user: { userId: string; email?: string | null },
+  ) {
+    const rendered = await this.emailTemplatesService.preview(
+      null,
+      key,
+      locale,
+      dto,
+    );
+    return this.emailService.sendTestEmail(user.email, rendered);
+  }
+}
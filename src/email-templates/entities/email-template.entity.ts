@@ -0,0 +1,52 @@
+import {
+  Entity,
+  PrimaryGeneratedColumn,
+  Column,
+  CreateDateColumn,
+  UpdateDateColumn,
+  ManyToOne,
+  JoinColumn,
+} from 'typeorm';
+import { Organization } from '../../organizations/entities/organization.entity';
+import { EmailTemplateKey } from '../enums/email-template-key.enum';
+
+/**
+ * Переопределение встроенного шаблона письма: системное (organizationId = null) или организации.
+ * Уникальность (organizationId, key, locale) обеспечивают частичные индексы миграции
+ */
+@Entity('email_templates')
+export class EmailTemplate {
+  @PrimaryGeneratedColumn('uuid')
+  id: string;
+
+  @Column({ type: 'uuid', nullable: true })
+  organizationId: string | null;
+
+  @Column({ type: 'varchar', length: 64 })
+  key: EmailTemplateKey;
+
+  @Column({ type: 'varchar', length: 5 })
+  locale: string;
+
+  @Column({ type: 'text' })
+  subject: string;
+
+  @Column({ type: 'text' })
+  html: string;
+
+  @Column({ type: 'text', nullable: true })
+  text: string | null; // null - текстовая часть строится из HTML
+
+  @Column({ type: 'uuid', nullable: true })
+  updatedBy: string | null;
+
+  @CreateDateColumn()
+  createdAt: Date;
+
+  @UpdateDateColumn()
+  updatedAt: Date;
+
+  @ManyToOne(() => Organization, { onDelete: 'CASCADE', nullable: true })
+  @JoinColumn({ name: 'organizationId' })
+  organization: Organization | null;
+}
@@ -0,0 +1,12 @@
+export enum EmailTemplateKey {
+  VERIFICATION_CODE = 'verification_code',
+  LOGIN_CODE = 'login_code',
+  EMAIL_VERIFICATION = 'email_verification',
+  PASSWORD_RESET = 'password_reset',
+  ACCOUNT_LOCKED = 'account_locked',
+  LOGIN_ALERT = 'login_alert',
+  INVITATION = 'invitation',
+}
+
+export const EMAIL_LOCALES = ['ru', 'en'] as const;
+export type EmailLocale = (typeof EMAIL_LOCALES)[number];
@@ -0,0 +1,245 @@
+/**
+ * Безопасный язык шаблонов писем: только подстановка переменных и условия, без выполнения кода.
+ *
+ *   {{ user.firstName }}                     - значение (в HTML экранируется)
+ *   {{#if teamName}} ... {{else}} ... {{/if}} - условие по непустому значению
+ *   {{#unless message}} ... {{/unless}}       - обратное условие
+ */
+export type TemplateNode =
+  | { type: 'text'; value: string }
+  | { type: 'variable'; path: string }
+  | {
+      type: 'condition';
+      path: string;
+      negate: boolean;
+      then: TemplateNode[];
+      otherwise: TemplateNode[];
+    };
+
+export class TemplateSyntaxError extends Error {}
+
+export interface RenderOptions {
+  escapeHtml: boolean;
+  locale: string; // Для форматирования дат
+}
+
+const TAG_PATTERN = /\{\{\s*([#/]?)([^{}]*?)\s*\}\}/g;
+const PATH_PATTERN = /^[A-Za-z_]\w*(\.[A-Za-z_]\w*)*$/;
+const MAX_DEPTH = 10;
+
+export function compileTemplate(source: string): TemplateNode[] {
+  const root: TemplateNode[] = [];
+  const stack: Array<{
+    node: Extract<TemplateNode, { type: 'condition' }>;
+    inElse: boolean;
+  }> = [];
+  const target = () => {
+    const top = stack[stack.length - 1];
+    if (!top) return root;
+    return top.inElse ? top.node.otherwise : top.node.then;
+  };
+
+  let position = 0;
+  for (const match of source.matchAll(TAG_PATTERN)) {
+    if (match.index > position) {
+      target().push({
+        type: 'text',
+        value: source.slice(position, match.index),
+      });
+    }
+    position = match.index + match[0].length;
+
+    const [, marker, body] = match;
+    const [keyword, path, ...rest] = body.trim().split(/\s+/);
+
+    if (marker === '#') {
+      if ((keyword !== 'if' && keyword !== 'unless') || !path || rest.length) {
+        throw new TemplateSyntaxError(
+          `Некорректный блок {{${match[1]}${body}}}`,
+        );
+      }
+      if (stack.length >= MAX_DEPTH) {
+        throw new TemplateSyntaxError('Слишком глубокая вложенность условий');
+      }
+      const node: Extract<TemplateNode, { type: 'condition' }> = {
+        type: 'condition',
+        path: checkPath(path),
+        negate: keyword === 'unless',
+        then: [],
+        otherwise: [],
+      };
+      target().push(node);
+      stack.push({ node, inElse: false });
+    } else if (marker === '/') {
+      const top = stack.pop();
+      const expected = top?.node.negate ? 'unless' : 'if';
+      if (!top || keyword !== expected || path) {
+        throw new TemplateSyntaxError(`Неожиданный {{/${body.trim()}}}`);
+      }
+    } else if (keyword === 'else' && !path) {
+      const top = stack[stack.length - 1];
+      if (!top || top.inElse) {
+        throw new TemplateSyntaxError('{{else}} вне условия');
+      }
+      top.inElse = true;
+    } else {
+      target().push({ type: 'variable', path: checkPath(body.trim()) });
+    }
+  }
+
+  if (stack.length) {
+    throw new TemplateSyntaxError(
+      `Не закрыт блок {{#${stack[stack.length - 1].node.negate ? 'unless' : 'if'}}}`,
+    );
+  }
+  if (position < source.length) {
+    root.push({ type: 'text', value: source.slice(position) });
+  }
+  return root;
+}
+
+export function renderTemplate(
+  nodes: TemplateNode[],
+  variables: Record<string, unknown>,
+  options: RenderOptions,
+): string {
+  return nodes
+    .map((node) => {
+      switch (node.type) {
+        case 'text':
+          return node.value;
+        case 'variable': {
+          const value = formatValue(
+            lookup(variables, node.path),
+            options.locale,
+          );
+          return options.escapeHtml ? escapeHtml(value) : value;
+        }
+        case 'condition': {
+          const truthy = isTruthy(lookup(variables, node.path));
+          return renderTemplate(
+            truthy !== node.negate ? node.then : node.otherwise,
+            variables,
+            options,
+          );
+        }
+      }
+    })
+    .join('');
+}
+
+/**
+ * Все переменные шаблона - для проверки при сохранении
+ */
+export function collectVariables(
+  nodes: TemplateNode[],
+  into = new Set<string>(),
+): Set<string> {
+  for (const node of nodes) {
+    if (node.type === 'variable') {
+      into.add(node.path);
+    } else if (node.type === 'condition') {
+      into.add(node.path);
+      collectVariables(node.then, into);
+      collectVariables(node.otherwise, into);
+    }
+  }
+  return into;
+}
+
+/**
+ * Текстовая часть письма из HTML: абзацы и списки - переносами, ссылки - адресом в скобках
+ */
+export function htmlToText(html: string): string {
+  return decodeEntities(
+    html
+      .replace(/<(head|style|script|title)[\s\S]*?<\/\1>/gi, '')
+      .replace(
+        /<a\s[^>]*href="([^"]*)"[^>]*>([\s\S]*?)<\/a>/gi,
+        (_match, href: string, text: string) => {
+          const label = text.replace(/<[^>]+>/g, '').trim();
+          return label && label !== href ? `${label} (${href})` : href;
+        },
+      )
+      .replace(/<li[^>]*>/gi, '\n- ')
+      .replace(/<br\s*\/?>/gi, '\n')
+      .replace(/<\/(p|div|h[1-6]|ul|ol|tr|table)>/gi, '\n\n')
+      .replace(/<[^>]+>/g, ''),
+  )
+    .split('\n')
+    .map((line) => line.replace(/[ \t]+/g, ' ').trim())
+    .join('\n')
+    .replace(/\n{3,}/g, '\n\n')
+    .trim();
+}
+
+export function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+}
+
+function checkPath(path: string): string {
+  if (!PATH_PATTERN.test(path)) {
+    throw new TemplateSyntaxError(`Некорректное имя переменной "${path}"`);
+  }
+  return path;
+}
+
+function lookup(variables: Record<string, unknown>, path: string): unknown {
+  let current: unknown = variables;
+  for (const key of path.split('.')) {
+    if (
+      typeof current !== 'object' ||
+      current === null ||
+      !Object.hasOwn(current, key)
+    ) {
+      return undefined;
+    }
+    current = (current as Record<string, unknown>)[key];
+  }
+  return current;
+}
+
+function formatValue(value: unknown, locale: string): string {
+  if (value === undefined || value === null) {
+    return '';
+  }
+  if (value instanceof Date) {
+    return value.toLocaleString(locale === 'ru' ? 'ru-RU' : 'en-GB', {
+      dateStyle: 'long',
+      timeStyle: 'short',
+    });
+  }
+  if (typeof value === 'object') {
+    return '';
+  }
+  return String(value as string | number | boolean);
+}
+
+function isTruthy(value: unknown): boolean {
+  if (Array.isArray(value)) {
+    return value.length > 0;
+  }
+  return (
+    value !== undefined &&
+    value !== null &&
+    value !== false &&
+    value !== '' &&
+    value !== 0
+  );
+}
+
+function decodeEntities(text: string): string {
+  return text
+    .replace(/&nbsp;/g, ' ')
+    .replace(/&copy;/g, '©')
+    .replace(/&quot;/g, '"')
+    .replace(/&#39;/g, "'")
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&amp;/g, '&');
+}
@@ -0,0 +1,203 @@
+import { randomUUID } from 'crypto';
+import { AuthMethodType } from '../../auth/enums/auth-method-type.enum';
+import {
+  AuthorizationCallbackParams,
+  AuthorizationRequestParams,
+  ExternalProfile,
+} from '../interfaces/identity-provider.interface';
+import { EsiaSigner } from '../esia/esia-signer';
+import {
+  asString,
+  JsonObject,
+  OAuth2ProviderAdapter,
+  ProfileRequestContext,
+} from './oauth2.adapter';
+
+const SUBJECT_CLAIM = 'urn:esia:sbj_id';
+const VERIFIED = 'VERIFIED';
+
+interface EsiaElement {
+  type?: string;
+  vrfStu?: string;
+  value?: string;
+}
+
+/**
+ * ЕСИА (Госуслуги): client_secret - подпись scope + timestamp + client_id + state
+ * сертификатом организации, state - UUID, профиль из REST API /rs/prns
+ */
+export class EsiaProviderAdapter extends OAuth2ProviderAdapter {
+  readonly authMethod = AuthMethodType.GOSUSLUGI;
+  readonly stateFormat = 'uuid';
+
+  constructor(
+    clientId: string,
+    private readonly baseUrl: string,
+    scopes: string[],
+    redirectUri: string,
+    private readonly signer: EsiaSigner,
+  ) {
+    super(
+      {
+        id: 'gosuslugi',
+        type: 'oauth2',
+        displayName: 'Госуслуги',
+        enabled: true,
+        clientId,
+        authorizationUrl: `${baseUrl}/aas/oauth2/ac`,
+        tokenUrl: `${baseUrl}/aas/oauth2/te`,
+        userInfoUrl: `${baseUrl}/rs/prns`,
+        scopes,
+      },
+      redirectUri,
+    );
+  }
+
+  async getAuthorizationUrl(
+    params: AuthorizationRequestParams,
+  ): Promise<string> {
+    const query = new URLSearchParams({
+      ...(await this.signedParams(params.state)),
+      redirect_uri: params.redirectUri,
+      response_type: 'code',
+      access_type: 'online',
+    });
+    return `${this.config.authorizationUrl}?${query.toString()}`;
+  }
+
+  protected async exchangeCode(
+    params: AuthorizationCallbackParams,
+  ): Promise<JsonObject> {
+    // Для обмена кода нужен новый state и новая подпись
+    const state = randomUUID();
+    const body = new URLSearchParams({
+      ...(await this.signedParams(state)),
+      grant_type: 'authorization_code',
+      code: params.code,
+      redirect_uri: params.redirectUri,
+      token_type: 'Bearer',
+    });
+
+    const data = await this.requestJson(this.config.tokenUrl!, {
+      method: 'POST',
+      headers: {
+        Accept: 'application/json',
+        'Content-Type': 'application/x-www-form-urlencoded',
+      },
+      body: body.toString(),
+    });
+    if (data.error) {
+      throw this.fail('ЕСИА отклонила код авторизации', data);
+    }
+    if (data.state !== state) {
+      throw this.fail('ЕСИА вернула чужой state', data.state);
+    }
+    return data;
+  }
+
+  protected async fetchProfile({
+    tokens,
+  }: ProfileRequestContext): Promise<ExternalProfile> {
+    // Токен получен напрямую от ЕСИА по TLS, поэтому подпись (ГОСТ) не проверяется
+    const oid = asString(this.decodeClaims(tokens.accessToken)[SUBJECT_CLAIM]);
+    if (!oid) {
+      throw this.fail('В маркере доступа нет идентификатора пользователя');
+    }
+
+    const personUrl = `${this.config.userInfoUrl}/${encodeURIComponent(oid)}`;
+    const headers = {
+      Accept: 'application/json',
+      Authorization: `Bearer ${tokens.accessToken}`,
+    };
+    const person = await this.requestJson(personUrl, { headers });
+    const contacts = await this.requestJson(
+      `${personUrl}/ctts?embed=(elements)`,
+      { headers },
+    );
+    const documents = this.config.scopes.includes('id_doc')
+      ? await this.requestJson(`${personUrl}/docs?embed=(elements)`, {
+          headers,
+        })
+      : { elements: [] };
+
+    const contactList = this.elements(contacts);
+    const email = contactList.find((c) => c.type === 'EML' && c.value);
+    const mobile = contactList.find((c) => c.type === 'MBT' && c.value);
+    const trusted = person.trusted === true;
+
+    return {
+      subject: oid,
+      email: email?.value ? email.value.toLowerCase() : null,
+      emailVerified: email?.vrfStu === VERIFIED,
+      firstName: asString(person.firstName),
+      lastName: asString(person.lastName),
+      username: null,
+      avatarUrl: null,
+      phone: mobile?.value ? mobile.value.replace(/[^\d+]/g, '') : null,
+      phoneVerified: mobile?.vrfStu === VERIFIED,
+      identityVerified: trusted,
+      // Номера СНИЛС и документов не сохраняются, только признаки их наличия
+      raw: {
+        oid,
+        trusted,
+        middleName: asString(person.middleName),
+        hasSnils: !!asString(person.snils),
+        contacts: contactList.map((c) => ({
+          type: c.type,
+          verified: c.vrfStu === VERIFIED,
+        })),
+        documents: this.elements(documents).map((d) => ({
+          type: d.type,
+          verified: d.vrfStu === VERIFIED,
+        })),
+      },
+    };
+  }
+
+  // Приватные методы
+
+  /**
+   * Подписанные параметры запроса: client_secret вычисляется от остальных
+   */
+  private async signedParams(state: string): Promise<Record<string, string>> {
+    const scope = this.config.scopes.join(' ');
+    const timestamp = this.formatTimestamp(new Date());
+    const signature = await this.signer.sign(
+      `${scope}${timestamp}${this.config.clientId}${state}`,
+    );
+    return {
+      client_id: this.config.clientId,
+      client_secret: signature.toString('base64url'),
+      scope,
+      state,
+      timestamp,
+    };
+  }
+
+  /**
+   * Формат ЕСИА: yyyy.MM.dd HH:mm:ss +0000
+   */
+  private formatTimestamp(date: Date): string {
+    const [day, time] = date.toISOString().split('T');
+    return `${day.replace(/-/g, '.')} ${time.slice(0, 8)} +0000`;
+  }
+
+  private decodeClaims(token: string): JsonObject {
+    try {
+      return JSON.parse(
+        Buffer.from(token.split('.')[1] ?? '', 'base64url').toString('utf8'),
+      ) as JsonObject;
+    } catch {
+      throw this.fail('Некорректный маркер доступа ЕСИА');
+    }
+  }
+
+  private elements(data: JsonObject): EsiaElement[] {
+    return Array.isArray(data.elements)
+      ? (data.elements as unknown[]).filter(
+          (element): element is EsiaElement =>
+            !!element && typeof element === 'object',
+        )
+      : [];
+  }
+}
@@ -0,0 +1,73 @@
+import { AuthMethodType } from '../../auth/enums/auth-method-type.enum';
+import { ExternalProfile } from '../interfaces/identity-provider.interface';
+import {
+  asString,
+  JsonObject,
+  OAuth2ProviderAdapter,
+  ProfileRequestContext,
+} from './oauth2.adapter';
+
+const GITHUB_API_URL = 'https://api.github.com';
+
+/**
+ * GitHub OAuth App: email берётся из /user/emails (основной и подтверждённый)
+ */
+export class GitHubProviderAdapter extends OAuth2ProviderAdapter {
+  readonly authMethod = AuthMethodType.GITHUB;
+
+  constructor(clientId: string, clientSecret: string, redirectUri: string) {
+    super(
+      {
+        id: 'github',
+        type: 'oauth2',
+        displayName: 'GitHub',
+        enabled: true,
+        clientId,
+        clientSecret,
+        authorizationUrl: 'https://github.com/login/oauth/authorize',
+        tokenUrl: 'https://github.com/login/oauth/access_token',
+        userInfoUrl: `${GITHUB_API_URL}/user`,
+        scopes: ['read:user', 'user:email'],
+        usePkce: true,
+      },
+      redirectUri,
+    );
+  }
+
+  protected async fetchProfile({
+    tokens,
+  }: ProfileRequestContext): Promise<ExternalProfile> {
+    const headers = {
+      Authorization: `Bearer ${tokens.accessToken}`,
+      Accept: 'application/vnd.github+json',
+      'User-Agent': 'Loginus',
+    };
+    const user = await this.requestJson(`${GITHUB_API_URL}/user`, { headers });
+    const emails = (await this.requestJson(`${GITHUB_API_URL}/user/emails`, {
+      headers,
+    })) as unknown as Array<JsonObject> | JsonObject;
+
+    const primary = Array.isArray(emails)
+      ? emails.find((email) => email.primary === true)
+      : undefined;
+    const [firstName, ...lastName] = (
+      asString(user.name) ??
+      asString(user.login) ??
+      ''
+    )
+      .trim()
+      .split(/\s+/);
+
+    return {
+      subject: asString(user.id) ?? '',
+      email:
+        typeof primary?.email === 'string' ? primary.email.toLowerCase() : null,
+      emailVerified: primary?.verified === true,
+      firstName: firstName || null,
+      lastName: lastName.join(' ') || null,
+      username: typeof user.login === 'string' ? user.login : null,
+      avatarUrl: typeof user.avatar_url === 'string' ? user.avatar_url : null,
+      raw: user,
+    };
+  }
+}
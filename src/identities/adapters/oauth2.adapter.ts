@@ -0,0 +1,278 @@
+import { Logger, UnauthorizedException } from '@nestjs/common';
+import { AuthMethodType } from '../../auth/enums/auth-method-type.enum';
+import {
+  AuthorizationCallbackParams,
+  AuthorizationCallbackResult,
+  AuthorizationRequestParams,
+  ExternalProfile,
+  ExternalTokens,
+  IdentityProviderAdapter,
+  IdentityProviderConfig,
+  ProfileClaimsMapping,
+} from '../interfaces/identity-provider.interface';
+
+export interface OAuth2Endpoints {
+  authorizationUrl: string;
+  tokenUrl: string;
+  userInfoUrl?: string;
+}
+
+export type JsonObject = Record<string, unknown>;
+
+export interface ProfileRequestContext {
+  tokens: ExternalTokens;
+  tokenResponse: JsonObject;
+  params: AuthorizationCallbackParams;
+}
+
+const DEFAULT_CLAIMS: Required<ProfileClaimsMapping> = {
+  subject: 'sub',
+  email: 'email',
+  emailVerified: 'email_verified',
+  firstName: 'given_name',
+  lastName: 'family_name',
+  username: 'preferred_username',
+  avatarUrl: 'picture',
+};
+
+/**
+ * Значение по пути через точку: readPath({ a: { b: 1 } }, 'a.b') === 1
+ */
+export function readPath(source: unknown, path: string): unknown {
+  return path.split('.').reduce<unknown>((value, key) => {
+    if (value && typeof value === 'object') {
+      return (value as JsonObject)[key];
+    }
+    return undefined;
+  }, source);
+}
+
+export function asString(value: unknown): string | null {
+  if (typeof value === 'string' && value.length > 0) {
+    return value;
+  }
+  if (typeof value === 'number') {
+    return String(value);
+  }
+  return null;
+}
+
+/**
+ * Authorization Code flow OAuth 2.0 (RFC 6749) с PKCE (RFC 7636).
+ * Профиль берётся из userinfo и раскладывается по ProfileClaimsMapping
+ */
+export class OAuth2ProviderAdapter implements IdentityProviderAdapter {
+  readonly authMethod: AuthMethodType = AuthMethodType.OAUTH;
+  protected readonly logger: Logger;
+
+  constructor(
+    protected readonly config: IdentityProviderConfig,
+    readonly redirectUri: string,
+  ) {
+    this.logger = new Logger(`IdentityProvider:${config.id}`);
+  }
+
+  get id(): string {
+    return this.config.id;
+  }
+
+  get displayName(): string {
+    return this.config.displayName;
+  }
+
+  async getAuthorizationUrl(
+    params: AuthorizationRequestParams,
+  ): Promise<string> {
+    const endpoints = await this.getEndpoints();
+    const query = new URLSearchParams({
+      response_type: 'code',
+      client_id: this.config.clientId,
+      redirect_uri: params.redirectUri,
+      scope: this.config.scopes.join(' '),
+      state: params.state,
+    });
+    if (this.config.usePkce) {
+      query.set('code_challenge', params.codeChallenge);
+      query.set('code_challenge_method', 'S256');
+    }
+
+    const separator = endpoints.authorizationUrl.includes('?') ? '&' : '?';
+    return `${endpoints.authorizationUrl}${separator}${query.toString()}`;
+  }
+
+  async handleCallback(
+    params: AuthorizationCallbackParams,
+  ): Promise<AuthorizationCallbackResult> {
+    const tokenResponse = await this.exchangeCode(params);
+    const accessToken = asString(tokenResponse.access_token);
+    if (!accessToken) {
+      throw this.fail('В ответе провайдера нет access_token', tokenResponse);
+    }
+
+    const expiresIn = Number(tokenResponse.expires_in);
+    const tokens: ExternalTokens = {
+      accessToken,
+      refreshToken: asString(tokenResponse.refresh_token),
+      idToken: asString(tokenResponse.id_token),
+      expiresAt:
+        Number.isFinite(expiresIn) && expiresIn > 0
+          ? new Date(Date.now() + expiresIn * 1000)
+          : null,
+      scopes:
+        typeof tokenResponse.scope === 'string'
+          ? tokenResponse.scope.split(/[\s,]+/).filter(Boolean)
+          : this.config.scopes,
+    };
+
+    const profile = await this.fetchProfile({ tokens, tokenResponse, params });
+    if (!profile.subject) {
+      throw this.fail('Провайдер не вернул идентификатор пользователя');
+    }
+
+    return { tokens, profile };
+  }
+
+  // Точки расширения для конкретных провайдеров
+
+  protected getEndpoints(): Promise<OAuth2Endpoints> {
+    const { authorizationUrl, tokenUrl, userInfoUrl } = this.config;
+    if (!authorizationUrl || !tokenUrl) {
+      return Promise.reject(
+        new Error(
+          `Для провайдера ${this.id} не заданы authorizationUrl и tokenUrl`,
+        ),
+      );
+    }
+    return Promise.resolve({ authorizationUrl, tokenUrl, userInfoUrl });
+  }
+
+  protected async exchangeCode(
+    params: AuthorizationCallbackParams,
+  ): Promise<JsonObject> {
+    const { tokenUrl } = await this.getEndpoints();
+    const body = new URLSearchParams({
+      grant_type: 'authorization_code',
+      code: params.code,
+      redirect_uri: params.redirectUri,
+      client_id: this.config.clientId,
+    });
+    if (this.config.clientSecret) {
+      body.set('client_secret', this.config.clientSecret);
+    }
+    if (this.config.usePkce) {
+      body.set('code_verifier', params.codeVerifier);
+    }
+
+    const data = await this.requestJson(tokenUrl, {
+      method: 'POST',
+      headers: {
+        Accept: 'application/json',
+        'Content-Type': 'application/x-www-form-urlencoded',
+      },
+      body: body.toString(),
+    });
+    if (data.error) {
+      throw this.fail('Провайдер отклонил код авторизации', data);
+    }
+    return data;
+  }
+
+  protected async fetchProfile({
+    tokens,
+  }: ProfileRequestContext): Promise<ExternalProfile> {
+    const { userInfoUrl } = await this.getEndpoints();
+    if (!userInfoUrl) {
+      throw new Error(`Для провайдера ${this.id} не задан userInfoUrl`);
+    }
+    return this.mapProfile(await this.fetchUserInfo(userInfoUrl, tokens));
+  }
+
+  protected async fetchUserInfo(
+    userInfoUrl: string,
+    tokens: ExternalTokens,
+  ): Promise<JsonObject> {
+    const headers: Record<string, string> = { Accept: 'application/json' };
+    let url = userInfoUrl;
+    if (this.config.userInfoTokenParam) {
+      const target = new URL(userInfoUrl);
+      target.searchParams.set(
+        this.config.userInfoTokenParam,
+        tokens.accessToken,
+      );
+      url = target.toString();
+    } else {
+      headers.Authorization = `Bearer ${tokens.accessToken}`;
+    }
+
+    const data = await this.requestJson(url, { headers });
+    if (data.error) {
+      throw this.fail('Не удалось получить профиль пользователя', data);
+    }
+    return data;
+  }
+
+  protected mapProfile(claims: JsonObject): ExternalProfile {
+    const mapping = { ...DEFAULT_CLAIMS };
+    const overrides = Object.entries(this.config.claims ?? {}) as Array<
+      [keyof ProfileClaimsMapping, string | undefined]
+    >;
+    for (const [claim, path] of overrides) {
+      if (path) {
+        mapping[claim] = path;
+      }
+    }
+    const email = asString(readPath(claims, mapping.email));
+    const emailVerified = readPath(claims, mapping.emailVerified);
+
+    return {
+      subject: asString(readPath(claims, mapping.subject)) ?? '',
+      email: email ? email.toLowerCase() : null,
+      emailVerified:
+        !!email &&
+        (emailVerified === true ||
+          emailVerified === 'true' ||
+          !!this.config.trustEmail),
+      firstName: asString(readPath(claims, mapping.firstName)),
+      lastName: asString(readPath(claims, mapping.lastName)),
+      username: asString(readPath(claims, mapping.username)),
+      avatarUrl: asString(readPath(claims, mapping.avatarUrl)),
+      raw: claims,
+    };
+  }
+
+  protected async requestJson(
+    url: string,
+    init: RequestInit = {},
+  ): Promise<JsonObject> {
+    let response: Response;
+    try {
+      response = await fetch(url, init);
+    } catch (error) {
+      throw this.fail(`Провайдер недоступен: ${(error as Error).message}`);
+    }
+
+    const text = await response.text();
+    let data: JsonObject;
+    try {
+      data = JSON.parse(text) as JsonObject;
+    } catch {
+      throw this.fail(`Некорректный ответ (HTTP ${response.status})`, text);
+    }
+    if (!response.ok && !data.error) {
+      throw this.fail(`HTTP ${response.status}`, data);
+    }
+    return data;
+  }
+
+  /**
+   * Подробности пишутся в лог, пользователь получает общее сообщение
+   */
+  protected fail(reason: string, details?: unknown): UnauthorizedException {
+    this.logger.warn(
+      `⚠️ ${reason}${details ? `: ${JSON.stringify(details).slice(0, 500)}` : ''}`,
+    );
+    return new UnauthorizedException(
+      `Не удалось выполнить вход через ${this.displayName}`,
+    );
+  }
+}
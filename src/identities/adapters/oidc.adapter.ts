@@ -0,0 +1,262 @@
+import * as crypto from 'crypto';
+import {
+  AuthorizationRequestParams,
+  ExternalProfile,
+} from '../interfaces/identity-provider.interface';
+import {
+  JsonObject,
+  OAuth2Endpoints,
+  OAuth2ProviderAdapter,
+  ProfileRequestContext,
+} from './oauth2.adapter';
+
+interface OidcDiscoveryDocument {
+  issuer: string;
+  authorization_endpoint: string;
+  token_endpoint: string;
+  userinfo_endpoint?: string;
+  jwks_uri: string;
+}
+
+interface CachedValue<T> {
+  value: T;
+  expiresAt: number;
+}
+
+const CACHE_TTL_MS = 60 * 60 * 1000;
+const CLOCK_SKEW_SECONDS = 60;
+
+// Discovery и JWKS общие для всех экземпляров адаптера (пересоздаются при смене настроек)
+const discoveryCache = new Map<string, CachedValue<OidcDiscoveryDocument>>();
+const jwksCache = new Map<string, CachedValue<crypto.JsonWebKey[]>>();
+
+const JWS_ALGORITHMS: Record<
+  string,
+  { hash: string; kind: 'rsa' | 'pss' | 'ec' | 'hmac' }
+> = {
+  RS256: { hash: 'sha256', kind: 'rsa' },
+  RS384: { hash: 'sha384', kind: 'rsa' },
+  RS512: { hash: 'sha512', kind: 'rsa' },
+  PS256: { hash: 'sha256', kind: 'pss' },
+  PS384: { hash: 'sha384', kind: 'pss' },
+  PS512: { hash: 'sha512', kind: 'pss' },
+  ES256: { hash: 'sha256', kind: 'ec' },
+  ES384: { hash: 'sha384', kind: 'ec' },
+  ES512: { hash: 'sha512', kind: 'ec' },
+  HS256: { hash: 'sha256', kind: 'hmac' },
+};
+
+/**
+ * OpenID Connect: endpoints из discovery, профиль из проверенного id_token и userinfo
+ */
+export class OidcProviderAdapter extends OAuth2ProviderAdapter {
+  async getAuthorizationUrl(
+    params: AuthorizationRequestParams,
+  ): Promise<string> {
+    const url = new URL(await super.getAuthorizationUrl(params));
+    url.searchParams.set('nonce', params.nonce);
+    return url.toString();
+  }
+
+  protected async getEndpoints(): Promise<OAuth2Endpoints> {
+    const discovery = await this.getDiscovery();
+    return {
+      authorizationUrl:
+        this.config.authorizationUrl || discovery.authorization_endpoint,
+      tokenUrl: this.config.tokenUrl || discovery.token_endpoint,
+      userInfoUrl: this.config.userInfoUrl || discovery.userinfo_endpoint,
+    };
+  }
+
+  protected async fetchProfile({
+    tokens,
+    params,
+  }: ProfileRequestContext): Promise<ExternalProfile> {
+    if (!tokens.idToken) {
+      throw this.fail('В ответе провайдера нет id_token');
+    }
+    const claims = await this.verifyIdToken(tokens.idToken, params.nonce);
+
+    const { userInfoUrl } = await this.getEndpoints();
+    if (userInfoUrl) {
+      const userInfo = await this.fetchUserInfo(userInfoUrl, tokens);
+      // userinfo другого пользователя - признак подмены ответа
+      if (userInfo.sub !== claims.sub) {
+        throw this.fail('sub в userinfo не совпадает с id_token');
+      }
+      return this.mapProfile({ ...claims, ...userInfo });
+    }
+
+    return this.mapProfile(claims);
+  }
+
+  // Приватные методы
+
+  private async getDiscovery(): Promise<OidcDiscoveryDocument> {
+    const issuer = this.config.issuer?.replace(/\/+$/, '');
+    if (!issuer) {
+      throw new Error(`Для OIDC-провайдера ${this.id} не задан issuer`);
+    }
+
+    const cached = discoveryCache.get(issuer);
+    if (cached && cached.expiresAt > Date.now()) {
+      return cached.value;
+    }
+
+    const document = (await this.requestJson(
+      `${issuer}/.well-known/openid-configuration`,
+    )) as unknown as OidcDiscoveryDocument;
+    if (
+      document.issuer?.replace(/\/+$/, '') !== issuer ||
+      !document.authorization_endpoint ||
+      !document.token_endpoint ||
+      !document.jwks_uri
+    ) {
+      throw this.fail('Некорректный discovery-документ', document);
+    }
+
+    discoveryCache.set(issuer, {
+      value: document,
+      expiresAt: Date.now() + CACHE_TTL_MS,
+    });
+    return document;
+  }
+
+  private async getSigningKeys(refresh: boolean): Promise<crypto.JsonWebKey[]> {
+    const { jwks_uri: jwksUri } = await this.getDiscovery();
+    const cached = jwksCache.get(jwksUri);
+    if (!refresh && cached && cached.expiresAt > Date.now()) {
+      return cached.value;
+    }
+
+    const jwks = await this.requestJson(jwksUri);
+    const keys = Array.isArray(jwks.keys)
+      ? (jwks.keys as crypto.JsonWebKey[])
+      : [];
+    jwksCache.set(jwksUri, {
+      value: keys,
+      expiresAt: Date.now() + CACHE_TTL_MS,
+    });
+    return keys;
+  }
+
+  /**
+   * Проверка id_token по OIDC Core 3.1.3.7: подпись, iss, aud, azp, exp и nonce
+   */
+  private async verifyIdToken(
+    idToken: string,
+    nonce: string,
+  ): Promise<JsonObject> {
+    const [encodedHeader, encodedPayload, encodedSignature] =
+      idToken.split('.');
+    if (!encodedHeader || !encodedPayload || !encodedSignature) {
+      throw this.fail('id_token имеет неверный формат');
+    }
+
+    let header: { alg?: string; kid?: string };
+    let claims: JsonObject;
+    try {
+      header = JSON.parse(
+        Buffer.from(encodedHeader, 'base64url').toString('utf8'),
+      ) as { alg?: string; kid?: string };
+      claims = JSON.parse(
+        Buffer.from(encodedPayload, 'base64url').toString('utf8'),
+      ) as JsonObject;
+    } catch {
+      throw this.fail('id_token имеет неверный формат');
+    }
+
+    const signingInput = Buffer.from(`${encodedHeader}.${encodedPayload}`);
+    const signature = Buffer.from(encodedSignature, 'base64url');
+    if (!(await this.verifySignature(header, signingInput, signature))) {
+      throw this.fail(`Неверная подпись id_token (alg=${header.alg})`);
+    }
+
+    const { issuer } = await this.getDiscovery();
+    const audiences = Array.isArray(claims.aud) ? claims.aud : [claims.aud];
+    const now = Math.floor(Date.now() / 1000);
+
+    if (claims.iss !== issuer) {
+      throw this.fail('iss в id_token не совпадает с issuer провайдера');
+    }
+    if (
+      !audiences.includes(this.config.clientId) ||
+      (audiences.length > 1 && claims.azp !== this.config.clientId)
+    ) {
+      throw this.fail('id_token выпущен для другого клиента');
+    }
+    if (
+      typeof claims.exp !== 'number' ||
+      claims.exp < now - CLOCK_SKEW_SECONDS
+    ) {
+      throw this.fail('id_token истёк');
+    }
+    if (claims.nonce !== nonce) {
+      throw this.fail('nonce в id_token не совпадает с запросом');
+    }
+
+    return claims;
+  }
+
+  private async verifySignature(
+    header: { alg?: string; kid?: string },
+    signingInput: Buffer,
+    signature: Buffer,
+  ): Promise<boolean> {
+    const algorithm = header.alg ? JWS_ALGORITHMS[header.alg] : undefined;
+    if (!algorithm) {
+      return false;
+    }
+
+    if (algorithm.kind === 'hmac') {
+      if (!this.config.clientSecret) {
+        return false;
+      }
+      const expected = crypto
+        .createHmac(algorithm.hash, this.config.clientSecret)
+        .update(signingInput)
+        .digest();
+      return (
+        expected.length === signature.length &&
+        crypto.timingSafeEqual(expected, signature)
+      );
+    }
+
+    // Неизвестный kid - повод перечитать JWKS: провайдер мог сменить ключи
+    for (const refresh of [false, true]) {
+      const keys = (await this.getSigningKeys(refresh)).filter(
+        (key) =>
+          (!header.kid || key.kid === header.kid) &&
+          (!key.use || key.use === 'sig'),
+      );
+      if (keys.length === 0) {
+        continue;
+      }
+
+      return keys.some((jwk) => {
+        try {
+          const key = crypto.createPublicKey({ key: jwk, format: 'jwk' });
+          return crypto.verify(
+            algorithm.hash,
+            signingInput,
+            {
+              key,
+              ...(algorithm.kind === 'pss' && {
+                padding: crypto.constants.RSA_PKCS1_PSS_PADDING,
+                saltLength: crypto.constants.RSA_PSS_SALTLEN_DIGEST,
+              }),
+              ...(algorithm.kind === 'ec' && {
+                dsaEncoding: 'ieee-p1363' as const,
+              }),
+            },
+            signature,
+          );
+        } catch {
+          return false;
+        }
+      });
+    }
+
+    return false;
+  }
+}
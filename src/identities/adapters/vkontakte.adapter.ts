@@ -0,0 +1,103 @@
+import { AuthMethodType } from '../../auth/enums/auth-method-type.enum';
+import {
+  AuthorizationCallbackParams,
+  AuthorizationRequestParams,
+  ExternalProfile,
+} from '../interfaces/identity-provider.interface';
+import {
+  asString,
+  JsonObject,
+  OAuth2ProviderAdapter,
+  ProfileRequestContext,
+} from './oauth2.adapter';
+
+const VK_API_VERSION = '5.131';
+
+/**
+ * ВКонтакте: email и user_id приходят вместе с токеном, профиль - из users.get
+ */
+export class VKontakteProviderAdapter extends OAuth2ProviderAdapter {
+  readonly authMethod = AuthMethodType.VKONTAKTE;
+
+  constructor(clientId: string, clientSecret: string, redirectUri: string) {
+    super(
+      {
+        id: 'vkontakte',
+        type: 'oauth2',
+        displayName: 'ВКонтакте',
+        enabled: true,
+        clientId,
+        clientSecret,
+        authorizationUrl: 'https://oauth.vk.com/authorize',
+        tokenUrl: 'https://oauth.vk.com/access_token',
+        userInfoUrl: 'https://api.vk.com/method/users.get',
+        scopes: ['email'],
+      },
+      redirectUri,
+    );
+  }
+
+  async getAuthorizationUrl(
+    params: AuthorizationRequestParams,
+  ): Promise<string> {
+    const url = new URL(await super.getAuthorizationUrl(params));
+    url.searchParams.set('v', VK_API_VERSION);
+    return url.toString();
+  }
+
+  protected async exchangeCode(
+    params: AuthorizationCallbackParams,
+  ): Promise<JsonObject> {
+    const url = new URL(this.config.tokenUrl!);
+    url.search = new URLSearchParams({
+      client_id: this.config.clientId,
+      client_secret: this.config.clientSecret ?? '',
+      redirect_uri: params.redirectUri,
+      code: params.code,
+    }).toString();
+
+    const data = await this.requestJson(url.toString());
+    if (data.error) {
+      throw this.fail('Провайдер отклонил код авторизации', data);
+    }
+    return data;
+  }
+
+  protected async fetchProfile({
+    tokens,
+    tokenResponse,
+  }: ProfileRequestContext): Promise<ExternalProfile> {
+    const url = new URL(this.config.userInfoUrl!);
+    url.search = new URLSearchParams({
+      user_ids: asString(tokenResponse.user_id) ?? '',
+      fields: 'photo_200,screen_name',
+      access_token: tokens.accessToken,
+      v: VK_API_VERSION,
+    }).toString();
+
+    const data = await this.requestJson(url.toString());
+    const user = Array.isArray(data.response)
+      ? (data.response[0] as JsonObject | undefined)
+      : undefined;
+    if (data.error || !user) {
+      throw this.fail('Не удалось получить профиль пользователя', data);
+    }
+
+    const email =
+      typeof tokenResponse.email === 'string'
+        ? tokenResponse.email.toLowerCase()
+        : null;
+
+    return {
+      subject: asString(user.id) ?? asString(tokenResponse.user_id) ?? '',
+      email,
+      // ВКонтакте не сообщает, подтверждён ли адрес
+      emailVerified: false,
+      firstName: typeof user.first_name === 'string' ? user.first_name : null,
+      lastName: typeof user.last_name === 'string' ? user.last_name : null,
+      username: typeof user.screen_name === 'string' ? user.screen_name : null,
+      avatarUrl: typeof user.photo_200 === 'string' ? user.photo_200 : null,
+      raw: user,
+    };
+  }
+}
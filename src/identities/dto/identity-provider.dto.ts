@@ -0,0 +1,164 @@
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { Type } from 'class-transformer';
+import {
+  IsArray,
+  IsBoolean,
+  IsIn,
+  IsOptional,
+  IsString,
+  IsUrl,
+  Matches,
+  MaxLength,
+  ValidateNested,
+} from 'class-validator';
+import { IDENTITY_PROVIDER_PRESETS } from '../provider-presets';
+
+const URL_OPTIONS = { require_tld: false, require_protocol: true };
+
+export class ProfileClaimsMappingDto {
+  @ApiPropertyOptional({ example: 'sub' })
+  @IsOptional()
+  @IsString()
+  subject?: string;
+
+  @ApiPropertyOptional({ example: 'email' })
+  @IsOptional()
+  @IsString()
+  email?: string;
+
+  @ApiPropertyOptional({ example: 'email_verified' })
+  @IsOptional()
+  @IsString()
+  emailVerified?: string;
+
+  @ApiPropertyOptional({ example: 'given_name' })
+  @IsOptional()
+  @IsString()
+  firstName?: string;
+
+  @ApiPropertyOptional({ example: 'family_name' })
+  @IsOptional()
+  @IsString()
+  lastName?: string;
+
+  @ApiPropertyOptional({ example: 'preferred_username' })
+  @IsOptional()
+  @IsString()
+  username?: string;
+
+  @ApiPropertyOptional({ example: 'picture' })
+  @IsOptional()
+  @IsString()
+  avatarUrl?: string;
+}
+
+export class IdentityProviderDto {
+  @ApiProperty({
+    example: 'keycloak-corp',
+    description: 'Идентификатор провайдера в URL: /auth/oauth/<id>/url',
+  })
+  @Matches(/^[a-z0-9][a-z0-9-]{1,49}$/, {
+    message: 'id: строчные латинские буквы, цифры и дефис (2-50 символов)',
+  })
+  id: string;
+
+  @ApiPropertyOptional({
+    enum: Object.keys(IDENTITY_PROVIDER_PRESETS),
+    description: 'Готовые настройки провайдера',
+  })
+  @IsOptional()
+  @IsIn(Object.keys(IDENTITY_PROVIDER_PRESETS))
+  preset?: string;
+
+  @ApiPropertyOptional({ enum: ['oidc', 'oauth2'] })
+  @IsOptional()
+  @IsIn(['oidc', 'oauth2'])
+  type?: 'oidc' | 'oauth2';
+
+  @ApiPropertyOptional({ example: 'Корпоративный вход' })
+  @IsOptional()
+  @IsString()
+  @MaxLength(100)
+  displayName?: string;
+
+  @ApiProperty({ example: true })
+  @IsBoolean()
+  enabled: boolean;
+
+  @ApiProperty()
+  @IsString()
+  @MaxLength(255)
+  clientId: string;
+
+  @ApiPropertyOptional({
+    description: 'Не передавайте, чтобы оставить сохранённый секрет',
+  })
+  @IsOptional()
+  @IsString()
+  clientSecret?: string;
+
+  @ApiPropertyOptional({ example: 'https://sso.example.com/realms/corp' })
+  @IsOptional()
+  @IsUrl(URL_OPTIONS)
+  issuer?: string;
+
+  @ApiPropertyOptional()
+  @IsOptional()
+  @IsUrl(URL_OPTIONS)
+  authorizationUrl?: string;
+
+  @ApiPropertyOptional()
+  @IsOptional()
+  @IsUrl(URL_OPTIONS)
+  tokenUrl?: string;
+
+  @ApiPropertyOptional()
+  @IsOptional()
+  @IsUrl(URL_OPTIONS)
+  userInfoUrl?: string;
+
+  @ApiPropertyOptional({ example: 'access_token' })
+  @IsOptional()
+  @IsString()
+  userInfoTokenParam?: string;
+
+  @ApiPropertyOptional({ example: ['openid', 'email', 'profile'] })
+  @IsOptional()
+  @IsArray()
+  @IsString({ each: true })
+  scopes?: string[];
+
+  @ApiPropertyOptional()
+  @IsOptional()
+  @IsBoolean()
+  usePkce?: boolean;
+
+  @ApiPropertyOptional({
+    description: 'Считать email подтверждённым без флага email_verified',
+  })
+  @IsOptional()
+  @IsBoolean()
+  trustEmail?: boolean;
+
+  @ApiPropertyOptional({ type: ProfileClaimsMappingDto })
+  @IsOptional()
+  @ValidateNested()
+  @Type(() => ProfileClaimsMappingDto)
+  claims?: ProfileClaimsMappingDto;
+
+  @ApiPropertyOptional({
+    description:
+      'Переопределение адреса callback, зарегистрированного у провайдера',
+  })
+  @IsOptional()
+  @IsUrl(URL_OPTIONS)
+  redirectUri?: string;
+}
+
+export class UpdateIdentityProvidersDto {
+  @ApiProperty({ type: [IdentityProviderDto] })
+  @IsArray()
+  @ValidateNested({ each: true })
+  @Type(() => IdentityProviderDto)
+  providers: IdentityProviderDto[];
+}
@@ -0,0 +1,49 @@
+import {
+  Entity,
+  PrimaryGeneratedColumn,
+  Column,
+  CreateDateColumn,
+  Index,
+} from 'typeorm';
+
+export enum OAuthStatePurpose {
+  LOGIN = 'login',
+  BIND = 'bind', // Привязка провайдера к пользователю из JWT
+}
+
+/**
+ * Одноразовый state авторизации у внешнего провайдера (защита от CSRF и подмены ответа)
+ */
+@Entity('oauth_states')
+@Index(['expiresAt'])
+export class OAuthState {
+  @PrimaryGeneratedColumn('uuid')
+  id: string;
+
+  @Column({ type: 'varchar', length: 64, unique: true })
+  stateHash: string; // SHA-256 от state
+
+  @Column({ type: 'varchar', length: 50 })
+  provider: string;
+
+  @Column({ type: 'varchar', length: 20 })
+  purpose: OAuthStatePurpose;
+
+  @Column({ type: 'uuid', nullable: true })
+  userId: string | null; // Только для привязки
+
+  @Column({ type: 'varchar', length: 128 })
+  nonce: string;
+
+  @Column({ type: 'varchar', length: 128 })
+  codeVerifier: string; // PKCE
+
+  @Column({ type: 'varchar', length: 1000 })
+  redirectUri: string;
+
+  @Column({ type: 'timestamp' })
+  expiresAt: Date;
+
+  @CreateDateColumn()
+  createdAt: Date;
+}
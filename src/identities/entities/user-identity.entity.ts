@@ -0,0 +1,68 @@
+import {
+  Entity,
+  PrimaryGeneratedColumn,
+  Column,
+  CreateDateColumn,
+  UpdateDateColumn,
+  ManyToOne,
+  JoinColumn,
+  Index,
+} from 'typeorm';
+import { User } from '../../users/entities/user.entity';
+
+/**
+ * Внешняя учётная запись пользователя у OAuth/OIDC-провайдера
+ */
+@Entity('user_identities')
+@Index(['provider', 'subject'], { unique: true })
+@Index(['userId'])
+export class UserIdentity {
+  @PrimaryGeneratedColumn('uuid')
+  id: string;
+
+  @Column({ type: 'uuid' })
+  userId: string;
+
+  @Column({ type: 'varchar', length: 50 })
+  provider: string; // id провайдера: github, google, keycloak-corp...
+
+  @Column({ type: 'varchar', length: 255 })
+  subject: string; // Идентификатор пользователя у провайдера (sub)
+
+  @Column({ type: 'varchar', length: 255, nullable: true })
+  email: string | null;
+
+  @Column({ type: 'boolean', default: false })
+  emailVerified: boolean;
+
+  @Column({ type: 'varchar', length: 255, nullable: true })
+  username: string | null;
+
+  @Column({ type: 'jsonb', default: '{}' })
+  profile: Record<string, unknown>; // Исходный профиль от провайдера
+
+  @Column({ type: 'text', nullable: true, select: false })
+  accessToken: string | null; // Зашифрован
+
+  @Column({ type: 'text', nullable: true, select: false })
+  refreshToken: string | null; // Зашифрован
+
+  @Column({ type: 'timestamp', nullable: true })
+  tokenExpiresAt: Date | null;
+
+  @Column({ type: 'jsonb', default: '[]' })
+  scopes: string[];
+
+  @Column({ type: 'timestamp', nullable: true })
+  lastLoginAt: Date | null;
+
+  @CreateDateColumn()
+  createdAt: Date;
+
+  @UpdateDateColumn()
+  updatedAt: Date;
+
+  @ManyToOne(() => User, { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'userId' })
+  user: User;
+}
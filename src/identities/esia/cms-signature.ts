@@ -0,0 +1,233 @@
+import { createHash, KeyObject, sign, verify, X509Certificate } from 'crypto';
+
+// OID из RFC 5652 (CMS), RFC 5754 (SHA-2) и RFC 5758 (ECDSA)
+const OID_DATA = '1.2.840.113549.1.7.1';
+const OID_SIGNED_DATA = '1.2.840.113549.1.7.2';
+const OID_CONTENT_TYPE = '1.2.840.113549.1.9.3';
+const OID_MESSAGE_DIGEST = '1.2.840.113549.1.9.4';
+const OID_SIGNING_TIME = '1.2.840.113549.1.9.5';
+const OID_SHA256 = '2.16.840.1.101.3.4.2.1';
+const OID_RSA_ENCRYPTION = '1.2.840.113549.1.1.1';
+const OID_ECDSA_SHA256 = '1.2.840.10045.4.3.2';
+
+const TAG_INTEGER = 0x02;
+const TAG_OCTET_STRING = 0x04;
+const TAG_OID = 0x06;
+const TAG_UTC_TIME = 0x17;
+const TAG_SEQUENCE = 0x30;
+const TAG_SET = 0x31;
+const TAG_CONTEXT_0 = 0xa0;
+
+const DER_NULL = Buffer.from([0x05, 0x00]);
+
+interface DerNode {
+  tag: number;
+  contentStart: number;
+  end: number;
+  raw: Buffer;
+}
+
+/**
+ * Отсоединённая подпись CMS SignedData (PKCS#7) с сертификатом подписанта.
+ * Так ЕСИА ожидает client_secret; ключи RSA и ECDSA, хеш SHA-256
+ */
+export function signDetached(
+  content: Buffer,
+  privateKey: KeyObject,
+  certificate: X509Certificate,
+  signingTime = new Date(),
+): Buffer {
+  const isRsa = privateKey.asymmetricKeyType === 'rsa';
+  if (!isRsa && privateKey.asymmetricKeyType !== 'ec') {
+    throw new Error(
+      `Ключ ${privateKey.asymmetricKeyType} не поддерживается, используйте внешнюю подпись`,
+    );
+  }
+
+  const digestAlgorithm = sequence(oid(OID_SHA256), DER_NULL);
+  const signedAttributes = set(
+    sequence(oid(OID_CONTENT_TYPE), set(oid(OID_DATA))),
+    sequence(oid(OID_SIGNING_TIME), set(utcTime(signingTime))),
+    sequence(
+      oid(OID_MESSAGE_DIGEST),
+      set(tlv(TAG_OCTET_STRING, createHash('sha256').update(content).digest())),
+    ),
+  );
+  // Подписываются атрибуты в кодировке SET, в SignerInfo они лежат как [0] IMPLICIT
+  const signature = sign('sha256', signedAttributes, privateKey);
+
+  const signerInfo = sequence(
+    integer(1),
+    issuerAndSerialNumber(certificate.raw),
+    digestAlgorithm,
+    retag(signedAttributes, TAG_CONTEXT_0),
+    isRsa
+      ? sequence(oid(OID_RSA_ENCRYPTION), DER_NULL)
+      : sequence(oid(OID_ECDSA_SHA256)),
+    tlv(TAG_OCTET_STRING, signature),
+  );
+  const signedData = sequence(
+    integer(1),
+    set(digestAlgorithm),
+    sequence(oid(OID_DATA)),
+    tlv(TAG_CONTEXT_0, certificate.raw),
+    set(signerInfo),
+  );
+
+  return sequence(oid(OID_SIGNED_DATA), tlv(TAG_CONTEXT_0, signedData));
+}
+
+/**
+ * Проверка отсоединённой подписи signDetached; возвращает сертификат подписанта
+ */
+export function verifyDetached(
+  signature: Buffer,
+  content: Buffer,
+): X509Certificate | null {
+  try {
+    const [, explicit] = children(signature, readNode(signature, 0));
+    const signedData = children(signature, explicit)[0];
+    const parts = children(signature, signedData);
+    const certificates = parts.find((part) => part.tag === TAG_CONTEXT_0);
+    const signerInfos = parts[parts.length - 1];
+    if (!certificates || signerInfos.tag !== TAG_SET) {
+      return null;
+    }
+
+    const certificate = new X509Certificate(
+      children(signature, certificates)[0].raw,
+    );
+    const signerInfo = children(signature, signerInfos)[0];
+    const fields = children(signature, signerInfo);
+    const attributes = fields.find((field) => field.tag === TAG_CONTEXT_0);
+    const value = fields[fields.length - 1];
+    if (!attributes || value.tag !== TAG_OCTET_STRING) {
+      return null;
+    }
+
+    const digest = children(signature, attributes)
+      .map((attribute) => children(signature, attribute))
+      .find(([type]) => type.raw.equals(oid(OID_MESSAGE_DIGEST)));
+    const expected = createHash('sha256').update(content).digest();
+    const actual = digest && children(signature, digest[1])[0];
+    if (!actual || !contentOf(signature, actual).equals(expected)) {
+      return null;
+    }
+
+    const valid = verify(
+      'sha256',
+      retag(attributes.raw, TAG_SET),
+      certificate.publicKey,
+      contentOf(signature, value),
+    );
+    return valid ? certificate : null;
+  } catch {
+    return null;
+  }
+}
+
+// Кодирование DER
+
+function tlv(tag: number, ...parts: Buffer[]): Buffer {
+  const body = Buffer.concat(parts);
+  return Buffer.concat([Buffer.from([tag]), encodeLength(body.length), body]);
+}
+
+function encodeLength(length: number): Buffer {
+  if (length < 0x80) {
+    return Buffer.from([length]);
+  }
+  const bytes: number[] = [];
+  for (let rest = length; rest > 0; rest = Math.floor(rest / 256)) {
+    bytes.unshift(rest % 256);
+  }
+  return Buffer.from([0x80 | bytes.length, ...bytes]);
+}
+
+function sequence(...parts: Buffer[]): Buffer {
+  return tlv(TAG_SEQUENCE, ...parts);
+}
+
+/**
+ * SET OF в DER: элементы упорядочены по кодировке
+ */
+function set(...parts: Buffer[]): Buffer {
+  return tlv(TAG_SET, ...[...parts].sort((a, b) => Buffer.compare(a, b)));
+}
+
+function integer(value: number): Buffer {
+  return tlv(TAG_INTEGER, Buffer.from([value]));
+}
+
+function oid(value: string): Buffer {
+  const [first, second, ...rest] = value.split('.').map(Number);
+  const bytes = [first * 40 + second];
+  for (const arc of rest) {
+    const chunk = [arc % 128];
+    for (
+      let high = Math.floor(arc / 128);
+      high > 0;
+      high = Math.floor(high / 128)
+    ) {
+      chunk.unshift(high % 128 | 0x80);
+    }
+    bytes.push(...chunk);
+  }
+  return tlv(TAG_OID, Buffer.from(bytes));
+}
+
+function utcTime(date: Date): Buffer {
+  const value = date.toISOString().replace(/[-:T]/g, '').slice(2, 14);
+  return tlv(TAG_UTC_TIME, Buffer.from(`${value}Z`, 'ascii'));
+}
+
+function retag(encoded: Buffer, tag: number): Buffer {
+  return Buffer.concat([Buffer.from([tag]), encoded.subarray(1)]);
+}
+
+/**
+ * IssuerAndSerialNumber из tbsCertificate (RFC 5280)
+ */
+function issuerAndSerialNumber(certificate: Buffer): Buffer {
+  const [tbs] = children(certificate, readNode(certificate, 0));
+  const fields = children(certificate, tbs);
+  const offset = fields[0].tag === TAG_CONTEXT_0 ? 1 : 0;
+  const serial = fields[offset];
+  const issuer = fields[offset + 2];
+  return sequence(issuer.raw, serial.raw);
+}
+
+// Чтение DER
+
+function readNode(buffer: Buffer, offset: number): DerNode {
+  const tag = buffer[offset];
+  let length = buffer[offset + 1];
+  let contentStart = offset + 2;
+  if (length & 0x80) {
+    const count = length & 0x7f;
+    length = 0;
+    for (let i = 0; i < count; i++) {
+      length = length * 256 + buffer[contentStart + i];
+    }
+    contentStart += count;
+  }
+  const end = contentStart + length;
+  if (end > buffer.length) {
+    throw new Error('Некорректная DER-структура');
+  }
+  return { tag, contentStart, end, raw: buffer.subarray(offset, end) };
+}
+
+function children(buffer: Buffer, node: DerNode): DerNode[] {
+  const result: DerNode[] = [];
+  for (let offset = node.contentStart; offset < node.end; ) {
+    const child = readNode(buffer, offset);
+    result.push(child);
+    offset = child.end;
+  }
+  return result;
+}
+
+function contentOf(buffer: Buffer, node: DerNode): Buffer {
+  return buffer.subarray(node.contentStart, node.end);
+}
@@ -0,0 +1,143 @@
+import { spawn } from 'child_process';
+import { createPrivateKey, KeyObject, X509Certificate } from 'crypto';
+import { signDetached } from './cms-signature';
+
+const SIGN_TIMEOUT_MS = 10_000;
+
+/**
+ * Подпись client_secret для ЕСИА: отсоединённая подпись CMS (DER)
+ */
+export interface EsiaSigner {
+  sign(content: string): Promise<Buffer>;
+}
+
+export interface EsiaSignerConfig {
+  signer: string; // pkcs12 | command
+  pkcs12Path: string;
+  pkcs12Password: string;
+  opensslPath: string;
+  signCommand: string;
+}
+
+/**
+ * Ключ и сертификат из файла PKCS#12 (RSA/ECDSA - тестовая среда и эмулятор).
+ * Контейнер расшифровывается утилитой openssl один раз, подпись считается в процессе
+ */
+export class Pkcs12EsiaSigner implements EsiaSigner {
+  private credentials?: Promise<{
+    privateKey: KeyObject;
+    certificate: X509Certificate;
+  }>;
+
+  constructor(
+    private readonly path: string,
+    private readonly password: string,
+    private readonly opensslPath = 'openssl',
+  ) {}
+
+  async sign(content: string): Promise<Buffer> {
+    this.credentials ??= this.load();
+    const { privateKey, certificate } = await this.credentials.catch(
+      (error: Error) => {
+        this.credentials = undefined;
+        throw error;
+      },
+    );
+    return signDetached(Buffer.from(content, 'utf8'), privateKey, certificate);
+  }
+
+  private async load() {
+    // Пароль передаётся через окружение, а не аргументом командной строки
+    const pem = (
+      await run(
+        this.opensslPath,
+        [
+          'pkcs12',
+          '-in',
+          this.path,
+          '-nodes',
+          '-passin',
+          'env:ESIA_PKCS12_PASSWORD',
+        ],
+        undefined,
+        { ESIA_PKCS12_PASSWORD: this.password },
+      )
+    ).toString('utf8');
+
+    const key =
+      /-----BEGIN ([A-Z ]*)PRIVATE KEY-----[\s\S]+?-----END \1PRIVATE KEY-----/.exec(
+        pem,
+      );
+    const certificate =
+      /-----BEGIN CERTIFICATE-----[\s\S]+?-----END CERTIFICATE-----/.exec(pem);
+    if (!key || !certificate) {
+      throw new Error(`В ${this.path} нет ключа или сертификата`);
+    }
+
+    return {
+      privateKey: createPrivateKey(key[0]),
+      certificate: new X509Certificate(certificate[0]),
+    };
+  }
+}
+
+/**
+ * Внешняя команда: подписываемая строка на stdin, подпись CMS в DER на stdout.
+ * Для ГОСТ-ключей (openssl с движком gost, КриптоПро)
+ */
+export class CommandEsiaSigner implements EsiaSigner {
+  constructor(private readonly command: string) {}
+
+  sign(content: string): Promise<Buffer> {
+    return run('/bin/sh', ['-c', this.command], Buffer.from(content, 'utf8'));
+  }
+}
+
+export function createEsiaSigner(config: EsiaSignerConfig): EsiaSigner {
+  switch (config.signer) {
+    case 'pkcs12':
+      if (!config.pkcs12Path) {
+        throw new Error('Не задан GOSUSLUGI_PKCS12_PATH');
+      }
+      return new Pkcs12EsiaSigner(
+        config.pkcs12Path,
+        config.pkcs12Password,
+        config.opensslPath,
+      );
+    case 'command':
+      if (!config.signCommand) {
+        throw new Error('Не задан GOSUSLUGI_SIGN_COMMAND');
+      }
+      return new CommandEsiaSigner(config.signCommand);
+    default:
+      throw new Error(`Неизвестный способ подписи ЕСИА: ${config.signer}`);
+  }
+}
+
+function run(
+  file: string,
+  args: string[],
+  input?: Buffer,
+  env: Record<string, string> = {},
+): Promise<Buffer> {
+  return new Promise((resolve, reject) => {
+    const child = spawn(file, args, {
+      env: { ...process.env, ...env },
+      timeout: SIGN_TIMEOUT_MS,
+    });
+    const stdout: Buffer[] = [];
+    const stderr: Buffer[] = [];
+    child.stdout.on('data', (chunk: Buffer) => stdout.push(chunk));
+    child.stderr.on('data', (chunk: Buffer) => stderr.push(chunk));
+    child.on('error', reject);
+    child.on('close', (code) => {
+      if (code === 0) {
+        resolve(Buffer.concat(stdout));
+      } else {
+        const message = Buffer.concat(stderr).toString('utf8').trim();
+        reject(new Error(`${file} завершился с кодом ${code}: ${message}`));
+      }
+    });
+    child.stdin.end(input);
+  });
+}
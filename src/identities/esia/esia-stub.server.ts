@@ -0,0 +1,283 @@
+import { createServer, IncomingMessage, Server, ServerResponse } from 'http';
+import { randomBytes, randomUUID } from 'crypto';
+import { verifyDetached } from './cms-signature';
+
+/**
+ * Эмулятор ЕСИА для офлайн-тестов входа через Госуслуги:
+ * /aas/oauth2/ac, /aas/oauth2/te и /rs/prns/{oid} (ctts, docs).
+ * Подпись client_secret проверяется, если она RSA/ECDSA (ключ PKCS#12 из тестов)
+ *
+ *   npm run esia:stub
+ *   GOSUSLUGI_BASE_URL=http://localhost:3999 GOSUSLUGI_CLIENT_ID=LOGINUS ...
+ */
+
+export interface EsiaStubPerson {
+  oid: string;
+  firstName: string;
+  lastName: string;
+  middleName?: string;
+  trusted: boolean;
+  snils?: string;
+  email?: string;
+  emailVerified?: boolean;
+  mobile?: string;
+  mobileVerified?: boolean;
+}
+
+export interface EsiaStubOptions {
+  verifySignatures?: boolean;
+  person?: EsiaStubPerson;
+}
+
+interface IssuedCode {
+  clientId: string;
+  redirectUri: string;
+  scope: string;
+  expiresAt: number;
+}
+
+const CODE_TTL_MS = 60_000;
+
+const DEFAULT_PERSON: EsiaStubPerson = {
+  oid: '1000000001',
+  firstName: 'Иван',
+  lastName: 'Иванов',
+  middleName: 'Иванович',
+  trusted: true,
+  snils: '000-000-600 06',
+  email: 'ivanov@example.com',
+  emailVerified: true,
+  mobile: '+7(900)0000001',
+  mobileVerified: true,
+};
+
+export function createEsiaStubServer(options: EsiaStubOptions = {}): Server {
+  const person = options.person ?? DEFAULT_PERSON;
+  const verifySignatures = options.verifySignatures ?? true;
+  const codes = new Map<string, IssuedCode>();
+  const tokens = new Set<string>();
+
+  const checkSignature = (params: URLSearchParams): string | null => {
+    for (const name of [
+      'client_id',
+      'client_secret',
+      'scope',
+      'state',
+      'timestamp',
+    ]) {
+      if (!params.get(name)) {
+        return `Отсутствует параметр ${name}`;
+      }
+    }
+    if (
+      !/^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i.test(
+        params.get('state')!,
+      )
+    ) {
+      return 'state должен быть UUID';
+    }
+    if (
+      !/^\d{4}\.\d{2}\.\d{2} \d{2}:\d{2}:\d{2} [+-]\d{4}$/.test(
+        params.get('timestamp')!,
+      )
+    ) {
+      return 'Неверный формат timestamp';
+    }
+    if (!verifySignatures) {
+      return null;
+    }
+
+    const content = `${params.get('scope')}${params.get('timestamp')}${params.get('client_id')}${params.get('state')}`;
+    const signature = Buffer.from(params.get('client_secret')!, 'base64url');
+    return verifyDetached(signature, Buffer.from(content, 'utf8'))
+      ? null
+      : 'Неверная подпись client_secret';
+  };
+
+  const authorize = (url: URL, res: ServerResponse) => {
+    const error = checkSignature(url.searchParams);
+    const redirectUri = url.searchParams.get('redirect_uri');
+    if (error || !redirectUri) {
+      return sendJson(res, 400, {
+        error: 'invalid_request',
+        error_description: error ?? 'Отсутствует redirect_uri',
+      });
+    }
+
+    const code = randomBytes(16).toString('hex');
+    codes.set(code, {
+      clientId: url.searchParams.get('client_id')!,
+      redirectUri,
+      scope: url.searchParams.get('scope')!,
+      expiresAt: Date.now() + CODE_TTL_MS,
+    });
+
+    const target = new URL(redirectUri);
+    target.searchParams.set('code', code);
+    target.searchParams.set('state', url.searchParams.get('state')!);
+    res.writeHead(302, { Location: target.toString() });
+    res.end();
+  };
+
+  const exchange = async (req: IncomingMessage, res: ServerResponse) => {
+    const params = new URLSearchParams(await readBody(req));
+    const error = checkSignature(params);
+    if (error) {
+      return sendJson(res, 400, {
+        error: 'invalid_client',
+        error_description: error,
+      });
+    }
+
+    const code = params.get('code') ?? '';
+    const issued = codes.get(code);
+    codes.delete(code);
+    if (
+      !issued ||
+      issued.expiresAt < Date.now() ||
+      issued.clientId !== params.get('client_id') ||
+      issued.redirectUri !== params.get('redirect_uri')
+    ) {
+      return sendJson(res, 400, { error: 'invalid_grant' });
+    }
+
+    const now = Math.floor(Date.now() / 1000);
+    const accessToken = unsignedJwt({
+      'urn:esia:sbj_id': Number(person.oid),
+      'urn:esia:client_id': issued.clientId,
+      scope: issued.scope,
+      iss: 'http://esia.gosuslugi.ru/',
+      nbf: now,
+      exp: now + 3600,
+      iat: now,
+    });
+    tokens.add(accessToken);
+
+    sendJson(res, 200, {
+      access_token: accessToken,
+      id_token: unsignedJwt({
+        sub: Number(person.oid),
+        aud: issued.clientId,
+        iss: 'http://esia.gosuslugi.ru/',
+        exp: now + 3600,
+        iat: now,
+      }),
+      refresh_token: randomUUID(),
+      state: params.get('state'),
+      token_type: 'Bearer',
+      expires_in: 3600,
+    });
+  };
+
+  const personData = (path: string, res: ServerResponse) => {
+    const [, resource] = path.split(`/rs/prns/${person.oid}`);
+    const verified = (flag?: boolean) => (flag ? 'VERIFIED' : 'NOT_VERIFIED');
+
+    switch (resource) {
+      case '':
+        return sendJson(res, 200, {
+          firstName: person.firstName,
+          lastName: person.lastName,
+          middleName: person.middleName,
+          trusted: person.trusted,
+          ...(person.snils ? { snils: person.snils } : {}),
+          status: 'REGISTERED',
+          verifying: false,
+        });
+      case '/ctts':
+        return sendJson(res, 200, {
+          elements: [
+            ...(person.email
+              ? [
+                  {
+                    type: 'EML',
+                    vrfStu: verified(person.emailVerified),
+                    value: person.email,
+                  },
+                ]
+              : []),
+            ...(person.mobile
+              ? [
+                  {
+                    type: 'MBT',
+                    vrfStu: verified(person.mobileVerified),
+                    value: person.mobile,
+                  },
+                ]
+              : []),
+          ],
+        });
+      case '/docs':
+        return sendJson(res, 200, {
+          elements: [
+            {
+              type: 'RF_PASSPORT',
+              vrfStu: 'VERIFIED',
+              series: '0000',
+              number: '000000',
+            },
+          ],
+        });
+      default:
+        return sendJson(res, 404, {
+          code: 'ESIA-005011',
+          message: 'Not found',
+        });
+    }
+  };
+
+  return createServer((req, res) => {
+    const url = new URL(req.url ?? '/', 'http://localhost');
+
+    if (req.method === 'GET' && url.pathname === '/aas/oauth2/ac') {
+      return authorize(url, res);
+    }
+    if (req.method === 'POST' && url.pathname === '/aas/oauth2/te') {
+      exchange(req, res).catch(() =>
+        sendJson(res, 500, { error: 'server_error' }),
+      );
+      return;
+    }
+    if (req.method === 'GET' && url.pathname.startsWith('/rs/prns/')) {
+      const token = (req.headers.authorization ?? '').replace(/^Bearer /, '');
+      if (!tokens.has(token)) {
+        return sendJson(res, 401, {
+          code: 'ESIA-005001',
+          message: 'Unauthorized',
+        });
+      }
+      return personData(url.pathname, res);
+    }
+
+    sendJson(res, 404, { error: 'not_found' });
+  });
+}
+
+function unsignedJwt(payload: Record<string, unknown>): string {
+  const encode = (value: object) =>
+    Buffer.from(JSON.stringify(value)).toString('base64url');
+  return `${encode({ alg: 'none', typ: 'JWT', sbt: 'access' })}.${encode(payload)}.`;
+}
+
+function sendJson(res: ServerResponse, status: number, body: unknown) {
+  res.writeHead(status, { 'Content-Type': 'application/json; charset=utf-8' });
+  res.end(JSON.stringify(body));
+}
+
+function readBody(req: IncomingMessage): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const chunks: Buffer[] = [];
+    req.on('data', (chunk: Buffer) => chunks.push(chunk));
+    req.on('end', () => resolve(Buffer.concat(chunks).toString('utf8')));
+    req.on('error', reject);
+  });
+}
+
+if (require.main === module) {
+  const port = parseInt(process.env.ESIA_STUB_PORT || '3999', 10);
+  createEsiaStubServer({
+    verifySignatures: process.env.ESIA_STUB_VERIFY_SIGNATURES !== 'false',
+  }).listen(port, () => {
+    console.log(`🏛️ Эмулятор ЕСИА запущен: http://localhost:${port}`);
+  });
+}
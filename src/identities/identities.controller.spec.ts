@@ -0,0 +1,205 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { ConfigService } from '@nestjs/config';
+import { BadRequestException } from '@nestjs/common';
+import type { Request, Response } from 'express';
+import { IdentitiesController } from './identities.controller';
+import { IdentitiesService } from './identities.service';
+import { IdentityProvidersService } from './identity-providers.service';
+import { OAUTH_STATE_COOKIE, OAuthStateService } from './oauth-state.service';
+import { OAuthStatePurpose } from './entities/oauth-state.entity';
+import { AuthService } from '../auth/auth.service';
+import { LoginAttemptChannel } from '../auth/entities/login-attempt.entity';
+
+describe('IdentitiesController', () => {
+  let controller: IdentitiesController;
+
+  const config: Record<string, unknown> = {
+    'identityProviders.stateTtl': 600,
+    'identityProviders.successRedirectUrl': 'https://app.example.com/dashboard',
+    'identityProviders.errorRedirectUrl': 'https://app.example.com/login',
+  };
+
+  const cookieOptions = { httpOnly: true, sameSite: 'lax', path: '/' };
+
+  const mockIdentitiesService = {
+    getAuthorizationUrl: jest.fn(),
+    handleCallback: jest.fn(),
+  };
+
+  const mockAuthService = {
+    loginVerifiedUser: jest.fn(),
+  };
+
+  const mockOAuthStateService = {
+    cookieOptions: jest.fn(() => cookieOptions),
+  };
+
+  const res = {
+    cookie: jest.fn(),
+    clearCookie: jest.fn(),
+    redirect: jest.fn<void, [string]>(),
+  };
+
+  const callbackRequest = {
+    ip: '10.0.0.1',
+    headers: {
+      'user-agent': 'jest',
+      cookie: `theme=dark; ${OAUTH_STATE_COOKIE}=state-1`,
+    },
+  } as unknown as Request;
+
+  const redirectedTo = () => new URL(res.redirect.mock.calls[0][0]);
+
+  beforeEach(async () => {
+    jest.clearAllMocks();
+
+    const module: TestingModule = await Test.createTestingModule({
+      controllers: [IdentitiesController],
+      providers: [
+        {
+          provide: IdentitiesService,
+          useValue: mockIdentitiesService,
+        },
+        {
+          provide: IdentityProvidersService,
+          useValue: {},
+        },
+        {
+          provide: AuthService,
+          useValue: mockAuthService,
+        },
+        {
+          provide: OAuthStateService,
+          useValue: mockOAuthStateService,
+        },
+        {
+          provide: ConfigService,
+          useValue: { get: jest.fn((key: string) => config[key]) },
+        },
+      ],
+    }).compile();
+
+    controller = module.get<IdentitiesController>(IdentitiesController);
+  });
+
+  it('should bind the state to the browser with an HttpOnly cookie', async () => {
+    mockIdentitiesService.getAuthorizationUrl.mockResolvedValue({
+      url: 'https://provider.example.com/authorize?state=state-1',
+      state: 'state-1',
+    });
+
+    await expect(
+      controller.getLoginUrl('google', res as unknown as Response),
+    ).resolves.toEqual({
+      url: 'https://provider.example.com/authorize?state=state-1',
+    });
+    expect(res.cookie).toHaveBeenCalledWith(OAUTH_STATE_COOKIE, 'state-1', {
+      ...cookieOptions,
+      maxAge: 600_000,
+    });
+  });
+
+  describe('callback', () => {
+    beforeEach(() => {
+      mockIdentitiesService.handleCallback.mockResolvedValue({
+        user: { id: 'user-1' },
+        purpose: OAuthStatePurpose.LOGIN,
+        provider: 'google',
+        created: false,
+      });
+    });
+
+    it('should check the state against the cookie and clear it', async () => {
+      mockAuthService.loginVerifiedUser.mockResolvedValue({
+        accessToken: 'access-token',
+        refreshToken: 'refresh-token',
+      });
+
+      await controller.handleCallback(
+        'google',
+        { code: 'code-1', state: 'state-1' },
+        callbackRequest,
+        res as unknown as Response,
+      );
+
+      expect(mockIdentitiesService.handleCallback).toHaveBeenCalledWith(
+        'google',
+        { code: 'code-1', state: 'state-1' },
+        'state-1',
+      );
+      expect(res.clearCookie).toHaveBeenCalledWith(
+        OAUTH_STATE_COOKIE,
+        cookieOptions,
+      );
+      expect(mockAuthService.loginVerifiedUser).toHaveBeenCalledWith(
+        'user-1',
+        LoginAttemptChannel.OAUTH,
+        { ipAddress: '10.0.0.1', userAgent: 'jest' },
+      );
+    });
+
+    it('should pass tokens in the fragment, not in the query string', async () => {
+      mockAuthService.loginVerifiedUser.mockResolvedValue({
+        accessToken: 'access-token',
+        refreshToken: 'refresh-token',
+      });
+
+      await controller.handleCallback(
+        'google',
+        { code: 'code-1', state: 'state-1' },
+        callbackRequest,
+        res as unknown as Response,
+      );
+
+      const url = redirectedTo();
+      expect(url.search).toBe('');
+      const fragment = new URLSearchParams(url.hash.slice(1));
+      expect(fragment.get('token')).toBe('access-token');
+      expect(fragment.get('refreshToken')).toBe('refresh-token');
+    });
+
+    it('should pass the login token in the fragment when 2FA is required', async () => {
+      mockAuthService.loginVerifiedUser.mockResolvedValue({
+        requires2FA: true,
+        loginToken: 'login-token',
+        methods: ['totp'],
+      });
+
+      await controller.handleCallback(
+        'google',
+        { code: 'code-1', state: 'state-1' },
+        callbackRequest,
+        res as unknown as Response,
+      );
+
+      const url = redirectedTo();
+      expect(url.search).toBe('');
+      expect(new URLSearchParams(url.hash.slice(1)).get('loginToken')).toBe(
+        'login-token',
+      );
+    });
+
+    it('should redirect to the error page when the state is not bound', async () => {
+      mockIdentitiesService.handleCallback.mockRejectedValueOnce(
+        new BadRequestException('Вход начат в другом браузере'),
+      );
+
+      await controller.handleCallback(
+        'google',
+        { code: 'code-1', state: 'state-1' },
+        { ...callbackRequest, headers: {} } as Request,
+        res as unknown as Response,
+      );
+
+      expect(mockIdentitiesService.handleCallback).toHaveBeenCalledWith(
+        'google',
+        { code: 'code-1', state: 'state-1' },
+        undefined,
+      );
+      expect(redirectedTo().origin + redirectedTo().pathname).toBe(
+        'https://app.example.com/login',
+      );
+      expect(mockAuthService.loginVerifiedUser).not.toHaveBeenCalled();
+    });
+  });
+});
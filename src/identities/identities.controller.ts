@@ -0,0 +1,271 @@
+import {
+  Body,
+  Controller,
+  Delete,
+  Get,
+  HttpException,
+  Logger,
+  Param,
+  ParseUUIDPipe,
+  Post,
+  Put,
+  Query,
+  Req,
+  Res,
+} from '@nestjs/common';
+import {
+  ApiTags,
+  ApiOperation,
+  ApiResponse,
+  ApiBearerAuth,
+  ApiQuery,
+} from '@nestjs/swagger';
+import { ConfigService } from '@nestjs/config';
+import type { Request, Response } from 'express';
+import { IdentitiesService } from './identities.service';
+import type { OAuthCallbackQuery } from './identities.service';
+import { IdentityProvidersService } from './identity-providers.service';
+import { OAUTH_STATE_COOKIE, OAuthStateService } from './oauth-state.service';
+import { OAuthStatePurpose } from './entities/oauth-state.entity';
+import { UpdateIdentityProvidersDto } from './dto/identity-provider.dto';
+import { AuthService } from '../auth/auth.service';
+import { LoginAttemptChannel } from '../auth/entities/login-attempt.entity';
+import { CurrentUser } from '../auth/decorators/current-user.decorator';
+import { Public } from '../auth/decorators/public.decorator';
+import { RequirePermissions } from '../auth/decorators/permissions.decorator';
+
+@ApiTags('identities')
+@Controller()
+export class IdentitiesController {
+  private readonly logger = new Logger(IdentitiesController.name);
+
+  constructor(
+    private readonly identitiesService: IdentitiesService,
+    private readonly identityProvidersService: IdentityProvidersService,
+    private readonly authService: AuthService,
+    private readonly oauthStateService: OAuthStateService,
+    private readonly configService: ConfigService,
+  ) {}
+
+  @Get('auth/oauth/providers')
+  @Public()
+  @ApiOperation({ summary: 'Доступные внешние провайдеры входа' })
+  @ApiResponse({ status: 200, description: 'Список провайдеров' })
+  async listProviders() {
+    return this.identityProvidersService.listEnabled();
+  }
+
+  @Get('auth/oauth/:provider/url')
+  @Public()
+  @ApiOperation({ summary: 'URL для входа через внешний провайдер' })
+  @ApiResponse({ status: 200, description: 'URL авторизации' })
+  @ApiResponse({ status: 404, description: 'Провайдер не настроен' })
+  async getLoginUrl(
+    @Param('provider') provider: string,
+    @Res({ passthrough: true }) res: Response,
+  ) {
+    const { url, state } = await this.identitiesService.getAuthorizationUrl(
+      provider,
+      OAuthStatePurpose.LOGIN,
+    );
+    this.setStateCookie(res, state);
+    return { url };
+  }
+
+  @Post('auth/oauth/:provider/bind')
+  @ApiBearerAuth()
+  @ApiOperation({
+    summary: 'URL для привязки внешнего провайдера к текущему пользователю',
+  })
+  @ApiResponse({ status: 201, description: 'URL авторизации' })
+  async getBindUrl(
+    @Param('provider') provider: string,
+    @CurrentUser() user: { userId: string },
+    @Res({ passthrough: true }) res: Response,
+  ) {
+    const { url, state } = await this.identitiesService.getAuthorizationUrl(
+      provider,
+      OAuthStatePurpose.BIND,
+      user.userId,
+    );
+    this.setStateCookie(res, state);
+    return { url };
+  }
+
+  @Get('auth/oauth/:provider/callback')
+  @Public()
+  @ApiOperation({ summary: 'Callback внешнего провайдера' })
+  @ApiQuery({ name: 'code', required: false })
+  @ApiQuery({ name: 'state', required: false })
+  async handleCallback(
+    @Param('provider') provider: string,
+    @Query() query: OAuthCallbackQuery,
+    @Req() req: Request,
+    @Res() res: Response,
+  ) {
+    return this.completeCallback(provider, query, req, res);
+  }
+
+  // Старые адреса multi-auth: зарегистрированы как redirect_uri у GitHub и ВКонтакте
+
+  @Get('auth/multi/oauth/github/url')
+  @Public()
+  @ApiOperation({ summary: 'URL для авторизации через GitHub (устарело)' })
+  async getGitHubAuthUrl(@Res({ passthrough: true }) res: Response) {
+    return this.getLoginUrl('github', res);
+  }
+
+  @Get('auth/multi/oauth/vkontakte')
+  @Public()
+  @ApiOperation({ summary: 'URL для авторизации через ВКонтакте (устарело)' })
+  async getVKontakteAuthUrl(@Res({ passthrough: true }) res: Response) {
+    const { url } = await this.getLoginUrl('vkontakte', res);
+    return { authUrl: url };
+  }
+
+  @Get('auth/multi/oauth/gosuslugi')
+  @Public()
+  @ApiOperation({ summary: 'URL для авторизации через Госуслуги (устарело)' })
+  async getGosuslugiAuthUrl(@Res({ passthrough: true }) res: Response) {
+    const { url } = await this.getLoginUrl('gosuslugi', res);
+    return { authUrl: url };
+  }
+
+  @Get('auth/multi/oauth/:provider/callback')
+  @Public()
+  @ApiOperation({ summary: 'Callback провайдера по старому адресу (устарело)' })
+  async handleLegacyCallback(
+    @Param('provider') provider: string,
+    @Query() query: OAuthCallbackQuery,
+    @Req() req: Request,
+    @Res() res: Response,
+  ) {
+    return this.completeCallback(provider, query, req, res);
+  }
+
+  @Get('users/me/identities')
+  @ApiBearerAuth()
+  @ApiOperation({ summary: 'Привязанные внешние аккаунты' })
+  @ApiResponse({ status: 200, description: 'Список привязок' })
+  async findMyIdentities(@CurrentUser() user: { userId: string }) {
+    return this.identitiesService.findAllForUser(user.userId);
+  }
+
+  @Delete('users/me/identities/:id')
+  @ApiBearerAuth()
+  @ApiOperation({ summary: 'Отвязка внешнего аккаунта' })
+  @ApiResponse({ status: 200, description: 'Аккаунт отвязан' })
+  @ApiResponse({ status: 400, description: 'Последний способ входа' })
+  async unlinkIdentity(
+    @Param('id', ParseUUIDPipe) id: string,
+    @CurrentUser() user: { userId: string },
+  ) {
+    await this.identitiesService.unlink(user.userId, id);
+    return { message: 'Внешний аккаунт отвязан' };
+  }
+
+  @Get('settings/identity-providers')
+  @ApiBearerAuth()
+  @RequirePermissions('settings.read')
+  @ApiOperation({ summary: 'Настройки внешних провайдеров входа' })
+  @ApiResponse({ status: 200, description: 'Провайдеры (без секретов)' })
+  async getProviderConfigs() {
+    return this.identityProvidersService.getConfigs();
+  }
+
+  @Put('settings/identity-providers')
+  @ApiBearerAuth()
+  @RequirePermissions('settings.update')
+  @ApiOperation({ summary: 'Изменение внешних провайдеров входа' })
+  @ApiResponse({ status: 200, description: 'Провайдеры сохранены' })
+  async updateProviderConfigs(
+    @Body() dto: UpdateIdentityProvidersDto,
+    @CurrentUser() user: { email: string },
+  ) {
+    const providers = await this.identityProvidersService.updateConfigs(
+      dto.providers,
+    );
+    this.logger.log(`🔧 ${user.email} изменил провайдеров входа`);
+    return providers;
+  }
+
+  // Приватные методы
+
+  private setStateCookie(res: Response, state: string): void {
+    res.cookie(OAUTH_STATE_COOKIE, state, {
+      ...this.oauthStateService.cookieOptions(),
+      maxAge:
+        this.configService.get<number>('identityProviders.stateTtl')! * 1000,
+    });
+  }
+
+  private readStateCookie(req: Request): string | undefined {
+    const prefix = `${OAUTH_STATE_COOKIE}=`;
+    const cookie = req.headers.cookie
+      ?.split(';')
+      .map((part) => part.trim())
+      .find((part) => part.startsWith(prefix));
+    return cookie ? decodeURIComponent(cookie.slice(prefix.length)) : undefined;
+  }
+
+  /**
+   * Результат callback передаётся фронтенду редиректом. Токены и loginToken - во фрагменте URL:
+   * он не уходит на сервер фронтенда и не попадает в логи и Referer
+   */
+  private async completeCallback(
+    provider: string,
+    query: OAuthCallbackQuery,
+    req: Request,
+    res: Response,
+  ) {
+    const successUrl = new URL(
+      this.configService.get<string>('identityProviders.successRedirectUrl')!,
+    );
+    const errorUrl = new URL(
+      this.configService.get<string>('identityProviders.errorRedirectUrl')!,
+    );
+
+    res.clearCookie(OAUTH_STATE_COOKIE, this.oauthStateService.cookieOptions());
+
+    try {
+      const result = await this.identitiesService.handleCallback(
+        provider,
+        query,
+        this.readStateCookie(req),
+      );
+
+      if (result.purpose === OAuthStatePurpose.BIND) {
+        successUrl.searchParams.set('linked', result.provider);
+        return res.redirect(successUrl.toString());
+      }
+
+      const login = await this.authService.loginVerifiedUser(
+        result.user.id,
+        LoginAttemptChannel.OAUTH,
+        {
+          ipAddress: req.ip,
+          userAgent: req.headers['user-agent'],
+        },
+      );
+      // С включённой 2FA или при необычном входе фронтенд завершает вход через POST /auth/2fa/complete
+      successUrl.hash = new URLSearchParams(
+        'requires2FA' in login
+          ? { loginToken: login.loginToken, methods: login.methods.join(',') }
+          : { token: login.accessToken, refreshToken: login.refreshToken },
+      ).toString();
+      return res.redirect(successUrl.toString());
+    } catch (error) {
+      const message =
+        error instanceof HttpException
+          ? error.message
+          : 'Не удалось выполнить вход через внешний провайдер';
+      if (!(error instanceof HttpException)) {
+        this.logger.error(
+          `❌ Ошибка callback ${provider}: ${(error as Error).message}`,
+        );
+      }
+      errorUrl.searchParams.set('error', message);
+      return res.redirect(errorUrl.toString());
+    }
+  }
+}
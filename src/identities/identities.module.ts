@@ -0,0 +1,33 @@
+import { Module } from '@nestjs/common';
+import { TypeOrmModule } from '@nestjs/typeorm';
+import { UserIdentity } from './entities/user-identity.entity';
+import { OAuthState } from './entities/oauth-state.entity';
+import { User } from '../users/entities/user.entity';
+import { Role } from '../rbac/entities/role.entity';
+import { UserRoleAssignment } from '../users/entities/user-role-assignment.entity';
+import { IdentitiesService } from './identities.service';
+import { IdentityProvidersService } from './identity-providers.service';
+import { OAuthStateService } from './oauth-state.service';
+import { IdentitiesController } from './identities.controller';
+import { AuthModule } from '../auth/auth.module';
+import { UsersModule } from '../users/users.module';
+import { SettingsModule } from '../settings/settings.module';
+
+@Module({
+  imports: [
+    TypeOrmModule.forFeature([
+      UserIdentity,
+      OAuthState,
+      User,
+      Role,
+      UserRoleAssignment,
+    ]),
+    AuthModule,
+    UsersModule,
+    SettingsModule,
+  ],
+  controllers: [IdentitiesController],
+  providers: [IdentitiesService, IdentityProvidersService, OAuthStateService],
+  exports: [IdentitiesService, IdentityProvidersService],
+})
+export class IdentitiesModule {}
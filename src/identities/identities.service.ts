@@ -0,0 +1,444 @@
+import {
+  BadRequestException,
+  ConflictException,
+  Injectable,
+  Logger,
+  NotFoundException,
+  UnauthorizedException,
+} from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { Repository } from 'typeorm';
+import { User } from '../users/entities/user.entity';
+import { Role } from '../rbac/entities/role.entity';
+import { UserRoleAssignment } from '../users/entities/user-role-assignment.entity';
+import { SettingsService } from '../settings/settings.service';
+import { TotpService } from '../users/totp.service';
+import { WebhooksService } from '../webhooks/webhooks.service';
+import { WebhookEvent } from '../webhooks/enums/webhook-event.enum';
+import { AuthMethodType } from '../auth/enums/auth-method-type.enum';
+import { UserIdentity } from './entities/user-identity.entity';
+import { OAuthStatePurpose } from './entities/oauth-state.entity';
+import { OAuthStateService } from './oauth-state.service';
+import { IdentityProvidersService } from './identity-providers.service';
+import {
+  AuthorizationCallbackResult,
+  ExternalProfile,
+  IdentityProviderAdapter,
+} from './interfaces/identity-provider.interface';
+
+// Способы входа, которые определяются привязанными внешними аккаунтами
+const IDENTITY_AUTH_METHODS: AuthMethodType[] = [
+  AuthMethodType.GITHUB,
+  AuthMethodType.VKONTAKTE,
+  AuthMethodType.GOSUSLUGI,
+  AuthMethodType.OAUTH,
+];
+
+export interface OAuthCallbackQuery {
+  code?: string;
+  state?: string;
+  error?: string;
+}
+
+export interface IdentityCallbackResult {
+  user: User;
+  purpose: OAuthStatePurpose;
+  provider: string;
+  created: boolean;
+}
+
+/**
+ * Способ входа для провайдера в availableAuthMethods пользователя
+ */
+export function authMethodForProvider(provider: string): AuthMethodType {
+  switch (provider) {
+    case 'github':
+      return AuthMethodType.GITHUB;
+    case 'vkontakte':
+      return AuthMethodType.VKONTAKTE;
+    case 'gosuslugi':
+      return AuthMethodType.GOSUSLUGI;
+    default:
+      return AuthMethodType.OAUTH;
+  }
+}
+
+/**
+ * Вход и привязка через внешних провайдеров: поиск по (provider, subject),
+ * привязка к пользователю из JWT, создание пользователя при первом входе
+ */
+@Injectable()
+export class IdentitiesService {
+  private readonly logger = new Logger(IdentitiesService.name);
+
+  constructor(
+    @InjectRepository(UserIdentity)
+    private identitiesRepo: Repository<UserIdentity>,
+    @InjectRepository(User)
+    private usersRepo: Repository<User>,
+    @InjectRepository(Role)
+    private rolesRepo: Repository<Role>,
+    @InjectRepository(UserRoleAssignment)
+    private userRoleAssignmentRepo: Repository<UserRoleAssignment>,
+    private identityProvidersService: IdentityProvidersService,
+    private oauthStateService: OAuthStateService,
+    private settingsService: SettingsService,
+    private totpService: TotpService,
+    private webhooksService: WebhooksService,
+  ) {}
+
+  /**
+   * URL авторизации у провайдера; для привязки state запоминает пользователя.
+   * state возвращается отдельно, чтобы контроллер положил его в cookie
+   */
+  async getAuthorizationUrl(
+    providerId: string,
+    purpose: OAuthStatePurpose,
+    userId: string | null = null,
+  ): Promise<{ url: string; state: string }> {
+    const adapter = await this.identityProvidersService.getAdapter(providerId);
+    const { state, nonce, codeChallenge } = await this.oauthStateService.issue(
+      adapter.id,
+      purpose,
+      adapter.redirectUri,
+      userId,
+      adapter.stateFormat,
+    );
+
+    const url = await adapter.getAuthorizationUrl({
+      state,
+      nonce,
+      codeChallenge,
+      redirectUri: adapter.redirectUri,
+    });
+    return { url, state };
+  }
+
+  async handleCallback(
+    providerId: string,
+    query: OAuthCallbackQuery,
+    cookieState?: string,
+  ): Promise<IdentityCallbackResult> {
+    this.oauthStateService.assertBound(query.state, cookieState);
+    // state расходуется и при ошибке: ответ провайдера нельзя переиграть
+    const state = await this.oauthStateService.consume(
+      providerId,
+      query.state ?? '',
+    );
+    if (query.error) {
+      throw new UnauthorizedException('Вход через провайдера отменён');
+    }
+    if (!query.code) {
+      throw new BadRequestException('Отсутствует код авторизации');
+    }
+
+    const adapter = await this.identityProvidersService.getAdapter(providerId);
+    const result = await adapter.handleCallback({
+      code: query.code,
+      nonce: state.nonce,
+      codeVerifier: state.codeVerifier,
+      redirectUri: state.redirectUri,
+    });
+    const identity = await this.identitiesRepo.findOne({
+      where: { provider: adapter.id, subject: result.profile.subject },
+    });
+
+    if (state.purpose === OAuthStatePurpose.BIND && state.userId) {
+      const user = await this.bind(state.userId, adapter, result, identity);
+      return {
+        user,
+        purpose: state.purpose,
+        provider: adapter.id,
+        created: false,
+      };
+    }
+
+    if (identity) {
+      const user = await this.usersRepo.findOne({
+        where: { id: identity.userId },
+      });
+      if (!user || !user.isActive) {
+        throw new UnauthorizedException('Аккаунт деактивирован');
+      }
+      await this.saveIdentity(user.id, adapter, result, identity);
+      return {
+        user,
+        purpose: state.purpose,
+        provider: adapter.id,
+        created: false,
+      };
+    }
+
+    const { profile } = result;
+    if (profile.email) {
+      const existing = await this.usersRepo
+        .createQueryBuilder('user')
+        .where('LOWER(user.email) = :email', {
+          email: profile.email.toLowerCase(),
+        })
+        .getOne();
+      if (existing) {
+        // Автопривязка только когда адрес подтверждён и провайдером, и у нас
+        if (!profile.emailVerified || !existing.emailVerified) {
+          throw new ConflictException(
+            `Аккаунт с email ${profile.email} уже существует. Войдите в него и привяжите ${adapter.displayName} в настройках профиля`,
+          );
+        }
+        if (!existing.isActive) {
+          throw new UnauthorizedException('Аккаунт деактивирован');
+        }
+        await this.saveIdentity(existing.id, adapter, result);
+        this.logger.log(
+          `🔗 ${adapter.displayName} привязан к ${existing.email} по подтверждённому email`,
+        );
+        return {
+          user: existing,
+          purpose: state.purpose,
+          provider: adapter.id,
+          created: false,
+        };
+      }
+    }
+
+    const user = await this.createUser(adapter, result);
+    return {
+      user,
+      purpose: state.purpose,
+      provider: adapter.id,
+      created: true,
+    };
+  }
+
+  /**
+   * Пользователь, к которому привязан внешний аккаунт
+   */
+  async findUser(provider: string, subject: string): Promise<User | null> {
+    const identity = await this.identitiesRepo.findOne({
+      where: { provider, subject },
+      relations: ['user'],
+    });
+    return identity?.user ?? null;
+  }
+
+  async findAllForUser(userId: string): Promise<UserIdentity[]> {
+    return this.identitiesRepo.find({
+      where: { userId },
+      order: { createdAt: 'ASC' },
+    });
+  }
+
+  /**
+   * Отвязка внешнего аккаунта; последний способ входа отвязать нельзя
+   */
+  async unlink(userId: string, identityId: string): Promise<void> {
+    const identity = await this.identitiesRepo.findOne({
+      where: { id: identityId, userId },
+    });
+    if (!identity) {
+      throw new NotFoundException('Привязка не найдена');
+    }
+
+    const remaining = await this.getAuthMethods(userId, identity.id);
+    if (remaining.length === 0) {
+      throw new BadRequestException('Нельзя отвязать последний способ входа');
+    }
+
+    await this.identitiesRepo.delete(identity.id);
+    await this.usersRepo.update(userId, { availableAuthMethods: remaining });
+    this.logger.log(
+      `Внешний аккаунт ${identity.provider} отвязан от пользователя ${userId}`,
+    );
+  }
+
+  /**
+   * Отвязка всех аккаунтов провайдера (старый API multi-auth)
+   */
+  async unlinkProvider(userId: string, provider: string): Promise<void> {
+    const identities = await this.identitiesRepo.find({
+      where: { userId, provider },
+    });
+    for (const identity of identities) {
+      await this.unlink(userId, identity.id);
+    }
+  }
+
+  // Приватные методы
+
+  private async bind(
+    userId: string,
+    adapter: IdentityProviderAdapter,
+    result: AuthorizationCallbackResult,
+    identity: UserIdentity | null,
+  ): Promise<User> {
+    if (identity && identity.userId !== userId) {
+      throw new ConflictException(
+        `Этот аккаунт ${adapter.displayName} уже привязан к другому пользователю`,
+      );
+    }
+
+    const user = await this.usersRepo.findOne({ where: { id: userId } });
+    if (!user) {
+      throw new NotFoundException('Пользователь не найден');
+    }
+
+    await this.saveIdentity(user.id, adapter, result, identity);
+    if (result.profile.avatarUrl && !user.avatarUrl) {
+      await this.usersRepo.update(user.id, {
+        avatarUrl: result.profile.avatarUrl,
+      });
+    }
+    this.logger.log(
+      `🔗 ${adapter.displayName} привязан к пользователю ${userId}`,
+    );
+
+    return (await this.usersRepo.findOne({ where: { id: userId } }))!;
+  }
+
+  private async createUser(
+    adapter: IdentityProviderAdapter,
+    { profile, tokens }: AuthorizationCallbackResult,
+  ): Promise<User> {
+    const user = await this.usersRepo.save(
+      this.usersRepo.create({
+        email: profile.email?.toLowerCase() ?? null,
+        emailVerified: profile.emailVerified,
+        passwordHash: null,
+        firstName: profile.firstName ?? profile.username ?? '',
+        lastName: profile.lastName ?? '',
+        avatarUrl: profile.avatarUrl ?? undefined,
+        primaryAuthMethod: adapter.authMethod,
+        availableAuthMethods: [adapter.authMethod],
+        isActive: true,
+      }),
+    );
+    await this.saveIdentity(user.id, adapter, { profile, tokens });
+    await this.assignDefaultRole(user.id);
+    await this.webhooksService.emitForUser(WebhookEvent.USER_REGISTERED, user.id, {
+      source: 'oauth',
+      provider: adapter.id,
+    });
+
+    this.logger.log(
+      `Создан пользователь ${user.id} через ${adapter.displayName}`,
+    );
+    return user;
+  }
+
+  /**
+   * Сохранение профиля и токенов провайдера (токены шифруются)
+   */
+  private async saveIdentity(
+    userId: string,
+    adapter: IdentityProviderAdapter,
+    { profile, tokens }: AuthorizationCallbackResult,
+    identity: UserIdentity | null = null,
+  ): Promise<void> {
+    const record =
+      identity ??
+      this.identitiesRepo.create({
+        userId,
+        provider: adapter.id,
+        subject: profile.subject,
+      });
+
+    record.email = profile.email;
+    record.emailVerified = profile.emailVerified;
+    record.username = profile.username;
+    record.profile = profile.raw;
+    record.accessToken = this.totpService.encrypt(tokens.accessToken);
+    record.refreshToken = tokens.refreshToken
+      ? this.totpService.encrypt(tokens.refreshToken)
+      : null;
+    record.tokenExpiresAt = tokens.expiresAt;
+    record.scopes = tokens.scopes;
+    record.lastLoginAt = new Date();
+    await this.identitiesRepo.save(record);
+
+    const methods = await this.getAuthMethods(userId);
+    await this.usersRepo.update(userId, { availableAuthMethods: methods });
+    await this.applyVerifiedProfile(userId, adapter, profile);
+  }
+
+  /**
+   * Данные, подтверждённые провайдером (Госуслуги), дополняют профиль:
+   * признак подтверждённой учётной записи, подтверждённый телефон, ФИО
+   */
+  private async applyVerifiedProfile(
+    userId: string,
+    adapter: IdentityProviderAdapter,
+    profile: ExternalProfile,
+  ): Promise<void> {
+    if (adapter.authMethod !== AuthMethodType.GOSUSLUGI) {
+      return;
+    }
+    const user = await this.usersRepo.findOne({ where: { id: userId } });
+    if (!user) {
+      return;
+    }
+
+    const changes: Partial<
+      Pick<
+        User,
+        'gosuslugiVerified' | 'phone' | 'phoneVerified' | 'firstName' | 'lastName'
+      >
+    > = { gosuslugiVerified: !!profile.identityVerified };
+    if (profile.phone && profile.phoneVerified && !user.phone) {
+      changes.phone = profile.phone;
+      changes.phoneVerified = true;
+    }
+    if (profile.identityVerified) {
+      changes.firstName = profile.firstName || user.firstName;
+      changes.lastName = profile.lastName || user.lastName;
+    }
+    await this.usersRepo.update(userId, changes);
+  }
+
+  /**
+   * availableAuthMethods по привязанным аккаунтам (без исключённой привязки)
+   */
+  private async getAuthMethods(
+    userId: string,
+    excludeIdentityId?: string,
+  ): Promise<AuthMethodType[]> {
+    const user = await this.usersRepo.findOne({
+      where: { id: userId },
+      select: ['id', 'availableAuthMethods'],
+    });
+    const methods = (user?.availableAuthMethods || []).filter(
+      (method) => !IDENTITY_AUTH_METHODS.includes(method),
+    );
+
+    const identities = await this.identitiesRepo.find({
+      where: { userId },
+      select: ['id', 'provider'],
+    });
+    for (const identity of identities) {
+      const method = authMethodForProvider(identity.provider);
+      if (identity.id !== excludeIdentityId && !methods.includes(method)) {
+        methods.push(method);
+      }
+    }
+
+    return methods;
+  }
+
+  private async assignDefaultRole(userId: string): Promise<void> {
+    try {
+      // Первый пользователь системы становится super_admin
+      const isFirstUser = (await this.usersRepo.count()) === 1;
+      const roleName = isFirstUser
+        ? 'super_admin'
+        : await this.settingsService.getDefaultUserRole();
+      const role = await this.rolesRepo.findOne({ where: { name: roleName } });
+
+      if (role) {
+        await this.userRoleAssignmentRepo.save({ userId, roleId: role.id });
+        this.logger.log(`✅ Пользователю назначена роль "${role.name}"`);
+      } else {
+        this.logger.log(`⚠️ Роль "${roleName}" не найдена`);
+      }
+    } catch (error) {
+      this.logger.error(`Ошибка назначения роли: ${(error as Error).message}`);
+    }
+  }
+}
@@ -0,0 +1,288 @@
+import {
+  BadRequestException,
+  Injectable,
+  Logger,
+  NotFoundException,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { SettingsService } from '../settings/settings.service';
+import { TotpService } from '../users/totp.service';
+import {
+  IdentityProviderAdapter,
+  IdentityProviderConfig,
+  IdentityProviderInfo,
+} from './interfaces/identity-provider.interface';
+import { IDENTITY_PROVIDER_PRESETS } from './provider-presets';
+import { IdentityProviderDto } from './dto/identity-provider.dto';
+import { OAuth2ProviderAdapter } from './adapters/oauth2.adapter';
+import { OidcProviderAdapter } from './adapters/oidc.adapter';
+import { GitHubProviderAdapter } from './adapters/github.adapter';
+import { VKontakteProviderAdapter } from './adapters/vkontakte.adapter';
+import { EsiaProviderAdapter } from './adapters/esia.adapter';
+import {
+  createEsiaSigner,
+  EsiaSigner,
+  EsiaSignerConfig,
+} from './esia/esia-signer';
+
+const SETTINGS_KEY = 'identity_providers';
+// id встроенных провайдеров (настраиваются через .env), недоступны для настроек
+const RESERVED_PROVIDER_IDS = ['github', 'vkontakte', 'gosuslugi'];
+
+/**
+ * Провайдер в настройках: секрет не возвращается, только признак его наличия
+ */
+interface GosuslugiConfig extends EsiaSignerConfig {
+  clientId: string;
+  baseUrl: string;
+  redirectUri: string;
+  scopes: string[];
+}
+
+export type IdentityProviderConfigView = Omit<
+  IdentityProviderConfig,
+  'clientSecret'
+> & { hasClientSecret: boolean };
+
+/**
+ * Реестр внешних провайдеров входа: встроенные из .env и OIDC/OAuth2 из system_settings
+ */
+@Injectable()
+export class IdentityProvidersService {
+  private readonly logger = new Logger(IdentityProvidersService.name);
+  // Подписант ЕСИА создаётся один раз: расшифровка ключа не повторяется на каждый вход
+  private esiaSigner?: EsiaSigner;
+
+  constructor(
+    private configService: ConfigService,
+    private settingsService: SettingsService,
+    private totpService: TotpService,
+  ) {}
+
+  /**
+   * Включённые провайдеры для страницы входа
+   */
+  async listEnabled(): Promise<IdentityProviderInfo[]> {
+    const adapters = await this.getAdapters();
+    return adapters.map(({ id, displayName, authMethod }) => ({
+      id,
+      displayName,
+      authMethod,
+    }));
+  }
+
+  async getAdapter(id: string): Promise<IdentityProviderAdapter> {
+    const adapter = (await this.getAdapters()).find(
+      (candidate) => candidate.id === id,
+    );
+    if (!adapter) {
+      throw new NotFoundException(`Провайдер входа "${id}" не настроен`);
+    }
+    return adapter;
+  }
+
+  /**
+   * Провайдеры из настроек для администратора
+   */
+  async getConfigs(): Promise<IdentityProviderConfigView[]> {
+    return (await this.loadStored()).map((config) => this.toView(config));
+  }
+
+  /**
+   * Замена списка провайдеров; без clientSecret сохраняется прежний секрет
+   */
+  async updateConfigs(
+    dtos: IdentityProviderDto[],
+  ): Promise<IdentityProviderConfigView[]> {
+    const stored = new Map(
+      (await this.loadStored()).map((config) => [config.id, config]),
+    );
+    const ids = new Set<string>();
+
+    const configs = dtos.map((dto) => {
+      if (RESERVED_PROVIDER_IDS.includes(dto.id)) {
+        throw new BadRequestException(
+          `Провайдер "${dto.id}" встроенный и настраивается через переменные окружения`,
+        );
+      }
+      if (ids.has(dto.id)) {
+        throw new BadRequestException(`Провайдер "${dto.id}" указан дважды`);
+      }
+      ids.add(dto.id);
+
+      const preset = dto.preset
+        ? IDENTITY_PROVIDER_PRESETS[dto.preset]
+        : undefined;
+      const config: IdentityProviderConfig = {
+        ...dto,
+        type: dto.type ?? preset?.type ?? 'oidc',
+        displayName: dto.displayName ?? preset?.displayName ?? dto.id,
+        scopes: dto.scopes ?? preset?.scopes ?? ['openid', 'email', 'profile'],
+        clientSecret:
+          dto.clientSecret !== undefined
+            ? dto.clientSecret && this.totpService.encrypt(dto.clientSecret)
+            : stored.get(dto.id)?.clientSecret,
+      };
+      this.assertComplete(this.resolve(config, false));
+      return config;
+    });
+
+    await this.settingsService.setSetting(
+      SETTINGS_KEY,
+      JSON.stringify(configs),
+      'Внешние провайдеры входа (OIDC/OAuth2)',
+    );
+    this.logger.log(
+      `🔧 Обновлены провайдеры входа: ${[...ids].join(', ') || '—'}`,
+    );
+
+    return configs.map((config) => this.toView(config));
+  }
+
+  // Приватные методы
+
+  private async getAdapters(): Promise<IdentityProviderAdapter[]> {
+    const adapters: IdentityProviderAdapter[] = [];
+    const github = this.configService.get<{
+      clientId: string;
+      clientSecret: string;
+      redirectUri: string;
+    }>('identityProviders.github');
+    if (github?.clientId) {
+      adapters.push(
+        new GitHubProviderAdapter(
+          github.clientId,
+          github.clientSecret,
+          github.redirectUri,
+        ),
+      );
+    }
+    const vkontakte = this.configService.get<{
+      clientId: string;
+      clientSecret: string;
+      redirectUri: string;
+    }>('identityProviders.vkontakte');
+    if (vkontakte?.clientId) {
+      adapters.push(
+        new VKontakteProviderAdapter(
+          vkontakte.clientId,
+          vkontakte.clientSecret,
+          vkontakte.redirectUri,
+        ),
+      );
+    }
+
+    const gosuslugi = this.configService.get<GosuslugiConfig>(
+      'identityProviders.gosuslugi',
+    );
+    if (gosuslugi?.clientId) {
+      try {
+        this.esiaSigner ??= createEsiaSigner(gosuslugi);
+        adapters.push(
+          new EsiaProviderAdapter(
+            gosuslugi.clientId,
+            gosuslugi.baseUrl,
+            gosuslugi.scopes,
+            gosuslugi.redirectUri,
+            this.esiaSigner,
+          ),
+        );
+      } catch (error) {
+        this.logger.error(
+          `❌ Госуслуги пропущены: ${(error as Error).message}`,
+        );
+      }
+    }
+
+    for (const stored of await this.loadStored()) {
+      if (!stored.enabled) {
+        continue;
+      }
+      try {
+        const config = this.resolve(stored, true);
+        this.assertComplete(config);
+        adapters.push(this.buildAdapter(config));
+      } catch (error) {
+        this.logger.error(
+          `❌ Провайдер ${stored.id} пропущен: ${(error as Error).message}`,
+        );
+      }
+    }
+
+    return adapters;
+  }
+
+  private buildAdapter(
+    config: IdentityProviderConfig,
+  ): IdentityProviderAdapter {
+    const callbackBaseUrl = this.configService.get<string>(
+      'identityProviders.callbackBaseUrl',
+    );
+    const redirectUri =
+      config.redirectUri || `${callbackBaseUrl}/${config.id}/callback`;
+
+    return config.type === 'oidc'
+      ? new OidcProviderAdapter(config, redirectUri)
+      : new OAuth2ProviderAdapter(config, redirectUri);
+  }
+
+  /**
+   * Настройки пресета, поверх них - заданные администратором
+   */
+  private resolve(
+    stored: IdentityProviderConfig,
+    decryptSecret: boolean,
+  ): IdentityProviderConfig {
+    const preset = stored.preset
+      ? IDENTITY_PROVIDER_PRESETS[stored.preset]
+      : undefined;
+    const defined = Object.fromEntries(
+      Object.entries(stored).filter(([, value]) => value !== undefined),
+    ) as unknown as IdentityProviderConfig;
+
+    return {
+      ...preset,
+      ...defined,
+      claims: { ...preset?.claims, ...stored.claims },
+      clientSecret:
+        decryptSecret && stored.clientSecret
+          ? this.totpService.decrypt(stored.clientSecret)
+          : stored.clientSecret,
+    };
+  }
+
+  private assertComplete(config: IdentityProviderConfig): void {
+    if (config.type === 'oidc' && !config.issuer) {
+      throw new BadRequestException(
+        `Для OIDC-провайдера "${config.id}" укажите issuer`,
+      );
+    }
+    if (
+      config.type === 'oauth2' &&
+      (!config.authorizationUrl || !config.tokenUrl || !config.userInfoUrl)
+    ) {
+      throw new BadRequestException(
+        `Для OAuth2-провайдера "${config.id}" укажите authorizationUrl, tokenUrl и userInfoUrl`,
+      );
+    }
+  }
+
+  private async loadStored(): Promise<IdentityProviderConfig[]> {
+    const raw = await this.settingsService.getSetting(SETTINGS_KEY);
+    if (!raw) {
+      return [];
+    }
+    try {
+      const parsed: unknown = JSON.parse(raw);
+      return Array.isArray(parsed) ? (parsed as IdentityProviderConfig[]) : [];
+    } catch {
+      this.logger.error(`❌ Некорректный JSON в настройке ${SETTINGS_KEY}`);
+      return [];
+    }
+  }
+
+  private toView(config: IdentityProviderConfig): IdentityProviderConfigView {
+    const { clientSecret, ...view } = config;
+    return { ...view, hasClientSecret: !!clientSecret };
+  }
+}
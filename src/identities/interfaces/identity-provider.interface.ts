@@ -0,0 +1,116 @@
+import { AuthMethodType } from '../../auth/enums/auth-method-type.enum';
+
+export type IdentityProviderType = 'oidc' | 'oauth2';
+
+export type OAuthStateFormat = 'random' | 'uuid';
+
+/**
+ * Пути к полям профиля в ответе userinfo / id_token (через точку: "response.user.id")
+ */
+export interface ProfileClaimsMapping {
+  subject?: string;
+  email?: string;
+  emailVerified?: string;
+  firstName?: string;
+  lastName?: string;
+  username?: string;
+  avatarUrl?: string;
+}
+
+/**
+ * Настройки провайдера, задаваемые администратором (system_settings.identity_providers)
+ */
+export interface IdentityProviderConfig {
+  id: string;
+  type: IdentityProviderType;
+  preset?: string; // google, yandex, mailru, keycloak
+  displayName: string;
+  enabled: boolean;
+  clientId: string;
+  clientSecret?: string; // В настройках хранится зашифрованным
+  issuer?: string; // Для OIDC: endpoints берутся из discovery
+  authorizationUrl?: string;
+  tokenUrl?: string;
+  userInfoUrl?: string;
+  // Передавать access token в userinfo параметром запроса вместо заголовка Authorization
+  userInfoTokenParam?: string;
+  scopes: string[];
+  usePkce?: boolean;
+  // Доверять email от провайдера без флага email_verified (только для корпоративных IdP)
+  trustEmail?: boolean;
+  claims?: ProfileClaimsMapping;
+  redirectUri?: string;
+}
+
+/**
+ * Профиль пользователя у внешнего провайдера
+ */
+export interface ExternalProfile {
+  subject: string;
+  email: string | null;
+  emailVerified: boolean;
+  firstName: string | null;
+  lastName: string | null;
+  username: string | null;
+  avatarUrl: string | null;
+  // Телефон и подтверждение личности сообщают не все провайдеры (Госуслуги)
+  phone?: string | null;
+  phoneVerified?: boolean;
+  identityVerified?: boolean;
+  raw: Record<string, unknown>;
+}
+
+export interface ExternalTokens {
+  accessToken: string;
+  refreshToken: string | null;
+  idToken: string | null;
+  expiresAt: Date | null;
+  scopes: string[];
+}
+
+export interface AuthorizationRequestParams {
+  state: string;
+  nonce: string;
+  codeChallenge: string; // S256 от codeVerifier
+  redirectUri: string;
+}
+
+export interface AuthorizationCallbackParams {
+  code: string;
+  nonce: string;
+  codeVerifier: string;
+  redirectUri: string;
+}
+
+export interface AuthorizationCallbackResult {
+  tokens: ExternalTokens;
+  profile: ExternalProfile;
+}
+
+/**
+ * Адаптер внешнего провайдера входа
+ */
+export interface IdentityProviderAdapter {
+  readonly id: string;
+  readonly displayName: string;
+  // Значение в availableAuthMethods пользователя
+  readonly authMethod: AuthMethodType;
+  readonly redirectUri: string;
+  // Формат state, если провайдер принимает только UUID (ЕСИА)
+  readonly stateFormat?: OAuthStateFormat;
+
+  getAuthorizationUrl(params: AuthorizationRequestParams): Promise<string>;
+
+  handleCallback(
+    params: AuthorizationCallbackParams,
+  ): Promise<AuthorizationCallbackResult>;
+}
+
+/**
+ * Провайдер в публичном списке способов входа
+ */
+export interface IdentityProviderInfo {
+  id: string;
+  displayName: string;
+  authMethod: AuthMethodType;
+}
@@ -0,0 +1,70 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { getRepositoryToken } from '@nestjs/typeorm';
+import { ConfigService } from '@nestjs/config';
+import { BadRequestException } from '@nestjs/common';
+import { OAuthStateService } from './oauth-state.service';
+import { OAuthState } from './entities/oauth-state.entity';
+
+describe('OAuthStateService', () => {
+  let service: OAuthStateService;
+
+  const config: Record<string, unknown> = {
+    'identityProviders.stateTtl': 600,
+    'identityProviders.callbackBaseUrl':
+      'https://id.example.com/api/auth/oauth',
+  };
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        OAuthStateService,
+        {
+          provide: getRepositoryToken(OAuthState),
+          useValue: {},
+        },
+        {
+          provide: ConfigService,
+          useValue: { get: jest.fn((key: string) => config[key]) },
+        },
+      ],
+    }).compile();
+
+    service = module.get<OAuthStateService>(OAuthStateService);
+  });
+
+  describe('assertBound', () => {
+    it('should accept the state stored in the cookie of this browser', () => {
+      expect(() => service.assertBound('state-1', 'state-1')).not.toThrow();
+    });
+
+    it('should reject a callback without the state cookie', () => {
+      expect(() => service.assertBound('state-1', undefined)).toThrow(
+        BadRequestException,
+      );
+    });
+
+    it('should reject a state issued to another browser', () => {
+      expect(() => service.assertBound('state-2', 'state-1')).toThrow(
+        BadRequestException,
+      );
+      expect(() => service.assertBound('stаte-1', 'state-1')).toThrow(
+        BadRequestException,
+      );
+    });
+
+    it('should reject a callback without state', () => {
+      expect(() => service.assertBound(undefined, 'state-1')).toThrow(
+        BadRequestException,
+      );
+    });
+  });
+
+  it('should keep the state cookie away from scripts', () => {
+    expect(service.cookieOptions()).toEqual({
+      httpOnly: true,
+      sameSite: 'lax',
+      secure: true,
+      path: '/',
+    });
+  });
+});
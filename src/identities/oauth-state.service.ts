@@ -0,0 +1,151 @@
+import { BadRequestException, Injectable, Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { InjectRepository } from '@nestjs/typeorm';
+import { Cron, CronExpression } from '@nestjs/schedule';
+import { LessThan, Repository } from 'typeorm';
+import type { CookieOptions } from 'express';
+import * as crypto from 'crypto';
+import { OAuthState, OAuthStatePurpose } from './entities/oauth-state.entity';
+import { OAuthStateFormat } from './interfaces/identity-provider.interface';
+
+// HttpOnly cookie со state: callback принимается только в браузере, который начал вход
+export const OAUTH_STATE_COOKIE = 'loginus_oauth_state';
+
+export interface IssuedOAuthState {
+  state: string;
+  nonce: string;
+  codeChallenge: string;
+}
+
+/**
+ * Хранилище state/nonce/PKCE между редиректом к провайдеру и callback.
+ * В БД лежит только хеш state, запись удаляется при первом использовании
+ */
+@Injectable()
+export class OAuthStateService {
+  private readonly logger = new Logger(OAuthStateService.name);
+
+  constructor(
+    @InjectRepository(OAuthState)
+    private statesRepo: Repository<OAuthState>,
+    private configService: ConfigService,
+  ) {}
+
+  async issue(
+    provider: string,
+    purpose: OAuthStatePurpose,
+    redirectUri: string,
+    userId: string | null = null,
+    format: OAuthStateFormat = 'random',
+  ): Promise<IssuedOAuthState> {
+    const state =
+      format === 'uuid'
+        ? crypto.randomUUID()
+        : crypto.randomBytes(32).toString('base64url');
+    const nonce = crypto.randomBytes(32).toString('base64url');
+    const codeVerifier = crypto.randomBytes(48).toString('base64url');
+    const ttl = this.configService.get<number>('identityProviders.stateTtl')!;
+
+    await this.statesRepo.save(
+      this.statesRepo.create({
+        stateHash: this.hash(state),
+        provider,
+        purpose,
+        userId,
+        nonce,
+        codeVerifier,
+        redirectUri,
+        expiresAt: new Date(Date.now() + ttl * 1000),
+      }),
+    );
+
+    return {
+      state,
+      nonce,
+      codeChallenge: crypto
+        .createHash('sha256')
+        .update(codeVerifier)
+        .digest('base64url'),
+    };
+  }
+
+  /**
+   * Cookie уходит на callback при редиректе от провайдера (SameSite=Lax), срок жизни - как у state
+   */
+  cookieOptions(): CookieOptions {
+    const callbackBaseUrl = this.configService.get<string>(
+      'identityProviders.callbackBaseUrl',
+    )!;
+    return {
+      httpOnly: true,
+      sameSite: 'lax',
+      secure: callbackBaseUrl.startsWith('https:'),
+      path: '/',
+    };
+  }
+
+  /**
+   * state из callback должен совпасть с cookie. Чужая ссылка на callback (login CSRF) не пройдёт
+   */
+  assertBound(
+    state: string | undefined,
+    cookieState: string | undefined,
+  ): void {
+    const expected = Buffer.from(cookieState ?? '');
+    const actual = Buffer.from(state ?? '');
+    const matches =
+      expected.length > 0 &&
+      expected.length === actual.length &&
+      crypto.timingSafeEqual(expected, actual);
+    if (!matches) {
+      this.logger.warn('⚠️ state из callback не совпадает с cookie браузера');
+      throw new BadRequestException(
+        'Вход начат в другом браузере или сессия истекла, начните вход заново',
+      );
+    }
+  }
+
+  /**
+   * State одноразовый: удаляется атомарно, повторный callback не пройдёт
+   */
+  async consume(provider: string, state: string): Promise<OAuthState> {
+    if (!state) {
+      throw new BadRequestException('Отсутствует параметр state');
+    }
+
+    const result = await this.statesRepo
+      .createQueryBuilder()
+      .delete()
+      .from(OAuthState)
+      .where('"stateHash" = :stateHash', { stateHash: this.hash(state) })
+      .andWhere('provider = :provider', { provider })
+      .andWhere('"expiresAt" > :now', { now: new Date() })
+      .returning('*')
+      .execute();
+
+    const record = (result.raw as OAuthState[])[0];
+    if (!record) {
+      this.logger.warn(`⚠️ Неизвестный или истёкший state для ${provider}`);
+      throw new BadRequestException(
+        'Сессия входа истекла или недействительна, начните вход заново',
+      );
+    }
+    return record;
+  }
+
+  @Cron(CronExpression.EVERY_HOUR)
+  async cleanupExpired() {
+    const result = await this.statesRepo.delete({
+      expiresAt: LessThan(new Date()),
+    });
+    if (result.affected) {
+      this.logger.log(
+        `🧹 Удалено просроченных OAuth state: ${result.affected}`,
+      );
+    }
+  }
+
+  private hash(value: string): string {
+    return crypto.createHash('sha256').update(value).digest('hex');
+  }
+}
@@ -0,0 +1,63 @@
+import { IdentityProviderConfig } from './interfaces/identity-provider.interface';
+
+export type IdentityProviderPreset = Omit<
+  IdentityProviderConfig,
+  'id' | 'enabled' | 'clientId' | 'clientSecret'
+>;
+
+/**
+ * Готовые настройки популярных провайдеров; поля из system_settings их переопределяют.
+ * Для Keycloak issuer задаётся администратором: https://<host>/realms/<realm>
+ */
+export const IDENTITY_PROVIDER_PRESETS: Record<string, IdentityProviderPreset> =
+  {
+    google: {
+      type: 'oidc',
+      displayName: 'Google',
+      issuer: 'https://accounts.google.com',
+      scopes: ['openid', 'email', 'profile'],
+      usePkce: true,
+    },
+    yandex: {
+      type: 'oauth2',
+      displayName: 'Яндекс ID',
+      authorizationUrl: 'https://oauth.yandex.ru/authorize',
+      tokenUrl: 'https://oauth.yandex.ru/token',
+      userInfoUrl: 'https://login.yandex.ru/info?format=json',
+      userInfoTokenParam: 'oauth_token',
+      scopes: ['login:email', 'login:info', 'login:avatar'],
+      usePkce: true,
+      // Яндекс отдаёт только подтверждённые адреса
+      trustEmail: true,
+      claims: {
+        subject: 'id',
+        email: 'default_email',
+        firstName: 'first_name',
+        lastName: 'last_name',
+        username: 'login',
+      },
+    },
+    mailru: {
+      type: 'oauth2',
+      displayName: 'Mail.ru',
+      authorizationUrl: 'https://oauth.mail.ru/login',
+      tokenUrl: 'https://oauth.mail.ru/token',
+      userInfoUrl: 'https://oauth.mail.ru/userinfo',
+      userInfoTokenParam: 'access_token',
+      scopes: ['userinfo'],
+      claims: {
+        subject: 'id',
+        email: 'email',
+        firstName: 'first_name',
+        lastName: 'last_name',
+        username: 'nickname',
+        avatarUrl: 'image',
+      },
+    },
+    keycloak: {
+      type: 'oidc',
+      displayName: 'Keycloak',
+      scopes: ['openid', 'email', 'profile'],
+      usePkce: true,
+    },
+  };
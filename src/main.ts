@@ -1,16 +1,20 @@
 import { NestFactory } from '@nestjs/core';
+import { NestExpressApplication } from '@nestjs/platform-express';
 import { ValidationPipe } from '@nestjs/common';
 import { DocumentBuilder, SwaggerModule } from '@nestjs/swagger';
 import { ConfigService } from '@nestjs/config';
 import { AppModule } from './app.module';
 
 async function bootstrap() {
-  const app = await NestFactory.create(AppModule);
+  const app = await NestFactory.create<NestExpressApplication>(AppModule);
   const configService = app.get(ConfigService);
 
   // Global prefix
   app.setGlobalPrefix('api');
 
+  // SCIM-клиенты присылают тело с Content-Type application/scim+json
+  app.useBodyParser('json', { type: 'application/scim+json' });
+
   // CORS
   const frontendUrl = configService.get('FRONTEND_URL', 'http://localhost:3000');
   app.enableCors({
@@ -43,7 +47,7 @@ async function bootstrap() {
     },
     credentials: true,
     methods: ['GET', 'POST', 'PUT', 'DELETE', 'PATCH', 'OPTIONS'],
-    allowedHeaders: ['Content-Type', 'Authorization', 'Accept'],
+    allowedHeaders: ['Content-Type', 'Authorization', 'Accept', 'X-Organization-Id', 'X-Team-Id'],
   });
 
   // Global validation pipe
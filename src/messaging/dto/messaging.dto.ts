@@ -0,0 +1,97 @@
+import {
+  ArrayMinSize,
+  ArrayUnique,
+  IsArray,
+  IsIn,
+  IsInt,
+  IsOptional,
+  IsString,
+  Max,
+  MaxLength,
+  Min,
+} from 'class-validator';
+import { Type } from 'class-transformer';
+import { ApiPropertyOptional } from '@nestjs/swagger';
+import { MESSAGE_CHANNELS } from '../interfaces/message-provider.interface';
+import type {
+  MessageChannel,
+  OutboundMessageStatus,
+} from '../interfaces/message-provider.interface';
+
+const MESSAGE_STATUSES = ['pending', 'sending', 'sent', 'failed'];
+
+/**
+ * Порядок перебора провайдеров по каналам: первый настроенный, затем следующие при ошибке
+ */
+export class UpdateMessagingProvidersDto {
+  @ApiPropertyOptional({ example: ['smtp', 'sink'] })
+  @IsOptional()
+  @IsArray()
+  @ArrayMinSize(1)
+  @ArrayUnique()
+  @IsString({ each: true })
+  email?: string[];
+
+  @ApiPropertyOptional({ example: ['smsaero', 'telegram'] })
+  @IsOptional()
+  @IsArray()
+  @ArrayMinSize(1)
+  @ArrayUnique()
+  @IsString({ each: true })
+  sms?: string[];
+
+  @ApiPropertyOptional({ example: ['telegram'] })
+  @IsOptional()
+  @IsArray()
+  @ArrayMinSize(1)
+  @ArrayUnique()
+  @IsString({ each: true })
+  telegram?: string[];
+
+  @ApiPropertyOptional({ example: ['whatsapp'] })
+  @IsOptional()
+  @IsArray()
+  @ArrayMinSize(1)
+  @ArrayUnique()
+  @IsString({ each: true })
+  whatsapp?: string[];
+}
+
+export class OutboundMessagesQueryDto {
+  @ApiPropertyOptional({ enum: MESSAGE_CHANNELS })
+  @IsOptional()
+  @IsIn(MESSAGE_CHANNELS)
+  channel?: MessageChannel;
+
+  @ApiPropertyOptional({ enum: MESSAGE_STATUSES })
+  @IsOptional()
+  @IsIn(MESSAGE_STATUSES)
+  status?: OutboundMessageStatus;
+
+  @ApiPropertyOptional({ description: 'Email, телефон или chat_id' })
+  @IsOptional()
+  @IsString()
+  @MaxLength(255)
+  recipient?: string;
+
+  @ApiPropertyOptional({ example: 'login_code' })
+  @IsOptional()
+  @IsString()
+  @MaxLength(100)
+  purpose?: string;
+
+  @ApiPropertyOptional({ default: 50 })
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt()
+  @Min(1)
+  @Max(200)
+  limit?: number;
+
+  @ApiPropertyOptional({ default: 0 })
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt()
+  @Min(0)
+  offset?: number;
+}
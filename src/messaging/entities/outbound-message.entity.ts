@@ -0,0 +1,82 @@
+import {
+  Entity,
+  PrimaryGeneratedColumn,
+  Column,
+  CreateDateColumn,
+  UpdateDateColumn,
+  Index,
+} from 'typeorm';
+import type {
+  MessageChannel,
+  OutboundMessageStatus,
+  ProviderAttempt,
+} from '../interfaces/message-provider.interface';
+
+/**
+ * Исходящее сообщение (письмо, SMS, мессенджер): очередь с повторами и статус доставки.
+ * Текст очищается после отправки или отказа - в нём одноразовые коды и ссылки с токенами
+ */
+@Entity('outbound_messages')
+@Index(['status', 'nextAttemptAt'])
+@Index(['recipient', 'createdAt'])
+export class OutboundMessage {
+  @PrimaryGeneratedColumn('uuid')
+  id: string;
+
+  @Column({ type: 'varchar', length: 20 })
+  channel: MessageChannel;
+
+  @Column({ type: 'varchar', length: 255 })
+  recipient: string;
+
+  @Column({ type: 'varchar', length: 100, nullable: true })
+  purpose: string | null; // Ключ шаблона письма или назначение кода
+
+  @Column({ type: 'varchar', length: 500, nullable: true })
+  subject: string | null;
+
+  @Column({ type: 'text', nullable: true, select: false })
+  text: string | null;
+
+  @Column({ type: 'text', nullable: true, select: false })
+  html: string | null;
+
+  @Column({ type: 'varchar', length: 20, default: 'pending' })
+  status: OutboundMessageStatus;
+
+  @Column({ type: 'int', default: 0 })
+  attempts: number;
+
+  @Column({ type: 'int' })
+  maxAttempts: number;
+
+  @Column({ type: 'timestamp', default: () => 'CURRENT_TIMESTAMP' })
+  nextAttemptAt: Date;
+
+  @Column({ type: 'timestamp', nullable: true })
+  lastAttemptAt: Date | null;
+
+  @Column({ type: 'timestamp', nullable: true })
+  expiresAt: Date | null; // Код после истечения отправлять бессмысленно
+
+  @Column({ type: 'varchar', length: 50, nullable: true })
+  provider: string | null; // Провайдер, принявший сообщение
+
+  @Column({ type: 'varchar', length: 255, nullable: true })
+  providerMessageId: string | null;
+
+  @Column({ type: 'jsonb', default: () => "'[]'" })
+  providerAttempts: ProviderAttempt[];
+
+  @Column({ type: 'text', nullable: true })
+  error: string | null;
+
+  @Column({ type: 'timestamp', nullable: true })
+  sentAt: Date | null;
+
+  @CreateDateColumn()
+  createdAt: Date;
+
+  @UpdateDateColumn()
+  updatedAt: Date;
+}
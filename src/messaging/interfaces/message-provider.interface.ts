@@ -0,0 +1,49 @@
+export const MESSAGE_CHANNELS = [
+  'email',
+  'sms',
+  'telegram',
+  'whatsapp',
+] as const;
+
+export type MessageChannel = (typeof MESSAGE_CHANNELS)[number];
+
+export type OutboundMessageStatus = 'pending' | 'sending' | 'sent' | 'failed';
+
+/**
+ * Сообщение для отправки провайдером
+ */
+export interface MessageEnvelope {
+  channel: MessageChannel;
+  to: string; // email, номер телефона или chat_id Telegram
+  subject?: string | null;
+  text: string;
+  html?: string | null;
+}
+
+export interface MessageSendResult {
+  providerMessageId?: string | null;
+}
+
+/**
+ * Провайдер доставки (SMTP, SmsAero, Telegram Bot, ...).
+ * send() бросает ошибку, если сообщение не принято - тогда пробуется следующий провайдер канала
+ */
+export interface MessageProvider {
+  readonly id: string;
+  readonly channels: readonly MessageChannel[];
+
+  isConfigured(): boolean;
+
+  send(message: MessageEnvelope): Promise<MessageSendResult>;
+}
+
+export const MESSAGE_PROVIDERS = Symbol('MESSAGE_PROVIDERS');
+
+/**
+ * Попытка отправки через конкретного провайдера, для журнала сообщения
+ */
+export interface ProviderAttempt {
+  provider: string;
+  at: string;
+  error: string | null;
+}
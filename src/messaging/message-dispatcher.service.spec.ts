@@ -0,0 +1,171 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { getRepositoryToken } from '@nestjs/typeorm';
+import { ConfigService } from '@nestjs/config';
+import { DataSource } from 'typeorm';
+import { MessageDispatcherService } from './message-dispatcher.service';
+import { MessageProvidersService } from './message-providers.service';
+import { SinkMessageProvider } from './providers/sink.provider';
+import { OutboundMessage } from './entities/outbound-message.entity';
+import {
+  MESSAGE_PROVIDERS,
+  MessageProvider,
+} from './interfaces/message-provider.interface';
+import { SettingsService } from '../settings/settings.service';
+
+describe('MessageDispatcherService', () => {
+  let dispatcher: MessageDispatcherService;
+  let sink: SinkMessageProvider;
+
+  // Основной провайдер email недоступен
+  const sendThroughSmtp = jest
+    .fn()
+    .mockRejectedValue(new Error('Connection refused'));
+  const smtp: MessageProvider = {
+    id: 'smtp',
+    channels: ['email'],
+    isConfigured: () => true,
+    send: sendThroughSmtp,
+  };
+
+  const mockMessagesRepository = {
+    update: jest.fn().mockResolvedValue({ affected: 1 }),
+  };
+
+  const mockSettingsService = {
+    getSetting: jest.fn().mockResolvedValue(null),
+  };
+
+  const config: Record<string, unknown> = {
+    'messaging.providers': {
+      email: ['smtp', 'sink'],
+      sms: ['sink'],
+      telegram: ['sink'],
+      whatsapp: ['sink'],
+    },
+    'messaging.baseDelaySeconds': 30,
+    'messaging.maxDelaySeconds': 3600,
+  };
+
+  const message = (fields: Partial<OutboundMessage> = {}) =>
+    ({
+      id: 'message-1',
+      channel: 'email',
+      recipient: 'user@example.com',
+      subject: 'Код входа',
+      text: 'Ваш код: 123456',
+      html: null,
+      status: 'pending',
+      attempts: 0,
+      maxAttempts: 3,
+      providerAttempts: [],
+      expiresAt: null,
+      ...fields,
+    }) as OutboundMessage;
+
+  beforeEach(async () => {
+    jest.clearAllMocks();
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        MessageDispatcherService,
+        MessageProvidersService,
+        SinkMessageProvider,
+        {
+          provide: MESSAGE_PROVIDERS,
+          useFactory: (sinkProvider: SinkMessageProvider) => [
+            smtp,
+            sinkProvider,
+          ],
+          inject: [SinkMessageProvider],
+        },
+        {
+          provide: getRepositoryToken(OutboundMessage),
+          useValue: mockMessagesRepository,
+        },
+        {
+          provide: DataSource,
+          useValue: {},
+        },
+        {
+          provide: SettingsService,
+          useValue: mockSettingsService,
+        },
+        {
+          provide: ConfigService,
+          useValue: { get: jest.fn((name: string) => config[name]) },
+        },
+      ],
+    }).compile();
+
+    dispatcher = module.get<MessageDispatcherService>(MessageDispatcherService);
+    sink = module.get<SinkMessageProvider>(SinkMessageProvider);
+  });
+
+  it('should fall back to the next provider of the channel', async () => {
+    const result = await dispatcher.dispatch(message());
+
+    expect(result).toMatchObject({
+      status: 'sent',
+      attempts: 1,
+      provider: 'sink',
+      text: null,
+    });
+    expect(result.providerAttempts.map((attempt) => attempt.error)).toEqual([
+      'Connection refused',
+      null,
+    ]);
+    await expect(
+      sink.readMessages({ to: 'user@example.com' }),
+    ).resolves.toMatchObject([{ channel: 'email', text: 'Ваш код: 123456' }]);
+  });
+
+  it('should follow the provider order from the settings', async () => {
+    mockSettingsService.getSetting.mockResolvedValueOnce(
+      JSON.stringify({ email: ['sink', 'smtp'] }),
+    );
+
+    const result = await dispatcher.dispatch(message());
+
+    expect(result.provider).toBe('sink');
+    expect(sendThroughSmtp).not.toHaveBeenCalled();
+  });
+
+  it('should schedule a retry when every provider fails', async () => {
+    mockSettingsService.getSetting.mockResolvedValueOnce(
+      JSON.stringify({ email: ['smtp'] }),
+    );
+
+    const result = await dispatcher.dispatch(message());
+
+    expect(result).toMatchObject({
+      status: 'pending',
+      attempts: 1,
+      error: 'smtp: Connection refused',
+      text: 'Ваш код: 123456',
+    });
+    expect(result.nextAttemptAt.getTime()).toBeGreaterThan(Date.now());
+  });
+
+  it('should fail the message after the last attempt', async () => {
+    mockSettingsService.getSetting.mockResolvedValueOnce(
+      JSON.stringify({ email: ['smtp'] }),
+    );
+
+    const result = await dispatcher.dispatch(message({ attempts: 2 }));
+
+    expect(result).toMatchObject({ status: 'failed', attempts: 3, text: null });
+  });
+
+  it('should not send an expired code', async () => {
+    const result = await dispatcher.dispatch(
+      message({ expiresAt: new Date(Date.now() - 1000) }),
+    );
+
+    expect(result).toMatchObject({
+      status: 'failed',
+      error: 'Срок действия сообщения истёк',
+    });
+    expect(sendThroughSmtp).not.toHaveBeenCalled();
+    await expect(sink.readMessages()).resolves.toEqual([]);
+  });
+});
@@ -0,0 +1,228 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { InjectRepository } from '@nestjs/typeorm';
+import { Cron, CronExpression } from '@nestjs/schedule';
+import { DataSource, In, LessThan, Repository } from 'typeorm';
+import { OutboundMessage } from './entities/outbound-message.entity';
+import { MessageProvidersService } from './message-providers.service';
+import { ProviderAttempt } from './interfaces/message-provider.interface';
+
+// Сообщение в статусе sending дольше этого считается прерванным (рестарт процесса)
+const STUCK_MESSAGE_MS = 5 * 60 * 1000;
+const PROVIDER_ATTEMPTS_LIMIT = 20;
+
+/**
+ * Отправка сообщений из очереди: перебор провайдеров канала, повторы с экспоненциальной паузой.
+ * Строки забираются через FOR UPDATE SKIP LOCKED, поэтому реплик может быть несколько
+ */
+@Injectable()
+export class MessageDispatcherService {
+  private readonly logger = new Logger(MessageDispatcherService.name);
+  private processing = false;
+
+  constructor(
+    @InjectRepository(OutboundMessage)
+    private messagesRepo: Repository<OutboundMessage>,
+    private dataSource: DataSource,
+    private providersService: MessageProvidersService,
+    private configService: ConfigService,
+  ) {}
+
+  /**
+   * Первая попытка сразу после постановки в очередь - коды не должны ждать планировщика
+   */
+  async dispatch(message: OutboundMessage): Promise<OutboundMessage> {
+    const claimed = await this.messagesRepo.update(
+      { id: message.id, status: 'pending' },
+      { status: 'sending', lastAttemptAt: new Date() },
+    );
+    if (!claimed.affected) {
+      return message;
+    }
+    return this.deliver(message);
+  }
+
+  @Cron(CronExpression.EVERY_10_SECONDS)
+  async processQueue(): Promise<void> {
+    if (this.processing) {
+      return;
+    }
+    this.processing = true;
+    try {
+      await this.releaseStuckMessages();
+
+      const batchSize = this.configService.get<number>('messaging.batchSize')!;
+      let batch: OutboundMessage[];
+      do {
+        batch = await this.claimDueMessages(batchSize);
+        for (const message of batch) {
+          await this.deliver(message);
+        }
+      } while (batch.length === batchSize);
+    } catch (error) {
+      this.logger.error(
+        `❌ Ошибка обработки очереди сообщений: ${(error as Error).message}`,
+      );
+    } finally {
+      this.processing = false;
+    }
+  }
+
+  @Cron(CronExpression.EVERY_DAY_AT_3AM)
+  async cleanup(): Promise<void> {
+    const retentionDays = this.configService.get<number>(
+      'messaging.retentionDays',
+    )!;
+    const result = await this.messagesRepo.delete({
+      status: In(['sent', 'failed']),
+      createdAt: LessThan(new Date(Date.now() - retentionDays * 86_400_000)),
+    });
+    if (result.affected) {
+      this.logger.log(`🧹 Удалено старых сообщений: ${result.affected}`);
+    }
+  }
+
+  /**
+   * Пауза перед следующей попыткой: base * 2^(attempts-1) с разбросом ±20%
+   */
+  retryDelayMs(attempts: number): number {
+    const base = this.configService.get<number>('messaging.baseDelaySeconds')!;
+    const max = this.configService.get<number>('messaging.maxDelaySeconds')!;
+    const delay = Math.min(base * 2 ** (attempts - 1), max) * 1000;
+    return Math.round(delay * (0.8 + Math.random() * 0.4));
+  }
+
+  private async claimDueMessages(limit: number): Promise<OutboundMessage[]> {
+    return this.dataSource.transaction(async (manager) => {
+      const due = await manager
+        .getRepository(OutboundMessage)
+        .createQueryBuilder('message')
+        .addSelect(['message.text', 'message.html'])
+        .where('message.status = :status', { status: 'pending' })
+        .andWhere('message.nextAttemptAt <= :now', { now: new Date() })
+        .orderBy('message.nextAttemptAt', 'ASC')
+        .limit(limit)
+        .setLock('pessimistic_write')
+        .setOnLocked('skip_locked')
+        .getMany();
+
+      if (due.length > 0) {
+        await manager.update(
+          OutboundMessage,
+          { id: In(due.map((message) => message.id)) },
+          { status: 'sending', lastAttemptAt: new Date() },
+        );
+      }
+      return due;
+    });
+  }
+
+  private async releaseStuckMessages(): Promise<void> {
+    await this.messagesRepo.update(
+      {
+        status: 'sending',
+        lastAttemptAt: LessThan(new Date(Date.now() - STUCK_MESSAGE_MS)),
+      },
+      { status: 'pending' },
+    );
+  }
+
+  private async deliver(message: OutboundMessage): Promise<OutboundMessage> {
+    const attempts = message.attempts + 1;
+    const log: ProviderAttempt[] = [];
+    let error: string | null = null;
+    // Повтор не поможет: код истёк или текст уже очищен
+    let hopeless = true;
+
+    if (message.expiresAt && message.expiresAt < new Date()) {
+      error = 'Срок действия сообщения истёк';
+    } else if (message.text === null) {
+      error = 'Текст сообщения недоступен';
+    } else {
+      hopeless = false;
+      const providers = await this.providersService.resolve(message.channel);
+      if (!providers.length) {
+        error = `Нет настроенных провайдеров для канала ${message.channel}`;
+      }
+
+      for (const provider of providers) {
+        try {
+          const result = await provider.send({
+            channel: message.channel,
+            to: message.recipient,
+            subject: message.subject,
+            text: message.text,
+            html: message.html,
+          });
+          log.push({
+            provider: provider.id,
+            at: new Date().toISOString(),
+            error: null,
+          });
+          return this.finish(message, {
+            status: 'sent',
+            attempts,
+            provider: provider.id,
+            providerMessageId: result.providerMessageId ?? null,
+            providerAttempts: this.appendAttempts(message, log),
+            error: null,
+            sentAt: new Date(),
+          });
+        } catch (e) {
+          error = `${provider.id}: ${(e as Error).message}`;
+          log.push({
+            provider: provider.id,
+            at: new Date().toISOString(),
+            error: (e as Error).message,
+          });
+          this.logger.warn(
+            `⚠️ ${provider.id} не отправил ${message.channel} на ${message.recipient}: ${(e as Error).message}`,
+          );
+        }
+      }
+    }
+
+    if (hopeless || attempts >= message.maxAttempts) {
+      this.logger.error(
+        `❌ ${message.channel} на ${message.recipient} не отправлено после ${attempts} попыток: ${error}`,
+      );
+      return this.finish(message, {
+        status: 'failed',
+        attempts,
+        providerAttempts: this.appendAttempts(message, log),
+        error,
+      });
+    }
+
+    const fields: Partial<OutboundMessage> = {
+      status: 'pending',
+      attempts,
+      providerAttempts: this.appendAttempts(message, log),
+      error,
+      nextAttemptAt: new Date(Date.now() + this.retryDelayMs(attempts)),
+    };
+    await this.messagesRepo.update(message.id, fields);
+    return Object.assign(message, fields);
+  }
+
+  /**
+   * Итоговый статус; текст с кодами больше не нужен и не хранится
+   */
+  private async finish(
+    message: OutboundMessage,
+    fields: Partial<OutboundMessage>,
+  ): Promise<OutboundMessage> {
+    const final = { ...fields, text: null, html: null };
+    await this.messagesRepo.update(message.id, final);
+    return Object.assign(message, final);
+  }
+
+  private appendAttempts(
+    message: OutboundMessage,
+    log: ProviderAttempt[],
+  ): ProviderAttempt[] {
+    return [...(message.providerAttempts ?? []), ...log].slice(
+      -PROVIDER_ATTEMPTS_LIMIT,
+    );
+  }
+}
@@ -0,0 +1,131 @@
+import {
+  BadRequestException,
+  Inject,
+  Injectable,
+  Logger,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { SettingsService } from '../settings/settings.service';
+import {
+  MESSAGE_CHANNELS,
+  MESSAGE_PROVIDERS,
+  MessageChannel,
+  MessageEnvelope,
+  MessageProvider,
+} from './interfaces/message-provider.interface';
+
+const SETTINGS_KEY = 'messaging_providers';
+
+export type MessageProviderOrder = Record<MessageChannel, string[]>;
+
+/**
+ * Реестр провайдеров доставки и порядок их перебора по каналам
+ * (system_settings.messaging_providers поверх MESSAGING_*_PROVIDERS)
+ */
+@Injectable()
+export class MessageProvidersService {
+  private readonly logger = new Logger(MessageProvidersService.name);
+
+  constructor(
+    @Inject(MESSAGE_PROVIDERS) private providers: MessageProvider[],
+    private settingsService: SettingsService,
+    private configService: ConfigService,
+  ) {}
+
+  list() {
+    return this.providers.map((provider) => ({
+      id: provider.id,
+      channels: [...provider.channels],
+      configured: provider.isConfigured(),
+    }));
+  }
+
+  async getOrder(): Promise<MessageProviderOrder> {
+    const defaults = this.configService.get<MessageProviderOrder>(
+      'messaging.providers',
+    )!;
+    const raw = await this.settingsService.getSetting(SETTINGS_KEY);
+    if (!raw) {
+      return defaults;
+    }
+    try {
+      return { ...defaults, ...(JSON.parse(raw) as MessageProviderOrder) };
+    } catch {
+      this.logger.warn('⚠️ Некорректный порядок провайдеров в настройках');
+      return defaults;
+    }
+  }
+
+  /**
+   * Изменение порядка; каналы, не переданные в запросе, остаются как были
+   */
+  async updateOrder(
+    changes: Partial<MessageProviderOrder>,
+  ): Promise<MessageProviderOrder> {
+    for (const [channel, ids] of Object.entries(changes)) {
+      for (const id of ids ?? []) {
+        const provider = this.providers.find((item) => item.id === id);
+        if (!provider) {
+          throw new BadRequestException(`Неизвестный провайдер "${id}"`);
+        }
+        if (!provider.channels.includes(channel as MessageChannel)) {
+          throw new BadRequestException(
+            `Провайдер "${id}" не поддерживает канал ${channel}`,
+          );
+        }
+      }
+    }
+
+    const order = { ...(await this.getOrder()), ...changes };
+    await this.settingsService.setSetting(
+      SETTINGS_KEY,
+      JSON.stringify(order),
+      'Порядок провайдеров доставки сообщений по каналам',
+    );
+    this.logger.log(
+      `🔧 Порядок провайдеров: ${MESSAGE_CHANNELS.map((channel) => `${channel}=${order[channel].join('>')}`).join(', ')}`,
+    );
+    return order;
+  }
+
+  /**
+   * Настроенные провайдеры канала в порядке перебора
+   */
+  async resolve(channel: MessageChannel): Promise<MessageProvider[]> {
+    const order = (await this.getOrder())[channel] ?? [];
+    return order
+      .map((id) => this.providers.find((provider) => provider.id === id))
+      .filter(
+        (provider): provider is MessageProvider =>
+          !!provider &&
+          provider.channels.includes(channel) &&
+          provider.isConfigured(),
+      );
+  }
+
+  /**
+   * Проверка каждого настроенного провайдера канала отдельным сообщением, минуя очередь
+   */
+  async test(
+    message: MessageEnvelope,
+  ): Promise<Array<{ provider: string; ok: boolean; error: string | null }>> {
+    const results: Array<{
+      provider: string;
+      ok: boolean;
+      error: string | null;
+    }> = [];
+    for (const provider of await this.resolve(message.channel)) {
+      try {
+        await provider.send(message);
+        results.push({ provider: provider.id, ok: true, error: null });
+      } catch (error) {
+        results.push({
+          provider: provider.id,
+          ok: false,
+          error: (error as Error).message,
+        });
+      }
+    }
+    return results;
+  }
+}
@@ -0,0 +1,74 @@
+import {
+  Body,
+  Controller,
+  Get,
+  Param,
+  ParseUUIDPipe,
+  Put,
+  Query,
+} from '@nestjs/common';
+import {
+  ApiTags,
+  ApiOperation,
+  ApiResponse,
+  ApiBearerAuth,
+} from '@nestjs/swagger';
+import { MessagingService } from './messaging.service';
+import { MessageProvidersService } from './message-providers.service';
+import {
+  OutboundMessagesQueryDto,
+  UpdateMessagingProvidersDto,
+} from './dto/messaging.dto';
+import { CurrentUser } from '../auth/decorators/current-user.decorator';
+import { RequirePermissions } from '../auth/decorators/permissions.decorator';
+
+@ApiTags('messaging')
+@Controller()
+@ApiBearerAuth()
+export class MessagingController {
+  constructor(
+    private readonly messagingService: MessagingService,
+    private readonly providersService: MessageProvidersService,
+  ) {}
+
+  @Get('settings/messaging-providers')
+  @RequirePermissions('settings.read')
+  @ApiOperation({ summary: 'Провайдеры доставки и порядок их перебора' })
+  @ApiResponse({ status: 200, description: 'Провайдеры и порядок по каналам' })
+  async getProviders() {
+    return {
+      providers: this.providersService.list(),
+      order: await this.providersService.getOrder(),
+    };
+  }
+
+  @Put('settings/messaging-providers')
+  @RequirePermissions('settings.update')
+  @ApiOperation({ summary: 'Изменение порядка провайдеров доставки' })
+  @ApiResponse({ status: 200, description: 'Порядок сохранён' })
+  async updateProviders(
+    @Body() dto: UpdateMessagingProvidersDto,
+    @CurrentUser() user: { email: string },
+  ) {
+    const order = await this.providersService.updateOrder(dto);
+    console.log(`🔧 ${user.email} изменил порядок провайдеров доставки`);
+    return { providers: this.providersService.list(), order };
+  }
+
+  @Get('messaging/messages')
+  @RequirePermissions('settings.read')
+  @ApiOperation({ summary: 'Журнал исходящих сообщений (без текста)' })
+  @ApiResponse({ status: 200, description: 'Сообщения, новые сверху' })
+  async findMessages(@Query() query: OutboundMessagesQueryDto) {
+    return this.messagingService.findMessages(query);
+  }
+
+  @Get('messaging/messages/:id')
+  @RequirePermissions('settings.read')
+  @ApiOperation({ summary: 'Статус сообщения и попытки провайдеров' })
+  @ApiResponse({ status: 200, description: 'Сообщение найдено' })
+  @ApiResponse({ status: 404, description: 'Сообщение не найдено' })
+  async getMessage(@Param('id', ParseUUIDPipe) id: string) {
+    return this.messagingService.getMessage(id);
+  }
+}
@@ -0,0 +1,45 @@
+import { Global, Module } from '@nestjs/common';
+import { TypeOrmModule } from '@nestjs/typeorm';
+import { OutboundMessage } from './entities/outbound-message.entity';
+import { MessagingService } from './messaging.service';
+import { MessageDispatcherService } from './message-dispatcher.service';
+import { MessageProvidersService } from './message-providers.service';
+import { MessagingController } from './messaging.controller';
+import { MESSAGE_PROVIDERS } from './interfaces/message-provider.interface';
+import { SmtpMessageProvider } from './providers/smtp.provider';
+import { SmsAeroMessageProvider } from './providers/smsaero.provider';
+import { TelegramMessageProvider } from './providers/telegram.provider';
+import { WhatsAppMessageProvider } from './providers/whatsapp.provider';
+import { SinkMessageProvider } from './providers/sink.provider';
+import { SettingsModule } from '../settings/settings.module';
+
+const PROVIDERS = [
+  SmtpMessageProvider,
+  SmsAeroMessageProvider,
+  TelegramMessageProvider,
+  WhatsAppMessageProvider,
+  SinkMessageProvider,
+];
+
+/**
+ * Доставка сообщений доступна всем модулям, отправляющим письма и коды
+ */
+@Global()
+@Module({
+  imports: [TypeOrmModule.forFeature([OutboundMessage]), SettingsModule],
+  controllers: [MessagingController],
+  providers: [
+    ...PROVIDERS,
+    {
+      provide: MESSAGE_PROVIDERS,
+      useFactory: (...providers: InstanceType<(typeof PROVIDERS)[number]>[]) =>
+        providers,
+      inject: PROVIDERS,
+    },
+    MessageProvidersService,
+    MessageDispatcherService,
+    MessagingService,
+  ],
+  exports: [MessagingService, MessageProvidersService, SinkMessageProvider],
+})
+export class MessagingModule {}
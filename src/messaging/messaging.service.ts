@@ -0,0 +1,86 @@
+import { Injectable, NotFoundException } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { InjectRepository } from '@nestjs/typeorm';
+import { Repository } from 'typeorm';
+import { OutboundMessage } from './entities/outbound-message.entity';
+import { MessageDispatcherService } from './message-dispatcher.service';
+import { MessageChannel } from './interfaces/message-provider.interface';
+import { OutboundMessagesQueryDto } from './dto/messaging.dto';
+
+export interface SendMessageRequest {
+  channel: MessageChannel;
+  to: string;
+  subject?: string;
+  text: string;
+  html?: string;
+  purpose?: string;
+  expiresAt?: Date; // Для кодов: после истечения повторы прекращаются
+  maxAttempts?: number; // 1 - без повторов (тестовая отправка)
+}
+
+/**
+ * Единая точка отправки писем, SMS и сообщений мессенджеров через очередь outbound_messages
+ */
+@Injectable()
+export class MessagingService {
+  constructor(
+    @InjectRepository(OutboundMessage)
+    private messagesRepo: Repository<OutboundMessage>,
+    private dispatcher: MessageDispatcherService,
+    private configService: ConfigService,
+  ) {}
+
+  /**
+   * Поставить сообщение в очередь и сразу попытаться отправить.
+   * Ошибки провайдеров не пробрасываются - результат в статусе сообщения
+   */
+  async send(request: SendMessageRequest): Promise<OutboundMessage> {
+    const message = await this.messagesRepo.save(
+      this.messagesRepo.create({
+        channel: request.channel,
+        recipient: request.to.trim(),
+        subject: request.subject?.slice(0, 500) ?? null,
+        text: request.text,
+        html: request.html ?? null,
+        purpose: request.purpose ?? null,
+        expiresAt: request.expiresAt ?? null,
+        maxAttempts:
+          request.maxAttempts ??
+          this.configService.get<number>('messaging.maxAttempts')!,
+      }),
+    );
+    return this.dispatcher.dispatch(message);
+  }
+
+  /**
+   * Отправлено или ещё будет повторено
+   */
+  isAccepted(message: OutboundMessage): boolean {
+    return message.status !== 'failed';
+  }
+
+  async findMessages(
+    query: OutboundMessagesQueryDto,
+  ): Promise<{ items: OutboundMessage[]; total: number }> {
+    const [items, total] = await this.messagesRepo.findAndCount({
+      where: {
+        ...(query.channel ? { channel: query.channel } : {}),
+        ...(query.status ? { status: query.status } : {}),
+        ...(query.recipient ? { recipient: query.recipient.trim() } : {}),
+        ...(query.purpose ? { purpose: query.purpose } : {}),
+      },
+      order: { createdAt: 'DESC' },
+      take: query.limit ?? 50,
+      skip: query.offset ?? 0,
+    });
+    return { items, total };
+  }
+
+  async getMessage(id: string): Promise<OutboundMessage> {
+    const message = await this.messagesRepo.findOne({ where: { id } });
+    if (!message) {
+      throw new NotFoundException('Сообщение не найдено');
+    }
+    return message;
+  }
+}
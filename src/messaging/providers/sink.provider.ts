@@ -0,0 +1,95 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { randomUUID } from 'crypto';
+import { appendFile, readFile, writeFile } from 'fs/promises';
+import {
+  MessageChannel,
+  MessageEnvelope,
+  MessageProvider,
+  MessageSendResult,
+  MESSAGE_CHANNELS,
+} from '../interfaces/message-provider.interface';
+
+const MEMORY_LIMIT = 100;
+
+export interface SinkMessage extends MessageEnvelope {
+  id: string;
+  sentAt: string;
+}
+
+/**
+ * Локальная доставка для разработки и тестов: сообщение пишется в лог и в файл
+ * MESSAGING_SINK_FILE (JSON Lines), откуда тесты читают коды через readMessages()
+ */
+@Injectable()
+export class SinkMessageProvider implements MessageProvider {
+  readonly id = 'sink';
+  readonly channels = MESSAGE_CHANNELS;
+
+  private readonly logger = new Logger(SinkMessageProvider.name);
+  private readonly recent: SinkMessage[] = [];
+
+  constructor(private configService: ConfigService) {}
+
+  isConfigured(): boolean {
+    return true;
+  }
+
+  async send(message: MessageEnvelope): Promise<MessageSendResult> {
+    const stored: SinkMessage = {
+      id: randomUUID(),
+      channel: message.channel,
+      to: message.to,
+      subject: message.subject ?? null,
+      text: message.text,
+      html: message.html ?? null,
+      sentAt: new Date().toISOString(),
+    };
+
+    this.logger.log(
+      `📭 [SINK] ${message.channel} -> ${message.to}${message.subject ? ` | ${message.subject}` : ''}\n${message.text}`,
+    );
+    this.recent.push(stored);
+    this.recent.splice(0, this.recent.length - MEMORY_LIMIT);
+
+    const file = this.sinkFile();
+    if (file) {
+      await appendFile(file, JSON.stringify(stored) + '\n', 'utf8');
+    }
+    return { providerMessageId: stored.id };
+  }
+
+  /**
+   * Отправленные сообщения, новые в конце (из файла, если он задан, иначе из памяти процесса)
+   */
+  async readMessages(
+    filter: { to?: string; channel?: MessageChannel } = {},
+  ): Promise<SinkMessage[]> {
+    const file = this.sinkFile();
+    let messages = this.recent;
+    if (file) {
+      const content = await readFile(file, 'utf8').catch(() => '');
+      messages = content
+        .split('\n')
+        .filter(Boolean)
+        .map((line) => JSON.parse(line) as SinkMessage);
+    }
+    return messages.filter(
+      (message) =>
+        (!filter.to || message.to === filter.to) &&
+        (!filter.channel || message.channel === filter.channel),
+    );
+  }
+
+  async clear(): Promise<void> {
+    this.recent.length = 0;
+    const file = this.sinkFile();
+    if (file) {
+      await writeFile(file, '', 'utf8');
+    }
+  }
+
+  private sinkFile(): string {
+    return this.configService.get<string>('messaging.sinkFile') ?? '';
+  }
+}
@@ -0,0 +1,68 @@
+import { Injectable } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { createHash } from 'crypto';
+import {
+  MessageEnvelope,
+  MessageProvider,
+  MessageSendResult,
+} from '../interfaces/message-provider.interface';
+
+/**
+ * SMS через SmsAero (SMSAERO_EMAIL, SMSAERO_API_KEY, SMSAERO_FROM)
+ */
+@Injectable()
+export class SmsAeroMessageProvider implements MessageProvider {
+  readonly id = 'smsaero';
+  readonly channels = ['sms'] as const;
+
+  constructor(private configService: ConfigService) {}
+
+  isConfigured(): boolean {
+    return !!(
+      this.configService.get<string>('SMSAERO_EMAIL') &&
+      this.configService.get<string>('SMSAERO_API_KEY')
+    );
+  }
+
+  async send(message: MessageEnvelope): Promise<MessageSendResult> {
+    // SmsAero API v1 принимает MD5 от API-ключа вместо пароля
+    const params = new URLSearchParams({
+      user: this.configService.get<string>('SMSAERO_EMAIL')!,
+      password: createHash('md5')
+        .update(this.configService.get<string>('SMSAERO_API_KEY')!)
+        .digest('hex'),
+      to: this.formatPhone(message.to),
+      text: message.text,
+      from: this.configService.get<string>('SMSAERO_FROM', 'Loginus'),
+      answer: 'json',
+    });
+
+    const response = await fetch(`https://gate.smsaero.ru/send/?${params}`, {
+      signal: AbortSignal.timeout(
+        this.configService.get<number>('messaging.timeoutMs')!,
+      ),
+    });
+    const result = (await response.json()) as {
+      success?: boolean;
+      id?: number | string;
+      message?: string;
+    };
+    if (!result.success) {
+      throw new Error(
+        `SmsAero: ${result.message || `HTTP ${response.status}`}`,
+      );
+    }
+    return { providerMessageId: result.id != null ? String(result.id) : null };
+  }
+
+  /**
+   * Номер для SmsAero: только цифры, российский номер с 7
+   */
+  private formatPhone(phone: string): string {
+    const digits = phone.replace(/\D/g, '');
+    if (digits.startsWith('8') && digits.length === 11) {
+      return '7' + digits.substring(1);
+    }
+    return digits.startsWith('7') ? digits : '7' + digits;
+  }
+}
@@ -0,0 +1,63 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import * as nodemailer from 'nodemailer';
+import {
+  MessageEnvelope,
+  MessageProvider,
+  MessageSendResult,
+} from '../interfaces/message-provider.interface';
+
+/**
+ * Письма через SMTP (SMTP_HOST, SMTP_USER, SMTP_PASSWORD)
+ */
+@Injectable()
+export class SmtpMessageProvider implements MessageProvider {
+  readonly id = 'smtp';
+  readonly channels = ['email'] as const;
+
+  private readonly logger = new Logger(SmtpMessageProvider.name);
+  private transporter: nodemailer.Transporter;
+
+  constructor(private configService: ConfigService) {
+    const smtpConfig = {
+      host: this.configService.get<string>('SMTP_HOST', 'smtp.gmail.com'),
+      port: this.configService.get<number>('SMTP_PORT', 587),
+      secure: false, // true для 465, false для других портов
+      auth: {
+        user: this.configService.get<string>('SMTP_USER', ''),
+        pass: this.configService.get<string>('SMTP_PASSWORD', ''),
+      },
+    };
+    this.transporter = nodemailer.createTransport(smtpConfig);
+
+    if (this.isConfigured()) {
+      this.transporter.verify((error) => {
+        if (error) {
+          this.logger.error(`❌ SMTP недоступен: ${error.message}`);
+        } else {
+          this.logger.log(
+            `✅ SMTP ${smtpConfig.host}:${smtpConfig.port} готов`,
+          );
+        }
+      });
+    }
+  }
+
+  isConfigured(): boolean {
+    return !!(
+      this.configService.get<string>('SMTP_USER') &&
+      this.configService.get<string>('SMTP_PASSWORD')
+    );
+  }
+
+  async send(message: MessageEnvelope): Promise<MessageSendResult> {
+    const info = (await this.transporter.sendMail({
+      from: this.configService.get<string>('SMTP_FROM', 'noreply@loginus.ru'),
+      to: message.to,
+      subject: message.subject ?? '',
+      html: message.html ?? undefined,
+      text: message.text,
+    })) as { messageId?: string };
+    return { providerMessageId: info.messageId ?? null };
+  }
+}
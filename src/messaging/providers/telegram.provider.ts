@@ -0,0 +1,66 @@
+import { Injectable } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import {
+  MessageEnvelope,
+  MessageProvider,
+  MessageSendResult,
+} from '../interfaces/message-provider.interface';
+
+const CHAT_ID_PATTERN = /^(-?\d+|@\w{5,})$/;
+
+/**
+ * Telegram Bot (TELEGRAM_BOT_TOKEN). Сообщение уходит в чат получателя, если указан его chat_id;
+ * иначе (номер телефона, SMS) - пересылается в служебный чат TELEGRAM_CHAT_ID
+ */
+@Injectable()
+export class TelegramMessageProvider implements MessageProvider {
+  readonly id = 'telegram';
+  readonly channels = ['telegram', 'sms'] as const;
+
+  constructor(private configService: ConfigService) {}
+
+  isConfigured(): boolean {
+    return !!this.configService.get<string>('TELEGRAM_BOT_TOKEN');
+  }
+
+  async send(message: MessageEnvelope): Promise<MessageSendResult> {
+    const direct =
+      message.channel === 'telegram' && CHAT_ID_PATTERN.test(message.to);
+    const chatId = direct
+      ? message.to
+      : this.configService.get<string>('TELEGRAM_CHAT_ID');
+    if (!chatId) {
+      throw new Error('Telegram: не указан TELEGRAM_CHAT_ID для пересылки');
+    }
+
+    const botToken = this.configService.get<string>('TELEGRAM_BOT_TOKEN')!;
+    const response = await fetch(
+      `https://api.telegram.org/bot${botToken}/sendMessage`,
+      {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          chat_id: chatId,
+          text: direct
+            ? message.text
+            : `📱 ${message.channel.toUpperCase()} для ${message.to}\n\n${message.text}`,
+        }),
+        signal: AbortSignal.timeout(
+          this.configService.get<number>('messaging.timeoutMs')!,
+        ),
+      },
+    );
+    const result = (await response.json()) as {
+      ok?: boolean;
+      description?: string;
+      result?: { message_id?: number };
+    };
+    if (!result.ok) {
+      throw new Error(
+        `Telegram: ${result.description || `HTTP ${response.status}`}`,
+      );
+    }
+    const messageId = result.result?.message_id;
+    return { providerMessageId: messageId != null ? String(messageId) : null };
+  }
+}
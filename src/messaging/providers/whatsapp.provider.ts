@@ -0,0 +1,52 @@
+import { Injectable } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import {
+  MessageEnvelope,
+  MessageProvider,
+  MessageSendResult,
+} from '../interfaces/message-provider.interface';
+
+/**
+ * WhatsApp Business API (WHATSAPP_API_URL, WHATSAPP_TOKEN)
+ */
+@Injectable()
+export class WhatsAppMessageProvider implements MessageProvider {
+  readonly id = 'whatsapp';
+  readonly channels = ['whatsapp'] as const;
+
+  constructor(private configService: ConfigService) {}
+
+  isConfigured(): boolean {
+    return !!(
+      this.configService.get<string>('WHATSAPP_API_URL') &&
+      this.configService.get<string>('WHATSAPP_TOKEN')
+    );
+  }
+
+  async send(message: MessageEnvelope): Promise<MessageSendResult> {
+    const apiUrl = this.configService.get<string>('WHATSAPP_API_URL')!;
+    const response = await fetch(`${apiUrl}/messages`, {
+      method: 'POST',
+      headers: {
+        Authorization: `Bearer ${this.configService.get<string>('WHATSAPP_TOKEN')}`,
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({
+        messaging_product: 'whatsapp',
+        to: message.to,
+        type: 'text',
+        text: { body: message.text },
+      }),
+      signal: AbortSignal.timeout(
+        this.configService.get<number>('messaging.timeoutMs')!,
+      ),
+    });
+    if (!response.ok) {
+      throw new Error(`WhatsApp: HTTP ${response.status}`);
+    }
+    const result = (await response.json().catch(() => ({}))) as {
+      messages?: Array<{ id?: string }>;
+    };
+    return { providerMessageId: result.messages?.[0]?.id ?? null };
+  }
+}
@@ -0,0 +1,11 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { IsBoolean } from 'class-validator';
+
+export class AuthorizationDecisionDto {
+  @ApiProperty({
+    example: true,
+    description: 'Пользователь разрешил доступ приложению',
+  })
+  @IsBoolean()
+  approve: boolean;
+}
@@ -0,0 +1,111 @@
+import { ApiProperty } from '@nestjs/swagger';
+import {
+  IsArray,
+  IsBoolean,
+  IsOptional,
+  IsString,
+  IsUrl,
+  MaxLength,
+} from 'class-validator';
+
+export class CreateOAuthClientDto {
+  @ApiProperty({
+    example: 'CRM',
+    description: 'Название приложения (показывается на экране согласия)',
+  })
+  @IsString()
+  @MaxLength(255)
+  name: string;
+
+  @ApiProperty({ required: false, description: 'Описание приложения' })
+  @IsOptional()
+  @IsString()
+  description?: string;
+
+  @ApiProperty({ required: false, description: 'URL логотипа приложения' })
+  @IsOptional()
+  @IsUrl({ require_tld: false })
+  logoUrl?: string;
+
+  @ApiProperty({
+    example: ['https://crm.example.com/oidc/callback'],
+    description: 'Разрешённые redirect_uri',
+  })
+  @IsArray()
+  @IsUrl(
+    { require_tld: false, require_protocol: true },
+    { each: true, message: 'Некорректный redirect_uri' },
+  )
+  redirectUris: string[];
+
+  @ApiProperty({
+    example: ['openid', 'profile', 'email'],
+    required: false,
+    description: 'Разрешённые скоупы',
+  })
+  @IsOptional()
+  @IsArray()
+  @IsString({ each: true })
+  allowedScopes?: string[];
+
+  @ApiProperty({
+    example: true,
+    required: false,
+    description: 'Конфиденциальный клиент (с секретом)',
+  })
+  @IsOptional()
+  @IsBoolean()
+  isConfidential?: boolean;
+
+  @ApiProperty({
+    example: false,
+    required: false,
+    description: 'Пропускать экран согласия (доверенное приложение)',
+  })
+  @IsOptional()
+  @IsBoolean()
+  skipConsent?: boolean;
+}
+
+export class UpdateOAuthClientDto {
+  @ApiProperty({ required: false })
+  @IsOptional()
+  @IsString()
+  @MaxLength(255)
+  name?: string;
+
+  @ApiProperty({ required: false })
+  @IsOptional()
+  @IsString()
+  description?: string;
+
+  @ApiProperty({ required: false })
+  @IsOptional()
+  @IsUrl({ require_tld: false })
+  logoUrl?: string;
+
+  @ApiProperty({ required: false })
+  @IsOptional()
+  @IsArray()
+  @IsUrl(
+    { require_tld: false, require_protocol: true },
+    { each: true, message: 'Некорректный redirect_uri' },
+  )
+  redirectUris?: string[];
+
+  @ApiProperty({ required: false })
+  @IsOptional()
+  @IsArray()
+  @IsString({ each: true })
+  allowedScopes?: string[];
+
+  @ApiProperty({ required: false })
+  @IsOptional()
+  @IsBoolean()
+  skipConsent?: boolean;
+
+  @ApiProperty({ required: false })
+  @IsOptional()
+  @IsBoolean()
+  isActive?: boolean;
+}
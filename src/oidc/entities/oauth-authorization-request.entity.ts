@@ -0,0 +1,82 @@
+import {
+  Entity,
+  PrimaryGeneratedColumn,
+  Column,
+  CreateDateColumn,
+  UpdateDateColumn,
+  ManyToOne,
+  JoinColumn,
+  Index,
+} from 'typeorm';
+import { User } from '../../users/entities/user.entity';
+import { OAuthClient } from './oauth-client.entity';
+
+export enum AuthorizationRequestStatus {
+  PENDING = 'pending', // Ожидает входа пользователя и согласия
+  APPROVED = 'approved', // Код выдан, ожидает обмена на токены
+  DENIED = 'denied',
+  EXCHANGED = 'exchanged',
+  EXPIRED = 'expired',
+}
+
+@Entity('oauth_authorization_requests')
+@Index(['codeHash'])
+@Index(['expiresAt'])
+export class OAuthAuthorizationRequest {
+  @PrimaryGeneratedColumn('uuid')
+  id: string;
+
+  @Column({ type: 'uuid' })
+  clientId: string; // Ссылка на oauth_clients.id
+
+  @Column({ type: 'uuid', nullable: true })
+  userId: string | null;
+
+  @Column({ type: 'varchar', length: 1000 })
+  redirectUri: string;
+
+  @Column({ type: 'jsonb', default: '[]' })
+  scopes: string[];
+
+  @Column({ type: 'varchar', length: 500, nullable: true })
+  state: string | null;
+
+  @Column({ type: 'varchar', length: 500, nullable: true })
+  nonce: string | null;
+
+  @Column({ type: 'varchar', length: 128, nullable: true })
+  codeChallenge: string | null;
+
+  @Column({ type: 'varchar', length: 10, nullable: true })
+  codeChallengeMethod: 'S256' | 'plain' | null;
+
+  @Column({ type: 'varchar', length: 64, nullable: true })
+  codeHash: string | null; // SHA-256 от кода авторизации
+
+  @Column({
+    type: 'varchar',
+    length: 20,
+    default: AuthorizationRequestStatus.PENDING,
+  })
+  status: AuthorizationRequestStatus;
+
+  @Column({ type: 'timestamp', nullable: true })
+  authTime: Date | null;
+
+  @Column({ type: 'timestamp' })
+  expiresAt: Date;
+
+  @CreateDateColumn()
+  createdAt: Date;
+
+  @UpdateDateColumn()
+  updatedAt: Date;
+
+  @ManyToOne(() => OAuthClient, { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'clientId' })
+  client: OAuthClient;
+
+  @ManyToOne(() => User, { onDelete: 'CASCADE', nullable: true })
+  @JoinColumn({ name: 'userId' })
+  user: User | null;
+}
@@ -0,0 +1,69 @@
+import {
+  Entity,
+  PrimaryGeneratedColumn,
+  Column,
+  CreateDateColumn,
+  UpdateDateColumn,
+  ManyToOne,
+  JoinColumn,
+  Index,
+} from 'typeorm';
+import { Organization } from '../../organizations/entities/organization.entity';
+import { User } from '../../users/entities/user.entity';
+
+@Entity('oauth_clients')
+@Index(['clientId'], { unique: true })
+export class OAuthClient {
+  @PrimaryGeneratedColumn('uuid')
+  id: string;
+
+  @Column({ type: 'varchar', length: 100 })
+  clientId: string; // Публичный идентификатор приложения
+
+  @Column({ type: 'varchar', length: 255, nullable: true, select: false })
+  clientSecretHash: string | null; // SHA-256 от секрета, null для публичных клиентов
+
+  @Column({ type: 'varchar', length: 255 })
+  name: string;
+
+  @Column({ type: 'text', nullable: true })
+  description: string | null;
+
+  @Column({ type: 'varchar', length: 500, nullable: true })
+  logoUrl: string | null;
+
+  @Column({ type: 'jsonb', default: '[]' })
+  redirectUris: string[];
+
+  @Column({ type: 'jsonb', default: '["openid"]' })
+  allowedScopes: string[];
+
+  @Column({ type: 'boolean', default: true })
+  isConfidential: boolean; // false - SPA/мобильные приложения без секрета (только PKCE)
+
+  @Column({ type: 'boolean', default: false })
+  skipConsent: boolean; // Доверенные внутренние приложения
+
+  @Column({ type: 'boolean', default: true })
+  isActive: boolean;
+
+  @Column({ type: 'uuid', nullable: true })
+  organizationId: string | null;
+
+  @Column({ type: 'uuid', nullable: true })
+  createdBy: string | null;
+
+  @CreateDateColumn()
+  createdAt: Date;
+
+  @UpdateDateColumn()
+  updatedAt: Date;
+
+  @ManyToOne(() => Organization, { onDelete: 'CASCADE', nullable: true })
+  @JoinColumn({ name: 'organizationId' })
+  organization: Organization | null;
+
+  @ManyToOne(() => User, { onDelete: 'SET NULL', nullable: true })
+  @JoinColumn({ name: 'createdBy' })
+  creator: User | null;
+}
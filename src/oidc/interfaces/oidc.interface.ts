@@ -0,0 +1,60 @@
+/**
+ * Скоупы, которые поддерживает Loginus как OpenID провайдер
+ */
+export const OIDC_SUPPORTED_SCOPES = [
+  'openid',
+  'profile',
+  'email',
+  'phone',
+  'organizations', // Организации и команды пользователя с ролями
+  'roles', // Глобальные роли и права пользователя
+];
+
+export const OIDC_SUPPORTED_CLAIMS = [
+  'sub',
+  'name',
+  'given_name',
+  'family_name',
+  'picture',
+  'updated_at',
+  'email',
+  'email_verified',
+  'phone_number',
+  'phone_number_verified',
+  'organizations',
+  'teams',
+  'roles',
+  'permissions',
+];
+
+export interface OidcAccessTokenPayload {
+  iss: string;
+  sub: string;
+  aud: string; // client_id приложения
+  client_id: string;
+  scope: string;
+  jti: string;
+  iat?: number;
+  exp?: number;
+}
+
+export interface OidcTokenResponse {
+  access_token: string;
+  token_type: 'Bearer';
+  expires_in: number;
+  id_token: string;
+  scope: string;
+}
+
+export interface AuthorizationRequestView {
+  id: string;
+  client: {
+    clientId: string;
+    name: string;
+    description: string | null;
+    logoUrl: string | null;
+  };
+  scopes: string[];
+  consentRequired: boolean;
+  expiresAt: Date;
+}
@@ -0,0 +1,178 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Put,
+  Delete,
+  Body,
+  Param,
+  UseGuards,
+  ParseUUIDPipe,
+} from '@nestjs/common';
+import {
+  ApiTags,
+  ApiOperation,
+  ApiResponse,
+  ApiBearerAuth,
+} from '@nestjs/swagger';
+import { OidcClientsService } from './oidc-clients.service';
+import {
+  CreateOAuthClientDto,
+  UpdateOAuthClientDto,
+} from './dto/oauth-client.dto';
+import { JwtAuthGuard } from '../auth/guards/jwt-auth.guard';
+import { RequirePermissions } from '../auth/decorators/permissions.decorator';
+import { PermissionScope } from '../auth/decorators/permission-scope.decorator';
+import { CurrentUser } from '../auth/decorators/current-user.decorator';
+
+/**
+ * Приложения организации: организация берётся из маршрута, чужие приложения не видны
+ */
+@ApiTags('oidc')
+@UseGuards(JwtAuthGuard)
+@ApiBearerAuth()
+@Controller('organizations/:id/oidc/clients')
+@RequirePermissions('settings.integrations')
+@PermissionScope({ organization: 'params.id' })
+export class OrganizationOidcClientsController {
+  constructor(private readonly clientsService: OidcClientsService) {}
+
+  @Get()
+  @ApiOperation({ summary: 'Приложения организации' })
+  @ApiResponse({ status: 200, description: 'Список приложений' })
+  async findAll(@Param('id', ParseUUIDPipe) organizationId: string) {
+    return this.clientsService.findAll(organizationId);
+  }
+
+  @Get(':clientId')
+  @ApiOperation({ summary: 'Получение приложения' })
+  @ApiResponse({ status: 200, description: 'Приложение' })
+  @ApiResponse({ status: 404, description: 'Приложение не найдено' })
+  async findOne(
+    @Param('id', ParseUUIDPipe) organizationId: string,
+    @Param('clientId', ParseUUIDPipe) id: string,
+  ) {
+    return this.clientsService.findById(organizationId, id);
+  }
+
+  @Post()
+  @ApiOperation({ summary: 'Регистрация приложения организации' })
+  @ApiResponse({
+    status: 201,
+    description: 'Приложение зарегистрировано, секрет показывается один раз',
+  })
+  async create(
+    @Param('id', ParseUUIDPipe) organizationId: string,
+    @Body() dto: CreateOAuthClientDto,
+    @CurrentUser() user: { userId: string },
+  ) {
+    return this.clientsService.create(organizationId, dto, user.userId);
+  }
+
+  @Put(':clientId')
+  @ApiOperation({ summary: 'Обновление приложения' })
+  @ApiResponse({ status: 200, description: 'Приложение обновлено' })
+  async update(
+    @Param('id', ParseUUIDPipe) organizationId: string,
+    @Param('clientId', ParseUUIDPipe) id: string,
+    @Body() dto: UpdateOAuthClientDto,
+  ) {
+    return this.clientsService.update(organizationId, id, dto);
+  }
+
+  @Post(':clientId/rotate-secret')
+  @ApiOperation({ summary: 'Перевыпуск секрета приложения' })
+  @ApiResponse({
+    status: 201,
+    description: 'Новый секрет (показывается один раз)',
+  })
+  async rotateSecret(
+    @Param('id', ParseUUIDPipe) organizationId: string,
+    @Param('clientId', ParseUUIDPipe) id: string,
+  ) {
+    return this.clientsService.rotateSecret(organizationId, id);
+  }
+
+  @Delete(':clientId')
+  @ApiOperation({ summary: 'Удаление приложения' })
+  @ApiResponse({ status: 200, description: 'Приложение удалено' })
+  async remove(
+    @Param('id', ParseUUIDPipe) organizationId: string,
+    @Param('clientId', ParseUUIDPipe) id: string,
+  ) {
+    await this.clientsService.remove(organizationId, id);
+    return { message: 'Приложение удалено' };
+  }
+}
+
+/**
+ * Системные приложения (без организации), только для глобальных ролей
+ */
+@ApiTags('oidc')
+@UseGuards(JwtAuthGuard)
+@ApiBearerAuth()
+@Controller('oidc/clients')
+export class OidcClientsController {
+  constructor(private readonly clientsService: OidcClientsService) {}
+
+  @Get()
+  @RequirePermissions('settings.integrations')
+  @ApiOperation({ summary: 'Список системных приложений' })
+  @ApiResponse({ status: 200, description: 'Список приложений' })
+  async findAll() {
+    return this.clientsService.findAll(null);
+  }
+
+  @Get(':id')
+  @RequirePermissions('settings.integrations')
+  @ApiOperation({ summary: 'Получение приложения' })
+  @ApiResponse({ status: 200, description: 'Приложение' })
+  async findOne(@Param('id', ParseUUIDPipe) id: string) {
+    return this.clientsService.findById(null, id);
+  }
+
+  @Post()
+  @RequirePermissions('settings.integrations')
+  @ApiOperation({ summary: 'Регистрация приложения' })
+  @ApiResponse({
+    status: 201,
+    description: 'Приложение зарегистрировано, секрет показывается один раз',
+  })
+  async create(
+    @Body() dto: CreateOAuthClientDto,
+    @CurrentUser() user: { userId: string },
+  ) {
+    return this.clientsService.create(null, dto, user.userId);
+  }
+
+  @Put(':id')
+  @RequirePermissions('settings.integrations')
+  @ApiOperation({ summary: 'Обновление приложения' })
+  @ApiResponse({ status: 200, description: 'Приложение обновлено' })
+  async update(
+    @Param('id', ParseUUIDPipe) id: string,
+    @Body() dto: UpdateOAuthClientDto,
+  ) {
+    return this.clientsService.update(null, id, dto);
+  }
+
+  @Post(':id/rotate-secret')
+  @RequirePermissions('settings.integrations')
+  @ApiOperation({ summary: 'Перевыпуск секрета приложения' })
+  @ApiResponse({
+    status: 201,
+    description: 'Новый секрет (показывается один раз)',
+  })
+  async rotateSecret(@Param('id', ParseUUIDPipe) id: string) {
+    return this.clientsService.rotateSecret(null, id);
+  }
+
+  @Delete(':id')
+  @RequirePermissions('settings.integrations')
+  @ApiOperation({ summary: 'Удаление приложения' })
+  @ApiResponse({ status: 200, description: 'Приложение удалено' })
+  async remove(@Param('id', ParseUUIDPipe) id: string) {
+    await this.clientsService.remove(null, id);
+    return { message: 'Приложение удалено' };
+  }
+}
@@ -0,0 +1,97 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { getRepositoryToken } from '@nestjs/typeorm';
+import { NotFoundException } from '@nestjs/common';
+import { IsNull } from 'typeorm';
+import { OidcClientsService } from './oidc-clients.service';
+import { OAuthClient } from './entities/oauth-client.entity';
+
+const ORGANIZATION_A = 'org-a';
+const ORGANIZATION_B = 'org-b';
+
+describe('OidcClientsService', () => {
+  let service: OidcClientsService;
+
+  // Приложение принадлежит организации A
+  const client = {
+    id: 'client-1',
+    clientId: 'lgn_client',
+    isConfidential: true,
+    organizationId: ORGANIZATION_A,
+  } as OAuthClient;
+
+  const mockClientsRepository = {
+    findOne: jest.fn(
+      ({ where }: { where: { id: string; organizationId: unknown } }) =>
+        Promise.resolve(
+          where.id === client.id && where.organizationId === ORGANIZATION_A
+            ? { ...client }
+            : null,
+        ),
+    ),
+    find: jest.fn(),
+    create: jest.fn((data: Partial<OAuthClient>) => data),
+    save: jest.fn((data: OAuthClient) => Promise.resolve(data)),
+    update: jest.fn(),
+    delete: jest.fn().mockResolvedValue({ affected: 0 }),
+  };
+
+  beforeEach(async () => {
+    jest.clearAllMocks();
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        OidcClientsService,
+        {
+          provide: getRepositoryToken(OAuthClient),
+          useValue: mockClientsRepository,
+        },
+      ],
+    }).compile();
+
+    service = module.get<OidcClientsService>(OidcClientsService);
+  });
+
+  it('should not return an application of another organization', async () => {
+    await expect(service.findById(ORGANIZATION_B, client.id)).rejects.toThrow(
+      NotFoundException,
+    );
+    await expect(service.findById(null, client.id)).rejects.toThrow(
+      NotFoundException,
+    );
+  });
+
+  it('should not rotate the secret of an application of another organization', async () => {
+    await expect(
+      service.rotateSecret(ORGANIZATION_B, client.id),
+    ).rejects.toThrow(NotFoundException);
+    expect(mockClientsRepository.update).not.toHaveBeenCalled();
+  });
+
+  it('should delete only an application of the organization', async () => {
+    await expect(service.remove(ORGANIZATION_B, client.id)).rejects.toThrow(
+      NotFoundException,
+    );
+    expect(mockClientsRepository.delete).toHaveBeenCalledWith({
+      id: client.id,
+      organizationId: ORGANIZATION_B,
+    });
+  });
+
+  it('should list system applications without organization applications', async () => {
+    await service.findAll(null);
+
+    expect(mockClientsRepository.find).toHaveBeenCalledWith(
+      expect.objectContaining({ where: { organizationId: IsNull() } }),
+    );
+  });
+
+  it('should register the application in the organization from the route', async () => {
+    const { client: created } = await service.create(
+      ORGANIZATION_A,
+      { name: 'App', redirectUris: ['https://app.example/callback'] },
+      'user-1',
+    );
+
+    expect(created.organizationId).toBe(ORGANIZATION_A);
+  });
+});
@@ -0,0 +1,203 @@
+import {
+  Injectable,
+  NotFoundException,
+  BadRequestException,
+} from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { IsNull, Repository } from 'typeorm';
+import * as crypto from 'crypto';
+import { OAuthClient } from './entities/oauth-client.entity';
+import {
+  CreateOAuthClientDto,
+  UpdateOAuthClientDto,
+} from './dto/oauth-client.dto';
+import { OIDC_SUPPORTED_SCOPES } from './interfaces/oidc.interface';
+
+@Injectable()
+export class OidcClientsService {
+  constructor(
+    @InjectRepository(OAuthClient)
+    private clientsRepo: Repository<OAuthClient>,
+  ) {}
+
+  /**
+   * Регистрация нового приложения. Секрет возвращается только один раз.
+   * organizationId null - системное приложение
+   */
+  async create(
+    organizationId: string | null,
+    dto: CreateOAuthClientDto,
+    createdBy: string,
+  ): Promise<{ client: OAuthClient; clientSecret: string | null }> {
+    const allowedScopes = this.normalizeScopes(dto.allowedScopes);
+    const isConfidential = dto.isConfidential ?? true;
+    const clientSecret = isConfidential ? this.generateSecret() : null;
+
+    const client = this.clientsRepo.create({
+      clientId: `lgn_${crypto.randomBytes(12).toString('hex')}`,
+      clientSecretHash: clientSecret ? this.hashSecret(clientSecret) : null,
+      name: dto.name,
+      description: dto.description ?? null,
+      logoUrl: dto.logoUrl ?? null,
+      redirectUris: dto.redirectUris,
+      allowedScopes,
+      isConfidential,
+      skipConsent: dto.skipConsent ?? false,
+      organizationId,
+      createdBy,
+    });
+
+    const saved = await this.clientsRepo.save(client);
+    delete (saved as Partial<OAuthClient>).clientSecretHash;
+
+    return { client: saved, clientSecret };
+  }
+
+  /**
+   * Приложения организации или системные
+   */
+  async findAll(organizationId: string | null): Promise<OAuthClient[]> {
+    return this.clientsRepo.find({
+      where: { organizationId: organizationId ?? IsNull() },
+      order: { createdAt: 'DESC' },
+    });
+  }
+
+  /**
+   * Приложение только своей организации: чужое выглядит несуществующим
+   */
+  async findById(
+    organizationId: string | null,
+    id: string,
+  ): Promise<OAuthClient> {
+    const client = await this.clientsRepo.findOne({
+      where: { id, organizationId: organizationId ?? IsNull() },
+    });
+    if (!client) {
+      throw new NotFoundException('Приложение не найдено');
+    }
+    return client;
+  }
+
+  /**
+   * Поиск активного приложения по публичному client_id
+   */
+  async findActiveByClientId(clientId: string): Promise<OAuthClient | null> {
+    return this.clientsRepo.findOne({
+      where: { clientId, isActive: true },
+    });
+  }
+
+  async update(
+    organizationId: string | null,
+    id: string,
+    dto: UpdateOAuthClientDto,
+  ): Promise<OAuthClient> {
+    const client = await this.findById(organizationId, id);
+
+    if (dto.allowedScopes) {
+      dto.allowedScopes = this.normalizeScopes(dto.allowedScopes);
+    }
+
+    Object.assign(client, dto);
+    return this.clientsRepo.save(client);
+  }
+
+  /**
+   * Выпуск нового секрета (старый сразу перестаёт работать)
+   */
+  async rotateSecret(
+    organizationId: string | null,
+    id: string,
+  ): Promise<{ clientId: string; clientSecret: string }> {
+    const client = await this.findById(organizationId, id);
+    if (!client.isConfidential) {
+      throw new BadRequestException('У публичного приложения нет секрета');
+    }
+
+    const clientSecret = this.generateSecret();
+    await this.clientsRepo.update(client.id, {
+      clientSecretHash: this.hashSecret(clientSecret),
+    });
+
+    return { clientId: client.clientId, clientSecret };
+  }
+
+  async remove(organizationId: string | null, id: string): Promise<void> {
+    const result = await this.clientsRepo.delete({
+      id,
+      organizationId: organizationId ?? IsNull(),
+    });
+    if (result.affected === 0) {
+      throw new NotFoundException('Приложение не найдено');
+    }
+  }
+
+  /**
+   * Аутентификация приложения на token endpoint.
+   * Возвращает null, если client_id или секрет неверны
+   */
+  async authenticate(
+    clientId: string,
+    clientSecret?: string,
+  ): Promise<OAuthClient | null> {
+    const client = await this.clientsRepo.findOne({
+      where: { clientId, isActive: true },
+      select: [
+        'id',
+        'clientId',
+        'clientSecretHash',
+        'name',
+        'redirectUris',
+        'allowedScopes',
+        'isConfidential',
+        'skipConsent',
+        'isActive',
+        'organizationId',
+      ],
+    });
+
+    if (!client) {
+      return null;
+    }
+
+    if (!client.isConfidential) {
+      // Публичный клиент не должен предъявлять секрет, защита обеспечивается PKCE
+      return clientSecret ? null : client;
+    }
+
+    if (!clientSecret || !client.clientSecretHash) {
+      return null;
+    }
+
+    const expected = Buffer.from(client.clientSecretHash, 'hex');
+    const actual = Buffer.from(this.hashSecret(clientSecret), 'hex');
+    if (!crypto.timingSafeEqual(expected, actual)) {
+      return null;
+    }
+
+    return client;
+  }
+
+  private normalizeScopes(scopes?: string[]): string[] {
+    const requested =
+      scopes && scopes.length > 0 ? scopes : ['openid', 'profile', 'email'];
+    const unsupported = requested.filter(
+      (scope) => !OIDC_SUPPORTED_SCOPES.includes(scope),
+    );
+    if (unsupported.length > 0) {
+      throw new BadRequestException(
+        `Неподдерживаемые скоупы: ${unsupported.join(', ')}`,
+      );
+    }
+    return [...new Set(['openid', ...requested])];
+  }
+
+  private generateSecret(): string {
+    return crypto.randomBytes(32).toString('base64url');
+  }
+
+  private hashSecret(secret: string): string {
+    return crypto.createHash('sha256').update(secret).digest('hex');
+  }
+}
@@ -0,0 +1,129 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Delete,
+  Body,
+  Param,
+  Query,
+  Headers,
+  Res,
+  HttpCode,
+  ParseUUIDPipe,
+} from '@nestjs/common';
+import {
+  ApiTags,
+  ApiOperation,
+  ApiResponse,
+  ApiBearerAuth,
+} from '@nestjs/swagger';
+import type { Response } from 'express';
+import { OidcService } from './oidc.service';
+import { AuthorizationDecisionDto } from './dto/authorization-decision.dto';
+import { Public } from '../auth/decorators/public.decorator';
+import { CurrentUser } from '../auth/decorators/current-user.decorator';
+
+@ApiTags('oidc')
+@Controller('oidc')
+export class OidcController {
+  constructor(private readonly oidcService: OidcService) {}
+
+  @Get('authorize')
+  @Public()
+  @ApiOperation({
+    summary: 'Authorization endpoint (authorization code + PKCE)',
+  })
+  @ApiResponse({
+    status: 302,
+    description: 'Перенаправление на экран согласия или обратно в приложение',
+  })
+  async authorize(
+    @Query() query: Record<string, string>,
+    @Res() res: Response,
+  ) {
+    const redirectUrl = await this.oidcService.startAuthorization(query);
+    return res.redirect(redirectUrl);
+  }
+
+  @Get('authorize/requests/:id')
+  @ApiBearerAuth()
+  @ApiOperation({
+    summary: 'Получение запроса авторизации для экрана согласия',
+  })
+  @ApiResponse({ status: 200, description: 'Запрос авторизации' })
+  async getAuthorizationRequest(
+    @Param('id', ParseUUIDPipe) id: string,
+    @CurrentUser() user: any,
+  ) {
+    return this.oidcService.getAuthorizationRequest(id, user.userId);
+  }
+
+  @Post('authorize/requests/:id/decision')
+  @HttpCode(200)
+  @ApiBearerAuth()
+  @ApiOperation({ summary: 'Разрешение или отказ в доступе приложению' })
+  @ApiResponse({
+    status: 200,
+    description: 'URL для перенаправления в приложение',
+  })
+  async decide(
+    @Param('id', ParseUUIDPipe) id: string,
+    @Body() dto: AuthorizationDecisionDto,
+    @CurrentUser() user: any,
+  ) {
+    return this.oidcService.decide(id, user.userId, dto.approve);
+  }
+
+  @Post('token')
+  @Public()
+  @HttpCode(200)
+  @ApiOperation({ summary: 'Token endpoint' })
+  @ApiResponse({ status: 200, description: 'Токены выданы' })
+  async token(
+    // Сырое тело: параметры OAuth не должны отсекаться ValidationPipe
+    @Body() body: Record<string, string>,
+    @Headers('authorization') authorization: string,
+    @Res({ passthrough: true }) res: Response,
+  ) {
+    res.setHeader('Cache-Control', 'no-store');
+    res.setHeader('Pragma', 'no-cache');
+    return this.oidcService.exchangeToken(body, authorization);
+  }
+
+  @Get('userinfo')
+  @Public()
+  @ApiOperation({ summary: 'Userinfo endpoint' })
+  @ApiResponse({ status: 200, description: 'Claims пользователя' })
+  async userInfo(@Headers('authorization') authorization: string) {
+    return this.oidcService.getUserInfo(authorization);
+  }
+
+  @Post('userinfo')
+  @Public()
+  @HttpCode(200)
+  @ApiOperation({ summary: 'Userinfo endpoint (POST)' })
+  @ApiResponse({ status: 200, description: 'Claims пользователя' })
+  async userInfoPost(@Headers('authorization') authorization: string) {
+    return this.oidcService.getUserInfo(authorization);
+  }
+
+  @Get('consents')
+  @ApiBearerAuth()
+  @ApiOperation({ summary: 'Приложения, которым пользователь разрешил доступ' })
+  @ApiResponse({ status: 200, description: 'Список согласий' })
+  async getConsents(@CurrentUser() user: any) {
+    return this.oidcService.getUserConsents(user.userId);
+  }
+
+  @Delete('consents/:id')
+  @ApiBearerAuth()
+  @ApiOperation({ summary: 'Отзыв доступа у приложения' })
+  @ApiResponse({ status: 200, description: 'Доступ отозван' })
+  async revokeConsent(
+    @Param('id', ParseUUIDPipe) id: string,
+    @CurrentUser() user: any,
+  ) {
+    await this.oidcService.revokeConsent(user.userId, id);
+    return { message: 'Доступ приложения отозван' };
+  }
+}
@@ -0,0 +1,40 @@
+import { Module } from '@nestjs/common';
+import { TypeOrmModule } from '@nestjs/typeorm';
+import { OAuthClient } from './entities/oauth-client.entity';
+import { OAuthAuthorizationRequest } from './entities/oauth-authorization-request.entity';
+import { OAuthConsent } from './entities/oauth-consent.entity';
+import { OrganizationMembership } from '../organizations/entities/organization-membership.entity';
+import { TeamMembership } from '../teams/entities/team-membership.entity';
+import { OidcService } from './oidc.service';
+import { OidcClientsService } from './oidc-clients.service';
+import { OidcController } from './oidc.controller';
+import {
+  OidcClientsController,
+  OrganizationOidcClientsController,
+} from './oidc-clients.controller';
+import { WellKnownController } from './well-known.controller';
+import { AuthModule } from '../auth/auth.module';
+import { UsersModule } from '../users/users.module';
+
+@Module({
+  imports: [
+    TypeOrmModule.forFeature([
+      OAuthClient,
+      OAuthAuthorizationRequest,
+      OAuthConsent,
+      OrganizationMembership,
+      TeamMembership,
+    ]),
+    AuthModule,
+    UsersModule,
+  ],
+  controllers: [
+    OidcController,
+    OidcClientsController,
+    OrganizationOidcClientsController,
+    WellKnownController,
+  ],
+  providers: [OidcService, OidcClientsService],
+  exports: [OidcService],
+})
+export class OidcModule {}
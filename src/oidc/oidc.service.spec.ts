@@ -0,0 +1,301 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { getRepositoryToken } from '@nestjs/typeorm';
+import { ConfigService } from '@nestjs/config';
+import { JwtService } from '@nestjs/jwt';
+import { BadRequestException, UnauthorizedException } from '@nestjs/common';
+import { DataSource } from 'typeorm';
+import * as crypto from 'crypto';
+import { OidcService } from './oidc.service';
+import { OidcClientsService } from './oidc-clients.service';
+import { OAuthClient } from './entities/oauth-client.entity';
+import { OAuthAuthorizationRequest } from './entities/oauth-authorization-request.entity';
+import { OAuthConsent } from './entities/oauth-consent.entity';
+import { OrganizationMembership } from '../organizations/entities/organization-membership.entity';
+import { TeamMembership } from '../teams/entities/team-membership.entity';
+import { UsersService } from '../users/users.service';
+import { AuthService } from '../auth/auth.service';
+import { SigningKeysService } from '../auth/services/signing-keys.service';
+import {
+  SigningKey,
+  SigningKeyStatus,
+} from '../auth/entities/signing-key.entity';
+
+const REDIRECT_URI = 'https://app.example/callback';
+const CODE_VERIFIER = 'verifier-'.padEnd(64, 'x');
+
+describe('OidcService', () => {
+  let service: OidcService;
+  let signingKeysService: SigningKeysService;
+
+  // Публичное приложение (SPA): секрета нет, вход только с PKCE
+  const client = {
+    id: 'client-1',
+    clientId: 'lgn_spa',
+    name: 'SPA',
+    isConfidential: false,
+    redirectUris: [REDIRECT_URI],
+    allowedScopes: ['openid', 'profile', 'email'],
+    skipConsent: false,
+  } as OAuthClient;
+
+  const user = {
+    id: 'user-1',
+    email: 'user@example.com',
+    emailVerified: true,
+    firstName: 'John',
+    lastName: null,
+    isActive: true,
+    updatedAt: new Date('2026-01-01T00:00:00Z'),
+  };
+
+  // Запросы авторизации в памяти
+  const requests = new Map<string, OAuthAuthorizationRequest>();
+
+  const mockAuthorizationRequestsRepository = {
+    create: jest.fn((data: Partial<OAuthAuthorizationRequest>) => data),
+    save: jest.fn((data: OAuthAuthorizationRequest) => {
+      const request = { ...data, id: `request-${requests.size + 1}`, client };
+      requests.set(request.id, request);
+      return Promise.resolve(request);
+    }),
+    findOne: jest.fn(
+      ({ where }: { where: Partial<OAuthAuthorizationRequest> }) =>
+        Promise.resolve(
+          [...requests.values()].find((request) =>
+            where.id
+              ? request.id === where.id
+              : request.codeHash === where.codeHash,
+          ) ?? null,
+        ),
+    ),
+    update: jest.fn(
+      (
+        criteria: string | Partial<OAuthAuthorizationRequest>,
+        patch: Partial<OAuthAuthorizationRequest>,
+      ) => {
+        const { id, status } =
+          typeof criteria === 'string'
+            ? { id: criteria, status: undefined }
+            : criteria;
+        const request = requests.get(id!);
+        if (!request || (status && request.status !== status)) {
+          return Promise.resolve({ affected: 0 });
+        }
+        Object.assign(request, patch);
+        return Promise.resolve({ affected: 1 });
+      },
+    ),
+  };
+
+  const mockClientsService = {
+    findActiveByClientId: jest.fn((clientId: string) =>
+      Promise.resolve(clientId === client.clientId ? client : null),
+    ),
+    authenticate: jest.fn((clientId: string) =>
+      Promise.resolve(clientId === client.clientId ? client : null),
+    ),
+  };
+
+  const { publicKey, privateKey } = crypto.generateKeyPairSync('ec', {
+    namedCurve: 'P-256',
+  });
+  const signingKey = {
+    kid: 'key-1',
+    algorithm: 'ES256',
+    publicKey: publicKey.export({ type: 'spki', format: 'pem' }).toString(),
+    privateKey: privateKey.export({ type: 'pkcs8', format: 'pem' }).toString(),
+    status: SigningKeyStatus.ACTIVE,
+    createdAt: new Date(),
+  } as SigningKey;
+
+  const config: Record<string, unknown> = {
+    'oidc.issuer': 'https://id.example',
+    'oidc.consentUrl': 'https://id.example/consent',
+    'oidc.authorizationRequestTtl': 600,
+    'oidc.authorizationCodeTtl': 60,
+    'oidc.accessTokenTtl': 3600,
+    'oidc.idTokenTtl': 3600,
+    'jwt.algorithm': 'ES256',
+    'jwt.keyRotationDays': 90,
+  };
+
+  const authorize = (params: Record<string, string> = {}) =>
+    service.startAuthorization({
+      client_id: client.clientId,
+      redirect_uri: REDIRECT_URI,
+      response_type: 'code',
+      scope: 'openid email',
+      code_challenge: crypto
+        .createHash('sha256')
+        .update(CODE_VERIFIER)
+        .digest('base64url'),
+      code_challenge_method: 'S256',
+      ...params,
+    });
+
+  // Запрос авторизации, одобренный пользователем: возвращает выданный код
+  const approve = async () => {
+    const consentUrl = new URL(await authorize());
+    const { redirectUrl } = await service.decide(
+      consentUrl.searchParams.get('request_id')!,
+      user.id,
+      true,
+    );
+    return new URL(redirectUrl).searchParams.get('code')!;
+  };
+
+  const exchange = (code: string, codeVerifier = CODE_VERIFIER) =>
+    service.exchangeToken({
+      grant_type: 'authorization_code',
+      client_id: client.clientId,
+      redirect_uri: REDIRECT_URI,
+      code,
+      code_verifier: codeVerifier,
+    });
+
+  beforeEach(async () => {
+    jest.clearAllMocks();
+    requests.clear();
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        OidcService,
+        SigningKeysService,
+        {
+          provide: getRepositoryToken(OAuthAuthorizationRequest),
+          useValue: mockAuthorizationRequestsRepository,
+        },
+        {
+          provide: getRepositoryToken(OAuthConsent),
+          useValue: {
+            findOne: jest.fn().mockResolvedValue(null),
+            create: jest.fn((data: Partial<OAuthConsent>) => data),
+            save: jest.fn(),
+          },
+        },
+        {
+          provide: getRepositoryToken(OrganizationMembership),
+          useValue: {},
+        },
+        {
+          provide: getRepositoryToken(TeamMembership),
+          useValue: {},
+        },
+        {
+          provide: getRepositoryToken(SigningKey),
+          useValue: {
+            createQueryBuilder: () => ({
+              addSelect: () => ({
+                getMany: () => Promise.resolve([signingKey]),
+              }),
+            }),
+          },
+        },
+        {
+          provide: DataSource,
+          useValue: {
+            transaction: (run: (manager: object) => Promise<unknown>) =>
+              run({ findOne: () => Promise.resolve(signingKey) }),
+          },
+        },
+        {
+          provide: JwtService,
+          useValue: new JwtService(),
+        },
+        {
+          provide: ConfigService,
+          useValue: { get: jest.fn((name: string) => config[name]) },
+        },
+        {
+          provide: UsersService,
+          useValue: { findById: jest.fn().mockResolvedValue(user) },
+        },
+        {
+          provide: AuthService,
+          useValue: {},
+        },
+        {
+          provide: OidcClientsService,
+          useValue: mockClientsService,
+        },
+      ],
+    }).compile();
+
+    service = module.get<OidcService>(OidcService);
+    signingKeysService = module.get<SigningKeysService>(SigningKeysService);
+    await signingKeysService.onModuleInit();
+  });
+
+  describe('exchangeToken', () => {
+    it('should exchange the code for tokens accepted by userinfo', async () => {
+      const tokens = await exchange(await approve());
+
+      await expect(
+        service.getUserInfo(`Bearer ${tokens.access_token}`),
+      ).resolves.toEqual({
+        sub: user.id,
+        email: user.email,
+        email_verified: true,
+      });
+    });
+
+    it('should accept the code only once', async () => {
+      const code = await approve();
+      await exchange(code);
+
+      await expect(exchange(code)).rejects.toThrow(BadRequestException);
+    });
+
+    it('should reject an expired code', async () => {
+      const code = await approve();
+      requests.forEach((request) => {
+        request.expiresAt = new Date(Date.now() - 1000);
+      });
+
+      await expect(exchange(code)).rejects.toThrow(BadRequestException);
+    });
+
+    it('should reject a code_verifier that does not match the S256 challenge', async () => {
+      const code = await approve();
+
+      await expect(exchange(code, 'other-'.padEnd(64, 'y'))).rejects.toThrow(
+        BadRequestException,
+      );
+      // Код не израсходован неудачной попыткой
+      await expect(exchange(code)).resolves.toHaveProperty('access_token');
+    });
+  });
+
+  describe('startAuthorization', () => {
+    it.each([
+      ['without PKCE', { code_challenge: '', code_challenge_method: '' }],
+      [
+        'with the plain method',
+        { code_challenge: CODE_VERIFIER, code_challenge_method: 'plain' },
+      ],
+    ])('should reject a public client %s', async (_case, params) => {
+      const redirect = new URL(await authorize(params));
+
+      expect(redirect.origin + redirect.pathname).toBe(REDIRECT_URI);
+      expect(redirect.searchParams.get('error')).toBe('invalid_request');
+      expect(requests.size).toBe(0);
+    });
+  });
+
+  describe('getUserInfo', () => {
+    it('should reject a token without the at+jwt type', async () => {
+      const token = signingKeysService.sign(
+        {
+          iss: config['oidc.issuer'],
+          sub: user.id,
+          scope: 'openid email',
+        },
+        { expiresIn: 3600 },
+      );
+
+      await expect(service.getUserInfo(`Bearer ${token}`)).rejects.toThrow(
+        UnauthorizedException,
+      );
+    });
+  });
+});
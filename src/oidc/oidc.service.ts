@@ -0,0 +1,639 @@
+import {
+  Injectable,
+  Logger,
+  BadRequestException,
+  NotFoundException,
+  UnauthorizedException,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { InjectRepository } from '@nestjs/typeorm';
+import { Repository } from 'typeorm';
+import * as crypto from 'crypto';
+import { OAuthClient } from './entities/oauth-client.entity';
+import {
+  OAuthAuthorizationRequest,
+  AuthorizationRequestStatus,
+} from './entities/oauth-authorization-request.entity';
+import { OAuthConsent } from './entities/oauth-consent.entity';
+import { OrganizationMembership } from '../organizations/entities/organization-membership.entity';
+import { TeamMembership } from '../teams/entities/team-membership.entity';
+import { UsersService } from '../users/users.service';
+import { AuthService } from '../auth/auth.service';
+import { OidcClientsService } from './oidc-clients.service';
+import { SigningKeysService } from '../auth/services/signing-keys.service';
+import {
+  OIDC_SUPPORTED_SCOPES,
+  OIDC_SUPPORTED_CLAIMS,
+  OidcAccessTokenPayload,
+  OidcTokenResponse,
+  AuthorizationRequestView,
+} from './interfaces/oidc.interface';
+
+@Injectable()
+export class OidcService {
+  private readonly logger = new Logger(OidcService.name);
+
+  constructor(
+    @InjectRepository(OAuthAuthorizationRequest)
+    private authorizationRequestsRepo: Repository<OAuthAuthorizationRequest>,
+    @InjectRepository(OAuthConsent)
+    private consentsRepo: Repository<OAuthConsent>,
+    @InjectRepository(OrganizationMembership)
+    private orgMembershipRepo: Repository<OrganizationMembership>,
+    @InjectRepository(TeamMembership)
+    private teamMembershipRepo: Repository<TeamMembership>,
+    private configService: ConfigService,
+    private usersService: UsersService,
+    private authService: AuthService,
+    private clientsService: OidcClientsService,
+    private signingKeysService: SigningKeysService,
+  ) {}
+
+  get issuer(): string {
+    return this.configService.get<string>('oidc.issuer')!;
+  }
+
+  /**
+   * Документ /.well-known/openid-configuration
+   */
+  getDiscoveryDocument(): Record<string, any> {
+    return {
+      issuer: this.issuer,
+      authorization_endpoint: `${this.issuer}/oidc/authorize`,
+      token_endpoint: `${this.issuer}/oidc/token`,
+      userinfo_endpoint: `${this.issuer}/oidc/userinfo`,
+      jwks_uri: `${this.issuer}/.well-known/jwks.json`,
+      response_types_supported: ['code'],
+      response_modes_supported: ['query'],
+      grant_types_supported: ['authorization_code'],
+      subject_types_supported: ['public'],
+      id_token_signing_alg_values_supported: [
+        this.signingKeysService.algorithm,
+      ],
+      token_endpoint_auth_methods_supported: [
+        'client_secret_basic',
+        'client_secret_post',
+        'none',
+      ],
+      code_challenge_methods_supported: ['S256', 'plain'],
+      scopes_supported: OIDC_SUPPORTED_SCOPES,
+      claims_supported: OIDC_SUPPORTED_CLAIMS,
+    };
+  }
+
+  /**
+   * Начало authorization code flow.
+   * Возвращает URL, на который нужно перенаправить браузер: экран согласия или redirect_uri с ошибкой
+   */
+  async startAuthorization(params: Record<string, string>): Promise<string> {
+    const client = params.client_id
+      ? await this.clientsService.findActiveByClientId(params.client_id)
+      : null;
+
+    // Пока клиент и redirect_uri не проверены, перенаправлять некуда
+    if (!client) {
+      throw new BadRequestException({
+        error: 'invalid_client',
+        error_description: 'Неизвестный client_id',
+      });
+    }
+    if (
+      !params.redirect_uri ||
+      !client.redirectUris.includes(params.redirect_uri)
+    ) {
+      throw new BadRequestException({
+        error: 'invalid_request',
+        error_description: 'redirect_uri не зарегистрирован',
+      });
+    }
+
+    const redirectError = (error: string, description: string) =>
+      this.buildRedirect(params.redirect_uri, {
+        error,
+        error_description: description,
+        state: params.state,
+      });
+
+    if (params.response_type !== 'code') {
+      return redirectError(
+        'unsupported_response_type',
+        'Поддерживается только response_type=code',
+      );
+    }
+
+    const scopes = (params.scope || '').split(' ').filter(Boolean);
+    if (!scopes.includes('openid')) {
+      return redirectError('invalid_scope', 'Скоуп openid обязателен');
+    }
+    const forbiddenScopes = scopes.filter(
+      (scope) => !client.allowedScopes.includes(scope),
+    );
+    if (forbiddenScopes.length > 0) {
+      return redirectError(
+        'invalid_scope',
+        `Скоупы не разрешены приложению: ${forbiddenScopes.join(', ')}`,
+      );
+    }
+
+    const codeChallengeMethod = params.code_challenge
+      ? params.code_challenge_method || 'plain'
+      : null;
+    if (
+      codeChallengeMethod &&
+      !['S256', 'plain'].includes(codeChallengeMethod)
+    ) {
+      return redirectError(
+        'invalid_request',
+        'Неподдерживаемый code_challenge_method',
+      );
+    }
+    if (!client.isConfidential && codeChallengeMethod !== 'S256') {
+      return redirectError(
+        'invalid_request',
+        'Публичным приложениям требуется PKCE (S256)',
+      );
+    }
+
+    const ttl = this.configService.get<number>('oidc.authorizationRequestTtl')!;
+    const request = await this.authorizationRequestsRepo.save(
+      this.authorizationRequestsRepo.create({
+        clientId: client.id,
+        redirectUri: params.redirect_uri,
+        scopes: [...new Set(scopes)],
+        state: params.state || null,
+        nonce: params.nonce || null,
+        codeChallenge: params.code_challenge || null,
+        codeChallengeMethod: codeChallengeMethod as 'S256' | 'plain' | null,
+        status: AuthorizationRequestStatus.PENDING,
+        expiresAt: new Date(Date.now() + ttl * 1000),
+      }),
+    );
+
+    const consentUrl = this.configService.get<string>('oidc.consentUrl')!;
+    return this.buildRedirect(consentUrl, {
+      request_id: request.id,
+      prompt: params.prompt,
+    });
+  }
+
+  /**
+   * Данные для экрана согласия
+   */
+  async getAuthorizationRequest(
+    requestId: string,
+    userId: string,
+  ): Promise<AuthorizationRequestView> {
+    const request = await this.findPendingRequest(requestId);
+    const consent = await this.consentsRepo.findOne({
+      where: { userId, clientId: request.clientId },
+    });
+
+    const consentRequired =
+      !request.client.skipConsent &&
+      !request.scopes.every((scope) => consent?.scopes.includes(scope));
+
+    return {
+      id: request.id,
+      client: {
+        clientId: request.client.clientId,
+        name: request.client.name,
+        description: request.client.description,
+        logoUrl: request.client.logoUrl,
+      },
+      scopes: request.scopes,
+      consentRequired,
+      expiresAt: request.expiresAt,
+    };
+  }
+
+  /**
+   * Решение пользователя на экране согласия. Возвращает URL перенаправления в приложение
+   */
+  async decide(
+    requestId: string,
+    userId: string,
+    approve: boolean,
+  ): Promise<{ redirectUrl: string }> {
+    const request = await this.findPendingRequest(requestId);
+
+    if (!approve) {
+      await this.authorizationRequestsRepo.update(request.id, {
+        status: AuthorizationRequestStatus.DENIED,
+        userId,
+      });
+      return {
+        redirectUrl: this.buildRedirect(request.redirectUri, {
+          error: 'access_denied',
+          error_description: 'Пользователь отклонил запрос',
+          state: request.state,
+        }),
+      };
+    }
+
+    const user = await this.usersService.findById(userId, { relations: [] });
+    if (!user || !user.isActive) {
+      throw new UnauthorizedException('Аккаунт деактивирован');
+    }
+
+    await this.saveConsent(userId, request.clientId, request.scopes);
+
+    const code = crypto.randomBytes(32).toString('base64url');
+    const codeTtl = this.configService.get<number>(
+      'oidc.authorizationCodeTtl',
+    )!;
+
+    await this.authorizationRequestsRepo.update(request.id, {
+      status: AuthorizationRequestStatus.APPROVED,
+      userId,
+      codeHash: this.hash(code),
+      authTime: new Date(),
+      expiresAt: new Date(Date.now() + codeTtl * 1000),
+    });
+
+    this.logger.log(
+      `✅ Пользователь ${userId} разрешил доступ приложению ${request.client.clientId}`,
+    );
+
+    return {
+      redirectUrl: this.buildRedirect(request.redirectUri, {
+        code,
+        state: request.state,
+      }),
+    };
+  }
+
+  /**
+   * Token endpoint: обмен кода авторизации на access_token и id_token
+   */
+  async exchangeToken(
+    body: Record<string, string>,
+    authorizationHeader?: string,
+  ): Promise<OidcTokenResponse> {
+    if (body.grant_type !== 'authorization_code') {
+      throw new BadRequestException({
+        error: 'unsupported_grant_type',
+        error_description: 'Поддерживается только authorization_code',
+      });
+    }
+
+    const client = await this.authenticateClient(body, authorizationHeader);
+
+    if (!body.code) {
+      throw new BadRequestException({
+        error: 'invalid_request',
+        error_description: 'Не передан code',
+      });
+    }
+
+    const request = await this.authorizationRequestsRepo.findOne({
+      where: { codeHash: this.hash(body.code) },
+    });
+
+    if (!request || request.clientId !== client.id) {
+      throw new BadRequestException({
+        error: 'invalid_grant',
+        error_description: 'Неверный код авторизации',
+      });
+    }
+
+    if (request.status === AuthorizationRequestStatus.EXCHANGED) {
+      this.logger.warn(
+        `⚠️ Повторное использование кода авторизации приложением ${client.clientId}`,
+      );
+      throw new BadRequestException({
+        error: 'invalid_grant',
+        error_description: 'Код авторизации уже использован',
+      });
+    }
+
+    if (
+      request.status !== AuthorizationRequestStatus.APPROVED ||
+      request.expiresAt < new Date()
+    ) {
+      throw new BadRequestException({
+        error: 'invalid_grant',
+        error_description: 'Код авторизации истёк',
+      });
+    }
+
+    if (body.redirect_uri !== request.redirectUri) {
+      throw new BadRequestException({
+        error: 'invalid_grant',
+        error_description: 'redirect_uri не совпадает',
+      });
+    }
+
+    if (
+      request.codeChallenge &&
+      !this.verifyPkce(request, body.code_verifier)
+    ) {
+      throw new BadRequestException({
+        error: 'invalid_grant',
+        error_description: 'Неверный code_verifier',
+      });
+    }
+
+    // Переводим код в использованный атомарно, чтобы параллельный обмен не прошёл дважды
+    const result = await this.authorizationRequestsRepo.update(
+      { id: request.id, status: AuthorizationRequestStatus.APPROVED },
+      { status: AuthorizationRequestStatus.EXCHANGED },
+    );
+    if (!result.affected) {
+      throw new BadRequestException({
+        error: 'invalid_grant',
+        error_description: 'Код авторизации уже использован',
+      });
+    }
+
+    return this.issueTokens(client, request);
+  }
+
+  /**
+   * Userinfo endpoint
+   */
+  async getUserInfo(
+    authorizationHeader?: string,
+  ): Promise<Record<string, any>> {
+    const token = authorizationHeader?.startsWith('Bearer ')
+      ? authorizationHeader.slice(7)
+      : null;
+    if (!token) {
+      throw new UnauthorizedException('Требуется access token');
+    }
+
+    const payload = await this.verifyAccessToken(token);
+    return this.buildUserClaims(payload.sub, payload.scope.split(' '));
+  }
+
+  /**
+   * Проверка access token, выданного стороннему приложению
+   */
+  async verifyAccessToken(token: string): Promise<OidcAccessTokenPayload> {
+    try {
+      return await this.signingKeysService.verify<OidcAccessTokenPayload>(
+        token,
+        { issuer: this.issuer, typ: 'at+jwt' },
+      );
+    } catch {
+      throw new UnauthorizedException('Невалидный access token');
+    }
+  }
+
+  /**
+   * Список приложений, которым пользователь дал доступ
+   */
+  async getUserConsents(userId: string): Promise<OAuthConsent[]> {
+    return this.consentsRepo.find({
+      where: { userId },
+      relations: ['client'],
+      order: { updatedAt: 'DESC' },
+    });
+  }
+
+  /**
+   * Отзыв согласия: приложению придётся запросить доступ заново
+   */
+  async revokeConsent(userId: string, consentId: string): Promise<void> {
+    const result = await this.consentsRepo.delete({ id: consentId, userId });
+    if (result.affected === 0) {
+      throw new NotFoundException('Согласие не найдено');
+    }
+  }
+
+  // Приватные методы
+
+  private async findPendingRequest(
+    requestId: string,
+  ): Promise<OAuthAuthorizationRequest> {
+    const request = await this.authorizationRequestsRepo.findOne({
+      where: { id: requestId },
+      relations: ['client'],
+    });
+
+    if (!request || request.status !== AuthorizationRequestStatus.PENDING) {
+      throw new NotFoundException(
+        'Запрос авторизации не найден или уже обработан',
+      );
+    }
+
+    if (request.expiresAt < new Date()) {
+      await this.authorizationRequestsRepo.update(request.id, {
+        status: AuthorizationRequestStatus.EXPIRED,
+      });
+      throw new BadRequestException('Запрос авторизации истёк');
+    }
+
+    return request;
+  }
+
+  private async saveConsent(
+    userId: string,
+    clientId: string,
+    scopes: string[],
+  ): Promise<void> {
+    const existing = await this.consentsRepo.findOne({
+      where: { userId, clientId },
+    });
+    if (existing) {
+      existing.scopes = [...new Set([...existing.scopes, ...scopes])];
+      await this.consentsRepo.save(existing);
+      return;
+    }
+    await this.consentsRepo.save(
+      this.consentsRepo.create({ userId, clientId, scopes }),
+    );
+  }
+
+  private async authenticateClient(
+    body: Record<string, string>,
+    authorizationHeader?: string,
+  ): Promise<OAuthClient> {
+    let clientId = body.client_id;
+    let clientSecret = body.client_secret;
+
+    // client_secret_basic
+    if (authorizationHeader?.startsWith('Basic ')) {
+      const decoded = Buffer.from(
+        authorizationHeader.slice(6),
+        'base64',
+      ).toString('utf8');
+      const separator = decoded.indexOf(':');
+      clientId = decodeURIComponent(decoded.slice(0, separator));
+      clientSecret = decodeURIComponent(decoded.slice(separator + 1));
+    }
+
+    const client = clientId
+      ? await this.clientsService.authenticate(clientId, clientSecret)
+      : null;
+    if (!client) {
+      throw new UnauthorizedException({
+        error: 'invalid_client',
+        error_description: 'Ошибка аутентификации приложения',
+      });
+    }
+
+    return client;
+  }
+
+  private verifyPkce(
+    request: OAuthAuthorizationRequest,
+    codeVerifier?: string,
+  ): boolean {
+    if (!codeVerifier || !request.codeChallenge) {
+      return false;
+    }
+
+    const expected =
+      request.codeChallengeMethod === 'S256'
+        ? crypto.createHash('sha256').update(codeVerifier).digest('base64url')
+        : codeVerifier;
+
+    const a = Buffer.from(expected);
+    const b = Buffer.from(request.codeChallenge);
+    return a.length === b.length && crypto.timingSafeEqual(a, b);
+  }
+
+  private async issueTokens(
+    client: OAuthClient,
+    request: OAuthAuthorizationRequest,
+  ): Promise<OidcTokenResponse> {
+    const userId = request.userId!;
+    const accessTokenTtl = this.configService.get<number>(
+      'oidc.accessTokenTtl',
+    )!;
+    const idTokenTtl = this.configService.get<number>('oidc.idTokenTtl')!;
+    const scope = request.scopes.join(' ');
+
+    const accessTokenPayload: OidcAccessTokenPayload = {
+      iss: this.issuer,
+      sub: userId,
+      aud: client.clientId,
+      client_id: client.clientId,
+      scope,
+      jti: crypto.randomUUID(),
+    };
+
+    const accessToken = this.signingKeysService.sign(accessTokenPayload, {
+      expiresIn: accessTokenTtl,
+      typ: 'at+jwt',
+    });
+
+    const claims = await this.buildUserClaims(userId, request.scopes);
+    const idToken = this.signingKeysService.sign(
+      {
+        ...claims,
+        iss: this.issuer,
+        aud: client.clientId,
+        azp: client.clientId,
+        auth_time: Math.floor(
+          (request.authTime || new Date()).getTime() / 1000,
+        ),
+        at_hash: this.atHash(accessToken),
+        ...(request.nonce ? { nonce: request.nonce } : {}),
+      },
+      { expiresIn: idTokenTtl },
+    );
+
+    return {
+      access_token: accessToken,
+      token_type: 'Bearer',
+      expires_in: accessTokenTtl,
+      id_token: idToken,
+      scope,
+    };
+  }
+
+  /**
+   * Claims пользователя в соответствии с выданными скоупами
+   */
+  private async buildUserClaims(
+    userId: string,
+    scopes: string[],
+  ): Promise<Record<string, any>> {
+    const user = await this.usersService.findById(userId, { relations: [] });
+    if (!user || !user.isActive) {
+      throw new UnauthorizedException(
+        'Пользователь не найден или деактивирован',
+      );
+    }
+
+    const claims: Record<string, any> = { sub: user.id };
+
+    if (scopes.includes('profile')) {
+      claims.name =
+        [user.firstName, user.lastName].filter(Boolean).join(' ') || undefined;
+      claims.given_name = user.firstName || undefined;
+      claims.family_name = user.lastName || undefined;
+      claims.picture = user.avatarUrl || undefined;
+      claims.updated_at = Math.floor(user.updatedAt.getTime() / 1000);
+    }
+
+    if (scopes.includes('email') && user.email) {
+      claims.email = user.email;
+      claims.email_verified = user.emailVerified;
+    }
+
+    if (scopes.includes('phone') && user.phone) {
+      claims.phone_number = user.phone;
+      claims.phone_number_verified = user.phoneVerified;
+    }
+
+    if (scopes.includes('organizations')) {
+      const orgMemberships = await this.orgMembershipRepo.find({
+        where: { userId },
+        relations: ['organization', 'role'],
+      });
+      const teamMemberships = await this.teamMembershipRepo.find({
+        where: { userId },
+        relations: ['team', 'role'],
+      });
+
+      claims.organizations = orgMemberships
+        .filter((m) => m.organization)
+        .map((m) => ({
+          id: m.organization.id,
+          name: m.organization.name,
+          role: m.role?.name || null,
+        }));
+      claims.teams = teamMemberships
+        .filter((m) => m.team)
+        .map((m) => ({
+          id: m.team.id,
+          name: m.team.name,
+          organizationId: m.team.organizationId,
+          role: m.role?.name || null,
+        }));
+    }
+
+    if (scopes.includes('roles')) {
+      const { roles, permissions } =
+        await this.authService.getUserRolesAndPermissions(userId);
+      claims.roles = roles;
+      claims.permissions = permissions;
+    }
+
+    return claims;
+  }
+
+  private buildRedirect(
+    baseUrl: string,
+    params: Record<string, string | null | undefined>,
+  ): string {
+    const url = new URL(baseUrl);
+    Object.entries(params).forEach(([key, value]) => {
+      if (value) {
+        url.searchParams.set(key, value);
+      }
+    });
+    return url.toString();
+  }
+
+  private atHash(accessToken: string): string {
+    const digest = crypto.createHash('sha256').update(accessToken).digest();
+    return digest.subarray(0, digest.length / 2).toString('base64url');
+  }
+
+  private hash(value: string): string {
+    return crypto.createHash('sha256').update(value).digest('hex');
+  }
+}
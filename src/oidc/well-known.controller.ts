@@ -0,0 +1,18 @@
+import { Controller, Get } from '@nestjs/common';
+import { ApiTags, ApiOperation, ApiResponse } from '@nestjs/swagger';
+import { OidcService } from './oidc.service';
+import { Public } from '../auth/decorators/public.decorator';
+
+@ApiTags('oidc')
+@Controller('.well-known')
+export class WellKnownController {
+  constructor(private readonly oidcService: OidcService) {}
+
+  @Get('openid-configuration')
+  @Public()
+  @ApiOperation({ summary: 'OpenID Connect discovery' })
+  @ApiResponse({ status: 200, description: 'Метаданные провайдера' })
+  getOpenIdConfiguration() {
+    return this.oidcService.getDiscoveryDocument();
+  }
+}
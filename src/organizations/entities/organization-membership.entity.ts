@@ -23,6 +23,9 @@ export class OrganizationMembership {
   @Column({ name: 'invitedBy', nullable: true })
   invitedBy: string;
 
+  @Column({ type: 'varchar', length: 255, nullable: true })
+  scimExternalId: string | null; // externalId пользователя в каталоге организации (SCIM)
+
   @CreateDateColumn()
   createdAt: Date;
 
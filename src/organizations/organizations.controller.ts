@@ -4,6 +4,8 @@ import { OrganizationsService } from './organizations.service';
 import type { CreateOrganizationDto, UpdateOrganizationDto } from './organizations.service';
 import { JwtAuthGuard } from '../auth/guards/jwt-auth.guard';
 import { CurrentUser } from '../auth/decorators/current-user.decorator';
+import { RequirePermissions } from '../auth/decorators/permissions.decorator';
+import { PermissionScope } from '../auth/decorators/permission-scope.decorator';
 
 @ApiTags('organizations')
 @Controller('organizations')
@@ -31,6 +33,8 @@ export class OrganizationsController {
   }
 
   @Get(':id')
+  @RequirePermissions('organizations.read')
+  @PermissionScope({ organization: 'params.id' })
   @ApiOperation({ summary: 'Получить организацию по ID' })
   @ApiResponse({ status: 200, description: 'Организация найдена' })
   @ApiResponse({ status: 404, description: 'Организация не найдена' })
@@ -49,6 +53,8 @@ export class OrganizationsController {
   }
 
   @Put(':id')
+  @RequirePermissions('organizations.update')
+  @PermissionScope({ organization: 'params.id' })
   @ApiOperation({ summary: 'Обновить организацию' })
   @ApiResponse({ status: 200, description: 'Организация обновлена' })
   @ApiResponse({ status: 403, description: 'Недостаточно прав' })
@@ -62,6 +68,8 @@ export class OrganizationsController {
   }
 
   @Delete(':id')
+  @RequirePermissions('organizations.delete')
+  @PermissionScope({ organization: 'params.id' })
   @ApiOperation({ summary: 'Удалить организацию' })
   @ApiResponse({ status: 200, description: 'Организация удалена' })
   @ApiResponse({ status: 403, description: 'Недостаточно прав' })
@@ -75,6 +83,8 @@ export class OrganizationsController {
   }
 
   @Get(':id/members')
+  @RequirePermissions('organizations.read')
+  @PermissionScope({ organization: 'params.id' })
   @ApiOperation({ summary: 'Получить участников организации' })
   @ApiResponse({ status: 200, description: 'Список участников' })
   async getOrganizationMembers(@Param('id') id: string) {
@@ -82,6 +92,8 @@ export class OrganizationsController {
   }
 
   @Post(':id/members')
+  @RequirePermissions('users.invite')
+  @PermissionScope({ organization: 'params.id' })
   @ApiOperation({ summary: 'Добавить участника в организацию' })
   @ApiResponse({ status: 201, description: 'Участник добавлен' })
   @ApiResponse({ status: 403, description: 'Недостаточно прав' })
@@ -99,6 +111,8 @@ export class OrganizationsController {
   }
 
   @Put(':id/members/:userId/role')
+  @RequirePermissions('users.manage')
+  @PermissionScope({ organization: 'params.id' })
   @ApiOperation({ summary: 'Изменить роль участника организации' })
   @ApiResponse({ status: 200, description: 'Роль изменена' })
   @ApiResponse({ status: 403, description: 'Недостаточно прав' })
@@ -117,6 +131,8 @@ export class OrganizationsController {
   }
 
   @Delete(':id/members/:userId')
+  @RequirePermissions('users.manage')
+  @PermissionScope({ organization: 'params.id' })
   @ApiOperation({ summary: 'Удалить участника из организации' })
   @ApiResponse({ status: 200, description: 'Участник удален' })
   @ApiResponse({ status: 403, description: 'Недостаточно прав' })
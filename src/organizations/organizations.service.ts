@@ -11,6 +11,10 @@ import { RoleHierarchyService } from '../rbac/role-hierarchy.service';
 import { Team } from '../teams/entities/team.entity';
 import { TeamRole } from '../teams/entities/team-role.entity';
 import { TeamMembership } from '../teams/entities/team-membership.entity';
+import { WebhooksService } from '../webhooks/webhooks.service';
+import { WebhookEvent } from '../webhooks/enums/webhook-event.enum';
+import { AuditService } from '../audit/audit.service';
+import { AuditEvent } from '../audit/enums/audit-event.enum';
 
 export interface CreateOrganizationDto {
   name: string;
@@ -44,6 +48,8 @@ export class OrganizationsService {
     @InjectRepository(TeamMembership)
     private teamMembershipRepo: Repository<TeamMembership>,
     private roleHierarchyService: RoleHierarchyService,
+    private webhooksService: WebhooksService,
+    private auditService: AuditService,
   ) {}
 
   /**
@@ -66,6 +72,13 @@ export class OrganizationsService {
     });
 
     const savedOrg = await this.orgRepo.save(organization);
+    await this.auditService.record(AuditEvent.ORGANIZATION_CREATED, {
+      actorId: creatorId,
+      targetType: 'organization',
+      targetId: savedOrg.id,
+      organizationId: savedOrg.id,
+      after: { name: savedOrg.name, settings: savedOrg.settings ?? null },
+    });
 
     // Создаем системные роли для организации
     await this.createSystemRoles(savedOrg.id);
@@ -90,13 +103,13 @@ export class OrganizationsService {
       {
         name: 'admin',
         description: 'Администратор организации',
-        permissions: ['teams.create', 'teams.manage', 'users.invite', 'users.manage'],
+        permissions: ['organizations.read', 'organizations.update', 'teams.create', 'teams.manage', 'users.invite', 'users.manage'],
         level: 80,
       },
       {
         name: 'manager',
         description: 'Менеджер организации',
-        permissions: ['teams.manage', 'users.invite', 'users.manage'],
+        permissions: ['organizations.read', 'teams.manage', 'users.invite', 'users.manage'],
         level: 60,
       },
       {
@@ -136,7 +149,13 @@ export class OrganizationsService {
     if (userId !== invitedBy) {
       const canInvite = await this.roleHierarchyService.canInviteUsers(invitedBy, { organizationId });
       if (!canInvite) {
-        throw new ForbiddenException('Недостаточно прав для приглашения в организацию');
+        throw await this.denied(
+          AuditEvent.ORGANIZATION_MEMBER_ADDED,
+          organizationId,
+          invitedBy,
+          userId,
+          'Недостаточно прав для приглашения в организацию',
+        );
       }
     }
 
@@ -166,7 +185,23 @@ export class OrganizationsService {
       invitedBy,
     });
 
-    return this.orgMembershipRepo.save(membership);
+    const savedMembership = await this.orgMembershipRepo.save(membership);
+
+    await this.webhooksService.emitForUser(
+      WebhookEvent.ORGANIZATION_MEMBER_ADDED,
+      userId,
+      { organizationId, role: role.name, invitedBy },
+      [organizationId],
+    );
+    await this.auditService.record(AuditEvent.ORGANIZATION_MEMBER_ADDED, {
+      actorId: invitedBy,
+      targetType: 'user',
+      targetId: userId,
+      organizationId,
+      after: { role: role.name },
+    });
+
+    return savedMembership;
   }
 
   /**
@@ -181,7 +216,13 @@ export class OrganizationsService {
     // Проверяем права на изменение роли
     const canManage = await this.roleHierarchyService.canManageUser(changedBy, userId, { organizationId });
     if (!canManage) {
-      throw new ForbiddenException('Недостаточно прав для изменения роли');
+      throw await this.denied(
+        AuditEvent.ORGANIZATION_MEMBER_ROLE_CHANGED,
+        organizationId,
+        changedBy,
+        userId,
+        'Недостаточно прав для изменения роли',
+      );
     }
 
     // Находим новую роль
@@ -193,12 +234,35 @@ export class OrganizationsService {
       throw new NotFoundException(`Роль ${newRoleName} не найдена в организации`);
     }
 
+    const previous = await this.orgMembershipRepo.findOne({
+      where: { userId, organizationId },
+      relations: ['role'],
+    });
+
     // Обновляем роль
     await this.orgMembershipRepo.update(
       { userId, organizationId },
       { roleId: newRole.id },
     );
 
+    await this.webhooksService.emitForUser(
+      WebhookEvent.ORGANIZATION_MEMBER_ROLE_CHANGED,
+      userId,
+      { organizationId, role: newRole.name, changedBy },
+      [organizationId],
+    );
+    await this.auditService.record(
+      AuditEvent.ORGANIZATION_MEMBER_ROLE_CHANGED,
+      {
+        actorId: changedBy,
+        targetType: 'user',
+        targetId: userId,
+        organizationId,
+        before: { role: previous?.role?.name ?? null },
+        after: { role: newRole.name },
+      },
+    );
+
     const membership = await this.orgMembershipRepo.findOne({
       where: { userId, organizationId },
       relations: ['role', 'user'],
@@ -217,10 +281,36 @@ export class OrganizationsService {
     // Проверяем права на удаление
     const canManage = await this.roleHierarchyService.canManageUser(removedBy, userId, { organizationId });
     if (!canManage) {
-      throw new ForbiddenException('Недостаточно прав для удаления участника');
+      throw await this.denied(
+        AuditEvent.ORGANIZATION_MEMBER_REMOVED,
+        organizationId,
+        removedBy,
+        userId,
+        'Недостаточно прав для удаления участника',
+      );
     }
 
-    await this.orgMembershipRepo.delete({ userId, organizationId });
+    const previous = await this.orgMembershipRepo.findOne({
+      where: { userId, organizationId },
+      relations: ['role'],
+    });
+    const result = await this.orgMembershipRepo.delete({ userId, organizationId });
+
+    if (result.affected) {
+      await this.webhooksService.emitForUser(
+        WebhookEvent.ORGANIZATION_MEMBER_REMOVED,
+        userId,
+        { organizationId, removedBy },
+        [organizationId],
+      );
+      await this.auditService.record(AuditEvent.ORGANIZATION_MEMBER_REMOVED, {
+        actorId: removedBy,
+        targetType: 'user',
+        targetId: userId,
+        organizationId,
+        before: { role: previous?.role?.name ?? null },
+      });
+    }
   }
 
   /**
@@ -296,7 +386,19 @@ export class OrganizationsService {
     }
 
     await this.orgRepo.update(id, dto);
-    return this.getOrganizationById(id);
+    const updated = await this.getOrganizationById(id);
+    await this.auditService.record(AuditEvent.ORGANIZATION_UPDATED, {
+      actorId: updatedBy,
+      targetType: 'organization',
+      targetId: id,
+      organizationId: id,
+      before: {
+        name: organization.name,
+        settings: organization.settings ?? null,
+      },
+      after: { name: updated.name, settings: updated.settings ?? null },
+    });
+    return updated;
   }
 
   /**
@@ -349,6 +451,38 @@ export class OrganizationsService {
     console.log(`🗑️ Deleting organization ${id}...`);
     await this.orgRepo.delete(id);
     console.log(`🗑️ Organization ${id} deleted successfully`);
+
+    // Цепочка организации остаётся: удаление - последняя её запись
+    await this.auditService.record(AuditEvent.ORGANIZATION_DELETED, {
+      actorId: deletedBy,
+      targetType: 'organization',
+      targetId: id,
+      organizationId: id,
+      before: { name: organization.name },
+      details: { teams: teams.length },
+    });
+  }
+
+  /**
+   * Отказ в управлении участниками записывается в журнал организации
+   */
+  private async denied(
+    event: AuditEvent,
+    organizationId: string,
+    actorId: string,
+    targetUserId: string,
+    message: string,
+  ): Promise<ForbiddenException> {
+    await this.auditService.record(event, {
+      actorId,
+      targetType: 'user',
+      targetId: targetUserId,
+      organizationId,
+      outcome: 'failure',
+      reason: message,
+      statusCode: 403,
+    });
+    return new ForbiddenException(message);
   }
 
   /**
@@ -0,0 +1,60 @@
+import {
+  IsEnum,
+  IsIn,
+  IsNotEmpty,
+  IsOptional,
+  IsString,
+  MaxLength,
+} from 'class-validator';
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import {
+  DataSubjectRequestStatus,
+  DataSubjectRequestType,
+} from '../entities/data-subject-request.entity';
+
+export type PersonalDataExportFormat = 'json' | 'zip';
+
+export class PersonalDataExportQueryDto {
+  @ApiPropertyOptional({ enum: ['json', 'zip'], default: 'json' })
+  @IsOptional()
+  @IsIn(['json', 'zip'])
+  format?: PersonalDataExportFormat;
+}
+
+export class CreateErasureRequestDto {
+  @ApiPropertyOptional({
+    description: 'Текущий пароль; обязателен, если он задан у аккаунта',
+  })
+  @IsOptional()
+  @IsString()
+  @MaxLength(128)
+  password?: string;
+
+  @ApiPropertyOptional({ example: 'Больше не пользуюсь сервисом' })
+  @IsOptional()
+  @IsString()
+  @MaxLength(1000)
+  reason?: string;
+}
+
+export class DataSubjectRequestsQueryDto {
+  @ApiPropertyOptional({ enum: DataSubjectRequestStatus })
+  @IsOptional()
+  @IsEnum(DataSubjectRequestStatus)
+  status?: DataSubjectRequestStatus;
+
+  @ApiPropertyOptional({ enum: DataSubjectRequestType })
+  @IsOptional()
+  @IsEnum(DataSubjectRequestType)
+  type?: DataSubjectRequestType;
+}
+
+export class RejectDataSubjectRequestDto {
+  @ApiProperty({
+    example: 'Идёт проверка по обращению, данные нужны до её завершения',
+  })
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(1000)
+  comment: string;
+}
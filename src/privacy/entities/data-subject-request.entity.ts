@@ -0,0 +1,69 @@
+import {
+  Entity,
+  PrimaryGeneratedColumn,
+  Column,
+  CreateDateColumn,
+  UpdateDateColumn,
+  Index,
+} from 'typeorm';
+
+export enum DataSubjectRequestType {
+  EXPORT = 'export',
+  ERASURE = 'erasure',
+}
+
+export enum DataSubjectRequestStatus {
+  PENDING = 'pending', // Ждёт решения администратора
+  APPROVED = 'approved', // Удаление выполнится после scheduledFor
+  REJECTED = 'rejected',
+  CANCELLED = 'cancelled', // Отозван пользователем
+  COMPLETED = 'completed',
+}
+
+/**
+ * Запрос субъекта персональных данных: выгрузка или удаление.
+ * Хранится и после удаления аккаунта, поэтому userId без внешнего ключа
+ */
+@Entity('data_subject_requests')
+@Index(['userId', 'createdAt'])
+@Index(['status', 'scheduledFor'])
+export class DataSubjectRequest {
+  @PrimaryGeneratedColumn('uuid')
+  id: string;
+
+  @Column({ type: 'uuid' })
+  userId: string;
+
+  @Column({ type: 'varchar', length: 20 })
+  type: DataSubjectRequestType;
+
+  @Column({ type: 'varchar', length: 20 })
+  status: DataSubjectRequestStatus;
+
+  @Column({ type: 'varchar', length: 10, nullable: true })
+  format: string | null; // Формат выгрузки: json | zip
+
+  @Column({ type: 'text', nullable: true })
+  reason: string | null; // Комментарий пользователя к запросу на удаление
+
+  @Column({ type: 'timestamp', nullable: true })
+  scheduledFor: Date | null; // Удаление не раньше этого момента
+
+  @Column({ type: 'uuid', nullable: true })
+  reviewedBy: string | null;
+
+  @Column({ type: 'timestamp', nullable: true })
+  reviewedAt: Date | null;
+
+  @Column({ type: 'text', nullable: true })
+  reviewComment: string | null;
+
+  @Column({ type: 'timestamp', nullable: true })
+  completedAt: Date | null;
+
+  @CreateDateColumn()
+  createdAt: Date;
+
+  @UpdateDateColumn()
+  updatedAt: Date;
+}
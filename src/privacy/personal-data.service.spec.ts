@@ -0,0 +1,215 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { getRepositoryToken } from '@nestjs/typeorm';
+import { ConfigService } from '@nestjs/config';
+import { NotFoundException } from '@nestjs/common';
+import { DataSource, EntityManager } from 'typeorm';
+import { PersonalDataService } from './personal-data.service';
+import { LoginProtectionService } from '../auth/services/login-protection.service';
+import { SecretHashService } from '../auth/services/secret-hash.service';
+import { AuditService } from '../audit/audit.service';
+import { AuditEvent } from '../audit/enums/audit-event.enum';
+import { AuditLog } from '../audit/entities/audit-log.entity';
+import { AuditActor } from '../audit/entities/audit-actor.entity';
+import { AuditPersonalData } from '../audit/entities/audit-personal-data.entity';
+import { AUDIT_GENESIS_HASH } from '../audit/audit-chain';
+import { User } from '../users/entities/user.entity';
+
+describe('PersonalDataService', () => {
+  let service: PersonalDataService;
+  let auditService: AuditService;
+
+  const users: Record<string, Partial<User>> = {
+    'user-1': {
+      id: 'user-1',
+      email: 'user@example.com',
+      phone: '+79990000000',
+      telegramId: '42',
+    },
+    'merged-1': {
+      id: 'merged-1',
+      email: 'old@example.com',
+      phone: null,
+      telegramId: null,
+    },
+  };
+
+  // Журнал аудита в памяти: подписанные записи и их персональные данные
+  const auditLogs: AuditLog[] = [];
+  const auditPersonalData: AuditPersonalData[] = [];
+
+  const auditManager = {
+    createQueryBuilder: () => ({
+      insert: () => ({
+        into: () => ({
+          values: () => ({ orIgnore: () => ({ execute: jest.fn() }) }),
+        }),
+      }),
+    }),
+    findOneOrFail: jest.fn(() =>
+      Promise.resolve({
+        chain: 'global',
+        sequence: '0',
+        hash: AUDIT_GENESIS_HASH,
+      }),
+    ),
+    create: jest.fn((_entity: unknown, data: object) => ({ ...data })),
+    save: jest.fn((entity: AuditLog | AuditPersonalData) => {
+      if ('auditLogId' in entity) {
+        auditPersonalData.push(entity);
+        return Promise.resolve(entity);
+      }
+      const saved = {
+        ...entity,
+        id: `log-${auditLogs.length + 1}`,
+      } as AuditLog;
+      auditLogs.push(saved);
+      return Promise.resolve(saved);
+    }),
+    update: jest.fn(),
+  };
+
+  const mockDataSource = {
+    transaction: jest.fn(
+      (run: (transactionManager: typeof auditManager) => Promise<unknown>) =>
+        run(auditManager),
+    ),
+  };
+
+  const manager = {
+    findOne: jest.fn((_entity: unknown, { where }: { where: { id: string } }) =>
+      Promise.resolve(users[where.id] ?? null),
+    ),
+    find: jest.fn(
+      (_entity: unknown, { where }: { where: { mergedIntoId: string } }) =>
+        Promise.resolve(
+          where.mergedIntoId === 'user-1' ? [{ id: 'merged-1' }] : [],
+        ),
+    ),
+    query: jest.fn<Promise<unknown[]>, [string, unknown[]]>((sql, params) => {
+      if (sql.startsWith('DELETE FROM audit_personal_data')) {
+        const remaining = auditPersonalData.filter(
+          (data) => !data.userIds.includes(params[0] as string),
+        );
+        auditPersonalData.splice(0, auditPersonalData.length, ...remaining);
+      }
+      return Promise.resolve([]);
+    }),
+    delete: jest.fn(),
+  };
+
+  const mockLoginProtectionService = {
+    userKey: jest.fn((userId: string) => `user:${userId}`),
+    emailKey: jest.fn((email: string) => `email:${email}`),
+    phoneKey: jest.fn((phone: string) => `phone:${phone}`),
+    telegramKey: jest.fn((telegramId: string) => `telegram:${telegramId}`),
+  };
+
+  const erase = (userId: string) =>
+    service.erase(manager as unknown as EntityManager, userId);
+
+  const queriesMatching = (pattern: RegExp) =>
+    manager.query.mock.calls.filter(([sql]) => pattern.test(sql));
+
+  beforeEach(async () => {
+    jest.clearAllMocks();
+    auditLogs.length = 0;
+    auditPersonalData.length = 0;
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        PersonalDataService,
+        AuditService,
+        {
+          provide: DataSource,
+          useValue: mockDataSource,
+        },
+        {
+          provide: getRepositoryToken(AuditLog),
+          useValue: {},
+        },
+        {
+          provide: getRepositoryToken(AuditActor),
+          useValue: { findOne: jest.fn().mockResolvedValue({ id: 'actor-1' }) },
+        },
+        {
+          provide: SecretHashService,
+          useValue: { hash: jest.fn(() => 'a'.repeat(64)) },
+        },
+        {
+          provide: ConfigService,
+          useValue: { get: jest.fn() },
+        },
+        {
+          provide: LoginProtectionService,
+          useValue: mockLoginProtectionService,
+        },
+      ],
+    }).compile();
+
+    service = module.get<PersonalDataService>(PersonalDataService);
+    auditService = module.get<AuditService>(AuditService);
+  });
+
+  it('should delete the account together with the accounts merged into it', async () => {
+    await erase('user-1');
+
+    expect(manager.delete).toHaveBeenCalledWith(User, 'merged-1');
+    expect(manager.delete).toHaveBeenCalledWith(User, 'user-1');
+  });
+
+  it('should unlink login attempts from every login key of the account', async () => {
+    await erase('user-1');
+
+    const [[, params]] = queriesMatching(/^UPDATE login_attempts/).slice(-1);
+    expect(params).toEqual([
+      'erased',
+      'user-1',
+      [
+        'user:user-1',
+        'email:user@example.com',
+        'phone:+79990000000',
+        'telegram:42',
+      ],
+    ]);
+  });
+
+  it('should erase the recipients of sent messages and drop unsent ones', async () => {
+    await erase('user-1');
+
+    const contacts = ['user@example.com', '+79990000000', '42'];
+    expect(queriesMatching(/^DELETE FROM outbound_messages/)).toContainEqual([
+      expect.any(String),
+      [contacts],
+    ]);
+    expect(queriesMatching(/^UPDATE outbound_messages/)).toContainEqual([
+      expect.any(String),
+      ['erased', contacts],
+    ]);
+  });
+
+  it('should remove the email from the audit log and keep the signed records', async () => {
+    await auditService.record(AuditEvent.USER_REGISTERED, {
+      actorId: 'user-1',
+      targetType: 'user',
+      targetId: 'user-1',
+      after: { email: 'user@example.com', role: 'user' },
+      context: { ipAddress: '10.0.0.1', userAgent: 'jest' },
+    });
+    const signed = JSON.stringify(auditLogs);
+    expect(signed).not.toContain('user@example.com');
+    expect(JSON.stringify(auditPersonalData)).toContain('user@example.com');
+
+    await erase('user-1');
+
+    expect(JSON.stringify([auditLogs, auditPersonalData])).not.toContain(
+      'user@example.com',
+    );
+    expect(JSON.stringify(auditLogs)).toBe(signed);
+    expect(queriesMatching(/audit_logs/)).toEqual([]);
+  });
+
+  it('should reject an unknown user', async () => {
+    await expect(erase('missing')).rejects.toThrow(NotFoundException);
+    expect(manager.delete).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,321 @@
+import { Injectable, Logger, NotFoundException } from '@nestjs/common';
+import { DataSource, EntityManager } from 'typeorm';
+import { User } from '../users/entities/user.entity';
+import { UserRoleAssignment } from '../users/entities/user-role-assignment.entity';
+import { OrganizationMembership } from '../organizations/entities/organization-membership.entity';
+import { TeamMembership } from '../teams/entities/team-membership.entity';
+import {
+  Invitation,
+  InvitationStatus,
+} from '../auth/micro-modules/invitations/entities/invitation.entity';
+import { Notification } from '../notifications/entities/notification.entity';
+import { UserIdentity } from '../identities/entities/user-identity.entity';
+import { WebAuthnCredential } from '../auth/entities/webauthn-credential.entity';
+import { RefreshToken } from '../auth/entities/refresh-token.entity';
+import { LoginProtectionService } from '../auth/services/login-protection.service';
+
+/**
+ * Выгрузка персональных данных: разделы становятся файлами ZIP-архива
+ */
+export interface PersonalDataExport {
+  exportedAt: string;
+  profile: Record<string, unknown>;
+  authMethods: Record<string, unknown>;
+  memberships: Record<string, unknown>;
+  invitations: Record<string, unknown>;
+  referrals: unknown[];
+  notifications: unknown[];
+  auditTrail: unknown[];
+}
+
+// Подставляются вместо email, телефона и ключа входа в обезличенных записях
+const ERASED_CONTACT = 'erased';
+const ERASED_EMAIL = 'erased@erased.invalid';
+
+/**
+ * Сбор персональных данных пользователя и их удаление по запросу субъекта данных
+ */
+@Injectable()
+export class PersonalDataService {
+  private readonly logger = new Logger(PersonalDataService.name);
+
+  constructor(
+    private dataSource: DataSource,
+    private loginProtectionService: LoginProtectionService,
+  ) {}
+
+  /**
+   * Все данные пользователя. Секреты (хеши паролей и токенов, ключи TOTP, резервные коды)
+   * не выгружаются
+   */
+  async collect(userId: string): Promise<PersonalDataExport> {
+    const manager = this.dataSource.manager;
+    const user = await manager.findOne(User, { where: { id: userId } });
+    if (!user) {
+      throw new NotFoundException('Пользователь не найден');
+    }
+    const { mfaSettings, ...profile } = user;
+
+    const [
+      identities,
+      passkeys,
+      sessions,
+      organizations,
+      teams,
+      roleAssignments,
+    ] = await Promise.all([
+      manager.find(UserIdentity, { where: { userId } }),
+      manager.find(WebAuthnCredential, {
+        where: { userId },
+        select: {
+          id: true,
+          name: true,
+          transports: true,
+          backedUp: true,
+          lastUsedAt: true,
+          createdAt: true,
+        },
+      }),
+      manager.find(RefreshToken, {
+        where: { userId },
+        select: {
+          id: true,
+          deviceName: true,
+          ipAddress: true,
+          userAgent: true,
+          isRevoked: true,
+          revokedReason: true,
+          expiresAt: true,
+          createdAt: true,
+        },
+        order: { createdAt: 'DESC' },
+      }),
+      manager.find(OrganizationMembership, {
+        where: { userId },
+        relations: { organization: true, role: true },
+      }),
+      manager.find(TeamMembership, {
+        where: { userId },
+        relations: { team: true, role: true },
+      }),
+      manager.find(UserRoleAssignment, {
+        where: { userId },
+        relations: { role: true, organizationRole: true, teamRole: true },
+      }),
+    ]);
+
+    return {
+      exportedAt: new Date().toISOString(),
+      profile,
+      authMethods: {
+        primaryAuthMethod: user.primaryAuthMethod,
+        availableAuthMethods: user.availableAuthMethods,
+        twoFactor: {
+          enabled: user.twoFactorEnabled,
+          methods: user.twoFactorMethods,
+          totpConfirmedAt: user.totpConfirmedAt,
+          mfaMethods: mfaSettings?.methods ?? [],
+        },
+        identities,
+        passkeys,
+        sessions,
+      },
+      memberships: {
+        organizations: organizations.map((membership) => ({
+          organizationId: membership.organizationId,
+          organization: membership.organization?.name ?? null,
+          role: membership.role?.name ?? null,
+          joinedAt: membership.joinedAt,
+        })),
+        teams: teams.map((membership) => ({
+          teamId: membership.teamId,
+          team: membership.team?.name ?? null,
+          role: membership.role?.name ?? null,
+          joinedAt: membership.joinedAt,
+        })),
+        roles: roleAssignments.map((assignment) => ({
+          role:
+            assignment.role?.name ??
+            assignment.organizationRole?.name ??
+            assignment.teamRole?.name ??
+            null,
+          organizationId: assignment.organizationId,
+          teamId: assignment.teamId,
+          expiresAt: assignment.expiresAt,
+          assignedAt: assignment.createdAt,
+        })),
+      },
+      invitations: await this.collectInvitations(manager, user),
+      referrals: await manager.query(
+        'SELECT * FROM referrals WHERE "referrerId" = $1 OR "referredUserId" = $1 OR "referredId" = $1',
+        [userId],
+      ),
+      notifications: await manager.find(Notification, {
+        where: { userId },
+        order: { createdAt: 'ASC' },
+      }),
+      auditTrail: await this.collectAuditTrail(manager, userId),
+    };
+  }
+
+  /**
+   * Удаление в транзакции вызывающего. Принятые приглашения, рефералы пригласившего,
+   * журналы входов и сообщений обезличиваются, из журнала аудита удаляются персональные данные
+   */
+  async erase(manager: EntityManager, userId: string): Promise<void> {
+    const user = await manager.findOne(User, { where: { id: userId } });
+    if (!user) {
+      throw new NotFoundException('Пользователь не найден');
+    }
+
+    // Аккаунты, ранее объединённые с этим, удаляются вместе с ним
+    const mergedAccounts = await manager.find(User, {
+      where: { mergedIntoId: userId },
+      select: { id: true },
+    });
+    for (const account of mergedAccounts) {
+      await this.erase(manager, account.id);
+    }
+
+    const contacts = [user.email, user.phone, user.telegramId].filter(
+      (contact): contact is string => !!contact,
+    );
+    const accountKeys = [
+      this.loginProtectionService.userKey(userId),
+      ...(user.email ? [this.loginProtectionService.emailKey(user.email)] : []),
+      ...(user.phone ? [this.loginProtectionService.phoneKey(user.phone)] : []),
+      ...(user.telegramId
+        ? [this.loginProtectionService.telegramKey(user.telegramId)]
+        : []),
+    ];
+
+    // 1. Непринятые приглашения от пользователя и ему больше не нужны
+    await manager.query(
+      'DELETE FROM invitations WHERE status = $1 AND ("invitedById" = $2 OR email = $3)',
+      [InvitationStatus.PENDING, userId, user.email],
+    );
+
+    // 2. Остальные приглашения остаются в истории организаций без пользователя
+    await manager.query(
+      'UPDATE invitations SET "invitedById" = NULL WHERE "invitedById" = $1',
+      [userId],
+    );
+    await manager.query(
+      'UPDATE invitations SET email = $1, "acceptedById" = NULL WHERE "acceptedById" = $2 OR email = $3',
+      [ERASED_EMAIL, userId, user.email],
+    );
+
+    // 3. Журнал входов: попытки остаются для лимитов по IP, но без аккаунта
+    await manager.query(
+      'UPDATE login_attempts SET "accountKey" = $1, "userId" = NULL WHERE "userId" = $2 OR "accountKey" = ANY($3)',
+      [ERASED_CONTACT, userId, accountKeys],
+    );
+
+    // 4. Журнал сообщений: неотправленные удаляются, у остальных стирается получатель
+    await manager.query(
+      `DELETE FROM outbound_messages WHERE recipient = ANY($1) AND status IN ('pending', 'sending')`,
+      [contacts],
+    );
+    await manager.query(
+      'UPDATE outbound_messages SET recipient = $1, subject = NULL, text = NULL, html = NULL WHERE recipient = ANY($2)',
+      [ERASED_CONTACT, contacts],
+    );
+    await manager.query(
+      'DELETE FROM verification_codes WHERE "userId" = $1 OR identifier = ANY($2)',
+      [userId, contacts],
+    );
+
+    // 5. Роли, членство, сессии, одноразовые токены и уведомления
+    await manager.query(
+      'DELETE FROM user_role_assignments WHERE "userId" = $1',
+      [userId],
+    );
+    await manager.query('DELETE FROM user_teams WHERE user_id = $1', [userId]);
+    await manager.query('DELETE FROM user_organizations WHERE user_id = $1', [
+      userId,
+    ]);
+    await manager.delete(TeamMembership, { userId });
+    await manager.delete(OrganizationMembership, { userId });
+    for (const table of [
+      'refresh_tokens',
+      'two_factor_codes',
+      'email_verification_tokens',
+      'password_reset_tokens',
+      'notifications',
+    ]) {
+      await manager.query(`DELETE FROM ${table} WHERE "userId" = $1`, [userId]);
+    }
+
+    // 6. Реферальные коды пользователя удаляются; там, где он приглашённый,
+    // ссылка на него обнуляется внешним ключом
+    await manager.query('DELETE FROM referrals WHERE "referrerId" = $1', [
+      userId,
+    ]);
+
+    // 7. Журнал аудита: IP, User-Agent, данные запросов и изменённые поля (в том числе email)
+    // записей, где пользователь исполнитель или цель. В подписанной цепочке остаётся только их хеш с солью
+    await manager.query(
+      'DELETE FROM audit_personal_data WHERE $1 = ANY("userIds")',
+      [userId],
+    );
+
+    // 8. Аккаунт. Способы входа, passkeys, история паролей и оценки входов удаляются
+    // каскадом, псевдоним в audit_actors отвязывается
+    await manager.delete(User, userId);
+
+    this.logger.log(`🗑️ Персональные данные пользователя ${userId} удалены`);
+  }
+
+  private async collectInvitations(
+    manager: EntityManager,
+    user: User,
+  ): Promise<Record<string, unknown>> {
+    const [sent, received] = await Promise.all([
+      manager.find(Invitation, { where: { invitedById: user.id } }),
+      manager.find(Invitation, {
+        where: [
+          { acceptedById: user.id },
+          ...(user.email ? [{ email: user.email }] : []),
+        ],
+      }),
+    ]);
+
+    return {
+      // Email приглашённых - чужие данные, в выгрузку не попадают
+      sent: sent.map((invitation) => ({
+        id: invitation.id,
+        type: invitation.type,
+        organizationId: invitation.organizationId,
+        teamId: invitation.teamId,
+        role: invitation.role,
+        status: invitation.status,
+        createdAt: invitation.createdAt,
+      })),
+      received,
+    };
+  }
+
+  /**
+   * Действия пользователя и действия над ним из журнала и архива, в порядке записи
+   */
+  private async collectAuditTrail(
+    manager: EntityManager,
+    userId: string,
+  ): Promise<unknown[]> {
+    return manager.query(
+      `SELECT audit."createdAt", audit.action, audit.service, audit.resource, audit."resourceId",
+              audit.outcome, audit."statusCode", data."ipAddress", data."userAgent", data.changes,
+              actor."userId" = $1 AS "byUser"
+       FROM (
+         SELECT * FROM audit_logs_archive
+         UNION ALL
+         SELECT * FROM audit_logs
+       ) AS audit
+       LEFT JOIN audit_actors actor ON actor.id = audit."actorId"
+       LEFT JOIN audit_personal_data data ON data."auditLogId" = audit.id
+       WHERE actor."userId" = $1 OR (audit.resource = 'user' AND audit."resourceId" = $1::text)
+       ORDER BY audit."createdAt", audit.sequence`,
+      [userId],
+    );
+  }
+}
@@ -0,0 +1,148 @@
+import {
+  Body,
+  Controller,
+  Get,
+  Param,
+  ParseUUIDPipe,
+  Post,
+  Query,
+  Req,
+  StreamableFile,
+  UseGuards,
+} from '@nestjs/common';
+import type { Request } from 'express';
+import {
+  ApiTags,
+  ApiOperation,
+  ApiResponse,
+  ApiBearerAuth,
+} from '@nestjs/swagger';
+import { PrivacyService } from './privacy.service';
+import {
+  CreateErasureRequestDto,
+  DataSubjectRequestsQueryDto,
+  PersonalDataExportQueryDto,
+  RejectDataSubjectRequestDto,
+} from './dto/data-subject-request.dto';
+import { JwtAuthGuard } from '../auth/guards/jwt-auth.guard';
+import { CurrentUser } from '../auth/decorators/current-user.decorator';
+import { RequirePermissions } from '../auth/decorators/permissions.decorator';
+import { SessionContext } from '../auth/interfaces/session.interface';
+
+@ApiTags('privacy')
+@Controller('privacy')
+@UseGuards(JwtAuthGuard)
+@ApiBearerAuth()
+export class PrivacyController {
+  constructor(private readonly privacyService: PrivacyService) {}
+
+  @Get('export')
+  @ApiOperation({
+    summary: 'Выгрузка своих персональных данных (JSON или ZIP)',
+  })
+  @ApiResponse({ status: 200, description: 'Файл с данными' })
+  @ApiResponse({ status: 429, description: 'Превышен лимит выгрузок за сутки' })
+  async exportData(
+    @Query() query: PersonalDataExportQueryDto,
+    @CurrentUser() user: { userId: string },
+    @Req() req: Request,
+  ) {
+    const file = await this.privacyService.exportData(
+      user.userId,
+      query.format ?? 'json',
+      this.sessionContext(req),
+    );
+    return new StreamableFile(file.content, {
+      type: file.contentType,
+      disposition: `attachment; filename="${file.filename}"`,
+    });
+  }
+
+  @Post('erasure')
+  @ApiOperation({
+    summary: 'Запрос на удаление аккаунта и персональных данных',
+  })
+  @ApiResponse({ status: 201, description: 'Запрос создан' })
+  @ApiResponse({ status: 401, description: 'Неверный пароль' })
+  @ApiResponse({ status: 409, description: 'Запрос на удаление уже создан' })
+  async requestErasure(
+    @Body() dto: CreateErasureRequestDto,
+    @CurrentUser() user: { userId: string },
+    @Req() req: Request,
+  ) {
+    return this.privacyService.requestErasure(
+      user.userId,
+      dto,
+      this.sessionContext(req),
+    );
+  }
+
+  @Get('requests')
+  @ApiOperation({ summary: 'Мои запросы на выгрузку и удаление' })
+  @ApiResponse({ status: 200, description: 'Запросы, новые сверху' })
+  async findMyRequests(@CurrentUser() user: { userId: string }) {
+    return this.privacyService.findMyRequests(user.userId);
+  }
+
+  @Post('requests/:requestId/cancel')
+  @ApiOperation({ summary: 'Отозвать запрос на удаление' })
+  @ApiResponse({ status: 201, description: 'Запрос отозван' })
+  @ApiResponse({
+    status: 409,
+    description: 'Запрос уже выполнен или рассмотрен',
+  })
+  async cancelErasure(
+    @Param('requestId', ParseUUIDPipe) requestId: string,
+    @CurrentUser() user: { userId: string },
+  ) {
+    return this.privacyService.cancelErasure(user.userId, requestId);
+  }
+
+  @Get('admin/requests')
+  @RequirePermissions('users.read')
+  @ApiOperation({ summary: 'Очередь запросов субъектов данных' })
+  @ApiResponse({ status: 200, description: 'Запросы, новые сверху' })
+  async findForReview(@Query() query: DataSubjectRequestsQueryDto) {
+    return this.privacyService.findForReview(query);
+  }
+
+  @Post('admin/requests/:requestId/approve')
+  @RequirePermissions('users.delete')
+  @ApiOperation({
+    summary: 'Одобрить удаление (выполнится после льготного периода)',
+  })
+  @ApiResponse({ status: 201, description: 'Запрос одобрен' })
+  @ApiResponse({
+    status: 409,
+    description: 'Запрос уже рассмотрен или отозван',
+  })
+  async approve(
+    @Param('requestId', ParseUUIDPipe) requestId: string,
+    @CurrentUser() user: { userId: string },
+  ) {
+    return this.privacyService.approve(requestId, user.userId);
+  }
+
+  @Post('admin/requests/:requestId/reject')
+  @RequirePermissions('users.delete')
+  @ApiOperation({ summary: 'Отклонить удаление с объяснением причины' })
+  @ApiResponse({ status: 201, description: 'Запрос отклонён' })
+  @ApiResponse({
+    status: 409,
+    description: 'Запрос уже рассмотрен или отозван',
+  })
+  async reject(
+    @Param('requestId', ParseUUIDPipe) requestId: string,
+    @Body() dto: RejectDataSubjectRequestDto,
+    @CurrentUser() user: { userId: string },
+  ) {
+    return this.privacyService.reject(requestId, user.userId, dto.comment);
+  }
+
+  private sessionContext(req: Request): SessionContext {
+    return {
+      ipAddress: req.ip,
+      userAgent: req.get('User-Agent'),
+    };
+  }
+}
@@ -0,0 +1,23 @@
+import { Global, Module } from '@nestjs/common';
+import { TypeOrmModule } from '@nestjs/typeorm';
+import { DataSubjectRequest } from './entities/data-subject-request.entity';
+import { User } from '../users/entities/user.entity';
+import { NotificationsModule } from '../notifications/notifications.module';
+import { PersonalDataService } from './personal-data.service';
+import { PrivacyService } from './privacy.service';
+import { PrivacyController } from './privacy.controller';
+
+/**
+ * Персональные данные: удаление аккаунта доступно и администрированию пользователей
+ */
+@Global()
+@Module({
+  imports: [
+    TypeOrmModule.forFeature([DataSubjectRequest, User]),
+    NotificationsModule,
+  ],
+  controllers: [PrivacyController],
+  providers: [PersonalDataService, PrivacyService],
+  exports: [PersonalDataService],
+})
+export class PrivacyModule {}
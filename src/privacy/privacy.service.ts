@@ -0,0 +1,412 @@
+import {
+  BadRequestException,
+  ConflictException,
+  HttpException,
+  HttpStatus,
+  Injectable,
+  Logger,
+  NotFoundException,
+  UnauthorizedException,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { InjectRepository } from '@nestjs/typeorm';
+import { Cron, CronExpression } from '@nestjs/schedule';
+import { DataSource, In, LessThanOrEqual, MoreThan, Repository } from 'typeorm';
+import * as bcrypt from 'bcrypt';
+import {
+  DataSubjectRequest,
+  DataSubjectRequestStatus,
+  DataSubjectRequestType,
+} from './entities/data-subject-request.entity';
+import {
+  CreateErasureRequestDto,
+  DataSubjectRequestsQueryDto,
+  PersonalDataExportFormat,
+} from './dto/data-subject-request.dto';
+import { PersonalDataService } from './personal-data.service';
+import { createZipArchive } from './zip-archive';
+import { User } from '../users/entities/user.entity';
+import { NotificationsService } from '../notifications/notifications.service';
+import { NotificationType } from '../notifications/entities/notification.entity';
+import { AuditService } from '../audit/audit.service';
+import { AuditEvent } from '../audit/enums/audit-event.enum';
+import { SessionContext } from '../auth/interfaces/session.interface';
+
+export interface PersonalDataFile {
+  filename: string;
+  contentType: string;
+  content: Buffer;
+}
+
+// Запрос на удаление, который ещё можно отозвать
+const ACTIVE_ERASURE_STATUSES = [
+  DataSubjectRequestStatus.PENDING,
+  DataSubjectRequestStatus.APPROVED,
+];
+const REVIEW_PAGE_SIZE = 100;
+
+/**
+ * Запросы субъектов персональных данных (GDPR, 152-ФЗ): выгрузка данных и удаление
+ * аккаунта после льготного периода и одобрения администратором
+ */
+@Injectable()
+export class PrivacyService {
+  private readonly logger = new Logger(PrivacyService.name);
+
+  constructor(
+    @InjectRepository(DataSubjectRequest)
+    private requestsRepo: Repository<DataSubjectRequest>,
+    @InjectRepository(User)
+    private usersRepo: Repository<User>,
+    private dataSource: DataSource,
+    private personalDataService: PersonalDataService,
+    private notificationsService: NotificationsService,
+    private auditService: AuditService,
+    private configService: ConfigService,
+  ) {}
+
+  /**
+   * Выгрузка своих данных одним JSON или ZIP-архивом (файл на раздел)
+   */
+  async exportData(
+    userId: string,
+    format: PersonalDataExportFormat,
+    context: SessionContext = {},
+  ): Promise<PersonalDataFile> {
+    const since = new Date(Date.now() - 24 * 60 * 60 * 1000);
+    const exportsToday = await this.requestsRepo.count({
+      where: {
+        userId,
+        type: DataSubjectRequestType.EXPORT,
+        createdAt: MoreThan(since),
+      },
+    });
+    if (
+      exportsToday >= this.configService.get<number>('privacy.exportsPerDay', 5)
+    ) {
+      throw new HttpException(
+        'Превышено количество выгрузок за сутки',
+        HttpStatus.TOO_MANY_REQUESTS,
+      );
+    }
+
+    const data = await this.personalDataService.collect(userId);
+    const request = await this.requestsRepo.save(
+      this.requestsRepo.create({
+        userId,
+        type: DataSubjectRequestType.EXPORT,
+        status: DataSubjectRequestStatus.COMPLETED,
+        format,
+        completedAt: new Date(),
+      }),
+    );
+    await this.auditService.record(AuditEvent.PRIVACY_DATA_EXPORTED, {
+      actorId: userId,
+      targetType: 'user',
+      targetId: userId,
+      details: { requestId: request.id, format },
+      context,
+    });
+
+    const basename = `personal-data-${data.exportedAt.slice(0, 10)}`;
+    if (format === 'zip') {
+      return {
+        filename: `${basename}.zip`,
+        contentType: 'application/zip',
+        content: createZipArchive(
+          Object.entries(data).map(([section, value]) => ({
+            name: `${section}.json`,
+            content: JSON.stringify(value, null, 2),
+          })),
+        ),
+      };
+    }
+    return {
+      filename: `${basename}.json`,
+      contentType: 'application/json',
+      content: Buffer.from(JSON.stringify(data, null, 2), 'utf8'),
+    };
+  }
+
+  /**
+   * Запрос на удаление аккаунта. Если у аккаунта есть пароль, его нужно подтвердить
+   */
+  async requestErasure(
+    userId: string,
+    dto: CreateErasureRequestDto,
+    context: SessionContext = {},
+  ): Promise<DataSubjectRequest> {
+    const user = await this.usersRepo.findOne({
+      where: { id: userId },
+      select: ['id', 'passwordHash'],
+    });
+    if (!user) {
+      throw new NotFoundException('Пользователь не найден');
+    }
+    if (
+      user.passwordHash &&
+      !(dto.password && (await bcrypt.compare(dto.password, user.passwordHash)))
+    ) {
+      throw new UnauthorizedException('Неверный пароль');
+    }
+
+    const active = await this.requestsRepo.findOne({
+      where: {
+        userId,
+        type: DataSubjectRequestType.ERASURE,
+        status: In(ACTIVE_ERASURE_STATUSES),
+      },
+    });
+    if (active) {
+      throw new ConflictException('Запрос на удаление уже создан');
+    }
+
+    const graceDays = this.configService.get<number>(
+      'privacy.erasureGraceDays',
+      30,
+    );
+    const request = await this.requestsRepo.save(
+      this.requestsRepo.create({
+        userId,
+        type: DataSubjectRequestType.ERASURE,
+        status: DataSubjectRequestStatus.PENDING,
+        reason: dto.reason ?? null,
+        scheduledFor: new Date(Date.now() + graceDays * 24 * 60 * 60 * 1000),
+      }),
+    );
+    await this.recordErasureEvent(
+      AuditEvent.PRIVACY_ERASURE_REQUESTED,
+      request,
+      userId,
+      null,
+      context,
+    );
+    this.logger.log(
+      `📝 Запрос на удаление данных ${userId}, не раньше ${request.scheduledFor!.toISOString()}`,
+    );
+
+    return request;
+  }
+
+  async findMyRequests(userId: string): Promise<DataSubjectRequest[]> {
+    return this.requestsRepo.find({
+      where: { userId },
+      order: { createdAt: 'DESC' },
+    });
+  }
+
+  /**
+   * Отозвать запрос на удаление можно до его выполнения
+   */
+  async cancelErasure(
+    userId: string,
+    requestId: string,
+  ): Promise<DataSubjectRequest> {
+    const request = await this.requestsRepo.findOne({
+      where: { id: requestId, userId },
+    });
+    if (!request) {
+      throw new NotFoundException('Запрос не найден');
+    }
+    if (
+      request.type !== DataSubjectRequestType.ERASURE ||
+      !ACTIVE_ERASURE_STATUSES.includes(request.status)
+    ) {
+      throw new ConflictException('Запрос уже нельзя отозвать');
+    }
+
+    const before = request.status;
+    request.status = DataSubjectRequestStatus.CANCELLED;
+    const saved = await this.requestsRepo.save(request);
+    await this.recordErasureEvent(
+      AuditEvent.PRIVACY_ERASURE_CANCELLED,
+      saved,
+      userId,
+      before,
+    );
+    return saved;
+  }
+
+  /**
+   * Очередь запросов для администратора, новые сверху
+   */
+  async findForReview(
+    query: DataSubjectRequestsQueryDto,
+  ): Promise<DataSubjectRequest[]> {
+    return this.requestsRepo.find({
+      where: {
+        ...(query.status ? { status: query.status } : {}),
+        ...(query.type ? { type: query.type } : {}),
+      },
+      order: { createdAt: 'DESC' },
+      take: REVIEW_PAGE_SIZE,
+    });
+  }
+
+  /**
+   * Одобренный запрос выполняется по расписанию, когда закончится льготный период
+   */
+  async approve(
+    requestId: string,
+    reviewerId: string,
+  ): Promise<DataSubjectRequest> {
+    const request = await this.findPendingErasure(requestId);
+    request.status = DataSubjectRequestStatus.APPROVED;
+    request.reviewedBy = reviewerId;
+    request.reviewedAt = new Date();
+    const saved = await this.requestsRepo.save(request);
+
+    await this.recordErasureEvent(
+      AuditEvent.PRIVACY_ERASURE_APPROVED,
+      saved,
+      reviewerId,
+      DataSubjectRequestStatus.PENDING,
+    );
+    await this.notify(
+      saved,
+      'Запрос на удаление одобрен',
+      `Аккаунт и персональные данные будут удалены ${saved.scheduledFor!.toLocaleDateString('ru-RU')}. До этого запрос можно отозвать`,
+    );
+    return saved;
+  }
+
+  async reject(
+    requestId: string,
+    reviewerId: string,
+    comment: string,
+  ): Promise<DataSubjectRequest> {
+    const request = await this.findPendingErasure(requestId);
+    request.status = DataSubjectRequestStatus.REJECTED;
+    request.reviewedBy = reviewerId;
+    request.reviewedAt = new Date();
+    request.reviewComment = comment;
+    const saved = await this.requestsRepo.save(request);
+
+    await this.recordErasureEvent(
+      AuditEvent.PRIVACY_ERASURE_REJECTED,
+      saved,
+      reviewerId,
+      DataSubjectRequestStatus.PENDING,
+    );
+    await this.notify(saved, 'Запрос на удаление отклонён', comment);
+    return saved;
+  }
+
+  /**
+   * Удаление по одобренным запросам, у которых истёк льготный период
+   */
+  @Cron(CronExpression.EVERY_HOUR)
+  async processDueErasures() {
+    const due = await this.requestsRepo.find({
+      where: {
+        type: DataSubjectRequestType.ERASURE,
+        status: DataSubjectRequestStatus.APPROVED,
+        scheduledFor: LessThanOrEqual(new Date()),
+      },
+      order: { scheduledFor: 'ASC' },
+    });
+
+    for (const request of due) {
+      try {
+        await this.executeErasure(request.id);
+      } catch (error) {
+        this.logger.error(
+          `❌ Не удалось выполнить удаление по запросу ${request.id}: ${(error as Error).message}`,
+        );
+      }
+    }
+  }
+
+  // Приватные методы
+
+  private async executeErasure(requestId: string): Promise<void> {
+    const completed = await this.dataSource.transaction(async (manager) => {
+      // Блокировка строки: отзыв запроса и повторный запуск ждут завершения
+      const locked = await manager.findOne(DataSubjectRequest, {
+        where: { id: requestId, status: DataSubjectRequestStatus.APPROVED },
+        lock: { mode: 'pessimistic_write' },
+      });
+      if (!locked) {
+        return null;
+      }
+
+      await this.personalDataService.erase(manager, locked.userId);
+      locked.status = DataSubjectRequestStatus.COMPLETED;
+      locked.completedAt = new Date();
+      return manager.save(locked);
+    });
+    if (!completed) {
+      return;
+    }
+
+    await this.recordErasureEvent(
+      AuditEvent.PRIVACY_ERASURE_COMPLETED,
+      completed,
+      null,
+      DataSubjectRequestStatus.APPROVED,
+    );
+    this.logger.log(`✅ Удаление по запросу ${completed.id} выполнено`);
+  }
+
+  private async findPendingErasure(
+    requestId: string,
+  ): Promise<DataSubjectRequest> {
+    const request = await this.requestsRepo.findOne({
+      where: { id: requestId },
+    });
+    if (!request) {
+      throw new NotFoundException('Запрос не найден');
+    }
+    if (request.type !== DataSubjectRequestType.ERASURE) {
+      throw new BadRequestException(
+        'Рассматриваются только запросы на удаление',
+      );
+    }
+    if (request.status !== DataSubjectRequestStatus.PENDING) {
+      throw new ConflictException('Запрос уже рассмотрен или отозван');
+    }
+    return request;
+  }
+
+  private async recordErasureEvent(
+    event: AuditEvent,
+    request: DataSubjectRequest,
+    actorId: string | null,
+    before: DataSubjectRequestStatus | null,
+    context?: SessionContext,
+  ): Promise<void> {
+    await this.auditService.record(event, {
+      actorId,
+      targetType: 'user',
+      targetId: request.userId,
+      before: before ? { status: before } : null,
+      after: { status: request.status },
+      details: {
+        requestId: request.id,
+        scheduledFor: request.scheduledFor,
+        ...(request.reviewComment ? { comment: request.reviewComment } : {}),
+      },
+      context,
+    });
+  }
+
+  private async notify(
+    request: DataSubjectRequest,
+    title: string,
+    message: string,
+  ): Promise<void> {
+    try {
+      await this.notificationsService.createNotification(
+        request.userId,
+        NotificationType.SYSTEM,
+        title,
+        message,
+        { dataSubjectRequestId: request.id },
+      );
+    } catch (error) {
+      this.logger.warn(
+        `⚠️ Не удалось уведомить о решении по запросу ${request.id}: ${(error as Error).message}`,
+      );
+    }
+  }
+}
@@ -2,8 +2,8 @@ import { Controller, Get, Post, Body, UseGuards } from '@nestjs/common';
 import { ApiTags, ApiOperation, ApiResponse, ApiBearerAuth } from '@nestjs/swagger';
 import { RbacService } from './rbac.service';
 import { JwtAuthGuard } from '../auth/guards/jwt-auth.guard';
-import { PermissionsGuard } from '../auth/guards/permissions.guard';
 import { RequirePermissions } from '../auth/decorators/permissions.decorator';
+import { CurrentUser } from '../auth/decorators/current-user.decorator';
 import { CreatePermissionDto } from './dto/create-permission.dto';
 
 @ApiTags('permissions')
@@ -25,7 +25,10 @@ export class PermissionsController {
   @ApiOperation({ summary: 'Создание нового права' })
   @ApiResponse({ status: 201, description: 'Право создано' })
   @ApiResponse({ status: 400, description: 'Неверные данные' })
-  async createPermission(@Body() createPermissionDto: CreatePermissionDto) {
-    return this.rbacService.createPermission(createPermissionDto);
+  async createPermission(
+    @Body() createPermissionDto: CreatePermissionDto,
+    @CurrentUser() user: { userId: string },
+  ) {
+    return this.rbacService.createPermission(createPermissionDto, user.userId);
   }
 }
@@ -2,6 +2,7 @@ import { Module } from '@nestjs/common';
 import { TypeOrmModule } from '@nestjs/typeorm';
 import { RbacService } from './rbac.service';
 import { RoleHierarchyService } from './role-hierarchy.service';
+import { ScopedPermissionsService } from './scoped-permissions.service';
 import { RolesController } from './roles.controller';
 import { PermissionsController } from './permissions.controller';
 import { Role } from './entities/role.entity';
@@ -10,11 +11,12 @@ import { User } from '../users/entities/user.entity';
 import { UserRoleAssignment } from '../users/entities/user-role-assignment.entity';
 import { OrganizationMembership } from '../organizations/entities/organization-membership.entity';
 import { TeamMembership } from '../teams/entities/team-membership.entity';
+import { Team } from '../teams/entities/team.entity';
 
 @Module({
-  imports: [TypeOrmModule.forFeature([Role, Permission, User, UserRoleAssignment, OrganizationMembership, TeamMembership])],
+  imports: [TypeOrmModule.forFeature([Role, Permission, User, UserRoleAssignment, OrganizationMembership, TeamMembership, Team])],
   controllers: [RolesController, PermissionsController],
-  providers: [RbacService, RoleHierarchyService],
-  exports: [RbacService, RoleHierarchyService],
+  providers: [RbacService, RoleHierarchyService, ScopedPermissionsService],
+  exports: [RbacService, RoleHierarchyService, ScopedPermissionsService],
 })
 export class RbacModule {}
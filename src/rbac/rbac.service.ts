@@ -4,6 +4,10 @@ import { Repository, In } from 'typeorm';
 import { User } from '../users/entities/user.entity';
 import { Role } from './entities/role.entity';
 import { Permission } from './entities/permission.entity';
+import { WebhooksService } from '../webhooks/webhooks.service';
+import { WebhookEvent } from '../webhooks/enums/webhook-event.enum';
+import { AuditService } from '../audit/audit.service';
+import { AuditEvent } from '../audit/enums/audit-event.enum';
 
 @Injectable()
 export class RbacService {
@@ -11,6 +15,8 @@ export class RbacService {
     @InjectRepository(User) private usersRepo: Repository<User>,
     @InjectRepository(Role) private rolesRepo: Repository<Role>,
     @InjectRepository(Permission) private permissionsRepo: Repository<Permission>,
+    private webhooksService: WebhooksService,
+    private auditService: AuditService,
   ) {}
 
   /**
@@ -114,18 +120,43 @@ export class RbacService {
       .of(userId)
       .add(roleId);
 
+    await this.webhooksService.emitForUser(WebhookEvent.USER_ROLE_CHANGED, userId, {
+      roleId,
+      role: role.name,
+      grantedBy,
+    });
+    await this.auditService.record(AuditEvent.ROLE_ASSIGNED, {
+      actorId: grantedBy,
+      targetType: 'user',
+      targetId: userId,
+      organizationId: role.organizationId,
+      teamId: role.teamId,
+      after: { roleId, role: role.name, expiresAt: expiresAt ?? null },
+    });
+
     // TODO: Сохранить granted_by и expires_at в user_roles
   }
 
   /**
    * Удаление роли у пользователя
    */
-  async removeRoleFromUser(userId: string, roleId: string): Promise<void> {
+  async removeRoleFromUser(userId: string, roleId: string, revokedBy?: string): Promise<void> {
+    const role = await this.rolesRepo.findOne({ where: { id: roleId } });
+
     await this.usersRepo
       .createQueryBuilder()
       .relation(User, 'roles')
       .of(userId)
       .remove(roleId);
+
+    await this.auditService.record(AuditEvent.ROLE_REVOKED, {
+      actorId: revokedBy,
+      targetType: 'user',
+      targetId: userId,
+      organizationId: role?.organizationId,
+      teamId: role?.teamId,
+      before: { roleId, role: role?.name ?? null },
+    });
   }
 
   /**
@@ -163,6 +194,26 @@ export class RbacService {
     );
 
     console.log('🔍 Назначили новую роль:', newRoleId);
+
+    await this.webhooksService.emitForUser(WebhookEvent.USER_ROLE_CHANGED, userId, {
+      roleId: newRoleId,
+      grantedBy,
+    });
+
+    const newRole = await this.rolesRepo.findOne({ where: { id: newRoleId } });
+    await this.auditService.record(AuditEvent.ROLE_ASSIGNED, {
+      // 'system' - назначение без участия пользователя (например, после подтверждения email)
+      actorId: grantedBy === 'system' ? null : grantedBy,
+      targetType: 'user',
+      targetId: userId,
+      before: {
+        roles: (user.userRoleAssignments ?? [])
+          .map((assignment) => assignment.role?.name)
+          .filter(Boolean),
+      },
+      after: { roles: [newRole?.name ?? newRoleId] },
+      details: { grantedBy },
+    });
   }
 
   /**
@@ -174,6 +225,7 @@ export class RbacService {
     organizationId?: string,
     teamId?: string,
     permissionIds: string[] = [],
+    createdBy?: string,
   ): Promise<Role> {
     // Проверяем, что название содержит только латинские буквы, цифры и подчеркивания
     if (!/^[a-zA-Z0-9_]+$/.test(name)) {
@@ -208,6 +260,15 @@ export class RbacService {
         .add(permissionIds);
     }
 
+    await this.auditService.record(AuditEvent.ROLE_CREATED, {
+      actorId: createdBy,
+      targetType: 'role',
+      targetId: role.id,
+      organizationId,
+      teamId,
+      after: { name, description, permissionIds },
+    });
+
     return role;
   }
 
@@ -217,6 +278,7 @@ export class RbacService {
   async updateRolePermissions(
     roleId: string,
     permissionIds: string[],
+    updatedBy?: string,
   ): Promise<void> {
     const role = await this.rolesRepo.findOne({
       where: { id: roleId },
@@ -249,12 +311,22 @@ export class RbacService {
         .of(roleId)
         .add(permissionIds);
     }
+
+    await this.auditService.record(AuditEvent.ROLE_PERMISSIONS_CHANGED, {
+      actorId: updatedBy,
+      targetType: 'role',
+      targetId: roleId,
+      organizationId: role.organizationId,
+      teamId: role.teamId,
+      before: { permissionIds: [...currentPermissionIds].sort() },
+      after: { permissionIds: [...permissionIds].sort() },
+    });
   }
 
   /**
    * Удаление роли (только не системные)
    */
-  async deleteRole(roleId: string): Promise<void> {
+  async deleteRole(roleId: string, deletedBy?: string): Promise<void> {
     const role = await this.rolesRepo.findOne({ where: { id: roleId } });
 
     if (!role) {
@@ -266,6 +338,15 @@ export class RbacService {
     }
 
     await this.rolesRepo.delete(roleId);
+
+    await this.auditService.record(AuditEvent.ROLE_DELETED, {
+      actorId: deletedBy,
+      targetType: 'role',
+      targetId: roleId,
+      organizationId: role.organizationId,
+      teamId: role.teamId,
+      before: { name: role.name, description: role.description },
+    });
   }
 
   /**
@@ -419,7 +500,7 @@ export class RbacService {
   /**
    * Создание нового права
    */
-  async createPermission(createPermissionDto: any): Promise<Permission> {
+  async createPermission(createPermissionDto: any, createdBy?: string): Promise<Permission> {
     // Проверяем, не существует ли уже право с таким именем
     const existingPermission = await this.permissionsRepo.findOne({
       where: { name: createPermissionDto.name }
@@ -448,13 +529,24 @@ export class RbacService {
       action: createPermissionDto.action,
     });
 
-    return this.permissionsRepo.save(permission);
+    const saved = await this.permissionsRepo.save(permission);
+    await this.auditService.record(AuditEvent.PERMISSION_CREATED, {
+      actorId: createdBy,
+      targetType: 'permission',
+      targetId: saved.id,
+      after: {
+        name: saved.name,
+        resource: saved.resource,
+        action: saved.action,
+      },
+    });
+    return saved;
   }
 
   /**
    * Обновление роли
    */
-  async updateRole(roleId: string, updateRoleDto: any): Promise<Role> {
+  async updateRole(roleId: string, updateRoleDto: any, updatedBy?: string): Promise<Role> {
     const role = await this.rolesRepo.findOne({
       where: { id: roleId }
     });
@@ -466,6 +558,7 @@ export class RbacService {
     if (role.isSystem) {
       throw new ForbiddenException('Нельзя редактировать системные роли');
     }
+    const before = { name: role.name, description: role.description };
 
     // Обновляем только переданные поля
     if (updateRoleDto.name) {
@@ -491,6 +584,16 @@ export class RbacService {
       role.description = updateRoleDto.description;
     }
 
-    return this.rolesRepo.save(role);
+    const saved = await this.rolesRepo.save(role);
+    await this.auditService.record(AuditEvent.ROLE_UPDATED, {
+      actorId: updatedBy,
+      targetType: 'role',
+      targetId: roleId,
+      organizationId: role.organizationId,
+      teamId: role.teamId,
+      before,
+      after: { name: saved.name, description: saved.description },
+    });
+    return saved;
   }
 }
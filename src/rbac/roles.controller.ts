@@ -4,8 +4,8 @@ import { RbacService } from './rbac.service';
 import { RoleHierarchyService } from './role-hierarchy.service';
 import { Role } from './entities/role.entity';
 import { JwtAuthGuard } from '../auth/guards/jwt-auth.guard';
-import { PermissionsGuard } from '../auth/guards/permissions.guard';
 import { RequirePermissions } from '../auth/decorators/permissions.decorator';
+import { PermissionScope } from '../auth/decorators/permission-scope.decorator';
 import { RequireRoles } from '../auth/decorators/roles.decorator';
 import { CurrentUser } from '../auth/decorators/current-user.decorator';
 
@@ -60,6 +60,8 @@ export class RolesController {
   }
 
   @Post()
+  @RequirePermissions('roles.create')
+  @PermissionScope({ organization: 'body.organizationId', team: 'body.teamId' })
   @ApiOperation({ summary: 'Создание новой роли' })
   @ApiResponse({ status: 201, description: 'Роль создана' })
   async createRole(
@@ -84,10 +86,12 @@ export class RolesController {
       organizationId,
       teamId,
       createRoleDto.permissionIds,
+      user.userId,
     );
   }
 
   @Patch(':id')
+  @RequirePermissions('roles.update')
   @ApiOperation({ summary: 'Обновление роли' })
   @ApiResponse({ status: 200, description: 'Роль обновлена' })
   async updateRole(
@@ -96,26 +100,30 @@ export class RolesController {
       name?: string;
       description?: string;
     },
+    @CurrentUser() user: any,
   ) {
-    return this.rbacService.updateRole(id, updateRoleDto);
+    return this.rbacService.updateRole(id, updateRoleDto, user.userId);
   }
 
   @Patch(':id/permissions')
+  @RequirePermissions('roles.update')
   @ApiOperation({ summary: 'Обновление прав роли' })
   @ApiResponse({ status: 200, description: 'Права роли обновлены' })
   async updateRolePermissions(
     @Param('id') id: string,
     @Body() updatePermissionsDto: { permissionIds: string[] },
+    @CurrentUser() user: any,
   ) {
-    await this.rbacService.updateRolePermissions(id, updatePermissionsDto.permissionIds);
+    await this.rbacService.updateRolePermissions(id, updatePermissionsDto.permissionIds, user.userId);
     return { message: 'Role permissions updated successfully' };
   }
 
   @Delete(':id')
+  @RequirePermissions('roles.delete')
   @ApiOperation({ summary: 'Удаление роли' })
   @ApiResponse({ status: 200, description: 'Роль удалена' })
-  async deleteRole(@Param('id') id: string) {
-    await this.rbacService.deleteRole(id);
+  async deleteRole(@Param('id') id: string, @CurrentUser() user: any) {
+    await this.rbacService.deleteRole(id, user.userId);
     return { message: 'Role deleted successfully' };
   }
 
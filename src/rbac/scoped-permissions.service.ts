@@ -0,0 +1,255 @@
+import { Injectable } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { IsNull, MoreThan, Repository } from 'typeorm';
+import { UserRoleAssignment } from '../users/entities/user-role-assignment.entity';
+import { OrganizationMembership } from '../organizations/entities/organization-membership.entity';
+import { TeamMembership } from '../teams/entities/team-membership.entity';
+import { Team } from '../teams/entities/team.entity';
+import { Role } from './entities/role.entity';
+import { OrganizationRole } from '../organizations/entities/organization-role.entity';
+import { TeamRole } from '../teams/entities/team-role.entity';
+
+export interface PermissionScopeContext {
+  organizationId?: string | null;
+  teamId?: string | null;
+}
+
+interface ScopedAccess {
+  roles: Set<string>;
+  permissions: Set<string>;
+}
+
+/**
+ * Вычисление прав пользователя в контексте организации или команды.
+ * Глобальные роли действуют везде, роли организации - только в ней и её командах,
+ * роли команды - только в этой команде
+ */
+@Injectable()
+export class ScopedPermissionsService {
+  constructor(
+    @InjectRepository(UserRoleAssignment)
+    private userRoleAssignmentRepo: Repository<UserRoleAssignment>,
+    @InjectRepository(OrganizationMembership)
+    private organizationMembershipRepo: Repository<OrganizationMembership>,
+    @InjectRepository(TeamMembership)
+    private teamMembershipRepo: Repository<TeamMembership>,
+    @InjectRepository(Team)
+    private teamRepo: Repository<Team>,
+  ) {}
+
+  /**
+   * Эффективные права пользователя в указанном контексте
+   */
+  async getEffectivePermissions(
+    userId: string,
+    scope: PermissionScopeContext = {},
+  ): Promise<Set<string>> {
+    const { permissions } = await this.collectAccess(userId, scope);
+    return permissions;
+  }
+
+  /**
+   * Роли и права пользователя в указанном контексте (для выпуска токена)
+   */
+  async getEffectiveAccess(
+    userId: string,
+    scope: PermissionScopeContext = {},
+  ): Promise<{ roles: string[]; permissions: string[] }> {
+    const { roles, permissions } = await this.collectAccess(userId, scope);
+    return { roles: [...roles], permissions: [...permissions] };
+  }
+
+  /**
+   * Проверка, что пользователь состоит в организации/команде контекста.
+   * Возвращает контекст с организацией команды или null, если доступа нет
+   */
+  async resolveMemberScope(
+    userId: string,
+    scope: PermissionScopeContext,
+  ): Promise<PermissionScopeContext | null> {
+    let organizationId = scope.organizationId ?? null;
+    const teamId = scope.teamId ?? null;
+
+    if (teamId) {
+      const team = await this.teamRepo.findOne({
+        where: { id: teamId },
+        select: ['id', 'organizationId'],
+      });
+      if (!team || (organizationId && team.organizationId !== organizationId)) {
+        return null;
+      }
+
+      const isTeamMember =
+        (await this.teamMembershipRepo.exists({
+          where: { userId, teamId },
+        })) ||
+        (await this.userRoleAssignmentRepo.exists({
+          where: { userId, teamId },
+        }));
+      if (!isTeamMember) {
+        return null;
+      }
+      organizationId = team.organizationId;
+    }
+
+    if (organizationId && !teamId) {
+      const isOrganizationMember =
+        (await this.organizationMembershipRepo.exists({
+          where: { userId, organizationId },
+        })) ||
+        (await this.userRoleAssignmentRepo.exists({
+          where: { userId, organizationId },
+        }));
+      if (!isOrganizationMember) {
+        return null;
+      }
+    }
+
+    return { organizationId, teamId };
+  }
+
+  /**
+   * Проверка наличия права в контексте
+   */
+  async hasPermission(
+    userId: string,
+    permission: string,
+    scope: PermissionScopeContext = {},
+  ): Promise<boolean> {
+    const permissions = await this.getEffectivePermissions(userId, scope);
+    return this.isGranted(permissions, permission);
+  }
+
+  /**
+   * Право выдано напрямую или через <ресурс>.manage
+   */
+  isGranted(permissions: Set<string>, permission: string): boolean {
+    if (permissions.has(permission)) {
+      return true;
+    }
+    const [resource] = permission.split('.');
+    return permissions.has(`${resource}.manage`);
+  }
+
+  // Приватные методы
+
+  private async collectAccess(
+    userId: string,
+    scope: PermissionScopeContext,
+  ): Promise<ScopedAccess> {
+    const access: ScopedAccess = { roles: new Set(), permissions: new Set() };
+    const assignments = await this.userRoleAssignmentRepo.find({
+      where: [
+        { userId, expiresAt: IsNull() },
+        { userId, expiresAt: MoreThan(new Date()) },
+      ],
+      relations: ['role', 'role.permissions', 'organizationRole', 'teamRole'],
+    });
+
+    // Глобальные роли
+    for (const assignment of assignments) {
+      if (!assignment.organizationId && !assignment.teamId) {
+        this.addRole(access, assignment.role);
+      }
+    }
+
+    let organizationId = scope.organizationId ?? null;
+    if (scope.teamId) {
+      const team = await this.teamRepo.findOne({
+        where: { id: scope.teamId },
+        select: ['id', 'organizationId'],
+      });
+      // Команда из другой организации не получает права организации из маршрута
+      if (
+        team?.organizationId &&
+        (!organizationId || organizationId === team.organizationId)
+      ) {
+        organizationId = team.organizationId;
+      } else {
+        organizationId = null;
+      }
+
+      if (team) {
+        await this.collectTeamAccess(userId, team.id, assignments, access);
+      }
+    }
+
+    if (organizationId) {
+      await this.collectOrganizationAccess(
+        userId,
+        organizationId,
+        assignments,
+        access,
+      );
+    }
+
+    return access;
+  }
+
+  private async collectOrganizationAccess(
+    userId: string,
+    organizationId: string,
+    assignments: UserRoleAssignment[],
+    access: ScopedAccess,
+  ): Promise<void> {
+    const membership = await this.organizationMembershipRepo.findOne({
+      where: { userId, organizationId },
+      relations: ['role'],
+    });
+    this.addScopedRole(access, membership?.role);
+
+    for (const assignment of assignments) {
+      if (assignment.organizationId !== organizationId || assignment.teamId) {
+        continue;
+      }
+      this.addScopedRole(access, assignment.organizationRole);
+      this.addRole(access, assignment.role);
+    }
+  }
+
+  private async collectTeamAccess(
+    userId: string,
+    teamId: string,
+    assignments: UserRoleAssignment[],
+    access: ScopedAccess,
+  ): Promise<void> {
+    const membership = await this.teamMembershipRepo.findOne({
+      where: { userId, teamId },
+      relations: ['role'],
+    });
+    this.addScopedRole(access, membership?.role);
+
+    for (const assignment of assignments) {
+      if (assignment.teamId !== teamId) {
+        continue;
+      }
+      this.addScopedRole(access, assignment.teamRole);
+      this.addRole(access, assignment.role);
+    }
+  }
+
+  /**
+   * Глобальная роль: права в таблице permissions
+   */
+  private addRole(access: ScopedAccess, role?: Role | null): void {
+    if (!role) {
+      return;
+    }
+    access.roles.add(role.name);
+    role.permissions?.forEach((p) => access.permissions.add(p.name));
+  }
+
+  /**
+   * Роль организации или команды: права хранятся списком в самой роли
+   */
+  private addScopedRole(
+    access: ScopedAccess,
+    role?: OrganizationRole | TeamRole | null,
+  ): void {
+    if (!role) {
+      return;
+    }
+    access.roles.add(role.name);
+    role.permissions?.forEach((p) => access.permissions.add(p));
+  }
+}
@@ -0,0 +1,188 @@
+import { Controller, Get, Header, UseFilters, UseGuards } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { ApiBearerAuth, ApiOperation, ApiTags } from '@nestjs/swagger';
+import { Public } from '../../auth/decorators/public.decorator';
+import { ScimAuthGuard } from '../guards/scim-auth.guard';
+import { ScimExceptionFilter } from '../scim-errors';
+import {
+  SCIM_CONTENT_TYPE,
+  SCIM_GROUP_SCHEMA,
+  SCIM_LIST_RESPONSE_SCHEMA,
+  SCIM_USER_SCHEMA,
+} from '../interfaces/scim.interface';
+
+const SERVICE_PROVIDER_CONFIG_SCHEMA =
+  'urn:ietf:params:scim:schemas:core:2.0:ServiceProviderConfig';
+const RESOURCE_TYPE_SCHEMA =
+  'urn:ietf:params:scim:schemas:core:2.0:ResourceType';
+const SCHEMA_SCHEMA = 'urn:ietf:params:scim:schemas:core:2.0:Schema';
+
+const attribute = (
+  name: string,
+  extra: Record<string, unknown> = {},
+): Record<string, unknown> => ({
+  name,
+  type: 'string',
+  multiValued: false,
+  required: false,
+  caseExact: false,
+  mutability: 'readWrite',
+  returned: 'default',
+  uniqueness: 'none',
+  ...extra,
+});
+
+const multiValue = (name: string, extra: Record<string, unknown> = {}) =>
+  attribute(name, {
+    type: 'complex',
+    multiValued: true,
+    subAttributes: [
+      attribute('value'),
+      attribute('type'),
+      attribute('primary', { type: 'boolean' }),
+    ],
+    ...extra,
+  });
+
+// Поддерживаемые атрибуты (RFC 7643, раздел 7)
+const SCHEMAS = [
+  {
+    id: SCIM_USER_SCHEMA,
+    name: 'User',
+    description: 'Пользователь организации',
+    attributes: [
+      attribute('userName', { required: true, uniqueness: 'server' }),
+      attribute('name', {
+        type: 'complex',
+        subAttributes: [
+          attribute('givenName'),
+          attribute('familyName'),
+          attribute('formatted', { mutability: 'readOnly' }),
+        ],
+      }),
+      attribute('displayName', { mutability: 'readOnly' }),
+      multiValue('emails'),
+      multiValue('phoneNumbers'),
+      attribute('active', { type: 'boolean' }),
+    ],
+  },
+  {
+    id: SCIM_GROUP_SCHEMA,
+    name: 'Group',
+    description: 'Команда организации',
+    attributes: [
+      attribute('displayName', { required: true, uniqueness: 'server' }),
+      attribute('members', {
+        type: 'complex',
+        multiValued: true,
+        subAttributes: [
+          attribute('value', { mutability: 'immutable' }),
+          attribute('display', { mutability: 'readOnly' }),
+          attribute('$ref', { type: 'reference', mutability: 'readOnly' }),
+        ],
+      }),
+    ],
+  },
+];
+
+/**
+ * Описание возможностей SCIM-сервера для клиентов (RFC 7644, раздел 4)
+ */
+@ApiTags('scim')
+@Controller('scim/v2')
+@Public()
+@UseGuards(ScimAuthGuard)
+@UseFilters(ScimExceptionFilter)
+@ApiBearerAuth()
+export class ScimDiscoveryController {
+  constructor(private readonly configService: ConfigService) {}
+
+  @Get('ServiceProviderConfig')
+  @Header('Content-Type', SCIM_CONTENT_TYPE)
+  @ApiOperation({ summary: 'Поддерживаемые возможности SCIM' })
+  getServiceProviderConfig() {
+    return {
+      schemas: [SERVICE_PROVIDER_CONFIG_SCHEMA],
+      patch: { supported: true },
+      bulk: { supported: false, maxOperations: 0, maxPayloadSize: 0 },
+      filter: {
+        supported: true,
+        maxResults: this.configService.get<number>('scim.maxResults'),
+      },
+      changePassword: { supported: false },
+      sort: { supported: false },
+      etag: { supported: false },
+      authenticationSchemes: [
+        {
+          type: 'oauthbearertoken',
+          name: 'Bearer token',
+          description: 'Токен SCIM, выпущенный администратором организации',
+          primary: true,
+        },
+      ],
+      meta: {
+        resourceType: 'ServiceProviderConfig',
+        location: `${this.baseUrl()}/ServiceProviderConfig`,
+      },
+    };
+  }
+
+  @Get('Schemas')
+  @Header('Content-Type', SCIM_CONTENT_TYPE)
+  @ApiOperation({ summary: 'Схемы User и Group' })
+  getSchemas() {
+    const resources = SCHEMAS.map((schema) => ({
+      schemas: [SCHEMA_SCHEMA],
+      ...schema,
+      meta: {
+        resourceType: 'Schema',
+        location: `${this.baseUrl()}/Schemas/${schema.id}`,
+      },
+    }));
+    return {
+      schemas: [SCIM_LIST_RESPONSE_SCHEMA],
+      totalResults: resources.length,
+      startIndex: 1,
+      itemsPerPage: resources.length,
+      Resources: resources,
+    };
+  }
+
+  @Get('ResourceTypes')
+  @Header('Content-Type', SCIM_CONTENT_TYPE)
+  @ApiOperation({ summary: 'Типы ресурсов: User и Group' })
+  getResourceTypes() {
+    const resources = [
+      {
+        id: 'User',
+        name: 'User',
+        endpoint: '/Users',
+        schema: SCIM_USER_SCHEMA,
+      },
+      {
+        id: 'Group',
+        name: 'Group',
+        endpoint: '/Groups',
+        schema: SCIM_GROUP_SCHEMA,
+      },
+    ].map((type) => ({
+      schemas: [RESOURCE_TYPE_SCHEMA],
+      ...type,
+      meta: {
+        resourceType: 'ResourceType',
+        location: `${this.baseUrl()}/ResourceTypes/${type.id}`,
+      },
+    }));
+    return {
+      schemas: [SCIM_LIST_RESPONSE_SCHEMA],
+      totalResults: resources.length,
+      startIndex: 1,
+      itemsPerPage: resources.length,
+      Resources: resources,
+    };
+  }
+
+  private baseUrl(): string {
+    return this.configService.get<string>('scim.baseUrl')!;
+  }
+}
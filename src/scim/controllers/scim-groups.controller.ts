@@ -0,0 +1,117 @@
+import {
+  Body,
+  Controller,
+  Delete,
+  Get,
+  Header,
+  HttpCode,
+  Param,
+  Patch,
+  Post,
+  Put,
+  Query,
+  UseFilters,
+  UseGuards,
+} from '@nestjs/common';
+import {
+  ApiBearerAuth,
+  ApiOperation,
+  ApiResponse,
+  ApiTags,
+} from '@nestjs/swagger';
+import { Public } from '../../auth/decorators/public.decorator';
+import { ScimAuthGuard, ScimOrganization } from '../guards/scim-auth.guard';
+import { ScimExceptionFilter } from '../scim-errors';
+import { ScimGroupsService } from '../services/scim-groups.service';
+import { SCIM_CONTENT_TYPE } from '../interfaces/scim.interface';
+import type {
+  ScimGroup,
+  ScimListQuery,
+  ScimPatchRequest,
+} from '../interfaces/scim.interface';
+
+@ApiTags('scim')
+@Controller('scim/v2/Groups')
+@Public()
+@UseGuards(ScimAuthGuard)
+@UseFilters(ScimExceptionFilter)
+@ApiBearerAuth()
+export class ScimGroupsController {
+  constructor(private readonly scimGroupsService: ScimGroupsService) {}
+
+  @Get()
+  @Header('Content-Type', SCIM_CONTENT_TYPE)
+  @ApiOperation({
+    summary:
+      'Группы (команды) организации; excludedAttributes=members без состава',
+  })
+  @ApiResponse({ status: 200, description: 'ListResponse' })
+  async list(
+    @ScimOrganization() organizationId: string,
+    @Query() query: ScimListQuery,
+  ) {
+    return this.scimGroupsService.list(organizationId, query);
+  }
+
+  @Get(':groupId')
+  @Header('Content-Type', SCIM_CONTENT_TYPE)
+  @ApiOperation({ summary: 'Группа с участниками' })
+  @ApiResponse({ status: 404, description: 'Группа не найдена' })
+  async get(
+    @ScimOrganization() organizationId: string,
+    @Param('groupId') groupId: string,
+  ) {
+    return this.scimGroupsService.get(organizationId, groupId);
+  }
+
+  @Post()
+  @Header('Content-Type', SCIM_CONTENT_TYPE)
+  @ApiOperation({ summary: 'Создать команду с участниками' })
+  @ApiResponse({ status: 201, description: 'Группа создана' })
+  @ApiResponse({
+    status: 409,
+    description: 'Группа с таким displayName уже есть',
+  })
+  async create(
+    @ScimOrganization() organizationId: string,
+    @Body() body: ScimGroup,
+  ) {
+    return this.scimGroupsService.create(organizationId, body);
+  }
+
+  @Put(':groupId')
+  @Header('Content-Type', SCIM_CONTENT_TYPE)
+  @ApiOperation({ summary: 'Заменить название и состав группы' })
+  @ApiResponse({
+    status: 400,
+    description: 'Участник не состоит в организации',
+  })
+  async replace(
+    @ScimOrganization() organizationId: string,
+    @Param('groupId') groupId: string,
+    @Body() body: ScimGroup,
+  ) {
+    return this.scimGroupsService.replace(organizationId, groupId, body);
+  }
+
+  @Patch(':groupId')
+  @Header('Content-Type', SCIM_CONTENT_TYPE)
+  @ApiOperation({ summary: 'PatchOp: изменение displayName и участников' })
+  async patch(
+    @ScimOrganization() organizationId: string,
+    @Param('groupId') groupId: string,
+    @Body() body: ScimPatchRequest,
+  ) {
+    return this.scimGroupsService.patch(organizationId, groupId, body);
+  }
+
+  @Delete(':groupId')
+  @HttpCode(204)
+  @ApiOperation({ summary: 'Удалить команду' })
+  async remove(
+    @ScimOrganization() organizationId: string,
+    @Param('groupId') groupId: string,
+  ) {
+    await this.scimGroupsService.remove(organizationId, groupId);
+  }
+}
@@ -0,0 +1,62 @@
+import {
+  Body,
+  Controller,
+  Delete,
+  Get,
+  Param,
+  ParseUUIDPipe,
+  Post,
+  UseGuards,
+} from '@nestjs/common';
+import {
+  ApiTags,
+  ApiOperation,
+  ApiResponse,
+  ApiBearerAuth,
+} from '@nestjs/swagger';
+import { ScimTokensService } from '../services/scim-tokens.service';
+import { CreateScimTokenDto } from '../dto/scim-token.dto';
+import { JwtAuthGuard } from '../../auth/guards/jwt-auth.guard';
+import { CurrentUser } from '../../auth/decorators/current-user.decorator';
+import { RequirePermissions } from '../../auth/decorators/permissions.decorator';
+import { PermissionScope } from '../../auth/decorators/permission-scope.decorator';
+
+@ApiTags('scim')
+@Controller('organizations/:id/scim-tokens')
+@UseGuards(JwtAuthGuard)
+@ApiBearerAuth()
+@RequirePermissions('organizations.update')
+@PermissionScope({ organization: 'params.id' })
+export class ScimTokensController {
+  constructor(private readonly scimTokensService: ScimTokensService) {}
+
+  @Get()
+  @ApiOperation({ summary: 'Токены SCIM организации' })
+  @ApiResponse({ status: 200, description: 'Список токенов без значений' })
+  async findAll(@Param('id', ParseUUIDPipe) organizationId: string) {
+    return this.scimTokensService.findAll(organizationId);
+  }
+
+  @Post()
+  @ApiOperation({ summary: 'Выпустить токен (значение показывается один раз)' })
+  @ApiResponse({ status: 201, description: 'Токен выпущен' })
+  async create(
+    @Param('id', ParseUUIDPipe) organizationId: string,
+    @Body() dto: CreateScimTokenDto,
+    @CurrentUser() user: { userId: string },
+  ) {
+    return this.scimTokensService.create(organizationId, dto, user.userId);
+  }
+
+  @Delete(':tokenId')
+  @ApiOperation({ summary: 'Отозвать токен' })
+  @ApiResponse({ status: 200, description: 'Токен отозван' })
+  @ApiResponse({ status: 404, description: 'Токен не найден' })
+  async revoke(
+    @Param('id', ParseUUIDPipe) organizationId: string,
+    @Param('tokenId', ParseUUIDPipe) tokenId: string,
+  ) {
+    await this.scimTokensService.revoke(organizationId, tokenId);
+    return { message: 'Токен SCIM отозван' };
+  }
+}
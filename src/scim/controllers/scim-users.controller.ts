@@ -0,0 +1,117 @@
+import {
+  Body,
+  Controller,
+  Delete,
+  Get,
+  Header,
+  HttpCode,
+  Param,
+  Patch,
+  Post,
+  Put,
+  Query,
+  UseFilters,
+  UseGuards,
+} from '@nestjs/common';
+import {
+  ApiBearerAuth,
+  ApiOperation,
+  ApiResponse,
+  ApiTags,
+} from '@nestjs/swagger';
+import { Public } from '../../auth/decorators/public.decorator';
+import { ScimAuthGuard, ScimOrganization } from '../guards/scim-auth.guard';
+import { ScimExceptionFilter } from '../scim-errors';
+import { ScimUsersService } from '../services/scim-users.service';
+import { SCIM_CONTENT_TYPE } from '../interfaces/scim.interface';
+import type {
+  ScimListQuery,
+  ScimPatchRequest,
+  ScimUser,
+} from '../interfaces/scim.interface';
+
+@ApiTags('scim')
+@Controller('scim/v2/Users')
+@Public()
+@UseGuards(ScimAuthGuard)
+@UseFilters(ScimExceptionFilter)
+@ApiBearerAuth()
+export class ScimUsersController {
+  constructor(private readonly scimUsersService: ScimUsersService) {}
+
+  @Get()
+  @Header('Content-Type', SCIM_CONTENT_TYPE)
+  @ApiOperation({
+    summary: 'Пользователи организации (filter, startIndex, count)',
+  })
+  @ApiResponse({ status: 200, description: 'ListResponse' })
+  async list(
+    @ScimOrganization() organizationId: string,
+    @Query() query: ScimListQuery,
+  ) {
+    return this.scimUsersService.list(organizationId, query);
+  }
+
+  @Get(':userId')
+  @Header('Content-Type', SCIM_CONTENT_TYPE)
+  @ApiOperation({ summary: 'Пользователь по id' })
+  @ApiResponse({ status: 404, description: 'Пользователь не найден' })
+  async get(
+    @ScimOrganization() organizationId: string,
+    @Param('userId') userId: string,
+  ) {
+    return this.scimUsersService.get(organizationId, userId);
+  }
+
+  @Post()
+  @Header('Content-Type', SCIM_CONTENT_TYPE)
+  @ApiOperation({ summary: 'Создать пользователя и добавить в организацию' })
+  @ApiResponse({ status: 201, description: 'Пользователь создан' })
+  @ApiResponse({ status: 409, description: 'Email уже занят' })
+  async create(
+    @ScimOrganization() organizationId: string,
+    @Body() body: ScimUser,
+  ) {
+    return this.scimUsersService.create(organizationId, body);
+  }
+
+  @Put(':userId')
+  @Header('Content-Type', SCIM_CONTENT_TYPE)
+  @ApiOperation({ summary: 'Заменить атрибуты пользователя' })
+  @ApiResponse({
+    status: 403,
+    description: 'Аккаунтом управляет не эта организация',
+  })
+  async replace(
+    @ScimOrganization() organizationId: string,
+    @Param('userId') userId: string,
+    @Body() body: ScimUser,
+  ) {
+    return this.scimUsersService.replace(organizationId, userId, body);
+  }
+
+  @Patch(':userId')
+  @Header('Content-Type', SCIM_CONTENT_TYPE)
+  @ApiOperation({
+    summary: 'PatchOp: add/replace/remove, active=false деактивирует',
+  })
+  async patch(
+    @ScimOrganization() organizationId: string,
+    @Param('userId') userId: string,
+    @Body() body: ScimPatchRequest,
+  ) {
+    return this.scimUsersService.patch(organizationId, userId, body);
+  }
+
+  @Delete(':userId')
+  @HttpCode(204)
+  @ApiOperation({
+    summary: 'Удалить из организации (управляемый аккаунт деактивируется)',
+  })
+  async remove(
+    @ScimOrganization() organizationId: string,
+    @Param('userId') userId: string,
+  ) {
+    await this.scimUsersService.remove(organizationId, userId);
+  }
+}
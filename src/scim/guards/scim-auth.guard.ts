@@ -0,0 +1,45 @@
+import {
+  CanActivate,
+  createParamDecorator,
+  ExecutionContext,
+  HttpStatus,
+  Injectable,
+} from '@nestjs/common';
+import type { Request } from 'express';
+import { ScimTokensService } from '../services/scim-tokens.service';
+import { ScimException } from '../scim-errors';
+
+interface ScimRequest extends Request {
+  scimOrganizationId?: string;
+}
+
+/**
+ * Аутентификация SCIM-клиента по bearer-токену организации (вместо JWT пользователя)
+ */
+@Injectable()
+export class ScimAuthGuard implements CanActivate {
+  constructor(private scimTokensService: ScimTokensService) {}
+
+  async canActivate(context: ExecutionContext): Promise<boolean> {
+    const request = context.switchToHttp().getRequest<ScimRequest>();
+    const [scheme, token] = (request.headers.authorization ?? '').split(' ');
+    if (scheme?.toLowerCase() !== 'bearer' || !token) {
+      throw new ScimException(
+        HttpStatus.UNAUTHORIZED,
+        'Требуется bearer-токен SCIM',
+      );
+    }
+
+    const record = await this.scimTokensService.authenticate(token);
+    request.scimOrganizationId = record.organizationId;
+    return true;
+  }
+}
+
+/**
+ * Организация SCIM-токена текущего запроса
+ */
+export const ScimOrganization = createParamDecorator(
+  (_data: unknown, ctx: ExecutionContext): string =>
+    ctx.switchToHttp().getRequest<ScimRequest>().scimOrganizationId!,
+);
@@ -0,0 +1,75 @@
+export const SCIM_USER_SCHEMA = 'urn:ietf:params:scim:schemas:core:2.0:User';
+export const SCIM_GROUP_SCHEMA = 'urn:ietf:params:scim:schemas:core:2.0:Group';
+export const SCIM_LIST_RESPONSE_SCHEMA =
+  'urn:ietf:params:scim:api:messages:2.0:ListResponse';
+export const SCIM_PATCH_OP_SCHEMA =
+  'urn:ietf:params:scim:api:messages:2.0:PatchOp';
+export const SCIM_ERROR_SCHEMA = 'urn:ietf:params:scim:api:messages:2.0:Error';
+export const SCIM_CONTENT_TYPE = 'application/scim+json; charset=utf-8';
+
+export interface ScimMeta {
+  resourceType: 'User' | 'Group';
+  created?: string;
+  lastModified?: string;
+  location: string;
+}
+
+export interface ScimMultiValue {
+  value: string;
+  display?: string;
+  type?: string;
+  primary?: boolean;
+  $ref?: string;
+}
+
+export interface ScimUser {
+  schemas?: string[];
+  id?: string;
+  externalId?: string | null;
+  userName?: string;
+  name?: {
+    formatted?: string;
+    givenName?: string;
+    familyName?: string;
+  };
+  displayName?: string;
+  emails?: ScimMultiValue[];
+  phoneNumbers?: ScimMultiValue[];
+  active?: boolean;
+  meta?: ScimMeta;
+}
+
+export interface ScimGroup {
+  schemas?: string[];
+  id?: string;
+  externalId?: string | null;
+  displayName?: string;
+  members?: ScimMultiValue[];
+  meta?: ScimMeta;
+}
+
+export interface ScimPatchOperation {
+  op: string; // add | replace | remove, Azure AD присылает с заглавной буквы
+  path?: string;
+  value?: unknown;
+}
+
+export interface ScimPatchRequest {
+  schemas?: string[];
+  Operations?: ScimPatchOperation[];
+}
+
+export interface ScimListQuery {
+  filter?: string;
+  startIndex?: string;
+  count?: string;
+  excludedAttributes?: string;
+}
+
+export interface ScimListResponse<T> {
+  schemas: string[];
+  totalResults: number;
+  startIndex: number;
+  itemsPerPage: number;
+  Resources: T[];
+}
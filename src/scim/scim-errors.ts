@@ -0,0 +1,78 @@
+import {
+  ArgumentsHost,
+  Catch,
+  ExceptionFilter,
+  HttpException,
+  HttpStatus,
+  Logger,
+} from '@nestjs/common';
+import type { Response } from 'express';
+import {
+  SCIM_CONTENT_TYPE,
+  SCIM_ERROR_SCHEMA,
+} from './interfaces/scim.interface';
+
+/**
+ * Ошибка SCIM (RFC 7644, 3.12) с необязательным scimType: invalidFilter, uniqueness, ...
+ */
+export class ScimException extends HttpException {
+  constructor(status: HttpStatus, detail: string, scimType?: string) {
+    super({ detail, scimType }, status);
+  }
+}
+
+/**
+ * Любая ошибка SCIM-контроллеров отдаётся в формате urn:ietf:params:scim:api:messages:2.0:Error
+ */
+@Catch()
+export class ScimExceptionFilter implements ExceptionFilter {
+  private readonly logger = new Logger(ScimExceptionFilter.name);
+
+  catch(exception: unknown, host: ArgumentsHost) {
+    const res = host.switchToHttp().getResponse<Response>();
+
+    let status = HttpStatus.INTERNAL_SERVER_ERROR;
+    let detail = 'Внутренняя ошибка сервера';
+    let scimType: string | undefined;
+
+    if (exception instanceof HttpException) {
+      status = exception.getStatus();
+      const body = exception.getResponse();
+      if (typeof body === 'string') {
+        detail = body;
+      } else {
+        const {
+          detail: scimDetail,
+          message,
+          scimType: type,
+        } = body as {
+          detail?: string;
+          message?: string | string[];
+          scimType?: string;
+        };
+        detail =
+          scimDetail ??
+          (Array.isArray(message) ? message.join('; ') : message) ??
+          exception.message;
+        scimType = type;
+      }
+    } else {
+      this.logger.error(
+        `❌ Ошибка SCIM: ${(exception as Error)?.message}`,
+        (exception as Error)?.stack,
+      );
+    }
+
+    res
+      .status(status)
+      .type(SCIM_CONTENT_TYPE)
+      .send(
+        JSON.stringify({
+          schemas: [SCIM_ERROR_SCHEMA],
+          status: String(status),
+          ...(scimType ? { scimType } : {}),
+          detail,
+        }),
+      );
+  }
+}
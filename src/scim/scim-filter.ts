@@ -0,0 +1,361 @@
+import { HttpStatus } from '@nestjs/common';
+import { ScimException } from './scim-errors';
+
+export type ScimComparisonOperator =
+  | 'eq'
+  | 'ne'
+  | 'co'
+  | 'sw'
+  | 'ew'
+  | 'gt'
+  | 'ge'
+  | 'lt'
+  | 'le';
+
+export type ScimFilterValue = string | number | boolean | null;
+
+/**
+ * Разобранный фильтр SCIM (RFC 7644, 3.4.2.2)
+ */
+export type ScimFilter =
+  | {
+      type: 'compare';
+      attribute: string;
+      operator: ScimComparisonOperator;
+      value: ScimFilterValue;
+    }
+  | { type: 'present'; attribute: string }
+  | {
+      type: 'logical';
+      operator: 'and' | 'or';
+      left: ScimFilter;
+      right: ScimFilter;
+    }
+  | { type: 'not'; filter: ScimFilter }
+  | { type: 'valuePath'; attribute: string; filter: ScimFilter };
+
+/**
+ * Атрибут ресурса, по которому разрешено фильтровать
+ */
+export interface ScimAttributeMapping {
+  column: string; // SQL-выражение
+  type: 'string' | 'boolean' | 'datetime' | 'uuid';
+  caseExact?: boolean;
+}
+
+export interface ScimSqlCondition {
+  sql: string;
+  params: Record<string, unknown>;
+}
+
+type Token =
+  | { kind: 'word'; value: string }
+  | { kind: 'string'; value: string }
+  | { kind: '(' | ')' | '[' | ']' };
+
+const COMPARISON_OPERATORS = new Set<string>([
+  'eq',
+  'ne',
+  'co',
+  'sw',
+  'ew',
+  'gt',
+  'ge',
+  'lt',
+  'le',
+]);
+export const UUID_PATTERN =
+  /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+const MAX_FILTER_LENGTH = 2000;
+
+export function parseScimFilter(input: string): ScimFilter {
+  if (input.length > MAX_FILTER_LENGTH) {
+    throw invalidFilter('Слишком длинный фильтр');
+  }
+  const tokens = tokenize(input);
+  let position = 0;
+
+  const peekWord = (...words: string[]) => {
+    const token = tokens[position];
+    return token?.kind === 'word' && words.includes(token.value.toLowerCase());
+  };
+  const expect = (kind: '(' | ')' | '[' | ']') => {
+    if (tokens[position]?.kind !== kind) {
+      throw invalidFilter(`Ожидается "${kind}"`);
+    }
+    position++;
+  };
+
+  const parseOr = (): ScimFilter => {
+    let left = parseAnd();
+    while (peekWord('or')) {
+      position++;
+      left = { type: 'logical', operator: 'or', left, right: parseAnd() };
+    }
+    return left;
+  };
+
+  const parseAnd = (): ScimFilter => {
+    let left = parseUnary();
+    while (peekWord('and')) {
+      position++;
+      left = { type: 'logical', operator: 'and', left, right: parseUnary() };
+    }
+    return left;
+  };
+
+  const parseUnary = (): ScimFilter => {
+    if (peekWord('not') && tokens[position + 1]?.kind === '(') {
+      position += 2;
+      const filter = parseOr();
+      expect(')');
+      return { type: 'not', filter };
+    }
+    if (tokens[position]?.kind === '(') {
+      position++;
+      const filter = parseOr();
+      expect(')');
+      return filter;
+    }
+
+    const attribute = tokens[position];
+    if (attribute?.kind !== 'word') {
+      throw invalidFilter('Ожидается имя атрибута');
+    }
+    position++;
+
+    if (tokens[position]?.kind === '[') {
+      position++;
+      const filter = parseOr();
+      expect(']');
+      return { type: 'valuePath', attribute: attribute.value, filter };
+    }
+
+    const operator = tokens[position];
+    if (operator?.kind !== 'word') {
+      throw invalidFilter(`Ожидается оператор после ${attribute.value}`);
+    }
+    position++;
+    const name = operator.value.toLowerCase();
+    if (name === 'pr') {
+      return { type: 'present', attribute: attribute.value };
+    }
+    if (!COMPARISON_OPERATORS.has(name)) {
+      throw invalidFilter(`Неизвестный оператор ${operator.value}`);
+    }
+
+    return {
+      type: 'compare',
+      attribute: attribute.value,
+      operator: name as ScimComparisonOperator,
+      value: parseValue(tokens[position++]),
+    };
+  };
+
+  const filter = parseOr();
+  if (position !== tokens.length) {
+    throw invalidFilter('Лишние символы в конце фильтра');
+  }
+  return filter;
+}
+
+/**
+ * Условие WHERE для QueryBuilder. Атрибуты, которых нет в mapping, отклоняются (invalidFilter)
+ */
+export function scimFilterToSql(
+  filter: ScimFilter,
+  attributes: Record<string, ScimAttributeMapping>,
+  schema: string,
+): ScimSqlCondition {
+  const params: Record<string, unknown> = {};
+  const prefix = `${schema.toLowerCase()}:`;
+
+  const resolve = (attribute: string): ScimAttributeMapping => {
+    let name = attribute.toLowerCase();
+    if (name.startsWith(prefix)) {
+      name = name.slice(prefix.length);
+    }
+    const mapping = attributes[name] ?? attributes[`${name}.value`];
+    if (!mapping) {
+      throw invalidFilter(`Фильтр по атрибуту ${attribute} не поддерживается`);
+    }
+    return mapping;
+  };
+
+  const param = (value: unknown) => {
+    const name = `scim_filter_${Object.keys(params).length}`;
+    params[name] = value;
+    return `:${name}`;
+  };
+
+  const build = (node: ScimFilter, parent?: string): string => {
+    switch (node.type) {
+      case 'logical':
+        return `(${build(node.left, parent)} ${node.operator.toUpperCase()} ${build(node.right, parent)})`;
+      case 'not':
+        return `NOT (${build(node.filter, parent)})`;
+      case 'valuePath':
+        return build(node.filter, node.attribute);
+      case 'present': {
+        const { column, type } = resolve(qualify(node.attribute, parent));
+        return type === 'string'
+          ? `(${column} IS NOT NULL AND ${column} <> '')`
+          : `${column} IS NOT NULL`;
+      }
+      case 'compare':
+        return compare(
+          resolve(qualify(node.attribute, parent)),
+          node.operator,
+          node.value,
+        );
+    }
+  };
+
+  const compare = (
+    { column, type, caseExact }: ScimAttributeMapping,
+    operator: ScimComparisonOperator,
+    value: ScimFilterValue,
+  ): string => {
+    if (value === null) {
+      if (operator === 'eq') return `${column} IS NULL`;
+      if (operator === 'ne') return `${column} IS NOT NULL`;
+      throw invalidFilter(`Оператор ${operator} не применим к null`);
+    }
+
+    if (type === 'boolean') {
+      if (typeof value !== 'boolean' || !['eq', 'ne'].includes(operator)) {
+        throw invalidFilter(
+          'Логический атрибут сравнивается только eq/ne с true/false',
+        );
+      }
+      return `${column} ${operator === 'eq' ? '=' : '<>'} ${param(value)}`;
+    }
+
+    if (type === 'datetime') {
+      const date = new Date(String(value));
+      if (
+        Number.isNaN(date.getTime()) ||
+        ['co', 'sw', 'ew'].includes(operator)
+      ) {
+        throw invalidFilter('Дата сравнивается операторами eq/ne/gt/ge/lt/le');
+      }
+      return `${column} ${SQL_OPERATORS[operator]} ${param(date)}`;
+    }
+
+    const text = String(value);
+    if (type === 'uuid') {
+      if (operator !== 'eq' && operator !== 'ne') {
+        throw invalidFilter('Идентификатор сравнивается только eq/ne');
+      }
+      if (!UUID_PATTERN.test(text)) {
+        return operator === 'eq' ? 'FALSE' : 'TRUE';
+      }
+      return `${column} ${SQL_OPERATORS[operator]} ${param(text)}`;
+    }
+
+    if (operator === 'co' || operator === 'sw' || operator === 'ew') {
+      const escaped = text.replace(/[\\%_]/g, (char) => `\\${char}`);
+      const pattern =
+        operator === 'co'
+          ? `%${escaped}%`
+          : operator === 'sw'
+            ? `${escaped}%`
+            : `%${escaped}`;
+      return `${column} ${caseExact ? 'LIKE' : 'ILIKE'} ${param(pattern)}`;
+    }
+
+    const left = caseExact ? column : `LOWER(${column})`;
+    const right = caseExact ? param(text) : `LOWER(${param(text)})`;
+    const condition = `${left} ${SQL_OPERATORS[operator]} ${right}`;
+    return operator === 'ne'
+      ? `(${column} IS NULL OR ${condition})`
+      : condition;
+  };
+
+  return { sql: build(filter), params };
+}
+
+const SQL_OPERATORS: Record<ScimComparisonOperator, string> = {
+  eq: '=',
+  ne: '<>',
+  co: 'ILIKE',
+  sw: 'ILIKE',
+  ew: 'ILIKE',
+  gt: '>',
+  ge: '>=',
+  lt: '<',
+  le: '<=',
+};
+
+function qualify(attribute: string, parent?: string): string {
+  return parent ? `${parent}.${attribute}` : attribute;
+}
+
+function parseValue(token: Token | undefined): ScimFilterValue {
+  if (!token) {
+    throw invalidFilter('Ожидается значение');
+  }
+  if (token.kind === 'string') {
+    return token.value;
+  }
+  if (token.kind !== 'word') {
+    throw invalidFilter(`Неожиданный символ "${token.kind}"`);
+  }
+
+  const word = token.value.toLowerCase();
+  if (word === 'true' || word === 'false') {
+    return word === 'true';
+  }
+  if (word === 'null') {
+    return null;
+  }
+  if (/^-?\d+(\.\d+)?$/.test(token.value)) {
+    return Number(token.value);
+  }
+  throw invalidFilter(`Значение ${token.value} должно быть в кавычках`);
+}
+
+function tokenize(input: string): Token[] {
+  const tokens: Token[] = [];
+  let i = 0;
+
+  while (i < input.length) {
+    const char = input[i];
+    if (/\s/.test(char)) {
+      i++;
+    } else if (char === '(' || char === ')' || char === '[' || char === ']') {
+      tokens.push({ kind: char });
+      i++;
+    } else if (char === '"') {
+      let end = i + 1;
+      while (end < input.length && input[end] !== '"') {
+        end += input[end] === '\\' ? 2 : 1;
+      }
+      if (end >= input.length) {
+        throw invalidFilter('Незакрытая строка');
+      }
+      try {
+        tokens.push({
+          kind: 'string',
+          value: JSON.parse(input.slice(i, end + 1)) as string,
+        });
+      } catch {
+        throw invalidFilter('Некорректная строка');
+      }
+      i = end + 1;
+    } else {
+      let end = i;
+      while (end < input.length && !/[\s()[\]"]/.test(input[end])) {
+        end++;
+      }
+      tokens.push({ kind: 'word', value: input.slice(i, end) });
+      i = end;
+    }
+  }
+
+  return tokens;
+}
+
+function invalidFilter(detail: string): ScimException {
+  return new ScimException(HttpStatus.BAD_REQUEST, detail, 'invalidFilter');
+}
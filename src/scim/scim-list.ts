@@ -0,0 +1,53 @@
+import {
+  SCIM_LIST_RESPONSE_SCHEMA,
+  ScimListQuery,
+  ScimListResponse,
+} from './interfaces/scim.interface';
+
+export interface ScimPage {
+  startIndex: number; // с единицы, как в RFC 7644
+  count: number;
+}
+
+/**
+ * startIndex/count из запроса; некорректные значения заменяются допустимыми, как требует RFC
+ */
+export function parseScimPage(
+  query: ScimListQuery,
+  maxResults: number,
+): ScimPage {
+  const startIndex = parseInt(query.startIndex ?? '', 10);
+  const count = parseInt(query.count ?? '', 10);
+  return {
+    startIndex: Number.isFinite(startIndex) && startIndex > 0 ? startIndex : 1,
+    count: Number.isFinite(count)
+      ? Math.min(Math.max(count, 0), maxResults)
+      : maxResults,
+  };
+}
+
+export function toScimListResponse<T>(
+  resources: T[],
+  totalResults: number,
+  page: ScimPage,
+): ScimListResponse<T> {
+  return {
+    schemas: [SCIM_LIST_RESPONSE_SCHEMA],
+    totalResults,
+    startIndex: page.startIndex,
+    itemsPerPage: resources.length,
+    Resources: resources,
+  };
+}
+
+/**
+ * excludedAttributes=members - Azure AD так запрашивает группы без состава
+ */
+export function isScimAttributeExcluded(
+  query: ScimListQuery,
+  attribute: string,
+): boolean {
+  return (query.excludedAttributes ?? '')
+    .split(',')
+    .some((name) => name.trim().toLowerCase() === attribute.toLowerCase());
+}
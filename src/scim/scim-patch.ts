@@ -0,0 +1,289 @@
+import { HttpStatus } from '@nestjs/common';
+import { ScimException } from './scim-errors';
+import { parseScimFilter, ScimFilter } from './scim-filter';
+import {
+  SCIM_PATCH_OP_SCHEMA,
+  ScimPatchRequest,
+} from './interfaces/scim.interface';
+
+type ScimResource = Record<string, unknown>;
+
+interface ScimPatchPath {
+  attribute: string;
+  filter?: ScimFilter;
+  subAttribute?: string;
+}
+
+/**
+ * Применить PATCH (RFC 7644, 3.5.2) к SCIM-представлению ресурса.
+ * Результат сохраняется так же, как PUT, поэтому проверки значений остаются в одном месте
+ */
+export function applyScimPatch(
+  resource: ScimResource,
+  request: ScimPatchRequest,
+  schema: string,
+): ScimResource {
+  if (request.schemas && !request.schemas.includes(SCIM_PATCH_OP_SCHEMA)) {
+    throw invalidSyntax(`Ожидается схема ${SCIM_PATCH_OP_SCHEMA}`);
+  }
+  if (!Array.isArray(request.Operations) || request.Operations.length === 0) {
+    throw invalidSyntax('Не переданы операции Operations');
+  }
+
+  const result = structuredClone(resource);
+  for (const operation of request.Operations) {
+    const op = String(operation?.op ?? '').toLowerCase();
+    if (op !== 'add' && op !== 'replace' && op !== 'remove') {
+      throw invalidSyntax(`Неизвестная операция ${operation?.op}`);
+    }
+
+    if (!operation.path) {
+      if (op === 'remove') {
+        throw new ScimException(
+          HttpStatus.BAD_REQUEST,
+          'Для remove обязателен path',
+          'noTarget',
+        );
+      }
+      if (!isObject(operation.value)) {
+        throw invalidValue('Без path значение должно быть объектом');
+      }
+      for (const [key, value] of Object.entries(operation.value)) {
+        applyOperation(result, op, parsePath(key, schema), value);
+      }
+      continue;
+    }
+
+    applyOperation(
+      result,
+      op,
+      parsePath(operation.path, schema),
+      operation.value,
+    );
+  }
+  return result;
+}
+
+/**
+ * Проверка элемента многозначного атрибута фильтром из пути (emails[type eq "work"])
+ */
+export function matchesScimFilter(filter: ScimFilter, item: unknown): boolean {
+  switch (filter.type) {
+    case 'logical':
+      return filter.operator === 'and'
+        ? matchesScimFilter(filter.left, item) &&
+            matchesScimFilter(filter.right, item)
+        : matchesScimFilter(filter.left, item) ||
+            matchesScimFilter(filter.right, item);
+    case 'not':
+      return !matchesScimFilter(filter.filter, item);
+    case 'valuePath':
+      return false;
+    case 'present': {
+      const value = readAttribute(item, filter.attribute);
+      return value !== undefined && value !== null && value !== '';
+    }
+    case 'compare': {
+      const actual = readAttribute(item, filter.attribute);
+      if (filter.value === null || actual === undefined || actual === null) {
+        const isNull = actual === undefined || actual === null;
+        return filter.operator === 'ne'
+          ? !isNull
+          : isNull && filter.value === null;
+      }
+      if (typeof filter.value === 'boolean' || typeof actual === 'boolean') {
+        const equal = actual === filter.value;
+        return filter.operator === 'ne'
+          ? !equal
+          : filter.operator === 'eq' && equal;
+      }
+
+      if (typeof actual === 'object') {
+        return false;
+      }
+      const left = String(actual as string | number).toLowerCase();
+      const right = String(filter.value).toLowerCase();
+      switch (filter.operator) {
+        case 'eq':
+          return left === right;
+        case 'ne':
+          return left !== right;
+        case 'co':
+          return left.includes(right);
+        case 'sw':
+          return left.startsWith(right);
+        case 'ew':
+          return left.endsWith(right);
+        case 'gt':
+          return left > right;
+        case 'ge':
+          return left >= right;
+        case 'lt':
+          return left < right;
+        case 'le':
+          return left <= right;
+      }
+    }
+  }
+}
+
+function applyOperation(
+  resource: ScimResource,
+  op: 'add' | 'replace' | 'remove',
+  path: ScimPatchPath,
+  value: unknown,
+): void {
+  // name.givenName без фильтра - вложенный объект
+  if (!path.filter && path.subAttribute) {
+    const parent = (resource[findKey(resource, path.attribute)] ??= {});
+    if (!isObject(parent)) {
+      throw invalidPath(path.attribute);
+    }
+    setOrRemove(parent, op, path.subAttribute, value);
+    return;
+  }
+
+  const key = findKey(resource, path.attribute);
+  if (!path.filter) {
+    const current = resource[key];
+    if (op === 'add' && Array.isArray(current)) {
+      resource[key] = mergeValues(current, toArray(value));
+    } else if (
+      op === 'remove' &&
+      Array.isArray(current) &&
+      value !== undefined
+    ) {
+      // Azure AD удаляет участников так: path "members", value [{ value }]
+      const removed = new Set(
+        toArray(value).map((item) => readAttribute(item, 'value')),
+      );
+      resource[key] = current.filter(
+        (item) => !removed.has(readAttribute(item, 'value')),
+      );
+    } else if (op !== 'remove' && isObject(current) && isObject(value)) {
+      Object.assign(current, value);
+    } else {
+      setOrRemove(resource, op, key, value);
+    }
+    return;
+  }
+
+  // members[value eq "..."] и emails[type eq "work"].value
+  const items = resource[key];
+  if (!Array.isArray(items)) {
+    if (op === 'remove') return;
+    throw new ScimException(
+      HttpStatus.BAD_REQUEST,
+      `Атрибут ${path.attribute} не многозначный`,
+      'noTarget',
+    );
+  }
+  const filter = path.filter;
+  const matched = items.filter((item) => matchesScimFilter(filter, item));
+
+  if (op === 'remove' && !path.subAttribute) {
+    resource[key] = items.filter((item) => !matched.includes(item));
+    return;
+  }
+  if (matched.length === 0) {
+    if (op === 'remove') return;
+    throw new ScimException(
+      HttpStatus.BAD_REQUEST,
+      `Нет элементов ${path.attribute}, подходящих под фильтр`,
+      'noTarget',
+    );
+  }
+  for (const item of matched) {
+    if (path.subAttribute) {
+      setOrRemove(
+        item as ScimResource,
+        op,
+        findKey(item as ScimResource, path.subAttribute),
+        value,
+      );
+    } else if (isObject(value)) {
+      Object.assign(item as ScimResource, value);
+    } else {
+      throw invalidValue(`Значение для ${path.attribute} должно быть объектом`);
+    }
+  }
+}
+
+function setOrRemove(
+  target: ScimResource,
+  op: 'add' | 'replace' | 'remove',
+  key: string,
+  value: unknown,
+): void {
+  const existing = findKey(target, key);
+  if (op === 'remove') {
+    delete target[existing];
+  } else {
+    target[existing] = value;
+  }
+}
+
+function parsePath(raw: string, schema: string): ScimPatchPath {
+  let path = raw.trim();
+  const prefix = `${schema.toLowerCase()}:`;
+  if (path.toLowerCase().startsWith(prefix)) {
+    path = path.slice(prefix.length);
+  }
+
+  const match = /^([A-Za-z][\w$-]*)(?:\[(.+)\])?(?:\.([A-Za-z][\w$-]*))?$/.exec(
+    path,
+  );
+  if (!match) {
+    throw invalidPath(raw);
+  }
+  return {
+    attribute: match[1],
+    filter: match[2] ? parseScimFilter(match[2]) : undefined,
+    subAttribute: match[3],
+  };
+}
+
+// Имена атрибутов SCIM регистронезависимы
+function findKey(target: ScimResource, name: string): string {
+  const lower = name.toLowerCase();
+  return Object.keys(target).find((key) => key.toLowerCase() === lower) ?? name;
+}
+
+function readAttribute(item: unknown, attribute: string): unknown {
+  if (!isObject(item)) {
+    return attribute.toLowerCase() === 'value' ? item : undefined;
+  }
+  return item[findKey(item, attribute)];
+}
+
+function mergeValues(current: unknown[], added: unknown[]): unknown[] {
+  const seen = new Set(current.map((item) => readAttribute(item, 'value')));
+  return [
+    ...current,
+    ...added.filter((item) => !seen.has(readAttribute(item, 'value'))),
+  ];
+}
+
+function toArray(value: unknown): unknown[] {
+  return Array.isArray(value) ? value : [value];
+}
+
+function isObject(value: unknown): value is ScimResource {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function invalidSyntax(detail: string): ScimException {
+  return new ScimException(HttpStatus.BAD_REQUEST, detail, 'invalidSyntax');
+}
+
+function invalidValue(detail: string): ScimException {
+  return new ScimException(HttpStatus.BAD_REQUEST, detail, 'invalidValue');
+}
+
+function invalidPath(path: string): ScimException {
+  return new ScimException(
+    HttpStatus.BAD_REQUEST,
+    `Некорректный path: ${path}`,
+    'invalidPath',
+  );
+}
@@ -0,0 +1,51 @@
+import { Module } from '@nestjs/common';
+import { TypeOrmModule } from '@nestjs/typeorm';
+import { ScimToken } from './entities/scim-token.entity';
+import { User } from '../users/entities/user.entity';
+import { OrganizationMembership } from '../organizations/entities/organization-membership.entity';
+import { OrganizationRole } from '../organizations/entities/organization-role.entity';
+import { Team } from '../teams/entities/team.entity';
+import { TeamRole } from '../teams/entities/team-role.entity';
+import { TeamMembership } from '../teams/entities/team-membership.entity';
+import { RefreshToken } from '../auth/entities/refresh-token.entity';
+import { TeamsModule } from '../teams/teams.module';
+import { ScimTokensService } from './services/scim-tokens.service';
+import { ScimUsersService } from './services/scim-users.service';
+import { ScimGroupsService } from './services/scim-groups.service';
+import { ScimAuthGuard } from './guards/scim-auth.guard';
+import { ScimUsersController } from './controllers/scim-users.controller';
+import { ScimGroupsController } from './controllers/scim-groups.controller';
+import { ScimDiscoveryController } from './controllers/scim-discovery.controller';
+import { ScimTokensController } from './controllers/scim-tokens.controller';
+
+/**
+ * SCIM 2.0 для провижининга пользователей и команд из корпоративных каталогов
+ */
+@Module({
+  imports: [
+    TypeOrmModule.forFeature([
+      ScimToken,
+      User,
+      OrganizationMembership,
+      OrganizationRole,
+      Team,
+      TeamRole,
+      TeamMembership,
+      RefreshToken,
+    ]),
+    TeamsModule,
+  ],
+  controllers: [
+    ScimUsersController,
+    ScimGroupsController,
+    ScimDiscoveryController,
+    ScimTokensController,
+  ],
+  providers: [
+    ScimTokensService,
+    ScimUsersService,
+    ScimGroupsService,
+    ScimAuthGuard,
+  ],
+})
+export class ScimModule {}
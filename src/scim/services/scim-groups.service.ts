@@ -0,0 +1,386 @@
+import { HttpStatus, Injectable, Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { InjectRepository } from '@nestjs/typeorm';
+import { DataSource, In, Repository } from 'typeorm';
+import { Team } from '../../teams/entities/team.entity';
+import { TeamRole } from '../../teams/entities/team-role.entity';
+import { TeamMembership } from '../../teams/entities/team-membership.entity';
+import { OrganizationMembership } from '../../organizations/entities/organization-membership.entity';
+import { TeamsService } from '../../teams/teams.service';
+import { WebhooksService } from '../../webhooks/webhooks.service';
+import { WebhookEvent } from '../../webhooks/enums/webhook-event.enum';
+import { ScimException } from '../scim-errors';
+import {
+  parseScimFilter,
+  ScimAttributeMapping,
+  scimFilterToSql,
+  UUID_PATTERN,
+} from '../scim-filter';
+import { applyScimPatch } from '../scim-patch';
+import {
+  isScimAttributeExcluded,
+  parseScimPage,
+  toScimListResponse,
+} from '../scim-list';
+import {
+  SCIM_GROUP_SCHEMA,
+  ScimGroup,
+  ScimListQuery,
+  ScimListResponse,
+  ScimPatchRequest,
+} from '../interfaces/scim.interface';
+
+// Атрибуты Group, доступные в filter (ключи в нижнем регистре)
+const GROUP_ATTRIBUTES: Record<string, ScimAttributeMapping> = {
+  id: { column: 'team.id', type: 'uuid' },
+  displayname: { column: 'team.name', type: 'string' },
+  externalid: {
+    column: 'team.scimExternalId',
+    type: 'string',
+    caseExact: true,
+  },
+  'meta.created': { column: 'team.createdAt', type: 'datetime' },
+  'meta.lastmodified': { column: 'team.updatedAt', type: 'datetime' },
+};
+
+/**
+ * SCIM Groups: группа каталога = команда организации токена, участники = TeamMembership
+ */
+@Injectable()
+export class ScimGroupsService {
+  private readonly logger = new Logger(ScimGroupsService.name);
+
+  constructor(
+    @InjectRepository(Team)
+    private teamRepo: Repository<Team>,
+    @InjectRepository(TeamRole)
+    private teamRoleRepo: Repository<TeamRole>,
+    @InjectRepository(TeamMembership)
+    private teamMembershipRepo: Repository<TeamMembership>,
+    @InjectRepository(OrganizationMembership)
+    private orgMembershipRepo: Repository<OrganizationMembership>,
+    private dataSource: DataSource,
+    private configService: ConfigService,
+    private teamsService: TeamsService,
+    private webhooksService: WebhooksService,
+  ) {}
+
+  async list(
+    organizationId: string,
+    query: ScimListQuery,
+  ): Promise<ScimListResponse<ScimGroup>> {
+    const page = parseScimPage(
+      query,
+      this.configService.get<number>('scim.maxResults')!,
+    );
+    const qb = this.teamRepo
+      .createQueryBuilder('team')
+      .where('team.organizationId = :organizationId', { organizationId });
+
+    if (query.filter) {
+      const { sql, params } = scimFilterToSql(
+        parseScimFilter(query.filter),
+        GROUP_ATTRIBUTES,
+        SCIM_GROUP_SCHEMA,
+      );
+      qb.andWhere(sql, params);
+    }
+
+    if (page.count === 0) {
+      return toScimListResponse([], await qb.getCount(), page);
+    }
+
+    const [teams, total] = await qb
+      .orderBy('team.createdAt', 'ASC')
+      .addOrderBy('team.id', 'ASC')
+      .skip(page.startIndex - 1)
+      .take(page.count)
+      .getManyAndCount();
+
+    const withMembers = !isScimAttributeExcluded(query, 'members');
+    const groups = await Promise.all(
+      teams.map((team) => this.toScimGroup(team, withMembers)),
+    );
+    return toScimListResponse(groups, total, page);
+  }
+
+  async get(organizationId: string, groupId: string): Promise<ScimGroup> {
+    return this.toScimGroup(await this.findTeam(organizationId, groupId), true);
+  }
+
+  async create(organizationId: string, body: ScimGroup): Promise<ScimGroup> {
+    const name = this.readDisplayName(body);
+    await this.assertNameIsFree(organizationId, name);
+    const memberIds = await this.readMemberIds(organizationId, body);
+
+    const team = await this.teamRepo.save(
+      this.teamRepo.create({
+        organizationId,
+        name,
+        scimExternalId: body.externalId ?? null,
+      }),
+    );
+    await this.teamsService.createSystemRoles(team.id);
+    await this.syncMembers(team, memberIds);
+
+    this.logger.log(
+      `✅ SCIM: группа ${name} создана в организации ${organizationId}`,
+    );
+    return this.get(organizationId, team.id);
+  }
+
+  async replace(
+    organizationId: string,
+    groupId: string,
+    body: ScimGroup,
+  ): Promise<ScimGroup> {
+    const team = await this.findTeam(organizationId, groupId);
+    await this.save(team, body);
+    return this.get(organizationId, groupId);
+  }
+
+  async patch(
+    organizationId: string,
+    groupId: string,
+    request: ScimPatchRequest,
+  ): Promise<ScimGroup> {
+    const team = await this.findTeam(organizationId, groupId);
+    const patched = applyScimPatch(
+      (await this.toScimGroup(team, true)) as Record<string, unknown>,
+      request,
+      SCIM_GROUP_SCHEMA,
+    ) as ScimGroup;
+    await this.save(team, patched);
+    return this.get(organizationId, groupId);
+  }
+
+  async remove(organizationId: string, groupId: string): Promise<void> {
+    const team = await this.findTeam(organizationId, groupId);
+
+    await this.dataSource.transaction(async (manager) => {
+      await manager.delete(TeamMembership, { teamId: team.id });
+      await manager.delete(TeamRole, { teamId: team.id });
+      await manager.query('DELETE FROM user_teams WHERE team_id = $1', [
+        team.id,
+      ]);
+      await manager.delete(Team, team.id);
+    });
+    this.logger.log(
+      `🗑️ SCIM: группа ${team.name} удалена из организации ${organizationId}`,
+    );
+  }
+
+  private async save(team: Team, body: ScimGroup): Promise<void> {
+    const name = this.readDisplayName(body);
+    if (name !== team.name) {
+      await this.assertNameIsFree(team.organizationId!, name);
+    }
+    const memberIds = await this.readMemberIds(team.organizationId!, body);
+
+    await this.teamRepo.update(team.id, {
+      name,
+      scimExternalId: body.externalId ?? null,
+    });
+    await this.syncMembers(team, memberIds);
+  }
+
+  /**
+   * Привести состав команды к списку из каталога (в обеих системах: team_memberships и user_teams)
+   */
+  private async syncMembers(team: Team, memberIds: string[]): Promise<void> {
+    const current = (
+      await this.teamMembershipRepo.find({
+        where: { teamId: team.id },
+        select: ['userId'],
+      })
+    ).map((membership) => membership.userId);
+
+    const added = memberIds.filter((id) => !current.includes(id));
+    const removed = current.filter((id) => !memberIds.includes(id));
+    if (added.length === 0 && removed.length === 0) {
+      return;
+    }
+
+    const roleName = this.configService.get<string>('scim.teamRole')!;
+    const role = added.length
+      ? await this.teamRoleRepo.findOne({
+          where: { name: roleName, teamId: team.id },
+        })
+      : null;
+    if (added.length && !role) {
+      throw new ScimException(
+        HttpStatus.INTERNAL_SERVER_ERROR,
+        `Роль ${roleName} не найдена в команде`,
+      );
+    }
+
+    await this.dataSource.transaction(async (manager) => {
+      if (added.length) {
+        await manager.save(
+          added.map((userId) =>
+            manager.create(TeamMembership, {
+              userId,
+              teamId: team.id,
+              roleId: role!.id,
+            }),
+          ),
+        );
+        await manager
+          .createQueryBuilder()
+          .insert()
+          .into('user_teams')
+          .values(
+            added.map((userId) => ({ user_id: userId, team_id: team.id })),
+          )
+          .orIgnore()
+          .execute();
+      }
+      if (removed.length) {
+        await manager.delete(TeamMembership, {
+          teamId: team.id,
+          userId: In(removed),
+        });
+        await manager.query(
+          'DELETE FROM user_teams WHERE team_id = $1 AND user_id = ANY($2)',
+          [team.id, removed],
+        );
+      }
+    });
+
+    for (const userId of added) {
+      await this.webhooksService.emitForUser(
+        WebhookEvent.TEAM_MEMBER_ADDED,
+        userId,
+        {
+          organizationId: team.organizationId,
+          teamId: team.id,
+          role: roleName,
+          source: 'scim',
+        },
+        [team.organizationId],
+      );
+    }
+    for (const userId of removed) {
+      await this.webhooksService.emitForUser(
+        WebhookEvent.TEAM_MEMBER_REMOVED,
+        userId,
+        {
+          organizationId: team.organizationId,
+          teamId: team.id,
+          source: 'scim',
+        },
+        [team.organizationId],
+      );
+    }
+  }
+
+  private async toScimGroup(
+    team: Team,
+    withMembers: boolean,
+  ): Promise<ScimGroup> {
+    const baseUrl = this.configService.get<string>('scim.baseUrl');
+    const group: ScimGroup = {
+      schemas: [SCIM_GROUP_SCHEMA],
+      id: team.id,
+      externalId: team.scimExternalId ?? undefined,
+      displayName: team.name,
+      meta: {
+        resourceType: 'Group',
+        created: team.createdAt?.toISOString(),
+        lastModified: team.updatedAt?.toISOString(),
+        location: `${baseUrl}/Groups/${team.id}`,
+      },
+    };
+
+    if (withMembers) {
+      const memberships = await this.teamMembershipRepo.find({
+        where: { teamId: team.id },
+        relations: ['user'],
+      });
+      group.members = memberships.map(({ user }) => ({
+        value: user.id,
+        display: user.email ?? undefined,
+        $ref: `${baseUrl}/Users/${user.id}`,
+      }));
+    }
+    return group;
+  }
+
+  private readDisplayName(body: ScimGroup): string {
+    const name =
+      typeof body.displayName === 'string' ? body.displayName.trim() : '';
+    if (!name || name.length > 255) {
+      throw new ScimException(
+        HttpStatus.BAD_REQUEST,
+        'displayName обязателен (до 255 символов)',
+        'invalidValue',
+      );
+    }
+    return name;
+  }
+
+  /**
+   * Участниками могут быть только пользователи организации токена
+   */
+  private async readMemberIds(
+    organizationId: string,
+    body: ScimGroup,
+  ): Promise<string[]> {
+    const ids = [
+      ...new Set(
+        (body.members ?? []).map((member) => String(member?.value ?? '')),
+      ),
+    ];
+    if (ids.length === 0) {
+      return [];
+    }
+
+    const invalid = ids.filter((id) => !UUID_PATTERN.test(id));
+    const found = invalid.length
+      ? []
+      : await this.orgMembershipRepo.find({
+          where: { organizationId, userId: In(ids) },
+          select: ['userId'],
+        });
+    if (invalid.length || found.length !== ids.length) {
+      throw new ScimException(
+        HttpStatus.BAD_REQUEST,
+        'Участники группы должны быть пользователями организации',
+        'invalidValue',
+      );
+    }
+    return ids;
+  }
+
+  private async assertNameIsFree(
+    organizationId: string,
+    name: string,
+  ): Promise<void> {
+    const existing = await this.teamRepo.findOne({
+      where: { organizationId, name },
+    });
+    if (existing) {
+      throw new ScimException(
+        HttpStatus.CONFLICT,
+        `Группа ${name} уже существует`,
+        'uniqueness',
+      );
+    }
+  }
+
+  private async findTeam(
+    organizationId: string,
+    groupId: string,
+  ): Promise<Team> {
+    const team = UUID_PATTERN.test(groupId)
+      ? await this.teamRepo.findOne({ where: { id: groupId, organizationId } })
+      : null;
+    if (!team) {
+      throw new ScimException(
+        HttpStatus.NOT_FOUND,
+        `Группа ${groupId} не найдена`,
+      );
+    }
+    return team;
+  }
+}
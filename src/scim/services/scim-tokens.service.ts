@@ -0,0 +1,88 @@
+import { HttpStatus, Injectable, NotFoundException } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { IsNull, Repository } from 'typeorm';
+import { createHash, randomBytes } from 'crypto';
+import { ScimToken } from '../entities/scim-token.entity';
+import { CreateScimTokenDto } from '../dto/scim-token.dto';
+import { ScimException } from '../scim-errors';
+
+const TOKEN_PREFIX = 'scim_';
+
+/**
+ * Токены SCIM-клиентов организации: выпуск, отзыв и проверка bearer-токена
+ */
+@Injectable()
+export class ScimTokensService {
+  constructor(
+    @InjectRepository(ScimToken)
+    private tokensRepo: Repository<ScimToken>,
+  ) {}
+
+  async findAll(organizationId: string): Promise<ScimToken[]> {
+    return this.tokensRepo.find({
+      where: { organizationId },
+      order: { createdAt: 'DESC' },
+    });
+  }
+
+  /**
+   * Новый токен. Значение возвращается один раз, в БД остаётся только хеш
+   */
+  async create(
+    organizationId: string,
+    dto: CreateScimTokenDto,
+    createdBy: string,
+  ): Promise<ScimToken & { token: string }> {
+    const token = `${TOKEN_PREFIX}${randomBytes(32).toString('base64url')}`;
+    const saved = await this.tokensRepo.save(
+      this.tokensRepo.create({
+        organizationId,
+        name: dto.name,
+        tokenHash: this.hash(token),
+        tokenPrefix: token.slice(0, 12),
+        createdBy,
+        expiresAt: dto.expiresInDays
+          ? new Date(Date.now() + dto.expiresInDays * 86_400_000)
+          : null,
+      }),
+    );
+    // Перечитываем без tokenHash (select: false)
+    const record = await this.tokensRepo.findOneByOrFail({ id: saved.id });
+    return { ...record, token };
+  }
+
+  async revoke(organizationId: string, tokenId: string): Promise<void> {
+    const result = await this.tokensRepo.update(
+      { id: tokenId, organizationId, revokedAt: IsNull() },
+      { revokedAt: new Date() },
+    );
+    if (!result.affected) {
+      throw new NotFoundException('Токен не найден');
+    }
+  }
+
+  /**
+   * Организация, от имени которой действует bearer-токен
+   */
+  async authenticate(token: string): Promise<ScimToken> {
+    const record = token.startsWith(TOKEN_PREFIX)
+      ? await this.tokensRepo.findOne({
+          where: { tokenHash: this.hash(token), revokedAt: IsNull() },
+        })
+      : null;
+
+    if (!record || (record.expiresAt && record.expiresAt < new Date())) {
+      throw new ScimException(
+        HttpStatus.UNAUTHORIZED,
+        'Невалидный или отозванный токен SCIM',
+      );
+    }
+
+    await this.tokensRepo.update(record.id, { lastUsedAt: new Date() });
+    return record;
+  }
+
+  private hash(token: string): string {
+    return createHash('sha256').update(token).digest('hex');
+  }
+}
@@ -0,0 +1,216 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { getRepositoryToken } from '@nestjs/typeorm';
+import { ConfigService } from '@nestjs/config';
+import { HttpStatus } from '@nestjs/common';
+import { DataSource } from 'typeorm';
+import { ScimUsersService } from './scim-users.service';
+import { ScimException } from '../scim-errors';
+import { User } from '../../users/entities/user.entity';
+import { OrganizationMembership } from '../../organizations/entities/organization-membership.entity';
+import { OrganizationRole } from '../../organizations/entities/organization-role.entity';
+import { RefreshToken } from '../../auth/entities/refresh-token.entity';
+import { WebhooksService } from '../../webhooks/webhooks.service';
+import { SCIM_USER_SCHEMA } from '../interfaces/scim.interface';
+
+const ORGANIZATION_ID = '11111111-1111-4111-8111-111111111111';
+const USER_ID = '22222222-2222-4222-8222-222222222222';
+
+describe('ScimUsersService', () => {
+  let service: ScimUsersService;
+
+  const findExisting = jest.fn();
+
+  const mockUsersRepository = {
+    createQueryBuilder: jest.fn(() => ({
+      where: jest.fn().mockReturnThis(),
+      getOne: findExisting,
+    })),
+  };
+
+  const mockOrgMembershipRepository = {
+    exists: jest.fn(),
+    findOne: jest.fn(),
+  };
+
+  const mockOrgRoleRepository = {
+    findOne: jest.fn(),
+  };
+
+  const mockManager = {
+    create: jest.fn((_entity: unknown, value: object) => ({ ...value })),
+    save: jest.fn((value: object) =>
+      Promise.resolve({ id: USER_ID, ...value }),
+    ),
+  };
+
+  const mockDataSource = {
+    transaction: jest.fn(
+      (callback: (manager: typeof mockManager) => Promise<unknown>) =>
+        callback(mockManager),
+    ),
+  };
+
+  const mockWebhooksService = {
+    emitForUser: jest.fn(),
+  };
+
+  const body = {
+    schemas: [SCIM_USER_SCHEMA],
+    userName: 'Ivan@Corp.ru',
+    name: { givenName: 'Иван', familyName: 'Петров' },
+  };
+
+  const expectConflict = async () => {
+    const error = await service
+      .create(ORGANIZATION_ID, body)
+      .catch((caught: unknown) => caught);
+
+    expect(error).toBeInstanceOf(ScimException);
+    expect((error as ScimException).getStatus()).toBe(HttpStatus.CONFLICT);
+    expect(mockDataSource.transaction).not.toHaveBeenCalled();
+  };
+
+  beforeEach(async () => {
+    jest.clearAllMocks();
+    mockOrgMembershipRepository.exists.mockResolvedValue(false);
+    mockOrgRoleRepository.findOne.mockResolvedValue({
+      id: 'role-1',
+      name: 'member',
+    });
+    mockOrgMembershipRepository.findOne.mockResolvedValue({
+      organizationId: ORGANIZATION_ID,
+      userId: USER_ID,
+      scimExternalId: null,
+      user: { id: USER_ID, email: 'ivan@corp.ru', isActive: true },
+    });
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        ScimUsersService,
+        {
+          provide: getRepositoryToken(User),
+          useValue: mockUsersRepository,
+        },
+        {
+          provide: getRepositoryToken(OrganizationMembership),
+          useValue: mockOrgMembershipRepository,
+        },
+        {
+          provide: getRepositoryToken(OrganizationRole),
+          useValue: mockOrgRoleRepository,
+        },
+        {
+          provide: getRepositoryToken(RefreshToken),
+          useValue: {},
+        },
+        {
+          provide: DataSource,
+          useValue: mockDataSource,
+        },
+        {
+          provide: ConfigService,
+          useValue: { get: jest.fn(() => 'member') },
+        },
+        {
+          provide: WebhooksService,
+          useValue: mockWebhooksService,
+        },
+      ],
+    }).compile();
+
+    service = module.get<ScimUsersService>(ScimUsersService);
+  });
+
+  describe('create', () => {
+    it('should create a new account managed by the organization', async () => {
+      findExisting.mockResolvedValue(null);
+
+      await service.create(ORGANIZATION_ID, body);
+
+      expect(mockManager.save).toHaveBeenCalledWith(
+        expect.objectContaining({
+          email: 'ivan@corp.ru',
+          scimOrganizationId: ORGANIZATION_ID,
+        }),
+      );
+    });
+
+    it('should reject an existing account that no organization manages', async () => {
+      findExisting.mockResolvedValue({
+        id: USER_ID,
+        email: 'ivan@corp.ru',
+        scimOrganizationId: null,
+      });
+
+      await expectConflict();
+    });
+
+    it('should reject an account managed by another organization', async () => {
+      findExisting.mockResolvedValue({
+        id: USER_ID,
+        email: 'ivan@corp.ru',
+        scimOrganizationId: '33333333-3333-4333-8333-333333333333',
+      });
+
+      await expectConflict();
+    });
+
+    it('should reject an account that is already in the directory', async () => {
+      findExisting.mockResolvedValue({
+        id: USER_ID,
+        email: 'ivan@corp.ru',
+        scimOrganizationId: ORGANIZATION_ID,
+      });
+      mockOrgMembershipRepository.exists.mockResolvedValue(true);
+
+      await expectConflict();
+    });
+
+    it('should bring back an account the directory removed earlier', async () => {
+      findExisting.mockResolvedValue({
+        id: USER_ID,
+        email: 'ivan@corp.ru',
+        scimOrganizationId: ORGANIZATION_ID,
+        isActive: false,
+      });
+
+      await service.create(ORGANIZATION_ID, body);
+
+      expect(mockManager.save).toHaveBeenCalledWith(
+        expect.objectContaining({ id: USER_ID, isActive: true }),
+      );
+      expect(mockWebhooksService.emitForUser).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe('replace', () => {
+    it('should reject an email taken by another account in a different case', async () => {
+      findExisting.mockResolvedValue({
+        id: '33333333-3333-4333-8333-333333333333',
+        email: 'Anna@Corp.ru',
+      });
+      mockOrgMembershipRepository.findOne.mockResolvedValue({
+        organizationId: ORGANIZATION_ID,
+        userId: USER_ID,
+        scimExternalId: null,
+        user: {
+          id: USER_ID,
+          email: 'ivan@corp.ru',
+          isActive: true,
+          scimOrganizationId: ORGANIZATION_ID,
+        },
+      });
+
+      const error = await service
+        .replace(ORGANIZATION_ID, USER_ID, {
+          ...body,
+          userName: 'anna@corp.ru',
+        })
+        .catch((caught: unknown) => caught);
+
+      expect(error).toBeInstanceOf(ScimException);
+      expect((error as ScimException).getStatus()).toBe(HttpStatus.CONFLICT);
+      expect(mockDataSource.transaction).not.toHaveBeenCalled();
+    });
+  });
+});
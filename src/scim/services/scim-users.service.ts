@@ -0,0 +1,465 @@
+import { HttpStatus, Injectable, Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { InjectRepository } from '@nestjs/typeorm';
+import { DataSource, EntityManager, In, Repository } from 'typeorm';
+import { User } from '../../users/entities/user.entity';
+import { OrganizationMembership } from '../../organizations/entities/organization-membership.entity';
+import { OrganizationRole } from '../../organizations/entities/organization-role.entity';
+import { Team } from '../../teams/entities/team.entity';
+import { TeamMembership } from '../../teams/entities/team-membership.entity';
+import { RefreshToken } from '../../auth/entities/refresh-token.entity';
+import { WebhooksService } from '../../webhooks/webhooks.service';
+import { WebhookEvent } from '../../webhooks/enums/webhook-event.enum';
+import { ScimException } from '../scim-errors';
+import {
+  parseScimFilter,
+  ScimAttributeMapping,
+  scimFilterToSql,
+  UUID_PATTERN,
+} from '../scim-filter';
+import { applyScimPatch } from '../scim-patch';
+import { parseScimPage, toScimListResponse } from '../scim-list';
+import {
+  SCIM_USER_SCHEMA,
+  ScimListQuery,
+  ScimListResponse,
+  ScimPatchRequest,
+  ScimUser,
+} from '../interfaces/scim.interface';
+
+// Атрибуты User, доступные в filter (ключи в нижнем регистре)
+const USER_ATTRIBUTES: Record<string, ScimAttributeMapping> = {
+  id: { column: 'user.id', type: 'uuid' },
+  username: { column: 'user.email', type: 'string' },
+  'emails.value': { column: 'user.email', type: 'string' },
+  externalid: {
+    column: 'membership.scimExternalId',
+    type: 'string',
+    caseExact: true,
+  },
+  'name.givenname': { column: 'user.firstName', type: 'string' },
+  'name.familyname': { column: 'user.lastName', type: 'string' },
+  'phonenumbers.value': { column: 'user.phone', type: 'string' },
+  active: { column: 'user.isActive', type: 'boolean' },
+  'meta.created': { column: 'user.createdAt', type: 'datetime' },
+  'meta.lastmodified': { column: 'user.updatedAt', type: 'datetime' },
+};
+
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+/**
+ * SCIM Users: пользователь каталога = User + членство в организации токена.
+ * Менять сам аккаунт можно только если им управляет эта организация (User.scimOrganizationId)
+ */
+@Injectable()
+export class ScimUsersService {
+  private readonly logger = new Logger(ScimUsersService.name);
+
+  constructor(
+    @InjectRepository(User)
+    private usersRepo: Repository<User>,
+    @InjectRepository(OrganizationMembership)
+    private orgMembershipRepo: Repository<OrganizationMembership>,
+    @InjectRepository(OrganizationRole)
+    private orgRoleRepo: Repository<OrganizationRole>,
+    @InjectRepository(RefreshToken)
+    private refreshTokensRepo: Repository<RefreshToken>,
+    private dataSource: DataSource,
+    private configService: ConfigService,
+    private webhooksService: WebhooksService,
+  ) {}
+
+  async list(
+    organizationId: string,
+    query: ScimListQuery,
+  ): Promise<ScimListResponse<ScimUser>> {
+    const page = parseScimPage(
+      query,
+      this.configService.get<number>('scim.maxResults')!,
+    );
+    const qb = this.orgMembershipRepo
+      .createQueryBuilder('membership')
+      .innerJoinAndSelect('membership.user', 'user')
+      .where('membership.organizationId = :organizationId', { organizationId });
+
+    if (query.filter) {
+      const { sql, params } = scimFilterToSql(
+        parseScimFilter(query.filter),
+        USER_ATTRIBUTES,
+        SCIM_USER_SCHEMA,
+      );
+      qb.andWhere(sql, params);
+    }
+
+    if (page.count === 0) {
+      return toScimListResponse([], await qb.getCount(), page);
+    }
+
+    const [memberships, total] = await qb
+      .orderBy('membership.createdAt', 'ASC')
+      .addOrderBy('membership.id', 'ASC')
+      .skip(page.startIndex - 1)
+      .take(page.count)
+      .getManyAndCount();
+
+    return toScimListResponse(
+      memberships.map((membership) => this.toScimUser(membership)),
+      total,
+      page,
+    );
+  }
+
+  async get(organizationId: string, userId: string): Promise<ScimUser> {
+    return this.toScimUser(await this.findMembership(organizationId, userId));
+  }
+
+  /**
+   * Создание пользователя. Существующий аккаунт принимается, только если им уже управляет
+   * эта организация и он был удалён из каталога; чужие аккаунты каталог не забирает
+   */
+  async create(organizationId: string, body: ScimUser): Promise<ScimUser> {
+    const email = this.readEmail(body);
+    const existing = await this.findByEmail(email);
+
+    if (existing) {
+      const isMember = await this.orgMembershipRepo.exists({
+        where: { userId: existing.id, organizationId },
+      });
+      if (existing.scimOrganizationId !== organizationId || isMember) {
+        throw new ScimException(
+          HttpStatus.CONFLICT,
+          `Пользователь ${email} уже существует`,
+          'uniqueness',
+        );
+      }
+    }
+
+    const role = await this.getDefaultRole(organizationId);
+    const user = await this.dataSource.transaction(async (manager) => {
+      const target = existing ?? manager.create(User, { email });
+      this.applyAttributes(target, { ...body, active: body.active ?? true });
+      target.scimOrganizationId = organizationId;
+      const saved = await manager.save(target);
+
+      await manager.save(
+        manager.create(OrganizationMembership, {
+          userId: saved.id,
+          organizationId,
+          roleId: role.id,
+          scimExternalId: body.externalId ?? null,
+        }),
+      );
+      return saved;
+    });
+
+    this.logger.log(
+      `✅ SCIM: пользователь ${email} ${existing ? 'возвращён в' : 'создан в'} организации ${organizationId}`,
+    );
+    if (!existing) {
+      await this.webhooksService.emitForUser(
+        WebhookEvent.USER_REGISTERED,
+        user.id,
+        { source: 'scim' },
+        [organizationId],
+      );
+    }
+    await this.webhooksService.emitForUser(
+      WebhookEvent.ORGANIZATION_MEMBER_ADDED,
+      user.id,
+      { organizationId, role: role.name, source: 'scim' },
+      [organizationId],
+    );
+
+    return this.get(organizationId, user.id);
+  }
+
+  async replace(
+    organizationId: string,
+    userId: string,
+    body: ScimUser,
+  ): Promise<ScimUser> {
+    const membership = await this.findMembership(organizationId, userId);
+    await this.save(organizationId, membership, body);
+    return this.get(organizationId, userId);
+  }
+
+  async patch(
+    organizationId: string,
+    userId: string,
+    request: ScimPatchRequest,
+  ): Promise<ScimUser> {
+    const membership = await this.findMembership(organizationId, userId);
+    const current = this.toScimUser(membership);
+    const patched = applyScimPatch(
+      current as Record<string, unknown>,
+      request,
+      SCIM_USER_SCHEMA,
+    ) as ScimUser;
+
+    // Изменение emails[type eq "work"].value без userName тоже меняет email
+    if (patched.userName === current.userName) {
+      const primary =
+        patched.emails?.find((item) => item.primary) ?? patched.emails?.[0];
+      if (primary?.value) {
+        patched.userName = primary.value;
+      }
+    }
+
+    await this.save(organizationId, membership, patched);
+    return this.get(organizationId, userId);
+  }
+
+  /**
+   * Удаление из каталога: членство в организации и её командах удаляется,
+   * управляемый аккаунт деактивируется (данные пользователя не удаляются)
+   */
+  async remove(organizationId: string, userId: string): Promise<void> {
+    const membership = await this.findMembership(organizationId, userId);
+    const managed = membership.user.scimOrganizationId === organizationId;
+
+    await this.dataSource.transaction(async (manager) => {
+      await this.removeTeamMemberships(manager, organizationId, userId);
+      await manager.delete(OrganizationMembership, { id: membership.id });
+      if (managed) {
+        await manager.update(User, userId, { isActive: false });
+      }
+    });
+
+    if (managed) {
+      await this.revokeSessions(userId);
+    }
+    this.logger.log(
+      `🗑️ SCIM: пользователь ${userId} удалён из организации ${organizationId}`,
+    );
+
+    await this.webhooksService.emitForUser(
+      WebhookEvent.ORGANIZATION_MEMBER_REMOVED,
+      userId,
+      { organizationId, source: 'scim' },
+      [organizationId],
+    );
+  }
+
+  toScimUser(membership: OrganizationMembership): ScimUser {
+    const { user } = membership;
+    const baseUrl = this.configService.get<string>('scim.baseUrl');
+    const displayName = [user.firstName, user.lastName]
+      .filter(Boolean)
+      .join(' ');
+
+    return {
+      schemas: [SCIM_USER_SCHEMA],
+      id: user.id,
+      externalId: membership.scimExternalId ?? undefined,
+      userName: user.email ?? undefined,
+      name: {
+        givenName: user.firstName ?? undefined,
+        familyName: user.lastName ?? undefined,
+        formatted: displayName || undefined,
+      },
+      displayName: displayName || user.email || undefined,
+      emails: user.email
+        ? [{ value: user.email, type: 'work', primary: true }]
+        : [],
+      phoneNumbers: user.phone ? [{ value: user.phone, type: 'work' }] : [],
+      active: user.isActive,
+      meta: {
+        resourceType: 'User',
+        created: user.createdAt?.toISOString(),
+        lastModified: user.updatedAt?.toISOString(),
+        location: `${baseUrl}/Users/${user.id}`,
+      },
+    };
+  }
+
+  /**
+   * Общая часть PUT и PATCH. Аккаунт, которым управляет не эта организация, менять нельзя,
+   * externalId членства - можно
+   */
+  private async save(
+    organizationId: string,
+    membership: OrganizationMembership,
+    body: ScimUser,
+  ): Promise<void> {
+    const user = membership.user;
+    const wasActive = user.isActive;
+    const before = JSON.stringify(this.userFields(user));
+
+    const email = this.readEmail(body);
+    this.applyAttributes(user, body);
+    const changed = JSON.stringify(this.userFields(user)) !== before;
+
+    if (changed && user.scimOrganizationId !== organizationId) {
+      throw new ScimException(
+        HttpStatus.FORBIDDEN,
+        'Аккаунтом пользователя управляет не каталог этой организации',
+      );
+    }
+
+    if (changed) {
+      const duplicate = await this.findByEmail(email);
+      if (duplicate && duplicate.id !== user.id) {
+        throw new ScimException(
+          HttpStatus.CONFLICT,
+          `Пользователь ${email} уже существует`,
+          'uniqueness',
+        );
+      }
+    }
+
+    await this.dataSource.transaction(async (manager) => {
+      if (changed) {
+        await manager.save(user);
+      }
+      await manager.update(OrganizationMembership, membership.id, {
+        scimExternalId: body.externalId ?? null,
+      });
+    });
+
+    if (wasActive && !user.isActive) {
+      await this.revokeSessions(user.id);
+      this.logger.log(`🔒 SCIM: пользователь ${user.id} деактивирован`);
+    }
+  }
+
+  private applyAttributes(user: User, body: ScimUser): void {
+    user.email = this.readEmail(body);
+    if (body.name) {
+      user.firstName = this.readString(body.name.givenName, 100) as string;
+      user.lastName = this.readString(body.name.familyName, 100) as string;
+    }
+    if (body.phoneNumbers) {
+      user.phone = this.readString(body.phoneNumbers[0]?.value, 20);
+    }
+    const active = this.readBoolean(body.active);
+    if (active !== undefined) {
+      user.isActive = active;
+    }
+  }
+
+  private userFields(user: User) {
+    const { email, firstName, lastName, phone, isActive } = user;
+    return { email, firstName, lastName, phone, isActive };
+  }
+
+  private readEmail(body: ScimUser): string {
+    const value =
+      body.userName ??
+      body.emails?.find((item) => item.primary)?.value ??
+      body.emails?.[0]?.value;
+    const email = typeof value === 'string' ? value.trim().toLowerCase() : '';
+    if (!EMAIL_PATTERN.test(email) || email.length > 255) {
+      throw new ScimException(
+        HttpStatus.BAD_REQUEST,
+        'userName должен быть email-адресом',
+        'invalidValue',
+      );
+    }
+    return email;
+  }
+
+  private readString(value: unknown, maxLength: number): string | null {
+    if (value === undefined || value === null || value === '') {
+      return null;
+    }
+    if (typeof value !== 'string' || value.length > maxLength) {
+      throw new ScimException(
+        HttpStatus.BAD_REQUEST,
+        `Значение должно быть строкой до ${maxLength} символов`,
+        'invalidValue',
+      );
+    }
+    return value;
+  }
+
+  // Azure AD присылает active строкой "False"
+  private readBoolean(value: unknown): boolean | undefined {
+    if (value === undefined || value === null) {
+      return undefined;
+    }
+    if (typeof value === 'boolean') {
+      return value;
+    }
+    if (
+      typeof value === 'string' &&
+      ['true', 'false'].includes(value.toLowerCase())
+    ) {
+      return value.toLowerCase() === 'true';
+    }
+    throw new ScimException(
+      HttpStatus.BAD_REQUEST,
+      'active должен быть true или false',
+      'invalidValue',
+    );
+  }
+
+  /**
+   * Аккаунт с таким email без учёта регистра: старые аккаунты могли сохранить его как ввёл пользователь
+   */
+  private findByEmail(email: string): Promise<User | null> {
+    return this.usersRepo
+      .createQueryBuilder('user')
+      .where('LOWER(user.email) = :email', { email })
+      .getOne();
+  }
+
+  private async findMembership(
+    organizationId: string,
+    userId: string,
+  ): Promise<OrganizationMembership> {
+    const membership = UUID_PATTERN.test(userId)
+      ? await this.orgMembershipRepo.findOne({
+          where: { organizationId, userId },
+          relations: ['user'],
+        })
+      : null;
+    if (!membership) {
+      throw new ScimException(
+        HttpStatus.NOT_FOUND,
+        `Пользователь ${userId} не найден`,
+      );
+    }
+    return membership;
+  }
+
+  private async getDefaultRole(
+    organizationId: string,
+  ): Promise<OrganizationRole> {
+    const name = this.configService.get<string>('scim.organizationRole')!;
+    const role = await this.orgRoleRepo.findOne({
+      where: { name, organizationId },
+    });
+    if (!role) {
+      throw new ScimException(
+        HttpStatus.INTERNAL_SERVER_ERROR,
+        `Роль ${name} не найдена в организации`,
+      );
+    }
+    return role;
+  }
+
+  private async removeTeamMemberships(
+    manager: EntityManager,
+    organizationId: string,
+    userId: string,
+  ): Promise<void> {
+    const teamIds = (
+      await manager.find(Team, { where: { organizationId }, select: ['id'] })
+    ).map((team) => team.id);
+    if (teamIds.length === 0) {
+      return;
+    }
+    await manager.delete(TeamMembership, { userId, teamId: In(teamIds) });
+    await manager.query(
+      'DELETE FROM user_teams WHERE user_id = $1 AND team_id = ANY($2)',
+      [userId, teamIds],
+    );
+  }
+
+  private async revokeSessions(userId: string): Promise<void> {
+    await this.refreshTokensRepo.update(
+      { userId, isRevoked: false },
+      { isRevoked: true, revokedReason: 'scim_deactivated' },
+    );
+  }
+}
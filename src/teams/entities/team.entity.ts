@@ -33,6 +33,9 @@ export class Team {
   @Column({ name: 'created_by', type: 'uuid', nullable: true })
   createdBy: string | null;
 
+  @Column({ type: 'varchar', length: 255, nullable: true })
+  scimExternalId: string | null; // externalId группы в каталоге организации (SCIM)
+
   @CreateDateColumn()
   createdAt: Date;
 
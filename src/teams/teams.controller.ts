@@ -4,6 +4,8 @@ import { TeamsService } from './teams.service';
 import type { CreateTeamDto, UpdateTeamDto } from './teams.service';
 import { JwtAuthGuard } from '../auth/guards/jwt-auth.guard';
 import { CurrentUser } from '../auth/decorators/current-user.decorator';
+import { RequirePermissions } from '../auth/decorators/permissions.decorator';
+import { PermissionScope } from '../auth/decorators/permission-scope.decorator';
 
 @ApiTags('teams')
 @Controller('teams')
@@ -45,6 +47,8 @@ export class TeamsController {
   }
 
   @Get(':id')
+  @RequirePermissions('teams.read')
+  @PermissionScope({ team: 'params.id' })
   @ApiOperation({ summary: 'Получить команду по ID' })
   @ApiResponse({ status: 200, description: 'Команда найдена' })
   @ApiResponse({ status: 404, description: 'Команда не найдена' })
@@ -53,6 +57,8 @@ export class TeamsController {
   }
 
   @Put(':id')
+  @RequirePermissions('teams.update')
+  @PermissionScope({ team: 'params.id' })
   @ApiOperation({ summary: 'Обновить команду' })
   @ApiResponse({ status: 200, description: 'Команда обновлена' })
   @ApiResponse({ status: 403, description: 'Недостаточно прав' })
@@ -66,6 +72,8 @@ export class TeamsController {
   }
 
   @Delete(':id')
+  @RequirePermissions('teams.delete')
+  @PermissionScope({ team: 'params.id' })
   @ApiOperation({ summary: 'Удалить команду' })
   @ApiResponse({ status: 200, description: 'Команда удалена' })
   @ApiResponse({ status: 403, description: 'Недостаточно прав' })
@@ -79,6 +87,8 @@ export class TeamsController {
   }
 
   @Get(':id/members')
+  @RequirePermissions('teams.read')
+  @PermissionScope({ team: 'params.id' })
   @ApiOperation({ summary: 'Получить участников команды' })
   @ApiResponse({ status: 200, description: 'Список участников' })
   async getTeamMembers(@Param('id') id: string) {
@@ -86,6 +96,8 @@ export class TeamsController {
   }
 
   @Post(':id/members')
+  @RequirePermissions('users.invite')
+  @PermissionScope({ team: 'params.id' })
   @ApiOperation({ summary: 'Добавить участника в команду' })
   @ApiResponse({ status: 201, description: 'Участник добавлен' })
   @ApiResponse({ status: 403, description: 'Недостаточно прав' })
@@ -103,6 +115,8 @@ export class TeamsController {
   }
 
   @Put(':id/members/:userId/role')
+  @RequirePermissions('users.manage')
+  @PermissionScope({ team: 'params.id' })
   @ApiOperation({ summary: 'Изменить роль участника команды' })
   @ApiResponse({ status: 200, description: 'Роль изменена' })
   @ApiResponse({ status: 403, description: 'Недостаточно прав' })
@@ -121,6 +135,8 @@ export class TeamsController {
   }
 
   @Delete(':id/members/:userId')
+  @RequirePermissions('users.manage')
+  @PermissionScope({ team: 'params.id' })
   @ApiOperation({ summary: 'Удалить участника из команды' })
   @ApiResponse({ status: 200, description: 'Участник удален' })
   @ApiResponse({ status: 403, description: 'Недостаточно прав' })
@@ -8,6 +8,10 @@ import { User } from '../users/entities/user.entity';
 import { OrganizationMembership } from '../organizations/entities/organization-membership.entity';
 import { Role } from '../rbac/entities/role.entity';
 import { RoleHierarchyService } from '../rbac/role-hierarchy.service';
+import { WebhooksService } from '../webhooks/webhooks.service';
+import { WebhookEvent } from '../webhooks/enums/webhook-event.enum';
+import { AuditService } from '../audit/audit.service';
+import { AuditEvent } from '../audit/enums/audit-event.enum';
 
 export interface CreateTeamDto {
   name: string;
@@ -36,6 +40,8 @@ export class TeamsService {
     @InjectRepository(Role)
     private rolesRepo: Repository<Role>,
     private roleHierarchyService: RoleHierarchyService,
+    private webhooksService: WebhooksService,
+    private auditService: AuditService,
   ) {}
 
   /**
@@ -59,6 +65,17 @@ export class TeamsService {
 
     const savedTeam = await this.teamRepo.save(team);
     console.log(`✅ Team created: ${savedTeam.name} (ID: ${savedTeam.id})`);
+    await this.auditService.record(AuditEvent.TEAM_CREATED, {
+      actorId: creatorId,
+      targetType: 'team',
+      targetId: savedTeam.id,
+      organizationId: savedTeam.organizationId,
+      teamId: savedTeam.id,
+      after: {
+        name: savedTeam.name,
+        description: savedTeam.description ?? null,
+      },
+    });
 
     // Создаем системные роли для команды
     console.log(`🔧 About to create system roles for team: ${savedTeam.id}`);
@@ -74,7 +91,7 @@ export class TeamsService {
   /**
    * Создать системные роли для команды
    */
-  private async createSystemRoles(teamId: string): Promise<void> {
+  async createSystemRoles(teamId: string): Promise<void> {
     console.log(`🔧 Creating system roles for team: ${teamId}`);
     
     const systemRoles = [
@@ -149,7 +166,13 @@ export class TeamsService {
       teamId,
     });
     if (!canInvite) {
-      throw new ForbiddenException('Недостаточно прав для приглашения в команду');
+      throw await this.denied(
+        AuditEvent.TEAM_MEMBER_ADDED,
+        team,
+        invitedBy,
+        userId,
+        'Недостаточно прав для приглашения в команду',
+      );
     }
 
     // Находим роль
@@ -192,6 +215,21 @@ export class TeamsService {
       .execute();
 
     console.log(`✅ Added user ${userId} to team ${teamId} in both systems`);
+
+    await this.webhooksService.emitForUser(
+      WebhookEvent.TEAM_MEMBER_ADDED,
+      userId,
+      { organizationId: team.organizationId, teamId, role: role.name, invitedBy },
+      [team.organizationId],
+    );
+    await this.auditService.record(AuditEvent.TEAM_MEMBER_ADDED, {
+      actorId: invitedBy,
+      targetType: 'user',
+      targetId: userId,
+      organizationId: team.organizationId,
+      teamId,
+      after: { role: role.name },
+    });
     
     return savedMembership;
   }
@@ -221,7 +259,13 @@ export class TeamsService {
       teamId,
     });
     if (!canManage) {
-      throw new ForbiddenException('Недостаточно прав для изменения роли');
+      throw await this.denied(
+        AuditEvent.TEAM_MEMBER_ROLE_CHANGED,
+        team,
+        changedBy,
+        userId,
+        'Недостаточно прав для изменения роли',
+      );
     }
 
     // Находим новую роль
@@ -233,12 +277,33 @@ export class TeamsService {
       throw new NotFoundException(`Роль ${newRoleName} не найдена в команде`);
     }
 
+    const previous = await this.teamMembershipRepo.findOne({
+      where: { userId, teamId },
+      relations: ['role'],
+    });
+
     // Обновляем роль
     await this.teamMembershipRepo.update(
       { userId, teamId },
       { roleId: newRole.id },
     );
 
+    await this.webhooksService.emitForUser(
+      WebhookEvent.TEAM_MEMBER_ROLE_CHANGED,
+      userId,
+      { organizationId: team.organizationId, teamId, role: newRole.name, changedBy },
+      [team.organizationId],
+    );
+    await this.auditService.record(AuditEvent.TEAM_MEMBER_ROLE_CHANGED, {
+      actorId: changedBy,
+      targetType: 'user',
+      targetId: userId,
+      organizationId: team.organizationId,
+      teamId,
+      before: { role: previous?.role?.name ?? null },
+      after: { role: newRole.name },
+    });
+
     const membership = await this.teamMembershipRepo.findOne({
       where: { userId, teamId },
       relations: ['role', 'user'],
@@ -270,9 +335,20 @@ export class TeamsService {
       teamId,
     });
     if (!canManage) {
-      throw new ForbiddenException('Недостаточно прав для удаления участника');
+      throw await this.denied(
+        AuditEvent.TEAM_MEMBER_REMOVED,
+        team,
+        removedBy,
+        userId,
+        'Недостаточно прав для удаления участника',
+      );
     }
 
+    const previous = await this.teamMembershipRepo.findOne({
+      where: { userId, teamId },
+      relations: ['role'],
+    });
+
     // Удаляем из новой системы (team_memberships)
     await this.teamMembershipRepo.delete({ userId, teamId });
     
@@ -286,6 +362,21 @@ export class TeamsService {
       .execute();
     
     console.log(`✅ Removed user ${userId} from team ${teamId} from both systems`);
+
+    await this.webhooksService.emitForUser(
+      WebhookEvent.TEAM_MEMBER_REMOVED,
+      userId,
+      { organizationId: team.organizationId, teamId, removedBy },
+      [team.organizationId],
+    );
+    await this.auditService.record(AuditEvent.TEAM_MEMBER_REMOVED, {
+      actorId: removedBy,
+      targetType: 'user',
+      targetId: userId,
+      organizationId: team.organizationId,
+      teamId,
+      before: { role: previous?.role?.name ?? null },
+    });
   }
 
   /**
@@ -424,7 +515,17 @@ export class TeamsService {
     }
 
     await this.teamRepo.update(id, dto);
-    return this.getTeamById(id);
+    const updated = await this.getTeamById(id);
+    await this.auditService.record(AuditEvent.TEAM_UPDATED, {
+      actorId: updatedBy,
+      targetType: 'team',
+      targetId: id,
+      organizationId: team.organizationId,
+      teamId: id,
+      before: { name: team.name, description: team.description ?? null },
+      after: { name: updated.name, description: updated.description ?? null },
+    });
+    return updated;
   }
 
   /**
@@ -454,6 +555,38 @@ export class TeamsService {
 
     // 4. Удаляем саму команду
     await this.teamRepo.delete(id);
+
+    await this.auditService.record(AuditEvent.TEAM_DELETED, {
+      actorId: deletedBy,
+      targetType: 'team',
+      targetId: id,
+      organizationId: team.organizationId,
+      teamId: id,
+      before: { name: team.name, description: team.description ?? null },
+    });
+  }
+
+  /**
+   * Отказ в управлении участниками записывается в журнал организации команды
+   */
+  private async denied(
+    event: AuditEvent,
+    team: Team,
+    actorId: string,
+    targetUserId: string,
+    message: string,
+  ): Promise<ForbiddenException> {
+    await this.auditService.record(event, {
+      actorId,
+      targetType: 'user',
+      targetId: targetUserId,
+      organizationId: team.organizationId,
+      teamId: team.id,
+      outcome: 'failure',
+      reason: message,
+      statusCode: 403,
+    });
+    return new ForbiddenException(message);
   }
 
   /**
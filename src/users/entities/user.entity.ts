@@ -29,6 +29,12 @@ export class User {
   @Column({ type: 'varchar', length: 255, select: false, nullable: true })
   passwordHash: string | null;
 
+  @Column({ type: 'timestamp', nullable: true })
+  passwordChangedAt: Date | null;
+
+  @Column({ type: 'boolean', default: false })
+  mustChangePassword: boolean; // Смена пароля при следующем входе (нарушение политики, срок действия)
+
   @Column({ type: 'varchar', length: 100, nullable: true })
   firstName: string;
 
@@ -41,7 +47,10 @@ export class User {
   @Column({ type: 'varchar', length: 20, nullable: true })
   phone: string | null;
 
-  // ✅ НОВЫЕ ПОЛЯ для мульти-аутентификации
+  @Column({ type: 'varchar', length: 5, nullable: true })
+  locale: string | null; // Язык писем и уведомлений: ru | en, null - по умолчанию
+
+  // Устаревшие поля провайдеров: привязки хранятся в user_identities
   @Column({ type: 'varchar', length: 255, nullable: true })
   githubId: string | null;
 
@@ -54,6 +63,9 @@ export class User {
   @Column({ type: 'varchar', length: 255, nullable: true })
   vkontakteId: string | null;
 
+  @Column({ type: 'varchar', length: 64, nullable: true, unique: true })
+  telegramId: string | null; // id из Telegram Login Widget
+
   // Основной способ входа
   @Column({ type: 'enum', enum: AuthMethodType, default: AuthMethodType.EMAIL })
   primaryAuthMethod: AuthMethodType;
@@ -67,6 +79,12 @@ export class User {
   @Column({ type: 'boolean', default: true })
   isActive: boolean;
 
+  @Column({ type: 'uuid', nullable: true })
+  mergedIntoId: string | null; // Аккаунт объединён с указанным и деактивирован
+
+  @Column({ type: 'uuid', nullable: true })
+  scimOrganizationId: string | null; // Аккаунтом управляет SCIM-каталог организации
+
   @Column({ type: 'boolean', default: false })
   emailVerified: boolean;
 
@@ -124,7 +142,16 @@ export class User {
   twoFactorMethods: string[]; // ['email', 'sms', 'totp']
 
   @Column({ type: 'varchar', length: 255, nullable: true, select: false })
-  twoFactorSecret: string; // TOTP секрет
+  twoFactorSecret: string; // TOTP секрет (зашифрован)
+
+  @Column({ type: 'varchar', length: 255, nullable: true, select: false })
+  twoFactorPendingSecret: string | null; // TOTP секрет до подтверждения первым кодом (зашифрован)
+
+  @Column({ type: 'timestamp', nullable: true })
+  totpConfirmedAt: Date | null;
+
+  @Column({ type: 'integer', nullable: true, select: false })
+  totpLastUsedStep: number | null; // Последний принятый временной шаг (защита от повтора)
 
   @Column({ type: 'text', array: true, nullable: true, select: false })
   backupCodes: string[]; // Резервные коды
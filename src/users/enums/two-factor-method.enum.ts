@@ -2,6 +2,7 @@ export enum TwoFactorMethod {
   EMAIL = 'email',
   SMS = 'sms',
   TOTP = 'totp', // Google Authenticator, Authy
+  WEBAUTHN = 'webauthn', // Аппаратный ключ или passkey
   BACKUP_CODE = 'backup_code',
 }
 
@@ -16,7 +17,7 @@ export interface TwoFactorSettings {
   methods: TwoFactorMethod[];
   emailVerified: boolean;
   phoneVerified: boolean;
-  totpSecret?: string;
+  totpConfigured: boolean;
   backupCodes?: string[];
   usedBackupCodes: string[];
 }
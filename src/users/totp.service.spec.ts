@@ -0,0 +1,113 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { ConfigService } from '@nestjs/config';
+import { TotpService } from './totp.service';
+
+// Секрет из тестовых векторов RFC 6238 ("12345678901234567890") в base32
+const RFC_SECRET = 'GEZDGNBVGY3TQOJQGEZDGNBVGY3TQOJQ';
+
+describe('TotpService', () => {
+  let service: TotpService;
+
+  const createService = async (encryptionKey?: string) => {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        TotpService,
+        {
+          provide: ConfigService,
+          useValue: { get: jest.fn(() => encryptionKey) },
+        },
+      ],
+    }).compile();
+
+    return module.get<TotpService>(TotpService);
+  };
+
+  const at = (seconds: number) =>
+    jest.spyOn(Date, 'now').mockReturnValue(seconds * 1000);
+
+  beforeEach(async () => {
+    service = await createService('test-encryption-key');
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('should refuse to start without ENCRYPTION_KEY', async () => {
+    await expect(createService(undefined)).rejects.toThrow(
+      'ENCRYPTION_KEY не задан',
+    );
+  });
+
+  describe('verifyCode', () => {
+    it('should accept RFC 6238 test vectors', () => {
+      at(59);
+      expect(service.verifyCode(RFC_SECRET, '287082')).toBe(1);
+
+      at(1111111109);
+      expect(service.verifyCode(RFC_SECRET, '081804')).toBe(37037036);
+    });
+
+    it('should tolerate one step of clock drift', () => {
+      at(89);
+      expect(service.verifyCode(RFC_SECRET, '287082')).toBe(1);
+
+      at(120);
+      expect(service.verifyCode(RFC_SECRET, '287082')).toBeNull();
+    });
+
+    it('should reject a step that was already used', () => {
+      at(59);
+      expect(service.verifyCode(RFC_SECRET, '287082', 1)).toBeNull();
+      expect(service.verifyCode(RFC_SECRET, '287082', 0)).toBe(1);
+    });
+
+    it('should reject malformed codes', () => {
+      at(59);
+      expect(service.verifyCode(RFC_SECRET, '28708')).toBeNull();
+      expect(service.verifyCode(RFC_SECRET, '2870820')).toBeNull();
+      expect(service.verifyCode(RFC_SECRET, 'abcdef')).toBeNull();
+    });
+  });
+
+  it('should generate a 160-bit base32 secret', () => {
+    expect(service.generateSecret()).toMatch(/^[A-Z2-7]{32}$/);
+  });
+
+  it('should build an otpauth URL with the secret and issuer', () => {
+    const url = new URL(
+      service.buildOtpAuthUrl('Loginus', 'user@example.com', RFC_SECRET),
+    );
+
+    expect(url.protocol).toBe('otpauth:');
+    expect(url.searchParams.get('secret')).toBe(RFC_SECRET);
+    expect(url.searchParams.get('issuer')).toBe('Loginus');
+  });
+
+  describe('encrypt', () => {
+    it('should round-trip the secret without storing it in plain text', () => {
+      const encrypted = service.encrypt(RFC_SECRET);
+
+      expect(encrypted).not.toContain(RFC_SECRET);
+      expect(service.decrypt(encrypted)).toBe(RFC_SECRET);
+    });
+
+    it('should reject a tampered ciphertext', () => {
+      const [prefix, iv, tag, data] = service.encrypt(RFC_SECRET).split(':');
+      const tampered = Buffer.from(data, 'base64');
+      tampered[0] ^= 1;
+
+      expect(() =>
+        service.decrypt(
+          [prefix, iv, tag, tampered.toString('base64')].join(':'),
+        ),
+      ).toThrow();
+    });
+
+    it('should not decrypt with another key', async () => {
+      const other = await createService('another-encryption-key');
+
+      expect(() => other.decrypt(service.encrypt(RFC_SECRET))).toThrow();
+    });
+  });
+});
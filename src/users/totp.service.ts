@@ -0,0 +1,167 @@
+import { Injectable } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import * as crypto from 'crypto';
+import {
+  decryptSecret,
+  deriveSecretCipherKey,
+  encryptSecret,
+} from '../auth/utils/secret-cipher';
+
+const BASE32_ALPHABET = 'ABCDEFGHIJKLMNOPQRSTUVWXYZ234567';
+const TOTP_DIGITS = 6;
+const TOTP_STEP_SECONDS = 30;
+// Допустимое расхождение часов: по одному шагу в каждую сторону
+const TOTP_DRIFT_STEPS = 1;
+
+/**
+ * TOTP по RFC 6238 (HMAC-SHA1, 6 цифр, шаг 30 секунд) и шифрование секретов
+ */
+@Injectable()
+export class TotpService {
+  private readonly encryptionKey: Buffer;
+
+  constructor(private configService: ConfigService) {
+    // Без ключа приложение не запускается: секреты TOTP нельзя шифровать общеизвестным ключом
+    const secret = this.configService.get<string>('app.encryptionKey');
+    if (!secret) {
+      throw new Error('ENCRYPTION_KEY не задан');
+    }
+    this.encryptionKey = deriveSecretCipherKey(secret);
+  }
+
+  /**
+   * Новый секрет (160 бит) в base32 для приложения-аутентификатора
+   */
+  generateSecret(): string {
+    return this.toBase32(crypto.randomBytes(20));
+  }
+
+  /**
+   * URL otpauth:// для QR-кода
+   */
+  buildOtpAuthUrl(issuer: string, accountName: string, secret: string): string {
+    const label = encodeURIComponent(`${issuer}:${accountName}`);
+    const params = new URLSearchParams({
+      secret,
+      issuer,
+      algorithm: 'SHA1',
+      digits: String(TOTP_DIGITS),
+      period: String(TOTP_STEP_SECONDS),
+    });
+    return `otpauth://totp/${label}?${params.toString()}`;
+  }
+
+  /**
+   * Проверка кода с учётом дрейфа часов.
+   * Возвращает номер совпавшего временного шага или null.
+   * Шаги не позже lastUsedStep отклоняются (защита от повтора)
+   */
+  verifyCode(
+    secret: string,
+    code: string,
+    lastUsedStep: number | null = null,
+  ): number | null {
+    if (
+      typeof code !== 'string' ||
+      !new RegExp(`^\\d{${TOTP_DIGITS}}$`).test(code)
+    ) {
+      return null;
+    }
+
+    const key = this.fromBase32(secret);
+    const currentStep = Math.floor(Date.now() / 1000 / TOTP_STEP_SECONDS);
+
+    for (
+      let step = currentStep - TOTP_DRIFT_STEPS;
+      step <= currentStep + TOTP_DRIFT_STEPS;
+      step++
+    ) {
+      if (lastUsedStep !== null && step <= lastUsedStep) {
+        continue;
+      }
+
+      const expected = Buffer.from(this.generateCode(key, step));
+      if (crypto.timingSafeEqual(expected, Buffer.from(code))) {
+        return step;
+      }
+    }
+
+    return null;
+  }
+
+  /**
+   * Шифрование секрета для хранения в БД (AES-256-GCM)
+   */
+  encrypt(plaintext: string): string {
+    return encryptSecret(this.encryptionKey, plaintext);
+  }
+
+  /**
+   * Расшифровка секрета из БД
+   */
+  decrypt(value: string): string {
+    return decryptSecret(this.encryptionKey, value);
+  }
+
+  // Приватные методы
+
+  /**
+   * HOTP (RFC 4226) для номера временного шага
+   */
+  private generateCode(key: Buffer, step: number): string {
+    const counter = Buffer.alloc(8);
+    counter.writeBigUInt64BE(BigInt(step));
+
+    const hmac = crypto.createHmac('sha1', key).update(counter).digest();
+    const offset = hmac[hmac.length - 1] & 0x0f;
+    const binary =
+      ((hmac[offset] & 0x7f) << 24) |
+      (hmac[offset + 1] << 16) |
+      (hmac[offset + 2] << 8) |
+      hmac[offset + 3];
+
+    return String(binary % 10 ** TOTP_DIGITS).padStart(TOTP_DIGITS, '0');
+  }
+
+  private toBase32(buffer: Buffer): string {
+    let bits = 0;
+    let value = 0;
+    let output = '';
+
+    for (const byte of buffer) {
+      value = (value << 8) | byte;
+      bits += 8;
+      while (bits >= 5) {
+        output += BASE32_ALPHABET[(value >>> (bits - 5)) & 31];
+        bits -= 5;
+      }
+    }
+    if (bits > 0) {
+      output += BASE32_ALPHABET[(value << (5 - bits)) & 31];
+    }
+
+    return output;
+  }
+
+  private fromBase32(input: string): Buffer {
+    const cleaned = input.toUpperCase().replace(/=+$/, '').replace(/\s/g, '');
+    let bits = 0;
+    let value = 0;
+    const bytes: number[] = [];
+
+    for (const char of cleaned) {
+      const index = BASE32_ALPHABET.indexOf(char);
+      if (index === -1) {
+        throw new Error('Невалидный base32 секрет');
+      }
+      value = (value << 5) | index;
+      bits += 5;
+      if (bits >= 8) {
+        bytes.push((value >>> (bits - 8)) & 0xff);
+        bits -= 8;
+      }
+    }
+
+    return Buffer.from(bytes);
+  }
+}
@@ -81,11 +81,30 @@ export class TwoFactorSettingsController {
 
   @Post('setup/totp')
   @ApiOperation({ summary: 'Настроить TOTP (Google Authenticator)' })
-  @ApiResponse({ status: 200, description: 'TOTP настроен' })
-  async setupTotp(@CurrentUser() user: any): Promise<{ secret: string; qrCode: string }> {
+  @ApiResponse({
+    status: 200,
+    description: 'Секрет и otpauth:// URL для QR-кода, требуется подтверждение кодом',
+  })
+  async setupTotp(
+    @CurrentUser() user: any,
+  ): Promise<{ secret: string; otpAuthUrl: string }> {
     return this.twoFactorSettingsService.setupTotp(user.userId);
   }
 
+  @Post('setup/totp/confirm')
+  @ApiOperation({ summary: 'Подтвердить настройку TOTP первым кодом из приложения' })
+  @ApiResponse({ status: 200, description: 'TOTP включен' })
+  @ApiResponse({ status: 400, description: 'Неверный код или настройка не начата' })
+  async confirmTotp(
+    @CurrentUser() user: any,
+    @Body() body: { code: string },
+  ): Promise<TwoFactorSettings> {
+    return this.twoFactorSettingsService.confirmTotp(
+      user.userId,
+      String(body.code ?? ''),
+    );
+  }
+
   @Post('backup-codes/use')
   @ApiOperation({ summary: 'Использовать резервный код' })
   @ApiResponse({ status: 200, description: 'Код использован' })
@@ -3,13 +3,20 @@ import { InjectRepository } from '@nestjs/typeorm';
 import { Repository } from 'typeorm';
 import { User } from './entities/user.entity';
 import { TwoFactorMethod, TwoFactorSettings } from './enums/two-factor-method.enum';
+import { TotpService } from './totp.service';
+import { WebAuthnCredential } from '../auth/entities/webauthn-credential.entity';
 import * as crypto from 'crypto';
 
+const TOTP_ISSUER = 'Loginus';
+
 @Injectable()
 export class TwoFactorSettingsService {
   constructor(
     @InjectRepository(User)
     private usersRepo: Repository<User>,
+    @InjectRepository(WebAuthnCredential)
+    private webAuthnCredentialsRepo: Repository<WebAuthnCredential>,
+    private totpService: TotpService,
   ) {}
 
   /**
@@ -24,7 +31,7 @@ export class TwoFactorSettingsService {
         'twoFactorMethods',
         'emailVerified',
         'phoneVerified',
-        'twoFactorSecret',
+        'totpConfirmedAt',
         'backupCodes',
         'twoFactorBackupCodesUsed',
       ],
@@ -39,7 +46,7 @@ export class TwoFactorSettingsService {
       methods: user.twoFactorMethods as TwoFactorMethod[],
       emailVerified: user.emailVerified,
       phoneVerified: user.phoneVerified,
-      totpSecret: user.twoFactorSecret,
+      totpConfigured: !!user.totpConfirmedAt,
       backupCodes: user.backupCodes,
       usedBackupCodes: user.twoFactorBackupCodesUsed,
     };
@@ -84,6 +91,9 @@ export class TwoFactorSettingsService {
       twoFactorEnabled: false,
       twoFactorMethods: [],
       twoFactorSecret: undefined,
+      twoFactorPendingSecret: null,
+      totpConfirmedAt: null,
+      totpLastUsedStep: null,
       backupCodes: undefined,
       twoFactorBackupCodesUsed: [],
     });
@@ -134,6 +144,14 @@ export class TwoFactorSettingsService {
     } else {
       await this.usersRepo.update(userId, {
         twoFactorMethods: newMethods,
+        // Без метода TOTP секрет не нужен: повторное подключение требует новой настройки
+        ...(method === TwoFactorMethod.TOTP
+          ? {
+              twoFactorSecret: undefined,
+              totpConfirmedAt: null,
+              totpLastUsedStep: null,
+            }
+          : {}),
       });
     }
 
@@ -159,17 +177,115 @@ export class TwoFactorSettingsService {
   }
 
   /**
-   * Настроить TOTP (Google Authenticator)
+   * Настроить TOTP (Google Authenticator): секрет ожидает подтверждения первым кодом
    */
-  async setupTotp(userId: string): Promise<{ secret: string; qrCode: string }> {
-    const secret = this.generateTotpSecret();
-    const qrCode = this.generateTotpQrCode(userId, secret);
+  async setupTotp(
+    userId: string,
+  ): Promise<{ secret: string; otpAuthUrl: string }> {
+    const user = await this.usersRepo.findOne({ where: { id: userId } });
+    if (!user) {
+      throw new NotFoundException('User not found');
+    }
+
+    const secret = this.totpService.generateSecret();
+    const otpAuthUrl = this.totpService.buildOtpAuthUrl(
+      TOTP_ISSUER,
+      user.email || user.phone || user.id,
+      secret,
+    );
+
+    await this.usersRepo.update(userId, {
+      twoFactorPendingSecret: this.totpService.encrypt(secret),
+    });
+
+    // QR-код рисует клиент: URL содержит секрет и не передаётся сторонним сервисам
+    return { secret, otpAuthUrl };
+  }
+
+  /**
+   * Подтвердить настройку TOTP первым кодом из приложения и включить метод
+   */
+  async confirmTotp(userId: string, code: string): Promise<TwoFactorSettings> {
+    const user = await this.usersRepo
+      .createQueryBuilder('user')
+      .addSelect(['user.twoFactorPendingSecret', 'user.backupCodes'])
+      .where('user.id = :userId', { userId })
+      .getOne();
+
+    if (!user) {
+      throw new NotFoundException('User not found');
+    }
+    if (!user.twoFactorPendingSecret) {
+      throw new BadRequestException('Сначала начните настройку TOTP');
+    }
+
+    const step = this.totpService.verifyCode(
+      this.totpService.decrypt(user.twoFactorPendingSecret),
+      code,
+    );
+    if (step === null) {
+      throw new BadRequestException(
+        'Неверный код из приложения-аутентификатора',
+      );
+    }
 
+    const methods = user.twoFactorMethods as TwoFactorMethod[];
     await this.usersRepo.update(userId, {
-      twoFactorSecret: secret,
+      twoFactorSecret: user.twoFactorPendingSecret,
+      twoFactorPendingSecret: null,
+      totpConfirmedAt: new Date(),
+      totpLastUsedStep: step,
+      twoFactorEnabled: true,
+      twoFactorMethods: methods.includes(TwoFactorMethod.TOTP)
+        ? methods
+        : [...methods, TwoFactorMethod.TOTP],
+      // Резервные коды нужны на случай потери устройства
+      ...(!user.backupCodes?.length
+        ? {
+            backupCodes: this.generateBackupCodes(),
+            twoFactorBackupCodesUsed: [],
+          }
+        : {}),
     });
 
-    return { secret, qrCode };
+    return this.getUserTwoFactorSettings(userId);
+  }
+
+  /**
+   * Проверить код TOTP при входе. Каждый временной шаг принимается только один раз
+   */
+  async verifyTotp(userId: string, code: string): Promise<boolean> {
+    const user = await this.usersRepo
+      .createQueryBuilder('user')
+      .addSelect(['user.twoFactorSecret', 'user.totpLastUsedStep'])
+      .where('user.id = :userId', { userId })
+      .getOne();
+
+    if (!user?.totpConfirmedAt || !user.twoFactorSecret) {
+      return false;
+    }
+
+    const step = this.totpService.verifyCode(
+      this.totpService.decrypt(user.twoFactorSecret),
+      code,
+      user.totpLastUsedStep,
+    );
+    if (step === null) {
+      return false;
+    }
+
+    // Условное обновление: из двух параллельных запросов с одним кодом пройдёт только один
+    const result = await this.usersRepo
+      .createQueryBuilder()
+      .update(User)
+      .set({ totpLastUsedStep: step })
+      .where('id = :userId', { userId })
+      .andWhere('("totpLastUsedStep" IS NULL OR "totpLastUsedStep" < :step)', {
+        step,
+      })
+      .execute();
+
+    return !!result.affected;
   }
 
   /**
@@ -229,7 +345,11 @@ export class TwoFactorSettingsService {
       case TwoFactorMethod.SMS:
         return user.phoneVerified;
       case TwoFactorMethod.TOTP:
-        return !!user.twoFactorSecret;
+        return !!user.totpConfirmedAt;
+      case TwoFactorMethod.WEBAUTHN:
+        return this.webAuthnCredentialsRepo.exists({
+          where: { userId: user.id },
+        });
       case TwoFactorMethod.BACKUP_CODE:
         return !!user.backupCodes && user.backupCodes.length > 0;
       default:
@@ -247,23 +367,4 @@ export class TwoFactorSettingsService {
     }
     return codes;
   }
-
-  /**
-   * Генерировать TOTP секрет
-   */
-  private generateTotpSecret(): string {
-    return crypto.randomBytes(20).toString('hex');
-  }
-
-  /**
-   * Генерировать QR код для TOTP
-   */
-  private generateTotpQrCode(userId: string, secret: string): string {
-    const issuer = 'Loginus';
-    const accountName = userId;
-    const otpAuthUrl = `otpauth://totp/${issuer}:${accountName}?secret=${secret}&issuer=${issuer}`;
-    
-    // В реальном приложении здесь бы использовалась библиотека для генерации QR кода
-    return `https://api.qrserver.com/v1/create-qr-code/?size=200x200&data=${encodeURIComponent(otpAuthUrl)}`;
-  }
 }
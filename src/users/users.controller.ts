@@ -3,7 +3,6 @@ import { ApiTags, ApiOperation, ApiResponse, ApiBearerAuth } from '@nestjs/swagg
 import { UsersService } from './users.service';
 import { User } from './entities/user.entity';
 import { JwtAuthGuard } from '../auth/guards/jwt-auth.guard';
-import { PermissionsGuard } from '../auth/guards/permissions.guard';
 import { RequirePermissions } from '../auth/decorators/permissions.decorator';
 import { CurrentUser } from '../auth/decorators/current-user.decorator';
 import { Public } from '../auth/decorators/public.decorator';
@@ -28,6 +27,7 @@ export class UsersController {
 
   @Post()
   @UseGuards(JwtAuthGuard)
+  @RequirePermissions('users.create')
   @ApiBearerAuth()
   @ApiOperation({ summary: 'Создание нового пользователя' })
   @ApiResponse({ status: 201, description: 'Пользователь создан' })
@@ -200,6 +200,7 @@ export class UsersController {
 
   @Patch(':id')
   @UseGuards(JwtAuthGuard)
+  @RequirePermissions('users.update')
   @ApiBearerAuth()
   @ApiOperation({ summary: 'Обновление пользователя' })
   @ApiResponse({ status: 200, description: 'Пользователь обновлен' })
@@ -228,6 +229,7 @@ export class UsersController {
 
   @Delete(':id')
   @UseGuards(JwtAuthGuard)
+  @RequirePermissions('users.delete')
   @ApiBearerAuth()
   @ApiOperation({ summary: 'Удаление пользователя' })
   @ApiResponse({ status: 200, description: 'Пользователь удален' })
@@ -4,6 +4,7 @@ import { UsersService } from './users.service';
 import { UsersController } from './users.controller';
 import { TwoFactorSettingsService } from './two-factor-settings.service';
 import { TwoFactorSettingsController } from './two-factor-settings.controller';
+import { TotpService } from './totp.service';
 import { UserRoleManagementService } from './user-role-management.service';
 import { UserRoleManagementController } from './user-role-management.controller';
 import { User } from './entities/user.entity';
@@ -12,6 +13,7 @@ import { Role } from '../rbac/entities/role.entity';
 import { OrganizationRole } from '../organizations/entities/organization-role.entity';
 import { TeamRole } from '../teams/entities/team-role.entity';
 import { Invitation } from '../auth/micro-modules/invitations/entities/invitation.entity';
+import { WebAuthnCredential } from '../auth/entities/webauthn-credential.entity';
 import { Team } from '../teams/entities/team.entity';
 import { TeamMembership } from '../teams/entities/team-membership.entity';
 import { OrganizationMembership } from '../organizations/entities/organization-membership.entity';
@@ -30,12 +32,13 @@ import { RbacModule } from '../rbac/rbac.module';
       Team, 
       TeamMembership, 
       OrganizationMembership, 
-      Organization
+      Organization,
+      WebAuthnCredential,
     ]),
     RbacModule,
   ],
   controllers: [UsersController, TwoFactorSettingsController, UserRoleManagementController],
-  providers: [UsersService, TwoFactorSettingsService, UserRoleManagementService],
-  exports: [UsersService, TwoFactorSettingsService, UserRoleManagementService],
+  providers: [UsersService, TwoFactorSettingsService, TotpService, UserRoleManagementService],
+  exports: [UsersService, TwoFactorSettingsService, UserRoleManagementService, TotpService],
 })
 export class UsersModule {}
@@ -2,7 +2,6 @@ import { Injectable, NotFoundException, ForbiddenException } from '@nestjs/commo
 import { InjectRepository } from '@nestjs/typeorm';
 import { Repository, In, IsNull } from 'typeorm';
 import { User } from './entities/user.entity';
-import { Invitation } from '../auth/micro-modules/invitations/entities/invitation.entity';
 import { Team } from '../teams/entities/team.entity';
 import { TeamMembership } from '../teams/entities/team-membership.entity';
 import { OrganizationMembership } from '../organizations/entities/organization-membership.entity';
@@ -12,14 +11,15 @@ import { OrganizationRole } from '../organizations/entities/organization-role.en
 import { TeamRole } from '../teams/entities/team-role.entity';
 import { UserRoleAssignment } from './entities/user-role-assignment.entity';
 import { RoleHierarchyService } from '../rbac/role-hierarchy.service';
+import { WebhooksService } from '../webhooks/webhooks.service';
+import { WebhookEvent } from '../webhooks/enums/webhook-event.enum';
+import { PersonalDataService } from '../privacy/personal-data.service';
 
 @Injectable()
 export class UsersService {
   constructor(
     @InjectRepository(User)
     private usersRepo: Repository<User>,
-    @InjectRepository(Invitation)
-    private invitationsRepo: Repository<Invitation>,
     @InjectRepository(Team)
     private teamsRepo: Repository<Team>,
     @InjectRepository(TeamMembership)
@@ -37,6 +37,8 @@ export class UsersService {
     @InjectRepository(UserRoleAssignment)
     private userRoleAssignmentRepo: Repository<UserRoleAssignment>,
     private roleHierarchyService: RoleHierarchyService,
+    private webhooksService: WebhooksService,
+    private personalDataService: PersonalDataService,
   ) {}
 
   async findById(id: string, options?: { select?: string[]; relations?: string[] }): Promise<User | null> {
@@ -97,6 +99,10 @@ export class UsersService {
     return this.usersRepo.save(user);
   }
 
+  /**
+   * Удаление пользователя по тем же правилам, что и по запросу субъекта данных:
+   * в одной транзакции, с обезличиванием записей, которые нужно хранить
+   */
   async delete(id: string): Promise<void> {
     // Проверяем, существует ли пользователь
     const user = await this.findById(id);
@@ -105,67 +111,7 @@ export class UsersService {
     }
 
     console.log(`🗑️ Deleting user ${id} and all related data...`);
-
-    // 1. Удаляем все связанные приглашения (где пользователь является приглашающим или принявшим)
-    await this.invitationsRepo.delete([
-      { invitedById: id },
-      { acceptedById: id }
-    ]);
-    console.log('✅ Deleted invitations');
-
-    // 2. Удаляем связи пользователя с ролями
-    await this.usersRepo.query('DELETE FROM user_role_assignments WHERE "userId" = $1', [id]);
-    console.log('✅ Deleted user role assignments');
-
-    // 3. Удаляем связи пользователя с командами (старая система)
-    await this.usersRepo.query('DELETE FROM user_teams WHERE user_id = $1', [id]);
-    console.log('✅ Deleted user team assignments');
-
-    // 4. Удаляем связи пользователя с организациями (старая система)
-    await this.usersRepo.query('DELETE FROM user_organizations WHERE user_id = $1', [id]);
-    console.log('✅ Deleted user organization assignments');
-
-    // 5. Удаляем связи пользователя с командами (новая система)
-    await this.teamMembershipRepo.delete({ userId: id });
-    console.log('✅ Deleted team memberships');
-
-    // 6. Удаляем связи пользователя с организациями (новая система)
-    await this.orgMembershipRepo.delete({ userId: id });
-    console.log('✅ Deleted organization memberships');
-
-    // 7. Удаляем refresh tokens
-    await this.usersRepo.query('DELETE FROM refresh_tokens WHERE "userId" = $1', [id]);
-    console.log('✅ Deleted refresh tokens');
-
-    // 8. Удаляем two-factor codes
-    await this.usersRepo.query('DELETE FROM two_factor_codes WHERE "userId" = $1', [id]);
-    console.log('✅ Deleted two-factor codes');
-
-    // 9. Удаляем email verification tokens
-    await this.usersRepo.query('DELETE FROM email_verification_tokens WHERE "userId" = $1', [id]);
-    console.log('✅ Deleted email verification tokens');
-
-    // 10. Удаляем password reset tokens
-    await this.usersRepo.query('DELETE FROM password_reset_tokens WHERE "userId" = $1', [id]);
-    console.log('✅ Deleted password reset tokens');
-
-    // 11. Удаляем notifications
-    await this.usersRepo.query('DELETE FROM notifications WHERE "userId" = $1', [id]);
-    console.log('✅ Deleted notifications');
-
-    // 12. Удаляем referrals (где пользователь является referrer или referred)
-    await this.usersRepo.query('DELETE FROM referrals WHERE "referrerId" = $1 OR "referredUserId" = $1 OR "referredId" = $1', [id]);
-    console.log('✅ Deleted referrals');
-
-    // 13. Удаляем audit logs
-    await this.usersRepo.query('DELETE FROM audit_logs WHERE "userId" = $1', [id]);
-    console.log('✅ Deleted audit logs');
-
-    // 14. Удаляем пользователя
-    const result = await this.usersRepo.delete(id);
-    if (result.affected === 0) {
-      throw new NotFoundException('User not found');
-    }
+    await this.usersRepo.manager.transaction((manager) => this.personalDataService.erase(manager, id));
     console.log('✅ User deleted successfully');
   }
 
@@ -913,6 +859,13 @@ export class UsersService {
       }
     }
 
+    await this.webhooksService.emitForUser(
+      WebhookEvent.USER_ROLE_CHANGED,
+      userId,
+      { roleId, organizationId: organizationId ?? null, teamId: teamId ?? null, assignedBy },
+      organizationId ? [organizationId] : undefined,
+    );
+
     // Возвращаем обновленного пользователя
     const updatedUser = await this.findById(userId);
     if (!updatedUser) {
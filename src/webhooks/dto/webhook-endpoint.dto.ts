@@ -0,0 +1,107 @@
+import {
+  ArrayMinSize,
+  ArrayUnique,
+  IsArray,
+  IsBoolean,
+  IsEnum,
+  IsIn,
+  IsInt,
+  IsOptional,
+  IsString,
+  IsUrl,
+  IsUUID,
+  Max,
+  MaxLength,
+  Min,
+} from 'class-validator';
+import { Type } from 'class-transformer';
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { WebhookEvent } from '../enums/webhook-event.enum';
+
+// Домен верхнего уровня обязателен: голые имена хостов внутренней сети не проходят.
+// Адреса, которые резолвятся во внутреннюю сеть, отсекает assertPublicWebhookUrl
+const URL_OPTIONS = {
+  protocols: ['http', 'https'],
+  require_protocol: true,
+};
+
+export class CreateWebhookEndpointDto {
+  @ApiProperty({ example: 'https://hr.example.com/hooks/loginus' })
+  @IsUrl(URL_OPTIONS)
+  @MaxLength(2048)
+  url: string;
+
+  @ApiPropertyOptional()
+  @IsOptional()
+  @IsString()
+  @MaxLength(255)
+  description?: string;
+
+  @ApiProperty({ enum: WebhookEvent, isArray: true })
+  @IsArray()
+  @ArrayMinSize(1)
+  @ArrayUnique()
+  @IsEnum(WebhookEvent, { each: true })
+  events: WebhookEvent[];
+}
+
+export class UpdateWebhookEndpointDto {
+  @ApiPropertyOptional()
+  @IsOptional()
+  @IsUrl(URL_OPTIONS)
+  @MaxLength(2048)
+  url?: string;
+
+  @ApiPropertyOptional()
+  @IsOptional()
+  @IsString()
+  @MaxLength(255)
+  description?: string;
+
+  @ApiPropertyOptional({ enum: WebhookEvent, isArray: true })
+  @IsOptional()
+  @IsArray()
+  @ArrayMinSize(1)
+  @ArrayUnique()
+  @IsEnum(WebhookEvent, { each: true })
+  events?: WebhookEvent[];
+
+  @ApiPropertyOptional()
+  @IsOptional()
+  @IsBoolean()
+  isActive?: boolean;
+}
+
+export class WebhookDeliveriesQueryDto {
+  @ApiPropertyOptional()
+  @IsOptional()
+  @IsUUID()
+  endpointId?: string;
+
+  @ApiPropertyOptional({
+    enum: ['pending', 'delivering', 'succeeded', 'failed'],
+  })
+  @IsOptional()
+  @IsIn(['pending', 'delivering', 'succeeded', 'failed'])
+  status?: 'pending' | 'delivering' | 'succeeded' | 'failed';
+
+  @ApiPropertyOptional({ enum: WebhookEvent })
+  @IsOptional()
+  @IsEnum(WebhookEvent)
+  event?: WebhookEvent;
+
+  @ApiPropertyOptional({ default: 50 })
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt()
+  @Min(1)
+  @Max(200)
+  limit?: number;
+
+  @ApiPropertyOptional({ default: 0 })
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt()
+  @Min(0)
+  offset?: number;
+}
@@ -0,0 +1,77 @@
+import {
+  Entity,
+  PrimaryGeneratedColumn,
+  Column,
+  CreateDateColumn,
+  UpdateDateColumn,
+  ManyToOne,
+  JoinColumn,
+  Index,
+} from 'typeorm';
+import { WebhookEndpoint } from './webhook-endpoint.entity';
+import type {
+  WebhookDeliveryStatus,
+  WebhookEvent,
+} from '../enums/webhook-event.enum';
+
+export interface WebhookPayload {
+  id: string; // Идентификатор события, общий для всех адресов и повторов
+  event: WebhookEvent;
+  createdAt: string;
+  organizationId: string;
+  data: Record<string, unknown>;
+}
+
+/**
+ * Доставка события на адрес: очередь с повторами и журнал кодов ответа
+ */
+@Entity('webhook_deliveries')
+@Index(['status', 'nextAttemptAt'])
+@Index(['endpointId', 'createdAt'])
+export class WebhookDelivery {
+  @PrimaryGeneratedColumn('uuid')
+  id: string;
+
+  @Column({ type: 'uuid' })
+  endpointId: string;
+
+  @Column({ type: 'uuid' })
+  organizationId: string;
+
+  @Column({ type: 'varchar', length: 100 })
+  event: WebhookEvent;
+
+  @Column({ type: 'jsonb' })
+  payload: WebhookPayload;
+
+  @Column({ type: 'varchar', length: 20, default: 'pending' })
+  status: WebhookDeliveryStatus;
+
+  @Column({ type: 'int', default: 0 })
+  attempts: number;
+
+  @Column({ type: 'timestamp', default: () => 'CURRENT_TIMESTAMP' })
+  nextAttemptAt: Date;
+
+  @Column({ type: 'timestamp', nullable: true })
+  lastAttemptAt: Date | null;
+
+  @Column({ type: 'int', nullable: true })
+  responseStatus: number | null;
+
+  @Column({ type: 'text', nullable: true })
+  error: string | null;
+
+  @Column({ type: 'uuid', nullable: true })
+  replayOfId: string | null; // Исходная доставка, если это повтор вручную
+
+  @CreateDateColumn()
+  createdAt: Date;
+
+  @UpdateDateColumn()
+  updatedAt: Date;
+
+  @ManyToOne(() => WebhookEndpoint, { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'endpointId' })
+  endpoint: WebhookEndpoint;
+}
@@ -0,0 +1,18 @@
+export enum WebhookEvent {
+  USER_REGISTERED = 'user.registered',
+  USER_EMAIL_VERIFIED = 'user.email_verified',
+  USER_ROLE_CHANGED = 'user.role_changed',
+  ORGANIZATION_MEMBER_ADDED = 'organization.member_added',
+  ORGANIZATION_MEMBER_REMOVED = 'organization.member_removed',
+  ORGANIZATION_MEMBER_ROLE_CHANGED = 'organization.member_role_changed',
+  TEAM_MEMBER_ADDED = 'team.member_added',
+  TEAM_MEMBER_REMOVED = 'team.member_removed',
+  TEAM_MEMBER_ROLE_CHANGED = 'team.member_role_changed',
+  INVITATION_ACCEPTED = 'invitation.accepted',
+}
+
+export type WebhookDeliveryStatus =
+  | 'pending'
+  | 'delivering'
+  | 'succeeded'
+  | 'failed';
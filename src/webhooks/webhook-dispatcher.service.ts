@@ -0,0 +1,245 @@
+import { BadRequestException, Injectable, Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { InjectRepository } from '@nestjs/typeorm';
+import { Cron, CronExpression } from '@nestjs/schedule';
+import { DataSource, In, LessThan, Repository } from 'typeorm';
+import type { LookupAddress } from 'dns';
+import * as http from 'http';
+import * as https from 'https';
+import { WebhookEndpoint } from './entities/webhook-endpoint.entity';
+import { WebhookDelivery } from './entities/webhook-delivery.entity';
+import {
+  signWebhookPayload,
+  WEBHOOK_DELIVERY_HEADER,
+  WEBHOOK_EVENT_HEADER,
+  WEBHOOK_SIGNATURE_HEADER,
+  WEBHOOK_TIMESTAMP_HEADER,
+} from './webhook-signature';
+import { pinnedLookup, resolvePublicWebhookAddress } from './webhook-url';
+import { SecretCipherService } from '../auth/services/secret-cipher.service';
+
+// Доставка в статусе delivering дольше этого считается прерванной (рестарт процесса)
+const STUCK_DELIVERY_MS = 5 * 60 * 1000;
+
+/**
+ * Отправка вебхуков из очереди: подпись HMAC, повторы с экспоненциальной паузой.
+ * Строки очереди забираются через FOR UPDATE SKIP LOCKED, поэтому реплик может быть несколько
+ */
+@Injectable()
+export class WebhookDispatcherService {
+  private readonly logger = new Logger(WebhookDispatcherService.name);
+  private processing = false;
+
+  constructor(
+    @InjectRepository(WebhookEndpoint)
+    private endpointsRepo: Repository<WebhookEndpoint>,
+    @InjectRepository(WebhookDelivery)
+    private deliveriesRepo: Repository<WebhookDelivery>,
+    private dataSource: DataSource,
+    private secretCipherService: SecretCipherService,
+    private configService: ConfigService,
+  ) {}
+
+  @Cron(CronExpression.EVERY_10_SECONDS)
+  async processQueue(): Promise<void> {
+    if (this.processing) {
+      return;
+    }
+    this.processing = true;
+    try {
+      await this.releaseStuckDeliveries();
+
+      const batchSize = this.configService.get<number>('webhooks.batchSize')!;
+      let batch: WebhookDelivery[];
+      do {
+        batch = await this.claimDueDeliveries(batchSize);
+        for (const delivery of batch) {
+          await this.deliver(delivery);
+        }
+      } while (batch.length === batchSize);
+    } catch (error) {
+      this.logger.error(
+        `❌ Ошибка обработки очереди вебхуков: ${(error as Error).message}`,
+      );
+    } finally {
+      this.processing = false;
+    }
+  }
+
+  @Cron(CronExpression.EVERY_DAY_AT_3AM)
+  async cleanup(): Promise<void> {
+    const retentionDays = this.configService.get<number>(
+      'webhooks.retentionDays',
+    )!;
+    const result = await this.deliveriesRepo.delete({
+      status: In(['succeeded', 'failed']),
+      createdAt: LessThan(new Date(Date.now() - retentionDays * 86_400_000)),
+    });
+    if (result.affected) {
+      this.logger.log(
+        `🧹 Удалено старых доставок вебхуков: ${result.affected}`,
+      );
+    }
+  }
+
+  /**
+   * Пауза перед следующей попыткой: base * 2^(attempts-1) с разбросом ±20%
+   */
+  retryDelayMs(attempts: number): number {
+    const base = this.configService.get<number>('webhooks.baseDelaySeconds')!;
+    const max = this.configService.get<number>('webhooks.maxDelaySeconds')!;
+    const delay = Math.min(base * 2 ** (attempts - 1), max) * 1000;
+    return Math.round(delay * (0.8 + Math.random() * 0.4));
+  }
+
+  private async claimDueDeliveries(limit: number): Promise<WebhookDelivery[]> {
+    return this.dataSource.transaction(async (manager) => {
+      const due = await manager
+        .getRepository(WebhookDelivery)
+        .createQueryBuilder('delivery')
+        .where('delivery.status = :status', { status: 'pending' })
+        .andWhere('delivery.nextAttemptAt <= :now', { now: new Date() })
+        .orderBy('delivery.nextAttemptAt', 'ASC')
+        .limit(limit)
+        .setLock('pessimistic_write')
+        .setOnLocked('skip_locked')
+        .getMany();
+
+      if (due.length > 0) {
+        await manager.update(
+          WebhookDelivery,
+          { id: In(due.map((delivery) => delivery.id)) },
+          { status: 'delivering', lastAttemptAt: new Date() },
+        );
+      }
+      return due;
+    });
+  }
+
+  private async releaseStuckDeliveries(): Promise<void> {
+    await this.deliveriesRepo.update(
+      {
+        status: 'delivering',
+        lastAttemptAt: LessThan(new Date(Date.now() - STUCK_DELIVERY_MS)),
+      },
+      { status: 'pending' },
+    );
+  }
+
+  private async deliver(delivery: WebhookDelivery): Promise<void> {
+    const endpoint = await this.endpointsRepo
+      .createQueryBuilder('endpoint')
+      .addSelect('endpoint.secret')
+      .where('endpoint.id = :id', { id: delivery.endpointId })
+      .getOne();
+
+    const attempts = delivery.attempts + 1;
+    if (!endpoint || !endpoint.isActive) {
+      await this.deliveriesRepo.update(delivery.id, {
+        status: 'failed',
+        attempts,
+        error: 'Адрес вебхука отключён или удалён',
+      });
+      return;
+    }
+
+    const body = JSON.stringify(delivery.payload);
+    const timestamp = Math.floor(Date.now() / 1000);
+    let responseStatus: number | null = null;
+    let error: string | null = null;
+
+    try {
+      // Хост мог начать резолвиться во внутреннюю сеть уже после сохранения адреса
+      const target = await resolvePublicWebhookAddress(endpoint.url);
+      responseStatus = await this.post(endpoint.url, target, body, {
+        'Content-Type': 'application/json',
+        'User-Agent': 'Loginus-Webhooks/1.0',
+        [WEBHOOK_EVENT_HEADER]: delivery.event,
+        [WEBHOOK_DELIVERY_HEADER]: delivery.id,
+        [WEBHOOK_TIMESTAMP_HEADER]: String(timestamp),
+        [WEBHOOK_SIGNATURE_HEADER]: signWebhookPayload(
+          this.secretCipherService.decrypt(endpoint.secret),
+          timestamp,
+          body,
+        ),
+      });
+      if (responseStatus < 200 || responseStatus >= 300) {
+        error = `HTTP ${responseStatus}`;
+      }
+    } catch (e) {
+      if (e instanceof BadRequestException) {
+        await this.deliveriesRepo.update(delivery.id, {
+          status: 'failed',
+          attempts,
+          responseStatus: null,
+          error: e.message,
+        });
+        this.logger.warn(
+          `⚠️ Вебхук ${delivery.event} не отправлен: ${endpoint.url} указывает во внутреннюю сеть`,
+        );
+        return;
+      }
+      // Ошибка DNS или сети временная: доставка уйдёт на повтор
+      error = (e as Error).message;
+    }
+
+    if (!error) {
+      await this.deliveriesRepo.update(delivery.id, {
+        status: 'succeeded',
+        attempts,
+        responseStatus,
+        error: null,
+      });
+      return;
+    }
+
+    const maxAttempts = this.configService.get<number>('webhooks.maxAttempts')!;
+    const exhausted = attempts >= maxAttempts;
+    await this.deliveriesRepo.update(delivery.id, {
+      status: exhausted ? 'failed' : 'pending',
+      attempts,
+      responseStatus,
+      error,
+      nextAttemptAt: exhausted
+        ? delivery.nextAttemptAt
+        : new Date(Date.now() + this.retryDelayMs(attempts)),
+    });
+    if (exhausted) {
+      this.logger.warn(
+        `⚠️ Вебхук ${delivery.event} на ${endpoint.url} не доставлен после ${attempts} попыток: ${error}`,
+      );
+    }
+  }
+
+  /**
+   * POST на проверенный адрес без повторного DNS-запроса. Тело ответа не читается и не хранится:
+   * в журнал попадает только код ответа, чтобы через доставки нельзя было читать чужие ответы
+   */
+  private post(
+    url: string,
+    target: LookupAddress,
+    body: string,
+    headers: Record<string, string>,
+  ): Promise<number> {
+    const client = new URL(url).protocol === 'https:' ? https : http;
+    return new Promise((resolve, reject) => {
+      const request = client.request(
+        url,
+        {
+          method: 'POST',
+          headers: { ...headers, 'Content-Length': Buffer.byteLength(body) },
+          lookup: pinnedLookup(target),
+          signal: AbortSignal.timeout(
+            this.configService.get<number>('webhooks.timeoutMs')!,
+          ),
+        },
+        (response) => {
+          response.resume();
+          resolve(response.statusCode ?? 0);
+        },
+      );
+      request.on('error', reject);
+      request.end(body);
+    });
+  }
+}
@@ -0,0 +1,39 @@
+import { createHmac, randomBytes, timingSafeEqual } from 'crypto';
+
+export const WEBHOOK_SIGNATURE_HEADER = 'X-Loginus-Signature';
+export const WEBHOOK_TIMESTAMP_HEADER = 'X-Loginus-Timestamp';
+export const WEBHOOK_EVENT_HEADER = 'X-Loginus-Event';
+export const WEBHOOK_DELIVERY_HEADER = 'X-Loginus-Delivery';
+
+export function generateWebhookSecret(): string {
+  return `whsec_${randomBytes(32).toString('base64url')}`;
+}
+
+/**
+ * Подпись вебхука: sha256=HMAC-SHA256(secret, "<timestamp>.<тело запроса>") в hex.
+ * Метка времени в подписи не даёт переиграть старый запрос
+ */
+export function signWebhookPayload(
+  secret: string,
+  timestamp: number,
+  body: string,
+): string {
+  const digest = createHmac('sha256', secret)
+    .update(`${timestamp}.${body}`)
+    .digest('hex');
+  return `sha256=${digest}`;
+}
+
+/**
+ * Проверка подписи на стороне получателя (для SDK и тестов)
+ */
+export function verifyWebhookSignature(
+  secret: string,
+  timestamp: number,
+  body: string,
+  signature: string,
+): boolean {
+  const expected = Buffer.from(signWebhookPayload(secret, timestamp, body));
+  const actual = Buffer.from(signature);
+  return expected.length === actual.length && timingSafeEqual(expected, actual);
+}
@@ -0,0 +1,122 @@
+import { BadRequestException } from '@nestjs/common';
+import { lookup } from 'dns/promises';
+import {
+  assertPublicWebhookUrl,
+  isPublicAddress,
+  pinnedLookup,
+  resolvePublicWebhookAddress,
+} from './webhook-url';
+
+jest.mock('dns/promises', () => ({ lookup: jest.fn() }));
+
+const mockLookup = lookup as unknown as jest.Mock;
+
+describe('webhook-url', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  describe('isPublicAddress', () => {
+    it.each([
+      '127.0.0.1',
+      '10.1.2.3',
+      '172.16.0.1',
+      '192.168.1.1',
+      '169.254.169.254',
+      '100.64.0.1',
+      '0.0.0.0',
+      '::1',
+      '::',
+      'fe80::1',
+      'fd00::1',
+      '::ffff:127.0.0.1',
+      '::ffff:169.254.169.254',
+    ])('should reject %s', (address) => {
+      expect(isPublicAddress(address)).toBe(false);
+    });
+
+    it.each(['93.184.216.34', '8.8.8.8', '2606:4700:4700::1111'])(
+      'should accept %s',
+      (address) => {
+        expect(isPublicAddress(address)).toBe(true);
+      },
+    );
+  });
+
+  describe('assertPublicWebhookUrl', () => {
+    it('should accept a host that resolves to public addresses only', async () => {
+      mockLookup.mockResolvedValue([{ address: '93.184.216.34', family: 4 }]);
+
+      await expect(
+        assertPublicWebhookUrl('https://hooks.example.com/loginus'),
+      ).resolves.toBeUndefined();
+      expect(mockLookup).toHaveBeenCalledWith('hooks.example.com', {
+        all: true,
+        verbatim: true,
+      });
+    });
+
+    it('should reject a host with at least one internal address', async () => {
+      mockLookup.mockResolvedValue([
+        { address: '93.184.216.34', family: 4 },
+        { address: '10.0.0.5', family: 4 },
+      ]);
+
+      await expect(
+        assertPublicWebhookUrl('https://hooks.example.com/loginus'),
+      ).rejects.toThrow(BadRequestException);
+    });
+
+    it('should reject IP literals without resolving them', async () => {
+      await expect(
+        assertPublicWebhookUrl('http://169.254.169.254/latest/meta-data'),
+      ).rejects.toThrow(BadRequestException);
+      await expect(
+        assertPublicWebhookUrl('http://[::1]:8080/hook'),
+      ).rejects.toThrow(BadRequestException);
+      expect(mockLookup).not.toHaveBeenCalled();
+    });
+
+    it('should pass DNS errors through', async () => {
+      mockLookup.mockRejectedValue(new Error('getaddrinfo ENOTFOUND'));
+
+      await expect(
+        assertPublicWebhookUrl('https://missing.example.com'),
+      ).rejects.toThrow('getaddrinfo ENOTFOUND');
+    });
+  });
+
+  describe('resolvePublicWebhookAddress', () => {
+    it('should return the checked address to connect to', async () => {
+      mockLookup.mockResolvedValue([
+        { address: '93.184.216.34', family: 4 },
+        { address: '2606:2800:220:1::248', family: 6 },
+      ]);
+
+      await expect(
+        resolvePublicWebhookAddress('https://hooks.example.com/loginus'),
+      ).resolves.toEqual({ address: '93.184.216.34', family: 4 });
+    });
+  });
+
+  describe('pinnedLookup', () => {
+    const target = { address: '93.184.216.34', family: 4 };
+
+    it('should answer with the checked address instead of resolving again', () => {
+      const callback = jest.fn();
+
+      pinnedLookup(target)('hooks.example.com', {}, callback);
+
+      expect(callback).toHaveBeenCalledWith(null, '93.184.216.34', 4);
+      expect(mockLookup).not.toHaveBeenCalled();
+    });
+
+    it('should answer a lookup for all addresses with the checked one only', () => {
+      const callback = jest.fn();
+
+      pinnedLookup(target)('hooks.example.com', { all: true }, callback);
+
+      expect(callback).toHaveBeenCalledWith(null, [target]);
+    });
+  });
+});
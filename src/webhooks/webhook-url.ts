@@ -0,0 +1,80 @@
+import { BadRequestException } from '@nestjs/common';
+import type { LookupAddress } from 'dns';
+import { lookup } from 'dns/promises';
+import { BlockList, isIP, type LookupFunction } from 'net';
+
+// Внутренняя сеть, loopback, link-local (метаданные облака) и служебные диапазоны.
+// IPv4-mapped IPv6 (::ffff:127.0.0.1) BlockList сверяет с IPv4-правилами
+const BLOCKED_SUBNETS: Array<[string, number, 'ipv4' | 'ipv6']> = [
+  ['0.0.0.0', 8, 'ipv4'],
+  ['10.0.0.0', 8, 'ipv4'],
+  ['100.64.0.0', 10, 'ipv4'],
+  ['127.0.0.0', 8, 'ipv4'],
+  ['169.254.0.0', 16, 'ipv4'],
+  ['172.16.0.0', 12, 'ipv4'],
+  ['192.0.0.0', 24, 'ipv4'],
+  ['192.168.0.0', 16, 'ipv4'],
+  ['198.18.0.0', 15, 'ipv4'],
+  ['224.0.0.0', 3, 'ipv4'],
+  ['::', 127, 'ipv6'],
+  ['64:ff9b::', 96, 'ipv6'],
+  ['fc00::', 7, 'ipv6'],
+  ['fe80::', 10, 'ipv6'],
+  ['ff00::', 8, 'ipv6'],
+];
+
+const BLOCKED_ADDRESSES = new BlockList();
+for (const [network, prefix, family] of BLOCKED_SUBNETS) {
+  BLOCKED_ADDRESSES.addSubnet(network, prefix, family);
+}
+
+export function isPublicAddress(address: string): boolean {
+  const family = isIP(address);
+  if (family === 0) {
+    return false;
+  }
+  return !BLOCKED_ADDRESSES.check(address, family === 4 ? 'ipv4' : 'ipv6');
+}
+
+/**
+ * Адрес вебхука должен вести только в публичную сеть: проверяются все адреса, в которые резолвится хост.
+ * Возвращает проверенный адрес, на который и нужно соединяться (см. pinnedLookup).
+ * Ошибка DNS пробрасывается как есть, внутренний адрес - BadRequestException
+ */
+export async function resolvePublicWebhookAddress(
+  url: string,
+): Promise<LookupAddress> {
+  const hostname = new URL(url).hostname.replace(/^\[|\]$/g, '');
+  const addresses = isIP(hostname)
+    ? [{ address: hostname, family: isIP(hostname) }]
+    : await lookup(hostname, { all: true, verbatim: true });
+
+  if (
+    addresses.length === 0 ||
+    !addresses.every((entry) => isPublicAddress(entry.address))
+  ) {
+    throw new BadRequestException('Адрес вебхука указывает во внутреннюю сеть');
+  }
+  return addresses[0];
+}
+
+/**
+ * Проверка при сохранении адреса
+ */
+export async function assertPublicWebhookUrl(url: string): Promise<void> {
+  await resolvePublicWebhookAddress(url);
+}
+
+/**
+ * lookup для http(s).request, отдающий уже проверенный адрес вместо нового DNS-запроса:
+ * иначе хост успел бы перерезолвиться во внутреннюю сеть между проверкой и соединением (DNS rebinding)
+ */
+export function pinnedLookup(target: LookupAddress): LookupFunction {
+  return (_hostname, options, callback) => {
+    if (options.all) {
+      callback(null, [target]);
+    } else {
+      callback(null, target.address, target.family);
+    }
+  };
+}
@@ -0,0 +1,129 @@
+import {
+  Body,
+  Controller,
+  Delete,
+  Get,
+  HttpCode,
+  Param,
+  ParseUUIDPipe,
+  Patch,
+  Post,
+  Query,
+  UseGuards,
+} from '@nestjs/common';
+import {
+  ApiTags,
+  ApiOperation,
+  ApiResponse,
+  ApiBearerAuth,
+} from '@nestjs/swagger';
+import { WebhooksService } from './webhooks.service';
+import {
+  CreateWebhookEndpointDto,
+  UpdateWebhookEndpointDto,
+  WebhookDeliveriesQueryDto,
+} from './dto/webhook-endpoint.dto';
+import { JwtAuthGuard } from '../auth/guards/jwt-auth.guard';
+import { CurrentUser } from '../auth/decorators/current-user.decorator';
+import { RequirePermissions } from '../auth/decorators/permissions.decorator';
+import { PermissionScope } from '../auth/decorators/permission-scope.decorator';
+
+@ApiTags('webhooks')
+@Controller('organizations/:id/webhooks')
+@UseGuards(JwtAuthGuard)
+@ApiBearerAuth()
+@RequirePermissions('organizations.update')
+@PermissionScope({ organization: 'params.id' })
+export class WebhooksController {
+  constructor(private readonly webhooksService: WebhooksService) {}
+
+  @Get()
+  @ApiOperation({ summary: 'Адреса вебхуков организации' })
+  @ApiResponse({ status: 200, description: 'Список адресов' })
+  async findEndpoints(@Param('id', ParseUUIDPipe) organizationId: string) {
+    return this.webhooksService.findEndpoints(organizationId);
+  }
+
+  @Post()
+  @ApiOperation({
+    summary: 'Добавить адрес (секрет подписи показывается один раз)',
+  })
+  @ApiResponse({ status: 201, description: 'Адрес добавлен' })
+  async createEndpoint(
+    @Param('id', ParseUUIDPipe) organizationId: string,
+    @Body() dto: CreateWebhookEndpointDto,
+    @CurrentUser() user: { userId: string },
+  ) {
+    return this.webhooksService.createEndpoint(
+      organizationId,
+      dto,
+      user.userId,
+    );
+  }
+
+  @Get('deliveries')
+  @ApiOperation({ summary: 'Журнал доставок' })
+  @ApiResponse({ status: 200, description: 'Доставки, новые сверху' })
+  async findDeliveries(
+    @Param('id', ParseUUIDPipe) organizationId: string,
+    @Query() query: WebhookDeliveriesQueryDto,
+  ) {
+    return this.webhooksService.findDeliveries(organizationId, query);
+  }
+
+  @Get('deliveries/:deliveryId')
+  @ApiOperation({ summary: 'Доставка и код ответа получателя' })
+  @ApiResponse({ status: 200, description: 'Доставка найдена' })
+  @ApiResponse({ status: 404, description: 'Доставка не найдена' })
+  async getDelivery(
+    @Param('id', ParseUUIDPipe) organizationId: string,
+    @Param('deliveryId', ParseUUIDPipe) deliveryId: string,
+  ) {
+    return this.webhooksService.getDelivery(organizationId, deliveryId);
+  }
+
+  @Post('deliveries/:deliveryId/replay')
+  @ApiOperation({ summary: 'Повторить доставку события' })
+  @ApiResponse({ status: 201, description: 'Доставка поставлена в очередь' })
+  async replay(
+    @Param('id', ParseUUIDPipe) organizationId: string,
+    @Param('deliveryId', ParseUUIDPipe) deliveryId: string,
+  ) {
+    return this.webhooksService.replay(organizationId, deliveryId);
+  }
+
+  @Patch(':endpointId')
+  @ApiOperation({ summary: 'Изменить адрес, события или включить/отключить' })
+  @ApiResponse({ status: 200, description: 'Адрес обновлён' })
+  async updateEndpoint(
+    @Param('id', ParseUUIDPipe) organizationId: string,
+    @Param('endpointId', ParseUUIDPipe) endpointId: string,
+    @Body() dto: UpdateWebhookEndpointDto,
+  ) {
+    return this.webhooksService.updateEndpoint(organizationId, endpointId, dto);
+  }
+
+  @Post(':endpointId/rotate-secret')
+  @HttpCode(200)
+  @ApiOperation({
+    summary: 'Новый секрет подписи (старый перестаёт действовать)',
+  })
+  @ApiResponse({ status: 200, description: 'Новый секрет' })
+  async rotateSecret(
+    @Param('id', ParseUUIDPipe) organizationId: string,
+    @Param('endpointId', ParseUUIDPipe) endpointId: string,
+  ) {
+    return this.webhooksService.rotateSecret(organizationId, endpointId);
+  }
+
+  @Delete(':endpointId')
+  @ApiOperation({ summary: 'Удалить адрес вместе с журналом доставок' })
+  @ApiResponse({ status: 200, description: 'Адрес удалён' })
+  async deleteEndpoint(
+    @Param('id', ParseUUIDPipe) organizationId: string,
+    @Param('endpointId', ParseUUIDPipe) endpointId: string,
+  ) {
+    await this.webhooksService.deleteEndpoint(organizationId, endpointId);
+    return { message: 'Адрес вебхука удалён' };
+  }
+}
@@ -0,0 +1,28 @@
+import { Global, Module } from '@nestjs/common';
+import { TypeOrmModule } from '@nestjs/typeorm';
+import { WebhookEndpoint } from './entities/webhook-endpoint.entity';
+import { WebhookDelivery } from './entities/webhook-delivery.entity';
+import { OrganizationMembership } from '../organizations/entities/organization-membership.entity';
+import { User } from '../users/entities/user.entity';
+import { WebhooksService } from './webhooks.service';
+import { WebhookDispatcherService } from './webhook-dispatcher.service';
+import { WebhooksController } from './webhooks.controller';
+
+/**
+ * Исходящие вебхуки доступны всем модулям, где происходят события пользователей и членства
+ */
+@Global()
+@Module({
+  imports: [
+    TypeOrmModule.forFeature([
+      WebhookEndpoint,
+      WebhookDelivery,
+      OrganizationMembership,
+      User,
+    ]),
+  ],
+  controllers: [WebhooksController],
+  providers: [WebhooksService, WebhookDispatcherService],
+  exports: [WebhooksService],
+})
+export class WebhooksModule {}
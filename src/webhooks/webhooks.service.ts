@@ -0,0 +1,284 @@
+import {
+  BadRequestException,
+  Injectable,
+  Logger,
+  NotFoundException,
+} from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { In, Repository } from 'typeorm';
+import { randomUUID } from 'crypto';
+import { WebhookEndpoint } from './entities/webhook-endpoint.entity';
+import { WebhookDelivery } from './entities/webhook-delivery.entity';
+import { WebhookEvent } from './enums/webhook-event.enum';
+import {
+  CreateWebhookEndpointDto,
+  UpdateWebhookEndpointDto,
+  WebhookDeliveriesQueryDto,
+} from './dto/webhook-endpoint.dto';
+import { generateWebhookSecret } from './webhook-signature';
+import { assertPublicWebhookUrl } from './webhook-url';
+import { OrganizationMembership } from '../organizations/entities/organization-membership.entity';
+import { User } from '../users/entities/user.entity';
+import { SecretCipherService } from '../auth/services/secret-cipher.service';
+
+/**
+ * Адреса вебхуков организаций и постановка событий в очередь доставки.
+ * Отправку и повторы выполняет WebhookDispatcherService
+ */
+@Injectable()
+export class WebhooksService {
+  private readonly logger = new Logger(WebhooksService.name);
+
+  constructor(
+    @InjectRepository(WebhookEndpoint)
+    private endpointsRepo: Repository<WebhookEndpoint>,
+    @InjectRepository(WebhookDelivery)
+    private deliveriesRepo: Repository<WebhookDelivery>,
+    @InjectRepository(OrganizationMembership)
+    private orgMembershipRepo: Repository<OrganizationMembership>,
+    @InjectRepository(User)
+    private usersRepo: Repository<User>,
+    private secretCipherService: SecretCipherService,
+  ) {}
+
+  /**
+   * Поставить событие в очередь для подписанных адресов организаций.
+   * Ошибки только логируются: вебхуки не должны ломать основной сценарий
+   */
+  async emit(
+    event: WebhookEvent,
+    organizationIds: Array<string | null | undefined>,
+    data: Record<string, unknown>,
+  ): Promise<void> {
+    const ids = [
+      ...new Set(organizationIds.filter((id): id is string => !!id)),
+    ];
+    if (ids.length === 0) {
+      return;
+    }
+
+    try {
+      const endpoints = await this.endpointsRepo.find({
+        where: { organizationId: In(ids), isActive: true },
+      });
+      const subscribed = endpoints.filter((endpoint) =>
+        endpoint.events.includes(event),
+      );
+      if (subscribed.length === 0) {
+        return;
+      }
+
+      const id = randomUUID();
+      const createdAt = new Date().toISOString();
+      await this.deliveriesRepo.save(
+        subscribed.map((endpoint) =>
+          this.deliveriesRepo.create({
+            endpointId: endpoint.id,
+            organizationId: endpoint.organizationId,
+            event,
+            payload: {
+              id,
+              event,
+              createdAt,
+              organizationId: endpoint.organizationId,
+              data,
+            },
+          }),
+        ),
+      );
+      this.logger.log(`📤 Вебхук ${event}: ${subscribed.length} доставок`);
+    } catch (error) {
+      this.logger.error(
+        `❌ Не удалось поставить вебхук ${event} в очередь: ${(error as Error).message}`,
+      );
+    }
+  }
+
+  /**
+   * Событие о пользователе. По умолчанию уходит во все организации, где он состоит
+   */
+  async emitForUser(
+    event: WebhookEvent,
+    userId: string,
+    data: Record<string, unknown> = {},
+    organizationIds?: Array<string | null | undefined>,
+  ): Promise<void> {
+    try {
+      const targets =
+        organizationIds ??
+        (
+          await this.orgMembershipRepo.find({
+            where: { userId },
+            select: ['organizationId'],
+          })
+        ).map((membership) => membership.organizationId);
+
+      const user = await this.usersRepo.findOne({ where: { id: userId } });
+      await this.emit(event, targets, {
+        ...data,
+        user: user
+          ? {
+              id: user.id,
+              email: user.email,
+              phone: user.phone,
+              firstName: user.firstName,
+              lastName: user.lastName,
+              emailVerified: user.emailVerified,
+            }
+          : { id: userId },
+      });
+    } catch (error) {
+      this.logger.error(
+        `❌ Не удалось подготовить вебхук ${event}: ${(error as Error).message}`,
+      );
+    }
+  }
+
+  async findEndpoints(organizationId: string): Promise<WebhookEndpoint[]> {
+    return this.endpointsRepo.find({
+      where: { organizationId },
+      order: { createdAt: 'DESC' },
+    });
+  }
+
+  /**
+   * Новый адрес. Секрет подписи возвращается только здесь и при ротации
+   */
+  async createEndpoint(
+    organizationId: string,
+    dto: CreateWebhookEndpointDto,
+    createdBy: string,
+  ): Promise<WebhookEndpoint & { secret: string }> {
+    await this.assertTargetAllowed(dto.url);
+    const secret = generateWebhookSecret();
+    const endpoint = await this.endpointsRepo.save(
+      this.endpointsRepo.create({
+        organizationId,
+        url: dto.url,
+        description: dto.description ?? null,
+        events: dto.events,
+        secret: this.secretCipherService.encrypt(secret),
+        createdBy,
+      }),
+    );
+    return { ...endpoint, secret };
+  }
+
+  async updateEndpoint(
+    organizationId: string,
+    endpointId: string,
+    dto: UpdateWebhookEndpointDto,
+  ): Promise<WebhookEndpoint> {
+    const endpoint = await this.getEndpoint(organizationId, endpointId);
+    if (dto.url) {
+      await this.assertTargetAllowed(dto.url);
+    }
+    Object.assign(endpoint, dto);
+    return this.endpointsRepo.save(endpoint);
+  }
+
+  async rotateSecret(
+    organizationId: string,
+    endpointId: string,
+  ): Promise<{ secret: string }> {
+    await this.getEndpoint(organizationId, endpointId);
+    const secret = generateWebhookSecret();
+    await this.endpointsRepo.update(endpointId, {
+      secret: this.secretCipherService.encrypt(secret),
+    });
+    return { secret };
+  }
+
+  async deleteEndpoint(
+    organizationId: string,
+    endpointId: string,
+  ): Promise<void> {
+    await this.getEndpoint(organizationId, endpointId);
+    await this.endpointsRepo.delete(endpointId);
+  }
+
+  /**
+   * Журнал доставок организации, новые сверху
+   */
+  async findDeliveries(
+    organizationId: string,
+    query: WebhookDeliveriesQueryDto,
+  ): Promise<{ items: WebhookDelivery[]; total: number }> {
+    const [items, total] = await this.deliveriesRepo.findAndCount({
+      where: {
+        organizationId,
+        ...(query.endpointId ? { endpointId: query.endpointId } : {}),
+        ...(query.status ? { status: query.status } : {}),
+        ...(query.event ? { event: query.event } : {}),
+      },
+      order: { createdAt: 'DESC' },
+      take: query.limit ?? 50,
+      skip: query.offset ?? 0,
+    });
+    return { items, total };
+  }
+
+  async getDelivery(
+    organizationId: string,
+    deliveryId: string,
+  ): Promise<WebhookDelivery> {
+    const delivery = await this.deliveriesRepo.findOne({
+      where: { id: deliveryId, organizationId },
+    });
+    if (!delivery) {
+      throw new NotFoundException('Доставка не найдена');
+    }
+    return delivery;
+  }
+
+  /**
+   * Повторная отправка того же события новой доставкой (идентификатор события сохраняется)
+   */
+  async replay(
+    organizationId: string,
+    deliveryId: string,
+  ): Promise<WebhookDelivery> {
+    const original = await this.getDelivery(organizationId, deliveryId);
+    const endpoint = await this.getEndpoint(
+      organizationId,
+      original.endpointId,
+    );
+    if (!endpoint.isActive) {
+      throw new BadRequestException('Адрес вебхука отключён');
+    }
+
+    return this.deliveriesRepo.save(
+      this.deliveriesRepo.create({
+        endpointId: endpoint.id,
+        organizationId,
+        event: original.event,
+        payload: original.payload,
+        replayOfId: original.id,
+      }),
+    );
+  }
+
+  private async assertTargetAllowed(url: string): Promise<void> {
+    try {
+      await assertPublicWebhookUrl(url);
+    } catch (error) {
+      if (error instanceof BadRequestException) {
+        throw error;
+      }
+      throw new BadRequestException('Не удалось разрешить адрес вебхука');
+    }
+  }
+
+  private async getEndpoint(
+    organizationId: string,
+    endpointId: string,
+  ): Promise<WebhookEndpoint> {
+    const endpoint = await this.endpointsRepo.findOne({
+      where: { id: endpointId, organizationId },
+    });
+    if (!endpoint) {
+      throw new NotFoundException('Адрес вебхука не найден');
+    }
+    return endpoint;
+  }
+}
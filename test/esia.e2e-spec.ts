@@ -0,0 +1,128 @@
+import { execFileSync } from 'child_process';
+import { randomUUID } from 'crypto';
+import { mkdtempSync, rmSync } from 'fs';
+import { Server } from 'http';
+import { AddressInfo } from 'net';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { createEsiaStubServer } from '../src/identities/esia/esia-stub.server';
+import { Pkcs12EsiaSigner } from '../src/identities/esia/esia-signer';
+import { EsiaProviderAdapter } from '../src/identities/adapters/esia.adapter';
+
+const REDIRECT_URI =
+  'http://localhost:3001/api/auth/multi/oauth/gosuslugi/callback';
+const SCOPES = ['openid', 'fullname', 'email', 'mobile', 'snils'];
+
+describe('ESIA (e2e, эмулятор)', () => {
+  let dir: string;
+  let server: Server;
+  let baseUrl: string;
+  let signer: Pkcs12EsiaSigner;
+
+  beforeAll(async () => {
+    // Тестовый ключ PKCS#12, как у организации в тестовой среде ЕСИА
+    dir = mkdtempSync(join(tmpdir(), 'esia-'));
+    execFileSync(
+      'openssl',
+      [
+        'req',
+        '-x509',
+        '-newkey',
+        'rsa:2048',
+        '-nodes',
+        '-days',
+        '1',
+        '-subj',
+        '/CN=LOGINUS',
+        '-keyout',
+        join(dir, 'key.pem'),
+        '-out',
+        join(dir, 'cert.pem'),
+      ],
+      { stdio: 'ignore' },
+    );
+    execFileSync('openssl', [
+      'pkcs12',
+      '-export',
+      '-passout',
+      'pass:secret',
+      '-inkey',
+      join(dir, 'key.pem'),
+      '-in',
+      join(dir, 'cert.pem'),
+      '-out',
+      join(dir, 'esia.p12'),
+    ]);
+    signer = new Pkcs12EsiaSigner(join(dir, 'esia.p12'), 'secret');
+
+    server = createEsiaStubServer();
+    await new Promise<void>((resolve) => server.listen(0, resolve));
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  afterAll(async () => {
+    await new Promise((resolve) => server.close(resolve));
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  const authorize = async (adapter: EsiaProviderAdapter, state: string) => {
+    const url = await adapter.getAuthorizationUrl({
+      state,
+      nonce: '',
+      codeChallenge: '',
+      redirectUri: REDIRECT_URI,
+    });
+    return fetch(url, { redirect: 'manual' });
+  };
+
+  it('should sign client_secret and map verified ESIA data', async () => {
+    const adapter = new EsiaProviderAdapter(
+      'LOGINUS',
+      baseUrl,
+      SCOPES,
+      REDIRECT_URI,
+      signer,
+    );
+    const state = randomUUID();
+
+    const response = await authorize(adapter, state);
+    expect(response.status).toBe(302);
+    const callback = new URL(response.headers.get('location')!);
+    expect(callback.searchParams.get('state')).toBe(state);
+
+    const { profile } = await adapter.handleCallback({
+      code: callback.searchParams.get('code')!,
+      nonce: '',
+      codeVerifier: '',
+      redirectUri: REDIRECT_URI,
+    });
+
+    expect(profile).toMatchObject({
+      subject: '1000000001',
+      email: 'ivanov@example.com',
+      emailVerified: true,
+      firstName: 'Иван',
+      lastName: 'Иванов',
+      phone: '+79000000001',
+      phoneVerified: true,
+      identityVerified: true,
+    });
+    expect(profile.raw.hasSnils).toBe(true);
+    expect(JSON.stringify(profile.raw)).not.toContain('000-000-600 06');
+  });
+
+  it('should reject a client_secret that is not a valid signature', async () => {
+    const adapter = new EsiaProviderAdapter(
+      'LOGINUS',
+      baseUrl,
+      SCOPES,
+      REDIRECT_URI,
+      {
+        sign: () => Promise.resolve(Buffer.from('not a signature')),
+      },
+    );
+
+    const response = await authorize(adapter, randomUUID());
+    expect(response.status).toBe(400);
+  });
+});